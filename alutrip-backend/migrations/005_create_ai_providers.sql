@@ -0,0 +1,37 @@
+-- Create ai_providers table (mirrors the AI provider registry, synced on startup)
+CREATE TABLE IF NOT EXISTS ai_providers (
+  name VARCHAR(100) PRIMARY KEY,
+  label VARCHAR(255) NOT NULL,
+  model VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Seed the built-in providers so existing rows satisfy the foreign keys below
+INSERT INTO ai_providers (name, label, model) VALUES
+  ('groq', 'Groq (Fast)', 'llama3-8b-8192'),
+  ('gemini', 'Gemini (Advanced)', 'gemini-2.5-flash')
+ON CONFLICT (name) DO NOTHING;
+
+-- Replace the hard-coded model lists with references to registered providers
+ALTER TABLE travel_questions DROP CONSTRAINT IF EXISTS travel_questions_model_used_check;
+ALTER TABLE itineraries DROP CONSTRAINT IF EXISTS itineraries_model_used_check;
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_model_used_check;
+
+ALTER TABLE travel_questions
+  ADD CONSTRAINT travel_questions_model_used_fkey
+  FOREIGN KEY (model_used) REFERENCES ai_providers(name) ON UPDATE CASCADE;
+
+ALTER TABLE itineraries
+  ADD CONSTRAINT itineraries_model_used_fkey
+  FOREIGN KEY (model_used) REFERENCES ai_providers(name) ON UPDATE CASCADE;
+
+ALTER TABLE messages
+  ADD CONSTRAINT messages_model_used_fkey
+  FOREIGN KEY (model_used) REFERENCES ai_providers(name) ON UPDATE CASCADE;
+
+-- Add comments for documentation
+COMMENT ON TABLE ai_providers IS 'AI providers registered in the application, referenced by model_used columns';
+COMMENT ON COLUMN ai_providers.name IS 'Provider registry name, the value stored in model_used';
+COMMENT ON COLUMN ai_providers.label IS 'Human readable provider name';
+COMMENT ON COLUMN ai_providers.model IS 'Upstream model identifier last reported by the provider';
@@ -0,0 +1,3 @@
+-- Store the validated JSON itinerary next to the raw AI text
+-- NULL when the AI never produced output matching the schema (the raw text is still kept)
+ALTER TABLE itineraries ADD COLUMN IF NOT EXISTS structured_content JSONB;
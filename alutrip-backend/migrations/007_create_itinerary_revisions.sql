@@ -0,0 +1,27 @@
+-- Create itinerary_revisions table (history of days rewritten after an itinerary is completed)
+CREATE TABLE IF NOT EXISTS itinerary_revisions (
+  id SERIAL PRIMARY KEY,
+  itinerary_id INTEGER NOT NULL REFERENCES itineraries(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL, -- Sequential per itinerary, starting at 1
+  day_number INTEGER NOT NULL CHECK (day_number > 0),
+  feedback TEXT, -- What the traveler asked to change (optional)
+  previous_day JSONB NOT NULL,
+  new_day JSONB NOT NULL,
+  model_used VARCHAR(100) NOT NULL REFERENCES ai_providers(name) ON UPDATE CASCADE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (itinerary_id, revision_number)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_itinerary_revisions_itinerary_id ON itinerary_revisions(itinerary_id);
+CREATE INDEX IF NOT EXISTS idx_itinerary_revisions_created_at ON itinerary_revisions(created_at);
+
+-- Add comments for documentation
+COMMENT ON TABLE itinerary_revisions IS 'Stores each regeneration of a single itinerary day';
+COMMENT ON COLUMN itinerary_revisions.itinerary_id IS 'Reference to the edited itinerary';
+COMMENT ON COLUMN itinerary_revisions.revision_number IS 'Revision number within the itinerary';
+COMMENT ON COLUMN itinerary_revisions.day_number IS 'Day of the itinerary that was rewritten';
+COMMENT ON COLUMN itinerary_revisions.feedback IS 'Traveler feedback sent to the AI';
+COMMENT ON COLUMN itinerary_revisions.previous_day IS 'Structured day before the revision';
+COMMENT ON COLUMN itinerary_revisions.new_day IS 'Structured day after the revision';
+COMMENT ON COLUMN itinerary_revisions.model_used IS 'AI model that rewrote the day';
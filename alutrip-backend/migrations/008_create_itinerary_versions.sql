@@ -0,0 +1,44 @@
+-- Create itinerary_versions table (snapshot of the content every time an itinerary is written)
+CREATE TABLE IF NOT EXISTS itinerary_versions (
+  id SERIAL PRIMARY KEY,
+  itinerary_id INTEGER NOT NULL REFERENCES itineraries(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL, -- Sequential per itinerary, starting at 1
+  source VARCHAR(50) NOT NULL CHECK (source IN ('generation', 'day_regeneration', 'restore')),
+  generated_content TEXT NOT NULL,
+  structured_content JSONB,
+  pdf_filename VARCHAR(255),
+  pdf_path VARCHAR(500),
+  model_used VARCHAR(100) NOT NULL REFERENCES ai_providers(name) ON UPDATE CASCADE,
+  prompt_parameters JSONB NOT NULL, -- Request data plus what drove this version (day, feedback, restored version)
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (itinerary_id, version_number)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_itinerary_versions_itinerary_id ON itinerary_versions(itinerary_id);
+CREATE INDEX IF NOT EXISTS idx_itinerary_versions_created_at ON itinerary_versions(created_at);
+
+-- Completed itineraries start with their current content as version 1
+INSERT INTO itinerary_versions (
+  itinerary_id, version_number, source, generated_content, structured_content,
+  pdf_filename, pdf_path, model_used, prompt_parameters, created_at
+)
+SELECT
+  id, 1, 'generation', generated_content, structured_content,
+  pdf_filename, pdf_path, model_used, jsonb_build_object('request_data', request_data),
+  COALESCE(completed_at, created_at)
+FROM itineraries
+WHERE processing_status = 'completed'
+  AND NOT EXISTS (SELECT 1 FROM itinerary_versions WHERE itinerary_versions.itinerary_id = itineraries.id);
+
+-- Add comments for documentation
+COMMENT ON TABLE itinerary_versions IS 'Stores every version of an itinerary content for comparison and restore';
+COMMENT ON COLUMN itinerary_versions.itinerary_id IS 'Reference to the versioned itinerary';
+COMMENT ON COLUMN itinerary_versions.version_number IS 'Version number within the itinerary';
+COMMENT ON COLUMN itinerary_versions.source IS 'What produced the version: generation, day_regeneration or restore';
+COMMENT ON COLUMN itinerary_versions.generated_content IS 'Itinerary content of this version';
+COMMENT ON COLUMN itinerary_versions.structured_content IS 'Validated JSON itinerary of this version (NULL when unstructured)';
+COMMENT ON COLUMN itinerary_versions.pdf_filename IS 'PDF generated for this version';
+COMMENT ON COLUMN itinerary_versions.pdf_path IS 'Path to the PDF generated for this version';
+COMMENT ON COLUMN itinerary_versions.model_used IS 'AI model that produced the version';
+COMMENT ON COLUMN itinerary_versions.prompt_parameters IS 'Parameters sent to the AI for this version';
@@ -0,0 +1,28 @@
+-- Create users table (accounts replacing IP-only identity)
+CREATE TABLE IF NOT EXISTS users (
+  id SERIAL PRIMARY KEY,
+  email VARCHAR(255) NOT NULL UNIQUE, -- Stored lowercase
+  password_hash VARCHAR(255) NOT NULL,
+  name VARCHAR(100),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  last_login_at TIMESTAMP
+);
+
+-- Link questions and itineraries to the user that created them (NULL for anonymous requests)
+ALTER TABLE travel_questions ADD COLUMN IF NOT EXISTS user_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE itineraries ADD COLUMN IF NOT EXISTS user_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_users_created_at ON users(created_at);
+CREATE INDEX IF NOT EXISTS idx_travel_questions_user_id ON travel_questions(user_id);
+CREATE INDEX IF NOT EXISTS idx_itineraries_user_id ON itineraries(user_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE users IS 'Registered user accounts';
+COMMENT ON COLUMN users.email IS 'Login email, unique and lowercase';
+COMMENT ON COLUMN users.password_hash IS 'scrypt hash of the password with its salt';
+COMMENT ON COLUMN users.name IS 'Display name';
+COMMENT ON COLUMN users.last_login_at IS 'Last successful login';
+COMMENT ON COLUMN travel_questions.user_id IS 'User that asked the question (NULL when anonymous)';
+COMMENT ON COLUMN itineraries.user_id IS 'User that requested the itinerary (NULL when anonymous)';
@@ -0,0 +1,25 @@
+-- Create api_keys table (programmatic clients with tiered quotas)
+CREATE TABLE IF NOT EXISTS api_keys (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  key_prefix VARCHAR(16) NOT NULL, -- First characters of the key, to recognize it in listings
+  key_hash CHAR(64) NOT NULL UNIQUE, -- SHA-256 hex of the full key; the key itself is never stored
+  tier VARCHAR(20) NOT NULL DEFAULT 'basic' CHECK (tier IN ('basic', 'pro', 'internal')),
+  created_at TIMESTAMP DEFAULT NOW(),
+  rotated_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  last_used_at TIMESTAMP
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_api_keys_created_at ON api_keys(created_at);
+
+-- Add comments for documentation
+COMMENT ON TABLE api_keys IS 'API keys for programmatic clients; rate limits are counted per key instead of per IP';
+COMMENT ON COLUMN api_keys.name IS 'Client the key was issued to';
+COMMENT ON COLUMN api_keys.key_prefix IS 'Non-secret start of the key shown in listings';
+COMMENT ON COLUMN api_keys.key_hash IS 'SHA-256 hash of the key used for lookups';
+COMMENT ON COLUMN api_keys.tier IS 'Quota tier: basic, pro or internal';
+COMMENT ON COLUMN api_keys.rotated_at IS 'Last time the key was replaced; the previous key stops working';
+COMMENT ON COLUMN api_keys.revoked_at IS 'When the key was revoked (NULL while active)';
+COMMENT ON COLUMN api_keys.last_used_at IS 'Last request authenticated with the key';
@@ -0,0 +1,31 @@
+-- Create rate_limit_events table (daily rate limit history per identity and feature)
+-- Live counters stay in Redis; this table only keeps what happened, for tuning limits
+CREATE TABLE IF NOT EXISTS rate_limit_events (
+  id SERIAL PRIMARY KEY,
+  day DATE NOT NULL DEFAULT CURRENT_DATE,
+  identity_type VARCHAR(10) NOT NULL CHECK (identity_type IN ('ip', 'api_key')),
+  identity VARCHAR(45) NOT NULL, -- IP address (supports IPv6) or API key ID
+  feature VARCHAR(50) NOT NULL CHECK (feature IN ('travel_questions', 'itineraries')),
+  allowed_count INTEGER NOT NULL DEFAULT 0,
+  blocked_count INTEGER NOT NULL DEFAULT 0,
+  refunded_count INTEGER NOT NULL DEFAULT 0,
+  last_event_at TIMESTAMP DEFAULT NOW()
+);
+
+-- One row per day, identity and feature; events increment it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rate_limit_events_day_identity_feature
+  ON rate_limit_events(day, identity_type, identity, feature);
+
+-- Create index for day for reports and cleanup operations
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_day ON rate_limit_events(day);
+
+-- Add comments for documentation
+COMMENT ON TABLE rate_limit_events IS 'Daily counts of allowed, blocked and refunded requests per identity and feature';
+COMMENT ON COLUMN rate_limit_events.day IS 'Day the requests were made';
+COMMENT ON COLUMN rate_limit_events.identity_type IS 'Whether requests were counted per IP or per API key';
+COMMENT ON COLUMN rate_limit_events.identity IS 'Client IP address or API key ID';
+COMMENT ON COLUMN rate_limit_events.feature IS 'Feature being rate limited (travel_questions or itineraries)';
+COMMENT ON COLUMN rate_limit_events.allowed_count IS 'Requests counted against the limit';
+COMMENT ON COLUMN rate_limit_events.blocked_count IS 'Requests rejected because the limit was reached';
+COMMENT ON COLUMN rate_limit_events.refunded_count IS 'Counted requests given back (AI failures, skipped successful requests)';
+COMMENT ON COLUMN rate_limit_events.last_event_at IS 'Timestamp of the last event';
@@ -0,0 +1,18 @@
+-- Create travel_question_embeddings table (vectors for finding semantically close questions)
+-- Stored as a float array so no extension is needed; similarity is computed in SQL
+CREATE TABLE IF NOT EXISTS travel_question_embeddings (
+  question_id INTEGER NOT NULL REFERENCES travel_questions(id) ON DELETE CASCADE,
+  embedding_model VARCHAR(100) NOT NULL, -- Provider and model; only vectors of the same model are compared
+  embedding REAL[] NOT NULL, -- Unit length, so the dot product is the cosine similarity
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (question_id, embedding_model)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_travel_question_embeddings_model ON travel_question_embeddings(embedding_model);
+
+-- Add comments for documentation
+COMMENT ON TABLE travel_question_embeddings IS 'Embeddings of travel questions for related questions and the semantic cache';
+COMMENT ON COLUMN travel_question_embeddings.question_id IS 'Reference to the embedded question';
+COMMENT ON COLUMN travel_question_embeddings.embedding_model IS 'Embedding provider and model that produced the vector';
+COMMENT ON COLUMN travel_question_embeddings.embedding IS 'Normalized embedding of the question text';
@@ -0,0 +1,5 @@
+-- Language the question was answered in (pt-BR, en or es)
+-- Answers are only reused by the semantic cache for questions asked in the same language
+ALTER TABLE travel_questions ADD COLUMN IF NOT EXISTS locale VARCHAR(10) NOT NULL DEFAULT 'pt-BR';
+
+COMMENT ON COLUMN travel_questions.locale IS 'Locale of the prompt and answer';
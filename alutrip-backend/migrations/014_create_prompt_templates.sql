@@ -0,0 +1,37 @@
+-- Create prompt_templates table (versioned prompts editable without a deploy)
+-- Version 0 is reserved for the built-in prompts of src/locales, used while no version of a feature is active
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id SERIAL PRIMARY KEY,
+  feature VARCHAR(50) NOT NULL CHECK (feature IN ('travel_questions', 'itineraries')),
+  locale VARCHAR(10) NOT NULL CHECK (locale IN ('pt-BR', 'en', 'es')),
+  version INTEGER NOT NULL CHECK (version > 0),
+  system_prompt TEXT NOT NULL,
+  user_prompt TEXT NOT NULL,
+  weight INTEGER NOT NULL DEFAULT 0 CHECK (weight >= 0), -- Share of A/B assignments; 0 keeps the version inactive
+  description VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (feature, locale, version)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_active ON prompt_templates(feature, locale) WHERE weight > 0;
+
+-- Template version that produced each answer and itinerary
+ALTER TABLE travel_questions ADD COLUMN IF NOT EXISTS prompt_version INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE itineraries ADD COLUMN IF NOT EXISTS prompt_version INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_travel_questions_prompt_version ON travel_questions(prompt_version);
+CREATE INDEX IF NOT EXISTS idx_itineraries_prompt_version ON itineraries(prompt_version);
+
+-- Add comments for documentation
+COMMENT ON TABLE prompt_templates IS 'Versioned prompt templates per feature and locale, assigned by weight for A/B tests';
+COMMENT ON COLUMN prompt_templates.feature IS 'Feature the prompts are used for: travel_questions or itineraries';
+COMMENT ON COLUMN prompt_templates.locale IS 'Locale of the prompts';
+COMMENT ON COLUMN prompt_templates.version IS 'Version number, increasing per feature and locale';
+COMMENT ON COLUMN prompt_templates.system_prompt IS 'System prompt with {{variable}} placeholders';
+COMMENT ON COLUMN prompt_templates.user_prompt IS 'User prompt with {{variable}} placeholders';
+COMMENT ON COLUMN prompt_templates.weight IS 'Relative share of requests assigned to the version (0 = inactive)';
+COMMENT ON COLUMN prompt_templates.description IS 'What changed in the version';
+COMMENT ON COLUMN travel_questions.prompt_version IS 'Prompt template version of the answer (0 = built-in prompts)';
+COMMENT ON COLUMN itineraries.prompt_version IS 'Prompt template version of the itinerary (0 = built-in prompts)';
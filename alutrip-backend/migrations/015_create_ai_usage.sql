@@ -0,0 +1,46 @@
+-- Create ai_usage table (one row per answered AI provider call, for cost accounting)
+-- Calls that failed are not recorded: providers do not report usage for them
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id SERIAL PRIMARY KEY,
+  feature VARCHAR(50) NOT NULL CHECK (feature IN ('travel_questions', 'itineraries')),
+  model_used VARCHAR(100) NOT NULL, -- Provider registry name
+  provider_model VARCHAR(255) NOT NULL, -- Upstream model the price was looked up for
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  cost_usd DOUBLE PRECISION NOT NULL DEFAULT 0, -- Estimate from the pricing table at the time of the call
+  session_id VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create indexes for reports
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created_at ON ai_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_feature_created_at ON ai_usage(feature, created_at);
+
+-- Usage of the calls behind each answer and itinerary
+ALTER TABLE travel_questions ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE travel_questions ADD COLUMN IF NOT EXISTS completion_tokens INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE travel_questions ADD COLUMN IF NOT EXISTS latency_ms INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE travel_questions ADD COLUMN IF NOT EXISTS cost_usd DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+ALTER TABLE itineraries ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE itineraries ADD COLUMN IF NOT EXISTS completion_tokens INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE itineraries ADD COLUMN IF NOT EXISTS latency_ms INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE itineraries ADD COLUMN IF NOT EXISTS cost_usd DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Add comments for documentation
+COMMENT ON TABLE ai_usage IS 'Tokens, latency and estimated cost of each AI provider call';
+COMMENT ON COLUMN ai_usage.feature IS 'Feature the call was made for (follow-up chat messages count as travel_questions)';
+COMMENT ON COLUMN ai_usage.model_used IS 'Provider that answered the call';
+COMMENT ON COLUMN ai_usage.provider_model IS 'Upstream model identifier of the provider';
+COMMENT ON COLUMN ai_usage.latency_ms IS 'Time the provider took to answer, in milliseconds';
+COMMENT ON COLUMN ai_usage.cost_usd IS 'Estimated cost in USD (0 for models without a price)';
+COMMENT ON COLUMN travel_questions.prompt_tokens IS 'Prompt tokens of the answer (0 for cached answers)';
+COMMENT ON COLUMN travel_questions.completion_tokens IS 'Completion tokens of the answer';
+COMMENT ON COLUMN travel_questions.latency_ms IS 'Time taken to answer, in milliseconds';
+COMMENT ON COLUMN travel_questions.cost_usd IS 'Estimated cost of the answer in USD';
+COMMENT ON COLUMN itineraries.prompt_tokens IS 'Prompt tokens of every call behind the itinerary, regenerated days included';
+COMMENT ON COLUMN itineraries.completion_tokens IS 'Completion tokens of every call behind the itinerary';
+COMMENT ON COLUMN itineraries.latency_ms IS 'Time spent waiting for AI providers, in milliseconds';
+COMMENT ON COLUMN itineraries.cost_usd IS 'Estimated cost of the itinerary in USD';
@@ -0,0 +1,23 @@
+-- Create ai_budgets table (spending limits per provider or feature, checked against ai_usage before each AI call)
+CREATE TABLE IF NOT EXISTS ai_budgets (
+  id SERIAL PRIMARY KEY,
+  scope VARCHAR(20) NOT NULL CHECK (scope IN ('provider', 'feature')),
+  target VARCHAR(100) NOT NULL, -- Provider registry name or feature
+  period VARCHAR(20) NOT NULL CHECK (period IN ('daily', 'monthly')),
+  limit_usd DOUBLE PRECISION NOT NULL CHECK (limit_usd > 0),
+  reset_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (scope, target, period)
+);
+
+-- Spend per provider is summed by model_used
+CREATE INDEX IF NOT EXISTS idx_ai_usage_model_used_created_at ON ai_usage(model_used, created_at);
+
+-- Add comments for documentation
+COMMENT ON TABLE ai_budgets IS 'Daily and monthly AI spending limits per provider or feature';
+COMMENT ON COLUMN ai_budgets.scope IS 'What the budget limits: a provider or a feature';
+COMMENT ON COLUMN ai_budgets.target IS 'Provider registry name (scope provider) or feature (scope feature)';
+COMMENT ON COLUMN ai_budgets.period IS 'daily (calendar day) or monthly (calendar month)';
+COMMENT ON COLUMN ai_budgets.limit_usd IS 'Estimated spend in USD after which AI calls are refused';
+COMMENT ON COLUMN ai_budgets.reset_at IS 'Last reset; spend before it does not count towards the current period';
@@ -0,0 +1,7 @@
+-- Link conversations to the user that started them (NULL for anonymous conversations)
+-- A conversation is only served to its user or to the session it was started in
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS user_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_user_id ON conversations(user_id);
+
+COMMENT ON COLUMN conversations.user_id IS 'User that started the conversation (NULL when anonymous)';
@@ -9,7 +9,10 @@ import { initializeRedis } from './config/redis';
 import { initializeQueue } from './config/queue';
 import { startWorker } from './jobs/worker';
 import { startAutoFallback } from './jobs/auto-fallback.job';
+import { startRateLimitCleanup } from './jobs/rate-limit-cleanup.job';
 import { routes } from './routes';
+import { providerRegistry } from './services/providers/registry';
+import { AIProvidersModel } from './models/ai-providers.model';
 import swaggerUi from 'swagger-ui-express';
 import { swaggerSpec } from './config/swagger';
 import { errorHandler, notFoundHandler } from './middleware/error-handler';
@@ -41,7 +44,8 @@ const corsOptions = {
   credentials: config.CORS_CREDENTIALS,
   optionsSuccessStatus: 200,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Session-Id'],
+  exposedHeaders: ['X-Session-Id']
 };
 
 app.use(cors(corsOptions));
@@ -88,11 +92,13 @@ app.use(errorHandler);
 const initializeServices = async(): Promise<void> => {
   try {
     await initializeDatabase();
+    await AIProvidersModel.sync(providerRegistry.describe());
     await initializeRedis();
     await initializeQueue();
     
     await startWorker();
     startAutoFallback();
+    startRateLimitCleanup();
     
     logger.info('All services initialized successfully');
   } catch (error) {
@@ -121,6 +127,9 @@ const gracefulShutdown = async(signal: string): Promise<void> => {
     
     const { stopAutoFallback } = await import('./jobs/auto-fallback.job');
     stopAutoFallback();
+
+    const { stopRateLimitCleanup } = await import('./jobs/rate-limit-cleanup.job');
+    stopRateLimitCleanup();
     
     logger.info('All connections closed, exiting process');
     process.exit(0);
@@ -178,13 +187,9 @@ const startServer = async(): Promise<void> => {
       console.log(`   📊 Rate Limiting: IP-based (${config.RATE_LIMIT_REQUESTS} requests/24h per feature)`);
       console.log('');
       
-      const warnings = [];
-      if (config.GROQ_API_KEY.includes('your-groq-api-key')) {
-        warnings.push('⚠️  Groq API Key is using default value');
-      }
-      if (config.GEMINI_API_KEY.includes('your-gemini-api-key')) {
-        warnings.push('⚠️  Gemini API Key is using default value');
-      }
+      const warnings = providerRegistry.describe()
+        .filter(provider => !provider.available)
+        .map(provider => `⚠️  ${provider.label} is not configured`);
       
       if (warnings.length > 0) {
         console.log('⚠️  CONFIGURATION WARNINGS:');
@@ -3,6 +3,22 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+// Comma separated list, e.g. "groq,gemini"
+const listSchema = z.string().transform(val => val.split(',').map(item => item.trim()).filter(Boolean));
+
+// JSON object of upstream model to USD per million tokens, e.g. {"gemini-2.5-flash":{"input":0.3,"output":2.5}}
+const pricingSchema = z.string().transform((val, ctx) => {
+  try {
+    return JSON.parse(val) as unknown;
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'AI_PRICING must be a JSON object' });
+    return z.NEVER;
+  }
+}).pipe(z.record(z.object({
+  input: z.number().min(0),
+  output: z.number().min(0)
+})));
+
 const envSchema = z.object({
   // Server
   PORT: z.string().transform(Number).default('3000'),
@@ -17,11 +33,63 @@ const envSchema = z.object({
   GROQ_MODEL: z.string().default('llama3-8b-8192'),
   GEMINI_API_KEY: z.string().default('your-gemini-api-key'),
   GEMINI_MODEL: z.string().default('gemini-2.5-flash'),
+  OPENAI_COMPATIBLE_NAME: z.string().default('openai'),
+  OPENAI_COMPATIBLE_LABEL: z.string().default('OpenAI Compatible'),
+  OPENAI_COMPATIBLE_BASE_URL: z.string().default(''),
+  OPENAI_COMPATIBLE_API_KEY: z.string().default(''),
+  OPENAI_COMPATIBLE_MODEL: z.string().default(''),
+  AI_MOCK_PROVIDER: z.string().transform(val => val === 'true').default('false'),
+  
+  // AI Failover (comma separated provider names, tried in order)
+  AI_FAILOVER_TRAVEL_QUESTIONS: listSchema.default('groq,gemini'),
+  AI_FAILOVER_ITINERARIES: listSchema.default('groq,gemini'),
+  AI_CIRCUIT_BREAKER_THRESHOLD: z.string().transform(Number).default('3'),
+  AI_CIRCUIT_BREAKER_COOLDOWN: z.string().transform(Number).default('60000'),
+  
+  // AI Cost Accounting (prices added to or overriding src/constants/ai-pricing.ts)
+  AI_PRICING: pricingSchema.default('{}'),
+  
+  // AI Budgets (limits are managed through /api/admin/budgets)
+  AI_BUDGET_DEGRADE_AT: z.string().transform(Number).default('0.8'), // Share spent before cheaper providers go first
+  AI_BUDGET_CACHE_TTL: z.string().transform(Number).default('30'), // Seconds
+  
+  // Itinerary Generation (attempts to get a structured JSON itinerary before keeping the raw text)
+  ITINERARY_STRUCTURED_MAX_ATTEMPTS: z.string().transform(Number).default('3'),
+  ITINERARY_MAX_DAYS: z.string().transform(Number).default('30'),
+  ITINERARY_DAYS_PER_CHUNK: z.string().transform(Number).default('5'), // Longer trips are generated in chunks
+  ITINERARY_DAY_REGENERATION_LIMIT: z.string().transform(Number).default('20'), // Per IP per 24 hours
   
   // Rate Limiting
   RATE_LIMIT_REQUESTS: z.string().transform(Number).default('5'),
   RATE_LIMIT_WINDOW: z.string().transform(Number).default('86400000'),
   RATE_LIMIT_CLEANUP_INTERVAL: z.string().transform(Number).default('3600000'),
+  RATE_LIMIT_ALGORITHM_TRAVEL_QUESTIONS: z.enum(['fixed_window', 'sliding_log', 'token_bucket']).default('fixed_window'),
+  RATE_LIMIT_ALGORITHM_ITINERARIES: z.enum(['fixed_window', 'sliding_log', 'token_bucket']).default('fixed_window'),
+  RATE_LIMIT_REFUND_ON_AI_FAILURE: z.string().transform(val => val === 'true').default('false'),
+  RATE_LIMIT_HISTORY_RETENTION_DAYS: z.string().transform(Number).default('90'),
+  
+  // Response Cache (answers to repeated travel questions)
+  RESPONSE_CACHE_ENABLED: z.string().transform(val => val === 'true').default('true'),
+  RESPONSE_CACHE_TTL: z.string().transform(Number).default('86400'), // Seconds
+  
+  // Embeddings (related questions and the semantic cache)
+  EMBEDDING_PROVIDER: z.enum(['local', 'gemini']).default('local'),
+  GEMINI_EMBEDDING_MODEL: z.string().default('text-embedding-004'),
+  RELATED_QUESTIONS_MIN_SIMILARITY: z.string().transform(Number).default('0.5'),
+  SEMANTIC_CACHE_ENABLED: z.string().transform(val => val === 'true').default('false'),
+  SEMANTIC_CACHE_MIN_SIMILARITY: z.string().transform(Number).default('0.92'),
+  
+  // Topic Classifier (filter for questions that are not about travel)
+  TOPIC_CLASSIFIER: z.enum(['keyword', 'naive_bayes', 'llm']).default('naive_bayes'),
+  TOPIC_LLM_JUDGE_ENABLED: z.string().transform(val => val === 'true').default('false'),
+  TOPIC_LLM_JUDGE_MODEL: z.string().default('groq'),
+  TOPIC_LLM_JUDGE_THRESHOLD: z.string().transform(Number).default('0.75'), // Decisions below it go to the judge
+  
+  // Localization (language of prompts, refusals and PDFs when the request does not choose one)
+  DEFAULT_LOCALE: z.enum(['pt-BR', 'en', 'es']).default('pt-BR'),
+  
+  // Prompt Templates (versioned prompts stored in Postgres, reloaded after the TTL)
+  PROMPT_TEMPLATE_CACHE_TTL: z.string().transform(Number).default('60'), // Seconds
   
   // PDF Configuration
   PDF_STORAGE_PATH: z.string().default('./pdfs'),
@@ -41,13 +109,22 @@ const envSchema = z.object({
   HTTP_TIMEOUT: z.string().transform(Number).default('30000'),
   GROQ_TIMEOUT: z.string().transform(Number).default('60000'),
   GEMINI_TIMEOUT: z.string().transform(Number).default('60000'),
+  OPENAI_COMPATIBLE_TIMEOUT: z.string().transform(Number).default('60000'),
   
   // CORS Configuration
   CORS_ORIGIN: z.string().default('http://localhost:5173'),
   CORS_CREDENTIALS: z.string().transform(val => val === 'true').default('false'),
   
-  // Session Configuration
-  SESSION_TIMEOUT: z.string().transform(Number).default('7200000')
+  // Session Configuration (anonymous sessions for the x-session-id header)
+  SESSION_TIMEOUT: z.string().transform(Number).default('7200000'), // Milliseconds of inactivity
+  SESSION_SECRET: z.string().min(32), // No default, a known secret would let anyone forge session tokens
+  
+  // Authentication (HS256 signed tokens); no default, a known secret would let anyone forge tokens
+  JWT_SECRET: z.string().min(32),
+  JWT_EXPIRES_IN: z.string().transform(Number).default('604800'), // Seconds
+
+  // Admin endpoints (/api/admin), disabled unless a token is set
+  ADMIN_API_TOKEN: z.string().min(16).optional()
 });
 
 type EnvType = z.infer<typeof envSchema>;
@@ -1,7 +1,8 @@
-import { Queue, Worker } from 'bullmq';
+import { Queue, QueueEvents, Worker } from 'bullmq';
 import Redis from 'ioredis';
 import { config } from './env';
 import { logger } from './logger';
+import { AIModel, RateLimitCharge } from '../types/travel';
 
 /**
  * Queue configuration and setup for background job processing
@@ -38,6 +39,8 @@ export const itineraryQueue = new Queue('itinerary_processing', {
 
 export let itineraryWorker: Worker | null = null;
 
+let itineraryQueueEvents: QueueEvents | null = null;
+
 itineraryQueue.on('error', (error: Error) => {
   logger.error('Itinerary queue error', { 
     context: 'queue', 
@@ -77,6 +80,10 @@ export const closeQueue = async (): Promise<void> => {
     if (itineraryWorker) {
       await itineraryWorker.close();
     }
+    if (itineraryQueueEvents) {
+      await itineraryQueueEvents.close();
+      itineraryQueueEvents = null;
+    }
 
     logger.info('BullMQ queue connections closed', { context: 'queue' });
   } catch (error) {
@@ -87,14 +94,37 @@ export const closeQueue = async (): Promise<void> => {
   }
 };
 
+/**
+ * Events of the itinerary queue, such as the progress its jobs report, read from Redis whichever process runs the worker
+ * The connection is opened on first use
+ */
+export const getItineraryQueueEvents = (): QueueEvents => {
+  if (!itineraryQueueEvents) {
+    itineraryQueueEvents = new QueueEvents('itinerary_processing', { connection: redisOptions });
+
+    itineraryQueueEvents.on('error', (error: Error) => {
+      logger.error('Itinerary queue events error', {
+        context: 'queue',
+        error: error.message
+      });
+    });
+  }
+
+  return itineraryQueueEvents;
+};
+
 /**
  * Add job to itinerary processing queue
  */
-export const addItineraryJob = async (itineraryId: number): Promise<void> => {
+export const addItineraryJob = async (
+  itineraryId: number,
+  model?: AIModel,
+  rateLimitCharge?: RateLimitCharge | null
+): Promise<void> => {
   try {
     const job = await itineraryQueue.add(
       'process-itinerary',
-      { itineraryId },
+      { itineraryId, ...(model && { model }), ...(rateLimitCharge && { rateLimitCharge }) },
       {
         priority: 1,
         delay: 0,
@@ -104,7 +134,8 @@ export const addItineraryJob = async (itineraryId: number): Promise<void> => {
     logger.info('Itinerary job added to queue', {
       context: 'queue',
       jobId: job.id,
-      itineraryId
+      itineraryId,
+      model
     });
   } catch (error) {
     logger.error('Failed to add itinerary job to queue', {
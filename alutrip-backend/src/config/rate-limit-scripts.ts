@@ -0,0 +1,129 @@
+import { redis } from './redis';
+import { logger } from './logger';
+import { RateLimitAlgorithm } from '../types/travel';
+
+/**
+ * Lua scripts for the sliding log and token bucket algorithms
+ *
+ * Each script checks and updates its key in one atomic step, so concurrent requests
+ * cannot both take the last slot. They share the same arguments and result:
+ *   KEYS[1]  counter key
+ *   ARGV[1]  current time (ms)
+ *   ARGV[2]  window (ms)
+ *   ARGV[3]  requests allowed per window
+ *   ARGV[4]  cost: 1 to use a request, 0 to only read, -1 to give one back
+ *   ARGV[5]  sliding log entry to add or remove
+ * Result: { allowed (1/0), used, ms until the next used request is given back }
+ */
+
+// Sorted set with one entry per request, scored by its time; entries older than the window are dropped
+const SLIDING_LOG_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+
+if cost < 0 then
+  redis.call('ZREM', KEYS[1], ARGV[5])
+end
+
+local used = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+
+if cost > 0 and used < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[5])
+  redis.call('PEXPIRE', KEYS[1], window)
+  used = used + 1
+  allowed = 1
+end
+
+local reset = 0
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+if oldest[2] then
+  reset = tonumber(oldest[2]) + window - now
+end
+
+return { allowed, used, reset }
+`;
+
+// Hash with the tokens left and the last update; the bucket refills to the limit over one window
+const TOKEN_BUCKET_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local capacity = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+local rate = capacity / window
+
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updated_at')
+local tokens = tonumber(state[1]) or capacity
+local updated = tonumber(state[2]) or now
+
+tokens = math.min(capacity, tokens + math.max(0, now - updated) * rate)
+
+local allowed = 0
+
+if cost > 0 and tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+elseif cost < 0 then
+  tokens = math.min(capacity, tokens - cost)
+end
+
+if cost ~= 0 then
+  redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated_at', tostring(now))
+  redis.call('PEXPIRE', KEYS[1], window)
+end
+
+local used = capacity - math.floor(tokens)
+local reset = 0
+if used > 0 then
+  reset = math.ceil((math.floor(tokens) + 1 - tokens) / rate)
+end
+
+return { allowed, used, reset }
+`;
+
+const RATE_LIMIT_SCRIPTS: Record<Exclude<RateLimitAlgorithm, 'fixed_window'>, string> = {
+  sliding_log: SLIDING_LOG_SCRIPT,
+  token_bucket: TOKEN_BUCKET_SCRIPT
+};
+
+export interface RateLimitScriptResult {
+  allowed: boolean;
+  used: number;
+  resetMs: number;
+}
+
+export interface RateLimitScriptArgs {
+  limit: number;
+  windowMs: number;
+  cost: 1 | 0 | -1;
+  entry?: string;
+  now?: number;
+}
+
+export const runRateLimitScript = async(
+  algorithm: Exclude<RateLimitAlgorithm, 'fixed_window'>,
+  key: string,
+  args: RateLimitScriptArgs
+): Promise<RateLimitScriptResult> => {
+  try {
+    const [allowed, used, resetMs] = await redis.eval(
+      RATE_LIMIT_SCRIPTS[algorithm],
+      1,
+      key,
+      args.now ?? Date.now(),
+      args.windowMs,
+      args.limit,
+      args.cost,
+      args.entry ?? ''
+    ) as [number, number, number];
+
+    return { allowed: allowed === 1, used, resetMs };
+  } catch (error) {
+    logger.error('Failed to run rate limit script', { key, algorithm, error: (error as Error).message });
+    throw error;
+  }
+};
@@ -92,6 +92,24 @@ export const incrementRateLimit = async(key: string, windowMs: number): Promise<
   }
 };
 
+// Gives back one request of a fixed window counter; an expired or empty counter is left alone
+const DECREMENT_RATE_LIMIT_SCRIPT = `
+if tonumber(redis.call('GET', KEYS[1]) or '0') > 0 then
+  return redis.call('DECR', KEYS[1])
+end
+return 0
+`;
+
+export const decrementRateLimit = async(key: string): Promise<void> => {
+  try {
+    const count = await redis.eval(DECREMENT_RATE_LIMIT_SCRIPT, 1, key);
+    logger.debug('Rate limit decremented', { key, count });
+  } catch (error) {
+    logger.error('Failed to decrement rate limit', { key, error: (error as Error).message });
+    throw error;
+  }
+};
+
 export const getRateLimitTTL = async(key: string): Promise<number> => {
   try {
     const ttl = await redis.ttl(key);
@@ -102,6 +120,16 @@ export const getRateLimitTTL = async(key: string): Promise<number> => {
   }
 };
 
+export const resetRateLimit = async(key: string): Promise<void> => {
+  try {
+    await redis.del(key);
+    logger.debug('Rate limit reset', { key });
+  } catch (error) {
+    logger.error('Failed to reset rate limit', { key, error: (error as Error).message });
+    throw error;
+  }
+};
+
 export const getCachedValue = async(key: string): Promise<string | null> => {
   try {
     const value = await redis.get(key);
@@ -135,6 +163,28 @@ export const deleteCachedValue = async(key: string): Promise<void> => {
   }
 };
 
+/**
+ * Delete every key matching a glob pattern, scanning instead of KEYS so Redis is not blocked
+ */
+export const deleteCachedValuesByPattern = async(pattern: string): Promise<number> => {
+  try {
+    let deleted = 0;
+    const stream = redis.scanStream({ match: pattern, count: 100 });
+
+    for await (const keys of stream as AsyncIterable<string[]>) {
+      if (keys.length > 0) {
+        deleted += await redis.del(...keys);
+      }
+    }
+
+    logger.debug('Cache delete by pattern', { pattern, deleted });
+    return deleted;
+  } catch (error) {
+    logger.error('Failed to delete cached values', { pattern, error: (error as Error).message });
+    throw error;
+  }
+};
+
 export const closeRedis = async(): Promise<void> => {
   try {
     await redis.quit();
@@ -6,7 +6,8 @@ const swaggerDefinition = {
   info: {
     title: 'AluTrip Travel Assistant API',
     version: '1.0.0',
-    description: 'Open API for AluTrip - travel questions and itinerary planning. No authentication required.',
+    description: 'Open API for AluTrip - travel questions and itinerary planning. Authentication is optional, '
+      + 'except for the history endpoints.',
   },
   servers: [
     {
@@ -18,8 +19,41 @@ const swaggerDefinition = {
     { name: 'Health', description: 'Health and readiness endpoints' },
     { name: 'Travel Q&A', description: 'Ask and retrieve travel questions' },
     { name: 'Itinerary Planning', description: 'Create and manage itineraries' },
+    { name: 'Chat', description: 'Multi-turn conversations on top of travel questions' },
+    { name: 'Auth', description: 'User accounts and access tokens' },
+    { name: 'Session', description: 'Anonymous sessions issued through the x-session-id header' },
+    { name: 'Rate Limits', description: 'Remaining quota per feature' },
+    { name: 'Admin', description: 'Operator endpoints, require the x-admin-token header' },
   ],
   components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: 'http',
+        scheme: 'bearer',
+        bearerFormat: 'JWT',
+      },
+      apiKey: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'x-api-key',
+        description: 'Optional key for programmatic clients; rate limits follow the key tier instead of the IP',
+      },
+      adminToken: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'x-admin-token',
+      },
+    },
+    parameters: {
+      SessionHeader: {
+        name: 'x-session-id',
+        in: 'header',
+        required: false,
+        description: 'Session token from a previous X-Session-Id response header. Missing, forged or expired '
+          + 'tokens start a new session, returned in the X-Session-Id response header.',
+        schema: { type: 'string' },
+      },
+    },
     responses: {
       RateLimited: {
         description: 'Rate limit exceeded',
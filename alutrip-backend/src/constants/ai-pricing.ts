@@ -0,0 +1,21 @@
+import { AIModelPricing } from '../types/ai';
+
+/**
+ * Published list prices, in USD per million tokens, of the upstream models the providers default to
+ * AI_PRICING adds models or overrides these; calls to models without a price are recorded with a cost of 0
+ */
+export const DEFAULT_AI_PRICING: Record<string, AIModelPricing> = {
+  // Groq
+  'llama3-8b-8192': { input: 0.05, output: 0.08 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+
+  // Gemini
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+
+  // Local development
+  'mock-echo': { input: 0, output: 0 }
+};
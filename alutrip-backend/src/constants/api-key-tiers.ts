@@ -0,0 +1,22 @@
+import { ApiKeyTier, ApiKeyTierQuotas } from '../types/api-key';
+
+/**
+ * Requests allowed per RATE_LIMIT_WINDOW for each API key tier
+ * Callers without a key keep the RATE_LIMIT_REQUESTS limit per IP
+ */
+export const API_KEY_TIER_QUOTAS: Record<ApiKeyTier, ApiKeyTierQuotas> = {
+  basic: {
+    travel_questions: 50,
+    itineraries: 20
+  },
+  pro: {
+    travel_questions: 500,
+    itineraries: 100
+  },
+  internal: {
+    travel_questions: 5000,
+    itineraries: 1000
+  }
+};
+
+export const API_KEY_TIERS = Object.keys(API_KEY_TIER_QUOTAS) as ApiKeyTier[];
@@ -0,0 +1,24 @@
+import { AIFeature } from '../types/ai';
+import { PromptTemplatePart, PromptTemplateVariables } from '../types/prompt-template';
+
+/**
+ * {{variable}} placeholders each prompt template may use
+ * travel_questions: the user prompt wraps the question (follow-up chat messages keep the built-in wrapper)
+ * itineraries: the system prompt is used at every generation stage and must embed the requested JSON format;
+ * the user prompt replaces the built-in one of itineraries generated in a single request
+ */
+export const PROMPT_TEMPLATE_VARIABLES: Record<AIFeature, Record<PromptTemplatePart, PromptTemplateVariables>> = {
+  travel_questions: {
+    system_prompt: { required: [], optional: [] },
+    user_prompt: { required: ['question'], optional: [] }
+  },
+  itineraries: {
+    system_prompt: { required: ['json_format'], optional: [] },
+    user_prompt: { required: ['trip_info'], optional: ['start_date', 'transfers'] }
+  }
+};
+
+export const PROMPT_TEMPLATE_FEATURES = Object.keys(PROMPT_TEMPLATE_VARIABLES) as AIFeature[];
+
+// {{ name }} placeholder; always used with matchAll or replace, which reset the global state
+export const PROMPT_VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
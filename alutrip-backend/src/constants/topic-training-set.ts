@@ -0,0 +1,208 @@
+import { LabeledQuestion } from '../types/ai';
+
+/**
+ * Labeled questions the naive Bayes topic classifier is trained on
+ * Add the question of a wrong decision here (with the right label) to correct the classifier
+ */
+
+/**
+ * Questions about travel, tourism, destinations, food and lodging on a trip (English and Portuguese)
+ */
+const TRAVEL_QUESTIONS = [
+  // Destinations and sightseeing (English)
+  'Where should I go in Paris?',
+  'What are the must see attractions in Rome?',
+  'Is Lisbon worth visiting in winter?',
+  'Best beaches in Thailand for a family vacation',
+  'Which neighborhoods should I explore in Barcelona?',
+  'What is the best time to visit Japan?',
+  'Top things to do in New York City for first time visitors',
+  'Is it worth taking a day trip from Porto to the Douro Valley?',
+  'Which islands in Greece are less crowded in summer?',
+  'Hidden gems to visit in Mexico City',
+  'Where can I see the northern lights in Iceland?',
+  'What are the best national parks in the United States?',
+  'How many days do I need to see Istanbul?',
+  'Which museums should I visit in Amsterdam?',
+
+  // Food and dining (English)
+  'Where to eat in Porto?',
+  'Restaurant recommendations in Rome',
+  'What local dishes should I try in Vietnam?',
+  'Best street food markets in Bangkok',
+  'Where can I find good seafood near the beach in Lisbon?',
+  'Is tipping expected in restaurants in Japan?',
+
+  // Lodging (English)
+  'Best hotels in Tokyo',
+  'Which area of London is best to stay in?',
+  'Are hostels in Berlin safe for solo travelers?',
+  'Cheap places to stay near the Eiffel Tower',
+
+  // Transport (English)
+  'How do I get from the airport to downtown Madrid?',
+  'Is it better to rent a car or take the train in Italy?',
+  'How long is the ferry from Athens to Santorini?',
+  'Which airline has the cheapest flights to Lisbon?',
+  'Do I need a rail pass to travel around Switzerland?',
+
+  // Planning, documents and money (English)
+  'How much does a trip to Thailand cost?',
+  'What to pack for a trip to Iceland?',
+  'Do I need a visa to visit Brazil?',
+  'Which vaccines do I need before traveling to Kenya?',
+  'Should I buy travel insurance for a trip to Europe?',
+  'How much money should I bring for a week in Peru?',
+  'What currency should I use in Prague?',
+  'Plan a 5 day itinerary for Kyoto',
+  'Is it safe to travel alone in Colombia?',
+  'What should I wear when visiting temples in Bali?',
+  'What is the weather like in Patagonia in March?',
+  'Tips for a honeymoon trip to the Maldives',
+  'Is Cancun a good destination for spring break?',
+
+  // Destinations and sightseeing (Portuguese)
+  'O que fazer em Paris?',
+  'Quais são os pontos turísticos imperdíveis de Roma?',
+  'Vale a pena conhecer Lisboa no inverno?',
+  'Melhores praias do Nordeste para viajar com crianças',
+  'Quantos dias ficar em Buenos Aires?',
+  'Qual a melhor época para visitar Fernando de Noronha?',
+  'Roteiro de uma semana pela Serra Gaúcha',
+  'Passeios imperdíveis em Foz do Iguaçu',
+  'O que visitar no Chile em julho?',
+  'Quais cidades conhecer em uma viagem pela Europa?',
+
+  // Food and dining (Portuguese)
+  'Onde comer bem no Porto?',
+  'Restaurantes típicos em Salvador',
+  'Comidas que preciso provar em Portugal',
+  'Onde tomar café da manhã perto da Times Square?',
+
+  // Lodging (Portuguese)
+  'Melhores hotéis em Gramado',
+  'Qual bairro ficar hospedado no Rio de Janeiro?',
+  'Pousadas baratas em Paraty',
+  'Vale a pena alugar um apartamento em Madri em vez de hotel?',
+
+  // Transport (Portuguese)
+  'Como ir do aeroporto de Guarulhos até o centro de São Paulo?',
+  'Trem ou ônibus para viajar de Lisboa ao Porto?',
+  'Passagem aérea barata para Orlando',
+  'Preciso alugar carro para conhecer a Toscana?',
+
+  // Planning, documents and money (Portuguese)
+  'Quanto custa uma viagem para a Disney?',
+  'O que levar na mala para o Canadá no inverno?',
+  'Preciso de visto para viajar para os Estados Unidos?',
+  'Quais vacinas tomar antes de viajar para a Tailândia?',
+  'Seguro viagem é obrigatório na Europa?',
+  'Quanto dinheiro levar para uma semana em Santiago?',
+  'Dicas para viajar sozinha pela primeira vez',
+  'É seguro viajar para o México?',
+  'Como é o clima em Bariloche em agosto?',
+  'Lua de mel nas Maldivas ou em Bali?'
+];
+
+/**
+ * Questions on other subjects, including ones that share words with travel (insurance, car, booking, eat)
+ */
+const NON_TRAVEL_QUESTIONS = [
+  // Technology (English)
+  'How to code in JavaScript?',
+  'What is machine learning?',
+  'How to fix my computer?',
+  'Why is my laptop running slow?',
+  'How do I reset my phone to factory settings?',
+  'Explain the difference between SQL and NoSQL databases',
+  'How do I deploy a website to the cloud?',
+  'Write a Python function to sort a list',
+  'What is the best programming language for beginners?',
+  'How do I fix a null pointer exception in Java?',
+
+  // Health (English)
+  'How to lose weight?',
+  'What are the symptoms of diabetes?',
+  'Is it safe to take ibuprofen with coffee?',
+  'How much sleep does an adult need?',
+  'What should I eat to lower my cholesterol?',
+  'How do I treat a sprained ankle?',
+
+  // Finance, insurance and legal (English)
+  'How do I file a car insurance claim?',
+  'Should I invest in index funds or stocks?',
+  'How does a mortgage work?',
+  'What is the best credit card for cashback?',
+  'How do I dispute a charge with my bank?',
+  'How do I write a rental contract?',
+  'Can my landlord raise the rent in the middle of a lease?',
+  'How do I pay less income tax?',
+
+  // Car and home (English)
+  'How often should I change the oil in my car?',
+  'Why does my car make a noise when braking?',
+  'How do I unclog a kitchen sink?',
+  'What paint should I use for a bathroom?',
+
+  // Education, work and science (English)
+  'Help me with my math homework',
+  'How do I prepare for a job interview?',
+  'How to write a good resume?',
+  'What is the capital of Mars?',
+  'Explain the theory of relativity',
+  'How do I ask my boss for a raise?',
+  'Solve this equation for x',
+
+  // Entertainment, sports and cooking (English)
+  'Who won the football world cup in 2014?',
+  'Recommend me a good movie to watch tonight',
+  'What are the rules of basketball?',
+  'Give me a recipe for chocolate cake',
+  'How do I book a table tennis court at my gym?',
+  'Write a poem about love',
+
+  // Technology (Portuguese)
+  'Como programar em Python?',
+  'O que é inteligência artificial?',
+  'Meu computador não liga, o que fazer?',
+  'Como formatar o celular?',
+  'Como criar um site do zero?',
+  'Qual a diferença entre React e Angular?',
+
+  // Health (Portuguese)
+  'Como emagrecer rápido?',
+  'Quais os sintomas da dengue?',
+  'Posso tomar remédio para dor de cabeça com álcool?',
+  'Qual a melhor dieta para ganhar massa muscular?',
+
+  // Finance, insurance and legal (Portuguese)
+  'Como acionar o seguro do carro depois de uma batida?',
+  'Vale a pena investir em ações ou no tesouro direto?',
+  'Como declarar imposto de renda?',
+  'Como funciona o financiamento de um imóvel?',
+  'Como cancelar o cartão de crédito?',
+  'Quais os meus direitos em caso de demissão?',
+
+  // Car and home (Portuguese)
+  'De quanto em quanto tempo trocar o óleo do carro?',
+  'Como consertar uma torneira pingando?',
+  'Qual a melhor tinta para parede de banheiro?',
+
+  // Education, work and science (Portuguese)
+  'Me ajuda com a lição de matemática',
+  'Como me preparar para uma entrevista de emprego?',
+  'Como fazer um currículo?',
+  'Explique a fotossíntese',
+  'Qual a fórmula de Bhaskara?',
+
+  // Entertainment, sports and cooking (Portuguese)
+  'Quem ganhou o campeonato brasileiro de futebol?',
+  'Me indica uma série para assistir',
+  'Receita de bolo de cenoura',
+  'Escreva uma música sobre amor'
+];
+
+export const TOPIC_TRAINING_SET: LabeledQuestion[] = [
+  ...TRAVEL_QUESTIONS.map(text => ({ text, travel: true })),
+  ...NON_TRAVEL_QUESTIONS.map(text => ({ text, travel: false }))
+];
@@ -0,0 +1,198 @@
+import { Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { aiService } from '../services/ai.service';
+import { aiBudgetService } from '../services/ai-budget.service';
+import { logger } from '../config/logger';
+import { config } from '../config/env';
+import { setAIBudgetSchema } from '../schemas/ai-budget.schemas';
+import { idParamSchema } from '../schemas/travel.schemas';
+import { ApiResponse, ErrorResponse, ErrorType } from '../types/api';
+import { AIBudget, AIBudgetBurn } from '../types/ai';
+
+const validationErrorResponse = (error: ZodError): ErrorResponse => ({
+  status: 'error',
+  message: 'Invalid request data',
+  data: {
+    type: ErrorType.VALIDATION_ERROR,
+    errors: error.errors.map(err => ({
+      field: err.path.join('.'),
+      message: err.message
+    }))
+  }
+});
+
+const notFoundResponse: ErrorResponse = {
+  status: 'error',
+  message: 'AI budget not found',
+  data: {
+    type: ErrorType.NOT_FOUND_ERROR
+  }
+};
+
+const internalErrorResponse: ErrorResponse = {
+  status: 'error',
+  message: 'Internal server error',
+  data: {
+    type: ErrorType.INTERNAL_ERROR
+  }
+};
+
+/**
+ * AI Budget Controller for the admin endpoints that set, raise and reset AI spending limits
+ */
+export class AIBudgetController {
+
+  /**
+   * GET /api/admin/budgets
+   * Every budget with its burn: spend, remaining amount and state in the current period
+   */
+  async listBudgets(_req: Request, res: Response): Promise<void> {
+    try {
+      const budgets = await aiBudgetService.list();
+
+      const response: ApiResponse<{ budgets: AIBudgetBurn[]; degrade_at: number }> = {
+        status: 'success',
+        message: 'AI budgets retrieved successfully',
+        data: {
+          budgets,
+          degrade_at: config.AI_BUDGET_DEGRADE_AT
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to list AI budgets', {
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * PUT /api/admin/budgets
+   * Create the budget of a provider or feature and period, or change its limit
+   */
+  async setBudget(req: Request, res: Response): Promise<void> {
+    try {
+      const input = setAIBudgetSchema.parse(req.body);
+
+      const providers = aiService.listProviders().map(provider => provider.name);
+
+      if (input.scope === 'provider' && !providers.includes(input.target)) {
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'Invalid request data',
+          data: {
+            type: ErrorType.VALIDATION_ERROR,
+            errors: [{ field: 'target', message: `Unknown AI provider; registered: ${providers.join(', ')}` }]
+          }
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      const budget = await aiBudgetService.set(input);
+
+      const response: ApiResponse<{ budget: AIBudget }> = {
+        status: 'success',
+        message: 'AI budget set successfully',
+        data: { budget }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(validationErrorResponse(error));
+        return;
+      }
+
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to set AI budget', {
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * POST /api/admin/budgets/:id/reset
+   * Start the current period over, so the spend made so far no longer counts
+   */
+  async resetBudget(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+
+      const budget = await aiBudgetService.reset(id);
+
+      if (!budget) {
+        res.status(404).json(notFoundResponse);
+        return;
+      }
+
+      const response: ApiResponse<{ budget: AIBudget }> = {
+        status: 'success',
+        message: 'AI budget reset successfully',
+        data: { budget }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(validationErrorResponse(error));
+        return;
+      }
+
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to reset AI budget', {
+        error: (error as Error).message,
+        id: req.params['id']
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/admin/budgets/:id
+   * Remove a budget; its provider or feature is no longer limited
+   */
+  async deleteBudget(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+
+      const deleted = await aiBudgetService.remove(id);
+
+      if (!deleted) {
+        res.status(404).json(notFoundResponse);
+        return;
+      }
+
+      const response: ApiResponse<{ id: number }> = {
+        status: 'success',
+        message: 'AI budget deleted successfully',
+        data: { id }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(validationErrorResponse(error));
+        return;
+      }
+
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to delete AI budget', {
+        error: (error as Error).message,
+        id: req.params['id']
+      });
+    }
+  }
+}
+
+export const aiBudgetController = new AIBudgetController();
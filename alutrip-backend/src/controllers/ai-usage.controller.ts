@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { aiService } from '../services/ai.service';
+import { aiUsageService, AIUsageReport } from '../services/ai-usage.service';
+import { logger } from '../config/logger';
+import { aiUsageReportQuerySchema, AIUsageReportQueryInput } from '../schemas/ai-usage.schemas';
+import { ApiResponse, ErrorResponse, ErrorType } from '../types/api';
+import { AIModelPricing } from '../types/ai';
+
+const validationErrorResponse = (error: ZodError): ErrorResponse => ({
+  status: 'error',
+  message: 'Invalid request data',
+  data: {
+    type: ErrorType.VALIDATION_ERROR,
+    errors: error.errors.map(err => ({
+      field: err.path.join('.'),
+      message: err.message
+    }))
+  }
+});
+
+const internalErrorResponse: ErrorResponse = {
+  status: 'error',
+  message: 'Internal server error',
+  data: {
+    type: ErrorType.INTERNAL_ERROR
+  }
+};
+
+/**
+ * Parse the report query, build the report and answer with it
+ */
+const sendReport = async<T>(
+  req: Request,
+  res: Response,
+  report: string,
+  build: (params: AIUsageReportQueryInput) => Promise<AIUsageReport<T>>
+): Promise<void> => {
+  try {
+    const params = aiUsageReportQuerySchema.parse(req.query);
+
+    const response: ApiResponse<AIUsageReport<T>> = {
+      status: 'success',
+      message: 'AI usage report retrieved successfully',
+      data: await build(params)
+    };
+
+    res.status(200).json(response);
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json(validationErrorResponse(error));
+      return;
+    }
+
+    res.status(500).json(internalErrorResponse);
+
+    logger.error('Failed to get AI usage report', {
+      error: (error as Error).message,
+      report,
+      query: req.query
+    });
+  }
+};
+
+/**
+ * AI Usage Controller for the admin token usage and cost reports
+ */
+export class AIUsageController {
+
+  /**
+   * GET /api/admin/usage/pricing
+   * Prices used to estimate costs, and the registered providers whose model has no price
+   */
+  async getPricing(_req: Request, res: Response): Promise<void> {
+    try {
+      const pricing = aiUsageService.getPricing();
+
+      const response: ApiResponse<{
+        pricing: Record<string, AIModelPricing>;
+        providers: Array<{ name: string; model: string; priced: boolean }>;
+      }> = {
+        status: 'success',
+        message: 'AI pricing retrieved successfully',
+        data: {
+          pricing,
+          providers: aiService.listProviders().map(provider => ({
+            name: provider.name,
+            model: provider.model,
+            priced: provider.model in pricing
+          }))
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to get AI pricing', {
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * GET /api/admin/usage/reports/models
+   * Spend per provider and upstream model
+   */
+  async getModelSpend(req: Request, res: Response): Promise<void> {
+    await sendReport(req, res, 'models', params => aiUsageService.getModelSpend(params));
+  }
+
+  /**
+   * GET /api/admin/usage/reports/features
+   * Spend per feature
+   */
+  async getFeatureSpend(req: Request, res: Response): Promise<void> {
+    await sendReport(req, res, 'features', params => aiUsageService.getFeatureSpend(params));
+  }
+
+  /**
+   * GET /api/admin/usage/reports/daily
+   * Spend per day and feature
+   */
+  async getDailySpend(req: Request, res: Response): Promise<void> {
+    await sendReport(req, res, 'daily', params => aiUsageService.getDailySpend(params));
+  }
+}
+
+export const aiUsageController = new AIUsageController();
@@ -0,0 +1,187 @@
+import { Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { apiKeyService } from '../services/api-key.service';
+import { logger } from '../config/logger';
+import { createApiKeySchema } from '../schemas/api-key.schemas';
+import { idParamSchema } from '../schemas/travel.schemas';
+import { API_KEY_TIER_QUOTAS } from '../constants/api-key-tiers';
+import { ApiResponse, ErrorResponse, ErrorType } from '../types/api';
+import { ApiKeySummary, ApiKeyTier, ApiKeyTierQuotas, IssuedApiKey } from '../types/api-key';
+
+const validationErrorResponse = (error: ZodError): ErrorResponse => ({
+  status: 'error',
+  message: 'Invalid request data',
+  data: {
+    type: ErrorType.VALIDATION_ERROR,
+    errors: error.errors.map(err => ({
+      field: err.path.join('.'),
+      message: err.message
+    }))
+  }
+});
+
+const notFoundResponse: ErrorResponse = {
+  status: 'error',
+  message: 'API key not found or already revoked',
+  data: {
+    type: ErrorType.NOT_FOUND_ERROR
+  }
+};
+
+const internalErrorResponse: ErrorResponse = {
+  status: 'error',
+  message: 'Internal server error',
+  data: {
+    type: ErrorType.INTERNAL_ERROR
+  }
+};
+
+/**
+ * API Key Controller for the admin endpoints that manage programmatic clients
+ */
+export class ApiKeyController {
+
+  /**
+   * POST /api/admin/api-keys
+   * Issue a key; the plain key is only returned in this response
+   */
+  async issueKey(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, tier } = createApiKeySchema.parse(req.body);
+
+      const issued = await apiKeyService.issueKey(name, tier);
+
+      const response: ApiResponse<IssuedApiKey & { quotas: ApiKeyTierQuotas }> = {
+        status: 'success',
+        message: 'API key issued successfully',
+        data: {
+          ...issued,
+          quotas: API_KEY_TIER_QUOTAS[tier]
+        }
+      };
+
+      res.status(201).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(validationErrorResponse(error));
+        return;
+      }
+
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to issue API key', {
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * GET /api/admin/api-keys
+   * List keys (without hashes) and the tier quotas
+   */
+  async listKeys(_req: Request, res: Response): Promise<void> {
+    try {
+      const apiKeys = await apiKeyService.listKeys();
+
+      const response: ApiResponse<{
+        api_keys: ApiKeySummary[];
+        tiers: Record<ApiKeyTier, ApiKeyTierQuotas>;
+      }> = {
+        status: 'success',
+        message: 'API keys retrieved successfully',
+        data: {
+          api_keys: apiKeys,
+          tiers: API_KEY_TIER_QUOTAS
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to list API keys', {
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * POST /api/admin/api-keys/:id/rotate
+   * Replace the key; the previous key stops working immediately
+   */
+  async rotateKey(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+
+      const rotated = await apiKeyService.rotateKey(id);
+
+      if (!rotated) {
+        res.status(404).json(notFoundResponse);
+        return;
+      }
+
+      const response: ApiResponse<IssuedApiKey> = {
+        status: 'success',
+        message: 'API key rotated successfully',
+        data: rotated
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(validationErrorResponse(error));
+        return;
+      }
+
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to rotate API key', {
+        error: (error as Error).message,
+        id: req.params['id']
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/admin/api-keys/:id
+   * Revoke the key
+   */
+  async revokeKey(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+
+      const apiKey = await apiKeyService.revokeKey(id);
+
+      if (!apiKey) {
+        res.status(404).json(notFoundResponse);
+        return;
+      }
+
+      const response: ApiResponse<{ api_key: ApiKeySummary }> = {
+        status: 'success',
+        message: 'API key revoked successfully',
+        data: { api_key: apiKey }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(validationErrorResponse(error));
+        return;
+      }
+
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to revoke API key', {
+        error: (error as Error).message,
+        id: req.params['id']
+      });
+    }
+  }
+}
+
+export const apiKeyController = new ApiKeyController();
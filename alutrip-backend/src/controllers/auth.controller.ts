@@ -0,0 +1,165 @@
+import { Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { authService } from '../services/auth.service';
+import { getRequestUserId } from '../middleware/auth';
+import { logger } from '../config/logger';
+import { loginSchema, registerSchema } from '../schemas/auth.schemas';
+import { ApiResponse, ErrorResponse, ErrorType } from '../types/api';
+import { AuthResult, PublicUser } from '../types/auth';
+
+const validationErrorResponse = (error: ZodError): ErrorResponse => ({
+  status: 'error',
+  message: 'Invalid request data',
+  data: {
+    type: ErrorType.VALIDATION_ERROR,
+    errors: error.errors.map(err => ({
+      field: err.path.join('.'),
+      message: err.message
+    }))
+  }
+});
+
+const internalErrorResponse: ErrorResponse = {
+  status: 'error',
+  message: 'Internal server error',
+  data: {
+    type: ErrorType.INTERNAL_ERROR
+  }
+};
+
+/**
+ * Auth Controller for user accounts
+ * Login and registration return a bearer token to send as `Authorization: Bearer <token>`
+ */
+export class AuthController {
+
+  /**
+   * POST /api/auth/register
+   * Create an account and return an access token
+   */
+  async register(req: Request, res: Response): Promise<void> {
+    try {
+      const { email, password, name } = registerSchema.parse(req.body);
+
+      const result = await authService.register(email, password, name);
+
+      if (!result) {
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'Email is already registered',
+          data: {
+            type: ErrorType.VALIDATION_ERROR
+          }
+        };
+        res.status(409).json(response);
+        return;
+      }
+
+      const response: ApiResponse<AuthResult> = {
+        status: 'success',
+        message: 'User registered successfully',
+        data: result
+      };
+
+      res.status(201).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(validationErrorResponse(error));
+        return;
+      }
+
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to register user', {
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * POST /api/auth/login
+   * Exchange email and password for an access token
+   */
+  async login(req: Request, res: Response): Promise<void> {
+    try {
+      const { email, password } = loginSchema.parse(req.body);
+
+      const result = await authService.login(email, password);
+
+      if (!result) {
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'Invalid email or password',
+          data: {
+            type: ErrorType.UNAUTHORIZED_ERROR
+          }
+        };
+        res.status(401).json(response);
+        return;
+      }
+
+      const response: ApiResponse<AuthResult> = {
+        status: 'success',
+        message: 'Logged in successfully',
+        data: result
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(validationErrorResponse(error));
+        return;
+      }
+
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to log user in', {
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * GET /api/auth/me
+   * Profile of the authenticated user
+   */
+  async getCurrentUser(req: Request, res: Response): Promise<void> {
+    const userId = getRequestUserId(req);
+
+    try {
+      const user = userId ? await authService.getUser(userId) : null;
+
+      if (!user) {
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'User not found',
+          data: {
+            type: ErrorType.UNAUTHORIZED_ERROR
+          }
+        };
+        res.status(401).json(response);
+        return;
+      }
+
+      const response: ApiResponse<{ user: PublicUser }> = {
+        status: 'success',
+        message: 'User retrieved successfully',
+        data: { user }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to get current user', {
+        error: (error as Error).message,
+        userId
+      });
+    }
+  }
+}
+
+export const authController = new AuthController();
@@ -0,0 +1,327 @@
+import { Request, Response } from 'express';
+import { chatService } from '../services/chat.service';
+import { travelService } from '../services/travel.service';
+import { getRequestOwner } from '../middleware/session';
+import { refundRequestOnAIFailure } from '../middleware/rate-limit';
+import { isBudgetExceededError } from '../middleware/error-handler';
+import { logger } from '../config/logger';
+import { parseAcceptLanguage } from '../locales';
+import {
+  chatMessageSchema,
+  idParamSchema,
+  questionIdParamSchema
+} from '../schemas/travel.schemas';
+import { ApiResponse, ErrorResponse, ErrorType } from '../types/api';
+import { ChatMessageResponse, ConversationResponse } from '../types/travel';
+import { ZodError } from 'zod';
+
+/**
+ * Chat Controller for multi-turn conversations on top of travel questions
+ */
+export class ChatController {
+
+  /**
+   * POST /api/chat/continue/:questionId
+   * Send a follow-up message about an answered travel question
+   */
+  async continueConversation(req: Request, res: Response): Promise<void> {
+    const startTime = Date.now();
+    const clientIp = req.ip || 'unknown';
+
+    try {
+      const { questionId } = questionIdParamSchema.parse(req.params);
+      const { message, model, locale } = chatMessageSchema.parse(req.body);
+
+      if (model && !travelService.validateModel(model)) {
+        const response: ErrorResponse = {
+          status: 'error',
+          message: `Model '${model}' is not available. Please check API configuration.`,
+          data: {
+            type: ErrorType.AI_SERVICE_ERROR
+          }
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      // Without a body or header locale the conversation keeps the language of the original question
+      const requestedLocale = locale ?? parseAcceptLanguage(req.headers['accept-language'])[0];
+
+      const result = await chatService.continueConversation(
+        questionId,
+        { message, ...(model && { model }), ...(requestedLocale && { locale: requestedLocale }) },
+        getRequestOwner(req)
+      );
+
+      const processingTime = Date.now() - startTime;
+
+      const response: ApiResponse<ChatMessageResponse> = {
+        status: 'success',
+        message: 'Conversation continued successfully',
+        data: result
+      };
+
+      res.set('X-Processing-Time', `${processingTime}ms`);
+
+      res.status(200).json(response);
+
+      logger.info('Conversation continued successfully', {
+        conversationId: result.conversation_id,
+        questionId,
+        clientIp,
+        processingTime: `${processingTime}ms`
+      });
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'Invalid request data',
+          data: {
+            type: ErrorType.VALIDATION_ERROR,
+            errors: error.errors.map(err => ({
+              field: err.path.join('.'),
+              message: err.message
+            }))
+          }
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      if ((error as Error).message.includes('not found')) {
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'Travel question not found',
+          data: {
+            type: ErrorType.NOT_FOUND_ERROR
+          }
+        };
+
+        res.status(404).json(response);
+        return;
+      }
+
+      if (isBudgetExceededError(error)) {
+        await refundRequestOnAIFailure(req);
+
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'AI usage budget reached. Please try again later.',
+          data: {
+            type: ErrorType.BUDGET_EXCEEDED_ERROR
+          }
+        };
+
+        res.status(503).json(response);
+        return;
+      }
+
+      if ((error as Error).message.includes('AI service error')) {
+        await refundRequestOnAIFailure(req);
+
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'AI service is temporarily unavailable. Please try again later.',
+          data: {
+            type: ErrorType.AI_SERVICE_ERROR
+          }
+        };
+
+        res.status(503).json(response);
+        return;
+      }
+
+      const response: ErrorResponse = {
+        status: 'error',
+        message: 'Internal server error',
+        data: {
+          type: ErrorType.INTERNAL_ERROR
+        }
+      };
+
+      res.status(500).json(response);
+
+      logger.error('Failed to continue conversation', {
+        error: (error as Error).message,
+        questionId: req.params['questionId'],
+        clientIp
+      });
+    }
+  }
+
+  /**
+   * GET /api/chat/conversation/:id
+   * Get a conversation and all its messages
+   */
+  async getConversation(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+
+      const result = await chatService.getConversation(id, getRequestOwner(req));
+
+      if (!result) {
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'Conversation not found',
+          data: {
+            type: ErrorType.NOT_FOUND_ERROR
+          }
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse<ConversationResponse> = {
+        status: 'success',
+        message: 'Conversation retrieved successfully',
+        data: result
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'Invalid conversation ID',
+          data: {
+            type: ErrorType.VALIDATION_ERROR,
+            errors: error.errors.map(err => ({
+              field: err.path.join('.'),
+              message: err.message
+            }))
+          }
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      const response: ErrorResponse = {
+        status: 'error',
+        message: 'Internal server error',
+        data: {
+          type: ErrorType.INTERNAL_ERROR
+        }
+      };
+
+      res.status(500).json(response);
+
+      logger.error('Failed to get conversation', {
+        error: (error as Error).message,
+        conversationId: req.params['id']
+      });
+    }
+  }
+
+  /**
+   * GET /api/chat/history
+   * Get all conversations of the authenticated user and of the session of the x-session-id header
+   */
+  async getHistory(req: Request, res: Response): Promise<void> {
+    const owner = getRequestOwner(req);
+
+    try {
+      const conversations = await chatService.getHistory(owner);
+
+      const response: ApiResponse<{
+        session_id: string | null;
+        conversations: ConversationResponse[];
+      }> = {
+        status: 'success',
+        message: 'Conversation history retrieved successfully',
+        data: {
+          session_id: owner.sessionId ?? null,
+          conversations
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      const response: ErrorResponse = {
+        status: 'error',
+        message: 'Internal server error',
+        data: {
+          type: ErrorType.INTERNAL_ERROR
+        }
+      };
+
+      res.status(500).json(response);
+
+      logger.error('Failed to get conversation history', {
+        error: (error as Error).message,
+        ...owner
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/chat/conversation/:id
+   * Delete a conversation and all its messages
+   */
+  async deleteConversation(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+
+      const deleted = await chatService.deleteConversation(id, getRequestOwner(req));
+
+      if (!deleted) {
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'Conversation not found',
+          data: {
+            type: ErrorType.NOT_FOUND_ERROR
+          }
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse<Record<string, never>> = {
+        status: 'success',
+        message: 'Conversation deleted successfully',
+        data: {}
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'Invalid conversation ID',
+          data: {
+            type: ErrorType.VALIDATION_ERROR,
+            errors: error.errors.map(err => ({
+              field: err.path.join('.'),
+              message: err.message
+            }))
+          }
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      const response: ErrorResponse = {
+        status: 'error',
+        message: 'Internal server error',
+        data: {
+          type: ErrorType.INTERNAL_ERROR
+        }
+      };
+
+      res.status(500).json(response);
+
+      logger.error('Failed to delete conversation', {
+        error: (error as Error).message,
+        conversationId: req.params['id']
+      });
+    }
+  }
+}
+
+export const chatController = new ChatController();
@@ -1,23 +1,43 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import { logger } from '../config/logger';
+import { config } from '../config/env';
+import { resolveLocale } from '../locales';
 import { itineraryService } from '../services/itinerary.service';
 import { addItineraryJob } from '../config/queue';
-import { getRateLimitInfo } from '../middleware/rate-limit';
+import { consumeRateLimit, getCallerRateLimitKey, getRateLimitInfo, refundAIFailure } from '../middleware/rate-limit';
 import { incrementRateLimit } from '../config/redis';
+import { isBudgetExceededError } from '../middleware/error-handler';
 import { pdfService } from '../services/pdf.service';
+import { getRequestUserId } from '../middleware/auth';
+import { getRequestOwner, getRequestSessionId, isRequestOwner } from '../middleware/session';
+import { itineraryVersionService } from '../services/itinerary-version.service';
+import { itineraryProgressService } from '../services/itinerary-progress.service';
 import { 
   ItineraryRequestInput,
   PaginationInput,
   StatusFilterInput,
   IdParamInput,
+  DayParamInput,
+  DayRegenerationInput,
+  VersionParamInput,
+  VersionDiffQueryInput,
   itineraryRequestSchema,
   paginationSchema,
   statusFilterSchema,
-  idParamSchema
+  idParamSchema,
+  dayParamSchema,
+  dayRegenerationSchema,
+  versionParamSchema,
+  versionDiffQuerySchema
 } from '../schemas/travel.schemas';
+import { ErrorType } from '../types/api';
+import { ItineraryProgressEvent } from '../types/travel';
 import { createReadStream } from 'fs';
 
+// Milliseconds between the status checks of a progress stream, which double as its keep-alive
+const PROGRESS_STATUS_CHECK_INTERVAL = 15000;
+
 /**
  * Itinerary Controller
  * Handles all itinerary-related HTTP requests
@@ -38,13 +58,20 @@ export class ItineraryController {
       });
 
       const validatedData: ItineraryRequestInput = itineraryRequestSchema.parse(req.body);
+      const locale = resolveLocale(validatedData.locale, req.headers['accept-language']);
 
-      const key = `rate_limit:itineraries:${clientIp}`;
-      const rateLimitInfo = await getRateLimitInfo(key, 86400000, 5);
-      
-      await incrementRateLimit(key, 86400000);
+      if (validatedData.model && !itineraryService.validateModel(validatedData.model)) {
+        res.status(400).json({
+          status: 'error',
+          message: `Model '${validatedData.model}' is not available. Please check API configuration.`,
+          data: {}
+        });
+        return;
+      }
+
+      const { allowed, info: rateLimitInfo, charge: rateLimitCharge } = await consumeRateLimit(req, 'itineraries');
       
-      if (rateLimitInfo.used >= rateLimitInfo.limit) {
+      if (!allowed) {
         res.status(429).json({
           status: 'error',
           message: 'Rate limit exceeded',
@@ -62,8 +89,9 @@ export class ItineraryController {
 
       const itinerary = await itineraryService.createItinerary(
         clientIp,
-        validatedData as any,
-        undefined // sessionId
+        { ...validatedData, locale } as any,
+        getRequestSessionId(req),
+        getRequestUserId(req)
       );
 
       const itineraryId = itinerary['id'] as number;
@@ -78,7 +106,7 @@ export class ItineraryController {
           method: 'queue'
         });
         
-        await addItineraryJob(itineraryId);
+        await addItineraryJob(itineraryId, validatedData.model, rateLimitCharge);
         
         processingMethod = 'queue';
         logger.info('✅ Itinerary job added to Bull queue successfully', {
@@ -108,7 +136,9 @@ export class ItineraryController {
               clientIp
             });
             
-            await itineraryService.processItinerary(itineraryId);
+            await itineraryProgressService.track(itineraryId, onProgress =>
+              itineraryService.processItinerary(itineraryId, validatedData.model, onProgress)
+            );
             
             logger.info('✅ Direct background processing completed successfully', {
               context: 'hybrid-direct',
@@ -123,6 +153,8 @@ export class ItineraryController {
               clientIp,
               error: (directError as Error).message
             });
+
+            await refundAIFailure(rateLimitCharge);
           }
         });
         
@@ -144,6 +176,7 @@ export class ItineraryController {
           destination: itinerary.destination,
           start_date: itinerary.start_date,
           end_date: itinerary.end_date,
+          ...(validatedData.legs && { legs: validatedData.legs }),
           processing_status: itinerary.processing_status,
           created_at: itinerary.created_at,
           estimated_completion: estimatedCompletion,
@@ -249,6 +282,657 @@ export class ItineraryController {
     }
   }
 
+  /**
+   * Stream the generation progress of an itinerary as Server-Sent Events named progress
+   * GET /api/itinerary/:id/events
+   * The current stage is sent first; the stream ends after the completed or failed event
+   */
+  static async streamProgress(req: Request, res: Response): Promise<void> {
+    let unsubscribe: (() => void) | null = null;
+    let checkTimer: NodeJS.Timeout | null = null;
+
+    const close = (): void => {
+      unsubscribe?.();
+      unsubscribe = null;
+
+      if (checkTimer) {
+        clearInterval(checkTimer);
+        checkTimer = null;
+      }
+    };
+
+    const send = (event: ItineraryProgressEvent): void => {
+      if (!unsubscribe) {
+        return;
+      }
+
+      res.write(`event: progress\ndata: ${JSON.stringify(event)}\n\n`);
+
+      if (itineraryProgressService.isFinal(event)) {
+        close();
+        res.end();
+      }
+    };
+
+    try {
+      const { id }: IdParamInput = idParamSchema.parse(req.params);
+
+      // Subscribed before reading the status, so events published in between are held and sent after it
+      let held: ItineraryProgressEvent[] | null = [];
+
+      unsubscribe = itineraryProgressService.subscribe(id, event => {
+        if (held) {
+          held.push(event);
+          return;
+        }
+
+        send(event);
+      });
+
+      const itinerary = await itineraryService.getItinerary(id);
+
+      if (!itinerary) {
+        close();
+        res.status(404).json({
+          status: 'error',
+          message: 'Itinerary not found',
+          data: {}
+        });
+        return;
+      }
+
+      // no-transform keeps the compression middleware from buffering the stream
+      res.status(200);
+      res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+      res.flushHeaders();
+
+      req.on('close', close);
+
+      send(itineraryProgressService.fromStatus(id, itinerary.processing_status));
+
+      const events = held;
+      held = null;
+      events.forEach(send);
+
+      if (!unsubscribe) {
+        return;
+      }
+
+      // Keeps proxies from closing an idle stream, and catches itineraries processed where no progress is published
+      checkTimer = setInterval(async() => {
+        try {
+          const current = await itineraryService.getItinerary(id);
+          const event = current && itineraryProgressService.fromStatus(id, current.processing_status);
+
+          if (event && itineraryProgressService.isFinal(event)) {
+            send(event);
+            return;
+          }
+        } catch (error) {
+          logger.warn('Itinerary progress status check failed', {
+            error: (error as Error).message,
+            id
+          });
+        }
+
+        if (unsubscribe) {
+          res.write(': keep-alive\n\n');
+        }
+      }, PROGRESS_STATUS_CHECK_INTERVAL);
+
+    } catch (error) {
+      close();
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          status: 'error',
+          message: 'Invalid itinerary ID',
+          data: {}
+        });
+        return;
+      }
+
+      logger.error('Stream itinerary progress failed', {
+        error: (error as Error).message,
+        id: req.params['id']
+      });
+
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+
+      res.status(500).json({
+        status: 'error',
+        message: 'Internal server error',
+        data: {}
+      });
+    }
+  }
+
+  /**
+   * Get a full itinerary, including the structured content when the AI output passed validation
+   * GET /api/itinerary/:id
+   */
+  static async getItineraryById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id }: IdParamInput = idParamSchema.parse(req.params);
+
+      const itinerary = await itineraryService.getItinerary(id);
+
+      if (!itinerary) {
+        res.status(404).json({
+          status: 'error',
+          message: 'Itinerary not found',
+          data: {}
+        });
+        return;
+      }
+
+      const pdfAvailable = await itineraryService.isPDFAvailable(itinerary);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Itinerary retrieved successfully',
+        data: {
+          id: itinerary['id'],
+          destination: itinerary.destination,
+          start_date: itinerary.start_date,
+          end_date: itinerary.end_date,
+          budget: itinerary.budget,
+          interests: itinerary.interests,
+          legs: itinerary.request_data.legs ?? null,
+          processing_status: itinerary.processing_status,
+          model_used: itinerary.model_used,
+          generated_content: itinerary.generated_content,
+          structured_content: itinerary.structured_content ?? null,
+          created_at: itinerary.created_at,
+          completed_at: itinerary.completed_at,
+          pdf_available: pdfAvailable,
+          pdf_filename: pdfAvailable ? itinerary.pdf_filename : null
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          status: 'error',
+          message: 'Invalid itinerary ID',
+          data: {}
+        });
+        return;
+      }
+
+      logger.error('Get itinerary failed', {
+        error: (error as Error).message,
+        id: req.params['id']
+      });
+
+      res.status(500).json({
+        status: 'error',
+        message: 'Internal server error',
+        data: {}
+      });
+    }
+  }
+
+  /**
+   * Rewrite one day of a completed itinerary, optionally following feedback, and rebuild its PDF
+   * POST /api/itinerary/:id/days/:n/regenerate
+   */
+  static async regenerateDay(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, n }: DayParamInput = dayParamSchema.parse(req.params);
+      const { feedback, model }: DayRegenerationInput = dayRegenerationSchema.parse(req.body || {});
+
+      if (model && !itineraryService.validateModel(model)) {
+        res.status(400).json({
+          status: 'error',
+          message: `Model '${model}' is not available. Please check API configuration.`,
+          data: {}
+        });
+        return;
+      }
+
+      const itinerary = await itineraryService.getItinerary(id);
+
+      // Itineraries of other users or sessions are reported as missing, so ids cannot be probed
+      if (!itinerary || !isRequestOwner(itinerary, getRequestOwner(req))) {
+        res.status(404).json({
+          status: 'error',
+          message: 'Itinerary not found',
+          data: {}
+        });
+        return;
+      }
+
+      if (itinerary.processing_status !== 'completed') {
+        res.status(409).json({
+          status: 'error',
+          message: 'Only completed itineraries can be edited',
+          data: { processing_status: itinerary.processing_status }
+        });
+        return;
+      }
+
+      // Days can only be replaced in itineraries whose AI output passed validation
+      if (!itinerary.structured_content) {
+        res.status(409).json({
+          status: 'error',
+          message: 'This itinerary has no structured days to edit',
+          data: {}
+        });
+        return;
+      }
+
+      if (!itinerary.structured_content.days.some(day => day.day === n)) {
+        res.status(404).json({
+          status: 'error',
+          message: `Day ${n} not found in itinerary`,
+          data: { total_days: itinerary.structured_content.days.length }
+        });
+        return;
+      }
+
+      // Regenerations have their own daily limit, so editing does not use up new itineraries
+      const key = getCallerRateLimitKey(req, 'itinerary_regenerations');
+      const rateLimitInfo = await getRateLimitInfo(key, 86400000, config.ITINERARY_DAY_REGENERATION_LIMIT);
+
+      await incrementRateLimit(key, 86400000);
+
+      if (rateLimitInfo.used >= rateLimitInfo.limit) {
+        res.status(429).json({
+          status: 'error',
+          message: 'Rate limit exceeded',
+          data: {
+            feature: 'itinerary_regenerations',
+            limit: rateLimitInfo.limit,
+            used: rateLimitInfo.used,
+            reset_time: rateLimitInfo.reset_time
+          }
+        });
+        return;
+      }
+
+      const result = await itineraryService.regenerateDay(itinerary, n, feedback, model);
+
+      res.status(200).json({
+        status: 'success',
+        message: `Day ${n} regenerated successfully`,
+        data: {
+          id: itinerary['id'],
+          day: result.day,
+          revision_number: result.revision.revision_number,
+          model_used: result.revision.model_used,
+          pdf_filename: result.pdf_filename
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          status: 'error',
+          message: 'Validation failed',
+          data: {
+            errors: error.errors.map(err => ({
+              field: err.path.join('.'),
+              message: err.message
+            }))
+          }
+        });
+        return;
+      }
+
+      if (isBudgetExceededError(error)) {
+        res.status(503).json({
+          status: 'error',
+          message: 'AI usage budget reached. Please try again later.',
+          data: { type: ErrorType.BUDGET_EXCEEDED_ERROR }
+        });
+        return;
+      }
+
+      logger.error('Itinerary day regeneration failed', {
+        error: (error as Error).message,
+        id: req.params['id'],
+        day: req.params['n']
+      });
+
+      res.status(500).json({
+        status: 'error',
+        message: 'Internal server error',
+        data: {}
+      });
+    }
+  }
+
+  /**
+   * List the day revisions of an itinerary, newest first
+   * GET /api/itinerary/:id/revisions
+   */
+  static async getRevisions(req: Request, res: Response): Promise<void> {
+    try {
+      const { id }: IdParamInput = idParamSchema.parse(req.params);
+
+      const itinerary = await itineraryService.getItinerary(id);
+
+      if (!itinerary) {
+        res.status(404).json({
+          status: 'error',
+          message: 'Itinerary not found',
+          data: {}
+        });
+        return;
+      }
+
+      const revisions = await itineraryService.getRevisions(id);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Itinerary revisions retrieved successfully',
+        data: {
+          id: itinerary['id'],
+          revisions: revisions.map(revision => ({
+            revision_number: revision.revision_number,
+            day_number: revision.day_number,
+            feedback: revision.feedback ?? null,
+            previous_day: revision.previous_day,
+            new_day: revision.new_day,
+            model_used: revision.model_used,
+            created_at: revision.created_at
+          })),
+          total: revisions.length
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          status: 'error',
+          message: 'Invalid itinerary ID',
+          data: {}
+        });
+        return;
+      }
+
+      logger.error('Get itinerary revisions failed', {
+        error: (error as Error).message,
+        id: req.params['id']
+      });
+
+      res.status(500).json({
+        status: 'error',
+        message: 'Internal server error',
+        data: {}
+      });
+    }
+  }
+
+  /**
+   * List the versions of an itinerary without their content, newest first
+   * GET /api/itinerary/:id/versions
+   */
+  static async getVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const { id }: IdParamInput = idParamSchema.parse(req.params);
+
+      const itinerary = await itineraryService.getItinerary(id);
+
+      if (!itinerary) {
+        res.status(404).json({
+          status: 'error',
+          message: 'Itinerary not found',
+          data: {}
+        });
+        return;
+      }
+
+      const versions = await itineraryVersionService.listVersions(id);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Itinerary versions retrieved successfully',
+        data: {
+          id: itinerary['id'],
+          versions: versions.map(version => ({
+            version_number: version.version_number,
+            source: version.source,
+            model_used: version.model_used,
+            prompt_parameters: version.prompt_parameters,
+            pdf_filename: version.pdf_filename ?? null,
+            created_at: version.created_at
+          })),
+          total: versions.length
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          status: 'error',
+          message: 'Invalid itinerary ID',
+          data: {}
+        });
+        return;
+      }
+
+      logger.error('Get itinerary versions failed', {
+        error: (error as Error).message,
+        id: req.params['id']
+      });
+
+      res.status(500).json({
+        status: 'error',
+        message: 'Internal server error',
+        data: {}
+      });
+    }
+  }
+
+  /**
+   * Get a single version of an itinerary with its content
+   * GET /api/itinerary/:id/versions/:version
+   */
+  static async getVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, version }: VersionParamInput = versionParamSchema.parse(req.params);
+
+      const itineraryVersion = await itineraryVersionService.getVersion(id, version);
+
+      if (!itineraryVersion) {
+        res.status(404).json({
+          status: 'error',
+          message: `Version ${version} not found`,
+          data: {}
+        });
+        return;
+      }
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Itinerary version retrieved successfully',
+        data: {
+          id,
+          version_number: itineraryVersion.version_number,
+          source: itineraryVersion.source,
+          generated_content: itineraryVersion.generated_content,
+          structured_content: itineraryVersion.structured_content ?? null,
+          model_used: itineraryVersion.model_used,
+          prompt_parameters: itineraryVersion.prompt_parameters,
+          pdf_filename: itineraryVersion.pdf_filename ?? null,
+          created_at: itineraryVersion.created_at
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          status: 'error',
+          message: 'Validation failed',
+          data: {
+            errors: error.errors.map(err => ({
+              field: err.path.join('.'),
+              message: err.message
+            }))
+          }
+        });
+        return;
+      }
+
+      logger.error('Get itinerary version failed', {
+        error: (error as Error).message,
+        id: req.params['id'],
+        version: req.params['version']
+      });
+
+      res.status(500).json({
+        status: 'error',
+        message: 'Internal server error',
+        data: {}
+      });
+    }
+  }
+
+  /**
+   * Compare two versions of an itinerary (by default the latest one against the previous)
+   * GET /api/itinerary/:id/versions/diff?from=&to=
+   */
+  static async diffVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const { id }: IdParamInput = idParamSchema.parse(req.params);
+      const { from, to }: VersionDiffQueryInput = versionDiffQuerySchema.parse(req.query);
+
+      const diff = await itineraryVersionService.diffVersions(id, from, to);
+
+      if (!diff) {
+        res.status(404).json({
+          status: 'error',
+          message: 'Versions to compare not found',
+          data: { from: from ?? null, to: to ?? null }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Itinerary versions compared successfully',
+        data: { id, ...diff }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          status: 'error',
+          message: 'Validation failed',
+          data: {
+            errors: error.errors.map(err => ({
+              field: err.path.join('.'),
+              message: err.message
+            }))
+          }
+        });
+        return;
+      }
+
+      logger.error('Itinerary versions diff failed', {
+        error: (error as Error).message,
+        id: req.params['id']
+      });
+
+      res.status(500).json({
+        status: 'error',
+        message: 'Internal server error',
+        data: {}
+      });
+    }
+  }
+
+  /**
+   * Make a previous version the current content again, recorded as a new version
+   * POST /api/itinerary/:id/versions/:version/restore
+   */
+  static async restoreVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, version }: VersionParamInput = versionParamSchema.parse(req.params);
+
+      const itinerary = await itineraryService.getItinerary(id);
+
+      // Same owner check as day regeneration: other callers' itineraries are reported as missing
+      if (!itinerary || !isRequestOwner(itinerary, getRequestOwner(req))) {
+        res.status(404).json({
+          status: 'error',
+          message: 'Itinerary not found',
+          data: {}
+        });
+        return;
+      }
+
+      if (itinerary.processing_status !== 'completed') {
+        res.status(409).json({
+          status: 'error',
+          message: 'Only completed itineraries can be edited',
+          data: { processing_status: itinerary.processing_status }
+        });
+        return;
+      }
+
+      const restored = await itineraryVersionService.restoreVersion(itinerary, version);
+
+      if (!restored) {
+        res.status(404).json({
+          status: 'error',
+          message: `Version ${version} not found`,
+          data: {}
+        });
+        return;
+      }
+
+      res.status(200).json({
+        status: 'success',
+        message: `Version ${version} restored successfully`,
+        data: {
+          id: itinerary['id'],
+          version_number: restored.version_number,
+          restored_from: version,
+          model_used: restored.model_used,
+          pdf_filename: restored.pdf_filename ?? null
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          status: 'error',
+          message: 'Validation failed',
+          data: {
+            errors: error.errors.map(err => ({
+              field: err.path.join('.'),
+              message: err.message
+            }))
+          }
+        });
+        return;
+      }
+
+      logger.error('Itinerary version restore failed', {
+        error: (error as Error).message,
+        id: req.params['id'],
+        version: req.params['version']
+      });
+
+      res.status(500).json({
+        status: 'error',
+        message: 'Internal server error',
+        data: {}
+      });
+    }
+  }
+
   /**
    * Download itinerary PDF
    * GET /api/itinerary/:id/download
@@ -454,16 +1138,26 @@ export class ItineraryController {
   }
 
   /**
-   * Get client itinerary history (IP-based)
+   * Get the itinerary history of the authenticated user (requires requireAuth)
    * GET /api/itinerary/history
    */
-  static async getClientHistory(req: Request, res: Response): Promise<void> {
+  static async getUserHistory(req: Request, res: Response): Promise<void> {
     try {
-      const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
+      const userId = getRequestUserId(req);
+
+      if (!userId) {
+        res.status(401).json({
+          status: 'error',
+          message: 'Authentication required',
+          data: {}
+        });
+        return;
+      }
+
       const pagination: PaginationInput = paginationSchema.parse(req.query);
 
-      const itineraries = await itineraryService.getClientItineraries(
-        clientIp,
+      const itineraries = await itineraryService.getUserItineraries(
+        userId,
         pagination.limit,
         pagination.offset
       );
@@ -483,9 +1177,9 @@ export class ItineraryController {
 
       res.status(200).json({
         status: 'success',
-        message: 'Client itinerary history retrieved successfully',
+        message: 'User itinerary history retrieved successfully',
         data: {
-          client_ip: clientIp,
+          user_id: userId,
           itineraries: itinerariesWithPDFInfo,
           pagination: {
             limit: pagination.limit,
@@ -511,9 +1205,9 @@ export class ItineraryController {
         return;
       }
 
-      logger.error('Get client itinerary history failed', {
+      logger.error('Get user itinerary history failed', {
         error: (error as Error).message,
-        clientIp: req.ip
+        userId: getRequestUserId(req)
       });
 
       res.status(500).json({
@@ -643,13 +1337,24 @@ export class ItineraryController {
       });
 
       const validatedData: ItineraryRequestInput = itineraryRequestSchema.parse(req.body);
+      const locale = resolveLocale(validatedData.locale, req.headers['accept-language']);
+
+      if (validatedData.model && !itineraryService.validateModel(validatedData.model)) {
+        res.status(400).json({
+          status: 'error',
+          message: `Model '${validatedData.model}' is not available. Please check API configuration.`,
+          data: {}
+        });
+        return;
+      }
 
       itineraryService.validateItineraryDates(validatedData.start_date, validatedData.end_date);
 
       const itinerary = await itineraryService.createItinerary(
         clientIp,
-        validatedData as any,
-        undefined // sessionId
+        { ...validatedData, locale } as any,
+        getRequestSessionId(req),
+        getRequestUserId(req)
       );
 
       const itineraryId = itinerary['id'] as number;
@@ -669,7 +1374,9 @@ export class ItineraryController {
             clientIp
           });
           
-          await itineraryService.processItinerary(itineraryId);
+          await itineraryProgressService.track(itineraryId, onProgress =>
+            itineraryService.processItinerary(itineraryId, validatedData.model, onProgress)
+          );
           
           logger.info('✅ FORCED direct background processing completed successfully', {
             context: 'test-direct',
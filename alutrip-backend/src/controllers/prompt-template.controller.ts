@@ -0,0 +1,194 @@
+import { Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { promptTemplateService, PromptTemplateReport } from '../services/prompt-template.service';
+import { logger } from '../config/logger';
+import {
+  createPromptTemplateSchema,
+  promptTemplateListQuerySchema,
+  promptTemplateReportQuerySchema,
+  updatePromptTemplateSchema
+} from '../schemas/prompt-template.schemas';
+import { idParamSchema } from '../schemas/travel.schemas';
+import { PROMPT_TEMPLATE_VARIABLES } from '../constants/prompt-templates';
+import { ApiResponse, ErrorResponse, ErrorType } from '../types/api';
+import { AIFeature } from '../types/ai';
+import { PromptTemplate, PromptTemplatePart, PromptTemplateVariables } from '../types/prompt-template';
+
+const validationErrorResponse = (error: ZodError): ErrorResponse => ({
+  status: 'error',
+  message: 'Invalid request data',
+  data: {
+    type: ErrorType.VALIDATION_ERROR,
+    errors: error.errors.map(err => ({
+      field: err.path.join('.'),
+      message: err.message
+    }))
+  }
+});
+
+const notFoundResponse: ErrorResponse = {
+  status: 'error',
+  message: 'Prompt template not found',
+  data: {
+    type: ErrorType.NOT_FOUND_ERROR
+  }
+};
+
+const internalErrorResponse: ErrorResponse = {
+  status: 'error',
+  message: 'Internal server error',
+  data: {
+    type: ErrorType.INTERNAL_ERROR
+  }
+};
+
+/**
+ * Prompt Template Controller for the admin endpoints that version prompts and weight their A/B tests
+ */
+export class PromptTemplateController {
+
+  /**
+   * GET /api/admin/prompt-templates?feature=&locale=
+   * List versions, newest first, with the variables each feature accepts
+   */
+  async listTemplates(req: Request, res: Response): Promise<void> {
+    try {
+      const filter = promptTemplateListQuerySchema.parse(req.query);
+
+      const templates = await promptTemplateService.list(filter);
+
+      const response: ApiResponse<{
+        templates: PromptTemplate[];
+        variables: Record<AIFeature, Record<PromptTemplatePart, PromptTemplateVariables>>;
+      }> = {
+        status: 'success',
+        message: 'Prompt templates retrieved successfully',
+        data: {
+          templates,
+          variables: PROMPT_TEMPLATE_VARIABLES
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(validationErrorResponse(error));
+        return;
+      }
+
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to list prompt templates', {
+        error: (error as Error).message,
+        query: req.query
+      });
+    }
+  }
+
+  /**
+   * POST /api/admin/prompt-templates
+   * Store the next version of a feature and locale; it only receives requests once its weight is above zero
+   */
+  async createTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const input = createPromptTemplateSchema.parse(req.body);
+
+      const template = await promptTemplateService.create(input);
+
+      const response: ApiResponse<{ template: PromptTemplate }> = {
+        status: 'success',
+        message: 'Prompt template created successfully',
+        data: { template }
+      };
+
+      res.status(201).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(validationErrorResponse(error));
+        return;
+      }
+
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to create prompt template', {
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * PATCH /api/admin/prompt-templates/:id
+   * Change the A/B weight of a version; 0 deactivates it
+   */
+  async updateTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+      const { weight } = updatePromptTemplateSchema.parse(req.body);
+
+      const template = await promptTemplateService.setWeight(id, weight);
+
+      if (!template) {
+        res.status(404).json(notFoundResponse);
+        return;
+      }
+
+      const response: ApiResponse<{ template: PromptTemplate }> = {
+        status: 'success',
+        message: 'Prompt template updated successfully',
+        data: { template }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(validationErrorResponse(error));
+        return;
+      }
+
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to update prompt template', {
+        error: (error as Error).message,
+        id: req.params['id']
+      });
+    }
+  }
+
+  /**
+   * GET /api/admin/prompt-templates/report?feature=&days=
+   * Requests and outcomes per locale and template version
+   */
+  async getReport(req: Request, res: Response): Promise<void> {
+    try {
+      const { feature, days } = promptTemplateReportQuerySchema.parse(req.query);
+
+      const report = await promptTemplateService.getReport(feature, days);
+
+      const response: ApiResponse<PromptTemplateReport> = {
+        status: 'success',
+        message: 'Prompt template report retrieved successfully',
+        data: report
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(validationErrorResponse(error));
+        return;
+      }
+
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to get prompt template report', {
+        error: (error as Error).message,
+        query: req.query
+      });
+    }
+  }
+}
+
+export const promptTemplateController = new PromptTemplateController();
@@ -0,0 +1,229 @@
+import { Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { apiKeyService } from '../services/api-key.service';
+import { rateLimitReportService, RateLimitReport } from '../services/rate-limit-report.service';
+import { logger } from '../config/logger';
+import { getRateLimitIdentity, getRateLimitStatus, resetRateLimits } from '../middleware/rate-limit';
+import {
+  rateLimitIdentityQuerySchema,
+  rateLimitReportQuerySchema,
+  RateLimitReportQueryInput
+} from '../schemas/rate-limit.schemas';
+import { ApiResponse, ErrorResponse, ErrorType } from '../types/api';
+import { RateLimitIdentity, RateLimitStatus } from '../types/travel';
+
+const validationErrorResponse = (error: ZodError): ErrorResponse => ({
+  status: 'error',
+  message: 'Invalid request data',
+  data: {
+    type: ErrorType.VALIDATION_ERROR,
+    errors: error.errors.map(err => ({
+      field: err.path.join('.'),
+      message: err.message
+    }))
+  }
+});
+
+const notFoundResponse: ErrorResponse = {
+  status: 'error',
+  message: 'API key not found',
+  data: {
+    type: ErrorType.NOT_FOUND_ERROR
+  }
+};
+
+const internalErrorResponse: ErrorResponse = {
+  status: 'error',
+  message: 'Internal server error',
+  data: {
+    type: ErrorType.INTERNAL_ERROR
+  }
+};
+
+/**
+ * Identity from the ip or api_key_id query parameter; null when the API key does not exist
+ * Revoked keys are still found so their counters can be inspected
+ */
+const resolveIdentity = async(queryParams: Request['query']): Promise<RateLimitIdentity | null> => {
+  const { ip, api_key_id: apiKeyId } = rateLimitIdentityQuerySchema.parse(queryParams);
+
+  if (apiKeyId === undefined) {
+    return { type: 'ip', ip: ip as string };
+  }
+
+  const apiKey = await apiKeyService.getKey(apiKeyId);
+
+  return apiKey ? { type: 'api_key', api_key_id: apiKey.id, tier: apiKey.tier } : null;
+};
+
+/**
+ * Parse the report query, build the report and answer with it
+ */
+const sendReport = async<T>(
+  req: Request,
+  res: Response,
+  report: string,
+  build: (params: RateLimitReportQueryInput) => Promise<RateLimitReport<T>>
+): Promise<void> => {
+  try {
+    const params = rateLimitReportQuerySchema.parse(req.query);
+
+    const response: ApiResponse<RateLimitReport<T>> = {
+      status: 'success',
+      message: 'Rate limit report retrieved successfully',
+      data: await build(params)
+    };
+
+    res.status(200).json(response);
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json(validationErrorResponse(error));
+      return;
+    }
+
+    res.status(500).json(internalErrorResponse);
+
+    logger.error('Failed to get rate limit report', {
+      error: (error as Error).message,
+      report,
+      query: req.query
+    });
+  }
+};
+
+/**
+ * Rate Limit Controller for checking remaining quota before submitting
+ */
+export class RateLimitController {
+
+  /**
+   * GET /api/limits
+   * Remaining quota per feature for the caller (API key or IP)
+   */
+  async getLimits(req: Request, res: Response): Promise<void> {
+    try {
+      const status = await getRateLimitStatus(getRateLimitIdentity(req));
+
+      const response: ApiResponse<RateLimitStatus> = {
+        status: 'success',
+        message: 'Rate limits retrieved successfully',
+        data: status
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to get rate limits', {
+        error: (error as Error).message,
+        ip: req.ip
+      });
+    }
+  }
+
+  /**
+   * GET /api/admin/limits?ip= or ?api_key_id=
+   * Counters of any identity
+   */
+  async getIdentityLimits(req: Request, res: Response): Promise<void> {
+    try {
+      const identity = await resolveIdentity(req.query);
+
+      if (!identity) {
+        res.status(404).json(notFoundResponse);
+        return;
+      }
+
+      const status = await getRateLimitStatus(identity);
+
+      const response: ApiResponse<RateLimitStatus> = {
+        status: 'success',
+        message: 'Rate limits retrieved successfully',
+        data: status
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(validationErrorResponse(error));
+        return;
+      }
+
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to get rate limits', {
+        error: (error as Error).message,
+        query: req.query
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/admin/limits?ip= or ?api_key_id=
+   * Reset the counters of an identity and return its refreshed status
+   */
+  async resetIdentityLimits(req: Request, res: Response): Promise<void> {
+    try {
+      const identity = await resolveIdentity(req.query);
+
+      if (!identity) {
+        res.status(404).json(notFoundResponse);
+        return;
+      }
+
+      await resetRateLimits(identity);
+
+      const status = await getRateLimitStatus(identity);
+
+      const response: ApiResponse<RateLimitStatus> = {
+        status: 'success',
+        message: 'Rate limits reset successfully',
+        data: status
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(validationErrorResponse(error));
+        return;
+      }
+
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to reset rate limits', {
+        error: (error as Error).message,
+        query: req.query
+      });
+    }
+  }
+
+  /**
+   * GET /api/admin/limits/reports/top-consumers
+   * Identities with the most allowed requests
+   */
+  async getTopConsumers(req: Request, res: Response): Promise<void> {
+    await sendReport(req, res, 'top-consumers', params => rateLimitReportService.getTopConsumers(params));
+  }
+
+  /**
+   * GET /api/admin/limits/reports/blocked
+   * Blocked requests per day and feature
+   */
+  async getBlockedPerDay(req: Request, res: Response): Promise<void> {
+    await sendReport(req, res, 'blocked', params => rateLimitReportService.getBlockedPerDay(params));
+  }
+
+  /**
+   * GET /api/admin/limits/reports/usage
+   * Allowed, blocked and refunded requests per day and feature
+   */
+  async getUsageTrends(req: Request, res: Response): Promise<void> {
+    await sendReport(req, res, 'usage', params => rateLimitReportService.getUsageTrends(params));
+  }
+}
+
+export const rateLimitController = new RateLimitController();
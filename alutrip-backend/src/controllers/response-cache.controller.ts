@@ -0,0 +1,67 @@
+import { Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { responseCacheService } from '../services/response-cache.service';
+import { logger } from '../config/logger';
+import { invalidateResponseCacheSchema } from '../schemas/response-cache.schemas';
+import { ApiResponse, ErrorResponse, ErrorType } from '../types/api';
+
+const validationErrorResponse = (error: ZodError): ErrorResponse => ({
+  status: 'error',
+  message: 'Invalid request data',
+  data: {
+    type: ErrorType.VALIDATION_ERROR,
+    errors: error.errors.map(err => ({
+      field: err.path.join('.'),
+      message: err.message
+    }))
+  }
+});
+
+const internalErrorResponse: ErrorResponse = {
+  status: 'error',
+  message: 'Internal server error',
+  data: {
+    type: ErrorType.INTERNAL_ERROR
+  }
+};
+
+/**
+ * Response Cache Controller for the admin endpoint that drops cached travel answers
+ */
+export class ResponseCacheController {
+
+  /**
+   * DELETE /api/admin/cache/responses?question=&model=
+   * Without parameters every cached answer is removed
+   */
+  async invalidate(req: Request, res: Response): Promise<void> {
+    try {
+      const { question, model } = invalidateResponseCacheSchema.parse(req.query);
+
+      const deleted = await responseCacheService.invalidate({ question, model });
+
+      const response: ApiResponse<{ deleted: number }> = {
+        status: 'success',
+        message: 'Response cache invalidated successfully',
+        data: { deleted }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(validationErrorResponse(error));
+        return;
+      }
+
+      res.status(500).json(internalErrorResponse);
+
+      logger.error('Failed to invalidate response cache', {
+        error: (error as Error).message,
+        query: req.query
+      });
+    }
+  }
+}
+
+export const responseCacheController = new ResponseCacheController();
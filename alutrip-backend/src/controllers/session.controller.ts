@@ -0,0 +1,86 @@
+import { Request, Response } from 'express';
+import { travelService } from '../services/travel.service';
+import { itineraryService } from '../services/itinerary.service';
+import { logger } from '../config/logger';
+import { ApiResponse, ErrorResponse, ErrorType } from '../types/api';
+import { SessionHistory } from '../types/session';
+
+/**
+ * Session Controller for anonymous server-managed sessions
+ */
+export class SessionController {
+
+  /**
+   * GET /api/session
+   * Session details plus the questions and itineraries created in it
+   */
+  async getSession(req: Request, res: Response): Promise<void> {
+    const session = req.session;
+
+    if (!session) {
+      const response: ErrorResponse = {
+        status: 'error',
+        message: 'Sessions are temporarily unavailable',
+        data: {
+          type: ErrorType.INTERNAL_ERROR
+        }
+      };
+      res.status(503).json(response);
+      return;
+    }
+
+    try {
+      const [questions, itineraries] = await Promise.all([
+        travelService.getQuestionsBySessionId(session.id),
+        itineraryService.getSessionItineraries(session.id)
+      ]);
+
+      const itinerarySummaries = await Promise.all(
+        itineraries.map(async(itinerary) => ({
+          id: itinerary['id'],
+          destination: itinerary.destination,
+          start_date: itinerary.start_date,
+          end_date: itinerary.end_date,
+          processing_status: itinerary.processing_status,
+          created_at: itinerary.created_at,
+          completed_at: itinerary.completed_at ?? null,
+          pdf_available: await itineraryService.isPDFAvailable(itinerary)
+        }))
+      );
+
+      const response: ApiResponse<SessionHistory> = {
+        status: 'success',
+        message: 'Session history retrieved successfully',
+        data: {
+          session: {
+            id: session.id,
+            created_at: session.created_at,
+            expires_at: session.expires_at
+          },
+          questions,
+          itineraries: itinerarySummaries
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      const response: ErrorResponse = {
+        status: 'error',
+        message: 'Internal server error',
+        data: {
+          type: ErrorType.INTERNAL_ERROR
+        }
+      };
+
+      res.status(500).json(response);
+
+      logger.error('Failed to get session history', {
+        error: (error as Error).message,
+        sessionId: session.id
+      });
+    }
+  }
+}
+
+export const sessionController = new SessionController();
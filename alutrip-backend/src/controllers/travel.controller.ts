@@ -1,11 +1,28 @@
 import { Request, Response } from 'express';
 import { travelService } from '../services/travel.service';
+import { getRequestUserId } from '../middleware/auth';
+import { getRequestSessionId } from '../middleware/session';
+import { refundRequestOnAIFailure } from '../middleware/rate-limit';
+import { isBudgetExceededError } from '../middleware/error-handler';
 import { logger } from '../config/logger';
-import { travelQuestionSchema, paginationSchema, idParamSchema } from '../schemas/travel.schemas';
+import { resolveLocale } from '../locales';
+import {
+  travelQuestionSchema,
+  paginationSchema,
+  idParamSchema,
+  relatedQuestionsQuerySchema
+} from '../schemas/travel.schemas';
 import { ApiResponse, ErrorResponse, ErrorType } from '../types/api';
-import { TravelQuestionResponse } from '../types/travel';
+import { RelatedTravelQuestion, TravelQuestionResponse, TravelStreamEvent } from '../types/travel';
 import { ZodError } from 'zod';
 
+/**
+ * Write a single Server-Sent Event to an open stream
+ */
+const writeEvent = (res: Response, event: TravelStreamEvent, data: unknown): void => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
 /**
  * Travel Controller for handling travel Q&A endpoints
  */
@@ -22,6 +39,7 @@ export class TravelController {
     try {
       const validatedData = travelQuestionSchema.parse(req.body);
       const { question, model } = validatedData;
+      const locale = resolveLocale(validatedData.locale, req.headers['accept-language']);
 
       if (!travelService.validateModel(model)) {
         const response: ErrorResponse = {
@@ -35,12 +53,13 @@ export class TravelController {
         return;
       }
 
-      const sessionId = req.headers['x-session-id'] as string || undefined;
+      const sessionId = getRequestSessionId(req);
 
       const result = await travelService.askQuestion(
-        { question, model },
+        { question, model, locale },
         clientIp,
-        sessionId
+        sessionId,
+        getRequestUserId(req)
       );
 
       const processingTime = Date.now() - startTime;
@@ -100,7 +119,24 @@ export class TravelController {
         return;
       }
 
+      if (isBudgetExceededError(error)) {
+        await refundRequestOnAIFailure(req);
+
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'AI usage budget reached. Please try again later.',
+          data: {
+            type: ErrorType.BUDGET_EXCEEDED_ERROR
+          }
+        };
+
+        res.status(503).json(response);
+        return;
+      }
+
       if ((error as Error).message.includes('AI service error')) {
+        await refundRequestOnAIFailure(req);
+
         const response: ErrorResponse = {
           status: 'error',
           message: 'AI service is temporarily unavailable. Please try again later.',
@@ -127,7 +163,172 @@ export class TravelController {
         error: (error as Error).message,
         clientIp,
         processingTime: `${processingTime}ms`,
-        sessionId: req.headers['x-session-id']
+        sessionId: getRequestSessionId(req)
+      });
+    }
+  }
+
+  /**
+   * POST /api/travel/ask/stream
+   * Submit a travel question and receive the AI response as Server-Sent Events
+   */
+  async askQuestionStream(req: Request, res: Response): Promise<void> {
+    const startTime = Date.now();
+    const clientIp = req.ip || 'unknown';
+    let clientClosed = false;
+
+    try {
+      const validatedData = travelQuestionSchema.parse(req.body);
+      const { question, model } = validatedData;
+      const locale = resolveLocale(validatedData.locale, req.headers['accept-language']);
+
+      if (!travelService.validateModel(model)) {
+        const response: ErrorResponse = {
+          status: 'error',
+          message: `Model '${model}' is not available. Please check API configuration.`,
+          data: {
+            type: ErrorType.AI_SERVICE_ERROR
+          }
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const sessionId = getRequestSessionId(req);
+
+      // no-transform keeps the compression middleware from buffering the stream
+      res.status(200);
+      res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+      res.flushHeaders();
+
+      // The answer is still generated and stored if the client goes away mid-stream
+      // The request closes once its body is read, so only a response closed before it ended is a disconnect
+      res.on('close', () => {
+        if (!res.writableEnded) {
+          clientClosed = true;
+        }
+      });
+
+      const result = await travelService.askQuestionStream(
+        { question, model, locale },
+        clientIp,
+        (token) => {
+          if (!clientClosed) {
+            writeEvent(res, 'token', { content: token });
+          }
+        },
+        sessionId,
+        getRequestUserId(req)
+      );
+
+      const processingTime = Date.now() - startTime;
+
+      const response: ApiResponse<TravelQuestionResponse> = {
+        status: 'success',
+        message: 'Travel question answered successfully',
+        data: result
+      };
+
+      if (!clientClosed) {
+        writeEvent(res, 'complete', response);
+        res.end();
+      }
+
+      logger.info('Streamed travel question answered successfully', {
+        questionId: result.id,
+        clientIp,
+        model,
+        processingTime: `${processingTime}ms`,
+        clientClosed,
+        sessionId
+      });
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+
+      if (error instanceof ZodError) {
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'Invalid request data',
+          data: {
+            type: ErrorType.VALIDATION_ERROR,
+            errors: error.errors.map(err => ({
+              field: err.path.join('.'),
+              message: err.message
+            }))
+          }
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      let statusCode = 500;
+      let response: ErrorResponse;
+
+      if ((error as Error).message.includes('Rate limit exceeded')) {
+        statusCode = 429;
+        response = {
+          status: 'error',
+          message: 'Rate limit exceeded. You have reached the maximum of 5 questions per 24 hours.',
+          data: {
+            type: ErrorType.RATE_LIMIT_ERROR,
+            details: {
+              rateLimitExceeded: true,
+              resetTime: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+            }
+          }
+        };
+      } else if (isBudgetExceededError(error)) {
+        await refundRequestOnAIFailure(req);
+
+        statusCode = 503;
+        response = {
+          status: 'error',
+          message: 'AI usage budget reached. Please try again later.',
+          data: {
+            type: ErrorType.BUDGET_EXCEEDED_ERROR
+          }
+        };
+      } else if ((error as Error).message.includes('AI service error')) {
+        await refundRequestOnAIFailure(req);
+
+        statusCode = 503;
+        response = {
+          status: 'error',
+          message: 'AI service is temporarily unavailable. Please try again later.',
+          data: {
+            type: ErrorType.AI_SERVICE_ERROR
+          }
+        };
+      } else {
+        response = {
+          status: 'error',
+          message: 'Internal server error',
+          data: {
+            type: ErrorType.INTERNAL_ERROR
+          }
+        };
+      }
+
+      // Once the stream is open the status code is already sent, so errors travel as events
+      if (!res.headersSent) {
+        res.status(statusCode).json(response);
+      } else if (!clientClosed) {
+        writeEvent(res, 'error', response);
+        res.end();
+      }
+
+      logger.error('Failed to process streamed travel question', {
+        error: (error as Error).message,
+        clientIp,
+        processingTime: `${processingTime}ms`,
+        sessionId: getRequestSessionId(req)
       });
     }
   }
@@ -198,6 +399,74 @@ export class TravelController {
     }
   }
 
+  /**
+   * GET /api/travel/questions/:id/related
+   * Previously answered questions closest in meaning
+   */
+  async getRelatedQuestions(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+      const { limit } = relatedQuestionsQuerySchema.parse(req.query);
+
+      const related = await travelService.getRelatedQuestions(id, limit);
+
+      if (!related) {
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'Travel question not found',
+          data: {
+            type: ErrorType.NOT_FOUND_ERROR
+          }
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse<{ questions: RelatedTravelQuestion[] }> = {
+        status: 'success',
+        message: 'Related questions retrieved successfully',
+        data: {
+          questions: related
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'Invalid request data',
+          data: {
+            type: ErrorType.VALIDATION_ERROR,
+            errors: error.errors.map(err => ({
+              field: err.path.join('.'),
+              message: err.message
+            }))
+          }
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      const response: ErrorResponse = {
+        status: 'error',
+        message: 'Internal server error',
+        data: {
+          type: ErrorType.INTERNAL_ERROR
+        }
+      };
+
+      res.status(500).json(response);
+
+      logger.error('Failed to get related travel questions', {
+        error: (error as Error).message,
+        questionId: req.params['id']
+      });
+    }
+  }
+
   /**
    * GET /api/travel/questions
    * Get recent travel questions with pagination
@@ -304,6 +573,39 @@ export class TravelController {
     }
   }
 
+  /**
+   * GET /api/travel/models
+   * List registered AI models and their availability
+   */
+  async getModels(_req: Request, res: Response): Promise<void> {
+    try {
+      const models = travelService.listModels();
+
+      const response: ApiResponse<typeof models> = {
+        status: 'success',
+        message: 'AI models retrieved successfully',
+        data: models
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      const response: ErrorResponse = {
+        status: 'error',
+        message: 'Internal server error',
+        data: {
+          type: ErrorType.INTERNAL_ERROR
+        }
+      };
+
+      res.status(500).json(response);
+
+      logger.error('Failed to list AI models', {
+        error: (error as Error).message
+      });
+    }
+  }
+
   /**
    * GET /api/travel/stats
    * Get travel questions statistics
@@ -339,27 +641,39 @@ export class TravelController {
 
   /**
    * GET /api/travel/history
-   * Get client's travel question history (based on IP)
+   * Get the authenticated user's travel question history (requires requireAuth)
    */
-  async getClientHistory(req: Request, res: Response): Promise<void> {
-    const clientIp = req.ip || 'unknown';
+  async getUserHistory(req: Request, res: Response): Promise<void> {
+    const userId = getRequestUserId(req);
     
     try {
+      if (!userId) {
+        const response: ErrorResponse = {
+          status: 'error',
+          message: 'Authentication required',
+          data: {
+            type: ErrorType.UNAUTHORIZED_ERROR
+          }
+        };
+        res.status(401).json(response);
+        return;
+      }
+
       const validatedQuery = paginationSchema.parse(req.query);
       const { limit, offset } = validatedQuery;
 
-      const questions = await travelService.getQuestionsByClientIp(clientIp, limit, offset);
+      const questions = await travelService.getQuestionsByUserId(userId, limit, offset);
 
       const response: ApiResponse<{
         questions: TravelQuestionResponse[];
-        clientIp: string;
+        user_id: number;
         total: number;
       }> = {
         status: 'success',
-        message: 'Client travel history retrieved successfully',
+        message: 'User travel history retrieved successfully',
         data: {
           questions,
-          clientIp,
+          user_id: userId,
           total: questions.length
         }
       };
@@ -370,7 +684,7 @@ export class TravelController {
       if (error instanceof ZodError) {
         const response: ErrorResponse = {
           status: 'error',
-          message: 'Invalid query parameters for client history',
+          message: 'Invalid query parameters for user history',
           data: {
             type: ErrorType.VALIDATION_ERROR,
             errors: error.errors.map(err => ({
@@ -394,9 +708,9 @@ export class TravelController {
 
       res.status(500).json(response);
 
-      logger.error('Failed to get client travel history', {
+      logger.error('Failed to get user travel history', {
         error: (error as Error).message,
-        clientIp
+        userId
       });
     }
   }
@@ -0,0 +1,189 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../config/logger';
+import { createTopicClassifier } from '../services/topic-classifier.service';
+import { MockProvider } from '../services/providers/mock.provider';
+import { RecordedProvider, RecordingProvider } from '../services/providers/recorded.provider';
+import { providerRegistry } from '../services/providers/registry';
+import { AIProvider, TopicClassifierName } from '../types/ai';
+import { EvaluationReport, ItineraryEvaluationSample, ProviderRecording } from '../types/evaluation';
+import { ITINERARY_EVALUATION_SAMPLES } from './datasets/itinerary-samples';
+import { TOPIC_EVALUATION_SET } from './datasets/topic-questions';
+import { evaluateItineraries } from './itinerary-evaluation';
+import { compareReports, findLatestReport, formatReport, loadReport, saveReport } from './reports';
+import { evaluateTopicClassifier } from './topic-evaluation';
+
+const USAGE = `Usage: npm run evaluate -- [topics|itineraries|all] [options]
+  --classifier <keyword|naive_bayes|llm|all>  Topic classifiers to evaluate (default: all but llm)
+  --provider <recorded|name>                 Provider for itinerary samples (default: recorded)
+  --record                                   Save the answers of a live provider as the new recordings
+  --label <name>                             Name stored with the results
+  --out <dir>                                Results directory (default: evaluation-results)
+  --compare <file>                           Compare with this run instead of the latest stored one`;
+
+const TOPIC_CLASSIFIER_NAMES: TopicClassifierName[] = ['keyword', 'naive_bayes', 'llm'];
+
+const RECORDINGS_FILE = path.join(__dirname, 'datasets', 'itinerary-recordings.json');
+
+interface EvaluationOptions {
+  suite: 'topics' | 'itineraries' | 'all';
+  classifiers: TopicClassifierName[];
+  provider: string;
+  record: boolean;
+  label?: string;
+  out: string;
+  compare?: string;
+}
+
+const parseOptions = (args: string[]): EvaluationOptions => {
+  const options: EvaluationOptions = {
+    suite: 'all',
+    // The LLM judge calls a paid API, so it is only evaluated when asked for
+    classifiers: ['keyword', 'naive_bayes'],
+    provider: 'recorded',
+    record: false,
+    out: 'evaluation-results'
+  };
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    const value = (): string => {
+      const next = args[++index];
+      if (!next) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      return next;
+    };
+
+    switch (arg) {
+    case 'topics':
+    case 'itineraries':
+    case 'all':
+      options.suite = arg;
+      break;
+    case '--classifier': {
+      const name = value();
+      if (name !== 'all' && !TOPIC_CLASSIFIER_NAMES.includes(name as TopicClassifierName)) {
+        throw new Error(`Unknown topic classifier: ${name}`);
+      }
+      options.classifiers = name === 'all' ? TOPIC_CLASSIFIER_NAMES : [name as TopicClassifierName];
+      break;
+    }
+    case '--provider':
+      options.provider = value();
+      break;
+    case '--record':
+      options.record = true;
+      break;
+    case '--label':
+      options.label = value();
+      break;
+    case '--out':
+      options.out = value();
+      break;
+    case '--compare':
+      options.compare = value();
+      break;
+    default:
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (options.record && options.provider === 'recorded') {
+    throw new Error('--record needs a live --provider');
+  }
+
+  return options;
+};
+
+const loadRecordings = (): Record<string, ProviderRecording> => {
+  if (!fs.existsSync(RECORDINGS_FILE)) {
+    return {};
+  }
+
+  return JSON.parse(fs.readFileSync(RECORDINGS_FILE, 'utf8')) as Record<string, ProviderRecording>;
+};
+
+const getLiveProvider = (name: string): AIProvider => {
+  const provider = name === 'mock' ? new MockProvider() : providerRegistry.get(name);
+
+  if (!provider || !provider.isAvailable()) {
+    throw new Error(`AI provider ${name} is not registered or not configured`);
+  }
+
+  return provider;
+};
+
+/**
+ * Itinerary samples through recorded answers, or through a live provider whose answers can be recorded
+ */
+const runItineraries = async(options: EvaluationOptions) => {
+  const recordings = loadRecordings();
+
+  if (options.provider === 'recorded') {
+    const samples = ITINERARY_EVALUATION_SAMPLES.filter(sample => recordings[sample.id]);
+
+    return evaluateItineraries(samples, 'recorded', sample => {
+      return new RecordedProvider(recordings[sample.id] as ProviderRecording);
+    });
+  }
+
+  const liveProvider = getLiveProvider(options.provider);
+  const recorders = new Map<string, RecordingProvider>();
+
+  const evaluation = await evaluateItineraries(ITINERARY_EVALUATION_SAMPLES, options.provider,
+    (sample: ItineraryEvaluationSample) => {
+      const recorder = new RecordingProvider(liveProvider);
+      recorders.set(sample.id, recorder);
+      return recorder;
+    });
+
+  if (options.record) {
+    for (const [sampleId, recorder] of recorders) {
+      if (recorder.lastRecording) {
+        recordings[sampleId] = recorder.lastRecording;
+      }
+    }
+
+    fs.writeFileSync(RECORDINGS_FILE, `${JSON.stringify(recordings, null, 2)}\n`);
+    logger.info('Itinerary recordings saved', { file: RECORDINGS_FILE, samples: recorders.size });
+  }
+
+  return evaluation;
+};
+
+async function main() {
+  const options = parseOptions(process.argv.slice(2));
+  const report: EvaluationReport = {
+    created_at: new Date().toISOString(),
+    ...(options.label && { label: options.label }),
+    topics: []
+  };
+
+  if (options.suite !== 'itineraries') {
+    for (const name of options.classifiers) {
+      report.topics.push(await evaluateTopicClassifier(createTopicClassifier(name), TOPIC_EVALUATION_SET));
+    }
+  }
+
+  if (options.suite !== 'topics') {
+    report.itineraries = await runItineraries(options);
+  }
+
+  const previousFile = options.compare ?? findLatestReport(options.out);
+  const file = saveReport(options.out, report);
+
+  console.log(formatReport(report).join('\n'));
+  console.log(`\nResults stored in ${file}`);
+
+  if (previousFile) {
+    console.log(`\nCompared with ${previousFile}:`);
+    console.log(compareReports(report, loadReport(previousFile)).join('\n') || 'Nothing to compare');
+  }
+}
+
+main().then(() => process.exit(0)).catch(error => {
+  console.error((error as Error).message);
+  console.log(USAGE);
+  process.exit(1);
+});
@@ -0,0 +1,28 @@
+import { ItineraryEvaluationSample } from '../../types/evaluation';
+
+/**
+ * Sample itinerary requests; their recorded answers are in itinerary-recordings.json
+ * Trips stay within ITINERARY_DAYS_PER_CHUNK days, so each one is generated in a single request
+ */
+export const ITINERARY_EVALUATION_SAMPLES: ItineraryEvaluationSample[] = [
+  {
+    id: 'lisbon-weekend',
+    request: {
+      destination: 'Lisboa, Portugal',
+      start_date: '2025-05-09',
+      end_date: '2025-05-11',
+      budget: 800,
+      interests: ['gastronomia', 'história']
+    }
+  },
+  {
+    id: 'tokyo-short-trip',
+    request: {
+      destination: 'Tóquio, Japão',
+      start_date: '2025-10-06',
+      end_date: '2025-10-09',
+      budget: 2500,
+      interests: ['cultura', 'comida de rua', 'tecnologia']
+    }
+  }
+];
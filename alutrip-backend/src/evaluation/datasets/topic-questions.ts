@@ -0,0 +1,54 @@
+import { LabeledQuestion } from '../../types/ai';
+
+/**
+ * Held-out questions for evaluating the topic filter
+ * None of them is in the training set (constants/topic-training-set.ts), so the naive Bayes
+ * classifier is measured on questions it has not seen
+ */
+export const TOPIC_EVALUATION_SET: LabeledQuestion[] = [
+  // Travel (English)
+  { text: 'What are the best museums in Madrid?', travel: true },
+  { text: 'Where should I stay in Kyoto for a first visit?', travel: true },
+  { text: 'How do I get from Rome to Florence by train?', travel: true },
+  { text: 'What is the best time to visit Peru?', travel: true },
+  { text: 'Is Marrakech safe for solo female travelers?', travel: true },
+  { text: 'Where to eat the best pastéis de nata in Lisbon?', travel: true },
+  { text: 'How many days should I spend in Prague?', travel: true },
+  { text: 'Do I need a visa for a layover in Dubai?', travel: true },
+  { text: 'What should I pack for a safari in Tanzania?', travel: true },
+  { text: 'Cheap flights from São Paulo to Santiago', travel: true },
+  { text: 'Which Caribbean island is best for snorkeling?', travel: true },
+  { text: 'What to do in Edinburgh on a rainy day?', travel: true },
+
+  // Travel (Portuguese)
+  { text: 'Onde jantar em Lisboa?', travel: true },
+  { text: 'Quais praias visitar em Florianópolis?', travel: true },
+  { text: 'Como chegar ao Machu Picchu saindo de Cusco?', travel: true },
+  { text: 'Qual a melhor época para ir a Jericoacoara?', travel: true },
+  { text: 'Hotel ou hostel em Amsterdã?', travel: true },
+  { text: 'Quanto gastar por dia em Paris?', travel: true },
+  { text: 'Preciso de passaporte para ir à Argentina?', travel: true },
+  { text: 'Roteiro de três dias em Ouro Preto', travel: true },
+
+  // Other topics (English)
+  { text: 'How do I install Node.js on Windows?', travel: false },
+  { text: 'What is the difference between a Roth IRA and a 401k?', travel: false },
+  { text: 'How do I get rid of a headache quickly?', travel: false },
+  { text: 'Who is the best player in the NBA right now?', travel: false },
+  { text: 'How do I replace a flat tire on my car?', travel: false },
+  { text: 'Can you summarize the plot of Hamlet?', travel: false },
+  { text: 'How do I negotiate a higher salary?', travel: false },
+  { text: 'What is the derivative of x squared?', travel: false },
+  { text: 'How do I cancel my gym membership?', travel: false },
+  { text: 'What laptop should I buy for video editing?', travel: false },
+
+  // Other topics (Portuguese)
+  { text: 'Qual o melhor celular de 2024?', travel: false },
+  { text: 'Como fazer pão caseiro?', travel: false },
+  { text: 'Como calcular juros compostos?', travel: false },
+  { text: 'Meu cachorro está vomitando, o que fazer?', travel: false },
+  { text: 'Como pedir aumento de salário para o chefe?', travel: false },
+  { text: 'Quem descobriu a penicilina?', travel: false },
+  { text: 'Como limpar o histórico do navegador?', travel: false },
+  { text: 'Qual a melhor forma de estudar para o ENEM?', travel: false }
+];
@@ -0,0 +1,169 @@
+import { parseStructuredItinerary } from '../schemas/itinerary-content.schemas';
+import { AIService } from '../services/ai.service';
+import { ItineraryService } from '../services/itinerary.service';
+import { RecordedProvider } from '../services/providers/recorded.provider';
+import { AIProviderRegistry } from '../services/providers/registry';
+import { AIProvider } from '../types/ai';
+import {
+  ItineraryCheckName,
+  ItineraryCheckResult,
+  ItineraryEvaluation,
+  ItineraryEvaluationSample,
+  ItinerarySampleEvaluation
+} from '../types/evaluation';
+import { Itinerary, ItineraryPeriod, ItineraryRequestData } from '../types/travel';
+
+// Every day needs a restaurant suggestion for both meals
+const MEAL_PERIODS: ItineraryPeriod[] = ['lunch', 'dinner'];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Calendar date of each trip day, counted as ItineraryService counts the trip duration
+ */
+export const getTripDates = (request: ItineraryRequestData): string[] => {
+  const start = new Date(`${request.start_date}T00:00:00.000Z`);
+  const end = new Date(`${request.end_date}T00:00:00.000Z`);
+  const duration = Math.ceil((end.getTime() - start.getTime()) / DAY_MS);
+
+  return Array.from({ length: duration }, (_, index) => {
+    return new Date(start.getTime() + index * DAY_MS).toISOString().slice(0, 10);
+  });
+};
+
+const checkResult = (check: ItineraryCheckName, errors: string[]): ItineraryCheckResult => ({
+  check,
+  passed: errors.length === 0,
+  errors
+});
+
+/**
+ * Structural checks of an itinerary answer: valid JSON for the schema, one day per trip date
+ * in order, and lunch and dinner planned every day
+ */
+export const checkItineraryStructure = (
+  request: ItineraryRequestData,
+  content: string
+): ItineraryCheckResult[] => {
+  const parsed = parseStructuredItinerary(content);
+
+  if (!parsed.success) {
+    const notChecked = ['Not checked, the itinerary has no valid structure'];
+
+    return [
+      checkResult('valid_structure', parsed.errors),
+      checkResult('all_days_present', notChecked),
+      checkResult('dates_match', notChecked),
+      checkResult('meal_slots_filled', notChecked)
+    ];
+  }
+
+  const dates = getTripDates(request);
+  const { days } = parsed.data;
+  const dayNumbers = days.map(day => day.day);
+
+  const missingDays = dates
+    .map((_, index) => index + 1)
+    .filter(dayNumber => !dayNumbers.includes(dayNumber))
+    .map(dayNumber => `Day ${dayNumber} is missing`);
+  const unexpectedDays = dayNumbers
+    .filter(dayNumber => dayNumber > dates.length)
+    .map(dayNumber => `Unexpected day ${dayNumber}`);
+
+  const wrongDates = days
+    .filter(day => dates[day.day - 1] !== undefined && dates[day.day - 1] !== day.date)
+    .map(day => `Day ${day.day}: expected ${dates[day.day - 1]}, received ${day.date}`);
+
+  const missingMeals = days.flatMap(day => MEAL_PERIODS
+    .filter(period => !day.activities.some(activity => activity.period === period))
+    .map(period => `Day ${day.day} has no ${period}`));
+
+  return [
+    checkResult('valid_structure', []),
+    checkResult('all_days_present', [...missingDays, ...unexpectedDays]),
+    checkResult('dates_match', wrongDates),
+    checkResult('meal_slots_filled', missingMeals)
+  ];
+};
+
+/**
+ * Itinerary row for a sample, as ItineraryService would load it; it is never stored
+ */
+const toItinerary = (request: ItineraryRequestData, model: string): Itinerary => ({
+  id: 0,
+  client_ip: 'evaluation',
+  destination: request.destination,
+  // Local midnight, as pg returns DATE columns
+  start_date: new Date(`${request.start_date}T00:00:00`),
+  end_date: new Date(`${request.end_date}T00:00:00`),
+  ...(request.budget !== undefined && { budget: request.budget }),
+  ...(request.interests && { interests: request.interests }),
+  request_data: request,
+  generated_content: '',
+  model_used: model,
+  prompt_version: 0,
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  latency_ms: 0,
+  cost_usd: 0,
+  processing_status: 'pending',
+  created_at: new Date()
+});
+
+/**
+ * Generate one sample through AIService with the production prompts, using only the given provider
+ */
+export const runItinerarySample = async(
+  sample: ItineraryEvaluationSample,
+  provider: AIProvider
+): Promise<ItinerarySampleEvaluation> => {
+  const registry = new AIProviderRegistry();
+  registry.register(provider);
+  const service = new AIService(registry, false);
+
+  try {
+    const prompt = ItineraryService.buildItineraryPrompt(toItinerary(sample.request, provider.name));
+    const response = await service.processItineraryRequest(prompt, provider.name);
+    const checks = checkItineraryStructure(sample.request, response.content);
+
+    return {
+      sample_id: sample.id,
+      model: provider.model,
+      passed: checks.every(check => check.passed),
+      ...(provider instanceof RecordedProvider && { stale: provider.stale }),
+      checks
+    };
+  } catch (error) {
+    return {
+      sample_id: sample.id,
+      passed: false,
+      checks: [],
+      error: (error as Error).message
+    };
+  }
+};
+
+/**
+ * Run every sample with the provider created for it
+ */
+export const evaluateItineraries = async(
+  samples: ItineraryEvaluationSample[],
+  providerName: string,
+  createProvider: (sample: ItineraryEvaluationSample) => AIProvider
+): Promise<ItineraryEvaluation> => {
+  const results: ItinerarySampleEvaluation[] = [];
+
+  for (const sample of samples) {
+    results.push(await runItinerarySample(sample, createProvider(sample)));
+  }
+
+  const passed = results.filter(result => result.passed).length;
+
+  return {
+    provider: providerName,
+    total: results.length,
+    passed,
+    pass_rate: results.length > 0 ? Math.round((passed / results.length) * 10000) / 10000 : 0,
+    samples: results
+  };
+};
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import path from 'path';
+import { EvaluationReport, TopicEvaluation } from '../types/evaluation';
+
+const TOPIC_METRICS = ['precision', 'recall', 'f1', 'accuracy'] as const;
+
+const formatNumber = (value: number): string => value.toFixed(4);
+
+const formatDelta = (current: number, previous: number): string => {
+  const delta = current - previous;
+  const sign = delta > 0 ? '+' : '';
+
+  return `${formatNumber(previous)} -> ${formatNumber(current)} (${sign}${formatNumber(delta)})`;
+};
+
+/**
+ * Store a run as <dir>/<created_at>[-<label>].json; file names sort in run order
+ */
+export const saveReport = (dir: string, report: EvaluationReport): string => {
+  const label = report.label ? `-${report.label.replace(/[^a-zA-Z0-9_-]/g, '_')}` : '';
+  const file = path.join(dir, `${report.created_at.replace(/[:.]/g, '-')}${label}.json`);
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(report, null, 2)}\n`);
+
+  return file;
+};
+
+export const loadReport = (file: string): EvaluationReport => {
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as EvaluationReport;
+};
+
+/**
+ * Most recent stored run, or null when nothing was stored yet
+ */
+export const findLatestReport = (dir: string): string | null => {
+  if (!fs.existsSync(dir)) {
+    return null;
+  }
+
+  const files = fs.readdirSync(dir).filter(file => file.endsWith('.json')).sort();
+  const latest = files[files.length - 1];
+
+  return latest ? path.join(dir, latest) : null;
+};
+
+/**
+ * Human readable summary of a run
+ */
+export const formatReport = (report: EvaluationReport): string[] => {
+  const lines: string[] = [];
+
+  for (const topic of report.topics) {
+    lines.push(
+      `Topic classifier ${topic.classifier} (${topic.total} questions): ` +
+      TOPIC_METRICS.map(metric => `${metric} ${formatNumber(topic[metric])}`).join(', ')
+    );
+
+    for (const miss of topic.misclassified) {
+      lines.push(
+        `  ${miss.expected_travel ? 'declined' : 'accepted'}: "${miss.text}" ` +
+        `(confidence ${formatNumber(miss.decision.confidence)}, ${miss.decision.reason})`
+      );
+    }
+  }
+
+  if (report.itineraries) {
+    const { itineraries } = report;
+    lines.push(
+      `Itineraries with ${itineraries.provider}: ${itineraries.passed}/${itineraries.total} passed ` +
+      `(pass rate ${formatNumber(itineraries.pass_rate)})`
+    );
+
+    for (const sample of itineraries.samples) {
+      const failed = sample.checks.filter(check => !check.passed);
+      const status = sample.passed ? 'passed' : 'failed';
+      lines.push(`  ${sample.sample_id}: ${status}${sample.stale ? ' (stale recording, re-record it)' : ''}`);
+
+      if (sample.error) {
+        lines.push(`    error: ${sample.error}`);
+      }
+
+      for (const check of failed) {
+        lines.push(`    ${check.check}: ${check.errors.slice(0, 5).join('; ')}`);
+      }
+    }
+  }
+
+  return lines;
+};
+
+/**
+ * Metric changes from a previous run, for the classifiers and itinerary provider both runs have
+ */
+export const compareReports = (current: EvaluationReport, previous: EvaluationReport): string[] => {
+  const lines: string[] = [];
+  const previousTopics = new Map<string, TopicEvaluation>(
+    previous.topics.map(topic => [topic.classifier, topic])
+  );
+
+  for (const topic of current.topics) {
+    const before = previousTopics.get(topic.classifier);
+
+    if (before) {
+      for (const metric of TOPIC_METRICS) {
+        lines.push(`Topic classifier ${topic.classifier} ${metric}: ${formatDelta(topic[metric], before[metric])}`);
+      }
+    }
+  }
+
+  if (current.itineraries && previous.itineraries?.provider === current.itineraries.provider) {
+    lines.push(
+      `Itineraries with ${current.itineraries.provider} pass rate: ` +
+      formatDelta(current.itineraries.pass_rate, previous.itineraries.pass_rate)
+    );
+  }
+
+  return lines;
+};
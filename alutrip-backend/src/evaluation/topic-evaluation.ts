@@ -0,0 +1,58 @@
+import { LabeledQuestion, TopicClassifier } from '../types/ai';
+import { TopicConfusionMatrix, TopicEvaluation, TopicMisclassification } from '../types/evaluation';
+
+// Ratio with 0 instead of NaN when nothing was counted
+const ratio = (numerator: number, denominator: number): number => {
+  return denominator > 0 ? numerator / denominator : 0;
+};
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * Run every labeled question through the classifier, with travel questions as the positive class
+ * Precision drops when other topics get through; recall drops when travel questions are declined
+ */
+export const evaluateTopicClassifier = async(
+  classifier: TopicClassifier,
+  dataset: LabeledQuestion[]
+): Promise<TopicEvaluation> => {
+  const confusion: TopicConfusionMatrix = {
+    true_positives: 0,
+    false_positives: 0,
+    true_negatives: 0,
+    false_negatives: 0
+  };
+  const misclassified: TopicMisclassification[] = [];
+
+  for (const example of dataset) {
+    const decision = await classifier.classify(example.text);
+
+    if (decision.travel && example.travel) {
+      confusion.true_positives++;
+    } else if (decision.travel) {
+      confusion.false_positives++;
+    } else if (example.travel) {
+      confusion.false_negatives++;
+    } else {
+      confusion.true_negatives++;
+    }
+
+    if (decision.travel !== example.travel) {
+      misclassified.push({ text: example.text, expected_travel: example.travel, decision });
+    }
+  }
+
+  const precision = ratio(confusion.true_positives, confusion.true_positives + confusion.false_positives);
+  const recall = ratio(confusion.true_positives, confusion.true_positives + confusion.false_negatives);
+
+  return {
+    classifier: classifier.name,
+    total: dataset.length,
+    precision: round(precision),
+    recall: round(recall),
+    f1: round(ratio(2 * precision * recall, precision + recall)),
+    accuracy: round(ratio(confusion.true_positives + confusion.true_negatives, dataset.length)),
+    confusion,
+    misclassified
+  };
+};
@@ -1,6 +1,9 @@
 import { Job } from 'bullmq';
 import { logger } from '../config/logger';
 import { itineraryService } from '../services/itinerary.service';
+import { itineraryProgressService } from '../services/itinerary-progress.service';
+import { refundAIFailure } from '../middleware/rate-limit';
+import { AIModel, RateLimitCharge } from '../types/travel';
 
 /**
  * Background job processor for itinerary generation
@@ -9,15 +12,20 @@ import { itineraryService } from '../services/itinerary.service';
 
 export interface ItineraryJobData {
   itineraryId: number;
+  model?: AIModel; // Model chosen at creation; jobs queued before it existed fall back to request_data
+  rateLimitCharge?: RateLimitCharge; // Given back when the last attempt fails
 }
 
 /**
  * Process itinerary generation job (BullMQ)
  */
 export const processItineraryJob = async (job: Job<ItineraryJobData>): Promise<void> => {
-  const { itineraryId } = job.data;
+  const { itineraryId, model, rateLimitCharge } = job.data;
   const startTime = Date.now();
 
+  // attemptsMade counts the failed attempts before this one
+  const lastAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
   try {
     logger.info('Starting BullMQ itinerary generation job', {
       context: 'job',
@@ -28,7 +36,8 @@ export const processItineraryJob = async (job: Job<ItineraryJobData>): Promise<v
       jobOpts: job.opts
     });
 
-    await job.updateProgress(10);
+    // Progress carries the lifecycle stage, relayed to the clients streaming GET /api/itinerary/:id/events
+    await job.updateProgress(itineraryProgressService.fromStage(itineraryId, 'generating_content'));
     logger.info('BullMQ job progress updated to 10%', {
       context: 'job',
       jobId: job.id,
@@ -38,10 +47,23 @@ export const processItineraryJob = async (job: Job<ItineraryJobData>): Promise<v
     logger.info('Starting itinerary service processing', {
       context: 'job',
       jobId: job.id,
-      itineraryId
+      itineraryId,
+      model
     });
     
-    await itineraryService.processItinerary(itineraryId);
+    await itineraryService.processItinerary(itineraryId, model, async progress => {
+      // Long trips report once per generated chunk
+      await job.updateProgress(itineraryProgressService.fromGeneration(itineraryId, progress));
+      logger.info('BullMQ job progress updated', {
+        context: 'job',
+        jobId: job.id,
+        itineraryId,
+        stage: progress.stage,
+        completedChunks: progress.completed_chunks,
+        totalChunks: progress.total_chunks,
+        percent: progress.percent
+      });
+    }, lastAttempt);
     
     logger.info('Itinerary service processing completed', {
       context: 'job',
@@ -49,7 +71,7 @@ export const processItineraryJob = async (job: Job<ItineraryJobData>): Promise<v
       itineraryId
     });
 
-    await job.updateProgress(100);
+    await job.updateProgress(itineraryProgressService.fromStage(itineraryId, 'completed'));
     logger.info('BullMQ job progress updated to 100%', {
       context: 'job',
       jobId: job.id,
@@ -76,6 +98,21 @@ export const processItineraryJob = async (job: Job<ItineraryJobData>): Promise<v
       processingTime: `${processingTime}ms`
     });
 
+    // A failure to report it must not hide the error of the job
+    await job.updateProgress(itineraryProgressService.fromStage(itineraryId, lastAttempt ? 'failed' : 'queued'))
+      .catch((progressError: Error) => {
+        logger.warn('Failed to report BullMQ job failure progress', {
+          context: 'job',
+          jobId: job.id,
+          itineraryId,
+          error: progressError.message
+        });
+      });
+
+    if (lastAttempt) {
+      await refundAIFailure(rateLimitCharge);
+    }
+
     throw error;
   }
 };
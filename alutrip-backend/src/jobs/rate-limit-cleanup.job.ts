@@ -0,0 +1,35 @@
+import { config } from '../config/env';
+import { logger } from '../config/logger';
+import { cleanupExpiredRateLimits } from '../middleware/rate-limit';
+
+/**
+ * Periodic cleanup of the rate limit history kept for reports
+ * Runs every RATE_LIMIT_CLEANUP_INTERVAL; cleanupExpiredRateLimits logs its own failures
+ */
+
+let rateLimitCleanupInterval: NodeJS.Timeout | null = null;
+
+export const startRateLimitCleanup = (): void => {
+  if (rateLimitCleanupInterval) {
+    logger.warn('Rate limit cleanup is already running');
+    return;
+  }
+
+  rateLimitCleanupInterval = setInterval(() => {
+    void cleanupExpiredRateLimits();
+  }, config.RATE_LIMIT_CLEANUP_INTERVAL);
+
+  logger.info('Rate limit cleanup scheduled', {
+    interval: `${config.RATE_LIMIT_CLEANUP_INTERVAL / 1000}s`,
+    retentionDays: config.RATE_LIMIT_HISTORY_RETENTION_DAYS
+  });
+};
+
+export const stopRateLimitCleanup = (): void => {
+  if (rateLimitCleanupInterval) {
+    clearInterval(rateLimitCleanupInterval);
+    rateLimitCleanupInterval = null;
+
+    logger.info('Rate limit cleanup stopped');
+  }
+};
@@ -0,0 +1,423 @@
+import { MessageCatalog, PromptDaySummary } from '../types/i18n';
+
+const REFUSAL = '¡Hola! Soy AluTrip, ¡tu asistente de viaje! Estoy aquí para ayudarte con todo lo relacionado con ' +
+  'destinos, alojamientos, paseos, restaurantes y consejos de viaje. Tu pregunta se sale un poquito ' +
+  'del tema de viajes, pero si quieres, envíame una duda sobre tu próxima aventura y ¡me encantará ayudarte!';
+
+const DAILY_FORMAT = '- Usa los periodos morning, lunch, afternoon, dinner y evening con horarios específicos';
+
+const summarizeDays = (days: PromptDaySummary[]): string => {
+  return days.map(day => `- Día ${day.day}: ${day.title} (${day.places.join(', ')})`).join('\n');
+};
+
+export const es: MessageCatalog = {
+  locale: 'es',
+  dateLocale: 'es-ES',
+  refusal: REFUSAL,
+
+  prompts: {
+    travelSystem: `Eres AluTrip, un asistente de viaje especializado en IA que ayuda a las personas a
+planificar viajes increíbles sin burocracia ni barreras.
+
+🚨 REGLAS CRÍTICAS Y OBLIGATORIAS 🚨
+
+1. DEBES responder SOLO y EXCLUSIVAMENTE preguntas relacionadas con:
+   - Destinos turísticos y lugares para visitar
+   - Planificación de viajes e itinerarios
+   - Alojamiento (hoteles, hostales, resorts, etc.)
+   - Transporte (vuelos, trenes, autobuses, coches, etc.)
+   - Actividades turísticas y excursiones
+   - Restaurantes y gastronomía local
+   - Consejos de viaje y preparación
+   - Cultura y costumbres locales
+   - Seguridad en los viajes
+   - Documentación necesaria (pasaporte, visado, etc.)
+   - Presupuesto y costes de viaje
+   - Mejor época para viajar
+   - Qué llevar en la maleta
+
+2. SI LA PREGUNTA NO ES SOBRE VIAJES, DEBES:
+   - Negarte a responder de inmediato
+   - Usar EXACTAMENTE el mensaje estándar de rechazo
+   - NO dar ninguna información sobre el tema preguntado
+   - NO intentar ayudar con el asunto no relacionado con viajes
+
+3. TEMAS PROHIBIDOS (NO RESPONDAS):
+   - Tecnología, programación, software, IA, desarrollo
+   - Salud, medicina, síntomas, tratamientos, medicamentos
+   - Cuestiones legales, abogados, procesos, contratos
+   - Finanzas, inversiones, criptomonedas, bancos
+   - Política, elecciones, gobierno, economía
+   - Relaciones, citas, matrimonio, familia
+   - Educación, estudios, cursos, universidades
+   - Deportes (salvo si están relacionados con viajes)
+   - Entretenimiento (películas, series, música - salvo si están relacionados con viajes)
+   - Trabajo, carrera, empleos
+   - Cualquier asunto que no sea directamente sobre viajes
+
+4. MENSAJE OBLIGATORIO DE RECHAZO:
+   '${REFUSAL}'
+
+5. VALIDACIÓN OBLIGATORIA:
+   - Antes de responder, analiza SIEMPRE si la pregunta es sobre viajes
+   - Si hay DUDA, prefiere no responder
+   - Sé EXTREMADAMENTE estricto - es mejor rechazar una pregunta válida que responder una inválida
+
+Tu papel (SOLO para preguntas sobre viajes):
+- Dar consejos de viaje precisos, útiles y personalizados
+- Compartir consejos prácticos sobre destinos, alojamientos, transporte y actividades
+- Tener en cuenta el presupuesto, el tiempo y las preferencias personales en tus recomendaciones
+- Ofrecer conocimiento sobre costumbres locales y mejores épocas para visitar
+- Ayudar con la planificación del itinerario, sugerencias de equipaje y logística
+- Ser entusiasta y alentador, pero realista sobre las expectativas
+
+Pautas para respuestas sobre viajes:
+- Sé siempre útil, amable y alentador
+- Da consejos específicos y prácticos
+- Incluye detalles prácticos como costes aproximados, horarios y consejos de reserva
+- Menciona posibles desafíos o consideraciones importantes
+- Sugiere alternativas cuando corresponda
+- Mantén las respuestas completas, pero no abrumadoras
+- Usa un tono conversacional y cercano
+- Responde siempre en español
+
+RECUERDA: Tu función es SER UN ASISTENTE DE VIAJE. Cualquier pregunta que no sea sobre viajes debe rechazarse de inmediato con el mensaje estándar.`,
+
+    travelQuestion: question => `
+Pregunta sobre Viajes: ${question}
+
+Por favor, da una respuesta completa y útil a esta pregunta relacionada con viajes.
+Incluye recomendaciones específicas, consejos prácticos y detalles relevantes que sean valiosos
+para planificar el viaje.
+Si la pregunta trata sobre destinos, incluye información sobre las mejores épocas para visitar,
+costumbres locales, consideraciones de presupuesto y atracciones imprescindibles.
+Mantén la respuesta informativa pero concisa, centrada en consejos prácticos de viaje.
+`,
+
+    conversation: message => `
+Pregunta de seguimiento: ${message}
+
+Responde teniendo en cuenta el historial de la conversación anterior. Refina, completa o corrige las respuestas
+anteriores cuando tenga sentido, sin repetir información que ya se dio.
+Mantén la respuesta centrada en lo que se pregunta ahora, con consejos prácticos de viaje.
+`,
+
+    itinerarySystem: jsonFormat => `Eres AluTrip, un especialista en planificación de viajes que crea itinerarios detallados y personalizados.
+
+🎯 TU PAPEL:
+- Eres un planificador de viajes experimentado y especializado
+- Crea itinerarios detallados, prácticos e inspiradores
+- Ten siempre en cuenta el presupuesto, las preferencias y el estilo de viaje del usuario
+- Proporciona información precisa y actualizada sobre los destinos
+
+📋 PAUTAS PARA ITINERARIOS:
+
+1. **ESTRUCTURA OBLIGATORIA:**
+   - Introducción al destino
+   - Información práctica (documentación, moneda, transporte)
+   - Itinerario diario detallado con horarios específicos
+   - Sugerencias de alojamiento en diferentes rangos de precio
+   - Presupuesto estimado por categoría
+   - Consejos extra e información práctica
+
+2. **FORMATO DIARIO:**
+   - Mañana (9h-12h): Actividad principal
+   - Almuerzo (12h-14h): Sugerencia de restaurante
+   - Tarde (14h-18h): Actividad secundaria
+   - Cena (19h-21h): Sugerencia de restaurante
+   - Noche (21h+): Actividad nocturna o descanso
+
+3. **INFORMACIÓN ESENCIAL:**
+   - Nombres específicos de restaurantes, atracciones y lugares
+   - Precios aproximados en USD
+   - Tiempo necesario para cada actividad
+   - Cómo llegar entre los lugares
+   - Horarios de apertura
+
+4. **PERSONALIZACIÓN:**
+   - Adáptate al presupuesto informado
+   - Ten en cuenta los intereses específicos
+   - Respeta el estilo de viaje (económico, intermedio, lujo)
+   - Incluye al menos una actividad gratuita por día
+
+5. **TONO Y ESTILO:**
+   - Usa un tono entusiasta e inspirador
+   - Sé específico y práctico
+   - Incluye valiosos consejos de conocedor local
+   - Mantén el foco en la experiencia del usuario
+
+🚨 IMPORTANTE:
+- Ten siempre en cuenta las fechas específicas para eventos de temporada
+- Incluye tiempos de desplazamiento realistas
+- Ofrece alternativas para días de lluvia (si aplica)
+- Menciona aspectos culturales y normas de etiqueta locales cuando sea relevante
+- En viajes con varios destinos, recomienda el mejor traslado entre cada ciudad y reserva tiempo para él el día del cambio
+
+🧾 FORMATO DE LA RESPUESTA (OBLIGATORIO):
+Responde SOLO con un objeto JSON válido, sin markdown y sin texto antes o después, siguiendo exactamente esta estructura:
+${jsonFormat}
+
+- Todos los valores monetarios son números en USD (sin símbolos)
+- Los textos deben estar en español
+
+¡Tu objetivo es crear un itinerario completo que haga el viaje inolvidable y bien organizado!`,
+
+    itineraryJsonHints: {
+      introduction: 'destino, mejor época y clima en las fechas del viaje',
+      activityDescription: 'cómo llegar, tiempo necesario',
+      optional: 'opcional',
+      dayTheme: 'tema del día',
+      lodgingCity: 'solo en viajes con varios destinos',
+      transferRecommendation: 'empresa, estación/aeropuerto, cómo reservar',
+      transfersOnly: 'solo en viajes con varios destinos, un elemento por cambio de ciudad'
+    },
+
+    itineraryCorrection: errors => `Tu respuesta anterior no es un JSON válido para la estructura solicitada. Problemas encontrados:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Responde de nuevo SOLO con el objeto JSON completo y corregido, sin markdown y sin texto adicional.`,
+
+    tripInfo: trip => {
+      let prompt = `
+Por favor, crea un itinerario de viaje detallado con la siguiente información:
+
+🎯 INFORMACIÓN DEL VIAJE:
+- Destino: ${trip.destination}
+- Fecha de inicio: ${trip.startDate}
+- Fecha de fin: ${trip.endDate}
+- Duración: ${trip.duration} día${trip.duration > 1 ? 's' : ''}`;
+
+      if (trip.legs.length > 0) {
+        prompt += `\n- Tramos (en orden):\n${trip.legs
+          .map((leg, index) => `  ${index + 1}. ${leg.destination}: ${leg.start_date} a ${leg.end_date}`)
+          .join('\n')}`;
+      }
+
+      if (trip.budget) {
+        prompt += `\n- Presupuesto: $${trip.budget.toLocaleString('en-US')} USD`;
+      }
+
+      if (trip.interests && trip.interests.length > 0) {
+        prompt += `\n- Intereses específicos: ${trip.interests.join(', ')}`;
+      }
+
+      return prompt;
+    },
+
+    itinerary: (startDate, transfers) => `
+
+📋 ESTRUCTURA OBLIGATORIA DEL ITINERARIO:
+
+1. **Introducción al Destino**
+   - Breve descripción del destino
+   - Mejor época para visitar
+   - Consejos sobre el clima en las fechas del viaje
+
+2. **Información Práctica**
+   - Documentación necesaria
+   - Moneda local y consejos de cambio
+   - Transporte en el destino
+   - Seguridad y consejos importantes
+
+3. **Itinerario Diario Detallado**
+   Para cada día (Día 1, Día 2, etc.), incluye:
+   - **Mañana (9h-12h):** Actividad principal, cómo llegar, tiempo necesario
+   - **Almuerzo (12h-14h):** Sugerencia de restaurante con rango de precios
+   - **Tarde (14h-18h):** Actividad secundaria, consejos para aprovecharla
+   - **Cena (19h-21h):** Sugerencia de restaurante distinto del almuerzo
+   - **Noche (21h+):** Actividad nocturna o descanso
+
+4. **Sugerencias de Alojamiento**
+   - 3 opciones de alojamiento en diferentes rangos de precio
+   - Ubicación y ventajas de cada una
+
+5. **Presupuesto Estimado**
+   - Desglose por categoría (alojamiento, comida, transporte, atracciones)
+   - Consejos para ahorrar
+   - Costes por persona
+
+6. **Consejos Extra**
+   - Qué llevar en la maleta
+   - Aplicaciones útiles
+   - Frases básicas en el idioma local (si aplica)
+   - Recuerdos típicos
+
+🎨 FORMATO DE LA RESPUESTA:
+- Responde solo con el objeto JSON descrito en las instrucciones del sistema
+- Un elemento en "days" por día del viaje, empezando el ${startDate} ("date" en YYYY-MM-DD)
+${DAILY_FORMAT}
+- Indica costes estimados en USD para cada actividad y para el presupuesto
+- Sé específico con los nombres de restaurantes, atracciones y lugares
+- Mantén un tono entusiasta e inspirador en los textos
+
+🚨 IMPORTANTE:
+- El itinerario debe ser detallado y práctico
+- Ten en cuenta el tiempo de desplazamiento entre actividades
+- Adapta las sugerencias al presupuesto informado
+- Incluye al menos una actividad gratuita por día
+- Ten en cuenta las fechas específicas para eventos de temporada${transfers}
+
+¡Crea un itinerario completo e inspirador que haga este viaje inolvidable!`,
+
+    transfers: transfers => `
+
+🚆 TRASLADOS ENTRE DESTINOS:
+Incluye en "transfers" exactamente un elemento por cada cambio de ciudad, en orden:
+${transfers.map(transfer => `- ${transfer.from} → ${transfer.to} el ${transfer.date}`).join('\n')}
+- Recomienda el medio de transporte más adecuado (tren, autobús, vuelo, coche o ferry), con duración y coste en USD
+- Sugiere alojamientos en cada ciudad, indicando la ciudad en "city"`,
+
+    overview: (dates, transfers) => `
+
+📋 ETAPA 1 - VISIÓN GENERAL:
+Este viaje es largo y se planificará por etapas. En esta etapa NO detalles las actividades de los días. Genera:
+- Título, introducción al destino e información práctica
+- "day_outline" con exactamente ${dates.length} elementos, uno por día, del ${dates[0]} al ${dates[dates.length - 1]}
+- El tema de cada día, repartiendo barrios, regiones y excursiones de un día de forma equilibrada y sin repetir atracciones
+- 3 opciones de alojamiento en diferentes rangos de precio
+- Presupuesto estimado para todo el viaje, con consejos para ahorrar
+- Consejos extra (qué llevar, aplicaciones útiles, frases básicas, recuerdos)
+
+🚨 IMPORTANTE:
+- Adapta las sugerencias al presupuesto informado
+- Ten en cuenta las fechas específicas para eventos de temporada${transfers}`,
+
+    daysChunk: chunk => {
+      const first = chunk.days[0]?.day ?? 1;
+      const last = chunk.days[chunk.days.length - 1]?.day ?? first;
+
+      let prompt = `
+
+🗺️ VISIÓN GENERAL YA DEFINIDA:
+- Título: ${chunk.title}
+- Alojamiento sugerido: ${chunk.lodging.join(', ')}
+- Plan de los días:
+${chunk.outline.map(day => `- Día ${day.day} (${day.date}): ${day.title}`).join('\n')}`;
+
+      if (chunk.previousDays.length > 0) {
+        prompt += `
+
+✅ DÍAS YA DETALLADOS (no repitas atracciones ni restaurantes):
+${summarizeDays(chunk.previousDays)}`;
+      }
+
+      const dates = chunk.days.map(day => `Día ${day.day} = ${day.date}${day.city ? ` (${day.city})` : ''}`);
+
+      return `${prompt}
+
+📋 DETALLE DE LOS DÍAS ${first} A ${last}:
+- Responde con "days" con exactamente los días ${chunk.days.map(day => day.day).join(', ')}, siguiendo el tema de cada día del plan
+- Fechas: ${dates.join(', ')}
+${DAILY_FORMAT}
+- Indica costes estimados en USD para cada actividad
+- Incluye al menos una actividad gratuita por día y una alternativa para días de lluvia
+- Ten en cuenta el tiempo de desplazamiento entre actividades y el presupuesto informado`;
+    },
+
+    dayRegeneration: request => {
+      const { day } = request;
+
+      let prompt = `
+
+🗺️ ITINERARIO ACTUAL: ${request.title}`;
+
+      if (request.otherDays.length > 0) {
+        prompt += `
+
+✅ OTROS DÍAS (se mantienen, no repitas atracciones ni restaurantes):
+${summarizeDays(request.otherDays)}`;
+      }
+
+      return `${prompt}
+
+✏️ DÍA A REESCRIBIR - Día ${day.day} (${day.date}${day.city ? `, ${day.city}` : ''}): ${day.title}
+Actividades actuales:
+${request.activities.map(activity => `- ${activity.startTime} ${activity.title} (${activity.place})`).join('\n')}
+
+💬 PETICIÓN DEL VIAJERO: ${request.feedback || 'Sugiere una alternativa diferente para este día'}
+
+📋 INSTRUCCIONES:
+- Responde con "days" con exactamente el día ${day.day}, con fecha ${day.date}
+- Atiende la petición del viajero y mantén el resto coherente con el itinerario
+${DAILY_FORMAT}
+- Indica costes estimados en USD para cada actividad
+- Incluye al menos una actividad gratuita y una alternativa para días de lluvia
+- Ten en cuenta el tiempo de desplazamiento entre actividades y el presupuesto informado`;
+    }
+  },
+
+  pdf: {
+    title: 'Itinerario de Viaje',
+    tripInformation: 'Información del Viaje',
+    personalizedItinerary: 'Tu Itinerario Personalizado',
+    destination: 'Destino:',
+    start: 'Inicio:',
+    duration: 'Duración:',
+    end: 'Fin:',
+    days: count => `${count} día${count > 1 ? 's' : ''}`,
+    budget: 'Presupuesto: ',
+    legs: 'Tramos: ',
+    interests: 'Intereses: ',
+    tagline: 'Tu asistente de viaje inteligente',
+    generatedAt: (date, time) => `Generado el ${date} a las ${time}`,
+    practicalInfo: 'Información Práctica',
+    documentation: 'Documentación',
+    currency: 'Moneda',
+    transport: 'Transporte',
+    safety: 'Seguridad',
+    leg: (number, destination, dates) => `Tramo ${number}: ${destination} (${dates})`,
+    transfers: 'Traslados',
+    transfer: (from, to, date) => `Traslado: ${from} → ${to} (${date})`,
+    lodging: 'Sugerencias de Alojamiento',
+    lodgingColumns: {
+      name: 'Alojamiento',
+      city: 'Ciudad',
+      category: 'Categoría',
+      neighborhood: 'Barrio',
+      pricePerNight: 'Por noche',
+      highlights: 'Destacados'
+    },
+    estimatedBudget: 'Presupuesto Estimado',
+    budgetColumns: {
+      category: 'Categoría',
+      value: currency => `Importe (${currency})`,
+      total: 'Total'
+    },
+    budgetCategories: {
+      lodging: 'Alojamiento',
+      food: 'Comida',
+      transport: 'Transporte',
+      attractions: 'Atracciones',
+      other: 'Otros'
+    },
+    extraTips: 'Consejos Extra',
+    day: (day, date, title) => `Día ${day} - ${date}: ${title}`,
+    activityColumns: {
+      time: 'Horario',
+      activity: 'Actividad',
+      place: 'Lugar',
+      cost: 'Coste'
+    },
+    tip: 'Consejo: ',
+    rainyDay: 'Si llueve: ',
+    periods: {
+      morning: 'Mañana',
+      lunch: 'Almuerzo',
+      afternoon: 'Tarde',
+      dinner: 'Cena',
+      evening: 'Noche'
+    },
+    lodgingCategories: {
+      budget: 'Económica',
+      mid_range: 'Intermedia',
+      luxury: 'Lujo'
+    },
+    transferModes: {
+      train: 'Tren',
+      bus: 'Autobús',
+      flight: 'Vuelo',
+      car: 'Coche',
+      ferry: 'Ferry'
+    }
+  }
+};
@@ -0,0 +1,94 @@
+import { config } from '../config/env';
+import { DateFormat, Locale, MessageCatalog } from '../types/i18n';
+import { en } from './en';
+import { es } from './es';
+import { ptBR } from './pt-BR';
+
+export const SUPPORTED_LOCALES: Locale[] = ['pt-BR', 'en', 'es'];
+
+const CATALOGS: Record<Locale, MessageCatalog> = {
+  'pt-BR': ptBR,
+  en,
+  es
+};
+
+const DATE_FORMATS: Record<DateFormat, Intl.DateTimeFormatOptions> = {
+  long: { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' },
+  day: { weekday: 'long', day: 'numeric', month: 'long' },
+  short: {}
+};
+
+/**
+ * Message catalog of a locale, or of DEFAULT_LOCALE when none was chosen
+ */
+export const getMessages = (locale?: Locale): MessageCatalog => {
+  return CATALOGS[locale ?? config.DEFAULT_LOCALE];
+};
+
+/**
+ * Supported locale for a language tag: regional variants share their language's catalog
+ * ('en-GB' is 'en', 'pt' and 'pt-PT' are 'pt-BR'); null when the language is not supported
+ */
+export const matchLocale = (tag: string): Locale | null => {
+  const language = tag.trim().toLowerCase().split(/[-_]/)[0];
+
+  switch (language) {
+  case 'pt':
+    return 'pt-BR';
+  case 'en':
+    return 'en';
+  case 'es':
+    return 'es';
+  default:
+    return null;
+  }
+};
+
+/**
+ * Supported locales of an Accept-Language header, most preferred first
+ */
+export const parseAcceptLanguage = (header: string | undefined): Locale[] => {
+  if (!header) {
+    return [];
+  }
+
+  const ranges = header.split(',')
+    .map((range, index) => {
+      const [tag = '', ...params] = range.trim().split(';');
+      const weight = params.map(param => param.trim()).find(param => param.startsWith('q='));
+      const quality = weight ? Number(weight.slice(2)) : 1;
+
+      return { locale: matchLocale(tag), quality: Number.isNaN(quality) ? 0 : quality, index };
+    })
+    .filter(range => range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  return ranges.reduce<Locale[]>((locales, range) => {
+    if (range.locale && !locales.includes(range.locale)) {
+      locales.push(range.locale);
+    }
+    return locales;
+  }, []);
+};
+
+/**
+ * Locale of a request: the one in the body, then the Accept-Language header, then DEFAULT_LOCALE
+ */
+export const resolveLocale = (requested: Locale | undefined, acceptLanguage: string | undefined): Locale => {
+  return requested ?? parseAcceptLanguage(acceptLanguage)[0] ?? config.DEFAULT_LOCALE;
+};
+
+/**
+ * Date in the locale's format; YYYY-MM-DD dates are read at noon so the time zone never changes the day
+ */
+export const formatDate = (date: Date | string, locale?: Locale, format: DateFormat = 'long'): string => {
+  const value = typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)
+    ? new Date(`${date}T12:00:00`)
+    : new Date(date);
+
+  return value.toLocaleDateString(getMessages(locale).dateLocale, DATE_FORMATS[format]);
+};
+
+export const formatTime = (date: Date, locale?: Locale): string => {
+  return date.toLocaleTimeString(getMessages(locale).dateLocale);
+};
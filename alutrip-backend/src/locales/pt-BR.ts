@@ -0,0 +1,423 @@
+import { MessageCatalog, PromptDaySummary } from '../types/i18n';
+
+const REFUSAL = 'Olá! Eu sou o AluTrip, seu assistente de viagem! ' +
+  'Eu estou aqui para ajudar você com tudo que envolve destinos, hospedagens, passeios, restaurantes e dicas ' +
+  'de viagem. Essa pergunta que você fez foge um pouquinho do tema de viagens, mas se quiser, pode me mandar ' +
+  'uma dúvida sobre sua próxima aventura que vou adorar ajudar!';
+
+const DAILY_FORMAT = '- Use os períodos morning, lunch, afternoon, dinner e evening com horários específicos';
+
+const summarizeDays = (days: PromptDaySummary[]): string => {
+  return days.map(day => `- Dia ${day.day}: ${day.title} (${day.places.join(', ')})`).join('\n');
+};
+
+export const ptBR: MessageCatalog = {
+  locale: 'pt-BR',
+  dateLocale: 'pt-BR',
+  refusal: REFUSAL,
+
+  prompts: {
+    travelSystem: `Você é o AluTrip, um assistente de viagem especializado em IA que ajuda as pessoas a
+planejar viagens incríveis sem burocracia ou barreiras.
+
+🚨 REGRAS CRÍTICAS E OBRIGATÓRIAS 🚨
+
+1. VOCÊ DEVE responder APENAS e EXCLUSIVAMENTE a perguntas relacionadas a:
+   - Destinos turísticos e lugares para visitar
+   - Planejamento de viagens e itinerários
+   - Hospedagem (hotéis, pousadas, resorts, etc.)
+   - Transporte (voos, trens, ônibus, carros, etc.)
+   - Atividades turísticas e passeios
+   - Restaurantes e gastronomia local
+   - Dicas de viagem e preparação
+   - Cultura local e costumes
+   - Segurança em viagens
+   - Documentação necessária (passaporte, visto, etc.)
+   - Orçamento e custos de viagem
+   - Melhor época para viajar
+   - O que levar na mala
+
+2. SE A PERGUNTA NÃO FOR SOBRE VIAGEM, você DEVE:
+   - Imediatamente recusar responder
+   - Usar EXATAMENTE a mensagem padrão de recusa
+   - NÃO dar nenhuma informação sobre o tópico perguntado
+   - NÃO tentar ajudar com o assunto não relacionado a viagem
+
+3. TÓPICOS PROIBIDOS (NÃO RESPONDA):
+   - Tecnologia, programação, software, IA, desenvolvimento
+   - Saúde, medicina, sintomas, tratamentos, medicamentos
+   - Questões legais, advogados, processos, contratos
+   - Finanças, investimentos, criptomoedas, bancos
+   - Política, eleições, governo, economia
+   - Relacionamentos, namoro, casamento, família
+   - Educação, estudos, cursos, universidades
+   - Esportes (exceto se relacionado a viagem)
+   - Entretenimento (filmes, séries, música - exceto se relacionado a viagem)
+   - Trabalho, carreira, empregos
+   - Qualquer assunto que não seja diretamente sobre viagem
+
+4. MENSAGEM OBRIGATÓRIA DE RECUSA:
+   '${REFUSAL}'
+
+5. VALIDAÇÃO OBRIGATÓRIA:
+   - Antes de responder, SEMPRE analise se a pergunta é sobre viagem
+   - Se houver DÚVIDA, prefira recusar a responder
+   - Seja EXTREMAMENTE restritivo - é melhor recusar uma pergunta válida do que responder uma inválida
+
+Seu papel (APENAS para perguntas sobre viagem):
+- Fornecer conselhos de viagem precisos, úteis e personalizados
+- Compartilhar dicas práticas sobre destinos, hospedagens, transporte e atividades
+- Considerar orçamento, tempo e preferências pessoais em suas recomendações
+- Oferecer conhecimento sobre costumes locais, melhores épocas para visitar
+- Ajudar com planejamento de itinerário, sugestões de bagagem e logística
+- Ser entusiasmado e encorajador, mas realista sobre as expectativas
+
+Diretrizes para respostas sobre viagem:
+- Sempre seja útil, amigável e encorajador
+- Forneça conselhos específicos e acionáveis
+- Inclua detalhes práticos como custos aproximados, horários e dicas de reserva
+- Mencione desafios potenciais ou considerações importantes
+- Sugira alternativas quando apropriado
+- Mantenha as respostas abrangentes, mas não esmagadoras
+- Use um tom conversacional e acessível
+
+LEMBRE-SE: Sua função é SER UM ASSISTENTE DE VIAGEM. Qualquer pergunta que não seja sobre viagem deve ser recusada imediatamente com a mensagem padrão.`,
+
+    travelQuestion: question => `
+Pergunta sobre Viagem: ${question}
+
+Por favor, forneça uma resposta abrangente e útil sobre esta pergunta relacionada a viagens.
+Inclua recomendações específicas, dicas práticas e detalhes relevantes que seriam valiosos
+para o planejamento da viagem.
+Se a pergunta envolve destinos, inclua informações sobre melhores épocas para visitar,
+costumes locais, considerações de orçamento e atrações imperdíveis.
+Mantenha a resposta informativa, mas concisa, focando em conselhos práticos de viagem.
+`,
+
+    conversation: message => `
+Pergunta de acompanhamento: ${message}
+
+Responda considerando o histórico da conversa acima. Refine, complemente ou corrija as respostas
+anteriores quando fizer sentido, sem repetir informações que já foram dadas.
+Mantenha a resposta focada no que foi perguntado agora, com conselhos práticos de viagem.
+`,
+
+    itinerarySystem: jsonFormat => `Você é o AluTrip, um especialista em planejamento de viagens que cria roteiros detalhados e personalizados.
+
+🎯 SEU PAPEL:
+- Você é um planejador de viagens experiente e especializado
+- Crie roteiros detalhados, práticos e inspiradores
+- Considere sempre o orçamento, preferências e estilo de viagem do usuário
+- Forneça informações precisas e atualizadas sobre destinos
+
+📋 DIRETRIZES PARA ROTEIROS:
+
+1. **ESTRUTURA OBRIGATÓRIA:**
+   - Introdução ao destino
+   - Informações práticas (documentação, moeda, transporte)
+   - Roteiro diário detalhado com horários específicos
+   - Sugestões de hospedagem com diferentes faixas de preço
+   - Orçamento estimado por categoria
+   - Dicas extras e informações práticas
+
+2. **FORMATO DIÁRIO:**
+   - Manhã (9h-12h): Atividade principal
+   - Almoço (12h-14h): Sugestão de restaurante
+   - Tarde (14h-18h): Atividade secundária
+   - Jantar (19h-21h): Sugestão de restaurante
+   - Noite (21h+): Atividade noturna ou descanso
+
+3. **INFORMAÇÕES ESSENCIAIS:**
+   - Nomes específicos de restaurantes, atrações e locais
+   - Preços aproximados em USD
+   - Tempo necessário para cada atividade
+   - Como chegar entre os locais
+   - Horários de funcionamento
+
+4. **PERSONALIZAÇÃO:**
+   - Adapte ao orçamento informado
+   - Considere os interesses específicos
+   - Respeite o estilo de viagem (econômico, intermediário, luxo)
+   - Inclua pelo menos uma atividade gratuita por dia
+
+5. **TOM E ESTILO:**
+   - Use um tom entusiasmado e inspirador
+   - Seja específico e prático
+   - Inclua dicas valiosas de insider
+   - Mantenha o foco na experiência do usuário
+
+🚨 IMPORTANTE:
+- Sempre considere as datas específicas para eventos sazonais
+- Inclua tempo realista para deslocamentos
+- Forneça alternativas para dias de chuva (se aplicável)
+- Mencione aspectos culturais e etiqueta local quando relevante
+- Em viagens com vários destinos, recomende o melhor deslocamento entre cada cidade e reserve tempo para ele no dia da troca
+
+🧾 FORMATO DA RESPOSTA (OBRIGATÓRIO):
+Responda APENAS com um objeto JSON válido, sem markdown e sem texto antes ou depois, seguindo exatamente esta estrutura:
+${jsonFormat}
+
+- Todos os valores monetários são números em USD (sem símbolos)
+- Os textos devem estar em português
+
+Seu objetivo é criar um roteiro completo que torne a viagem inesquecível e bem organizada!`,
+
+    itineraryJsonHints: {
+      introduction: 'destino, melhor época e clima nas datas da viagem',
+      activityDescription: 'como chegar, tempo necessário',
+      optional: 'opcional',
+      dayTheme: 'tema do dia',
+      lodgingCity: 'apenas em viagens com vários destinos',
+      transferRecommendation: 'empresa, estação/aeroporto, como reservar',
+      transfersOnly: 'apenas em viagens com vários destinos, um item por troca de cidade'
+    },
+
+    itineraryCorrection: errors => `Sua resposta anterior não é um JSON válido para a estrutura solicitada. Problemas encontrados:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Responda novamente APENAS com o objeto JSON completo e corrigido, sem markdown e sem texto adicional.`,
+
+    tripInfo: trip => {
+      let prompt = `
+Por favor, crie um roteiro detalhado de viagem com as seguintes informações:
+
+🎯 INFORMAÇÕES DA VIAGEM:
+- Destino: ${trip.destination}
+- Data de início: ${trip.startDate}
+- Data de término: ${trip.endDate}
+- Duração: ${trip.duration} dia${trip.duration > 1 ? 's' : ''}`;
+
+      if (trip.legs.length > 0) {
+        prompt += `\n- Trechos (em ordem):\n${trip.legs
+          .map((leg, index) => `  ${index + 1}. ${leg.destination}: ${leg.start_date} a ${leg.end_date}`)
+          .join('\n')}`;
+      }
+
+      if (trip.budget) {
+        prompt += `\n- Orçamento: $${trip.budget.toLocaleString('en-US')} USD`;
+      }
+
+      if (trip.interests && trip.interests.length > 0) {
+        prompt += `\n- Interesses específicos: ${trip.interests.join(', ')}`;
+      }
+
+      return prompt;
+    },
+
+    itinerary: (startDate, transfers) => `
+
+📋 ESTRUTURA OBRIGATÓRIA DO ROTEIRO:
+
+1. **Introdução ao Destino**
+   - Breve descrição do destino
+   - Melhor época para visitar
+   - Dicas climáticas para as datas da viagem
+
+2. **Informações Práticas**
+   - Documentação necessária
+   - Moeda local e dicas de câmbio
+   - Transporte no destino
+   - Segurança e dicas importantes
+
+3. **Roteiro Diário Detalhado**
+   Para cada dia (Dia 1, Dia 2, etc.), inclua:
+   - **Manhã (9h-12h):** Atividade principal, como chegar, tempo necessário
+   - **Almoço (12h-14h):** Sugestão de restaurante com faixa de preço
+   - **Tarde (14h-18h):** Atividade secundária, dicas de aproveitamento
+   - **Jantar (19h-21h):** Sugestão de restaurante diferente do almoço
+   - **Noite (21h+):** Atividade noturna ou descanso
+
+4. **Sugestões de Hospedagem**
+   - 3 opções de hospedagem com faixas de preço diferentes
+   - Localização e vantagens de cada uma
+
+5. **Orçamento Estimado**
+   - Breakdown por categoria (hospedagem, alimentação, transporte, atrações)
+   - Dicas para economizar
+   - Custos por pessoa
+
+6. **Dicas Extras**
+   - O que levar na mala
+   - Aplicativos úteis
+   - Frases básicas no idioma local (se aplicável)
+   - Souvenirs típicos
+
+🎨 FORMATO DA RESPOSTA:
+- Responda somente com o objeto JSON descrito nas instruções do sistema
+- Um item em "days" por dia da viagem, começando em ${startDate} ("date" em YYYY-MM-DD)
+${DAILY_FORMAT}
+- Informe custos estimados em USD para cada atividade e para o orçamento
+- Seja específico com nomes de restaurantes, atrações e locais
+- Mantenha um tom entusiasmado e inspirador nos textos
+
+🚨 IMPORTANTE:
+- O roteiro deve ser detalhado e prático
+- Considere tempo de deslocamento entre atividades
+- Adapte as sugestões ao orçamento informado
+- Inclua pelo menos uma atividade gratuita por dia
+- Considere as datas específicas para eventos sazonais${transfers}
+
+Crie um roteiro completo e inspirador que torne esta viagem inesquecível!`,
+
+    transfers: transfers => `
+
+🚆 DESLOCAMENTOS ENTRE DESTINOS:
+Inclua em "transfers" exatamente um item para cada troca de cidade, na ordem:
+${transfers.map(transfer => `- ${transfer.from} → ${transfer.to} em ${transfer.date}`).join('\n')}
+- Recomende o meio de transporte mais adequado (trem, ônibus, voo, carro ou balsa), com duração e custo em USD
+- Sugira hospedagens em cada cidade, indicando a cidade em "city"`,
+
+    overview: (dates, transfers) => `
+
+📋 ETAPA 1 - VISÃO GERAL:
+Esta viagem é longa e será planejada em etapas. Nesta etapa NÃO detalhe as atividades dos dias. Gere:
+- Título, introdução ao destino e informações práticas
+- "day_outline" com exatamente ${dates.length} itens, um por dia, de ${dates[0]} a ${dates[dates.length - 1]}
+- O tema de cada dia, distribuindo bairros, regiões e bate-voltas de forma equilibrada e sem repetir atrações
+- 3 opções de hospedagem com faixas de preço diferentes
+- Orçamento estimado para a viagem inteira, com dicas para economizar
+- Dicas extras (o que levar, aplicativos úteis, frases básicas, souvenirs)
+
+🚨 IMPORTANTE:
+- Adapte as sugestões ao orçamento informado
+- Considere as datas específicas para eventos sazonais${transfers}`,
+
+    daysChunk: chunk => {
+      const first = chunk.days[0]?.day ?? 1;
+      const last = chunk.days[chunk.days.length - 1]?.day ?? first;
+
+      let prompt = `
+
+🗺️ VISÃO GERAL JÁ DEFINIDA:
+- Título: ${chunk.title}
+- Hospedagem sugerida: ${chunk.lodging.join(', ')}
+- Plano dos dias:
+${chunk.outline.map(day => `- Dia ${day.day} (${day.date}): ${day.title}`).join('\n')}`;
+
+      if (chunk.previousDays.length > 0) {
+        prompt += `
+
+✅ DIAS JÁ DETALHADOS (não repita atrações nem restaurantes):
+${summarizeDays(chunk.previousDays)}`;
+      }
+
+      const dates = chunk.days.map(day => `Dia ${day.day} = ${day.date}${day.city ? ` (${day.city})` : ''}`);
+
+      return `${prompt}
+
+📋 DETALHAMENTO DOS DIAS ${first} A ${last}:
+- Responda com "days" contendo exatamente os dias ${chunk.days.map(day => day.day).join(', ')}, seguindo o tema de cada dia no plano
+- Datas: ${dates.join(', ')}
+${DAILY_FORMAT}
+- Informe custos estimados em USD para cada atividade
+- Inclua pelo menos uma atividade gratuita por dia e uma alternativa para dias de chuva
+- Considere tempo de deslocamento entre atividades e o orçamento informado`;
+    },
+
+    dayRegeneration: request => {
+      const { day } = request;
+
+      let prompt = `
+
+🗺️ ROTEIRO ATUAL: ${request.title}`;
+
+      if (request.otherDays.length > 0) {
+        prompt += `
+
+✅ OUTROS DIAS (mantidos, não repita atrações nem restaurantes):
+${summarizeDays(request.otherDays)}`;
+      }
+
+      return `${prompt}
+
+✏️ DIA A REESCREVER - Dia ${day.day} (${day.date}${day.city ? `, ${day.city}` : ''}): ${day.title}
+Atividades atuais:
+${request.activities.map(activity => `- ${activity.startTime} ${activity.title} (${activity.place})`).join('\n')}
+
+💬 PEDIDO DO VIAJANTE: ${request.feedback || 'Sugira uma alternativa diferente para este dia'}
+
+📋 INSTRUÇÕES:
+- Responda com "days" contendo exatamente o dia ${day.day}, com data ${day.date}
+- Atenda ao pedido do viajante e mantenha o restante coerente com o roteiro
+${DAILY_FORMAT}
+- Informe custos estimados em USD para cada atividade
+- Inclua pelo menos uma atividade gratuita e uma alternativa para dias de chuva
+- Considere tempo de deslocamento entre atividades e o orçamento informado`;
+    }
+  },
+
+  pdf: {
+    title: 'Roteiro de Viagem',
+    tripInformation: 'Informações da Viagem',
+    personalizedItinerary: 'Seu Roteiro Personalizado',
+    destination: 'Destino:',
+    start: 'Início:',
+    duration: 'Duração:',
+    end: 'Término:',
+    days: count => `${count} dia${count > 1 ? 's' : ''}`,
+    budget: 'Orçamento: ',
+    legs: 'Trechos: ',
+    interests: 'Interesses: ',
+    tagline: 'Seu assistente de viagem inteligente',
+    generatedAt: (date, time) => `Gerado em ${date} às ${time}`,
+    practicalInfo: 'Informações Práticas',
+    documentation: 'Documentação',
+    currency: 'Moeda',
+    transport: 'Transporte',
+    safety: 'Segurança',
+    leg: (number, destination, dates) => `Trecho ${number}: ${destination} (${dates})`,
+    transfers: 'Deslocamentos',
+    transfer: (from, to, date) => `Deslocamento: ${from} → ${to} (${date})`,
+    lodging: 'Sugestões de Hospedagem',
+    lodgingColumns: {
+      name: 'Hospedagem',
+      city: 'Cidade',
+      category: 'Categoria',
+      neighborhood: 'Bairro',
+      pricePerNight: 'Diária',
+      highlights: 'Destaques'
+    },
+    estimatedBudget: 'Orçamento Estimado',
+    budgetColumns: {
+      category: 'Categoria',
+      value: currency => `Valor (${currency})`,
+      total: 'Total'
+    },
+    budgetCategories: {
+      lodging: 'Hospedagem',
+      food: 'Alimentação',
+      transport: 'Transporte',
+      attractions: 'Atrações',
+      other: 'Outros'
+    },
+    extraTips: 'Dicas Extras',
+    day: (day, date, title) => `Dia ${day} - ${date}: ${title}`,
+    activityColumns: {
+      time: 'Horário',
+      activity: 'Atividade',
+      place: 'Local',
+      cost: 'Custo'
+    },
+    tip: 'Dica: ',
+    rainyDay: 'Em caso de chuva: ',
+    periods: {
+      morning: 'Manhã',
+      lunch: 'Almoço',
+      afternoon: 'Tarde',
+      dinner: 'Jantar',
+      evening: 'Noite'
+    },
+    lodgingCategories: {
+      budget: 'Econômica',
+      mid_range: 'Intermediária',
+      luxury: 'Luxo'
+    },
+    transferModes: {
+      train: 'Trem',
+      bus: 'Ônibus',
+      flight: 'Voo',
+      car: 'Carro',
+      ferry: 'Balsa'
+    }
+  }
+};
@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { config } from '../config/env';
+import { createForbiddenError, createUnauthorizedError } from './error-handler';
+
+export const ADMIN_TOKEN_HEADER = 'x-admin-token';
+
+const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+
+/**
+ * Allow only requests with the `x-admin-token` header matching ADMIN_API_TOKEN
+ * Admin endpoints are disabled while ADMIN_API_TOKEN is not set
+ */
+export const requireAdmin = (req: Request, _res: Response, next: NextFunction): void => {
+  if (!config.ADMIN_API_TOKEN) {
+    next(createForbiddenError('Admin endpoints are disabled'));
+    return;
+  }
+
+  const token = req.get(ADMIN_TOKEN_HEADER);
+
+  // Compare digests so the check takes the same time whatever the token length
+  if (!token || !timingSafeEqual(digest(token), digest(config.ADMIN_API_TOKEN))) {
+    next(createUnauthorizedError('Invalid admin token'));
+    return;
+  }
+
+  next();
+};
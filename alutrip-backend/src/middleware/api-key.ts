@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from 'express';
+import { apiKeyService } from '../services/api-key.service';
+import { createUnauthorizedError } from './error-handler';
+import { ApiKeyIdentity } from '../types/api-key';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Attach the API key of the `x-api-key` header to the request
+ * Requests without the header are rate limited by IP; unknown or revoked keys are rejected
+ */
+export const authenticateApiKey = async(req: Request, _res: Response, next: NextFunction): Promise<void> => {
+  const key = req.get(API_KEY_HEADER);
+
+  if (!key) {
+    next();
+    return;
+  }
+
+  try {
+    const apiKey = await apiKeyService.authenticate(key);
+
+    if (!apiKey) {
+      next(createUnauthorizedError('Invalid or revoked API key'));
+      return;
+    }
+
+    req.apiKey = apiKey;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * API key authenticated on the request, undefined for requests without one
+ */
+export const getRequestApiKey = (req: Request): ApiKeyIdentity | undefined => req.apiKey;
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKeyIdentity;
+    }
+  }
+}
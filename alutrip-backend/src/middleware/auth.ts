@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction } from 'express';
+import { authService } from '../services/auth.service';
+import { createUnauthorizedError } from './error-handler';
+import { AuthenticatedUser } from '../types/auth';
+
+const BEARER_PREFIX = 'Bearer ';
+
+/**
+ * Attach the user of a valid `Authorization: Bearer <token>` header to the request
+ * Requests without the header stay anonymous; an invalid or expired token is rejected
+ */
+export const authenticate = (req: Request, _res: Response, next: NextFunction): void => {
+  const header = req.headers.authorization;
+
+  if (!header) {
+    next();
+    return;
+  }
+
+  const payload = header.startsWith(BEARER_PREFIX)
+    ? authService.verifyToken(header.slice(BEARER_PREFIX.length).trim())
+    : null;
+
+  if (!payload) {
+    next(createUnauthorizedError('Invalid or expired token'));
+    return;
+  }
+
+  req.user = { id: payload.sub, email: payload.email };
+  next();
+};
+
+/**
+ * Reject anonymous requests; use after authenticate
+ */
+export const requireAuth = (req: Request, _res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    next(createUnauthorizedError('Authentication required'));
+    return;
+  }
+
+  next();
+};
+
+/**
+ * ID of the user authenticated on the request, undefined for anonymous requests
+ */
+export const getRequestUserId = (req: Request): number | undefined => req.user?.id;
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
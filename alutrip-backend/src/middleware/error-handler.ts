@@ -90,7 +90,7 @@ export const errorHandler = (
       type: type,
       statusCode
     },
-    body: req.body,
+    body: req.body?.password ? { ...req.body, password: '[REDACTED]' } : req.body,
     query: req.query,
     params: req.params
   });
@@ -165,6 +165,23 @@ export const createRateLimitError = (feature: string, limit: number, resetTime:
   );
 };
 
+/**
+ * AI spending budget reached; passed through the AI error wrapping unchanged so controllers can tell it apart
+ */
+export const createBudgetExceededError = (message: string, details?: Record<string, unknown>) => {
+  return new AppError(
+    message,
+    HttpStatusCode.SERVICE_UNAVAILABLE,
+    ErrorType.BUDGET_EXCEEDED_ERROR,
+    'AI_BUDGET_EXCEEDED',
+    details
+  );
+};
+
+export const isBudgetExceededError = (error: unknown): error is AppError => {
+  return error instanceof AppError && error.type === ErrorType.BUDGET_EXCEEDED_ERROR;
+};
+
 export const createDatabaseError = (message: string) => {
   return new AppError(
     message,
@@ -193,3 +210,20 @@ export const createNotFoundError = (resource: string) => {
   );
 };
 
+export const createUnauthorizedError = (message: string) => {
+  return new AppError(
+    message,
+    HttpStatusCode.UNAUTHORIZED,
+    ErrorType.UNAUTHORIZED_ERROR,
+    'UNAUTHORIZED'
+  );
+};
+
+export const createForbiddenError = (message: string) => {
+  return new AppError(
+    message,
+    HttpStatusCode.FORBIDDEN,
+    ErrorType.SECURITY_ERROR,
+    'FORBIDDEN'
+  );
+};
@@ -1,21 +1,88 @@
 import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
 import { config } from '../config/env';
-import { incrementRateLimit, getRateLimit, getRateLimitTTL } from '../config/redis';
+import {
+  incrementRateLimit,
+  decrementRateLimit,
+  getRateLimit,
+  getRateLimitTTL,
+  resetRateLimit
+} from '../config/redis';
+import { runRateLimitScript, RateLimitScriptResult } from '../config/rate-limit-scripts';
 import { logRateLimit, logger } from '../config/logger';
 import { createRateLimitError } from './error-handler';
-import { RateLimitFeature, RateLimitInfo } from '../types/travel';
+import { getRequestApiKey } from './api-key';
+import { getRequestUserId } from './auth';
+import { API_KEY_TIER_QUOTAS } from '../constants/api-key-tiers';
+import { RateLimitEventsModel } from '../models/rate-limit-events.model';
+import {
+  RateLimitAlgorithm,
+  RateLimitCharge,
+  RateLimitFeature,
+  RateLimitIdentity,
+  RateLimitInfo,
+  RateLimitOutcome,
+  RateLimitStatus
+} from '../types/travel';
 
 interface RateLimitConfig {
   windowMs: number;
   max: number;
   feature: RateLimitFeature;
-  skipSuccessfulRequests?: boolean;
+  algorithm: RateLimitAlgorithm;
+  skipSuccessfulRequests?: boolean; // Only requests answered with an error status count
+  refundOnAIFailure?: boolean; // Requests whose AI call fails do not count
   keyGenerator?: (req: Request) => string;
 }
 
+export interface RateLimitConsumption {
+  allowed: boolean;
+  info: RateLimitInfo;
+  charge: RateLimitCharge | null; // Set when the request was counted
+}
+
+const RATE_LIMIT_FEATURES: RateLimitFeature[] = ['travel_questions', 'itineraries'];
+
+const RATE_LIMIT_ALGORITHMS: RateLimitAlgorithm[] = ['fixed_window', 'sliding_log', 'token_bucket'];
+
+// Requests with an API key are counted per key, so clients sharing an IP do not share quota
+export const getRateLimitIdentity = (req: Request): RateLimitIdentity => {
+  const apiKey = getRequestApiKey(req);
+
+  if (apiKey) {
+    return { type: 'api_key', api_key_id: apiKey.id, tier: apiKey.tier };
+  }
+
+  return { type: 'ip', ip: req.ip || req.connection.remoteAddress || 'unknown' };
+};
+
+// Each algorithm stores a different Redis type, so a changed RATE_LIMIT_ALGORITHM_* never reads the old counter
+const getIdentityKey = (
+  identity: RateLimitIdentity,
+  feature: RateLimitFeature,
+  algorithm: RateLimitAlgorithm = rateLimitConfigs[feature].algorithm
+): string => {
+  return identity.type === 'api_key'
+    ? `rate_limit:${feature}:${algorithm}:key:${identity.api_key_id}`
+    : `rate_limit:${feature}:${algorithm}:${identity.ip}`;
+};
+
+/**
+ * Key of a limit counted outside the feature limiters: per API key, then per signed-in user, then per IP
+ */
+export const getCallerRateLimitKey = (req: Request, name: string): string => {
+  const identity = getRateLimitIdentity(req);
+  const userId = getRequestUserId(req);
+
+  if (identity.type === 'api_key') {
+    return `rate_limit:${name}:key:${identity.api_key_id}`;
+  }
+
+  return userId !== undefined ? `rate_limit:${name}:user:${userId}` : `rate_limit:${name}:${identity.ip}`;
+};
+
 const defaultKeyGenerator = (feature: RateLimitFeature) => (req: Request): string => {
-  const ip = req.ip || req.connection.remoteAddress || 'unknown';
-  return `rate_limit:${feature}:${ip}`;
+  return getIdentityKey(getRateLimitIdentity(req), feature);
 };
 
 const rateLimitConfigs: Record<RateLimitFeature, RateLimitConfig> = {
@@ -23,14 +90,18 @@ const rateLimitConfigs: Record<RateLimitFeature, RateLimitConfig> = {
     windowMs: config.RATE_LIMIT_WINDOW,
     max: config.RATE_LIMIT_REQUESTS,
     feature: 'travel_questions',
+    algorithm: config.RATE_LIMIT_ALGORITHM_TRAVEL_QUESTIONS,
     skipSuccessfulRequests: false,
+    refundOnAIFailure: config.RATE_LIMIT_REFUND_ON_AI_FAILURE,
     keyGenerator: defaultKeyGenerator('travel_questions')
   },
   itineraries: {
     windowMs: config.RATE_LIMIT_WINDOW,
     max: config.RATE_LIMIT_REQUESTS,
     feature: 'itineraries',
+    algorithm: config.RATE_LIMIT_ALGORITHM_ITINERARIES,
     skipSuccessfulRequests: false,
+    refundOnAIFailure: config.RATE_LIMIT_REFUND_ON_AI_FAILURE,
     keyGenerator: defaultKeyGenerator('itineraries')
   }
 };
@@ -44,6 +115,24 @@ const addRateLimitHeaders = (res: Response, info: RateLimitInfo, feature: RateLi
   });
 };
 
+export const getRateLimitKey = (req: Request, feature: RateLimitFeature): string => {
+  const keyGenerator = rateLimitConfigs[feature].keyGenerator || defaultKeyGenerator(feature);
+  return keyGenerator(req);
+};
+
+/**
+ * Requests allowed per window: the tier quota for API keys, RATE_LIMIT_REQUESTS otherwise
+ */
+export const getRateLimitMax = (req: Request, feature: RateLimitFeature): number => {
+  return getIdentityMax(getRateLimitIdentity(req), feature);
+};
+
+const getIdentityMax = (identity: RateLimitIdentity, feature: RateLimitFeature): number => {
+  return identity.type === 'api_key'
+    ? API_KEY_TIER_QUOTAS[identity.tier][feature]
+    : rateLimitConfigs[feature].max;
+};
+
 export const getRateLimitInfo = async(key: string, _windowMs: number, max: number): Promise<RateLimitInfo> => {
   const used = await getRateLimit(key);
   const ttl = await getRateLimitTTL(key);
@@ -58,47 +147,194 @@ export const getRateLimitInfo = async(key: string, _windowMs: number, max: numbe
   };
 };
 
-export const createRateLimiter = (feature: RateLimitFeature) => {
-  const rateLimitConfig = rateLimitConfigs[feature];
+const toRateLimitInfo = (result: RateLimitScriptResult, max: number): RateLimitInfo => ({
+  used: result.used,
+  limit: max,
+  remaining: Math.max(0, max - result.used),
+  reset_time: new Date(Date.now() + result.resetMs).toISOString()
+});
+
+// Usage of a key with the algorithm of the feature, without counting a request
+const peekRateLimit = async(feature: RateLimitFeature, key: string, max: number): Promise<RateLimitInfo> => {
+  const { algorithm, windowMs } = rateLimitConfigs[feature];
+
+  if (algorithm === 'fixed_window') {
+    return getRateLimitInfo(key, windowMs, max);
+  }
+
+  return toRateLimitInfo(await runRateLimitScript(algorithm, key, { limit: max, windowMs, cost: 0 }), max);
+};
+
+/**
+ * Add the event to the daily history used by the admin reports, without waiting for it
+ * Failures are only logged; limiting keeps working from Redis while Postgres is down
+ */
+const recordRateLimitEvent = (
+  identity: RateLimitIdentity,
+  feature: RateLimitFeature,
+  outcome: RateLimitOutcome
+): void => {
+  RateLimitEventsModel.record(identity, feature, outcome).catch(error => {
+    logger.warn('Rate limit event missing from history', {
+      feature,
+      outcome,
+      identity,
+      error: (error as Error).message
+    });
+  });
+};
+
+const countRequest = async(
+  req: Request,
+  feature: RateLimitFeature,
+  identity: RateLimitIdentity
+): Promise<RateLimitConsumption> => {
+  const { algorithm, windowMs } = rateLimitConfigs[feature];
+  const key = getRateLimitKey(req, feature);
+  const max = getRateLimitMax(req, feature);
+
+  if (algorithm === 'fixed_window') {
+    const info = await getRateLimitInfo(key, windowMs, max);
+
+    if (info.remaining <= 0) {
+      return { allowed: false, info, charge: null };
+    }
+
+    await incrementRateLimit(key, windowMs);
+
+    return {
+      allowed: true,
+      info: await getRateLimitInfo(key, windowMs, max),
+      charge: { feature, algorithm, key, limit: max, windowMs, identity }
+    };
+  }
+
+  const entry = `${Date.now()}:${randomUUID()}`;
+  const result = await runRateLimitScript(algorithm, key, { limit: max, windowMs, cost: 1, entry });
+
+  return {
+    allowed: result.allowed,
+    info: toRateLimitInfo(result, max),
+    charge: result.allowed
+      ? { feature, algorithm, key, limit: max, windowMs, identity, ...(algorithm === 'sliding_log' && { entry }) }
+      : null
+  };
+};
+
+/**
+ * Count the request against the feature limit, unless the limit is already reached
+ * Sliding log and token bucket check and count in one atomic Redis script
+ */
+export const consumeRateLimit = async(req: Request, feature: RateLimitFeature): Promise<RateLimitConsumption> => {
+  const identity = getRateLimitIdentity(req);
+  const consumption = await countRequest(req, feature, identity);
+
+  recordRateLimitEvent(identity, feature, consumption.allowed ? 'allowed' : 'blocked');
+
+  return consumption;
+};
+
+/**
+ * Give back a counted request; failures are logged, the quota is not worth failing a response for
+ */
+export const refundRateLimitCharge = async(charge: RateLimitCharge): Promise<void> => {
+  try {
+    if (charge.algorithm === 'fixed_window') {
+      await decrementRateLimit(charge.key);
+    } else {
+      await runRateLimitScript(charge.algorithm, charge.key, {
+        limit: charge.limit,
+        windowMs: charge.windowMs,
+        cost: -1,
+        ...(charge.entry && { entry: charge.entry })
+      });
+    }
+
+    logger.info('Rate limit refunded', { feature: charge.feature, key: charge.key });
+
+    recordRateLimitEvent(charge.identity, charge.feature, 'refunded');
+  } catch (error) {
+    logger.error('Failed to refund rate limit', {
+      feature: charge.feature,
+      key: charge.key,
+      error: (error as Error).message
+    });
+  }
+};
+
+/**
+ * Give back a request whose AI call failed, when the feature refunds AI failures
+ * (RATE_LIMIT_REFUND_ON_AI_FAILURE); also used for itineraries that fail in the queue
+ */
+export const refundAIFailure = async(charge: RateLimitCharge | null | undefined): Promise<void> => {
+  if (charge && rateLimitConfigs[charge.feature].refundOnAIFailure) {
+    await refundRateLimitCharge(charge);
+  }
+};
+
+// The charge is taken off the request so it is never refunded twice
+const takeRateLimitCharge = (req: Request): RateLimitCharge | undefined => {
+  const charge = req.rateLimitCharge;
+  delete req.rateLimitCharge;
+  return charge;
+};
+
+export const refundRequestOnAIFailure = async(req: Request): Promise<void> => {
+  await refundAIFailure(takeRateLimitCharge(req));
+};
+
+export const createRateLimiter = (
+  feature: RateLimitFeature,
+  options: Pick<RateLimitConfig, 'skipSuccessfulRequests'> = {}
+) => {
+  const rateLimitConfig = { ...rateLimitConfigs[feature], ...options };
   
   return async(req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const keyGenerator = rateLimitConfig.keyGenerator || defaultKeyGenerator(feature);
-      const key = keyGenerator(req);
       const ip = req.ip || req.connection.remoteAddress || 'unknown';
 
-      let rateLimitInfo = await getRateLimitInfo(key, rateLimitConfig.windowMs, rateLimitConfig.max);
+      const { allowed, info: rateLimitInfo, charge } = await consumeRateLimit(req, feature);
+
+      addRateLimitHeaders(res, rateLimitInfo, feature);
 
-      if (rateLimitInfo.remaining <= 0) {
+      if (!allowed) {
         logRateLimit(ip, feature, 'EXCEEDED');
         
-        addRateLimitHeaders(res, rateLimitInfo, feature);
-        
         const error = createRateLimitError(
           feature,
-          rateLimitConfig.max,
+          rateLimitInfo.limit,
           rateLimitInfo.reset_time
         );
         
         throw error;
       }
 
-      const newCount = await incrementRateLimit(key, rateLimitConfig.windowMs);
-      
-      rateLimitInfo = await getRateLimitInfo(key, rateLimitConfig.windowMs, rateLimitConfig.max);
-      
       logger.debug('Rate limit check passed', {
         feature,
         ip,
-        used: newCount,
-        limit: rateLimitConfig.max,
+        apiKeyId: getRequestApiKey(req)?.id,
+        algorithm: rateLimitConfig.algorithm,
+        used: rateLimitInfo.used,
+        limit: rateLimitInfo.limit,
         remaining: rateLimitInfo.remaining
       });
 
-      addRateLimitHeaders(res, rateLimitInfo, feature);
-
       req.rateLimitInfo = rateLimitInfo;
 
+      if (charge) {
+        req.rateLimitCharge = charge;
+      }
+
+      if (rateLimitConfig.skipSuccessfulRequests) {
+        res.on('finish', () => {
+          const successfulCharge = res.statusCode < 400 ? takeRateLimitCharge(req) : undefined;
+
+          if (successfulCharge) {
+            void refundRateLimitCharge(successfulCharge);
+          }
+        });
+      }
+
       next();
     } catch (error) {
       next(error);
@@ -110,33 +346,50 @@ export const travelQuestionsRateLimit = createRateLimiter('travel_questions');
 
 export const itinerariesRateLimit = createRateLimiter('itineraries');
 
-export const getRateLimitStatus = async(ip: string) => {
-  const results = await Promise.all([
-    getRateLimitInfo(
-      `rate_limit:travel_questions:${ip}`,
-      rateLimitConfigs.travel_questions.windowMs,
-      rateLimitConfigs.travel_questions.max
-    ),
-    getRateLimitInfo(
-      `rate_limit:itineraries:${ip}`,
-      rateLimitConfigs.itineraries.windowMs,
-      rateLimitConfigs.itineraries.max
-    )
+export const getRateLimitStatus = async(identity: RateLimitIdentity): Promise<RateLimitStatus> => {
+  const getFeatureInfo = (feature: RateLimitFeature) => peekRateLimit(
+    feature,
+    getIdentityKey(identity, feature),
+    getIdentityMax(identity, feature)
+  );
+
+  const [travelQuestions, itineraries] = await Promise.all([
+    getFeatureInfo('travel_questions'),
+    getFeatureInfo('itineraries')
   ]);
 
   return {
-    ip,
+    identity,
     limits: {
-      travel_questions: results[0],
-      itineraries: results[1]
+      travel_questions: travelQuestions,
+      itineraries
     }
   };
 };
 
+/**
+ * Clear the counters of every feature, giving the identity its full quota back
+ * Counters of every algorithm are cleared, so none is left to come back when an algorithm is switched back
+ */
+export const resetRateLimits = async(identity: RateLimitIdentity): Promise<void> => {
+  await Promise.all(RATE_LIMIT_FEATURES.flatMap(feature => RATE_LIMIT_ALGORITHMS.map(
+    algorithm => resetRateLimit(getIdentityKey(identity, feature, algorithm))
+  )));
+
+  logger.info('Rate limits reset', { identity });
+};
+
+/**
+ * Delete rate limit history older than RATE_LIMIT_HISTORY_RETENTION_DAYS
+ * Redis counters expire on their own, so only the Postgres history needs cleaning
+ */
 export const cleanupExpiredRateLimits = async(): Promise<void> => {
   try {
     logger.info('Starting rate limit cleanup');
-    logger.info('Rate limit cleanup completed');
+
+    const deleted = await RateLimitEventsModel.deleteOlderThan(config.RATE_LIMIT_HISTORY_RETENTION_DAYS);
+
+    logger.info('Rate limit cleanup completed', { deleted });
   } catch (error) {
     logger.error('Rate limit cleanup failed', { error: (error as Error).message });
   }
@@ -146,6 +399,7 @@ declare global {
   namespace Express {
     interface Request {
       rateLimitInfo?: RateLimitInfo;
+      rateLimitCharge?: RateLimitCharge;
     }
   }
 }
@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { sessionService } from '../services/session.service';
+import { getRequestUserId } from './auth';
+import { RequestOwner, RequestSession } from '../types/session';
+
+export const SESSION_HEADER = 'x-session-id';
+
+/**
+ * Attach the anonymous session of the `x-session-id` header to the request
+ * Missing, forged or expired tokens get a new session; the current token is always
+ * returned in the response header so clients can keep sending it
+ */
+export const attachSession = async(req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const clientIp = req.ip || req.connection.remoteAddress || 'unknown';
+  const token = req.get(SESSION_HEADER);
+
+  try {
+    const session = (token ? await sessionService.resolveSession(token) : null)
+      ?? await sessionService.createSession(clientIp);
+
+    req.session = session;
+    res.set('X-Session-Id', session.token);
+
+  } catch (error) {
+    // Sessions are a convenience; without Redis the request goes on anonymously
+    logger.warn('Continuing without a session', {
+      error: (error as Error).message,
+      clientIp
+    });
+  }
+
+  next();
+};
+
+/**
+ * ID of the session attached to the request, undefined when there is none
+ */
+export const getRequestSessionId = (req: Request): string | undefined => req.session?.id;
+
+export const getRequestOwner = (req: Request): RequestOwner => ({
+  sessionId: getRequestSessionId(req),
+  userId: getRequestUserId(req)
+});
+
+/**
+ * Whether the record was created by the same user or in the same session as the caller
+ * Session ids are issued and signed by the server, so they cannot be guessed from a client
+ */
+export const isRequestOwner = (
+  record: { session_id?: string | null; user_id?: number | null },
+  owner: RequestOwner
+): boolean => {
+  return (owner.userId !== undefined && record.user_id === owner.userId)
+    || (owner.sessionId !== undefined && record.session_id === owner.sessionId);
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      session?: RequestSession;
+    }
+  }
+}
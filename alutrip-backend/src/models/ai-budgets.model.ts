@@ -0,0 +1,132 @@
+import { query } from '../config/database';
+import { logger } from '../config/logger';
+import { AIBudget, AIBudgetPeriod, AIBudgetScope, AIBudgetSpend } from '../types/ai';
+
+export class AIBudgetsModel {
+  /**
+   * Every budget with what was spent since the start of its current period, or since its last reset
+   */
+  static async findAllWithSpend(): Promise<AIBudgetSpend[]> {
+    const sql = `
+      SELECT b.*, p.period_start, COALESCE(s.spent_usd, 0)::float8 AS spent_usd
+      FROM ai_budgets b
+      CROSS JOIN LATERAL (
+        SELECT date_trunc(CASE WHEN b.period = 'daily' THEN 'day' ELSE 'month' END, LOCALTIMESTAMP) AS period_start
+      ) p
+      LEFT JOIN LATERAL (
+        SELECT SUM(u.cost_usd) AS spent_usd
+        FROM ai_usage u
+        WHERE u.created_at >= GREATEST(p.period_start, b.reset_at)
+          AND ((b.scope = 'provider' AND u.model_used = b.target) OR (b.scope = 'feature' AND u.feature = b.target))
+      ) s ON TRUE
+      ORDER BY b.scope, b.target, b.period
+    `;
+
+    try {
+      const result = await query(sql);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to get AI budget spend', {
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create the budget of a scope, target and period, or change its limit
+   */
+  static async upsert(
+    scope: AIBudgetScope,
+    target: string,
+    period: AIBudgetPeriod,
+    limitUsd: number
+  ): Promise<AIBudget> {
+    const sql = `
+      INSERT INTO ai_budgets (scope, target, period, limit_usd, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, NOW(), NOW())
+      ON CONFLICT (scope, target, period)
+      DO UPDATE SET limit_usd = EXCLUDED.limit_usd, updated_at = NOW()
+      RETURNING *
+    `;
+
+    try {
+      const result = await query(sql, [scope, target, period, limitUsd]);
+
+      logger.info('AI budget set', {
+        id: result.rows[0].id,
+        scope,
+        target,
+        period,
+        limitUsd
+      });
+
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to set AI budget', {
+        error: (error as Error).message,
+        scope,
+        target,
+        period
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Stop counting the spend made so far in the current period; returns null when the budget does not exist
+   */
+  static async reset(id: number): Promise<AIBudget | null> {
+    const sql = `
+      UPDATE ai_budgets
+      SET reset_at = NOW(), updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    try {
+      const result = await query(sql, [id]);
+
+      if (result.rows[0]) {
+        logger.info('AI budget reset', {
+          id,
+          scope: result.rows[0].scope,
+          target: result.rows[0].target,
+          period: result.rows[0].period
+        });
+      }
+
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to reset AI budget', {
+        error: (error as Error).message,
+        id
+      });
+      throw error;
+    }
+  }
+
+  static async delete(id: number): Promise<boolean> {
+    const sql = `
+      DELETE FROM ai_budgets
+      WHERE id = $1
+    `;
+
+    try {
+      const result = await query(sql, [id]);
+
+      logger.info('AI budget deleted', {
+        id,
+        deleted: result.rowCount > 0
+      });
+
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error('Failed to delete AI budget', {
+        error: (error as Error).message,
+        id
+      });
+      throw error;
+    }
+  }
+}
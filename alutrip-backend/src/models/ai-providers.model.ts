@@ -0,0 +1,35 @@
+import { query } from '../config/database';
+import { logger } from '../config/logger';
+import { AIProviderInfo } from '../types/ai';
+
+export class AIProvidersModel {
+  /**
+   * Upsert the registered providers so model_used foreign keys accept them
+   * Rows of providers no longer registered are kept, as stored answers still reference them
+   */
+  static async sync(providers: Pick<AIProviderInfo, 'name' | 'label' | 'model'>[]): Promise<void> {
+    const sql = `
+      INSERT INTO ai_providers (name, label, model, created_at, updated_at)
+      VALUES ($1, $2, $3, NOW(), NOW())
+      ON CONFLICT (name) DO UPDATE SET
+        label = EXCLUDED.label,
+        model = EXCLUDED.model,
+        updated_at = NOW()
+    `;
+
+    try {
+      for (const provider of providers) {
+        await query(sql, [provider.name, provider.label, provider.model]);
+      }
+
+      logger.info('AI providers synced', {
+        providers: providers.map(provider => provider.name)
+      });
+    } catch (error) {
+      logger.error('Failed to sync AI providers', {
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+}
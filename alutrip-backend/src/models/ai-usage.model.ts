@@ -0,0 +1,135 @@
+import { query } from '../config/database';
+import { logger } from '../config/logger';
+import {
+  AIFeature,
+  AIUsageDailySpend,
+  AIUsageFeatureSpend,
+  AIUsageModelSpend,
+  AIUsageRecord
+} from '../types/ai';
+
+export class AIUsageModel {
+  /**
+   * Store one answered provider call
+   */
+  static async record(usage: AIUsageRecord): Promise<void> {
+    const sql = `
+      INSERT INTO ai_usage (
+        feature, model_used, provider_model, prompt_tokens, completion_tokens,
+        total_tokens, latency_ms, cost_usd, session_id, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
+    `;
+
+    try {
+      await query(sql, [
+        usage.feature,
+        usage.model_used,
+        usage.provider_model,
+        usage.prompt_tokens,
+        usage.completion_tokens,
+        usage.total_tokens,
+        usage.latency_ms,
+        usage.cost_usd,
+        usage.session_id ?? null
+      ]);
+    } catch (error) {
+      logger.error('Failed to record AI usage', {
+        error: (error as Error).message,
+        feature: usage.feature,
+        modelUsed: usage.model_used
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Calls, tokens and cost per provider and upstream model over the last days, most expensive first
+   */
+  static async getSpendByModel(days: number, feature?: AIFeature, model?: string): Promise<AIUsageModelSpend[]> {
+    const sql = `
+      SELECT model_used, provider_model,
+        COUNT(*)::int AS calls,
+        SUM(prompt_tokens)::int AS prompt_tokens,
+        SUM(completion_tokens)::int AS completion_tokens,
+        SUM(cost_usd)::float8 AS cost_usd,
+        AVG(latency_ms)::int AS avg_latency_ms
+      FROM ai_usage
+      WHERE created_at >= CURRENT_DATE - ($1::int - 1)
+        AND ($2::varchar IS NULL OR feature = $2)
+        AND ($3::varchar IS NULL OR model_used = $3)
+      GROUP BY model_used, provider_model
+      ORDER BY cost_usd DESC, calls DESC
+    `;
+
+    try {
+      const result = await query(sql, [days, feature ?? null, model ?? null]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to get AI spend by model', {
+        error: (error as Error).message,
+        days
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Calls, tokens and cost per feature over the last days
+   */
+  static async getSpendByFeature(days: number, model?: string): Promise<AIUsageFeatureSpend[]> {
+    const sql = `
+      SELECT feature,
+        COUNT(*)::int AS calls,
+        SUM(prompt_tokens)::int AS prompt_tokens,
+        SUM(completion_tokens)::int AS completion_tokens,
+        SUM(cost_usd)::float8 AS cost_usd,
+        AVG(latency_ms)::int AS avg_latency_ms
+      FROM ai_usage
+      WHERE created_at >= CURRENT_DATE - ($1::int - 1)
+        AND ($2::varchar IS NULL OR model_used = $2)
+      GROUP BY feature
+      ORDER BY cost_usd DESC
+    `;
+
+    try {
+      const result = await query(sql, [days, model ?? null]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to get AI spend by feature', {
+        error: (error as Error).message,
+        days
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Calls, tokens and cost per day and feature; days without calls are left out
+   */
+  static async getDailySpend(days: number, feature?: AIFeature, model?: string): Promise<AIUsageDailySpend[]> {
+    const sql = `
+      SELECT to_char(created_at::date, 'YYYY-MM-DD') AS day, feature,
+        COUNT(*)::int AS calls,
+        SUM(prompt_tokens)::int AS prompt_tokens,
+        SUM(completion_tokens)::int AS completion_tokens,
+        SUM(cost_usd)::float8 AS cost_usd
+      FROM ai_usage
+      WHERE created_at >= CURRENT_DATE - ($1::int - 1)
+        AND ($2::varchar IS NULL OR feature = $2)
+        AND ($3::varchar IS NULL OR model_used = $3)
+      GROUP BY created_at::date, feature
+      ORDER BY day DESC, feature
+    `;
+
+    try {
+      const result = await query(sql, [days, feature ?? null, model ?? null]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to get daily AI spend', {
+        error: (error as Error).message,
+        days
+      });
+      throw error;
+    }
+  }
+}
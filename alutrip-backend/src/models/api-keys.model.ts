@@ -0,0 +1,151 @@
+import { query } from '../config/database';
+import { logger } from '../config/logger';
+import { ApiKey, ApiKeySummary, ApiKeyTier } from '../types/api-key';
+
+const SUMMARY_COLUMNS = 'id, name, key_prefix, tier, created_at, rotated_at, revoked_at, last_used_at';
+
+export class ApiKeysModel {
+  static async create(name: string, tier: ApiKeyTier, keyPrefix: string, keyHash: string): Promise<ApiKeySummary> {
+    const sql = `
+      INSERT INTO api_keys (name, tier, key_prefix, key_hash, created_at)
+      VALUES ($1, $2, $3, $4, NOW())
+      RETURNING ${SUMMARY_COLUMNS}
+    `;
+
+    try {
+      const result = await query(sql, [name, tier, keyPrefix, keyHash]);
+
+      logger.info('API key created', {
+        id: result.rows[0].id,
+        tier
+      });
+
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to create API key', {
+        error: (error as Error).message,
+        tier
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Active (not revoked) key with the given hash
+   */
+  static async findActiveByHash(keyHash: string): Promise<ApiKey | null> {
+    const sql = `
+      SELECT * FROM api_keys
+      WHERE key_hash = $1 AND revoked_at IS NULL
+    `;
+
+    try {
+      const result = await query(sql, [keyHash]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to find API key by hash', {
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+
+  static async findById(id: number): Promise<ApiKeySummary | null> {
+    const sql = `
+      SELECT ${SUMMARY_COLUMNS} FROM api_keys
+      WHERE id = $1
+    `;
+
+    try {
+      const result = await query(sql, [id]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to find API key by ID', {
+        error: (error as Error).message,
+        id
+      });
+      throw error;
+    }
+  }
+
+  static async findAll(): Promise<ApiKeySummary[]> {
+    const sql = `
+      SELECT ${SUMMARY_COLUMNS} FROM api_keys
+      ORDER BY created_at DESC
+    `;
+
+    try {
+      const result = await query(sql);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to list API keys', {
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the hash of an active key; returns null when the key is missing or revoked
+   */
+  static async updateHash(id: number, keyPrefix: string, keyHash: string): Promise<ApiKeySummary | null> {
+    const sql = `
+      UPDATE api_keys
+      SET key_prefix = $2, key_hash = $3, rotated_at = NOW()
+      WHERE id = $1 AND revoked_at IS NULL
+      RETURNING ${SUMMARY_COLUMNS}
+    `;
+
+    try {
+      const result = await query(sql, [id, keyPrefix, keyHash]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to rotate API key', {
+        error: (error as Error).message,
+        id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke an active key; returns null when the key is missing or already revoked
+   */
+  static async revoke(id: number): Promise<ApiKeySummary | null> {
+    const sql = `
+      UPDATE api_keys
+      SET revoked_at = NOW()
+      WHERE id = $1 AND revoked_at IS NULL
+      RETURNING ${SUMMARY_COLUMNS}
+    `;
+
+    try {
+      const result = await query(sql, [id]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to revoke API key', {
+        error: (error as Error).message,
+        id
+      });
+      throw error;
+    }
+  }
+
+  static async updateLastUsed(id: number): Promise<void> {
+    const sql = `
+      UPDATE api_keys
+      SET last_used_at = NOW()
+      WHERE id = $1
+    `;
+
+    try {
+      await query(sql, [id]);
+    } catch (error) {
+      logger.error('Failed to update API key last use', {
+        error: (error as Error).message,
+        id
+      });
+      throw error;
+    }
+  }
+}
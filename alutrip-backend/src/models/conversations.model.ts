@@ -0,0 +1,128 @@
+import { query } from '../config/database';
+import { logger } from '../config/logger';
+import { Conversation } from '../types/travel';
+import { RequestOwner } from '../types/session';
+
+export class ConversationsModel {
+  static async create(
+    sessionId: string,
+    initialQuestionId: number,
+    title?: string,
+    userId?: number
+  ): Promise<Conversation> {
+    const sql = `
+      INSERT INTO conversations (
+        session_id, user_id, initial_question_id, title, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, NOW(), NOW())
+      RETURNING *
+    `;
+
+    try {
+      const result = await query(sql, [sessionId, userId ?? null, initialQuestionId, title]);
+
+      logger.info('Conversation created', {
+        id: result.rows[0].id,
+        sessionId,
+        userId,
+        initialQuestionId
+      });
+
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to create conversation', {
+        error: (error as Error).message,
+        sessionId,
+        initialQuestionId
+      });
+      throw error;
+    }
+  }
+
+  static async findById(id: number): Promise<Conversation | null> {
+    const sql = `
+      SELECT * FROM conversations
+      WHERE id = $1
+    `;
+
+    try {
+      const result = await query(sql, [id]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to find conversation by ID', {
+        error: (error as Error).message,
+        id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Conversation of the caller about a question; other callers continuing the same question get their own
+   */
+  static async findByInitialQuestionId(initialQuestionId: number, owner: RequestOwner): Promise<Conversation | null> {
+    const sql = `
+      SELECT * FROM conversations
+      WHERE initial_question_id = $1
+        AND (user_id = $2 OR session_id = $3)
+      ORDER BY created_at ASC
+      LIMIT 1
+    `;
+
+    try {
+      const result = await query(sql, [initialQuestionId, owner.userId ?? null, owner.sessionId ?? null]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to find conversation by initial question ID', {
+        error: (error as Error).message,
+        initialQuestionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Conversations of the user or started in the session, most recently active first
+   */
+  static async findByOwner(owner: RequestOwner): Promise<Conversation[]> {
+    const sql = `
+      SELECT * FROM conversations
+      WHERE user_id = $1 OR session_id = $2
+      ORDER BY updated_at DESC
+    `;
+
+    try {
+      const result = await query(sql, [owner.userId ?? null, owner.sessionId ?? null]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to find conversations by owner', {
+        error: (error as Error).message,
+        ...owner
+      });
+      throw error;
+    }
+  }
+
+  static async delete(id: number): Promise<boolean> {
+    const sql = `
+      DELETE FROM conversations
+      WHERE id = $1
+    `;
+
+    try {
+      const result = await query(sql, [id]);
+
+      logger.info('Conversation deleted', {
+        id,
+        deleted: result.rowCount > 0
+      });
+
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error('Failed to delete conversation', {
+        error: (error as Error).message,
+        id
+      });
+      throw error;
+    }
+  }
+}
@@ -1,12 +1,17 @@
 import { query } from '../config/database';
 import { logger } from '../config/logger';
+import { AIUsageTotals } from '../types/ai';
 import { 
   Itinerary, 
   ItineraryRequestData, 
   ProcessingStatus, 
-  AIModel 
+  AIModel,
+  StructuredItinerary
 } from '../types/travel';
 
+// Row as read from Postgres, where request_data may still be the JSON text
+type ItineraryRow = Omit<Itinerary, 'request_data'> & { request_data: ItineraryRequestData | string };
+
 export class ItinerariesModel {
   static async create(
     clientIp: string,
@@ -16,14 +21,15 @@ export class ItinerariesModel {
     requestData: ItineraryRequestData,
     sessionId?: string,
     budget?: number,
-    interests?: string[]
+    interests?: string[],
+    userId?: number
   ): Promise<Itinerary> {
     const sql = `
       INSERT INTO itineraries (
         session_id, client_ip, destination, start_date, end_date, 
         budget, interests, request_data, generated_content, 
-        model_used, processing_status, created_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())
+        model_used, processing_status, user_id, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW())
       RETURNING *
     `;
     
@@ -38,8 +44,9 @@ export class ItinerariesModel {
         interests || [],
         JSON.stringify(requestData),
         '',
-        'groq',
-        'pending'
+        requestData.model || 'groq', // Column default for rows created without a model
+        'pending',
+        userId || null
       ]);
       
       logger.info('Itinerary request created', {
@@ -126,22 +133,40 @@ export class ItinerariesModel {
     }
   }
 
+  /**
+   * Store new content; the usage of the AI calls behind it is added to the itinerary's totals
+   */
   static async updateContent(
     id: number,
     generatedContent: string,
     modelUsed: AIModel,
     pdfFilename?: string,
-    pdfPath?: string
+    pdfPath?: string,
+    structuredContent?: StructuredItinerary | null,
+    usage?: AIUsageTotals
   ): Promise<Itinerary | null> {
     const sql = `
       UPDATE itineraries 
-      SET generated_content = $1, model_used = $2, pdf_filename = $3, pdf_path = $4
-      WHERE id = $5
+      SET generated_content = $1, model_used = $2, pdf_filename = $3, pdf_path = $4, structured_content = $5,
+        prompt_tokens = prompt_tokens + $7, completion_tokens = completion_tokens + $8,
+        latency_ms = latency_ms + $9, cost_usd = cost_usd + $10
+      WHERE id = $6
       RETURNING *
     `;
     
     try {
-      const result = await query(sql, [generatedContent, modelUsed, pdfFilename, pdfPath, id]);
+      const result = await query(sql, [
+        generatedContent,
+        modelUsed,
+        pdfFilename,
+        pdfPath,
+        structuredContent ? JSON.stringify(structuredContent) : null,
+        id,
+        usage?.prompt_tokens ?? 0,
+        usage?.completion_tokens ?? 0,
+        usage?.latency_ms ?? 0,
+        usage?.cost_usd ?? 0
+      ]);
       const itinerary = result.rows[0];
       
       if (itinerary) {
@@ -154,6 +179,8 @@ export class ItinerariesModel {
         id,
         modelUsed,
         contentLength: generatedContent.length,
+        structured: !!structuredContent,
+        costUsd: usage?.cost_usd,
         pdfFilename
       });
       
@@ -168,6 +195,28 @@ export class ItinerariesModel {
     }
   }
 
+  /**
+   * Record the prompt template version assigned to the itinerary, before generation so failures count too
+   */
+  static async updatePromptVersion(id: number, promptVersion: number): Promise<void> {
+    const sql = `
+      UPDATE itineraries
+      SET prompt_version = $1
+      WHERE id = $2
+    `;
+
+    try {
+      await query(sql, [promptVersion, id]);
+    } catch (error) {
+      logger.error('Failed to update itinerary prompt version', {
+        error: (error as Error).message,
+        id,
+        promptVersion
+      });
+      throw error;
+    }
+  }
+
   static async findRecent(
     limit: number = 10,
     offset: number = 0,
@@ -245,6 +294,63 @@ export class ItinerariesModel {
     }
   }
 
+  static async findByUserId(
+    userId: number,
+    limit: number = 10,
+    offset: number = 0
+  ): Promise<Itinerary[]> {
+    const sql = `
+      SELECT * FROM itineraries 
+      WHERE user_id = $1 
+      ORDER BY created_at DESC 
+      LIMIT $2 OFFSET $3
+    `;
+    
+    try {
+      const result = await query(sql, [userId, limit, offset]);
+      
+      return result.rows.map((itinerary: ItineraryRow) => ({
+        ...itinerary,
+        request_data: typeof itinerary.request_data === 'string'
+          ? JSON.parse(itinerary.request_data)
+          : itinerary.request_data
+      }));
+    } catch (error) {
+      logger.error('Failed to find itineraries by user', {
+        error: (error as Error).message,
+        userId,
+        limit,
+        offset
+      });
+      throw error;
+    }
+  }
+
+  static async findBySessionId(sessionId: string): Promise<Itinerary[]> {
+    const sql = `
+      SELECT * FROM itineraries 
+      WHERE session_id = $1 
+      ORDER BY created_at ASC
+    `;
+    
+    try {
+      const result = await query(sql, [sessionId]);
+      
+      return result.rows.map((itinerary: ItineraryRow) => ({
+        ...itinerary,
+        request_data: typeof itinerary.request_data === 'string'
+          ? JSON.parse(itinerary.request_data)
+          : itinerary.request_data
+      }));
+    } catch (error) {
+      logger.error('Failed to find itineraries by session ID', {
+        error: (error as Error).message,
+        sessionId
+      });
+      throw error;
+    }
+  }
+
   static async findPending(limit: number = 10): Promise<Itinerary[]> {
     const sql = `
       SELECT * FROM itineraries 
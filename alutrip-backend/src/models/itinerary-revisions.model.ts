@@ -0,0 +1,91 @@
+import { query } from '../config/database';
+import { logger } from '../config/logger';
+import { AIModel, ItineraryDay, ItineraryRevision } from '../types/travel';
+
+// Postgres unique_violation, raised when concurrent edits of an itinerary take the same revision number
+const UNIQUE_VIOLATION = '23505';
+const MAX_NUMBERING_ATTEMPTS = 3;
+
+export class ItineraryRevisionsModel {
+  /**
+   * Store the next revision of the itinerary
+   * The number is computed by the insert itself, so an edit that loses a race is inserted again with the next one
+   */
+  static async create(
+    itineraryId: number,
+    dayNumber: number,
+    previousDay: ItineraryDay,
+    newDay: ItineraryDay,
+    modelUsed: AIModel,
+    feedback?: string
+  ): Promise<ItineraryRevision> {
+    const sql = `
+      INSERT INTO itinerary_revisions (
+        itinerary_id, revision_number, day_number, feedback,
+        previous_day, new_day, model_used, created_at
+      ) VALUES (
+        $1,
+        (SELECT COALESCE(MAX(revision_number), 0) + 1 FROM itinerary_revisions WHERE itinerary_id = $1),
+        $2, $3, $4, $5, $6, NOW()
+      )
+      RETURNING *
+    `;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await query(sql, [
+          itineraryId,
+          dayNumber,
+          feedback || null,
+          JSON.stringify(previousDay),
+          JSON.stringify(newDay),
+          modelUsed
+        ]);
+
+        logger.info('Itinerary revision created', {
+          id: result.rows[0].id,
+          itineraryId,
+          revisionNumber: result.rows[0].revision_number,
+          dayNumber
+        });
+
+        return result.rows[0];
+      } catch (error) {
+        if ((error as { code?: string }).code === UNIQUE_VIOLATION && attempt < MAX_NUMBERING_ATTEMPTS) {
+          logger.warn('Itinerary revision number taken by a concurrent edit, retrying', {
+            itineraryId,
+            dayNumber,
+            attempt
+          });
+          continue;
+        }
+
+        logger.error('Failed to create itinerary revision', {
+          error: (error as Error).message,
+          itineraryId,
+          dayNumber
+        });
+        throw error;
+      }
+    }
+  }
+
+  static async findByItineraryId(itineraryId: number): Promise<ItineraryRevision[]> {
+    const sql = `
+      SELECT * FROM itinerary_revisions
+      WHERE itinerary_id = $1
+      ORDER BY revision_number DESC
+    `;
+
+    try {
+      const result = await query(sql, [itineraryId]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to find itinerary revisions', {
+        error: (error as Error).message,
+        itineraryId
+      });
+      throw error;
+    }
+  }
+}
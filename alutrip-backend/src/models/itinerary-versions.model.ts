@@ -0,0 +1,142 @@
+import { query } from '../config/database';
+import { logger } from '../config/logger';
+import {
+  AIModel,
+  ItineraryPromptParameters,
+  ItineraryVersion,
+  ItineraryVersionSource,
+  ItineraryVersionSummary,
+  StructuredItinerary
+} from '../types/travel';
+
+// Postgres unique_violation, raised when concurrent saves of an itinerary take the same version number
+const UNIQUE_VIOLATION = '23505';
+const MAX_NUMBERING_ATTEMPTS = 3;
+
+export class ItineraryVersionsModel {
+  /**
+   * Store the next version of the itinerary
+   * The number is computed by the insert itself, so a save that loses a race is inserted again with the next one
+   */
+  static async create(
+    itineraryId: number,
+    source: ItineraryVersionSource,
+    generatedContent: string,
+    structuredContent: StructuredItinerary | null,
+    modelUsed: AIModel,
+    promptParameters: ItineraryPromptParameters,
+    pdfFilename?: string,
+    pdfPath?: string
+  ): Promise<ItineraryVersion> {
+    const sql = `
+      INSERT INTO itinerary_versions (
+        itinerary_id, version_number, source, generated_content, structured_content,
+        pdf_filename, pdf_path, model_used, prompt_parameters, created_at
+      ) VALUES (
+        $1,
+        (SELECT COALESCE(MAX(version_number), 0) + 1 FROM itinerary_versions WHERE itinerary_id = $1),
+        $2, $3, $4, $5, $6, $7, $8, NOW()
+      )
+      RETURNING *
+    `;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await query(sql, [
+          itineraryId,
+          source,
+          generatedContent,
+          structuredContent ? JSON.stringify(structuredContent) : null,
+          pdfFilename || null,
+          pdfPath || null,
+          modelUsed,
+          JSON.stringify(promptParameters)
+        ]);
+
+        logger.info('Itinerary version created', {
+          id: result.rows[0].id,
+          itineraryId,
+          versionNumber: result.rows[0].version_number,
+          source
+        });
+
+        return result.rows[0];
+      } catch (error) {
+        if ((error as { code?: string }).code === UNIQUE_VIOLATION && attempt < MAX_NUMBERING_ATTEMPTS) {
+          logger.warn('Itinerary version number taken by a concurrent save, retrying', {
+            itineraryId,
+            source,
+            attempt
+          });
+          continue;
+        }
+
+        logger.error('Failed to create itinerary version', {
+          error: (error as Error).message,
+          itineraryId,
+          source
+        });
+        throw error;
+      }
+    }
+  }
+
+  static async findByItineraryId(itineraryId: number): Promise<ItineraryVersionSummary[]> {
+    const sql = `
+      SELECT id, itinerary_id, version_number, source, pdf_filename, model_used, prompt_parameters, created_at
+      FROM itinerary_versions
+      WHERE itinerary_id = $1
+      ORDER BY version_number DESC
+    `;
+
+    try {
+      const result = await query(sql, [itineraryId]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to find itinerary versions', {
+        error: (error as Error).message,
+        itineraryId
+      });
+      throw error;
+    }
+  }
+
+  static async findByVersion(itineraryId: number, versionNumber: number): Promise<ItineraryVersion | null> {
+    const sql = `
+      SELECT * FROM itinerary_versions
+      WHERE itinerary_id = $1 AND version_number = $2
+    `;
+
+    try {
+      const result = await query(sql, [itineraryId, versionNumber]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to find itinerary version', {
+        error: (error as Error).message,
+        itineraryId,
+        versionNumber
+      });
+      throw error;
+    }
+  }
+
+  static async findLatest(itineraryId: number): Promise<ItineraryVersion | null> {
+    const sql = `
+      SELECT * FROM itinerary_versions
+      WHERE itinerary_id = $1
+      ORDER BY version_number DESC
+      LIMIT 1
+    `;
+
+    try {
+      const result = await query(sql, [itineraryId]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to find latest itinerary version', {
+        error: (error as Error).message,
+        itineraryId
+      });
+      throw error;
+    }
+  }
+}
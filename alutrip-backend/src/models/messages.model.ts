@@ -0,0 +1,58 @@
+import { query } from '../config/database';
+import { logger } from '../config/logger';
+import { AIModel, Message, MessageType } from '../types/travel';
+
+export class MessagesModel {
+  static async create(
+    conversationId: number,
+    messageType: MessageType,
+    content: string,
+    modelUsed?: AIModel
+  ): Promise<Message> {
+    const sql = `
+      INSERT INTO messages (
+        conversation_id, message_type, content, model_used, created_at
+      ) VALUES ($1, $2, $3, $4, NOW())
+      RETURNING *
+    `;
+
+    try {
+      const result = await query(sql, [conversationId, messageType, content, modelUsed]);
+
+      logger.info('Conversation message created', {
+        id: result.rows[0].id,
+        conversationId,
+        messageType,
+        contentLength: content.length
+      });
+
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to create conversation message', {
+        error: (error as Error).message,
+        conversationId,
+        messageType
+      });
+      throw error;
+    }
+  }
+
+  static async findByConversationId(conversationId: number): Promise<Message[]> {
+    const sql = `
+      SELECT * FROM messages
+      WHERE conversation_id = $1
+      ORDER BY created_at ASC, id ASC
+    `;
+
+    try {
+      const result = await query(sql, [conversationId]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to find messages by conversation ID', {
+        error: (error as Error).message,
+        conversationId
+      });
+      throw error;
+    }
+  }
+}
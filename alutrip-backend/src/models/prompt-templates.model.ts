@@ -0,0 +1,227 @@
+import { query } from '../config/database';
+import { logger } from '../config/logger';
+import { AIFeature } from '../types/ai';
+import { Locale } from '../types/i18n';
+import { PromptTemplate, PromptTemplateFilter, PromptTemplateVersionStats } from '../types/prompt-template';
+
+export class PromptTemplatesModel {
+  /**
+   * Store the next version of the feature and locale
+   */
+  static async create(
+    feature: AIFeature,
+    locale: Locale,
+    systemPrompt: string,
+    userPrompt: string,
+    weight: number,
+    description?: string
+  ): Promise<PromptTemplate> {
+    const sql = `
+      INSERT INTO prompt_templates (
+        feature, locale, version, system_prompt, user_prompt, weight, description, created_at, updated_at
+      )
+      SELECT $1, $2, COALESCE(MAX(version), 0) + 1, $3, $4, $5, $6, NOW(), NOW()
+      FROM prompt_templates
+      WHERE feature = $1 AND locale = $2
+      RETURNING *
+    `;
+
+    try {
+      const result = await query(sql, [feature, locale, systemPrompt, userPrompt, weight, description || null]);
+
+      logger.info('Prompt template created', {
+        id: result.rows[0].id,
+        feature,
+        locale,
+        version: result.rows[0].version,
+        weight
+      });
+
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to create prompt template', {
+        error: (error as Error).message,
+        feature,
+        locale
+      });
+      throw error;
+    }
+  }
+
+  static async findById(id: number): Promise<PromptTemplate | null> {
+    const sql = `
+      SELECT * FROM prompt_templates
+      WHERE id = $1
+    `;
+
+    try {
+      const result = await query(sql, [id]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to find prompt template by ID', {
+        error: (error as Error).message,
+        id
+      });
+      throw error;
+    }
+  }
+
+  static async findByVersion(feature: AIFeature, locale: Locale, version: number): Promise<PromptTemplate | null> {
+    const sql = `
+      SELECT * FROM prompt_templates
+      WHERE feature = $1 AND locale = $2 AND version = $3
+    `;
+
+    try {
+      const result = await query(sql, [feature, locale, version]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to find prompt template by version', {
+        error: (error as Error).message,
+        feature,
+        locale,
+        version
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Versions with a weight above zero, the ones requests are assigned to
+   */
+  static async findActive(feature: AIFeature, locale: Locale): Promise<PromptTemplate[]> {
+    const sql = `
+      SELECT * FROM prompt_templates
+      WHERE feature = $1 AND locale = $2 AND weight > 0
+      ORDER BY version
+    `;
+
+    try {
+      const result = await query(sql, [feature, locale]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to find active prompt templates', {
+        error: (error as Error).message,
+        feature,
+        locale
+      });
+      throw error;
+    }
+  }
+
+  static async findAll(filter: PromptTemplateFilter = {}): Promise<PromptTemplate[]> {
+    const sql = `
+      SELECT * FROM prompt_templates
+      WHERE ($1::varchar IS NULL OR feature = $1)
+        AND ($2::varchar IS NULL OR locale = $2)
+      ORDER BY feature, locale, version DESC
+    `;
+
+    try {
+      const result = await query(sql, [filter.feature ?? null, filter.locale ?? null]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to list prompt templates', {
+        error: (error as Error).message,
+        filter
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Change the A/B weight of a version; returns null when it does not exist
+   */
+  static async updateWeight(id: number, weight: number): Promise<PromptTemplate | null> {
+    const sql = `
+      UPDATE prompt_templates
+      SET weight = $2, updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    try {
+      const result = await query(sql, [id, weight]);
+
+      if (result.rows[0]) {
+        logger.info('Prompt template weight updated', {
+          id,
+          feature: result.rows[0].feature,
+          locale: result.rows[0].locale,
+          version: result.rows[0].version,
+          weight
+        });
+      }
+
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to update prompt template weight', {
+        error: (error as Error).message,
+        id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Questions answered per locale and template version over the last `days` days
+   */
+  static async getTravelQuestionStats(days: number): Promise<PromptTemplateVersionStats[]> {
+    const sql = `
+      SELECT tq.locale, tq.prompt_version AS version,
+        COUNT(*)::int AS requests,
+        NULL AS completed,
+        NULL AS failed,
+        NULL AS avg_processing_seconds,
+        COUNT(DISTINCT c.initial_question_id)::int AS conversations
+      FROM travel_questions tq
+      LEFT JOIN conversations c ON c.initial_question_id = tq.id
+      WHERE tq.created_at > NOW() - make_interval(days => $1::int)
+      GROUP BY tq.locale, tq.prompt_version
+      ORDER BY tq.locale, tq.prompt_version
+    `;
+
+    try {
+      const result = await query(sql, [days]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to get travel question prompt template stats', {
+        error: (error as Error).message,
+        days
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Itineraries generated per locale and template version over the last `days` days
+   * Itineraries requested before locales were supported count as pt-BR
+   */
+  static async getItineraryStats(days: number): Promise<PromptTemplateVersionStats[]> {
+    const sql = `
+      SELECT COALESCE(request_data->>'locale', 'pt-BR') AS locale, prompt_version AS version,
+        COUNT(*)::int AS requests,
+        COUNT(*) FILTER (WHERE processing_status = 'completed')::int AS completed,
+        COUNT(*) FILTER (WHERE processing_status = 'failed')::int AS failed,
+        ROUND(AVG(EXTRACT(EPOCH FROM (completed_at - created_at))) FILTER (
+          WHERE processing_status = 'completed'
+        ))::int AS avg_processing_seconds,
+        NULL AS conversations
+      FROM itineraries
+      WHERE created_at > NOW() - make_interval(days => $1::int)
+      GROUP BY 1, prompt_version
+      ORDER BY 1, prompt_version
+    `;
+
+    try {
+      const result = await query(sql, [days]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to get itinerary prompt template stats', {
+        error: (error as Error).message,
+        days
+      });
+      throw error;
+    }
+  }
+}
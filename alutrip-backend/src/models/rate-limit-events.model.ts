@@ -0,0 +1,164 @@
+import { query } from '../config/database';
+import { logger } from '../config/logger';
+import {
+  RateLimitBlockedDay,
+  RateLimitFeature,
+  RateLimitIdentity,
+  RateLimitOutcome,
+  RateLimitTopConsumer,
+  RateLimitUsageTrend
+} from '../types/travel';
+
+const OUTCOME_COLUMNS: Record<RateLimitOutcome, string> = {
+  allowed: 'allowed_count',
+  blocked: 'blocked_count',
+  refunded: 'refunded_count'
+};
+
+const toIdentityColumns = (identity: RateLimitIdentity): [string, string] => {
+  return identity.type === 'api_key'
+    ? ['api_key', String(identity.api_key_id)]
+    : ['ip', identity.ip];
+};
+
+export class RateLimitEventsModel {
+  /**
+   * Add one event to the counts of today for the identity and feature
+   */
+  static async record(
+    identity: RateLimitIdentity,
+    feature: RateLimitFeature,
+    outcome: RateLimitOutcome
+  ): Promise<void> {
+    const column = OUTCOME_COLUMNS[outcome];
+    const sql = `
+      INSERT INTO rate_limit_events (day, identity_type, identity, feature, ${column}, last_event_at)
+      VALUES (CURRENT_DATE, $1, $2, $3, 1, NOW())
+      ON CONFLICT (day, identity_type, identity, feature)
+      DO UPDATE SET ${column} = rate_limit_events.${column} + 1, last_event_at = NOW()
+    `;
+
+    try {
+      await query(sql, [...toIdentityColumns(identity), feature]);
+    } catch (error) {
+      logger.error('Failed to record rate limit event', {
+        error: (error as Error).message,
+        feature,
+        outcome
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Identities with the most allowed requests over the last days
+   */
+  static async getTopConsumers(
+    days: number,
+    limit: number,
+    feature?: RateLimitFeature
+  ): Promise<RateLimitTopConsumer[]> {
+    const sql = `
+      SELECT identity_type, identity,
+        SUM(allowed_count)::int AS allowed,
+        SUM(blocked_count)::int AS blocked,
+        SUM(refunded_count)::int AS refunded,
+        MAX(last_event_at) AS last_event_at
+      FROM rate_limit_events
+      WHERE day > CURRENT_DATE - $1::int
+        AND ($3::varchar IS NULL OR feature = $3)
+      GROUP BY identity_type, identity
+      ORDER BY allowed DESC, blocked DESC
+      LIMIT $2
+    `;
+
+    try {
+      const result = await query(sql, [days, limit, feature ?? null]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to get rate limit top consumers', {
+        error: (error as Error).message,
+        days
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Blocked requests per day and feature; days without blocks are left out
+   */
+  static async getBlockedPerDay(days: number, feature?: RateLimitFeature): Promise<RateLimitBlockedDay[]> {
+    const sql = `
+      SELECT to_char(day, 'YYYY-MM-DD') AS day, feature,
+        SUM(blocked_count)::int AS blocked,
+        COUNT(*) FILTER (WHERE blocked_count > 0)::int AS identities
+      FROM rate_limit_events
+      WHERE day > CURRENT_DATE - $1::int
+        AND ($2::varchar IS NULL OR feature = $2)
+      GROUP BY day, feature
+      HAVING SUM(blocked_count) > 0
+      ORDER BY day DESC, feature
+    `;
+
+    try {
+      const result = await query(sql, [days, feature ?? null]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to get blocked rate limit requests per day', {
+        error: (error as Error).message,
+        days
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Allowed, blocked and refunded requests and distinct identities per day and feature
+   */
+  static async getUsageTrends(days: number, feature?: RateLimitFeature): Promise<RateLimitUsageTrend[]> {
+    const sql = `
+      SELECT to_char(day, 'YYYY-MM-DD') AS day, feature,
+        SUM(allowed_count)::int AS allowed,
+        SUM(blocked_count)::int AS blocked,
+        SUM(refunded_count)::int AS refunded,
+        COUNT(*)::int AS identities
+      FROM rate_limit_events
+      WHERE day > CURRENT_DATE - $1::int
+        AND ($2::varchar IS NULL OR feature = $2)
+      GROUP BY day, feature
+      ORDER BY day DESC, feature
+    `;
+
+    try {
+      const result = await query(sql, [days, feature ?? null]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to get rate limit usage trends', {
+        error: (error as Error).message,
+        days
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the history of days before the retention period; returns the deleted rows
+   */
+  static async deleteOlderThan(days: number): Promise<number> {
+    const sql = `
+      DELETE FROM rate_limit_events
+      WHERE day <= CURRENT_DATE - $1::int
+    `;
+
+    try {
+      const result = await query(sql, [days]);
+      return result.rowCount ?? 0;
+    } catch (error) {
+      logger.error('Failed to delete rate limit events', {
+        error: (error as Error).message,
+        days
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { query } from '../config/database';
+import { logger } from '../config/logger';
+import { AIModel, SimilarTravelQuestion } from '../types/travel';
+import { Locale } from '../types/i18n';
+
+export interface FindSimilarOptions {
+  limit: number;
+  minSimilarity: number;
+  excludeQuestionId?: number;
+  modelUsed?: AIModel; // Only questions answered by this model
+  locale?: Locale; // Only questions answered in this language
+}
+
+export class TravelQuestionEmbeddingsModel {
+  static async save(questionId: number, embeddingModel: string, embedding: number[]): Promise<void> {
+    const sql = `
+      INSERT INTO travel_question_embeddings (question_id, embedding_model, embedding, created_at)
+      VALUES ($1, $2, $3, NOW())
+      ON CONFLICT (question_id, embedding_model)
+      DO UPDATE SET embedding = EXCLUDED.embedding, created_at = NOW()
+    `;
+
+    try {
+      await query(sql, [questionId, embeddingModel, embedding]);
+    } catch (error) {
+      logger.error('Failed to save travel question embedding', {
+        error: (error as Error).message,
+        questionId,
+        embeddingModel
+      });
+      throw error;
+    }
+  }
+
+  static async findByQuestionId(questionId: number, embeddingModel: string): Promise<number[] | null> {
+    const sql = `
+      SELECT embedding FROM travel_question_embeddings
+      WHERE question_id = $1 AND embedding_model = $2
+    `;
+
+    try {
+      const result = await query(sql, [questionId, embeddingModel]);
+      return result.rows[0]?.embedding ?? null;
+    } catch (error) {
+      logger.error('Failed to find travel question embedding', {
+        error: (error as Error).message,
+        questionId,
+        embeddingModel
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Questions closest to the embedding, most similar first
+   * Vectors are unit length, so the dot product computed here is the cosine similarity
+   */
+  static async findSimilar(
+    embedding: number[],
+    embeddingModel: string,
+    options: FindSimilarOptions
+  ): Promise<SimilarTravelQuestion[]> {
+    const sql = `
+      SELECT * FROM (
+        SELECT tq.*, (
+          SELECT SUM(a * b) FROM unnest(e.embedding, $1::real[]) AS v(a, b)
+        )::float AS similarity
+        FROM travel_question_embeddings e
+        JOIN travel_questions tq ON tq.id = e.question_id
+        WHERE e.embedding_model = $2
+          AND ($3::int IS NULL OR tq.id <> $3)
+          AND ($4::varchar IS NULL OR tq.model_used = $4)
+          AND ($7::varchar IS NULL OR tq.locale = $7)
+      ) scored
+      WHERE similarity >= $5
+      ORDER BY similarity DESC, created_at DESC
+      LIMIT $6
+    `;
+
+    try {
+      const result = await query(sql, [
+        embedding,
+        embeddingModel,
+        options.excludeQuestionId ?? null,
+        options.modelUsed ?? null,
+        options.minSimilarity,
+        options.limit,
+        options.locale ?? null
+      ]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to find similar travel questions', {
+        error: (error as Error).message,
+        embeddingModel
+      });
+      throw error;
+    }
+  }
+}
@@ -1,6 +1,8 @@
 import { query } from '../config/database';
 import { logger } from '../config/logger';
 import { TravelQuestion, AIModel } from '../types/travel';
+import { Locale } from '../types/i18n';
+import { AIUsageTotals } from '../types/ai';
 
 export class TravelQuestionsModel {
   static async create(
@@ -8,22 +10,33 @@ export class TravelQuestionsModel {
     question: string,
     response: string,
     modelUsed: AIModel,
-    sessionId?: string
+    sessionId?: string,
+    userId?: number,
+    locale: Locale = 'pt-BR',
+    promptVersion: number = 0,
+    usage?: AIUsageTotals
   ): Promise<TravelQuestion> {
     const sql = `
       INSERT INTO travel_questions (
-        session_id, client_ip, question, response, model_used, created_at
-      ) VALUES ($1, $2, $3, $4, $5, NOW())
+        session_id, client_ip, question, response, model_used, user_id, locale, prompt_version,
+        prompt_tokens, completion_tokens, latency_ms, cost_usd, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW())
       RETURNING *
     `;
     
     try {
-      const result = await query(sql, [sessionId, clientIp, question, response, modelUsed]);
+      const result = await query(sql, [
+        sessionId, clientIp, question, response, modelUsed, userId || null, locale, promptVersion,
+        usage?.prompt_tokens ?? 0, usage?.completion_tokens ?? 0, usage?.latency_ms ?? 0, usage?.cost_usd ?? 0
+      ]);
       
       logger.info('Travel question created', {
         id: result.rows[0].id,
         clientIp,
         modelUsed,
+        locale,
+        promptVersion,
+        costUsd: usage?.cost_usd,
         questionLength: question.length,
         responseLength: response.length
       });
@@ -113,6 +126,31 @@ export class TravelQuestionsModel {
       throw error;
     }
   }
+  static async findByUserId(
+    userId: number,
+    limit: number = 10,
+    offset: number = 0
+  ): Promise<TravelQuestion[]> {
+    const sql = `
+      SELECT * FROM travel_questions 
+      WHERE user_id = $1 
+      ORDER BY created_at DESC 
+      LIMIT $2 OFFSET $3
+    `;
+    
+    try {
+      const result = await query(sql, [userId, limit, offset]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to find travel questions by user', {
+        error: (error as Error).message,
+        userId,
+        limit,
+        offset
+      });
+      throw error;
+    }
+  }
 
   static async findBySessionId(sessionId: string): Promise<TravelQuestion[]> {
     const sql = `
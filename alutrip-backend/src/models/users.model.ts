@@ -0,0 +1,81 @@
+import { query } from '../config/database';
+import { logger } from '../config/logger';
+import { User } from '../types/auth';
+
+export class UsersModel {
+  static async create(email: string, passwordHash: string, name?: string): Promise<User> {
+    const sql = `
+      INSERT INTO users (email, password_hash, name, created_at, updated_at)
+      VALUES ($1, $2, $3, NOW(), NOW())
+      RETURNING *
+    `;
+
+    try {
+      const result = await query(sql, [email, passwordHash, name || null]);
+
+      logger.info('User created', {
+        id: result.rows[0].id
+      });
+
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to create user', {
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+
+  static async findById(id: number): Promise<User | null> {
+    const sql = `
+      SELECT * FROM users
+      WHERE id = $1
+    `;
+
+    try {
+      const result = await query(sql, [id]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to find user by ID', {
+        error: (error as Error).message,
+        id
+      });
+      throw error;
+    }
+  }
+
+  static async findByEmail(email: string): Promise<User | null> {
+    const sql = `
+      SELECT * FROM users
+      WHERE email = $1
+    `;
+
+    try {
+      const result = await query(sql, [email]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to find user by email', {
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+
+  static async updateLastLogin(id: number): Promise<void> {
+    const sql = `
+      UPDATE users
+      SET last_login_at = NOW()
+      WHERE id = $1
+    `;
+
+    try {
+      await query(sql, [id]);
+    } catch (error) {
+      logger.error('Failed to update user last login', {
+        error: (error as Error).message,
+        id
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,1260 @@
+import { Router } from 'express';
+import { aiBudgetController } from '../controllers/ai-budget.controller';
+import { aiUsageController } from '../controllers/ai-usage.controller';
+import { apiKeyController } from '../controllers/api-key.controller';
+import { promptTemplateController } from '../controllers/prompt-template.controller';
+import { rateLimitController } from '../controllers/rate-limit.controller';
+import { responseCacheController } from '../controllers/response-cache.controller';
+import { requireAdmin } from '../middleware/admin';
+
+const router = Router();
+
+/**
+ * Admin Routes
+ *
+ * Every endpoint requires the `x-admin-token` header to match ADMIN_API_TOKEN
+ * and is disabled (403) while ADMIN_API_TOKEN is not set
+ */
+router.use(requireAdmin);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ApiKey:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 3
+ *         name:
+ *           type: string
+ *           example: "reporting-bot"
+ *         key_prefix:
+ *           type: string
+ *           description: Start of the key, to recognize it without exposing it
+ *           example: "alu_Zk3q9XbT"
+ *         tier:
+ *           type: string
+ *           enum: [basic, pro, internal]
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         rotated_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         revoked_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         last_used_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *
+ *     IssuedApiKey:
+ *       type: object
+ *       properties:
+ *         api_key:
+ *           $ref: '#/components/schemas/ApiKey'
+ *         key:
+ *           type: string
+ *           description: The API key to send as x-api-key. Only returned once
+ *           example: "alu_Zk3q9XbTcW1m0pLr8sYfHq2vNd4uJe7a"
+ */
+
+/**
+ * @swagger
+ * /api/admin/api-keys:
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Issue an API key
+ *     security:
+ *       - adminToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *                 example: "reporting-bot"
+ *               tier:
+ *                 type: string
+ *                 enum: [basic, pro, internal]
+ *                 default: basic
+ *     responses:
+ *       201:
+ *         description: API key issued successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/IssuedApiKey'
+ *                     - type: object
+ *                       properties:
+ *                         quotas:
+ *                           type: object
+ *                           properties:
+ *                             travel_questions:
+ *                               type: integer
+ *                               example: 50
+ *                             itineraries:
+ *                               type: integer
+ *                               example: 20
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Missing or invalid admin token
+ *       403:
+ *         description: Admin endpoints are disabled
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: List API keys and tier quotas
+ *     security:
+ *       - adminToken: []
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     api_keys:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ApiKey'
+ *                     tiers:
+ *                       type: object
+ *                       description: Requests per rate limit window for each tier and feature
+ *       401:
+ *         description: Missing or invalid admin token
+ *       403:
+ *         description: Admin endpoints are disabled
+ */
+router.post('/api-keys', apiKeyController.issueKey);
+router.get('/api-keys', apiKeyController.listKeys);
+
+/**
+ * @swagger
+ * /api/admin/api-keys/{id}/rotate:
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Rotate an API key
+ *     description: Issues a new key for the same client and tier; the previous key stops working immediately.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: API key rotated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   $ref: '#/components/schemas/IssuedApiKey'
+ *       401:
+ *         description: Missing or invalid admin token
+ *       404:
+ *         description: API key not found or already revoked
+ */
+router.post('/api-keys/:id/rotate', apiKeyController.rotateKey);
+
+/**
+ * @swagger
+ * /api/admin/api-keys/{id}:
+ *   delete:
+ *     tags:
+ *       - Admin
+ *     summary: Revoke an API key
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: API key revoked successfully
+ *       401:
+ *         description: Missing or invalid admin token
+ *       404:
+ *         description: API key not found or already revoked
+ */
+router.delete('/api-keys/:id', apiKeyController.revokeKey);
+
+/**
+ * @swagger
+ * /api/admin/limits:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: Inspect the rate limit counters of an IP address or API key
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: query
+ *         name: ip
+ *         schema:
+ *           type: string
+ *         description: IP address, as seen by the API
+ *       - in: query
+ *         name: api_key_id
+ *         schema:
+ *           type: integer
+ *         description: API key ID; send either ip or api_key_id
+ *     responses:
+ *       200:
+ *         description: Rate limits retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   $ref: '#/components/schemas/RateLimitStatus'
+ *       400:
+ *         description: Neither or both of ip and api_key_id were sent
+ *       401:
+ *         description: Missing or invalid admin token
+ *       404:
+ *         description: API key not found
+ *   delete:
+ *     tags:
+ *       - Admin
+ *     summary: Reset the rate limit counters of an IP address or API key
+ *     description: Clears the counters of every feature and returns the refreshed status.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: query
+ *         name: ip
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: api_key_id
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Rate limits reset successfully
+ *       400:
+ *         description: Neither or both of ip and api_key_id were sent
+ *       401:
+ *         description: Missing or invalid admin token
+ *       404:
+ *         description: API key not found
+ */
+router.get('/limits', rateLimitController.getIdentityLimits);
+router.delete('/limits', rateLimitController.resetIdentityLimits);
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     RateLimitReportDays:
+ *       in: query
+ *       name: days
+ *       schema:
+ *         type: integer
+ *         minimum: 1
+ *         maximum: 365
+ *         default: 30
+ *       description: Number of days to report on, including today
+ *     RateLimitReportFeature:
+ *       in: query
+ *       name: feature
+ *       schema:
+ *         type: string
+ *         enum: [travel_questions, itineraries]
+ *       description: Only report on one feature
+ */
+
+/**
+ * @swagger
+ * /api/admin/limits/reports/top-consumers:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: Identities with the most allowed requests
+ *     description: IP addresses and API keys ordered by allowed requests, with their blocked and refunded requests.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/RateLimitReportDays'
+ *       - $ref: '#/components/parameters/RateLimitReportFeature'
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Rate limit report retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     days:
+ *                       type: integer
+ *                       example: 30
+ *                     feature:
+ *                       type: string
+ *                       nullable: true
+ *                     rows:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           identity_type:
+ *                             type: string
+ *                             enum: [ip, api_key]
+ *                           identity:
+ *                             type: string
+ *                             description: IP address or API key ID
+ *                             example: "203.0.113.7"
+ *                           allowed:
+ *                             type: integer
+ *                           blocked:
+ *                             type: integer
+ *                           refunded:
+ *                             type: integer
+ *                           last_event_at:
+ *                             type: string
+ *                             format: date-time
+ *       400:
+ *         description: Invalid report parameters
+ *       401:
+ *         description: Missing or invalid admin token
+ */
+router.get('/limits/reports/top-consumers', rateLimitController.getTopConsumers);
+
+/**
+ * @swagger
+ * /api/admin/limits/reports/blocked:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: Blocked requests per day
+ *     description: Requests rejected by the rate limit per day and feature, and how many identities were blocked. Days without blocks are left out.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/RateLimitReportDays'
+ *       - $ref: '#/components/parameters/RateLimitReportFeature'
+ *     responses:
+ *       200:
+ *         description: Rate limit report retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     days:
+ *                       type: integer
+ *                     feature:
+ *                       type: string
+ *                       nullable: true
+ *                     rows:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           day:
+ *                             type: string
+ *                             format: date
+ *                           feature:
+ *                             type: string
+ *                             enum: [travel_questions, itineraries]
+ *                           blocked:
+ *                             type: integer
+ *                           identities:
+ *                             type: integer
+ *       400:
+ *         description: Invalid report parameters
+ *       401:
+ *         description: Missing or invalid admin token
+ */
+router.get('/limits/reports/blocked', rateLimitController.getBlockedPerDay);
+
+/**
+ * @swagger
+ * /api/admin/limits/reports/usage:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: Usage trends per feature
+ *     description: Allowed, blocked and refunded requests and active identities per day and feature.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/RateLimitReportDays'
+ *       - $ref: '#/components/parameters/RateLimitReportFeature'
+ *     responses:
+ *       200:
+ *         description: Rate limit report retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     days:
+ *                       type: integer
+ *                     feature:
+ *                       type: string
+ *                       nullable: true
+ *                     rows:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           day:
+ *                             type: string
+ *                             format: date
+ *                           feature:
+ *                             type: string
+ *                             enum: [travel_questions, itineraries]
+ *                           allowed:
+ *                             type: integer
+ *                           blocked:
+ *                             type: integer
+ *                           refunded:
+ *                             type: integer
+ *                           identities:
+ *                             type: integer
+ *       400:
+ *         description: Invalid report parameters
+ *       401:
+ *         description: Missing or invalid admin token
+ */
+router.get('/limits/reports/usage', rateLimitController.getUsageTrends);
+
+/**
+ * @swagger
+ * /api/admin/cache/responses:
+ *   delete:
+ *     tags:
+ *       - Admin
+ *     summary: Invalidate cached travel answers
+ *     description: |
+ *       Removes answers from the response cache so the next matching question is sent to a provider.
+ *       Send question to remove one question, model to limit it to one model, or neither to clear the cache.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: query
+ *         name: question
+ *         schema:
+ *           type: string
+ *         description: Question to invalidate; case, accents, punctuation and spacing are ignored
+ *       - in: query
+ *         name: model
+ *         schema:
+ *           type: string
+ *         description: Model whose answers are invalidated
+ *     responses:
+ *       200:
+ *         description: Response cache invalidated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     deleted:
+ *                       type: integer
+ *                       description: Cached answers removed
+ *                       example: 2
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Missing or invalid admin token
+ */
+router.delete('/cache/responses', responseCacheController.invalidate);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PromptTemplate:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 4
+ *         feature:
+ *           type: string
+ *           enum: [travel_questions, itineraries]
+ *         locale:
+ *           type: string
+ *           enum: [pt-BR, en, es]
+ *         version:
+ *           type: integer
+ *           description: Increases per feature and locale; 0 stands for the built-in prompts
+ *           example: 2
+ *         system_prompt:
+ *           type: string
+ *         user_prompt:
+ *           type: string
+ *           example: "Travel question: {{question}}"
+ *         weight:
+ *           type: integer
+ *           description: Relative share of requests assigned to the version; 0 while inactive
+ *           example: 50
+ *         description:
+ *           type: string
+ *           nullable: true
+ *           example: "Shorter answers with a packing tip"
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/admin/prompt-templates:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: List prompt template versions
+ *     description: Versions newest first, and the {{variable}} placeholders each feature accepts.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: query
+ *         name: feature
+ *         schema:
+ *           type: string
+ *           enum: [travel_questions, itineraries]
+ *       - in: query
+ *         name: locale
+ *         schema:
+ *           type: string
+ *           enum: [pt-BR, en, es]
+ *     responses:
+ *       200:
+ *         description: Prompt templates retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     templates:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/PromptTemplate'
+ *                     variables:
+ *                       type: object
+ *                       description: Required and optional variables per feature and prompt
+ *       400:
+ *         description: Invalid filters
+ *       401:
+ *         description: Missing or invalid admin token
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Create a prompt template version
+ *     description: |
+ *       Stores the next version of the feature and locale. Requests are assigned to the versions with a weight
+ *       above zero in proportion to their weights; without any, the built-in prompts (version 0) are used.
+ *     security:
+ *       - adminToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - feature
+ *               - locale
+ *               - system_prompt
+ *               - user_prompt
+ *             properties:
+ *               feature:
+ *                 type: string
+ *                 enum: [travel_questions, itineraries]
+ *               locale:
+ *                 type: string
+ *                 enum: [pt-BR, en, es]
+ *               system_prompt:
+ *                 type: string
+ *                 description: Itineraries must include {{json_format}}
+ *               user_prompt:
+ *                 type: string
+ *                 description: Travel questions must include {{question}}, itineraries {{trip_info}}
+ *               weight:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 1000
+ *                 default: 0
+ *               description:
+ *                 type: string
+ *                 maxLength: 255
+ *     responses:
+ *       201:
+ *         description: Prompt template created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     template:
+ *                       $ref: '#/components/schemas/PromptTemplate'
+ *       400:
+ *         description: Invalid request data or unknown or missing variables
+ *       401:
+ *         description: Missing or invalid admin token
+ */
+router.get('/prompt-templates', promptTemplateController.listTemplates);
+router.post('/prompt-templates', promptTemplateController.createTemplate);
+
+/**
+ * @swagger
+ * /api/admin/prompt-templates/report:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: Compare prompt template versions
+ *     description: |
+ *       Requests per locale and template version. Itineraries add completed and failed generations and the
+ *       average seconds to completion; travel questions add how many answers were followed up in a chat.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: query
+ *         name: feature
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [travel_questions, itineraries]
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 365
+ *           default: 30
+ *     responses:
+ *       200:
+ *         description: Prompt template report retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     days:
+ *                       type: integer
+ *                     feature:
+ *                       type: string
+ *                     rows:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           locale:
+ *                             type: string
+ *                           version:
+ *                             type: integer
+ *                           requests:
+ *                             type: integer
+ *                           completed:
+ *                             type: integer
+ *                             nullable: true
+ *                           failed:
+ *                             type: integer
+ *                             nullable: true
+ *                           avg_processing_seconds:
+ *                             type: integer
+ *                             nullable: true
+ *                           conversations:
+ *                             type: integer
+ *                             nullable: true
+ *       400:
+ *         description: Invalid report parameters
+ *       401:
+ *         description: Missing or invalid admin token
+ */
+router.get('/prompt-templates/report', promptTemplateController.getReport);
+
+/**
+ * @swagger
+ * /api/admin/prompt-templates/{id}:
+ *   patch:
+ *     tags:
+ *       - Admin
+ *     summary: Set the A/B weight of a prompt template version
+ *     description: Templates are never edited; create a new version to change the prompts. A weight of 0 deactivates the version.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - weight
+ *             properties:
+ *               weight:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 1000
+ *     responses:
+ *       200:
+ *         description: Prompt template updated successfully
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Missing or invalid admin token
+ *       404:
+ *         description: Prompt template not found
+ */
+router.patch('/prompt-templates/:id', promptTemplateController.updateTemplate);
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     AIUsageReportModel:
+ *       in: query
+ *       name: model
+ *       schema:
+ *         type: string
+ *       description: Only report on calls answered by this provider
+ */
+
+/**
+ * @swagger
+ * /api/admin/usage/pricing:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: AI pricing table
+ *     description: |
+ *       Prices in USD per million tokens used to estimate the cost of each provider call, per upstream model
+ *       (built-in prices merged with AI_PRICING), and whether the model of each registered provider has a price.
+ *     security:
+ *       - adminToken: []
+ *     responses:
+ *       200:
+ *         description: AI pricing retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     pricing:
+ *                       type: object
+ *                       additionalProperties:
+ *                         type: object
+ *                         properties:
+ *                           input:
+ *                             type: number
+ *                             example: 0.3
+ *                           output:
+ *                             type: number
+ *                             example: 2.5
+ *                     providers:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           name:
+ *                             type: string
+ *                             example: "gemini"
+ *                           model:
+ *                             type: string
+ *                             example: "gemini-2.5-flash"
+ *                           priced:
+ *                             type: boolean
+ *       401:
+ *         description: Missing or invalid admin token
+ */
+router.get('/usage/pricing', aiUsageController.getPricing);
+
+/**
+ * @swagger
+ * /api/admin/usage/reports/models:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: AI spend per model
+ *     description: Calls, tokens, estimated cost and average latency per provider and upstream model, most expensive first.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/RateLimitReportDays'
+ *       - $ref: '#/components/parameters/RateLimitReportFeature'
+ *       - $ref: '#/components/parameters/AIUsageReportModel'
+ *     responses:
+ *       200:
+ *         description: AI usage report retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     days:
+ *                       type: integer
+ *                       example: 30
+ *                     feature:
+ *                       type: string
+ *                       nullable: true
+ *                     model:
+ *                       type: string
+ *                       nullable: true
+ *                     rows:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           model_used:
+ *                             type: string
+ *                             example: "gemini"
+ *                           provider_model:
+ *                             type: string
+ *                             example: "gemini-2.5-flash"
+ *                           calls:
+ *                             type: integer
+ *                           prompt_tokens:
+ *                             type: integer
+ *                           completion_tokens:
+ *                             type: integer
+ *                           cost_usd:
+ *                             type: number
+ *                           avg_latency_ms:
+ *                             type: integer
+ *       400:
+ *         description: Invalid report parameters
+ *       401:
+ *         description: Missing or invalid admin token
+ */
+router.get('/usage/reports/models', aiUsageController.getModelSpend);
+
+/**
+ * @swagger
+ * /api/admin/usage/reports/features:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: AI spend per feature
+ *     description: |
+ *       Calls, tokens, estimated cost and average latency per feature.
+ *       Follow-up chat messages count as travel_questions.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/RateLimitReportDays'
+ *       - $ref: '#/components/parameters/AIUsageReportModel'
+ *     responses:
+ *       200:
+ *         description: AI usage report retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     days:
+ *                       type: integer
+ *                     model:
+ *                       type: string
+ *                       nullable: true
+ *                     rows:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           feature:
+ *                             type: string
+ *                             enum: [travel_questions, itineraries]
+ *                           calls:
+ *                             type: integer
+ *                           prompt_tokens:
+ *                             type: integer
+ *                           completion_tokens:
+ *                             type: integer
+ *                           cost_usd:
+ *                             type: number
+ *                           avg_latency_ms:
+ *                             type: integer
+ *       400:
+ *         description: Invalid report parameters
+ *       401:
+ *         description: Missing or invalid admin token
+ */
+router.get('/usage/reports/features', aiUsageController.getFeatureSpend);
+
+/**
+ * @swagger
+ * /api/admin/usage/reports/daily:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: AI spend per day
+ *     description: Calls, tokens and estimated cost per day and feature. Days without calls are left out.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/RateLimitReportDays'
+ *       - $ref: '#/components/parameters/RateLimitReportFeature'
+ *       - $ref: '#/components/parameters/AIUsageReportModel'
+ *     responses:
+ *       200:
+ *         description: AI usage report retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     days:
+ *                       type: integer
+ *                     feature:
+ *                       type: string
+ *                       nullable: true
+ *                     model:
+ *                       type: string
+ *                       nullable: true
+ *                     rows:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           day:
+ *                             type: string
+ *                             format: date
+ *                           feature:
+ *                             type: string
+ *                             enum: [travel_questions, itineraries]
+ *                           calls:
+ *                             type: integer
+ *                           prompt_tokens:
+ *                             type: integer
+ *                           completion_tokens:
+ *                             type: integer
+ *                           cost_usd:
+ *                             type: number
+ *       400:
+ *         description: Invalid report parameters
+ *       401:
+ *         description: Missing or invalid admin token
+ */
+router.get('/usage/reports/daily', aiUsageController.getDailySpend);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AIBudget:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 1
+ *         scope:
+ *           type: string
+ *           enum: [provider, feature]
+ *         target:
+ *           type: string
+ *           description: Provider name (scope provider) or feature (scope feature)
+ *           example: "gemini"
+ *         period:
+ *           type: string
+ *           enum: [daily, monthly]
+ *         limit_usd:
+ *           type: number
+ *           example: 5
+ *         reset_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Spend before this moment does not count towards the current period
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/admin/budgets:
+ *   get:
+ *     tags:
+ *       - Admin
+ *     summary: AI budgets and their burn
+ *     description: |
+ *       Every budget with its spend in the current period (calendar day or month, or since its last reset).
+ *       Budgets are `ok` below `degrade_at` of their limit, `degraded` until the limit (requests go to the cheapest
+ *       providers first) and `exceeded` once it is reached (the calls they cover are refused with BUDGET_EXCEEDED_ERROR).
+ *     security:
+ *       - adminToken: []
+ *     responses:
+ *       200:
+ *         description: AI budgets retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     budgets:
+ *                       type: array
+ *                       items:
+ *                         allOf:
+ *                           - $ref: '#/components/schemas/AIBudget'
+ *                           - type: object
+ *                             properties:
+ *                               period_start:
+ *                                 type: string
+ *                                 format: date-time
+ *                               spent_usd:
+ *                                 type: number
+ *                                 example: 4.2
+ *                               remaining_usd:
+ *                                 type: number
+ *                                 example: 0.8
+ *                               used:
+ *                                 type: number
+ *                                 example: 0.84
+ *                               state:
+ *                                 type: string
+ *                                 enum: [ok, degraded, exceeded]
+ *                     degrade_at:
+ *                       type: number
+ *                       example: 0.8
+ *       401:
+ *         description: Missing or invalid admin token
+ *   put:
+ *     tags:
+ *       - Admin
+ *     summary: Set an AI budget
+ *     description: Creates the budget of the scope, target and period, or changes its limit (raising an exceeded budget lets its calls through again).
+ *     security:
+ *       - adminToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - scope
+ *               - target
+ *               - period
+ *               - limit_usd
+ *             properties:
+ *               scope:
+ *                 type: string
+ *                 enum: [provider, feature]
+ *               target:
+ *                 type: string
+ *                 example: "gemini"
+ *               period:
+ *                 type: string
+ *                 enum: [daily, monthly]
+ *               limit_usd:
+ *                 type: number
+ *                 minimum: 0
+ *                 exclusiveMinimum: true
+ *                 example: 5
+ *     responses:
+ *       200:
+ *         description: AI budget set successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     budget:
+ *                       $ref: '#/components/schemas/AIBudget'
+ *       400:
+ *         description: Invalid request data or unknown provider
+ *       401:
+ *         description: Missing or invalid admin token
+ */
+router.get('/budgets', aiBudgetController.listBudgets);
+router.put('/budgets', aiBudgetController.setBudget);
+
+/**
+ * @swagger
+ * /api/admin/budgets/{id}/reset:
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Reset an AI budget
+ *     description: Starts the current period over, so the spend made so far no longer counts towards the limit.
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: AI budget reset successfully
+ *       400:
+ *         description: Invalid budget ID
+ *       401:
+ *         description: Missing or invalid admin token
+ *       404:
+ *         description: AI budget not found
+ */
+router.post('/budgets/:id/reset', aiBudgetController.resetBudget);
+
+/**
+ * @swagger
+ * /api/admin/budgets/{id}:
+ *   delete:
+ *     tags:
+ *       - Admin
+ *     summary: Delete an AI budget
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: AI budget deleted successfully
+ *       400:
+ *         description: Invalid budget ID
+ *       401:
+ *         description: Missing or invalid admin token
+ *       404:
+ *         description: AI budget not found
+ */
+router.delete('/budgets/:id', aiBudgetController.deleteBudget);
+
+export { router as adminRoutes };
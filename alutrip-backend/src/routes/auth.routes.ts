@@ -0,0 +1,190 @@
+import { Router } from 'express';
+import { authController } from '../controllers/auth.controller';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * Auth Routes (user accounts)
+ *
+ * Registration and login return a bearer token; requests sending it as
+ * `Authorization: Bearer <token>` are linked to the user
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     User:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 12
+ *         email:
+ *           type: string
+ *           format: email
+ *           example: "maria@example.com"
+ *         name:
+ *           type: string
+ *           nullable: true
+ *           example: "Maria"
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *         last_login_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *
+ *     AuthResult:
+ *       type: object
+ *       properties:
+ *         user:
+ *           $ref: '#/components/schemas/User'
+ *         token:
+ *           type: string
+ *           description: Bearer token for the Authorization header
+ *         expires_at:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/auth/register:
+ *   post:
+ *     tags:
+ *       - Auth
+ *     summary: Create a user account
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: "maria@example.com"
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *                 maxLength: 128
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *                 example: "Maria"
+ *     responses:
+ *       201:
+ *         description: User registered and signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 message:
+ *                   type: string
+ *                   example: "User registered successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthResult'
+ *       400:
+ *         description: Invalid request data
+ *       409:
+ *         description: Email is already registered
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/register', authController.register);
+
+/**
+ * @swagger
+ * /api/auth/login:
+ *   post:
+ *     tags:
+ *       - Auth
+ *     summary: Log in with email and password
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: "maria@example.com"
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Logged in successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 message:
+ *                   type: string
+ *                   example: "Logged in successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthResult'
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Invalid email or password
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/login', authController.login);
+
+/**
+ * @swagger
+ * /api/auth/me:
+ *   get:
+ *     tags:
+ *       - Auth
+ *     summary: Get the authenticated user
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: User retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     user:
+ *                       $ref: '#/components/schemas/User'
+ *       401:
+ *         description: Missing, invalid or expired token
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/me', requireAuth, authController.getCurrentUser);
+
+export { router as authRoutes };
@@ -0,0 +1,252 @@
+import { Router } from 'express';
+import { chatController } from '../controllers/chat.controller';
+import { travelQuestionsRateLimit } from '../middleware/rate-limit';
+import { attachSession } from '../middleware/session';
+
+const router = Router();
+
+/**
+ * Chat Routes (multi-turn conversations on top of AluTrip Responde)
+ *
+ * Follow-up messages call the AI and share the travel questions rate limit
+ * No authentication required - conversations are addressed by ID or session
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ChatMessageRequest:
+ *       type: object
+ *       required:
+ *         - message
+ *       properties:
+ *         message:
+ *           type: string
+ *           minLength: 1
+ *           maxLength: 1000
+ *           description: Follow-up message about the original travel question
+ *           example: "Can you tell me more about the cherry blossom season?"
+ *         model:
+ *           type: string
+ *           description: AI model to use (see GET /api/travel/models). Defaults to the model that answered the original question
+ *           example: "groq"
+ *
+ *     ChatMessageResponse:
+ *       type: object
+ *       properties:
+ *         conversation_id:
+ *           type: integer
+ *           example: 789
+ *         session_id:
+ *           type: string
+ *           description: Session the conversation belongs to (use it to fetch history)
+ *           example: "sess_1705314600000_k3j5h2g1a"
+ *         message_id:
+ *           type: integer
+ *           example: 101
+ *         response:
+ *           type: string
+ *           example: "Cherry blossom season in Japan typically occurs..."
+ *         model_used:
+ *           type: string
+ *           example: "groq"
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *           example: "2024-01-15T10:30:00Z"
+ *
+ *     Conversation:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 789
+ *         session_id:
+ *           type: string
+ *           example: "sess_1705314600000_k3j5h2g1a"
+ *         initial_question_id:
+ *           type: integer
+ *           example: 123
+ *         title:
+ *           type: string
+ *           example: "What's the best time to visit Japan?"
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *         messages:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: integer
+ *                 example: 100
+ *               type:
+ *                 type: string
+ *                 enum: [question, response]
+ *               content:
+ *                 type: string
+ *               model_used:
+ *                 type: string
+ *               created_at:
+ *                 type: string
+ *                 format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/chat/continue/{questionId}:
+ *   post:
+ *     tags:
+ *       - Chat
+ *     summary: Continue a conversation from a travel question
+ *     description: Sends a follow-up message about an answered travel question. The first call creates the conversation seeded with the original question and answer; prior turns are passed to the AI as context so answers can be refined instead of re-asked.
+ *     parameters:
+ *       - in: path
+ *         name: questionId
+ *         required: true
+ *         description: Original travel question ID
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           example: 123
+ *       - $ref: '#/components/parameters/SessionHeader'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ChatMessageRequest'
+ *     responses:
+ *       200:
+ *         description: Conversation continued successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 message:
+ *                   type: string
+ *                   example: "Conversation continued successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/ChatMessageResponse'
+ *       400:
+ *         description: Invalid request data
+ *       404:
+ *         description: Travel question not found, or asked by another user or session
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       503:
+ *         description: AI service temporarily unavailable
+ */
+router.post('/continue/:questionId', attachSession, travelQuestionsRateLimit, chatController.continueConversation);
+
+/**
+ * @swagger
+ * /api/chat/history:
+ *   get:
+ *     tags:
+ *       - Chat
+ *     summary: Get the conversation history of the caller
+ *     description: Conversations of the authenticated user and of the session of the x-session-id header
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionHeader'
+ *     responses:
+ *       200:
+ *         description: Conversation history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 message:
+ *                   type: string
+ *                   example: "Conversation history retrieved successfully"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     session_id:
+ *                       type: string
+ *                       nullable: true
+ *                     conversations:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Conversation'
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/history', attachSession, chatController.getHistory);
+
+/**
+ * @swagger
+ * /api/chat/conversation/{id}:
+ *   get:
+ *     tags:
+ *       - Chat
+ *     summary: Get a conversation with its messages
+ *     description: Only conversations of the authenticated user or of the session of the x-session-id header are served
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - $ref: '#/components/parameters/SessionHeader'
+ *     responses:
+ *       200:
+ *         description: Conversation retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 message:
+ *                   type: string
+ *                   example: "Conversation retrieved successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/Conversation'
+ *       400:
+ *         description: Invalid conversation ID
+ *       404:
+ *         description: Conversation not found, or started by another user or session
+ *   delete:
+ *     tags:
+ *       - Chat
+ *     summary: Delete a conversation
+ *     description: |
+ *       Deletes a conversation of the authenticated user or of the session of the x-session-id header,
+ *       with all its messages. The original travel question is kept.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - $ref: '#/components/parameters/SessionHeader'
+ *     responses:
+ *       200:
+ *         description: Conversation deleted successfully
+ *       400:
+ *         description: Invalid conversation ID
+ *       404:
+ *         description: Conversation not found, or started by another user or session
+ */
+router.get('/conversation/:id', attachSession, chatController.getConversation);
+router.delete('/conversation/:id', attachSession, chatController.deleteConversation);
+
+export { router as chatRoutes };
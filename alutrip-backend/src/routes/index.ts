@@ -2,20 +2,34 @@ import { Router } from 'express';
 import { healthRoutes } from './health.routes';
 import { travelRoutes } from './travel.routes';
 import { itineraryRoutes } from './itinerary.routes';
+import { chatRoutes } from './chat.routes';
 import { debugRoutes } from './debug.routes';
+import { authRoutes } from './auth.routes';
+import { sessionRoutes } from './session.routes';
+import { adminRoutes } from './admin.routes';
+import { rateLimitRoutes } from './rate-limit.routes';
+import { authenticate } from '../middleware/auth';
+import { authenticateApiKey } from '../middleware/api-key';
 
 const router = Router();
 
 router.use('/health', healthRoutes);
 
+// Links requests with a bearer token to the user; anonymous requests pass through
+router.use('/api', authenticate);
+
+// Programmatic clients with an x-api-key get the quotas of their key's tier
+router.use('/api', authenticateApiKey);
+
+router.use('/api/auth', authRoutes);
 router.use('/api/travel', travelRoutes);
 router.use('/api/itinerary', itineraryRoutes);
+router.use('/api/chat', chatRoutes);
+router.use('/api/session', sessionRoutes);
+router.use('/api/limits', rateLimitRoutes);
+router.use('/api/admin', adminRoutes);
 
 router.use('/debug', debugRoutes);
 
-// Future API routes (to be added in future phases)
-// router.use('/api/limits', rateLimitRoutes);
-// router.use('/api/chat', chatRoutes);
-
 export { router as routes };
 
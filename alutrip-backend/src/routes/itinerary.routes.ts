@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import { ItineraryController } from '../controllers/itinerary.controller';
+import { requireAuth } from '../middleware/auth';
+import { attachSession } from '../middleware/session';
 
 /**
  * Itinerary Routes
@@ -11,7 +13,7 @@ const router = Router();
  * @swagger
  * components:
  *   schemas:
- *     ItineraryRequest:
+ *     ItineraryLeg:
  *       type: object
  *       required:
  *         - destination
@@ -22,18 +24,46 @@ const router = Router();
  *           type: string
  *           minLength: 2
  *           maxLength: 255
- *           description: Travel destination
+ *           description: City of this leg
+ *           example: "Lisboa"
+ *         start_date:
+ *           type: string
+ *           format: date
+ *           description: Arrival date in YYYY-MM-DD format
+ *           example: "2024-04-15"
+ *         end_date:
+ *           type: string
+ *           format: date
+ *           description: Departure date in YYYY-MM-DD format (the next leg may start on this day)
+ *           example: "2024-04-18"
+ *
+ *     ItineraryRequest:
+ *       type: object
+ *       description: Send destination, start_date and end_date for a single destination, or legs for a multi-destination trip
+ *       properties:
+ *         destination:
+ *           type: string
+ *           minLength: 2
+ *           maxLength: 255
+ *           description: Travel destination. Derived from the legs (joined with " - ") when legs are given
  *           example: "Tokyo, Japan"
  *         start_date:
  *           type: string
  *           format: date
- *           description: Start date in YYYY-MM-DD format
+ *           description: Start date in YYYY-MM-DD format. Derived from the first leg when legs are given
  *           example: "2024-04-15"
  *         end_date:
  *           type: string
  *           format: date
- *           description: End date in YYYY-MM-DD format
+ *           description: End date in YYYY-MM-DD format. Derived from the last leg when legs are given
  *           example: "2024-04-22"
+ *         legs:
+ *           type: array
+ *           minItems: 2
+ *           maxItems: 6
+ *           description: Ordered legs of a multi-destination trip; legs cannot overlap
+ *           items:
+ *             $ref: '#/components/schemas/ItineraryLeg'
  *         budget:
  *           type: number
  *           minimum: 100
@@ -48,6 +78,10 @@ const router = Router();
  *             maxLength: 50
  *           description: Array of interests
  *           example: ["culture", "food", "temples"]
+ *         model:
+ *           type: string
+ *           description: AI model to use (see GET /api/travel/models). Defaults to the first available model of the itinerary failover chain
+ *           example: "gemini"
  * 
  *     ItineraryResponse:
  *       type: object
@@ -103,6 +137,8 @@ const router = Router();
  *     description: Creates a new itinerary request that will be processed asynchronously. Limited to 5 requests per 24 hours per IP.
  *     tags:
  *       - Itinerary Planning
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionHeader'
  *     requestBody:
  *       required: true
  *       content:
@@ -158,7 +194,7 @@ const router = Router();
  *       500:
  *         description: Internal server error
  */
-router.post('/create', ItineraryController.createItinerary);
+router.post('/create', attachSession, ItineraryController.createItinerary);
 
 /**
  * Process stuck itineraries that are pending for too long
@@ -171,7 +207,7 @@ router.post('/process-stuck', ItineraryController.processStuckItineraries);
  * POST /api/itinerary/create-direct
  * This endpoint bypasses Bull queue and uses direct processing to test fallback
  */
-router.post('/create-direct', ItineraryController.createItineraryDirect);
+router.post('/create-direct', attachSession, ItineraryController.createItineraryDirect);
 
 /**
  * @swagger
@@ -214,6 +250,43 @@ router.post('/create-direct', ItineraryController.createItineraryDirect);
  */
 router.get('/:id/status', ItineraryController.getItineraryStatus);
 
+/**
+ * @swagger
+ * /api/itinerary/{id}/events:
+ *   get:
+ *     summary: Stream the generation progress of an itinerary
+ *     description: |
+ *       Server-Sent Events named progress, each with the itinerary_id, the stage (queued, generating_content,
+ *       generating_pdf, completed or failed), the percent done and, while content is generated, the chunk counts.
+ *       The current stage is sent first and the stream ends after the completed or failed event.
+ *       A failed attempt with retries left goes back to queued.
+ *     tags:
+ *       - Itinerary Planning
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Itinerary ID
+ *         example: 456
+ *     responses:
+ *       200:
+ *         description: Event stream with the generation progress
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: "event: progress\ndata: {\"itinerary_id\":456,\"stage\":\"generating_content\",\"percent\":45,\"completed_chunks\":2,\"total_chunks\":4}\n\n"
+ *       400:
+ *         description: Invalid itinerary ID
+ *       404:
+ *         description: Itinerary not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/events', ItineraryController.streamProgress);
+
 /**
  * @swagger
  * /api/itinerary/{id}/download:
@@ -249,6 +322,432 @@ router.get('/:id/status', ItineraryController.getItineraryStatus);
  */
 router.get('/:id/download', ItineraryController.downloadItinerary);
 
+/**
+ * @swagger
+ * /api/itinerary/{id}/days/{n}/regenerate:
+ *   post:
+ *     summary: Rewrite a single day of a completed itinerary
+ *     description: |
+ *       Asks the AI to rewrite one day, optionally following feedback, keeps the other days, rebuilds the PDF
+ *       and stores the change as a revision. Only completed itineraries with structured content can be edited,
+ *       by the user or session that created them.
+ *       Limited to ITINERARY_DAY_REGENERATION_LIMIT requests per 24 hours per API key, user or IP,
+ *       separate from new itineraries.
+ *     tags:
+ *       - Itinerary Planning
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionHeader'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Itinerary ID
+ *         example: 456
+ *       - in: path
+ *         name: n
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Day number (starting at 1)
+ *         example: 2
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               feedback:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: What to change in the day
+ *                 example: "Menos museus, mais praias"
+ *               model:
+ *                 type: string
+ *                 description: AI model to use. Defaults to the model chosen for the itinerary
+ *                 example: "groq"
+ *     responses:
+ *       200:
+ *         description: Day regenerated and PDF rebuilt
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 message:
+ *                   type: string
+ *                   example: "Day 2 regenerated successfully"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: integer
+ *                       example: 456
+ *                     day:
+ *                       type: object
+ *                       description: The new structured day
+ *                     revision_number:
+ *                       type: integer
+ *                       example: 1
+ *                     model_used:
+ *                       type: string
+ *                       example: "groq"
+ *                     pdf_filename:
+ *                       type: string
+ *       400:
+ *         description: Invalid parameters or feedback
+ *       404:
+ *         description: Itinerary or day not found, or created by another user or session
+ *       409:
+ *         description: Itinerary not completed or without structured content
+ *       429:
+ *         description: Rate limit exceeded
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/days/:n/regenerate', attachSession, ItineraryController.regenerateDay);
+
+/**
+ * @swagger
+ * /api/itinerary/{id}/revisions:
+ *   get:
+ *     summary: List the day revisions of an itinerary
+ *     description: Returns every regenerated day with its previous and new content, newest first
+ *     tags:
+ *       - Itinerary Planning
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Itinerary ID
+ *         example: 456
+ *     responses:
+ *       200:
+ *         description: Revisions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: integer
+ *                     revisions:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           revision_number:
+ *                             type: integer
+ *                           day_number:
+ *                             type: integer
+ *                           feedback:
+ *                             type: string
+ *                             nullable: true
+ *                           previous_day:
+ *                             type: object
+ *                           new_day:
+ *                             type: object
+ *                           model_used:
+ *                             type: string
+ *                           created_at:
+ *                             type: string
+ *                             format: date-time
+ *                     total:
+ *                       type: integer
+ *       400:
+ *         description: Invalid itinerary ID
+ *       404:
+ *         description: Itinerary not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/revisions', ItineraryController.getRevisions);
+
+/**
+ * @swagger
+ * /api/itinerary/{id}/versions:
+ *   get:
+ *     summary: List the versions of an itinerary
+ *     description: |
+ *       A version is stored every time the itinerary content is written: the first generation, each day
+ *       regeneration and each restore. Returns them without content, newest first.
+ *     tags:
+ *       - Itinerary Planning
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Itinerary ID
+ *         example: 456
+ *     responses:
+ *       200:
+ *         description: Versions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: integer
+ *                     versions:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           version_number:
+ *                             type: integer
+ *                           source:
+ *                             type: string
+ *                             enum: [generation, day_regeneration, restore]
+ *                           model_used:
+ *                             type: string
+ *                           prompt_parameters:
+ *                             type: object
+ *                             description: Request data plus the day, feedback or restored version behind it
+ *                           pdf_filename:
+ *                             type: string
+ *                             nullable: true
+ *                           created_at:
+ *                             type: string
+ *                             format: date-time
+ *                     total:
+ *                       type: integer
+ *       400:
+ *         description: Invalid itinerary ID
+ *       404:
+ *         description: Itinerary not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/versions', ItineraryController.getVersions);
+
+/**
+ * @swagger
+ * /api/itinerary/{id}/versions/diff:
+ *   get:
+ *     summary: Compare two versions of an itinerary
+ *     description: |
+ *       Lists the changed fields and, per day, the added and removed activities. Versions without structured
+ *       content are compared line by line instead. Defaults to the latest version against the previous one.
+ *     tags:
+ *       - Itinerary Planning
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Itinerary ID
+ *         example: 456
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: integer
+ *         description: Base version (defaults to the one before `to`)
+ *         example: 1
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: integer
+ *         description: Compared version (defaults to the latest)
+ *         example: 2
+ *     responses:
+ *       200:
+ *         description: Versions compared successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: integer
+ *                     from_version:
+ *                       type: integer
+ *                     to_version:
+ *                       type: integer
+ *                     changes:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           field:
+ *                             type: string
+ *                             example: "title"
+ *                           from: {}
+ *                           to: {}
+ *                     days:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           day:
+ *                             type: integer
+ *                           status:
+ *                             type: string
+ *                             enum: [added, removed, changed, unchanged]
+ *                           title:
+ *                             type: object
+ *                             properties:
+ *                               from:
+ *                                 type: string
+ *                               to:
+ *                                 type: string
+ *                           added_activities:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                           removed_activities:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                     text_changes:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           type:
+ *                             type: string
+ *                             enum: [added, removed]
+ *                           line:
+ *                             type: string
+ *       400:
+ *         description: Invalid parameters
+ *       404:
+ *         description: Versions to compare not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/versions/diff', ItineraryController.diffVersions);
+
+/**
+ * @swagger
+ * /api/itinerary/{id}/versions/{version}:
+ *   get:
+ *     summary: Get a version of an itinerary
+ *     description: Returns the content, model and prompt parameters of a single version
+ *     tags:
+ *       - Itinerary Planning
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Itinerary ID
+ *         example: 456
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Version number (starting at 1)
+ *         example: 1
+ *     responses:
+ *       200:
+ *         description: Version retrieved successfully
+ *       400:
+ *         description: Invalid parameters
+ *       404:
+ *         description: Version not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/versions/:version', ItineraryController.getVersion);
+
+/**
+ * @swagger
+ * /api/itinerary/{id}/versions/{version}/restore:
+ *   post:
+ *     summary: Restore a previous version of an itinerary
+ *     description: |
+ *       Makes the content of the version current again and records it as a new version. The version PDF is
+ *       reused while it exists, otherwise it is rebuilt. Only completed itineraries can be restored,
+ *       by the user or session that created them.
+ *     tags:
+ *       - Itinerary Planning
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionHeader'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Itinerary ID
+ *         example: 456
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Version number to restore
+ *         example: 1
+ *     responses:
+ *       200:
+ *         description: Version restored
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 message:
+ *                   type: string
+ *                   example: "Version 1 restored successfully"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: integer
+ *                     version_number:
+ *                       type: integer
+ *                       example: 3
+ *                     restored_from:
+ *                       type: integer
+ *                       example: 1
+ *                     model_used:
+ *                       type: string
+ *                     pdf_filename:
+ *                       type: string
+ *                       nullable: true
+ *       400:
+ *         description: Invalid parameters
+ *       404:
+ *         description: Itinerary or version not found, or created by another user or session
+ *       409:
+ *         description: Itinerary not completed
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/versions/:version/restore', attachSession, ItineraryController.restoreVersion);
+
 /**
  * @swagger
  * /api/itinerary/list:
@@ -396,8 +895,10 @@ router.get('/stats', ItineraryController.getStats);
  * @swagger
  * /api/itinerary/history:
  *   get:
- *     summary: Get client itinerary history
- *     description: Returns the itinerary history for the current client IP address
+ *     summary: Get the user's itinerary history
+ *     description: Returns the itineraries requested by the authenticated user
+ *     security:
+ *       - bearerAuth: []
  *     tags:
  *       - Itinerary Planning
  *     parameters:
@@ -418,7 +919,7 @@ router.get('/stats', ItineraryController.getStats);
  *         description: Number of itineraries to skip
  *     responses:
  *       200:
- *         description: Client history retrieved successfully
+ *         description: User history retrieved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -429,13 +930,13 @@ router.get('/stats', ItineraryController.getStats);
  *                   example: "success"
  *                 message:
  *                   type: string
- *                   example: "Client itinerary history retrieved successfully"
+ *                   example: "User itinerary history retrieved successfully"
  *                 data:
  *                   type: object
  *                   properties:
- *                     client_ip:
- *                       type: string
- *                       example: "192.168.1.100"
+ *                     user_id:
+ *                       type: integer
+ *                       example: 12
  *                     itineraries:
  *                       type: array
  *                       items:
@@ -457,9 +958,107 @@ router.get('/stats', ItineraryController.getStats);
  *                           example: false
  *       400:
  *         description: Invalid query parameters
+ *       401:
+ *         description: Missing, invalid or expired token
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/history', requireAuth, ItineraryController.getUserHistory);
+
+/**
+ * @swagger
+ * /api/itinerary/{id}:
+ *   get:
+ *     summary: Get a full itinerary
+ *     description: |
+ *       Returns the itinerary with the raw AI text and, when the AI output passed schema validation,
+ *       the structured content (days, activities, lodging options and budget breakdown).
+ *       structured_content is null when every generation attempt returned malformed JSON.
+ *     tags:
+ *       - Itinerary Planning
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Itinerary ID
+ *         example: 456
+ *     responses:
+ *       200:
+ *         description: Itinerary retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 message:
+ *                   type: string
+ *                   example: "Itinerary retrieved successfully"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: integer
+ *                       example: 456
+ *                     destination:
+ *                       type: string
+ *                       example: "Lisboa, Portugal"
+ *                     legs:
+ *                       type: array
+ *                       nullable: true
+ *                       description: Legs of a multi-destination trip, null for a single destination
+ *                       items:
+ *                         $ref: '#/components/schemas/ItineraryLeg'
+ *                     processing_status:
+ *                       type: string
+ *                       enum: [pending, processing, completed, failed]
+ *                     model_used:
+ *                       type: string
+ *                       example: "groq"
+ *                     generated_content:
+ *                       type: string
+ *                     structured_content:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         title:
+ *                           type: string
+ *                         introduction:
+ *                           type: string
+ *                         practical_info:
+ *                           type: object
+ *                         days:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                         lodging_options:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                         transfers:
+ *                           type: array
+ *                           description: Recommended transfer for each change of leg (multi-destination trips only)
+ *                           items:
+ *                             type: object
+ *                         budget:
+ *                           type: object
+ *                         extra_tips:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                     pdf_available:
+ *                       type: boolean
+ *       400:
+ *         description: Invalid itinerary ID
+ *       404:
+ *         description: Itinerary not found
  *       500:
  *         description: Internal server error
  */
-router.get('/history', ItineraryController.getClientHistory);
+router.get('/:id', ItineraryController.getItineraryById);
 
 export { router as itineraryRoutes };
@@ -0,0 +1,89 @@
+import { Router } from 'express';
+import { rateLimitController } from '../controllers/rate-limit.controller';
+
+const router = Router();
+
+/**
+ * Rate Limit Routes
+ *
+ * Read-only, so checking the quota does not use it up
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     RateLimitInfo:
+ *       type: object
+ *       properties:
+ *         used:
+ *           type: integer
+ *           example: 2
+ *         limit:
+ *           type: integer
+ *           example: 5
+ *         remaining:
+ *           type: integer
+ *           example: 3
+ *         reset_time:
+ *           type: string
+ *           format: date-time
+ *           description: When the window resets; the current time while nothing was used
+ *
+ *     RateLimitStatus:
+ *       type: object
+ *       properties:
+ *         identity:
+ *           type: object
+ *           description: Whose requests are counted, an IP address or an API key
+ *           properties:
+ *             type:
+ *               type: string
+ *               enum: [ip, api_key]
+ *             ip:
+ *               type: string
+ *               example: "203.0.113.7"
+ *             api_key_id:
+ *               type: integer
+ *             tier:
+ *               type: string
+ *               enum: [basic, pro, internal]
+ *         limits:
+ *           type: object
+ *           properties:
+ *             travel_questions:
+ *               $ref: '#/components/schemas/RateLimitInfo'
+ *             itineraries:
+ *               $ref: '#/components/schemas/RateLimitInfo'
+ */
+
+/**
+ * @swagger
+ * /api/limits:
+ *   get:
+ *     tags:
+ *       - Rate Limits
+ *     summary: Get the remaining quota per feature
+ *     description: Counted per API key when x-api-key is sent, per IP address otherwise.
+ *     security:
+ *       - {}
+ *       - apiKey: []
+ *     responses:
+ *       200:
+ *         description: Rate limits retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   $ref: '#/components/schemas/RateLimitStatus'
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', rateLimitController.getLimits);
+
+export { router as rateLimitRoutes };
@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { sessionController } from '../controllers/session.controller';
+import { attachSession } from '../middleware/session';
+
+const router = Router();
+
+/**
+ * Session Routes (anonymous sessions)
+ *
+ * Sessions are issued by the server in the X-Session-Id response header of the
+ * endpoints that create questions, itineraries and conversations
+ */
+
+/**
+ * @swagger
+ * /api/session:
+ *   get:
+ *     tags:
+ *       - Session
+ *     summary: Get the current session and its history
+ *     description: |
+ *       Returns the session of the x-session-id header with the travel questions and itineraries created in it, oldest first.
+ *
+ *       Without a valid token a new, empty session is started and its token returned in the X-Session-Id response header.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionHeader'
+ *     responses:
+ *       200:
+ *         description: Session history retrieved successfully
+ *         headers:
+ *           X-Session-Id:
+ *             description: Token to send as x-session-id on the next requests
+ *             schema:
+ *               type: string
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 message:
+ *                   type: string
+ *                   example: "Session history retrieved successfully"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     session:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                           format: uuid
+ *                         created_at:
+ *                           type: string
+ *                           format: date-time
+ *                         expires_at:
+ *                           type: string
+ *                           format: date-time
+ *                     questions:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/TravelQuestionResponse'
+ *                     itineraries:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: integer
+ *                           destination:
+ *                             type: string
+ *                           start_date:
+ *                             type: string
+ *                             format: date
+ *                           end_date:
+ *                             type: string
+ *                             format: date
+ *                           processing_status:
+ *                             type: string
+ *                             enum: [pending, processing, completed, failed]
+ *                           created_at:
+ *                             type: string
+ *                             format: date-time
+ *                           completed_at:
+ *                             type: string
+ *                             format: date-time
+ *                             nullable: true
+ *                           pdf_available:
+ *                             type: boolean
+ *       500:
+ *         description: Internal server error
+ *       503:
+ *         description: Sessions are temporarily unavailable (Redis is down)
+ */
+router.get('/', attachSession, sessionController.getSession);
+
+export { router as sessionRoutes };
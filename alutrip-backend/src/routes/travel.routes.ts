@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { travelController } from '../controllers/travel.controller';
 import { travelQuestionsRateLimit } from '../middleware/rate-limit';
+import { requireAuth } from '../middleware/auth';
+import { attachSession } from '../middleware/session';
 
 const router = Router();
 
@@ -8,7 +10,7 @@ const router = Router();
  * Travel Q&A Routes (AluTrip Responde)
  * 
  * All endpoints are rate limited to 5 requests per 24 hours per IP
- * No authentication required - open access travel assistance
+ * No authentication required - open access travel assistance (history needs a signed-in user)
  */
 
 const travelRateLimit = travelQuestionsRateLimit;
@@ -31,8 +33,7 @@ const travelRateLimit = travelQuestionsRateLimit;
  *           example: "What's the best time to visit Japan?"
  *         model:
  *           type: string
- *           enum: [groq, gemini]
- *           description: AI model to use for processing
+ *           description: AI model to use for processing. Any name listed by GET /api/travel/models
  *           example: "groq"
  *     
  *     TravelQuestionResponse:
@@ -52,7 +53,6 @@ const travelRateLimit = travelQuestionsRateLimit;
  *           example: "The best time to visit Japan is during spring (March to May)..."
  *         model_used:
  *           type: string
- *           enum: [groq, gemini]
  *           description: AI model used for processing
  *           example: "groq"
  *         created_at:
@@ -60,6 +60,13 @@ const travelRateLimit = travelQuestionsRateLimit;
  *           format: date-time
  *           description: When the question was processed
  *           example: "2024-01-15T10:30:00Z"
+ *         cached:
+ *           type: boolean
+ *           description: Only on new answers; true when the answer came from the response cache or a similar question
+ *           example: false
+ *         similar_question_id:
+ *           type: integer
+ *           description: Only when the answer was reused from a semantically close question (semantic cache)
  *     
  *     ModelHealth:
  *       type: object
@@ -109,6 +116,8 @@ const travelRateLimit = travelQuestionsRateLimit;
  *       - Travel Q&A
  *     summary: Submit a travel question
  *     description: Submit a travel question and receive an AI-generated response using either Groq or Gemini models. The system includes guardrails to ensure only travel-related questions are answered - non-travel questions will receive a polite decline response.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionHeader'
  *     requestBody:
  *       required: true
  *       content:
@@ -227,7 +236,46 @@ const travelRateLimit = travelQuestionsRateLimit;
  *                 data:
  *                   type: object
  */
-router.post('/ask', travelRateLimit, travelController.askQuestion);
+router.post('/ask', attachSession, travelRateLimit, travelController.askQuestion);
+
+/**
+ * @swagger
+ * /api/travel/ask/stream:
+ *   post:
+ *     tags:
+ *       - Travel Q&A
+ *     summary: Submit a travel question and stream the answer
+ *     description: |
+ *       Streaming variant of /api/travel/ask. The answer is sent as Server-Sent Events while the AI model generates it, and the completed answer is stored once generation finishes.
+ *
+ *       Events:
+ *       - `token` - `{ "content": "..." }` with the next chunk of the answer
+ *       - `complete` - the same body /api/travel/ask returns, sent once the answer is stored
+ *       - `error` - an error body (same shape as the JSON errors) if processing fails after the stream opened
+ *
+ *       Validation and rate limit errors are returned as regular JSON responses before the stream opens.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionHeader'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TravelQuestionRequest'
+ *     responses:
+ *       200:
+ *         description: Event stream with the answer
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: "event: token\ndata: {\"content\":\"A melhor época\"}\n\nevent: complete\ndata: {\"status\":\"success\",\"message\":\"Travel question answered successfully\",\"data\":{...}}\n\n"
+ *       400:
+ *         description: Invalid request data
+ *       429:
+ *         description: Rate limit exceeded
+ */
+router.post('/ask/stream', attachSession, travelRateLimit, travelController.askQuestionStream);
 
 /**
  * @swagger
@@ -271,6 +319,66 @@ router.post('/ask', travelRateLimit, travelController.askQuestion);
  */
 router.get('/questions/:id', travelController.getQuestion);
 
+/**
+ * @swagger
+ * /api/travel/questions/{id}/related:
+ *   get:
+ *     tags:
+ *       - Travel Q&A
+ *     summary: Get related travel questions
+ *     description: |
+ *       Previously answered questions closest in meaning to the given question, most similar first.
+ *       Questions below RELATED_QUESTIONS_MIN_SIMILARITY are left out.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: Question ID
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           example: 123
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 20
+ *           default: 5
+ *     responses:
+ *       200:
+ *         description: Related questions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     questions:
+ *                       type: array
+ *                       items:
+ *                         allOf:
+ *                           - $ref: '#/components/schemas/TravelQuestionResponse'
+ *                           - type: object
+ *                             properties:
+ *                               similarity:
+ *                                 type: number
+ *                                 description: Cosine similarity, 1 for the same meaning
+ *                                 example: 0.8731
+ *       400:
+ *         description: Invalid question ID or limit
+ *       404:
+ *         description: Travel question not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/questions/:id/related', travelController.getRelatedQuestions);
+
 /**
  * @swagger
  * /api/travel/questions:
@@ -347,7 +455,7 @@ router.get('/questions', travelController.getRecentQuestions);
  *     tags:
  *       - Travel Q&A
  *     summary: Check AI models health
- *     description: Check the health and availability of AI models (Groq and Gemini)
+ *     description: Check the health and availability of every registered AI model
  *     responses:
  *       200:
  *         description: All AI models are healthy
@@ -365,10 +473,11 @@ router.get('/questions', travelController.getRecentQuestions);
  *                 data:
  *                   type: object
  *                   properties:
- *                     groq:
- *                       $ref: '#/components/schemas/ModelHealth'
- *                     gemini:
- *                       $ref: '#/components/schemas/ModelHealth'
+ *                     models:
+ *                       type: object
+ *                       description: Health keyed by model name
+ *                       additionalProperties:
+ *                         $ref: '#/components/schemas/ModelHealth'
  *                     overall:
  *                       type: string
  *                       enum: [healthy, partial, unhealthy]
@@ -382,6 +491,50 @@ router.get('/questions', travelController.getRecentQuestions);
  */
 router.get('/models/health', travelController.checkModelsHealth);
 
+/**
+ * @swagger
+ * /api/travel/models:
+ *   get:
+ *     tags:
+ *       - Travel Q&A
+ *     summary: List AI models
+ *     description: List the registered AI models in preference order, with their availability
+ *     responses:
+ *       200:
+ *         description: AI models retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 message:
+ *                   type: string
+ *                   example: "AI models retrieved successfully"
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       name:
+ *                         type: string
+ *                         example: "groq"
+ *                       label:
+ *                         type: string
+ *                         example: "Groq (Fast)"
+ *                       model:
+ *                         type: string
+ *                         example: "llama3-8b-8192"
+ *                       available:
+ *                         type: boolean
+ *                         example: true
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/models', travelController.getModels);
+
 /**
  * @swagger
  * /api/travel/stats:
@@ -417,8 +570,10 @@ router.get('/stats', travelController.getStats);
  *   get:
  *     tags:
  *       - Travel Q&A
- *     summary: Get client travel history
- *     description: Retrieve travel question history for the current client (based on IP address)
+ *     summary: Get the user's travel history
+ *     description: Retrieve the travel questions asked by the authenticated user
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: limit
@@ -439,7 +594,7 @@ router.get('/stats', travelController.getStats);
  *           example: 0
  *     responses:
  *       200:
- *         description: Client travel history retrieved successfully
+ *         description: User travel history retrieved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -450,7 +605,7 @@ router.get('/stats', travelController.getStats);
  *                   example: "success"
  *                 message:
  *                   type: string
- *                   example: "Client travel history retrieved successfully"
+ *                   example: "User travel history retrieved successfully"
  *                 data:
  *                   type: object
  *                   properties:
@@ -458,17 +613,19 @@ router.get('/stats', travelController.getStats);
  *                       type: array
  *                       items:
  *                         $ref: '#/components/schemas/TravelQuestionResponse'
- *                     clientIp:
- *                       type: string
- *                       example: "192.168.1.1"
+ *                     user_id:
+ *                       type: integer
+ *                       example: 12
  *                     total:
  *                       type: integer
  *                       example: 3
  *       400:
  *         description: Invalid query parameters
+ *       401:
+ *         description: Missing, invalid or expired token
  *       500:
  *         description: Internal server error
  */
-router.get('/history', travelController.getClientHistory);
+router.get('/history', requireAuth, travelController.getUserHistory);
 
 export { router as travelRoutes };
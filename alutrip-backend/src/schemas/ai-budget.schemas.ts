@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+const featureSchema = z.enum(['travel_questions', 'itineraries']);
+
+// Daily or monthly limit of a provider or feature; setting an existing budget changes its limit
+export const setAIBudgetSchema = z.object({
+  scope: z.enum(['provider', 'feature']),
+  target: z
+    .string({ required_error: 'Target is required' })
+    .trim()
+    .min(1, 'Target cannot be empty')
+    .max(100, 'Target must be less than 100 characters'),
+  period: z.enum(['daily', 'monthly']),
+  limit_usd: z
+    .number({ required_error: 'Limit is required', invalid_type_error: 'Limit must be a number' })
+    .positive('Limit must be greater than 0')
+    .max(1_000_000, 'Limit must be at most 1000000')
+}).refine(
+  data => data.scope !== 'feature' || featureSchema.safeParse(data.target).success,
+  { path: ['target'], message: 'Feature budgets must target travel_questions or itineraries' }
+);
+
+// Type exports for use in controllers
+export type SetAIBudgetInput = z.infer<typeof setAIBudgetSchema>;
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+// Period, feature and provider of the AI spend reports
+export const aiUsageReportQuerySchema = z.object({
+  days: z
+    .string()
+    .optional()
+    .transform((val: string | undefined) => val ? parseInt(val, 10) : 30)
+    .refine((val: number) => val >= 1 && val <= 365, 'Days must be between 1 and 365'),
+  feature: z
+    .enum(['travel_questions', 'itineraries'])
+    .optional(),
+  model: z
+    .string()
+    .trim()
+    .min(1, 'Model cannot be empty')
+    .max(100, 'Model must be less than 100 characters')
+    .optional()
+});
+
+// Type exports for use in controllers
+export type AIUsageReportQueryInput = z.infer<typeof aiUsageReportQuerySchema>;
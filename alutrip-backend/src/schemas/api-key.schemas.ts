@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { API_KEY_TIERS } from '../constants/api-key-tiers';
+import { ApiKeyTier } from '../types/api-key';
+
+export const createApiKeySchema = z.object({
+  name: z
+    .string({ required_error: 'Name is required' })
+    .trim()
+    .min(1, 'Name cannot be empty')
+    .max(100, 'Name must be less than 100 characters'),
+  tier: z
+    .string()
+    .refine(
+      (val: string): val is ApiKeyTier => (API_KEY_TIERS as string[]).includes(val),
+      `Tier must be one of: ${API_KEY_TIERS.join(', ')}`
+    )
+    .default('basic')
+});
+
+// Type exports for use in controllers
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+const emailSchema = z
+  .string({ required_error: 'Email is required' })
+  .trim()
+  .toLowerCase()
+  .email('Email must be a valid email address')
+  .max(255, 'Email must be less than 255 characters');
+
+export const registerSchema = z.object({
+  email: emailSchema,
+  password: z
+    .string({ required_error: 'Password is required' })
+    .min(8, 'Password must be at least 8 characters')
+    .max(128, 'Password must be less than 128 characters'),
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name cannot be empty')
+    .max(100, 'Name must be less than 100 characters')
+    .optional()
+});
+
+export const loginSchema = z.object({
+  email: emailSchema,
+  password: z
+    .string({ required_error: 'Password is required' })
+    .min(1, 'Password is required')
+});
+
+// Type exports for use in controllers
+export type RegisterInput = z.infer<typeof registerSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import { ItineraryDay, ItineraryOverview, StructuredItinerary } from '../types/travel';
+
+const timeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must use the HH:MM format');
+
+const costSchema = z
+  .number()
+  .min(0, 'Costs cannot be negative');
+
+const activitySchema = z.object({
+  period: z.enum(['morning', 'lunch', 'afternoon', 'dinner', 'evening']),
+  start_time: timeSchema,
+  end_time: timeSchema.optional(),
+  title: z.string().min(1, 'Activity title cannot be empty'),
+  description: z.string().min(1, 'Activity description cannot be empty'),
+  place: z.object({
+    name: z.string().min(1, 'Place name cannot be empty'),
+    address: z.string().optional()
+  }),
+  estimated_cost_usd: costSchema,
+  tips: z.string().optional()
+});
+
+const daySchema = z.object({
+  day: z.number().int().min(1, 'Day numbers start at 1'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Use YYYY-MM-DD'),
+  title: z.string().min(1, 'Day title cannot be empty'),
+  activities: z.array(activitySchema).min(1, 'Each day needs at least one activity'),
+  rainy_day_alternative: z.string().optional()
+});
+
+const lodgingOptionSchema = z.object({
+  name: z.string().min(1, 'Lodging name cannot be empty'),
+  category: z.enum(['budget', 'mid_range', 'luxury']),
+  neighborhood: z.string().min(1, 'Lodging neighborhood cannot be empty'),
+  price_per_night_usd: costSchema,
+  highlights: z.string(),
+  city: z.string().optional()
+});
+
+const transferSchema = z.object({
+  from: z.string().min(1, 'Transfer origin cannot be empty'),
+  to: z.string().min(1, 'Transfer destination cannot be empty'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Use YYYY-MM-DD'),
+  mode: z.enum(['train', 'bus', 'flight', 'car', 'ferry']),
+  duration: z.string().min(1, 'Transfer duration cannot be empty'),
+  estimated_cost_usd: costSchema,
+  recommendation: z.string().min(1, 'Transfer recommendation cannot be empty')
+});
+
+const budgetSchema = z.object({
+  currency: z.literal('USD'),
+  lodging: costSchema,
+  food: costSchema,
+  transport: costSchema,
+  attractions: costSchema,
+  other: costSchema.optional(),
+  total: costSchema,
+  saving_tips: z.array(z.string())
+});
+
+const practicalInfoSchema = z.object({
+  documentation: z.string(),
+  currency: z.string(),
+  transport: z.string(),
+  safety: z.string()
+});
+
+export const structuredItinerarySchema = z.object({
+  title: z.string().min(1, 'Title cannot be empty'),
+  introduction: z.string().min(1, 'Introduction cannot be empty'),
+  practical_info: practicalInfoSchema,
+  days: z.array(daySchema).min(1, 'The itinerary needs at least one day'),
+  lodging_options: z.array(lodgingOptionSchema).min(1, 'At least one lodging option is required'),
+  transfers: z.array(transferSchema).optional(),
+  budget: budgetSchema,
+  extra_tips: z.array(z.string())
+});
+
+// First pass of chunked generation: everything but the detailed days, plus a one-line plan per day
+export const itineraryOverviewSchema = z.object({
+  title: z.string().min(1, 'Title cannot be empty'),
+  introduction: z.string().min(1, 'Introduction cannot be empty'),
+  practical_info: practicalInfoSchema,
+  day_outline: z.array(z.object({
+    day: z.number().int().min(1, 'Day numbers start at 1'),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Use YYYY-MM-DD'),
+    title: z.string().min(1, 'Day title cannot be empty')
+  })).min(1, 'The outline needs at least one day'),
+  lodging_options: z.array(lodgingOptionSchema).min(1, 'At least one lodging option is required'),
+  transfers: z.array(transferSchema).optional(),
+  budget: budgetSchema,
+  extra_tips: z.array(z.string())
+});
+
+export const itineraryDaysChunkSchema = z.object({
+  days: z.array(daySchema).min(1, 'The chunk needs at least one day')
+});
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+export type StructuredItineraryParseResult = StructuredParseResult<StructuredItinerary>;
+
+/**
+ * Parse and validate JSON returned by the AI against a schema
+ * Models often wrap JSON in markdown fences or add a sentence around it, so only the outermost object is parsed
+ */
+function parseAIJson<T>(raw: string, schema: z.ZodTypeAny): StructuredParseResult<T> {
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    return { success: false, errors: ['Response does not contain a JSON object'] };
+  }
+
+  let json: unknown;
+
+  try {
+    json = JSON.parse(raw.slice(start, end + 1));
+  } catch (error) {
+    return { success: false, errors: [`Invalid JSON: ${(error as Error).message}`] };
+  }
+
+  const result = schema.safeParse(json);
+
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.errors.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    };
+  }
+
+  // Optional keys are omitted rather than set to undefined, so the parsed value matches the interface
+  return { success: true, data: result.data as T };
+}
+
+export function parseStructuredItinerary(raw: string): StructuredItineraryParseResult {
+  return parseAIJson<StructuredItinerary>(raw, structuredItinerarySchema);
+}
+
+export function parseItineraryOverview(raw: string): StructuredParseResult<ItineraryOverview> {
+  return parseAIJson<ItineraryOverview>(raw, itineraryOverviewSchema);
+}
+
+export function parseItineraryDaysChunk(raw: string): StructuredParseResult<{ days: ItineraryDay[] }> {
+  return parseAIJson<{ days: ItineraryDay[] }>(raw, itineraryDaysChunkSchema);
+}
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { PROMPT_TEMPLATE_VARIABLES, PROMPT_VARIABLE_PATTERN } from '../constants/prompt-templates';
+import { PromptTemplatePart } from '../types/prompt-template';
+
+const featureSchema = z.enum(['travel_questions', 'itineraries']);
+const localeSchema = z.enum(['pt-BR', 'en', 'es']);
+
+const weightSchema = z
+  .number({ invalid_type_error: 'Weight must be a number' })
+  .int('Weight must be an integer')
+  .min(0, 'Weight cannot be negative')
+  .max(1000, 'Weight must be at most 1000');
+
+const promptSchema = (name: string) => z
+  .string({ required_error: `${name} is required` })
+  .trim()
+  .min(1, `${name} cannot be empty`)
+  .max(50000, `${name} must be less than 50000 characters`);
+
+// New version of the prompts of a feature and locale; placeholders are checked against the feature's variables
+export const createPromptTemplateSchema = z.object({
+  feature: featureSchema,
+  locale: localeSchema,
+  system_prompt: promptSchema('System prompt'),
+  user_prompt: promptSchema('User prompt'),
+  weight: weightSchema.default(0),
+  description: z
+    .string()
+    .trim()
+    .max(255, 'Description must be less than 255 characters')
+    .optional()
+}).superRefine((data, ctx) => {
+  for (const part of ['system_prompt', 'user_prompt'] as PromptTemplatePart[]) {
+    const { required, optional } = PROMPT_TEMPLATE_VARIABLES[data.feature][part];
+    const used = new Set(Array.from(data[part].matchAll(PROMPT_VARIABLE_PATTERN), match => match[1]));
+
+    for (const name of used) {
+      if (name && !required.includes(name) && !optional.includes(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [part],
+          message: `Unknown variable {{${name}}}; available: ${[...required, ...optional].join(', ') || 'none'}`
+        });
+      }
+    }
+
+    for (const name of required) {
+      if (!used.has(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [part],
+          message: `Missing required variable {{${name}}}`
+        });
+      }
+    }
+  }
+});
+
+export const updatePromptTemplateSchema = z.object({
+  weight: weightSchema
+});
+
+export const promptTemplateListQuerySchema = z.object({
+  feature: featureSchema.optional(),
+  locale: localeSchema.optional()
+});
+
+// Period and feature of the A/B comparison report
+export const promptTemplateReportQuerySchema = z.object({
+  feature: featureSchema,
+  days: z
+    .string()
+    .optional()
+    .transform((val: string | undefined) => val ? parseInt(val, 10) : 30)
+    .refine((val: number) => val >= 1 && val <= 365, 'Days must be between 1 and 365')
+});
+
+// Type exports for use in controllers
+export type CreatePromptTemplateInput = z.infer<typeof createPromptTemplateSchema>;
+export type PromptTemplateListQueryInput = z.infer<typeof promptTemplateListQuerySchema>;
+export type PromptTemplateReportQueryInput = z.infer<typeof promptTemplateReportQuerySchema>;
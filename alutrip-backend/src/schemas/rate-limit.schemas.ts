@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+// Identity whose counters an admin inspects or resets: exactly one of ip or api_key_id
+export const rateLimitIdentityQuerySchema = z.object({
+  ip: z
+    .string()
+    .trim()
+    .min(1, 'IP cannot be empty')
+    .max(45, 'IP must be less than 45 characters')
+    .optional(),
+  api_key_id: z
+    .string()
+    .transform((val: string) => parseInt(val, 10))
+    .refine((val: number) => !isNaN(val) && val > 0, 'API key ID must be a positive number')
+    .optional()
+}).refine(
+  data => (data.ip === undefined) !== (data.api_key_id === undefined),
+  { message: 'Provide either ip or api_key_id', path: ['ip'] }
+);
+
+// Period and feature of the rate limit history reports
+export const rateLimitReportQuerySchema = z.object({
+  days: z
+    .string()
+    .optional()
+    .transform((val: string | undefined) => val ? parseInt(val, 10) : 30)
+    .refine((val: number) => val >= 1 && val <= 365, 'Days must be between 1 and 365'),
+  feature: z
+    .enum(['travel_questions', 'itineraries'])
+    .optional(),
+  limit: z
+    .string()
+    .optional()
+    .transform((val: string | undefined) => val ? parseInt(val, 10) : 10)
+    .refine((val: number) => val >= 1 && val <= 100, 'Limit must be between 1 and 100')
+});
+
+// Type exports for use in controllers
+export type RateLimitIdentityQueryInput = z.infer<typeof rateLimitIdentityQuerySchema>;
+export type RateLimitReportQueryInput = z.infer<typeof rateLimitReportQuerySchema>;
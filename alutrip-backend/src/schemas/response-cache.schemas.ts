@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+// Cached answers to invalidate: one question, every question of a model, or everything
+export const invalidateResponseCacheSchema = z.object({
+  question: z
+    .string()
+    .trim()
+    .min(1, 'Question cannot be empty')
+    .max(1000, 'Question must be less than 1000 characters')
+    .optional(),
+  model: z
+    .string()
+    .trim()
+    .min(1, 'Model cannot be empty')
+    .max(50, 'Model must be less than 50 characters')
+    .optional()
+});
+
+// Type exports for use in controllers
+export type InvalidateResponseCacheInput = z.infer<typeof invalidateResponseCacheSchema>;
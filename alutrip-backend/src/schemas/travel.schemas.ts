@@ -1,4 +1,32 @@
 import { z } from 'zod';
+import { config } from '../config/env';
+import { providerRegistry } from '../services/providers/registry';
+import { SUPPORTED_LOCALES, matchLocale } from '../locales';
+
+// Model names are validated against the provider registry, so new providers need no schema change
+const modelSchema = z
+  .string({ required_error: 'Model is required' })
+  .refine(
+    (model: string) => providerRegistry.has(model),
+    () => ({ message: `Model must be one of: ${providerRegistry.names().map(name => `'${name}'`).join(', ')}` })
+  );
+
+// Regional tags are accepted and mapped to the catalog of their language ('en-GB' is 'en')
+const localeSchema = z
+  .string()
+  .transform((tag: string, ctx: z.RefinementCtx) => {
+    const locale = matchLocale(tag);
+
+    if (!locale) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Locale must be one of: ${SUPPORTED_LOCALES.map(name => `'${name}'`).join(', ')}`
+      });
+      return z.NEVER;
+    }
+
+    return locale;
+  });
 
 export const travelQuestionSchema = z.object({
   question: z
@@ -9,33 +37,78 @@ export const travelQuestionSchema = z.object({
       /^[a-zA-Z0-9\s\?\!\.\,\-\'\"À-ÿ\u00f1\u00d1\(\)]+$/,
       'Question contains invalid characters'
     ),
-  model: z
-    .enum(['groq', 'gemini'], {
-      errorMap: () => ({ message: "Model must be either 'groq' or 'gemini'" })
-    })
+  model: modelSchema,
+  locale: localeSchema.optional()
 });
 
-export const itineraryRequestSchema = z.object({
-  destination: z
-    .string()
-    .min(2, 'Destination must be at least 2 characters')
-    .max(255, 'Destination must be less than 255 characters')
-    .regex(
-      /^[a-zA-Z0-9\s\-\,\'À-ÿ\u00f1\u00d1\(\)]+$/,
-      'Destination contains invalid characters'
-    ),
-  start_date: z
-    .string()
-    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Use YYYY-MM-DD')
+const destinationSchema = z
+  .string()
+  .min(2, 'Destination must be at least 2 characters')
+  .max(255, 'Destination must be less than 255 characters')
+  .regex(
+    /^[a-zA-Z0-9\s\-\,\'À-ÿ\u00f1\u00d1\(\)]+$/,
+    'Destination contains invalid characters'
+  );
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Use YYYY-MM-DD');
+
+// Joins leg cities into the destination column, so listings and destination lookups cover every city
+const LEG_DESTINATION_SEPARATOR = ' - ';
+
+const MAX_ITINERARY_LEGS = 6;
+
+const itineraryLegSchema = z.object({
+  destination: destinationSchema,
+  start_date: dateSchema,
+  end_date: dateSchema
+}).refine((leg: { start_date: string; end_date: string }) => {
+  return new Date(leg.end_date) > new Date(leg.start_date);
+}, {
+  message: 'Leg end date must be after its start date',
+  path: ['end_date']
+});
+
+/**
+ * Multi-destination trips send ordered legs; destination and trip dates are derived from them
+ */
+const fillFromLegs = (input: unknown): unknown => {
+  if (!input || typeof input !== 'object' || !Array.isArray((input as { legs?: unknown }).legs)) {
+    return input;
+  }
+
+  const data = input as Record<string, unknown> & { legs: Array<Record<string, unknown>> };
+  const first = data.legs[0];
+  const last = data.legs[data.legs.length - 1];
+
+  if (!first || !last) {
+    return input;
+  }
+
+  return {
+    ...data,
+    destination: data.legs.map(leg => leg['destination']).join(LEG_DESTINATION_SEPARATOR),
+    start_date: first['start_date'],
+    end_date: last['end_date']
+  };
+};
+
+export const itineraryRequestSchema = z.preprocess(fillFromLegs, z.object({
+  destination: destinationSchema,
+  start_date: dateSchema
     .refine((date: string) => {
       const startDate = new Date(date);
       const today = new Date();
       today.setHours(0, 0, 0, 0);
       return startDate >= today;
     }, 'Start date must be today or in the future'),
-  end_date: z
-    .string()
-    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Use YYYY-MM-DD'),
+  end_date: dateSchema,
+  legs: z
+    .array(itineraryLegSchema)
+    .min(2, 'A multi-destination trip needs at least 2 legs')
+    .max(MAX_ITINERARY_LEGS, `Maximum ${MAX_ITINERARY_LEGS} legs allowed`)
+    .optional(),
   budget: z
     .number()
     .min(100, 'Budget must be at least $100')
@@ -52,7 +125,10 @@ export const itineraryRequestSchema = z.object({
         )
     )
     .max(10, 'Maximum 10 interests allowed')
-    .optional()
+    .optional(),
+  model: modelSchema
+    .optional(),
+  locale: localeSchema.optional()
 }).refine((data: { start_date: string; end_date: string }) => {
   const startDate = new Date(data.start_date);
   const endDate = new Date(data.end_date);
@@ -65,11 +141,20 @@ export const itineraryRequestSchema = z.object({
   const endDate = new Date(data.end_date);
   const diffTime = Math.abs(endDate.getTime() - startDate.getTime());
   const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  return diffDays <= 7;
+  return diffDays <= config.ITINERARY_MAX_DAYS;
 }, {
-  message: 'Trip duration cannot exceed 7 days',
+  message: `Trip duration cannot exceed ${config.ITINERARY_MAX_DAYS} days`,
   path: ['end_date']
-});
+}).refine((data: { legs?: Array<{ start_date: string; end_date: string }> | undefined }) => {
+  // A leg may start on the day the previous one ends (the transfer day)
+  return (data.legs || []).every((leg, index, legs) => {
+    const previous = legs[index - 1];
+    return !previous || new Date(leg.start_date) >= new Date(previous.end_date);
+  });
+}, {
+  message: 'Legs must be in chronological order and cannot overlap',
+  path: ['legs']
+}));
 
 export const paginationSchema = z.object({
   limit: z
@@ -84,6 +169,14 @@ export const paginationSchema = z.object({
     .refine((val: number) => val >= 0, 'Offset must be non-negative')
 });
 
+export const relatedQuestionsQuerySchema = z.object({
+  limit: z
+    .string()
+    .optional()
+    .transform((val: string | undefined) => val ? parseInt(val, 10) : 5)
+    .refine((val: number) => val >= 1 && val <= 20, 'Limit must be between 1 and 20')
+});
+
 export const statusFilterSchema = z.object({
   status: z
     .enum(['pending', 'processing', 'completed', 'failed'])
@@ -97,7 +190,55 @@ export const idParamSchema = z.object({
     .refine((val: number) => !isNaN(val) && val > 0, 'ID must be a positive number')
 });
 
-// Chat message schema (for future use)
+export const dayParamSchema = z.object({
+  id: z
+    .string()
+    .transform((val: string) => parseInt(val, 10))
+    .refine((val: number) => !isNaN(val) && val > 0, 'ID must be a positive number'),
+  n: z
+    .string()
+    .transform((val: string) => parseInt(val, 10))
+    .refine((val: number) => !isNaN(val) && val > 0, 'Day number must be a positive number')
+});
+
+export const dayRegenerationSchema = z.object({
+  feedback: z
+    .string()
+    .min(1, 'Feedback cannot be empty')
+    .max(500, 'Feedback must be less than 500 characters')
+    .regex(
+      /^[a-zA-Z0-9\s\?\!\.\,\-\'\"À-ÿ\u00f1\u00d1\(\)\n\r]+$/,
+      'Feedback contains invalid characters'
+    )
+    .optional(),
+  model: modelSchema
+    .optional()
+});
+
+export const versionParamSchema = z.object({
+  id: z
+    .string()
+    .transform((val: string) => parseInt(val, 10))
+    .refine((val: number) => !isNaN(val) && val > 0, 'ID must be a positive number'),
+  version: z
+    .string()
+    .transform((val: string) => parseInt(val, 10))
+    .refine((val: number) => !isNaN(val) && val > 0, 'Version must be a positive number')
+});
+
+export const versionDiffQuerySchema = z.object({
+  from: z
+    .string()
+    .transform((val: string) => parseInt(val, 10))
+    .refine((val: number) => !isNaN(val) && val > 0, 'From version must be a positive number')
+    .optional(),
+  to: z
+    .string()
+    .transform((val: string) => parseInt(val, 10))
+    .refine((val: number) => !isNaN(val) && val > 0, 'To version must be a positive number')
+    .optional()
+});
+
 export const chatMessageSchema = z.object({
   message: z
     .string()
@@ -106,14 +247,30 @@ export const chatMessageSchema = z.object({
     .regex(
       /^[a-zA-Z0-9\s\?\!\.\,\-\'\"À-ÿ\u00f1\u00d1\(\)\n\r]+$/,
       'Message contains invalid characters'
-    )
+    ),
+  model: modelSchema
+    .optional(),
+  locale: localeSchema.optional()
+});
+
+export const questionIdParamSchema = z.object({
+  questionId: z
+    .string()
+    .transform((val: string) => parseInt(val, 10))
+    .refine((val: number) => !isNaN(val) && val > 0, 'Question ID must be a positive number')
 });
 
 // Type exports for use in controllers
 export type TravelQuestionInput = z.infer<typeof travelQuestionSchema>;
 export type ItineraryRequestInput = z.infer<typeof itineraryRequestSchema>;
 export type PaginationInput = z.infer<typeof paginationSchema>;
+export type RelatedQuestionsQueryInput = z.infer<typeof relatedQuestionsQuerySchema>;
 export type StatusFilterInput = z.infer<typeof statusFilterSchema>;
 export type IdParamInput = z.infer<typeof idParamSchema>;
+export type DayParamInput = z.infer<typeof dayParamSchema>;
+export type DayRegenerationInput = z.infer<typeof dayRegenerationSchema>;
+export type VersionParamInput = z.infer<typeof versionParamSchema>;
+export type VersionDiffQueryInput = z.infer<typeof versionDiffQuerySchema>;
 export type ChatMessageInput = z.infer<typeof chatMessageSchema>;
+export type QuestionIdParamInput = z.infer<typeof questionIdParamSchema>;
 
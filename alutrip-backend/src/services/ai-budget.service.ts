@@ -0,0 +1,177 @@
+import { config } from '../config/env';
+import { logger } from '../config/logger';
+import { AIBudgetsModel } from '../models/ai-budgets.model';
+import { SetAIBudgetInput } from '../schemas/ai-budget.schemas';
+import { AppError, createBudgetExceededError } from '../middleware/error-handler';
+import { AIBudget, AIBudgetBurn, AIBudgetSpend, AIFeature, AIProvider } from '../types/ai';
+import { aiUsageService } from './ai-usage.service';
+
+/**
+ * AI Budget Service for the daily and monthly spending limits of providers and features
+ * Close to a limit requests go to the cheapest providers first; past it the calls the budget covers are refused
+ */
+export class AIBudgetService {
+  private burn: { budgets: AIBudgetBurn[]; expiresAt: number } | null = null;
+
+  /**
+   * Every budget with its spend in the current period, read from the usage accounting
+   */
+  async list(): Promise<AIBudgetBurn[]> {
+    const budgets = (await AIBudgetsModel.findAllWithSpend()).map(budget => this.toBurn(budget));
+
+    this.burn = {
+      budgets,
+      expiresAt: Date.now() + config.AI_BUDGET_CACHE_TTL * 1000
+    };
+
+    return budgets;
+  }
+
+  /**
+   * Create a budget or change its limit; raising the limit of an exceeded budget lets its calls through again
+   */
+  async set(input: SetAIBudgetInput): Promise<AIBudget> {
+    const budget = await AIBudgetsModel.upsert(input.scope, input.target, input.period, input.limit_usd);
+
+    this.burn = null;
+
+    return budget;
+  }
+
+  /**
+   * Start the current period of a budget over; returns null when it does not exist
+   */
+  async reset(id: number): Promise<AIBudget | null> {
+    const budget = await AIBudgetsModel.reset(id);
+
+    this.burn = null;
+
+    return budget;
+  }
+
+  async remove(id: number): Promise<boolean> {
+    const deleted = await AIBudgetsModel.delete(id);
+
+    this.burn = null;
+
+    return deleted;
+  }
+
+  /**
+   * Providers to try for a request of the feature, in order
+   * Providers over budget are left out, and while the feature's or the requested provider's budget is close to its
+   * limit the cheapest providers go first. Throws when the feature or every provider is over budget
+   * Budgets that cannot be loaded are not enforced, like usage that cannot be recorded does not fail the request
+   */
+  async plan(feature: AIFeature, providers: AIProvider[], sessionId?: string): Promise<AIProvider[]> {
+    let budgets: AIBudgetBurn[];
+
+    try {
+      budgets = await this.getBurn();
+    } catch (error) {
+      logger.warn('AI budgets not enforced, failed to load them', {
+        feature,
+        error: (error as Error).message,
+        sessionId
+      });
+      return providers;
+    }
+
+    const featureBudgets = budgets.filter(budget => budget.scope === 'feature' && budget.target === feature);
+    const providerBudgets = (name: string): AIBudgetBurn[] =>
+      budgets.filter(budget => budget.scope === 'provider' && budget.target === name);
+
+    const exceededFeatureBudget = featureBudgets.find(budget => budget.state === 'exceeded');
+
+    if (exceededFeatureBudget) {
+      throw this.createExceededError(exceededFeatureBudget);
+    }
+
+    const allowed: AIProvider[] = [];
+    let exceededProviderBudget: AIBudgetBurn | undefined;
+
+    for (const provider of providers) {
+      const exceeded = providerBudgets(provider.name).find(budget => budget.state === 'exceeded');
+
+      if (exceeded) {
+        exceededProviderBudget ??= exceeded;
+        continue;
+      }
+
+      allowed.push(provider);
+    }
+
+    if (exceededProviderBudget) {
+      if (allowed.length === 0) {
+        throw this.createExceededError(exceededProviderBudget);
+      }
+
+      logger.warn('Skipping AI providers over budget', {
+        feature,
+        skipped: providers.filter(provider => !allowed.includes(provider)).map(provider => provider.name),
+        sessionId
+      });
+    }
+
+    const requested = providers[0];
+    const nearLimit = [...featureBudgets, ...(requested ? providerBudgets(requested.name) : [])]
+      .filter(budget => budget.state === 'degraded');
+
+    if (nearLimit.length === 0) {
+      return allowed;
+    }
+
+    // Stable sort: providers with the same price keep their failover order
+    const cheapestFirst = [...allowed].sort((a, b) => this.getPrice(a) - this.getPrice(b));
+
+    logger.warn('AI budget close to its limit, trying the cheapest providers first', {
+      feature,
+      budgets: nearLimit.map(budget => `${budget.period} ${budget.scope} ${budget.target}`),
+      providers: cheapestFirst.map(provider => provider.name),
+      sessionId
+    });
+
+    return cheapestFirst;
+  }
+
+  /**
+   * Budgets with their spend, kept in memory for AI_BUDGET_CACHE_TTL seconds
+   */
+  private async getBurn(): Promise<AIBudgetBurn[]> {
+    if (this.burn && this.burn.expiresAt > Date.now()) {
+      return this.burn.budgets;
+    }
+
+    return this.list();
+  }
+
+  private toBurn(budget: AIBudgetSpend): AIBudgetBurn {
+    const used = budget.spent_usd / budget.limit_usd;
+
+    return {
+      ...budget,
+      remaining_usd: Math.max(budget.limit_usd - budget.spent_usd, 0),
+      used,
+      state: used >= 1 ? 'exceeded' : used >= config.AI_BUDGET_DEGRADE_AT ? 'degraded' : 'ok'
+    };
+  }
+
+  /**
+   * Input and output price per million tokens added up; models without a price go last, as their cost is unknown
+   */
+  private getPrice(provider: AIProvider): number {
+    const pricing = aiUsageService.getPricing()[provider.model];
+
+    return pricing ? pricing.input + pricing.output : Number.POSITIVE_INFINITY;
+  }
+
+  private createExceededError(budget: AIBudgetBurn): AppError {
+    return createBudgetExceededError(
+      `AI budget exceeded: ${budget.period} ${budget.scope} budget of ${budget.target} ` +
+      `($${budget.spent_usd.toFixed(2)} of $${budget.limit_usd.toFixed(2)} spent)`,
+      { scope: budget.scope, target: budget.target, period: budget.period }
+    );
+  }
+}
+
+export const aiBudgetService = new AIBudgetService();
@@ -0,0 +1,141 @@
+import { config } from '../config/env';
+import { logger } from '../config/logger';
+import { DEFAULT_AI_PRICING } from '../constants/ai-pricing';
+import { AIUsageModel } from '../models/ai-usage.model';
+import { AIUsageReportQueryInput } from '../schemas/ai-usage.schemas';
+import {
+  AIFeature,
+  AIModelPricing,
+  AITokenUsage,
+  AIUsageDailySpend,
+  AIUsageFeatureSpend,
+  AIUsageModelSpend,
+  AIUsageRecord,
+  AIUsageTotals
+} from '../types/ai';
+import { AIServiceResponse } from '../types/travel';
+
+/**
+ * Spend over the last `days` days, for one feature and provider or all of them (null)
+ */
+export interface AIUsageReport<T> {
+  days: number;
+  feature: AIFeature | null;
+  model: string | null;
+  rows: T[];
+}
+
+/**
+ * AI Usage Service for token usage and cost accounting of provider calls
+ */
+export class AIUsageService {
+  private unpricedModels = new Set<string>();
+
+  /**
+   * Built-in prices with the AI_PRICING overrides, per upstream model
+   */
+  getPricing(): Record<string, AIModelPricing> {
+    return { ...DEFAULT_AI_PRICING, ...config.AI_PRICING };
+  }
+
+  /**
+   * Estimated cost in USD of a call to the upstream model; 0 when the model has no price
+   */
+  estimateCost(providerModel: string, tokenUsage: AITokenUsage): number {
+    const pricing = this.getPricing()[providerModel];
+
+    if (!pricing) {
+      if (!this.unpricedModels.has(providerModel)) {
+        this.unpricedModels.add(providerModel);
+        logger.warn('No price for AI model, recording its calls at no cost', { providerModel });
+      }
+      return 0;
+    }
+
+    return (tokenUsage.prompt_tokens * pricing.input + tokenUsage.completion_tokens * pricing.output) / 1_000_000;
+  }
+
+  /**
+   * Store an answered provider call
+   * Accounting never fails the request: errors are logged and the answer is still returned
+   */
+  async record(usage: AIUsageRecord): Promise<void> {
+    try {
+      await AIUsageModel.record(usage);
+    } catch (error) {
+      logger.warn('AI usage not recorded', {
+        feature: usage.feature,
+        modelUsed: usage.model_used,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Totals stored with an answer or itinerary; cached answers and refusals cost nothing
+   */
+  summarize(response: Pick<AIServiceResponse, 'token_usage' | 'processing_time_ms' | 'cost_usd'>): AIUsageTotals {
+    return {
+      prompt_tokens: response.token_usage?.prompt_tokens ?? 0,
+      completion_tokens: response.token_usage?.completion_tokens ?? 0,
+      latency_ms: response.processing_time_ms,
+      cost_usd: response.cost_usd ?? 0
+    };
+  }
+
+  async getModelSpend(params: AIUsageReportQueryInput): Promise<AIUsageReport<AIUsageModelSpend>> {
+    try {
+      const rows = await AIUsageModel.getSpendByModel(params.days, params.feature, params.model);
+
+      return this.toReport(params, rows);
+
+    } catch (error) {
+      logger.error('Failed to build AI spend by model report', {
+        error: (error as Error).message,
+        params
+      });
+      throw error;
+    }
+  }
+
+  async getFeatureSpend(params: AIUsageReportQueryInput): Promise<AIUsageReport<AIUsageFeatureSpend>> {
+    try {
+      const rows = await AIUsageModel.getSpendByFeature(params.days, params.model);
+
+      return this.toReport({ ...params, feature: undefined }, rows);
+
+    } catch (error) {
+      logger.error('Failed to build AI spend by feature report', {
+        error: (error as Error).message,
+        params
+      });
+      throw error;
+    }
+  }
+
+  async getDailySpend(params: AIUsageReportQueryInput): Promise<AIUsageReport<AIUsageDailySpend>> {
+    try {
+      const rows = await AIUsageModel.getDailySpend(params.days, params.feature, params.model);
+
+      return this.toReport(params, rows);
+
+    } catch (error) {
+      logger.error('Failed to build daily AI spend report', {
+        error: (error as Error).message,
+        params
+      });
+      throw error;
+    }
+  }
+
+  private toReport<T>(params: AIUsageReportQueryInput, rows: T[]): AIUsageReport<T> {
+    return {
+      days: params.days,
+      feature: params.feature ?? null,
+      model: params.model ?? null,
+      rows
+    };
+  }
+}
+
+export const aiUsageService = new AIUsageService();
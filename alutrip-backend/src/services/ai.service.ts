@@ -1,28 +1,141 @@
-import Groq from 'groq-sdk';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { logger } from '../config/logger';
 import { config } from '../config/env';
-import { AIModel, AIServiceResponse } from '../types/travel';
-import { 
-  TRAVEL_KEYWORDS, 
-  NON_TRAVEL_KEYWORDS 
-} from '../constants/keywords';
+import {
+  AIModel,
+  AIServiceResponse,
+  AITokenHandler,
+  ChatTurn,
+  ItineraryCorrection,
+  ItineraryGenerationStage
+} from '../types/travel';
+import {
+  AIFeature,
+  AIGenerationRequest,
+  AIGenerationResult,
+  AIProvider,
+  AIProviderInfo,
+  CircuitBreakerStatus
+} from '../types/ai';
+import {
+  AIProviderRegistry,
+  createProviderRegistry,
+  providerRegistry
+} from './providers/registry';
+import { CircuitBreaker } from './providers/circuit-breaker';
+import { ItineraryJsonHints, Locale } from '../types/i18n';
+import { PromptTemplate } from '../types/prompt-template';
+import { getMessages } from '../locales';
+import { aiBudgetService } from './ai-budget.service';
+import { isBudgetExceededError } from '../middleware/error-handler';
+import { aiUsageService } from './ai-usage.service';
+import { promptTemplateService } from './prompt-template.service';
+import { responseCacheService } from './response-cache.service';
+import { topicClassifierService } from './topic-classifier.service';
 import axios from 'axios';
 
+// Providers tried after the requested one, per feature
+const FAILOVER_CHAINS: Record<AIFeature, () => AIModel[]> = {
+  travel_questions: () => config.AI_FAILOVER_TRAVEL_QUESTIONS,
+  itineraries: () => config.AI_FAILOVER_ITINERARIES
+};
+
+/**
+ * JSON structure requested from the AI at each itinerary generation stage: a full itinerary, an overview
+ * or a batch of days; only the notes inside it are translated
+ */
+const buildItineraryJsonFormat = (stage: ItineraryGenerationStage, hints: ItineraryJsonHints): string => {
+  const header = `  "title": "string",
+  "introduction": "string (${hints.introduction})",
+  "practical_info": {
+    "documentation": "string",
+    "currency": "string",
+    "transport": "string",
+    "safety": "string"
+  }`;
+
+  const days = `  "days": [
+    {
+      "day": 1,
+      "date": "YYYY-MM-DD",
+      "title": "string",
+      "activities": [
+        {
+          "period": "morning | lunch | afternoon | dinner | evening",
+          "start_time": "HH:MM",
+          "end_time": "HH:MM (${hints.optional})",
+          "title": "string",
+          "description": "string (${hints.activityDescription})",
+          "place": { "name": "string", "address": "string (${hints.optional})" },
+          "estimated_cost_usd": 0,
+          "tips": "string (${hints.optional})"
+        }
+      ],
+      "rainy_day_alternative": "string (${hints.optional})"
+    }
+  ]`;
+
+  const footer = `  "lodging_options": [
+    {
+      "name": "string",
+      "category": "budget | mid_range | luxury",
+      "neighborhood": "string",
+      "price_per_night_usd": 0,
+      "highlights": "string",
+      "city": "string (${hints.lodgingCity})"
+    }
+  ],
+  "transfers": [
+    {
+      "from": "string",
+      "to": "string",
+      "date": "YYYY-MM-DD",
+      "mode": "train | bus | flight | car | ferry",
+      "duration": "string",
+      "estimated_cost_usd": 0,
+      "recommendation": "string (${hints.transferRecommendation})"
+    }
+  ] (${hints.transfersOnly}),
+  "budget": {
+    "currency": "USD",
+    "lodging": 0,
+    "food": 0,
+    "transport": 0,
+    "attractions": 0,
+    "other": 0,
+    "total": 0,
+    "saving_tips": ["string"]
+  },
+  "extra_tips": ["string"]`;
+
+  const outline = `  "day_outline": [
+    { "day": 1, "date": "YYYY-MM-DD", "title": "string (${hints.dayTheme})" }
+  ]`;
+
+  switch (stage) {
+  case 'overview':
+    return `{\n${header},\n${outline},\n${footer}\n}`;
+  case 'days':
+    return `{\n${days}\n}`;
+  default:
+    return `{\n${header},\n${days},\n${footer}\n}`;
+  }
+};
+
 /**
- * AI Service for integrating with multiple providers (Groq and Gemini)
+ * AI Service for integrating with multiple providers through the provider registry
  * Handles travel-related question processing and response generation
  */
 export class AIService {
-  private groqClient: Groq;
-  private geminiAI: GoogleGenerativeAI;
+  private registry: AIProviderRegistry;
+  private trackSpend: boolean;
+  private circuitBreakers = new Map<AIModel, CircuitBreaker>();
   
-  constructor() {
-    this.groqClient = new Groq({
-      apiKey: config.GROQ_API_KEY,
-    });
-    
-    this.geminiAI = new GoogleGenerativeAI(config.GEMINI_API_KEY);
+  /**
+   * Offline evaluations pass trackSpend false so their calls are neither recorded nor held to the budgets
+   */
+  constructor(registry: AIProviderRegistry = createProviderRegistry(), trackSpend: boolean = true) {
+    this.registry = registry;
+    this.trackSpend = trackSpend;
   }
 
   /**
@@ -31,7 +144,8 @@ export class AIService {
   async processQuestion(
     question: string, 
     model: AIModel,
-    sessionId?: string
+    sessionId?: string,
+    locale?: Locale
   ): Promise<AIServiceResponse> {
     const startTime = Date.now();
     
@@ -40,26 +154,24 @@ export class AIService {
         context: 'ai',
         model,
         questionLength: question.length,
+        locale,
         sessionId
       });
 
-      const isTravelRelated = this.isTravelRelatedQuestion(question);
+      const topic = await topicClassifierService.classify(question, sessionId);
       
-      if (!isTravelRelated) {
+      if (!topic.travel) {
         logger.info('Question filtered as non-travel related', {
           context: 'ai',
           model,
+          classifier: topic.classifier,
+          reason: topic.reason,
           question: question.substring(0, 100) + '...',
           sessionId
         });
 
-        const declineMessage = 
-          'Olá! Eu sou o AluTrip, seu assistente de viagem! Eu estou aqui para ajudar você com tudo que envolve ' +
-          'destinos, hospedagens, passeios, restaurantes e dicas de viagem. Essa pergunta que você fez foge um pouquinho ' +
-          'do tema de viagens, mas se quiser, pode me mandar uma dúvida sobre sua próxima aventura que vou adorar ajudar!';
-        
         return {
-          content: declineMessage,
+          content: getMessages(locale).refusal,
           model_used: model,
           token_usage: {
             prompt_tokens: 0,
@@ -70,32 +182,39 @@ export class AIService {
         };
       }
       
-      let response: AIServiceResponse;
-      
-      switch (model) {
-      case 'groq':
-        response = await this.processWithGroq(question, sessionId);
-        break;
-      case 'gemini':
-        response = await this.processWithGemini(question, sessionId);
-        break;
-      default:
-        throw new Error(`Unsupported AI model: ${model}`);
+      const cachedResponse = await this.getCachedResponse(question, model, startTime, sessionId, locale);
+
+      if (cachedResponse) {
+        return cachedResponse;
       }
       
+      const template = await promptTemplateService.assign('travel_questions', locale);
+      const promptVersion = template?.version ?? 0;
+
+      const response = await this.generateWithFailover('travel_questions', model, {
+        systemPrompt: this.buildTravelSystemPrompt(template, locale),
+        messages: [{ role: 'user', content: this.buildTravelQuestionPrompt(question, template, locale) }],
+        temperature: 0.7,
+        maxTokens: 2048
+      }, sessionId);
+
+      await responseCacheService.set(question, { ...response, prompt_version: promptVersion }, locale);
+      
       const totalTime = Date.now() - startTime;
       
       logger.info('AI question processing completed', {
         context: 'ai',
-        model,
+        model: response.model_used,
         processingTime: `${totalTime}ms`,
         responseLength: response.content.length,
+        promptVersion,
         sessionId
       });
       
       return {
         ...response,
-        processing_time_ms: totalTime
+        processing_time_ms: totalTime,
+        prompt_version: promptVersion
       };
       
     } catch (error) {
@@ -109,6 +228,10 @@ export class AIService {
         sessionId
       });
       
+      if (isBudgetExceededError(error)) {
+        throw error;
+      }
+
       const aiError = new Error(
         `Failed to process question with ${model}: ${(error as Error).message}`
       ) as Error & { provider: string; status?: number; code?: string };
@@ -127,64 +250,107 @@ export class AIService {
   }
 
   /**
-   * Process itinerary request using the specified AI model
+   * Process a travel question streaming the answer token by token
+   * Resolves with the complete response once the provider finishes
    */
-  async processItineraryRequest(
-    prompt: string,
+  async streamQuestion(
+    question: string,
     model: AIModel,
-    sessionId?: string
+    onToken: AITokenHandler,
+    sessionId?: string,
+    locale?: Locale
   ): Promise<AIServiceResponse> {
     const startTime = Date.now();
-    
+
     try {
-      logger.info('Starting AI itinerary processing', {
+      logger.info('Starting AI question streaming', {
         context: 'ai',
         model,
-        promptLength: prompt.length,
+        questionLength: question.length,
+        locale,
         sessionId
       });
-      
-      let response: AIServiceResponse;
-      
-      switch (model) {
-      case 'groq':
-        response = await this.processItineraryWithGroq(prompt, sessionId);
-        break;
-      case 'gemini':
-        response = await this.processItineraryWithGemini(prompt, sessionId);
-        break;
-      default:
-        throw new Error(`Unsupported AI model: ${model}`);
+
+      const topic = await topicClassifierService.classify(question, sessionId);
+
+      if (!topic.travel) {
+        logger.info('Question filtered as non-travel related', {
+          context: 'ai',
+          model,
+          classifier: topic.classifier,
+          reason: topic.reason,
+          question: question.substring(0, 100) + '...',
+          sessionId
+        });
+
+        const declineMessage = getMessages(locale).refusal;
+        onToken(declineMessage);
+
+        return {
+          content: declineMessage,
+          model_used: model,
+          token_usage: {
+            prompt_tokens: 0,
+            completion_tokens: 0,
+            total_tokens: 0
+          },
+          processing_time_ms: Date.now() - startTime
+        };
       }
-      
+
+      const cachedResponse = await this.getCachedResponse(question, model, startTime, sessionId, locale);
+
+      if (cachedResponse) {
+        onToken(cachedResponse.content);
+        return cachedResponse;
+      }
+
+      const template = await promptTemplateService.assign('travel_questions', locale);
+      const promptVersion = template?.version ?? 0;
+
+      const response = await this.generateWithFailover('travel_questions', model, {
+        systemPrompt: this.buildTravelSystemPrompt(template, locale),
+        messages: [{ role: 'user', content: this.buildTravelQuestionPrompt(question, template, locale) }],
+        temperature: 0.7,
+        maxTokens: 2048
+      }, sessionId, onToken);
+
+      await responseCacheService.set(question, { ...response, prompt_version: promptVersion }, locale);
+
       const totalTime = Date.now() - startTime;
-      
-      logger.info('AI itinerary processing completed', {
+
+      logger.info('AI question streaming completed', {
         context: 'ai',
-        model,
+        model: response.model_used,
         processingTime: `${totalTime}ms`,
         responseLength: response.content.length,
+        promptVersion,
         sessionId
       });
-      
+
       return {
         ...response,
-        processing_time_ms: totalTime
+        processing_time_ms: totalTime,
+        prompt_version: promptVersion
       };
-      
+
     } catch (error) {
       const totalTime = Date.now() - startTime;
-      
-      logger.error('AI itinerary processing failed', {
+
+      logger.error('AI question streaming failed', {
         context: 'ai',
         model,
         error: (error as Error).message,
         processingTime: `${totalTime}ms`,
         sessionId
       });
-      
+
+      if (isBudgetExceededError(error)) {
+        throw error;
+      }
+
       const aiError = new Error(
-        `Failed to process itinerary with ${model}: ${(error as Error).message}`
+        `Failed to stream question with ${model}: ${(error as Error).message}`
       ) as Error & { provider: string; status?: number; code?: string };
       aiError.provider = model;
       if (axios.isAxiosError(error)) {
@@ -195,466 +361,477 @@ export class AIService {
           aiError.code = error.code;
         }
       }
-      
+
       throw aiError;
     }
   }
 
   /**
-   * Process question using Groq (Llama model)
+   * Process a follow-up message in a conversation, passing prior turns as context
    */
-  private async processWithGroq(question: string, sessionId?: string): Promise<AIServiceResponse> {
+  async processConversation(
+    message: string,
+    history: ChatTurn[],
+    model: AIModel,
+    sessionId?: string,
+    locale?: Locale
+  ): Promise<AIServiceResponse> {
+    const startTime = Date.now();
+
     try {
-      const prompt = this.buildTravelPrompt(question);
-      
-      const chatCompletion = await this.groqClient.chat.completions.create({
-        messages: [
-          {
-            role: 'system',
-            content: this.getSystemPrompt()
+      logger.info('Starting AI conversation processing', {
+        context: 'ai',
+        model,
+        messageLength: message.length,
+        historyLength: history.length,
+        locale,
+        sessionId
+      });
+
+      const topic = await topicClassifierService.classify(message, sessionId);
+
+      if (!topic.travel) {
+        logger.info('Conversation message filtered as non-travel related', {
+          context: 'ai',
+          model,
+          classifier: topic.classifier,
+          reason: topic.reason,
+          message: message.substring(0, 100) + '...',
+          sessionId
+        });
+
+        return {
+          content: getMessages(locale).refusal,
+          model_used: model,
+          token_usage: {
+            prompt_tokens: 0,
+            completion_tokens: 0,
+            total_tokens: 0
           },
-          {
-            role: 'user',
-            content: prompt
-          }
+          processing_time_ms: Date.now() - startTime
+        };
+      }
+
+      const template = await promptTemplateService.assign('travel_questions', locale);
+
+      const response = await this.generateWithFailover('travel_questions', model, {
+        systemPrompt: this.buildTravelSystemPrompt(template, locale),
+        messages: [
+          ...history.map(turn => ({
+            role: turn.message_type === 'question' ? 'user' as const : 'assistant' as const,
+            content: turn.content
+          })),
+          { role: 'user', content: getMessages(locale).prompts.conversation(message) }
         ],
-        model: config.GROQ_MODEL,
         temperature: 0.7,
-        max_tokens: 2048,
-        top_p: 1,
-        stream: false,
-        stop: null
-      });
+        maxTokens: 2048
+      }, sessionId);
 
-      const response = chatCompletion.choices[0]?.message?.content || '';
-      
-      if (!response.trim()) {
-        throw new Error('Empty response from Groq API');
-      }
+      const totalTime = Date.now() - startTime;
+
+      logger.info('AI conversation processing completed', {
+        context: 'ai',
+        model: response.model_used,
+        processingTime: `${totalTime}ms`,
+        responseLength: response.content.length,
+        promptVersion: template?.version ?? 0,
+        sessionId
+      });
 
       return {
-        content: response.trim(),
-        model_used: 'groq',
-        token_usage: chatCompletion.usage ? {
-          prompt_tokens: chatCompletion.usage.prompt_tokens || 0,
-          completion_tokens: chatCompletion.usage.completion_tokens || 0,
-          total_tokens: chatCompletion.usage.total_tokens || 0
-        } : {
-          prompt_tokens: 0,
-          completion_tokens: 0,
-          total_tokens: 0
-        },
-        processing_time_ms: 0
+        ...response,
+        processing_time_ms: totalTime,
+        prompt_version: template?.version ?? 0
       };
-      
+
     } catch (error) {
-      logger.error('Groq processing failed', {
+      const totalTime = Date.now() - startTime;
+
+      logger.error('AI conversation processing failed', {
         context: 'ai',
+        model,
         error: (error as Error).message,
+        processingTime: `${totalTime}ms`,
         sessionId
       });
-      throw error;
+
+      if (isBudgetExceededError(error)) {
+        throw error;
+      }
+
+      const aiError = new Error(
+        `Failed to process conversation with ${model}: ${(error as Error).message}`
+      ) as Error & { provider: string; status?: number; code?: string };
+      aiError.provider = model;
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status) {
+          aiError.status = error.response.status;
+        }
+        if (error.code) {
+          aiError.code = error.code;
+        }
+      }
+
+      throw aiError;
     }
   }
 
   /**
-   * Process itinerary request using Groq (Llama model)
+   * Process itinerary request using the specified AI model
+   * The answer is requested as JSON; a correction replays the rejected answer with its validation errors
+   * The system prompt comes from the itinerary's prompt template, or the built-in one without a template
    */
-  private async processItineraryWithGroq(prompt: string, sessionId?: string): Promise<AIServiceResponse> {
+  async processItineraryRequest(
+    prompt: string,
+    model: AIModel,
+    sessionId?: string,
+    correction?: ItineraryCorrection,
+    stage: ItineraryGenerationStage = 'full',
+    locale?: Locale,
+    template?: PromptTemplate | null
+  ): Promise<AIServiceResponse> {
+    const startTime = Date.now();
+    const { prompts } = getMessages(locale);
+    const jsonFormat = buildItineraryJsonFormat(stage, prompts.itineraryJsonHints);
+    
     try {
-      const chatCompletion = await this.groqClient.chat.completions.create({
+      logger.info('Starting AI itinerary processing', {
+        context: 'ai',
+        model,
+        promptLength: prompt.length,
+        isCorrection: !!correction,
+        stage,
+        locale,
+        sessionId
+      });
+      
+      const response = await this.generateWithFailover('itineraries', model, {
+        systemPrompt: template
+          ? promptTemplateService.render(template.system_prompt, { json_format: jsonFormat })
+          : prompts.itinerarySystem(jsonFormat),
         messages: [
-          {
-            role: 'system',
-            content: this.getItinerarySystemPrompt()
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
+          { role: 'user', content: prompt },
+          ...(correction ? [
+            { role: 'assistant' as const, content: correction.previous_content },
+            { role: 'user' as const, content: prompts.itineraryCorrection(correction.errors) }
+          ] : [])
         ],
-        model: config.GROQ_MODEL,
         temperature: 0.8,
-        max_tokens: 8192,
-        top_p: 1,
-        stream: false,
-        stop: null
-      });
-
-      const response = chatCompletion.choices[0]?.message?.content || '';
+        maxTokens: 8192,
+        responseFormat: 'json'
+      }, sessionId);
       
-      if (!response.trim()) {
-        throw new Error('Empty response from Groq API');
-      }
-
-      return {
-        content: response.trim(),
-        model_used: 'groq',
-        token_usage: chatCompletion.usage ? {
-          prompt_tokens: chatCompletion.usage.prompt_tokens || 0,
-          completion_tokens: chatCompletion.usage.completion_tokens || 0,
-          total_tokens: chatCompletion.usage.total_tokens || 0
-        } : {
-          prompt_tokens: 0,
-          completion_tokens: 0,
-          total_tokens: 0
-        },
-        processing_time_ms: 0
-      };
+      const totalTime = Date.now() - startTime;
       
-    } catch (error) {
-      logger.error('Groq itinerary processing failed', {
+      logger.info('AI itinerary processing completed', {
         context: 'ai',
-        error: (error as Error).message,
+        model: response.model_used,
+        processingTime: `${totalTime}ms`,
+        responseLength: response.content.length,
+        promptVersion: template?.version ?? 0,
         sessionId
       });
-      throw error;
-    }
-  }
-
-  /**
-   * Process itinerary request using Google Gemini
-   */
-  private async processItineraryWithGemini(prompt: string, sessionId?: string): Promise<AIServiceResponse> {
-    try {
-      const model = this.geminiAI.getGenerativeModel({ 
-        model: config.GEMINI_MODEL,
-        generationConfig: {
-          maxOutputTokens: 8192,
-        }
-      });
-      
-      const fullPrompt = `${this.getItinerarySystemPrompt()}\n\n${prompt}`;
-      
-      const result = await model.generateContent(fullPrompt);
-      const response = await result.response;
-      const text = response.text();
       
-      if (!text.trim()) {
-        throw new Error('Empty response from Gemini API');
-      }
-
       return {
-        content: text.trim(),
-        model_used: 'gemini',
-        token_usage: {
-          prompt_tokens: 0,
-          completion_tokens: 0,
-          total_tokens: 0
-        },
-        processing_time_ms: 0
+        ...response,
+        processing_time_ms: totalTime,
+        prompt_version: template?.version ?? 0
       };
       
     } catch (error) {
-      logger.error('Gemini itinerary processing failed', {
+      const totalTime = Date.now() - startTime;
+      
+      logger.error('AI itinerary processing failed', {
         context: 'ai',
+        model,
         error: (error as Error).message,
+        processingTime: `${totalTime}ms`,
         sessionId
       });
-      throw error;
-    }
-  }
-
-  /**
-   * Process question using Google Gemini
-   */
-  private async processWithGemini(question: string, sessionId?: string): Promise<AIServiceResponse> {
-    try {
-      const model = this.geminiAI.getGenerativeModel({ 
-        model: config.GEMINI_MODEL,
-        generationConfig: {
-          maxOutputTokens: 2048,
-        }
-      });
       
-      const prompt = `${this.getSystemPrompt()}\n\nUser Question: ${this.buildTravelPrompt(question)}`;
-      
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-      
-      if (!text.trim()) {
-        throw new Error('Empty response from Gemini API');
+      if (isBudgetExceededError(error)) {
+        throw error;
       }
 
-      return {
-        content: text.trim(),
-        model_used: 'gemini',
-        token_usage: {
-          prompt_tokens: 0,
-          completion_tokens: 0,
-          total_tokens: 0
-        },
-        processing_time_ms: 0
-      };
+      const aiError = new Error(
+        `Failed to process itinerary with ${model}: ${(error as Error).message}`
+      ) as Error & { provider: string; status?: number; code?: string };
+      aiError.provider = model;
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status) {
+          aiError.status = error.response.status;
+        }
+        if (error.code) {
+          aiError.code = error.code;
+        }
+      }
       
-    } catch (error) {
-      logger.error('Gemini processing failed', {
-        context: 'ai',
-        error: (error as Error).message,
-        sessionId
-      });
-      throw error;
+      throw aiError;
     }
   }
 
   /**
-   * Check if a question is travel-related using simple keyword analysis
-   * Prioritizes usability by being permissive rather than restrictive
+   * Answer from the response cache for the question and requested model, if any
    */
-  private isTravelRelatedQuestion(question: string): boolean {
-    const lowerQuestion = question.toLowerCase().trim();
-    
-    if (lowerQuestion.length < 3) {
-      return false;
-    }
-    
-    const travelScore = TRAVEL_KEYWORDS.reduce((score, keyword) => {
-      return score + (lowerQuestion.includes(keyword) ? 1 : 0);
-    }, 0);
-    
-    const nonTravelScore = NON_TRAVEL_KEYWORDS.reduce((score, keyword) => {
-      return score + (lowerQuestion.includes(keyword) ? 1 : 0);
-    }, 0);
-    
-    // BALANCED DECISION LOGIC - Balance usability with proper filtering
-    
-    // 1. If there are travel keywords, always allow
-    if (travelScore > 0) {
-      logger.info('Question accepted: travel keywords detected', {
-        context: 'ai',
-        travelScore,
-        nonTravelScore,
-        question: question.substring(0, 100)
-      });
-      return true;
-    }
-    
-    // 2. Reject if there are non-travel keywords (even just one) AND no travel keywords
-    if (nonTravelScore > 0 && travelScore === 0) {
-      logger.info('Question rejected: non-travel keywords without travel context', {
-        context: 'ai',
-        nonTravelScore,
-        travelScore,
-        question: question.substring(0, 100)
-      });
-      return false;
+  private async getCachedResponse(
+    question: string,
+    model: AIModel,
+    startTime: number,
+    sessionId?: string,
+    locale?: Locale
+  ): Promise<AIServiceResponse | null> {
+    const cached = await responseCacheService.get(question, model, locale);
+
+    if (!cached) {
+      return null;
     }
-    
-    // 3. Default to accepting questions for better usability (only when no clear indicators)
-    logger.info('Question accepted: default acceptance for usability', {
+
+    logger.info('Serving cached AI response', {
       context: 'ai',
-      travelScore,
-      nonTravelScore,
-      question: question.substring(0, 100)
+      model: cached.model_used,
+      cachedAt: cached.cached_at,
+      sessionId
     });
-    return true;
+
+    return {
+      content: cached.content,
+      model_used: cached.model_used,
+      processing_time_ms: Date.now() - startTime,
+      cached: true,
+      prompt_version: cached.prompt_version ?? 0
+    };
+  }
+
+  private buildTravelSystemPrompt(template: PromptTemplate | null, locale?: Locale): string {
+    return template
+      ? promptTemplateService.render(template.system_prompt)
+      : getMessages(locale).prompts.travelSystem;
+  }
+
+  private buildTravelQuestionPrompt(question: string, template: PromptTemplate | null, locale?: Locale): string {
+    return template
+      ? promptTemplateService.render(template.user_prompt, { question })
+      : getMessages(locale).prompts.travelQuestion(question);
   }
 
   /**
-   * Build travel-specific prompt with context
+   * Health check for all registered AI providers
    */
-  private buildTravelPrompt(question: string): string {
-    return `
-Pergunta sobre Viagem: ${question}
-
-Por favor, forneça uma resposta abrangente e útil sobre esta pergunta relacionada a viagens.
-Inclua recomendações específicas, dicas práticas e detalhes relevantes que seriam valiosos 
-para o planejamento da viagem.
-Se a pergunta envolve destinos, inclua informações sobre melhores épocas para visitar, 
-costumes locais, considerações de orçamento e atrações imperdíveis.
-Mantenha a resposta informativa, mas concisa, focando em conselhos práticos de viagem.
-`;
+  async healthCheck(): Promise<Record<AIModel, { status: 'healthy' | 'unhealthy'; error?: string }>> {
+    const results: Record<AIModel, { status: 'healthy' | 'unhealthy'; error?: string }> = {};
+
+    await Promise.all(this.registry.list().map(async provider => {
+      try {
+        await provider.healthCheck();
+        results[provider.name] = { status: 'healthy' };
+      } catch (error) {
+        results[provider.name] = { status: 'unhealthy', error: (error as Error).message };
+      }
+    }));
+
+    return results;
   }
 
   /**
-   * Get system prompt for travel assistant with strict guardrails
+   * Get model availability and configuration
    */
-  private getSystemPrompt(): string {
-    const basePrompt = `Você é o AluTrip, um assistente de viagem especializado em IA que ajuda as pessoas a 
-planejar viagens incríveis sem burocracia ou barreiras.
-
-🚨 REGRAS CRÍTICAS E OBRIGATÓRIAS 🚨
-
-1. VOCÊ DEVE responder APENAS e EXCLUSIVAMENTE a perguntas relacionadas a:
-   - Destinos turísticos e lugares para visitar
-   - Planejamento de viagens e itinerários
-   - Hospedagem (hotéis, pousadas, resorts, etc.)
-   - Transporte (voos, trens, ônibus, carros, etc.)
-   - Atividades turísticas e passeios
-   - Restaurantes e gastronomia local
-   - Dicas de viagem e preparação
-   - Cultura local e costumes
-   - Segurança em viagens
-   - Documentação necessária (passaporte, visto, etc.)
-   - Orçamento e custos de viagem
-   - Melhor época para viajar
-   - O que levar na mala
-
-2. SE A PERGUNTA NÃO FOR SOBRE VIAGEM, você DEVE:
-   - Imediatamente recusar responder
-   - Usar EXATAMENTE a mensagem padrão de recusa
-   - NÃO dar nenhuma informação sobre o tópico perguntado
-   - NÃO tentar ajudar com o assunto não relacionado a viagem
-
-3. TÓPICOS PROIBIDOS (NÃO RESPONDA):
-   - Tecnologia, programação, software, IA, desenvolvimento
-   - Saúde, medicina, sintomas, tratamentos, medicamentos
-   - Questões legais, advogados, processos, contratos
-   - Finanças, investimentos, criptomoedas, bancos
-   - Política, eleições, governo, economia
-   - Relacionamentos, namoro, casamento, família
-   - Educação, estudos, cursos, universidades
-   - Esportes (exceto se relacionado a viagem)
-   - Entretenimento (filmes, séries, música - exceto se relacionado a viagem)
-   - Trabalho, carreira, empregos
-   - Qualquer assunto que não seja diretamente sobre viagem`;
-
-    const refusalMessage = `4. MENSAGEM OBRIGATÓRIA DE RECUSA:
-   'Olá! Eu sou o AluTrip, seu assistente de viagem! Eu estou aqui para ajudar você com tudo que envolve destinos, hospedagens, ` +
-   `passeios, restaurantes e dicas de viagem. Essa pergunta que você fez foge um pouquinho do tema de viagens, mas se quiser, ` +
-   `pode me mandar uma dúvida sobre sua próxima aventura que vou adorar ajudar!'`;
-
-    const validationRules = `5. VALIDAÇÃO OBRIGATÓRIA:
-   - Antes de responder, SEMPRE analise se a pergunta é sobre viagem
-   - Se houver DÚVIDA, prefira recusar a responder
-   - Seja EXTREMAMENTE restritivo - é melhor recusar uma pergunta válida do que responder uma inválida
-
-Seu papel (APENAS para perguntas sobre viagem):
-- Fornecer conselhos de viagem precisos, úteis e personalizados
-- Compartilhar dicas práticas sobre destinos, hospedagens, transporte e atividades
-- Considerar orçamento, tempo e preferências pessoais em suas recomendações
-- Oferecer conhecimento sobre costumes locais, melhores épocas para visitar
-- Ajudar com planejamento de itinerário, sugestões de bagagem e logística
-- Ser entusiasmado e encorajador, mas realista sobre as expectativas
-
-Diretrizes para respostas sobre viagem:
-- Sempre seja útil, amigável e encorajador
-- Forneça conselhos específicos e acionáveis
-- Inclua detalhes práticos como custos aproximados, horários e dicas de reserva
-- Mencione desafios potenciais ou considerações importantes
-- Sugira alternativas quando apropriado
-- Mantenha as respostas abrangentes, mas não esmagadoras
-- Use um tom conversacional e acessível
-
-LEMBRE-SE: Sua função é SER UM ASSISTENTE DE VIAGEM. Qualquer pergunta que não seja sobre viagem ` +
-      'deve ser recusada imediatamente com a mensagem padrão.';
-
-    return `${basePrompt} ${refusalMessage} ${validationRules}`;
+  getModelInfo(): Record<AIModel, { model: string; available: boolean }> {
+    return Object.fromEntries(
+      this.registry.list().map(provider => [
+        provider.name,
+        { model: provider.model, available: provider.isAvailable() }
+      ])
+    );
   }
 
   /**
-   * Get system prompt specifically for itinerary generation
+   * List registered providers in registry order (preferred first)
    */
-  private getItinerarySystemPrompt(): string {
-    return `Você é o AluTrip, um especialista em planejamento de viagens que cria roteiros detalhados e personalizados.
-
-🎯 SEU PAPEL:
-- Você é um planejador de viagens experiente e especializado
-- Crie roteiros detalhados, práticos e inspiradores
-- Considere sempre o orçamento, preferências e estilo de viagem do usuário
-- Forneça informações precisas e atualizadas sobre destinos
-
-📋 DIRETRIZES PARA ROTEIROS:
-
-1. **ESTRUTURA OBRIGATÓRIA:**
-   - Introdução ao destino
-   - Informações práticas (documentação, moeda, transporte)
-   - Roteiro diário detalhado com horários específicos
-   - Sugestões de hospedagem com diferentes faixas de preço
-   - Orçamento estimado por categoria
-   - Dicas extras e informações práticas
-
-2. **FORMATO DIÁRIO:**
-   - Manhã (9h-12h): Atividade principal
-   - Almoço (12h-14h): Sugestão de restaurante
-   - Tarde (14h-18h): Atividade secundária
-   - Jantar (19h-21h): Sugestão de restaurante
-   - Noite (21h+): Atividade noturna ou descanso
-
-3. **INFORMAÇÕES ESSENCIAIS:**
-   - Nomes específicos de restaurantes, atrações e locais
-   - Preços aproximados em USD
-   - Tempo necessário para cada atividade
-   - Como chegar entre os locais
-   - Horários de funcionamento
-
-4. **PERSONALIZAÇÃO:**
-   - Adapte ao orçamento informado
-   - Considere os interesses específicos
-   - Respeite o estilo de viagem (econômico, intermediário, luxo)
-   - Inclua pelo menos uma atividade gratuita por dia
-
-5. **TOM E ESTILO:**
-   - Use um tom entusiasmado e inspirador
-   - Seja específico e prático
-   - Inclua dicas valiosas de insider
-   - Mantenha o foco na experiência do usuário
-
-🚨 IMPORTANTE:
-- Sempre considere as datas específicas para eventos sazonais
-- Inclua tempo realista para deslocamentos
-- Forneça alternativas para dias de chuva (se aplicável)
-- Mencione aspectos culturais e etiqueta local quando relevante
-
-Seu objetivo é criar um roteiro completo que torne a viagem inesquecível e bem organizada!`;
+  listProviders(): AIProviderInfo[] {
+    return this.registry.describe();
   }
 
   /**
-   * Health check for AI services
+   * Circuit breaker state of every registered provider
    */
-  async healthCheck(): Promise<{
-    groq: { status: 'healthy' | 'unhealthy'; error?: string };
-    gemini: { status: 'healthy' | 'unhealthy'; error?: string };
-  }> {
-    const results: {
-      groq: { status: 'healthy' | 'unhealthy'; error?: string };
-      gemini: { status: 'healthy' | 'unhealthy'; error?: string };
-    } = {
-      groq: { status: 'unhealthy' },
-      gemini: { status: 'unhealthy' }
-    };
+  getCircuitBreakerStatus(): Record<AIModel, CircuitBreakerStatus> {
+    return Object.fromEntries(
+      this.registry.list().map(provider => [provider.name, this.getCircuitBreaker(provider.name).getStatus()])
+    );
+  }
 
-    try {
-      await this.groqClient.chat.completions.create({
-        messages: [{ role: 'user', content: 'Hello' }],
-        model: config.GROQ_MODEL,
-        max_tokens: 5
-      });
-      results.groq.status = 'healthy';
-    } catch (error) {
-      results.groq.error = (error as Error).message;
+  /**
+   * Model to use when the client did not choose one: the first available provider
+   * of the feature's failover chain, then of the registry
+   */
+  getDefaultModel(feature: AIFeature): AIModel | null {
+    const candidates = [...FAILOVER_CHAINS[feature](), ...this.registry.names()];
+
+    return candidates.find(name => this.registry.get(name)?.isAvailable()) ?? null;
+  }
+
+  /**
+   * Try the requested provider, then the rest of the feature's failover chain
+   * Providers with an open circuit are skipped; the answer carries the model that produced it and its cost,
+   * and is recorded in the usage accounting. Spending budgets may reorder the chain or refuse the request
+   */
+  private async generateWithFailover(
+    feature: AIFeature,
+    model: AIModel,
+    request: AIGenerationRequest,
+    sessionId?: string,
+    onToken?: AITokenHandler
+  ): Promise<AIGenerationResult & { model_used: AIModel; cost_usd: number }> {
+    const failures: Array<{ provider: AIModel; error: Error }> = [];
+    const chain = this.trackSpend
+      ? await aiBudgetService.plan(feature, this.getFailoverChain(feature, model), sessionId)
+      : this.getFailoverChain(feature, model);
+
+    for (const provider of chain) {
+      const circuitBreaker = this.getCircuitBreaker(provider.name);
+
+      if (!circuitBreaker.canRequest()) {
+        logger.warn('Skipping AI provider with open circuit', {
+          context: 'ai',
+          feature,
+          provider: provider.name,
+          sessionId
+        });
+        continue;
+      }
+
+      let tokensSent = false;
+      const callStartTime = Date.now();
+
+      try {
+        const result = onToken
+          ? await this.streamFrom(provider, request, token => {
+            tokensSent = true;
+            onToken(token);
+          })
+          : await provider.generate(request);
+
+        circuitBreaker.recordSuccess();
+
+        const costUsd = aiUsageService.estimateCost(provider.model, result.token_usage);
+
+        if (this.trackSpend) {
+          await aiUsageService.record({
+            feature,
+            model_used: provider.name,
+            provider_model: provider.model,
+            prompt_tokens: result.token_usage.prompt_tokens,
+            completion_tokens: result.token_usage.completion_tokens,
+            total_tokens: result.token_usage.total_tokens,
+            latency_ms: Date.now() - callStartTime,
+            cost_usd: costUsd,
+            session_id: sessionId
+          });
+        }
+
+        if (provider.name !== model) {
+          logger.warn('AI request answered by failover provider', {
+            context: 'ai',
+            feature,
+            requestedModel: model,
+            modelUsed: provider.name,
+            sessionId
+          });
+        }
+
+        return {
+          ...result,
+          model_used: provider.name,
+          cost_usd: costUsd
+        };
+
+      } catch (error) {
+        circuitBreaker.recordFailure(error as Error);
+        failures.push({ provider: provider.name, error: error as Error });
+
+        logger.warn('AI provider failed', {
+          context: 'ai',
+          feature,
+          provider: provider.name,
+          error: (error as Error).message,
+          circuit: circuitBreaker.getStatus().state,
+          sessionId
+        });
+
+        // Streamed tokens cannot be taken back, so a partial answer is not retried elsewhere
+        if (tokensSent) {
+          break;
+        }
+      }
     }
 
-    try {
-      const model = this.geminiAI.getGenerativeModel({ model: config.GEMINI_MODEL });
-      await model.generateContent('Hello');
-      results.gemini.status = 'healthy';
-    } catch (error) {
-      results.gemini.error = (error as Error).message;
+    if (failures.length === 1) {
+      throw failures[0]!.error;
     }
 
-    return results;
+    if (failures.length === 0) {
+      throw new Error(`No AI provider available for ${feature} (all circuits open)`);
+    }
+
+    throw new Error(
+      `All providers failed (${failures.map(failure => `${failure.provider}: ${failure.error.message}`).join('; ')})`
+    );
   }
 
   /**
-   * Get model availability and configuration
+   * Requested provider first, then the available providers of the feature chain
    */
-  getModelInfo(): {
-    groq: { model: string; available: boolean };
-    gemini: { model: string; available: boolean };
-    } {
-    return {
-      groq: {
-        model: config.GROQ_MODEL,
-        available: !config.GROQ_API_KEY.includes('your-groq-api-key')
-      },
-      gemini: {
-        model: config.GEMINI_MODEL,
-        available: !config.GEMINI_API_KEY.includes('your-gemini-api-key')
-      }
-    };
+  private getFailoverChain(feature: AIFeature, model: AIModel): AIProvider[] {
+    const fallbacks = FAILOVER_CHAINS[feature]()
+      .filter(name => name !== model)
+      .map(name => this.registry.get(name))
+      .filter((provider): provider is AIProvider => !!provider && provider.isAvailable());
+
+    return [this.getProvider(model), ...fallbacks];
+  }
+
+  private async streamFrom(
+    provider: AIProvider,
+    request: AIGenerationRequest,
+    onToken: AITokenHandler
+  ): Promise<AIGenerationResult> {
+    if (provider.stream) {
+      return provider.stream(request, onToken);
+    }
+
+    // Providers without streaming answer in a single chunk
+    const result = await provider.generate(request);
+    onToken(result.content);
+
+    return result;
+  }
+
+  private getCircuitBreaker(name: AIModel): CircuitBreaker {
+    let circuitBreaker = this.circuitBreakers.get(name);
+
+    if (!circuitBreaker) {
+      circuitBreaker = new CircuitBreaker({
+        failureThreshold: config.AI_CIRCUIT_BREAKER_THRESHOLD,
+        cooldownMs: config.AI_CIRCUIT_BREAKER_COOLDOWN
+      });
+      this.circuitBreakers.set(name, circuitBreaker);
+    }
+
+    return circuitBreaker;
+  }
+
+  /**
+   * Resolve a registered provider, rejecting names the registry does not know
+   */
+  private getProvider(model: AIModel): AIProvider {
+    const provider = this.registry.get(model);
+
+    if (!provider) {
+      throw new Error(`Unsupported AI model: ${model}`);
+    }
+
+    return provider;
   }
 }
 
-export const aiService = new AIService();
+export const aiService = new AIService(providerRegistry);
@@ -0,0 +1,93 @@
+import { createHash, randomBytes } from 'crypto';
+import { logger } from '../config/logger';
+import { ApiKeysModel } from '../models/api-keys.model';
+import { ApiKeyIdentity, ApiKeySummary, ApiKeyTier, IssuedApiKey } from '../types/api-key';
+
+const API_KEY_PREFIX = 'alu_';
+const API_KEY_SECRET_BYTES = 24;
+const API_KEY_DISPLAY_LENGTH = 12;
+
+/**
+ * API Key Service for programmatic clients
+ * Keys are random and only their SHA-256 hash is stored, so a lost key can only be rotated
+ */
+export class ApiKeyService {
+
+  async issueKey(name: string, tier: ApiKeyTier): Promise<IssuedApiKey> {
+    const key = this.generateKey();
+    const apiKey = await ApiKeysModel.create(name, tier, this.getDisplayPrefix(key), this.hashKey(key));
+
+    logger.info('API key issued', { id: apiKey.id, tier });
+
+    return { api_key: apiKey, key };
+  }
+
+  /**
+   * Replace the key with a new one; the old key stops working immediately
+   * Returns null when the key does not exist or was revoked
+   */
+  async rotateKey(id: number): Promise<IssuedApiKey | null> {
+    const key = this.generateKey();
+    const apiKey = await ApiKeysModel.updateHash(id, this.getDisplayPrefix(key), this.hashKey(key));
+
+    if (!apiKey) {
+      return null;
+    }
+
+    logger.info('API key rotated', { id });
+
+    return { api_key: apiKey, key };
+  }
+
+  async revokeKey(id: number): Promise<ApiKeySummary | null> {
+    const apiKey = await ApiKeysModel.revoke(id);
+
+    if (apiKey) {
+      logger.info('API key revoked', { id });
+    }
+
+    return apiKey;
+  }
+
+  async listKeys(): Promise<ApiKeySummary[]> {
+    return ApiKeysModel.findAll();
+  }
+
+  async getKey(id: number): Promise<ApiKeySummary | null> {
+    return ApiKeysModel.findById(id);
+  }
+
+  /**
+   * Identity of an active key, null for unknown, malformed or revoked keys
+   */
+  async authenticate(key: string): Promise<ApiKeyIdentity | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await ApiKeysModel.findActiveByHash(this.hashKey(key));
+
+    if (!apiKey) {
+      return null;
+    }
+
+    // Bookkeeping only, so the request does not wait for it
+    ApiKeysModel.updateLastUsed(apiKey.id).catch(() => undefined);
+
+    return { id: apiKey.id, name: apiKey.name, tier: apiKey.tier };
+  }
+
+  hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  private generateKey(): string {
+    return `${API_KEY_PREFIX}${randomBytes(API_KEY_SECRET_BYTES).toString('base64url')}`;
+  }
+
+  private getDisplayPrefix(key: string): string {
+    return key.slice(0, API_KEY_DISPLAY_LENGTH);
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
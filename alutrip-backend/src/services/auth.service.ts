@@ -0,0 +1,176 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { config } from '../config/env';
+import { logger } from '../config/logger';
+import { UsersModel } from '../models/users.model';
+import { AuthResult, AuthTokenPayload, PublicUser, User } from '../types/auth';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const PASSWORD_KEY_LENGTH = 64;
+const PASSWORD_SALT_BYTES = 16;
+const TOKEN_HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+// Postgres unique_violation, raised when two registrations race for the same email
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Auth Service for user registration, login and access tokens
+ * Passwords are hashed with scrypt and tokens are HS256 JWTs signed with JWT_SECRET
+ */
+export class AuthService {
+
+  /**
+   * Create an account and sign in; returns null when the email is already registered
+   */
+  async register(email: string, password: string, name?: string): Promise<AuthResult | null> {
+    const normalizedEmail = email.trim().toLowerCase();
+
+    try {
+      if (await UsersModel.findByEmail(normalizedEmail)) {
+        return null;
+      }
+
+      const passwordHash = await this.hashPassword(password);
+      const user = await UsersModel.create(normalizedEmail, passwordHash, name);
+
+      logger.info('User registered', { userId: user.id });
+
+      return this.buildAuthResult(user);
+
+    } catch (error) {
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        return null;
+      }
+
+      logger.error('Failed to register user', {
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Check the credentials and sign in; returns null when they do not match an account
+   */
+  async login(email: string, password: string): Promise<AuthResult | null> {
+    try {
+      const user = await UsersModel.findByEmail(email.trim().toLowerCase());
+
+      if (!user || !(await this.verifyPassword(password, user.password_hash))) {
+        logger.warn('Failed login attempt');
+        return null;
+      }
+
+      await UsersModel.updateLastLogin(user.id);
+
+      logger.info('User logged in', { userId: user.id });
+
+      return this.buildAuthResult(user);
+
+    } catch (error) {
+      logger.error('Failed to log user in', {
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+
+  async getUser(id: number): Promise<PublicUser | null> {
+    const user = await UsersModel.findById(id);
+    return user ? this.toPublicUser(user) : null;
+  }
+
+  /**
+   * Hash a password as `scrypt:<salt>:<key>` (hex encoded)
+   */
+  async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(PASSWORD_SALT_BYTES);
+    const key = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+
+    return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+  }
+
+  async verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [algorithm, salt, expected] = passwordHash.split(':');
+
+    if (algorithm !== 'scrypt' || !salt || !expected) {
+      return false;
+    }
+
+    const expectedKey = Buffer.from(expected, 'hex');
+    const key = await scryptAsync(password, Buffer.from(salt, 'hex'), expectedKey.length);
+
+    return timingSafeEqual(key, expectedKey);
+  }
+
+  signToken(user: Pick<User, 'id' | 'email'>, now: number = Date.now()): string {
+    const issuedAt = Math.floor(now / 1000);
+    const payload: AuthTokenPayload = {
+      sub: user.id,
+      email: user.email,
+      iat: issuedAt,
+      exp: issuedAt + config.JWT_EXPIRES_IN
+    };
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    return `${TOKEN_HEADER}.${encodedPayload}.${this.sign(`${TOKEN_HEADER}.${encodedPayload}`)}`;
+  }
+
+  /**
+   * Payload of a token with a valid signature that has not expired, null otherwise
+   */
+  verifyToken(token: string): AuthTokenPayload | null {
+    const [header, payload, signature] = token.split('.');
+
+    if (header !== TOKEN_HEADER || !payload || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(`${header}.${payload}`));
+    const received = Buffer.from(signature);
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      return null;
+    }
+
+    try {
+      const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as AuthTokenPayload;
+
+      if (typeof decoded.sub !== 'number' || typeof decoded.exp !== 'number') {
+        return null;
+      }
+
+      return decoded.exp * 1000 > Date.now() ? decoded : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(data: string): string {
+    return createHmac('sha256', config.JWT_SECRET).update(data).digest('base64url');
+  }
+
+  private buildAuthResult(user: User): AuthResult {
+    const now = Date.now();
+
+    return {
+      user: this.toPublicUser(user),
+      token: this.signToken(user, now),
+      expires_at: new Date(now + config.JWT_EXPIRES_IN * 1000).toISOString()
+    };
+  }
+
+  private toPublicUser(user: User): PublicUser {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name ?? null,
+      created_at: user.created_at,
+      updated_at: user.updated_at,
+      last_login_at: user.last_login_at ?? null
+    };
+  }
+}
+
+export const authService = new AuthService();
@@ -0,0 +1,261 @@
+import { aiService } from './ai.service';
+import { TravelQuestionsModel } from '../models/travel-questions.model';
+import { ConversationsModel } from '../models/conversations.model';
+import { MessagesModel } from '../models/messages.model';
+import { logger } from '../config/logger';
+import { isRequestOwner } from '../middleware/session';
+import {
+  ChatMessageRequest,
+  ChatMessageResponse,
+  ChatTurn,
+  Conversation,
+  ConversationResponse,
+  Message,
+  TravelQuestion
+} from '../types/travel';
+import { RequestOwner } from '../types/session';
+
+/**
+ * Maximum number of prior messages passed to the AI as context.
+ * Older turns are dropped to keep prompts within the provider token limits.
+ */
+const MAX_CONTEXT_MESSAGES = 20;
+
+const MAX_TITLE_LENGTH = 100;
+
+/**
+ * Chat Service for multi-turn conversations on top of travel questions
+ * A conversation starts from an answered travel question and accumulates follow-up messages
+ */
+export class ChatService {
+
+  /**
+   * Continue (or start) the caller's conversation anchored on a travel question
+   * Questions the caller did not ask are reported as not found
+   */
+  async continueConversation(
+    questionId: number,
+    request: ChatMessageRequest,
+    owner: RequestOwner
+  ): Promise<ChatMessageResponse> {
+    const { message } = request;
+    const { sessionId, userId } = owner;
+
+    try {
+      const question = await TravelQuestionsModel.findById(questionId);
+
+      if (!question || !isRequestOwner(question, owner)) {
+        throw new Error('Travel question not found');
+      }
+
+      const model = request.model || question.model_used;
+      const locale = request.locale || question.locale;
+
+      logger.info('Continuing conversation', {
+        questionId,
+        model,
+        messageLength: message.length,
+        sessionId,
+        userId
+      });
+
+      const conversation = await this.getOrCreateConversation(question, owner);
+      const history = await MessagesModel.findByConversationId(conversation.id);
+
+      const aiResponse = await aiService.processConversation(
+        message,
+        this.buildContext(history),
+        model,
+        conversation.session_id,
+        locale
+      );
+
+      await MessagesModel.create(conversation.id, 'question', message);
+      const responseMessage = await MessagesModel.create(
+        conversation.id,
+        'response',
+        aiResponse.content,
+        aiResponse.model_used
+      );
+
+      logger.info('Conversation continued successfully', {
+        conversationId: conversation.id,
+        messageId: responseMessage.id,
+        questionId,
+        model: aiResponse.model_used,
+        processingTime: `${aiResponse.processing_time_ms}ms`,
+        historyLength: history.length
+      });
+
+      return {
+        conversation_id: conversation.id,
+        session_id: conversation.session_id,
+        message_id: responseMessage.id,
+        response: responseMessage.content,
+        model_used: aiResponse.model_used,
+        created_at: responseMessage.created_at.toISOString()
+      };
+
+    } catch (error) {
+      logger.error('Failed to continue conversation', {
+        error: (error as Error).message,
+        questionId,
+        sessionId,
+        userId
+      });
+
+      if ((error as Error & { provider?: string }).provider) {
+        throw new Error(`AI service error: ${(error as Error).message}`);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Get a conversation of the caller with all of its messages; null when it does not exist or is someone else's
+   */
+  async getConversation(id: number, owner: RequestOwner): Promise<ConversationResponse | null> {
+    try {
+      const conversation = await ConversationsModel.findById(id);
+
+      if (!conversation || !isRequestOwner(conversation, owner)) {
+        return null;
+      }
+
+      const messages = await MessagesModel.findByConversationId(id);
+
+      return this.formatConversationResponse(conversation, messages);
+
+    } catch (error) {
+      logger.error('Failed to get conversation', {
+        error: (error as Error).message,
+        id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all conversations (with messages) of the caller's user and session
+   */
+  async getHistory(owner: RequestOwner): Promise<ConversationResponse[]> {
+    if (!owner.sessionId && !owner.userId) {
+      return [];
+    }
+
+    try {
+      const conversations = await ConversationsModel.findByOwner(owner);
+
+      return await Promise.all(
+        conversations.map(async conversation => {
+          const messages = await MessagesModel.findByConversationId(conversation.id);
+          return this.formatConversationResponse(conversation, messages);
+        })
+      );
+
+    } catch (error) {
+      logger.error('Failed to get conversation history', {
+        error: (error as Error).message,
+        ...owner
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a conversation of the caller and all its messages; false when it does not exist or is someone else's
+   */
+  async deleteConversation(id: number, owner: RequestOwner): Promise<boolean> {
+    try {
+      const conversation = await ConversationsModel.findById(id);
+
+      if (!conversation || !isRequestOwner(conversation, owner)) {
+        return false;
+      }
+
+      return await ConversationsModel.delete(id);
+    } catch (error) {
+      logger.error('Failed to delete conversation', {
+        error: (error as Error).message,
+        id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Find the caller's conversation for a question, creating it (seeded with the original Q&A) on first use
+   */
+  private async getOrCreateConversation(
+    question: TravelQuestion,
+    owner: RequestOwner
+  ): Promise<Conversation> {
+    const existing = await ConversationsModel.findByInitialQuestionId(question.id, owner);
+
+    if (existing) {
+      return existing;
+    }
+
+    const conversation = await ConversationsModel.create(
+      owner.sessionId || this.generateSessionId(),
+      question.id,
+      this.buildTitle(question.question),
+      owner.userId
+    );
+
+    await MessagesModel.create(conversation.id, 'question', question.question);
+    await MessagesModel.create(conversation.id, 'response', question.response, question.model_used);
+
+    return conversation;
+  }
+
+  /**
+   * Keep only the most recent turns as AI context
+   */
+  private buildContext(history: Message[]): ChatTurn[] {
+    return history
+      .slice(-MAX_CONTEXT_MESSAGES)
+      .map(message => ({
+        message_type: message.message_type,
+        content: message.content
+      }));
+  }
+
+  private buildTitle(question: string): string {
+    const title = question.trim();
+    return title.length > MAX_TITLE_LENGTH
+      ? `${title.substring(0, MAX_TITLE_LENGTH - 3)}...`
+      : title;
+  }
+
+  private generateSessionId(): string {
+    return `sess_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  }
+
+  /**
+   * Format conversation for API response
+   */
+  private formatConversationResponse(
+    conversation: Conversation,
+    messages: Message[]
+  ): ConversationResponse {
+    return {
+      id: conversation.id,
+      session_id: conversation.session_id,
+      initial_question_id: conversation.initial_question_id,
+      ...(conversation.title && { title: conversation.title }),
+      created_at: conversation.created_at.toISOString(),
+      updated_at: conversation.updated_at.toISOString(),
+      messages: messages.map(message => ({
+        id: message.id,
+        type: message.message_type,
+        content: message.content,
+        ...(message.model_used && { model_used: message.model_used }),
+        created_at: message.created_at.toISOString()
+      }))
+    };
+  }
+}
+
+export const chatService = new ChatService();
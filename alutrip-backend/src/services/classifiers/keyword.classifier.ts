@@ -0,0 +1,51 @@
+import { NON_TRAVEL_KEYWORDS, TRAVEL_KEYWORDS } from '../../constants/keywords';
+import { TopicClassifier, TopicDecision } from '../../types/ai';
+
+const countMatches = (text: string, keywords: string[]): number => {
+  return keywords.reduce((score, keyword) => score + (text.includes(keyword) ? 1 : 0), 0);
+};
+
+/**
+ * Substring matches against TRAVEL_KEYWORDS and NON_TRAVEL_KEYWORDS
+ * Prioritizes usability by being permissive: any travel keyword accepts the question,
+ * and questions without keywords of either list are accepted
+ */
+export class KeywordTopicClassifier implements TopicClassifier {
+  readonly name = 'keyword' as const;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async classify(text: string): Promise<TopicDecision> {
+    const lowerText = text.toLowerCase().trim();
+    const travelScore = countMatches(lowerText, TRAVEL_KEYWORDS);
+    const nonTravelScore = countMatches(lowerText, NON_TRAVEL_KEYWORDS);
+
+    // Smoothed share of the matches, so a single keyword is not a certain decision
+    if (travelScore > 0) {
+      return {
+        travel: true,
+        confidence: (travelScore + 1) / (travelScore + nonTravelScore + 2),
+        reason: `${travelScore} travel and ${nonTravelScore} non-travel keywords`,
+        classifier: this.name
+      };
+    }
+
+    if (nonTravelScore > 0) {
+      return {
+        travel: false,
+        confidence: (nonTravelScore + 1) / (nonTravelScore + 2),
+        reason: `${nonTravelScore} non-travel keywords without travel context`,
+        classifier: this.name
+      };
+    }
+
+    return {
+      travel: true,
+      confidence: 0.5,
+      reason: 'No topic keywords, accepted by default',
+      classifier: this.name
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { config } from '../../config/env';
+import { TopicClassifier, TopicDecision } from '../../types/ai';
+import { AIProviderRegistry, providerRegistry } from '../providers/registry';
+
+const JUDGE_SYSTEM_PROMPT = `Você classifica perguntas enviadas a um assistente de viagens.
+Uma pergunta é sobre viagem quando trata de destinos, passeios, hospedagem, transporte, comida ou
+documentos de uma viagem, planejamento, orçamento, clima ou segurança de uma viagem.
+Responda apenas com JSON no formato {"travel": boolean, "confidence": número de 0.5 a 1, "reason": "string curta"}.`;
+
+const judgeResponseSchema = z.object({
+  travel: z.boolean(),
+  confidence: z.number().min(0).max(1),
+  reason: z.string().min(1)
+});
+
+/**
+ * Asks the TOPIC_LLM_JUDGE_MODEL provider whether a question is about travel
+ * Slower and paid, so it is meant to settle the decisions other classifiers are unsure about
+ */
+export class LLMJudgeTopicClassifier implements TopicClassifier {
+  readonly name = 'llm' as const;
+  private registry: AIProviderRegistry;
+
+  constructor(registry: AIProviderRegistry = providerRegistry) {
+    this.registry = registry;
+  }
+
+  isAvailable(): boolean {
+    return this.registry.get(config.TOPIC_LLM_JUDGE_MODEL)?.isAvailable() ?? false;
+  }
+
+  async classify(text: string): Promise<TopicDecision> {
+    const provider = this.registry.get(config.TOPIC_LLM_JUDGE_MODEL);
+
+    if (!provider) {
+      throw new Error(`Topic judge model ${config.TOPIC_LLM_JUDGE_MODEL} is not registered`);
+    }
+
+    const result = await provider.generate({
+      systemPrompt: JUDGE_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: text }],
+      temperature: 0,
+      maxTokens: 150,
+      responseFormat: 'json'
+    });
+
+    const judgement = judgeResponseSchema.parse(JSON.parse(result.content));
+
+    return {
+      travel: judgement.travel,
+      confidence: Math.max(judgement.confidence, 0.5),
+      reason: judgement.reason,
+      classifier: this.name
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import { TOPIC_TRAINING_SET } from '../../constants/topic-training-set';
+import { LabeledQuestion, TopicClassifier, TopicDecision } from '../../types/ai';
+
+// Words too common to say anything about the subject (English and Portuguese)
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'to', 'of', 'in', 'on', 'at', 'for', 'and', 'or', 'with', 'my', 'i', 'me',
+  'o', 'os', 'as', 'um', 'uma', 'de', 'do', 'da', 'dos', 'das', 'em', 'no', 'na', 'para', 'e', 'ou', 'com', 'meu'
+]);
+
+// Number of words reported in the reason of a decision
+const REASON_WORDS = 3;
+
+interface ClassCounts {
+  documents: number;
+  words: number;
+  wordCounts: Map<string, number>;
+}
+
+const tokenize = (text: string): string[] => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word));
+};
+
+const emptyCounts = (): ClassCounts => ({ documents: 0, words: 0, wordCounts: new Map() });
+
+/**
+ * Multinomial naive Bayes over the words of the question, trained on labeled questions
+ * (TOPIC_TRAINING_SET by default) with add-one smoothing
+ * Unlike keyword matching it weighs every word, so "car insurance claim" is declined
+ * while "where to eat in Porto" is accepted
+ */
+export class NaiveBayesTopicClassifier implements TopicClassifier {
+  readonly name = 'naive_bayes' as const;
+  private travel = emptyCounts();
+  private nonTravel = emptyCounts();
+  private vocabulary = new Set<string>();
+
+  constructor(examples: LabeledQuestion[] = TOPIC_TRAINING_SET) {
+    for (const example of examples) {
+      this.train(example);
+    }
+  }
+
+  isAvailable(): boolean {
+    return this.travel.documents > 0 && this.nonTravel.documents > 0;
+  }
+
+  async classify(text: string): Promise<TopicDecision> {
+    const words = tokenize(text).filter(word => this.vocabulary.has(word));
+
+    // Questions without any known word are accepted, as the keyword classifier does
+    if (words.length === 0) {
+      return {
+        travel: true,
+        confidence: 0.5,
+        reason: 'No known words, accepted by default',
+        classifier: this.name
+      };
+    }
+
+    const totalDocuments = this.travel.documents + this.nonTravel.documents;
+    let travelLog = Math.log(this.travel.documents / totalDocuments);
+    let nonTravelLog = Math.log(this.nonTravel.documents / totalDocuments);
+    const weights = new Map<string, number>();
+
+    for (const word of words) {
+      const travelWeight = this.wordLogProbability(this.travel, word);
+      const nonTravelWeight = this.wordLogProbability(this.nonTravel, word);
+
+      travelLog += travelWeight;
+      nonTravelLog += nonTravelWeight;
+      weights.set(word, travelWeight - nonTravelWeight);
+    }
+
+    const travel = travelLog >= nonTravelLog;
+    // Posterior of the chosen class: 1 / (1 + e^-(difference of the log probabilities))
+    const confidence = 1 / (1 + Math.exp(-Math.abs(travelLog - nonTravelLog)));
+    const indicativeWords = [...weights.entries()]
+      .filter(([, weight]) => (travel ? weight > 0 : weight < 0))
+      .sort(([, a], [, b]) => Math.abs(b) - Math.abs(a))
+      .slice(0, REASON_WORDS)
+      .map(([word]) => word);
+
+    return {
+      travel,
+      confidence,
+      reason: indicativeWords.length > 0
+        ? `Words most indicative of ${travel ? 'travel' : 'other topics'}: ${indicativeWords.join(', ')}`
+        : `Prior of ${travel ? 'travel' : 'other'} questions`,
+      classifier: this.name
+    };
+  }
+
+  private train(example: LabeledQuestion): void {
+    const counts = example.travel ? this.travel : this.nonTravel;
+    counts.documents++;
+
+    for (const word of tokenize(example.text)) {
+      counts.words++;
+      counts.wordCounts.set(word, (counts.wordCounts.get(word) ?? 0) + 1);
+      this.vocabulary.add(word);
+    }
+  }
+
+  private wordLogProbability(counts: ClassCounts, word: string): number {
+    return Math.log(((counts.wordCounts.get(word) ?? 0) + 1) / (counts.words + this.vocabulary.size));
+  }
+}
@@ -0,0 +1,56 @@
+import { config } from '../config/env';
+import { logger } from '../config/logger';
+import { EmbeddingProvider, EmbeddingProviderName } from '../types/ai';
+import { GeminiEmbeddingProvider } from './providers/gemini-embedding.provider';
+import { LocalEmbeddingProvider } from './providers/local-embedding.provider';
+
+const EMBEDDING_PROVIDERS: Record<EmbeddingProviderName, () => EmbeddingProvider> = {
+  local: () => new LocalEmbeddingProvider(),
+  gemini: () => new GeminiEmbeddingProvider()
+};
+
+/**
+ * Provider selected by EMBEDDING_PROVIDER; the local provider is used when it is not configured
+ */
+export const createEmbeddingProvider = (name: EmbeddingProviderName = config.EMBEDDING_PROVIDER): EmbeddingProvider => {
+  const provider = EMBEDDING_PROVIDERS[name]();
+
+  if (!provider.isAvailable()) {
+    logger.warn('Embedding provider is not configured, using the local provider', { provider: name });
+    return EMBEDDING_PROVIDERS.local();
+  }
+
+  return provider;
+};
+
+/**
+ * Embedding Service for comparing travel questions by meaning
+ */
+export class EmbeddingService {
+  private provider: EmbeddingProvider;
+
+  constructor(provider: EmbeddingProvider = createEmbeddingProvider()) {
+    this.provider = provider;
+  }
+
+  /**
+   * Name stored with each vector
+   */
+  get modelName(): string {
+    return this.provider.name;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    try {
+      return await this.provider.embed(text);
+    } catch (error) {
+      logger.error('Failed to compute embedding', {
+        provider: this.provider.name,
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+}
+
+export const embeddingService = new EmbeddingService();
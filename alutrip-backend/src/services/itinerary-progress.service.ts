@@ -0,0 +1,147 @@
+import { EventEmitter } from 'events';
+import { getItineraryQueueEvents } from '../config/queue';
+import { logger } from '../config/logger';
+import {
+  ItineraryJobStage,
+  ItineraryProgress,
+  ItineraryProgressEvent,
+  ItineraryProgressHandler,
+  ProcessingStatus
+} from '../types/travel';
+
+// Share of the progress reported as soon as generation starts
+const GENERATION_START_PERCENT = 10;
+
+export type ItineraryProgressListener = (event: ItineraryProgressEvent) => void;
+
+/**
+ * Itinerary Progress Service for pushing the lifecycle of itinerary generation to subscribed clients
+ * Queued jobs report through BullMQ job.updateProgress, read back from the queue events; direct processing publishes here
+ */
+export class ItineraryProgressService {
+  private emitter = new EventEmitter();
+  private listening = false;
+
+  constructor() {
+    // One listener per open stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Call the listener with every progress event of the itinerary; returns the function that unsubscribes it
+   */
+  subscribe(itineraryId: number, listener: ItineraryProgressListener): () => void {
+    this.listen();
+
+    const channel = this.getChannel(itineraryId);
+    this.emitter.on(channel, listener);
+
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  publish(event: ItineraryProgressEvent): void {
+    this.emitter.emit(this.getChannel(event.itinerary_id), event);
+  }
+
+  /**
+   * Run the processing of an itinerary outside the queue, publishing its progress the way a queued job reports it
+   */
+  async track(itineraryId: number, process: (onProgress: ItineraryProgressHandler) => Promise<void>): Promise<void> {
+    this.publish(this.fromStage(itineraryId, 'generating_content'));
+
+    try {
+      await process(progress => this.publish(this.fromGeneration(itineraryId, progress)));
+    } catch (error) {
+      this.publish(this.fromStage(itineraryId, 'failed'));
+      throw error;
+    }
+
+    this.publish(this.fromStage(itineraryId, 'completed'));
+  }
+
+  /**
+   * Event of a generation step: content chunks and the PDF, never below the share reported when generation starts
+   */
+  fromGeneration(itineraryId: number, progress: ItineraryProgress): ItineraryProgressEvent {
+    return {
+      itinerary_id: itineraryId,
+      stage: progress.stage === 'pdf' ? 'generating_pdf' : 'generating_content',
+      percent: Math.max(GENERATION_START_PERCENT, progress.percent),
+      completed_chunks: progress.completed_chunks,
+      total_chunks: progress.total_chunks
+    };
+  }
+
+  /**
+   * Event of a lifecycle stage without chunk counts; started generation reports its start share
+   */
+  fromStage(itineraryId: number, stage: ItineraryJobStage): ItineraryProgressEvent {
+    const percent: Record<ItineraryJobStage, number> = {
+      queued: 0,
+      generating_content: GENERATION_START_PERCENT,
+      generating_pdf: GENERATION_START_PERCENT,
+      completed: 100,
+      failed: 0
+    };
+
+    return { itinerary_id: itineraryId, stage, percent: percent[stage] };
+  }
+
+  /**
+   * Current stage of an itinerary from its stored status, sent first so late subscribers do not wait for the next event
+   */
+  fromStatus(itineraryId: number, status: ProcessingStatus): ItineraryProgressEvent {
+    const stages: Record<ProcessingStatus, ItineraryJobStage> = {
+      pending: 'queued',
+      processing: 'generating_content',
+      completed: 'completed',
+      failed: 'failed'
+    };
+
+    return this.fromStage(itineraryId, stages[status]);
+  }
+
+  isFinal(event: ItineraryProgressEvent): boolean {
+    return event.stage === 'completed' || event.stage === 'failed';
+  }
+
+  /**
+   * Relay the progress of queued jobs, started on the first subscription so processes that never stream stay off Redis
+   * Jobs queued before progress events existed report bare percentages, which are not relayed
+   */
+  private listen(): void {
+    if (this.listening) {
+      return;
+    }
+
+    this.listening = true;
+
+    getItineraryQueueEvents().on('progress', ({ jobId, data }) => {
+      if (!this.isProgressEvent(data)) {
+        return;
+      }
+
+      logger.debug('Itinerary job progress received', {
+        context: 'queue',
+        jobId,
+        itineraryId: data.itinerary_id,
+        stage: data.stage,
+        percent: data.percent
+      });
+
+      this.publish(data);
+    });
+  }
+
+  private isProgressEvent(data: unknown): data is ItineraryProgressEvent {
+    return typeof data === 'object' && data !== null && 'itinerary_id' in data && 'stage' in data;
+  }
+
+  private getChannel(itineraryId: number): string {
+    return `itinerary:${itineraryId}`;
+  }
+}
+
+export const itineraryProgressService = new ItineraryProgressService();
@@ -0,0 +1,260 @@
+import { logger } from '../config/logger';
+import { ItinerariesModel } from '../models/itineraries.model';
+import { ItineraryVersionsModel } from '../models/itinerary-versions.model';
+import { pdfService } from './pdf.service';
+import {
+  Itinerary,
+  ItineraryActivity,
+  ItineraryDay,
+  ItineraryDayDiff,
+  ItineraryFieldChange,
+  ItineraryTextDiffLine,
+  ItineraryVersion,
+  ItineraryVersionDiff,
+  ItineraryVersionSummary,
+  StructuredItinerary
+} from '../types/travel';
+
+/**
+ * Fields compared between two structured versions, with how to read each one
+ */
+const COMPARED_FIELDS: Array<[string, (itinerary: StructuredItinerary) => unknown]> = [
+  ['title', itinerary => itinerary.title],
+  ['introduction', itinerary => itinerary.introduction],
+  ['practical_info', itinerary => itinerary.practical_info],
+  ['lodging_options', itinerary => itinerary.lodging_options.map(option => option.name)],
+  ['transfers', itinerary => (itinerary.transfers ?? []).map(transfer =>
+    `${transfer.from} → ${transfer.to} (${transfer.mode})`)],
+  ['budget.total', itinerary => itinerary.budget.total],
+  ['extra_tips', itinerary => itinerary.extra_tips]
+];
+
+export class ItineraryVersionService {
+  /**
+   * Versions of an itinerary without their content, newest first
+   */
+  static async listVersions(itineraryId: number): Promise<ItineraryVersionSummary[]> {
+    try {
+      return await ItineraryVersionsModel.findByItineraryId(itineraryId);
+    } catch (error) {
+      logger.error('Failed to get itinerary versions', {
+        error: (error as Error).message,
+        itineraryId
+      });
+      throw error;
+    }
+  }
+
+  static async getVersion(itineraryId: number, versionNumber: number): Promise<ItineraryVersion | null> {
+    try {
+      return await ItineraryVersionsModel.findByVersion(itineraryId, versionNumber);
+    } catch (error) {
+      logger.error('Failed to get itinerary version', {
+        error: (error as Error).message,
+        itineraryId,
+        versionNumber
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Compare two versions; without `to` the latest version is used, without `from` the one before `to`
+   * Returns null when either version does not exist
+   */
+  static async diffVersions(
+    itineraryId: number,
+    fromVersion?: number,
+    toVersion?: number
+  ): Promise<ItineraryVersionDiff | null> {
+    const to = toVersion
+      ? await ItineraryVersionsModel.findByVersion(itineraryId, toVersion)
+      : await ItineraryVersionsModel.findLatest(itineraryId);
+
+    if (!to) {
+      return null;
+    }
+
+    const from = await ItineraryVersionsModel.findByVersion(itineraryId, fromVersion ?? to.version_number - 1);
+
+    if (!from) {
+      return null;
+    }
+
+    return this.compareVersions(from, to);
+  }
+
+  /**
+   * Field and day level changes between structured versions; a line diff when either one is plain text
+   */
+  static compareVersions(from: ItineraryVersion, to: ItineraryVersion): ItineraryVersionDiff {
+    const changes: ItineraryFieldChange[] = [];
+
+    if (from.model_used !== to.model_used) {
+      changes.push({ field: 'model_used', from: from.model_used, to: to.model_used });
+    }
+
+    if (!from.structured_content || !to.structured_content) {
+      return {
+        from_version: from.version_number,
+        to_version: to.version_number,
+        changes,
+        days: [],
+        text_changes: this.diffLines(from.generated_content, to.generated_content)
+      };
+    }
+
+    for (const [field, read] of COMPARED_FIELDS) {
+      const before = read(from.structured_content);
+      const after = read(to.structured_content);
+
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        changes.push({ field, from: before, to: after });
+      }
+    }
+
+    return {
+      from_version: from.version_number,
+      to_version: to.version_number,
+      changes,
+      days: this.diffDays(from.structured_content.days, to.structured_content.days),
+      text_changes: []
+    };
+  }
+
+  /**
+   * Bring back the content of a previous version as a new version
+   * The version PDF is reused while it still exists, otherwise it is rebuilt; returns null for unknown versions
+   */
+  static async restoreVersion(itinerary: Itinerary, versionNumber: number): Promise<ItineraryVersion | null> {
+    const version = await ItineraryVersionsModel.findByVersion(itinerary.id, versionNumber);
+
+    if (!version) {
+      return null;
+    }
+
+    let pdfFilename = version.pdf_filename;
+    let pdfPath = version.pdf_path;
+
+    if (!pdfFilename || !pdfPath || !(await pdfService.pdfExists(pdfPath))) {
+      const pdfInfo = await pdfService.generateItineraryPDF(
+        itinerary,
+        version.generated_content,
+        version.structured_content
+      );
+      pdfFilename = pdfInfo.filename;
+      pdfPath = pdfInfo.filepath;
+    }
+
+    await ItinerariesModel.updateContent(
+      itinerary.id,
+      version.generated_content,
+      version.model_used,
+      pdfFilename,
+      pdfPath,
+      version.structured_content
+    );
+
+    const restored = await ItineraryVersionsModel.create(
+      itinerary.id,
+      'restore',
+      version.generated_content,
+      version.structured_content,
+      version.model_used,
+      { request_data: itinerary.request_data, restored_from: versionNumber },
+      pdfFilename,
+      pdfPath
+    );
+
+    logger.info('Itinerary version restored', {
+      context: 'itinerary',
+      itineraryId: itinerary.id,
+      restoredFrom: versionNumber,
+      versionNumber: restored.version_number
+    });
+
+    return restored;
+  }
+
+  private static diffDays(fromDays: ItineraryDay[], toDays: ItineraryDay[]): ItineraryDayDiff[] {
+    const dayNumbers = [...new Set([...fromDays, ...toDays].map(day => day.day))].sort((a, b) => a - b);
+
+    return dayNumbers.map(dayNumber => {
+      const before = fromDays.find(day => day.day === dayNumber);
+      const after = toDays.find(day => day.day === dayNumber);
+      const beforeActivities = (before?.activities ?? []).map(activity => this.describeActivity(activity));
+      const afterActivities = (after?.activities ?? []).map(activity => this.describeActivity(activity));
+      const diff: ItineraryDayDiff = {
+        day: dayNumber,
+        status: 'unchanged',
+        added_activities: afterActivities.filter(activity => !beforeActivities.includes(activity)),
+        removed_activities: beforeActivities.filter(activity => !afterActivities.includes(activity))
+      };
+
+      if (!before || !after) {
+        diff.status = before ? 'removed' : 'added';
+        return diff;
+      }
+
+      if (before.title !== after.title) {
+        diff.title = { from: before.title, to: after.title };
+      }
+
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        diff.status = 'changed';
+      }
+
+      return diff;
+    });
+  }
+
+  private static describeActivity(activity: ItineraryActivity): string {
+    return `${activity.start_time} ${activity.title}`;
+  }
+
+  /**
+   * Lines only present in one of the texts, from their longest common subsequence
+   */
+  private static diffLines(fromText: string, toText: string): ItineraryTextDiffLine[] {
+    const fromLines = fromText.split('\n').map(line => line.trim()).filter(Boolean);
+    const toLines = toText.split('\n').map(line => line.trim()).filter(Boolean);
+    // common[i][j]: length of the longest common subsequence of fromLines[i..] and toLines[j..]
+    const common: number[][] = Array.from({ length: fromLines.length + 1 }, () =>
+      new Array<number>(toLines.length + 1).fill(0));
+    const commonAt = (i: number, j: number): number => common[i]?.[j] ?? 0;
+
+    for (let i = fromLines.length - 1; i >= 0; i--) {
+      const row = common[i] ?? [];
+
+      for (let j = toLines.length - 1; j >= 0; j--) {
+        row[j] = fromLines[i] === toLines[j]
+          ? commonAt(i + 1, j + 1) + 1
+          : Math.max(commonAt(i + 1, j), commonAt(i, j + 1));
+      }
+    }
+
+    const changes: ItineraryTextDiffLine[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < fromLines.length || j < toLines.length) {
+      const fromLine = fromLines[i];
+      const toLine = toLines[j];
+
+      if (fromLine !== undefined && fromLine === toLine) {
+        i++;
+        j++;
+      } else if (toLine !== undefined && (fromLine === undefined || commonAt(i, j + 1) >= commonAt(i + 1, j))) {
+        changes.push({ type: 'added', line: toLine });
+        j++;
+      } else {
+        changes.push({ type: 'removed', line: fromLine ?? '' });
+        i++;
+      }
+    }
+
+    return changes;
+  }
+}
+
+export const itineraryVersionService = ItineraryVersionService;
@@ -1,14 +1,46 @@
 import { logger } from '../config/logger';
+import { config } from '../config/env';
 import { ItinerariesModel } from '../models/itineraries.model';
+import { ItineraryRevisionsModel } from '../models/itinerary-revisions.model';
+import { ItineraryVersionsModel } from '../models/itinerary-versions.model';
 import { aiService } from './ai.service';
+import { aiUsageService } from './ai-usage.service';
 import { pdfService } from './pdf.service';
+import { promptTemplateService } from './prompt-template.service';
+import { formatDate, getMessages } from '../locales';
+import { PromptDaySummary, PromptMessages } from '../types/i18n';
+import { PromptTemplate } from '../types/prompt-template';
+import {
+  StructuredParseResult,
+  parseItineraryDaysChunk,
+  parseItineraryOverview,
+  parseStructuredItinerary
+} from '../schemas/itinerary-content.schemas';
 import { 
   Itinerary, 
   ItineraryRequestData, 
   ProcessingStatus, 
-  AIModel 
+  AIModel,
+  AIServiceResponse,
+  ItineraryCorrection,
+  ItineraryDay,
+  ItineraryDayRegeneration,
+  ItineraryGenerationStage,
+  ItineraryLeg,
+  ItineraryOverview,
+  ItineraryProgressHandler,
+  ItineraryRevision,
+  StructuredItinerary
 } from '../types/travel';
 
+interface GeneratedItineraryContent extends AIServiceResponse {
+  structured_content: StructuredItinerary | null;
+  total_chunks: number;
+}
+
+// Share of the job progress covered by AI generation; the rest is the PDF
+const GENERATION_PROGRESS_SHARE = 90;
+
 /**
  * Itinerary Service for handling travel itinerary generation and management
  * Integrates with AI services for content generation and PDF services for document creation
@@ -21,14 +53,17 @@ export class ItineraryService {
   static async createItinerary(
     clientIp: string,
     requestData: ItineraryRequestData,
-    sessionId?: string
+    sessionId?: string,
+    userId?: number
   ): Promise<Itinerary> {
     try {
       logger.info('Creating itinerary request', {
         clientIp,
+        userId,
         destination: requestData.destination,
         startDate: requestData.start_date,
-        endDate: requestData.end_date
+        endDate: requestData.end_date,
+        model: requestData.model
       });
 
       // Parse dates
@@ -43,7 +78,8 @@ export class ItineraryService {
         requestData,
         sessionId,
         requestData.budget,
-        requestData.interests
+        requestData.interests,
+        userId
       );
 
       logger.info('Itinerary request created successfully', {
@@ -65,8 +101,14 @@ export class ItineraryService {
 
   /**
    * Process itinerary generation (for background job)
+   * A failed attempt that will be retried leaves the itinerary pending, so only the last one reports it as failed
    */
-  static async processItinerary(itineraryId: number): Promise<void> {
+  static async processItinerary(
+    itineraryId: number,
+    model?: AIModel,
+    onProgress?: ItineraryProgressHandler,
+    lastAttempt = true
+  ): Promise<void> {
     const startTime = Date.now();
     
     try {
@@ -83,19 +125,51 @@ export class ItineraryService {
 
       await ItinerariesModel.updateStatus(itineraryId, 'processing');
 
-      // Generate AI content
-      const generatedContent = await this.generateItineraryContent(itinerary);
+      const template = await promptTemplateService.assign('itineraries', itinerary.request_data.locale);
+      await ItinerariesModel.updatePromptVersion(itineraryId, template?.version ?? 0);
 
-      const modelUsed: AIModel = 'groq';
+      // Generate AI content (the model may differ from the preferred one after failover)
+      const generated = await this.generateItineraryContent(
+        itinerary,
+        model || itinerary.request_data.model,
+        onProgress,
+        template
+      );
+      const {
+        content: generatedContent,
+        model_used: modelUsed,
+        structured_content: structuredContent,
+        total_chunks: totalChunks
+      } = generated;
+
+      await onProgress?.({
+        stage: 'pdf',
+        completed_chunks: totalChunks,
+        total_chunks: totalChunks,
+        percent: GENERATION_PROGRESS_SHARE
+      });
 
       // Generate PDF
-      const pdfInfo = await pdfService.generateItineraryPDF(itinerary, generatedContent);
+      const pdfInfo = await pdfService.generateItineraryPDF(itinerary, generatedContent, structuredContent);
 
       await ItinerariesModel.updateContent(
         itineraryId,
         generatedContent,
         modelUsed,
         pdfInfo.filename,
+        pdfInfo.filepath,
+        structuredContent,
+        aiUsageService.summarize(generated)
+      );
+
+      await ItineraryVersionsModel.create(
+        itineraryId,
+        'generation',
+        generatedContent,
+        structuredContent,
+        modelUsed,
+        { request_data: itinerary.request_data, total_chunks: totalChunks },
+        pdfInfo.filename,
         pdfInfo.filepath
       );
 
@@ -108,6 +182,7 @@ export class ItineraryService {
         itineraryId,
         processingTime: `${processingTime}ms`,
         contentLength: generatedContent.length,
+        structured: !!structuredContent,
         pdfFilename: pdfInfo.filename
       });
 
@@ -121,36 +196,181 @@ export class ItineraryService {
         processingTime: `${processingTime}ms`
       });
 
-      await ItinerariesModel.updateStatus(itineraryId, 'failed');
+      await ItinerariesModel.updateStatus(itineraryId, lastAttempt ? 'failed' : 'pending');
 
       throw error;
     }
   }
 
+  /**
+   * Rewrite a single day of a completed itinerary, optionally following the traveler's feedback
+   * The rest of the itinerary is kept, the PDF is rebuilt and the change is stored as a revision and a new version
+   */
+  static async regenerateDay(
+    itinerary: Itinerary,
+    dayNumber: number,
+    feedback?: string,
+    requestedModel?: AIModel
+  ): Promise<ItineraryDayRegeneration> {
+    const structured = itinerary.structured_content;
+    const previousDay = structured?.days.find(day => day.day === dayNumber);
+
+    if (!structured || !previousDay) {
+      throw new Error(`Itinerary day ${dayNumber} not found`);
+    }
+
+    const model = requestedModel || itinerary.request_data.model || aiService.getDefaultModel('itineraries');
+
+    if (!model) {
+      throw new Error('No AI provider available for itinerary generation');
+    }
+
+    logger.info('Regenerating itinerary day', {
+      context: 'itinerary',
+      itineraryId: itinerary.id,
+      dayNumber,
+      hasFeedback: !!feedback,
+      model
+    });
+
+    // The day is rewritten with the prompts the itinerary was generated with
+    const template = await promptTemplateService.getVersion(
+      'itineraries',
+      itinerary.request_data.locale ?? config.DEFAULT_LOCALE,
+      itinerary.prompt_version
+    );
+
+    const { response, data } = await this.requestStructuredContent(
+      itinerary,
+      this.buildDayRegenerationPrompt(itinerary, structured, previousDay, feedback),
+      model,
+      'days',
+      template,
+      raw => this.checkDaysChunk(parseItineraryDaysChunk(raw), [dayNumber])
+    );
+    const generatedDay = data?.days[0];
+
+    if (!generatedDay) {
+      throw new Error(`Failed to regenerate a valid itinerary day ${dayNumber}`);
+    }
+
+    // The date belongs to the trip, not the AI
+    const newDay: ItineraryDay = { ...generatedDay, date: previousDay.date };
+    const updated: StructuredItinerary = {
+      ...structured,
+      days: structured.days.map(day => day.day === dayNumber ? newDay : day)
+    };
+    const content = JSON.stringify(updated);
+
+    const pdfInfo = await pdfService.generateItineraryPDF(itinerary, content, updated);
+
+    // The itinerary keeps the model that generated it; the revision records the one that rewrote the day
+    await ItinerariesModel.updateContent(
+      itinerary.id,
+      content,
+      itinerary.model_used,
+      pdfInfo.filename,
+      pdfInfo.filepath,
+      updated,
+      aiUsageService.summarize(response)
+    );
+
+    // The previous PDF is kept: it still belongs to the previous version
+    const revision = await ItineraryRevisionsModel.create(
+      itinerary.id,
+      dayNumber,
+      previousDay,
+      newDay,
+      response.model_used,
+      feedback
+    );
+
+    await ItineraryVersionsModel.create(
+      itinerary.id,
+      'day_regeneration',
+      content,
+      updated,
+      response.model_used,
+      {
+        request_data: itinerary.request_data,
+        day_number: dayNumber,
+        ...(feedback && { feedback })
+      },
+      pdfInfo.filename,
+      pdfInfo.filepath
+    );
+
+    logger.info('Itinerary day regenerated successfully', {
+      context: 'itinerary',
+      itineraryId: itinerary.id,
+      dayNumber,
+      revisionNumber: revision.revision_number,
+      modelUsed: response.model_used,
+      pdfFilename: pdfInfo.filename
+    });
+
+    return { day: newDay, revision, pdf_filename: pdfInfo.filename };
+  }
+
   /**
    * Generate itinerary content using AI
+   * Trips longer than ITINERARY_DAYS_PER_CHUNK are generated in chunks; shorter ones in a single request whose
+   * raw text is kept without structured content when it never passes validation
    */
-  private static async generateItineraryContent(itinerary: Itinerary): Promise<string> {
+  private static async generateItineraryContent(
+    itinerary: Itinerary,
+    requestedModel?: AIModel,
+    onProgress?: ItineraryProgressHandler,
+    template: PromptTemplate | null = null
+  ): Promise<GeneratedItineraryContent> {
     try {
       logger.info('Generating AI content for itinerary', {
         context: 'itinerary',
         itineraryId: itinerary.id,
-        destination: itinerary.destination
+        destination: itinerary.destination,
+        requestedModel
       });
 
+      const model = requestedModel || aiService.getDefaultModel('itineraries');
+
+      if (!model) {
+        throw new Error('No AI provider available for itinerary generation');
+      }
+
+      const duration = this.getTripDuration(itinerary);
+
+      if (duration > config.ITINERARY_DAYS_PER_CHUNK) {
+        return await this.generateChunkedItineraryContent(itinerary, model, duration, onProgress, template);
+      }
+
       // Build comprehensive prompt for itinerary generation
-      const prompt = this.buildItineraryPrompt(itinerary);
+      const prompt = this.buildItineraryPrompt(itinerary, template);
+
+      const { response, data } = await this.requestStructuredContent(
+        itinerary,
+        prompt,
+        model,
+        'full',
+        template,
+        raw => this.checkTransfers(parseStructuredItinerary(raw), itinerary)
+      );
 
-      const aiResponse = await aiService.processItineraryRequest(prompt, 'groq');
+      if (!data) {
+        logger.warn('Keeping unstructured itinerary content after validation attempts', {
+          context: 'itinerary',
+          itineraryId: itinerary.id,
+          maxAttempts: this.getMaxAttempts()
+        });
+      }
 
-      logger.info('AI content generated successfully', {
-        context: 'itinerary',
-        itineraryId: itinerary.id,
-        contentLength: aiResponse.content.length,
-        modelUsed: aiResponse.model_used
+      await onProgress?.({
+        stage: 'generating',
+        completed_chunks: 1,
+        total_chunks: 1,
+        percent: GENERATION_PROGRESS_SHARE
       });
 
-      return aiResponse.content;
+      return { ...response, structured_content: data, total_chunks: 1 };
 
     } catch (error) {
       logger.error('Failed to generate AI content for itinerary', {
@@ -163,98 +383,437 @@ export class ItineraryService {
   }
 
   /**
-   * Build comprehensive prompt for itinerary generation
+   * Generate a long itinerary in chunks: an overview with a one-line plan per day, then batches of days
+   * that share the overview and a summary of the days already written, merged into one itinerary
+   * Failover may answer chunks with different models; model_used is the one that wrote most of them
    */
-  private static buildItineraryPrompt(itinerary: Itinerary): string {
+  private static async generateChunkedItineraryContent(
+    itinerary: Itinerary,
+    model: AIModel,
+    duration: number,
+    onProgress?: ItineraryProgressHandler,
+    template: PromptTemplate | null = null
+  ): Promise<GeneratedItineraryContent> {
+    const dates = this.getTripDates(itinerary, duration);
+    const batches: number[][] = [];
+
+    for (let day = 1; day <= duration; day += config.ITINERARY_DAYS_PER_CHUNK) {
+      const last = Math.min(day + config.ITINERARY_DAYS_PER_CHUNK - 1, duration);
+      batches.push(Array.from({ length: last - day + 1 }, (_, index) => day + index));
+    }
 
-    // Calculate trip duration
-    const startDate = new Date(itinerary.start_date);
-    const endDate = new Date(itinerary.end_date);
-    const duration = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-
-    // Format dates
-    const formatDate = (date: Date) => {
-      return date.toLocaleDateString('pt-BR', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
+    const totalChunks = batches.length + 1;
+    const responses: AIServiceResponse[] = [];
+
+    logger.info('Generating itinerary in chunks', {
+      context: 'itinerary',
+      itineraryId: itinerary.id,
+      duration,
+      totalChunks
+    });
+
+    const overviewResult = await this.requestStructuredContent(
+      itinerary,
+      this.buildOverviewPrompt(itinerary, dates),
+      model,
+      'overview',
+      template,
+      raw => this.checkTransfers(this.checkOverview(parseItineraryOverview(raw), duration), itinerary)
+    );
+
+    if (!overviewResult.data) {
+      throw new Error('Failed to generate a valid itinerary overview');
+    }
+
+    const overview = overviewResult.data;
+    const days: ItineraryDay[] = [];
+    responses.push(overviewResult.response);
+
+    await onProgress?.({
+      stage: 'overview',
+      completed_chunks: 1,
+      total_chunks: totalChunks,
+      percent: Math.round(GENERATION_PROGRESS_SHARE / totalChunks)
+    });
+
+    for (const [index, batch] of batches.entries()) {
+      const chunkResult = await this.requestStructuredContent(
+        itinerary,
+        this.buildDaysChunkPrompt(itinerary, overview, days, batch, dates),
+        model,
+        'days',
+        template,
+        raw => this.checkDaysChunk(parseItineraryDaysChunk(raw), batch)
+      );
+
+      if (!chunkResult.data) {
+        throw new Error(`Failed to generate valid itinerary days ${batch[0]}-${batch[batch.length - 1]}`);
+      }
+
+      // Dates come from the request, not the AI, so chunks always line up with the trip
+      days.push(...chunkResult.data.days.map(day => ({ ...day, date: dates[day.day - 1] || day.date })));
+      responses.push(chunkResult.response);
+
+      await onProgress?.({
+        stage: 'days',
+        completed_chunks: index + 2,
+        total_chunks: totalChunks,
+        percent: Math.round(GENERATION_PROGRESS_SHARE * (index + 2) / totalChunks)
+      });
+    }
+
+    const structured: StructuredItinerary = {
+      title: overview.title,
+      introduction: overview.introduction,
+      practical_info: overview.practical_info,
+      days,
+      lodging_options: overview.lodging_options,
+      ...(overview.transfers && { transfers: overview.transfers }),
+      budget: overview.budget,
+      extra_tips: overview.extra_tips
+    };
+    const chunkModels = responses.map(response => response.model_used);
+
+    logger.info('Chunked itinerary generated successfully', {
+      context: 'itinerary',
+      itineraryId: itinerary.id,
+      totalChunks,
+      days: days.length,
+      chunkModels
+    });
+
+    return {
+      content: JSON.stringify(structured),
+      model_used: this.getMainModel(chunkModels),
+      ...this.sumUsage(responses),
+      structured_content: structured,
+      total_chunks: totalChunks
+    };
+  }
+
+  /**
+   * Request JSON from the AI until it passes validation
+   * Invalid answers are re-requested with the validation errors; data is null once the attempts run out
+   * The response carries the usage of every attempt
+   */
+  private static async requestStructuredContent<T>(
+    itinerary: Itinerary,
+    prompt: string,
+    model: AIModel,
+    stage: ItineraryGenerationStage,
+    template: PromptTemplate | null,
+    parse: (raw: string) => StructuredParseResult<T>
+  ): Promise<{ response: AIServiceResponse; data: T | null }> {
+    const maxAttempts = this.getMaxAttempts();
+    const attempts: AIServiceResponse[] = [];
+    let correction: ItineraryCorrection | undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      const aiResponse = await aiService.processItineraryRequest(
+        prompt,
+        model,
+        undefined,
+        correction,
+        stage,
+        itinerary.request_data.locale,
+        template
+      );
+
+      attempts.push(aiResponse);
+
+      const parsed = parse(aiResponse.content);
+
+      if (parsed.success) {
+        logger.info('AI content generated successfully', {
+          context: 'itinerary',
+          itineraryId: itinerary.id,
+          stage,
+          contentLength: aiResponse.content.length,
+          modelUsed: aiResponse.model_used,
+          attempt
+        });
+
+        return { response: { ...aiResponse, ...this.sumUsage(attempts) }, data: parsed.data };
+      }
+
+      logger.warn('AI itinerary failed structured validation', {
+        context: 'itinerary',
+        itineraryId: itinerary.id,
+        stage,
+        modelUsed: aiResponse.model_used,
+        attempt,
+        maxAttempts,
+        errors: parsed.errors.slice(0, 10)
       });
+
+      if (attempt >= maxAttempts) {
+        return { response: { ...aiResponse, ...this.sumUsage(attempts) }, data: null };
+      }
+
+      correction = {
+        previous_content: aiResponse.content,
+        errors: parsed.errors.slice(0, 10)
+      };
+    }
+  }
+
+  /**
+   * Model that answered most chunks; on a tie the one that answered first, which wrote the overview
+   */
+  private static getMainModel(chunkModels: AIModel[]): AIModel {
+    const counts = new Map<AIModel, number>();
+
+    for (const model of chunkModels) {
+      counts.set(model, (counts.get(model) || 0) + 1);
+    }
+
+    return [...counts.entries()].reduce((main, entry) => (entry[1] > main[1] ? entry : main))[0];
+  }
+
+  /**
+   * Tokens, time and cost of several AI responses, so rejected attempts and chunks are accounted for
+   */
+  private static sumUsage(
+    responses: AIServiceResponse[]
+  ): Pick<AIServiceResponse, 'token_usage' | 'processing_time_ms' | 'cost_usd'> {
+    return {
+      token_usage: responses.reduce((total, response) => ({
+        prompt_tokens: total.prompt_tokens + (response.token_usage?.prompt_tokens || 0),
+        completion_tokens: total.completion_tokens + (response.token_usage?.completion_tokens || 0),
+        total_tokens: total.total_tokens + (response.token_usage?.total_tokens || 0)
+      }), { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }),
+      processing_time_ms: responses.reduce((total, response) => total + response.processing_time_ms, 0),
+      cost_usd: responses.reduce((total, response) => total + (response.cost_usd || 0), 0)
     };
+  }
 
-    let prompt = `
-Por favor, crie um roteiro detalhado de viagem com as seguintes informações:
+  /**
+   * The overview must plan every day of the trip
+   */
+  private static checkOverview(
+    parsed: StructuredParseResult<ItineraryOverview>,
+    duration: number
+  ): StructuredParseResult<ItineraryOverview> {
+    if (parsed.success && parsed.data.day_outline.length !== duration) {
+      return {
+        success: false,
+        errors: [`day_outline: Expected ${duration} days, received ${parsed.data.day_outline.length}`]
+      };
+    }
 
-🎯 INFORMAÇÕES DA VIAGEM:
-- Destino: ${itinerary.destination}
-- Data de início: ${formatDate(startDate)}
-- Data de término: ${formatDate(endDate)}
-- Duração: ${duration} dia${duration > 1 ? 's' : ''}`;
+    return parsed;
+  }
 
-    if (itinerary.budget) {
-      prompt += `\n- Orçamento: $${itinerary.budget.toLocaleString()} USD`;
+  /**
+   * A chunk must contain exactly the days it was asked for
+   */
+  private static checkDaysChunk(
+    parsed: StructuredParseResult<{ days: ItineraryDay[] }>,
+    batch: number[]
+  ): StructuredParseResult<{ days: ItineraryDay[] }> {
+    if (!parsed.success) {
+      return parsed;
     }
 
-    if (itinerary.interests && itinerary.interests.length > 0) {
-      prompt += `\n- Interesses específicos: ${itinerary.interests.join(', ')}`;
+    const received = parsed.data.days.map(day => day.day);
+
+    if (received.length !== batch.length || received.some((day, index) => day !== batch[index])) {
+      return {
+        success: false,
+        errors: [`days: Expected days ${batch.join(', ')}, received ${received.join(', ') || 'none'}`]
+      };
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Multi-destination trips need a transfer recommendation for every change of leg
+   */
+  private static checkTransfers<T extends { transfers?: StructuredItinerary['transfers'] }>(
+    parsed: StructuredParseResult<T>,
+    itinerary: Itinerary
+  ): StructuredParseResult<T> {
+    const expected = this.getLegs(itinerary).length - 1;
+
+    if (parsed.success && expected > 0 && (parsed.data.transfers?.length || 0) < expected) {
+      return {
+        success: false,
+        errors: [`transfers: Expected ${expected} transfers between legs, received ${parsed.data.transfers?.length || 0}`]
+      };
     }
 
-    prompt += `
+    return parsed;
+  }
+
+  private static getMaxAttempts(): number {
+    return Math.max(1, config.ITINERARY_STRUCTURED_MAX_ATTEMPTS || 1);
+  }
+
+  /**
+   * Trip duration in days, as shown to the AI and in the PDF
+   */
+  private static getTripDuration(itinerary: Itinerary): number {
+    const startDate = new Date(itinerary.start_date);
+    const endDate = new Date(itinerary.end_date);
+    return Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
+  }
+
+  /**
+   * Calendar date (YYYY-MM-DD) of each trip day, starting at the requested start date
+   */
+  private static getTripDates(itinerary: Itinerary, duration: number): string[] {
+    const start = new Date(`${itinerary.request_data.start_date}T00:00:00.000Z`);
+
+    return Array.from({ length: duration }, (_, index) => {
+      const date = new Date(start);
+      date.setUTCDate(start.getUTCDate() + index);
+      return date.toISOString().slice(0, 10);
+    });
+  }
+
+  private static getLegs(itinerary: Itinerary): ItineraryLeg[] {
+    return itinerary.request_data.legs || [];
+  }
+
+  /**
+   * City for a trip date on multi-destination trips; transfer days belong to the leg that starts on them
+   */
+  private static getLegDestination(itinerary: Itinerary, date: string | undefined): string | undefined {
+    return this.getLegs(itinerary).filter(leg => date && leg.start_date <= date).pop()?.destination;
+  }
 
-📋 ESTRUTURA OBRIGATÓRIA DO ROTEIRO:
+  /**
+   * Prompt messages in the language of the itinerary
+   */
+  private static getPrompts(itinerary: Itinerary): PromptMessages {
+    return getMessages(itinerary.request_data.locale).prompts;
+  }
 
-1. **Introdução ao Destino**
-   - Breve descrição do destino
-   - Melhor época para visitar
-   - Dicas climáticas para as datas da viagem
+  /**
+   * Instructions for the transfers between legs, empty for single-destination trips
+   */
+  private static buildTransfersInstructions(itinerary: Itinerary): string {
+    const legs = this.getLegs(itinerary);
 
-2. **Informações Práticas**
-   - Documentação necessária
-   - Moeda local e dicas de câmbio
-   - Transporte no destino
-   - Segurança e dicas importantes
+    if (legs.length < 2) {
+      return '';
+    }
 
-3. **Roteiro Diário Detalhado**
-   Para cada dia (Dia 1, Dia 2, etc.), inclua:
-   - **Manhã (9h-12h):** Atividade principal, como chegar, tempo necessário
-   - **Almoço (12h-14h):** Sugestão de restaurante com faixa de preço
-   - **Tarde (14h-18h):** Atividade secundária, dicas de aproveitamento
-   - **Jantar (19h-21h):** Sugestão de restaurante diferente do almoço
-   - **Noite (21h+):** Atividade noturna ou descanso
+    return this.getPrompts(itinerary).transfers(legs.slice(1).map((leg, index) => ({
+      from: legs[index]?.destination || '',
+      to: leg.destination,
+      date: leg.start_date
+    })));
+  }
 
-4. **Sugestões de Hospedagem**
-   - 3 opções de hospedagem com faixas de preço diferentes
-   - Localização e vantagens de cada uma
+  /**
+   * Build comprehensive prompt for itinerary generation, from the prompt template when one was assigned
+   * Public so the evaluation harness sends the same prompt as production
+   */
+  static buildItineraryPrompt(itinerary: Itinerary, template: PromptTemplate | null = null): string {
+    if (template) {
+      return promptTemplateService.render(template.user_prompt, {
+        trip_info: this.buildTripInfo(itinerary),
+        start_date: itinerary.request_data.start_date,
+        transfers: this.buildTransfersInstructions(itinerary)
+      });
+    }
 
-5. **Orçamento Estimado**
-   - Breakdown por categoria (hospedagem, alimentação, transporte, atrações)
-   - Dicas para economizar
-   - Custos por pessoa
+    return this.buildTripInfo(itinerary) + this.getPrompts(itinerary).itinerary(
+      itinerary.request_data.start_date,
+      this.buildTransfersInstructions(itinerary)
+    );
+  }
 
-6. **Dicas Extras**
-   - O que levar na mala
-   - Aplicativos úteis
-   - Frases básicas no idioma local (se aplicável)
-   - Souvenirs típicos
+  /**
+   * Trip details shared by every itinerary prompt
+   */
+  private static buildTripInfo(itinerary: Itinerary): string {
+    const locale = itinerary.request_data.locale;
+
+    return this.getPrompts(itinerary).tripInfo({
+      destination: itinerary.destination,
+      startDate: formatDate(itinerary.start_date, locale),
+      endDate: formatDate(itinerary.end_date, locale),
+      duration: this.getTripDuration(itinerary),
+      legs: this.getLegs(itinerary),
+      budget: itinerary.budget,
+      interests: itinerary.interests
+    });
+  }
 
-🎨 FORMATO DA RESPOSTA:
-- Use títulos claros (Dia 1, Dia 2, etc.)
-- Inclua horários específicos
-- Mencione preços aproximados quando possível
-- Seja específico com nomes de restaurantes, atrações e locais
-- Inclua dicas práticas e links importantes quando relevante
-- Mantenha um tom entusiasmado e inspirador
+  /**
+   * Prompt for the first chunk of a long trip: overview, lodging, budget and a plan for every day
+   */
+  private static buildOverviewPrompt(itinerary: Itinerary, dates: string[]): string {
+    return this.buildTripInfo(itinerary) +
+      this.getPrompts(itinerary).overview(dates, this.buildTransfersInstructions(itinerary));
+  }
 
-🚨 IMPORTANTE:
-- O roteiro deve ser detalhado e prático
-- Considere tempo de deslocamento entre atividades
-- Adapte as sugestões ao orçamento informado
-- Inclua pelo menos uma atividade gratuita por dia
-- Considere as datas específicas para eventos sazonais
+  /**
+   * Prompt for a batch of days, sharing the overview and the days already generated to avoid repetition
+   */
+  private static buildDaysChunkPrompt(
+    itinerary: Itinerary,
+    overview: ItineraryOverview,
+    previousDays: ItineraryDay[],
+    batch: number[],
+    dates: string[]
+  ): string {
+    return this.buildTripInfo(itinerary) + this.getPrompts(itinerary).daysChunk({
+      title: overview.title,
+      lodging: overview.lodging_options.map(option => `${option.name} (${option.neighborhood})`),
+      outline: overview.day_outline.map(day => ({
+        day: day.day,
+        date: dates[day.day - 1] || day.date,
+        title: day.title
+      })),
+      previousDays: previousDays.map(day => this.summarizeDay(day)),
+      days: batch.map(day => ({
+        day,
+        date: dates[day - 1] || '',
+        city: this.getLegDestination(itinerary, dates[day - 1])
+      }))
+    });
+  }
 
-Crie um roteiro completo e inspirador que torne esta viagem inesquecível!`;
+  /**
+   * Prompt to rewrite one day, sharing the rest of the itinerary to avoid repeating places
+   */
+  private static buildDayRegenerationPrompt(
+    itinerary: Itinerary,
+    structured: StructuredItinerary,
+    day: ItineraryDay,
+    feedback?: string
+  ): string {
+    return this.buildTripInfo(itinerary) + this.getPrompts(itinerary).dayRegeneration({
+      title: structured.title,
+      otherDays: structured.days.filter(other => other.day !== day.day).map(other => this.summarizeDay(other)),
+      day: {
+        day: day.day,
+        date: day.date,
+        city: this.getLegDestination(itinerary, day.date),
+        title: day.title
+      },
+      activities: day.activities.map(activity => ({
+        startTime: activity.start_time,
+        title: activity.title,
+        place: activity.place.name
+      })),
+      feedback
+    });
+  }
 
-    return prompt;
+  /**
+   * Day already written, listed in prompts so its places are not repeated
+   */
+  private static summarizeDay(day: ItineraryDay): PromptDaySummary {
+    return {
+      day: day.day,
+      title: day.title,
+      places: day.activities.map(activity => activity.place.name)
+    };
   }
 
   /**
@@ -272,6 +831,21 @@ Crie um roteiro completo e inspirador que torne esta viagem inesquecível!`;
     }
   }
 
+  /**
+   * Day revisions of an itinerary, newest first
+   */
+  static async getRevisions(itineraryId: number): Promise<ItineraryRevision[]> {
+    try {
+      return await ItineraryRevisionsModel.findByItineraryId(itineraryId);
+    } catch (error) {
+      logger.error('Failed to get itinerary revisions', {
+        error: (error as Error).message,
+        itineraryId
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get recent itineraries with pagination
    */
@@ -325,6 +899,42 @@ Crie um roteiro completo e inspirador que torne esta viagem inesquecível!`;
     }
   }
 
+  /**
+   * Get itineraries requested by a user, newest first
+   */
+  static async getUserItineraries(
+    userId: number,
+    limit: number = 10,
+    offset: number = 0
+  ): Promise<Itinerary[]> {
+    try {
+      return await ItinerariesModel.findByUserId(userId, limit, offset);
+    } catch (error) {
+      logger.error('Failed to get user itineraries', {
+        error: (error as Error).message,
+        userId,
+        limit,
+        offset
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get itineraries requested in an anonymous session, oldest first
+   */
+  static async getSessionItineraries(sessionId: string): Promise<Itinerary[]> {
+    try {
+      return await ItinerariesModel.findBySessionId(sessionId);
+    } catch (error) {
+      logger.error('Failed to get session itineraries', {
+        error: (error as Error).message,
+        sessionId
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get pending itineraries for processing
    */
@@ -382,6 +992,13 @@ Crie um roteiro completo e inspirador que torne esta viagem inesquecível!`;
     return completionTime;
   }
 
+  /**
+   * Validate if the specified model is available
+   */
+  static validateModel(model: AIModel): boolean {
+    return aiService.getModelInfo()[model]?.available ?? false;
+  }
+
   /**
    * Validate itinerary request data
    */
@@ -401,12 +1018,12 @@ Crie um roteiro completo e inspirador que torne esta viagem inesquecível!`;
       throw new Error('End date must be after start date');
     }
 
-    // Check maximum trip duration (7 days)
+    // Check maximum trip duration (longer trips are generated in chunks)
     const diffTime = Math.abs(end.getTime() - start.getTime());
     const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
     
-    if (diffDays > 7) {
-      throw new Error('Trip duration cannot exceed 7 days');
+    if (diffDays > config.ITINERARY_MAX_DAYS) {
+      throw new Error(`Trip duration cannot exceed ${config.ITINERARY_MAX_DAYS} days`);
     }
   }
 
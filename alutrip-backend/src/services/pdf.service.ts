@@ -1,11 +1,19 @@
 import PdfPrinter from 'pdfmake';
-import { TDocumentDefinitions, TFontDictionary } from 'pdfmake/interfaces';
+import { Content, TDocumentDefinitions, TFontDictionary } from 'pdfmake/interfaces';
 import { promises as fs } from 'fs';
 import * as fsSync from 'fs';
 import path from 'path';
 import { logger } from '../config/logger';
 import { config } from '../config/env';
-import { Itinerary } from '../types/travel';
+import { formatDate, formatTime, getMessages } from '../locales';
+import { Locale } from '../types/i18n';
+import {
+  Itinerary,
+  ItineraryDay,
+  ItineraryLeg,
+  ItineraryTransfer,
+  StructuredItinerary
+} from '../types/travel';
 
 /**
  * PDF Service for generating professional travel itineraries
@@ -42,7 +50,8 @@ export class PDFService {
    */
   static async generateItineraryPDF(
     itinerary: Itinerary,
-    generatedContent: string
+    generatedContent: string,
+    structuredContent?: StructuredItinerary | null
   ): Promise<{ filename: string; filepath: string }> {
     const startTime = Date.now();
     
@@ -50,7 +59,8 @@ export class PDFService {
       logger.info('Starting PDF generation', {
         context: 'pdf',
         itineraryId: itinerary.id,
-        destination: itinerary.destination
+        destination: itinerary.destination,
+        structured: !!structuredContent
       });
 
       // Ensure PDFs directory exists
@@ -61,7 +71,7 @@ export class PDFService {
       const filepath = path.join(config.PDF_STORAGE_PATH, filename);
 
       // Create PDF document definition
-      const docDefinition = this.createItineraryDocDefinition(itinerary, generatedContent);
+      const docDefinition = this.createItineraryDocDefinition(itinerary, generatedContent, structuredContent);
 
       // Generate PDF
       const printer = this.getPrinter();
@@ -110,44 +120,41 @@ export class PDFService {
    */
   private static createItineraryDocDefinition(
     itinerary: Itinerary,
-    generatedContent: string
+    generatedContent: string,
+    structuredContent?: StructuredItinerary | null
   ): TDocumentDefinitions {
+    // Labels and dates follow the language the itinerary was requested in
+    const locale = itinerary.request_data.locale;
+    const { pdf } = getMessages(locale);
+
     // Calculate trip duration
     const startDate = new Date(itinerary.start_date);
     const endDate = new Date(itinerary.end_date);
     const duration = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
 
-    // Format dates
-    const formatDate = (date: Date) => {
-      return date.toLocaleDateString('pt-BR', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
-      });
-    };
-
-    // Parse content into structured sections
-    const parsedContent = this.parseItineraryContent(generatedContent);
+    // Render from validated data when available, otherwise parse the raw text
+    const parsedContent = structuredContent
+      ? this.buildStructuredContent(structuredContent, itinerary.request_data.legs, locale)
+      : this.parseItineraryContent(generatedContent);
 
     // Build trip info section
     const tripInfoColumns = [
       {
         width: '50%',
         stack: [
-          { text: 'Destino:', style: 'infoLabel' },
+          { text: pdf.destination, style: 'infoLabel' },
           { text: itinerary.destination, style: 'infoValue', margin: [0, 0, 0, 10] },
-          { text: 'Início:', style: 'infoLabel' },
-          { text: formatDate(startDate), style: 'infoValue', margin: [0, 0, 0, 10] }
+          { text: pdf.start, style: 'infoLabel' },
+          { text: formatDate(startDate, locale), style: 'infoValue', margin: [0, 0, 0, 10] }
         ]
       },
       {
         width: '50%',
         stack: [
-          { text: 'Duração:', style: 'infoLabel' },
-          { text: `${duration} dia${duration > 1 ? 's' : ''}`, style: 'infoValue', margin: [0, 0, 0, 10] },
-          { text: 'Termino:', style: 'infoLabel' },
-          { text: formatDate(endDate), style: 'infoValue', margin: [0, 0, 0, 10] }
+          { text: pdf.duration, style: 'infoLabel' },
+          { text: pdf.days(duration), style: 'infoValue', margin: [0, 0, 0, 10] },
+          { text: pdf.end, style: 'infoLabel' },
+          { text: formatDate(endDate, locale), style: 'infoValue', margin: [0, 0, 0, 10] }
         ]
       }
     ];
@@ -158,7 +165,7 @@ export class PDFService {
       {
         stack: [
           {
-            text: 'Roteiro de Viagem',
+            text: pdf.title,
             style: 'title',
             alignment: 'center',
             margin: [0, 10, 0, 10]
@@ -178,7 +185,7 @@ export class PDFService {
       {
         stack: [
           {
-            text: 'Informacoes da Viagem',
+            text: pdf.tripInformation,
             style: 'sectionHeader',
             margin: [0, 10, 0, 15]
           },
@@ -192,7 +199,7 @@ export class PDFService {
 
       // Main Content
       {
-        text: 'Seu Roteiro Personalizado',
+        text: pdf.personalizedItinerary,
         style: 'sectionHeader',
         margin: [0, 0, 0, 15]
       },
@@ -205,18 +212,33 @@ export class PDFService {
     if (itinerary.budget && contentArray[1] && contentArray[1].stack) {
       contentArray[1].stack.push({
         text: [
-          { text: 'Orçamento: ', style: 'infoLabel' },
+          { text: pdf.budget, style: 'infoLabel' },
           { text: itinerary.budget.toLocaleString(), style: 'infoValue' }
         ],
         margin: [0, 10, 0, 0]
       });
     }
 
+    // List the legs of multi-destination trips
+    const legs = itinerary.request_data.legs || [];
+    if (legs.length > 0 && contentArray[1] && contentArray[1].stack) {
+      contentArray[1].stack.push({
+        text: [
+          { text: pdf.legs, style: 'infoLabel' },
+          {
+            text: legs.map(leg => `${leg.destination} (${this.formatLegDates(leg, locale)})`).join(' → '),
+            style: 'infoValue'
+          }
+        ],
+        margin: [0, 10, 0, 0]
+      });
+    }
+
     // Add interests if available
     if (itinerary.interests && itinerary.interests.length > 0 && contentArray[1] && contentArray[1].stack) {
       contentArray[1].stack.push({
         text: [
-          { text: 'Interesses: ', style: 'infoLabel' },
+          { text: pdf.interests, style: 'infoLabel' },
           { text: itinerary.interests.join(', '), style: 'infoValue' }
         ],
         margin: [0, 10, 0, 0]
@@ -227,9 +249,9 @@ export class PDFService {
     contentArray.push({
       text: [
         { text: 'AluTrip\n', style: 'footerTitle' },
-        { text: 'Seu assistente de viagem inteligente\n', style: 'footer' },
+        { text: `${pdf.tagline}\n`, style: 'footer' },
         { 
-          text: `Gerado em ${new Date().toLocaleDateString('pt-BR')} as ${new Date().toLocaleTimeString('pt-BR')}`, 
+          text: pdf.generatedAt(formatDate(new Date(), locale, 'short'), formatTime(new Date(), locale)), 
           style: 'footer' 
         }
       ],
@@ -299,7 +321,7 @@ export class PDFService {
       pageSize: 'A4',
       pageMargins: [40, 60, 40, 60],
       info: {
-        title: `Roteiro de Viagem - ${itinerary.destination}`,
+        title: `${pdf.title} - ${itinerary.destination}`,
         author: 'AluTrip',
         subject: 'Travel Itinerary',
         creator: 'AluTrip Travel Assistant'
@@ -307,6 +329,236 @@ export class PDFService {
     };
   }
 
+  /**
+   * Build PDF sections from a validated structured itinerary
+   * Multi-destination trips get one section per leg, each opened by the transfer that leads to it
+   */
+  private static buildStructuredContent(
+    structured: StructuredItinerary,
+    legs: ItineraryLeg[] = [],
+    locale?: Locale
+  ): Content[] {
+    const { pdf } = getMessages(locale);
+    const formatUSD = (value: number) => `$${value.toLocaleString('en-US')}`;
+    const bullet = (text: string): Content => ({ text: `• ${text}`, style: 'contentText', margin: [15, 0, 0, 5] });
+    const tableHeader = (labels: string[]) => labels.map(label => ({ text: label, style: 'infoLabel' }));
+
+    const sections: Content[] = [
+      { text: structured.title, style: 'dayHeader' },
+      { text: structured.introduction, style: 'contentText' },
+
+      { text: pdf.practicalInfo, style: 'sectionHeader' },
+      ...([
+        [pdf.documentation, structured.practical_info.documentation],
+        [pdf.currency, structured.practical_info.currency],
+        [pdf.transport, structured.practical_info.transport],
+        [pdf.safety, structured.practical_info.safety]
+      ] as const).map(([label, value]): Content => ({
+        text: [
+          { text: `${label}: `, style: 'infoLabel' },
+          { text: value, style: 'infoValue' }
+        ],
+        margin: [0, 0, 0, 6]
+      }))
+    ];
+
+    const transfers = structured.transfers || [];
+    let currentLeg: ItineraryLeg | undefined;
+
+    for (const day of structured.days) {
+      const leg = legs.filter(candidate => candidate.start_date <= day.date).pop() || legs[0];
+
+      if (leg && leg !== currentLeg) {
+        const legIndex = legs.indexOf(leg);
+        const transfer = transfers.find(candidate => candidate.to === leg.destination) || transfers[legIndex - 1];
+
+        sections.push({
+          text: pdf.leg(legIndex + 1, leg.destination, this.formatLegDates(leg, locale)),
+          style: 'sectionHeader'
+        });
+
+        if (legIndex > 0 && transfer) {
+          sections.push(this.buildTransferBlock(transfer, locale));
+        }
+
+        currentLeg = leg;
+      }
+
+      sections.push(...this.buildDaySections(day, locale));
+    }
+
+    // Transfers without matching legs still get a section of their own
+    if (legs.length === 0 && transfers.length > 0) {
+      sections.push({ text: pdf.transfers, style: 'sectionHeader' });
+      sections.push(...transfers.map(transfer => this.buildTransferBlock(transfer, locale)));
+    }
+
+    // Multi-destination trips suggest lodging in each city
+    const withCity = structured.lodging_options.some(option => option.city);
+
+    const columns = pdf.lodgingColumns;
+
+    sections.push({ text: pdf.lodging, style: 'sectionHeader' });
+    sections.push({
+      table: {
+        headerRows: 1,
+        widths: withCity ? ['*', 60, 60, 70, 50, '*'] : ['*', 70, 80, 55, '*'],
+        body: [
+          tableHeader([
+            columns.name,
+            ...(withCity ? [columns.city] : []),
+            columns.category,
+            columns.neighborhood,
+            columns.pricePerNight,
+            columns.highlights
+          ]),
+          ...structured.lodging_options.map(option => [
+            { text: option.name, style: 'infoLabel' },
+            ...(withCity ? [{ text: option.city || '', style: 'infoValue' }] : []),
+            { text: pdf.lodgingCategories[option.category], style: 'infoValue' },
+            { text: option.neighborhood, style: 'infoValue' },
+            { text: formatUSD(option.price_per_night_usd), style: 'infoValue', alignment: 'right' },
+            { text: option.highlights, style: 'infoValue' }
+          ])
+        ]
+      },
+      layout: 'lightHorizontalLines',
+      margin: [0, 0, 0, 8]
+    });
+
+    const { budget } = structured;
+    const budgetRows: [string, number | undefined][] = [
+      [pdf.budgetCategories.lodging, budget.lodging],
+      [pdf.budgetCategories.food, budget.food],
+      [pdf.budgetCategories.transport, budget.transport],
+      [pdf.budgetCategories.attractions, budget.attractions],
+      [pdf.budgetCategories.other, budget.other]
+    ];
+
+    sections.push({ text: pdf.estimatedBudget, style: 'sectionHeader' });
+    sections.push({
+      table: {
+        headerRows: 1,
+        widths: ['*', 100],
+        body: [
+          tableHeader([pdf.budgetColumns.category, pdf.budgetColumns.value(budget.currency)]),
+          ...budgetRows
+            .filter((row): row is [string, number] => row[1] !== undefined)
+            .map(([label, value]) => [
+              { text: label, style: 'infoValue' },
+              { text: formatUSD(value), style: 'infoValue', alignment: 'right' }
+            ]),
+          [
+            { text: pdf.budgetColumns.total, style: 'infoLabel' },
+            { text: formatUSD(budget.total), style: 'infoLabel', alignment: 'right' }
+          ]
+        ]
+      },
+      layout: 'lightHorizontalLines',
+      margin: [0, 0, 0, 8]
+    });
+    sections.push(...budget.saving_tips.map(bullet));
+
+    if (structured.extra_tips.length > 0) {
+      sections.push({ text: pdf.extraTips, style: 'sectionHeader' });
+      sections.push(...structured.extra_tips.map(bullet));
+    }
+
+    return sections;
+  }
+
+  /**
+   * Activities table of one day, plus its rainy day alternative
+   */
+  private static buildDaySections(day: ItineraryDay, locale?: Locale): Content[] {
+    const { pdf } = getMessages(locale);
+    const formatUSD = (value: number) => `$${value.toLocaleString('en-US')}`;
+    const tableHeader = (labels: string[]) => labels.map(label => ({ text: label, style: 'infoLabel' }));
+    const sections: Content[] = [];
+
+    sections.push({ text: pdf.day(day.day, formatDate(day.date, locale, 'day'), day.title), style: 'dayHeader' });
+    sections.push({
+      table: {
+        headerRows: 1,
+        widths: [70, '*', 110, 55],
+        body: [
+          tableHeader([
+            pdf.activityColumns.time,
+            pdf.activityColumns.activity,
+            pdf.activityColumns.place,
+            pdf.activityColumns.cost
+          ]),
+          ...day.activities.map(activity => [
+            {
+              text: `${pdf.periods[activity.period]}\n${activity.start_time}` +
+                (activity.end_time ? ` - ${activity.end_time}` : ''),
+              style: 'infoValue'
+            },
+            {
+              stack: [
+                { text: activity.title, style: 'infoLabel' },
+                { text: activity.description, style: 'infoValue' },
+                ...(activity.tips ? [{ text: `${pdf.tip}${activity.tips}`, style: 'infoValue', italics: true }] : [])
+              ]
+            },
+            {
+              text: activity.place.address
+                ? `${activity.place.name}\n${activity.place.address}`
+                : activity.place.name,
+              style: 'infoValue'
+            },
+            { text: formatUSD(activity.estimated_cost_usd), style: 'infoValue', alignment: 'right' }
+          ])
+        ]
+      },
+      layout: 'lightHorizontalLines',
+      margin: [0, 0, 0, 8]
+    });
+
+    if (day.rainy_day_alternative) {
+      sections.push({
+        text: [
+          { text: pdf.rainyDay, style: 'infoLabel' },
+          { text: day.rainy_day_alternative, style: 'infoValue' }
+        ],
+        margin: [0, 0, 0, 8]
+      });
+    }
+
+    return sections;
+  }
+
+  /**
+   * Recommended transfer between two legs
+   */
+  private static buildTransferBlock(transfer: ItineraryTransfer, locale?: Locale): Content {
+    const { pdf } = getMessages(locale);
+
+    return {
+      stack: [
+        {
+          text: pdf.transfer(transfer.from, transfer.to, formatDate(transfer.date, locale, 'short')),
+          style: 'timeHeader'
+        },
+        {
+          text: [
+            { text: pdf.transferModes[transfer.mode], style: 'infoLabel' },
+            {
+              text: ` · ${transfer.duration} · $${transfer.estimated_cost_usd.toLocaleString('en-US')}`,
+              style: 'infoValue'
+            }
+          ]
+        },
+        { text: transfer.recommendation, style: 'contentText' }
+      ],
+      margin: [0, 0, 0, 8]
+    };
+  }
+
+  private static formatLegDates(leg: ItineraryLeg, locale?: Locale): string {
+    return `${formatDate(leg.start_date, locale, 'short')} - ${formatDate(leg.end_date, locale, 'short')}`;
+  }
+
   /**
    * Parse itinerary content into structured sections
    */
@@ -457,7 +709,12 @@ export class PDFService {
           end_date: new Date().toISOString()
         },
         generated_content: 'Test content',
-        model_used: 'groq'
+        model_used: 'groq',
+        prompt_version: 0,
+        prompt_tokens: 0,
+        completion_tokens: 0,
+        latency_ms: 0,
+        cost_usd: 0
       };
 
       const testContent = 'Health check test content for PDF generation.';
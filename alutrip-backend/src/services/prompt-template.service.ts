@@ -0,0 +1,174 @@
+import { config } from '../config/env';
+import { logger } from '../config/logger';
+import { PROMPT_VARIABLE_PATTERN } from '../constants/prompt-templates';
+import { PromptTemplatesModel } from '../models/prompt-templates.model';
+import { CreatePromptTemplateInput } from '../schemas/prompt-template.schemas';
+import { AIFeature } from '../types/ai';
+import { Locale } from '../types/i18n';
+import { PromptTemplate, PromptTemplateFilter, PromptTemplateVersionStats } from '../types/prompt-template';
+
+/**
+ * Outcome per template version over the last `days` days
+ */
+export interface PromptTemplateReport {
+  days: number;
+  feature: AIFeature;
+  rows: PromptTemplateVersionStats[];
+}
+
+/**
+ * Prompt Template Service for versioned prompts and their weighted A/B assignment
+ * Without an active version (weight above zero) requests use the built-in prompts of src/locales, version 0
+ */
+export class PromptTemplateService {
+  private activeTemplates = new Map<string, { templates: PromptTemplate[]; expiresAt: number }>();
+  private random: () => number;
+
+  constructor(random: () => number = Math.random) {
+    this.random = random;
+  }
+
+  /**
+   * Pick one of the active versions of the feature and locale in proportion to their weights
+   * Returns null for the built-in prompts, also when the templates cannot be loaded
+   */
+  async assign(feature: AIFeature, locale: Locale = config.DEFAULT_LOCALE): Promise<PromptTemplate | null> {
+    let templates: PromptTemplate[];
+
+    try {
+      templates = await this.getActiveTemplates(feature, locale);
+    } catch (error) {
+      logger.warn('Failed to load prompt templates, using the built-in prompts', {
+        feature,
+        locale,
+        error: (error as Error).message
+      });
+      return null;
+    }
+
+    const totalWeight = templates.reduce((total, template) => total + template.weight, 0);
+
+    if (totalWeight <= 0) {
+      return null;
+    }
+
+    let pick = this.random() * totalWeight;
+
+    for (const template of templates) {
+      pick -= template.weight;
+
+      if (pick < 0) {
+        return template;
+      }
+    }
+
+    return templates[templates.length - 1] ?? null;
+  }
+
+  /**
+   * A version whatever its weight, so an itinerary keeps the prompts it was generated with
+   * Returns null for version 0 and for versions that cannot be found
+   */
+  async getVersion(feature: AIFeature, locale: Locale, version: number): Promise<PromptTemplate | null> {
+    if (version <= 0) {
+      return null;
+    }
+
+    try {
+      return await PromptTemplatesModel.findByVersion(feature, locale, version);
+    } catch (error) {
+      logger.warn('Failed to load prompt template version, using the built-in prompts', {
+        feature,
+        locale,
+        version,
+        error: (error as Error).message
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Replace {{name}} placeholders; unknown placeholders are left as they are
+   */
+  render(content: string, variables: Record<string, string> = {}): string {
+    return content.replace(PROMPT_VARIABLE_PATTERN, (placeholder, name: string) => variables[name] ?? placeholder);
+  }
+
+  async create(input: CreatePromptTemplateInput): Promise<PromptTemplate> {
+    const template = await PromptTemplatesModel.create(
+      input.feature,
+      input.locale,
+      input.system_prompt,
+      input.user_prompt,
+      input.weight,
+      input.description
+    );
+
+    this.activeTemplates.delete(this.getCacheKey(template.feature, template.locale));
+
+    return template;
+  }
+
+  async list(filter: PromptTemplateFilter = {}): Promise<PromptTemplate[]> {
+    return PromptTemplatesModel.findAll(filter);
+  }
+
+  /**
+   * Change the share of requests a version gets; 0 takes it out of the A/B test
+   * Returns null when the version does not exist
+   */
+  async setWeight(id: number, weight: number): Promise<PromptTemplate | null> {
+    const template = await PromptTemplatesModel.updateWeight(id, weight);
+
+    if (template) {
+      this.activeTemplates.delete(this.getCacheKey(template.feature, template.locale));
+    }
+
+    return template;
+  }
+
+  async getReport(feature: AIFeature, days: number): Promise<PromptTemplateReport> {
+    try {
+      const rows = feature === 'itineraries'
+        ? await PromptTemplatesModel.getItineraryStats(days)
+        : await PromptTemplatesModel.getTravelQuestionStats(days);
+
+      return { days, feature, rows };
+
+    } catch (error) {
+      logger.error('Failed to build prompt template report', {
+        error: (error as Error).message,
+        feature,
+        days
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Active versions, kept in memory for PROMPT_TEMPLATE_CACHE_TTL seconds
+   */
+  private async getActiveTemplates(feature: AIFeature, locale: Locale): Promise<PromptTemplate[]> {
+    const key = this.getCacheKey(feature, locale);
+    const cached = this.activeTemplates.get(key);
+
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.templates;
+    }
+
+    const templates = await PromptTemplatesModel.findActive(feature, locale);
+
+    this.activeTemplates.set(key, {
+      templates,
+      expiresAt: Date.now() + config.PROMPT_TEMPLATE_CACHE_TTL * 1000
+    });
+
+    return templates;
+  }
+
+  private getCacheKey(feature: AIFeature, locale: Locale): string {
+    return `${feature}:${locale}`;
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
@@ -0,0 +1,71 @@
+import { CircuitBreakerStatus, CircuitState } from '../../types/ai';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  cooldownMs: number; // Time the circuit stays open before a trial request is allowed
+}
+
+/**
+ * Per-provider circuit breaker
+ * closed: requests flow, consecutive failures are counted
+ * open: requests are skipped until the cooldown elapses
+ * half_open: a single trial request decides between closed and open again, others are skipped meanwhile
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt: number | null = null;
+  private lastError: string | null = null;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  /**
+   * Whether a request may be sent now; moves an expired open circuit to half_open
+   * An allowed request must be followed by recordSuccess or recordFailure, which end the half_open trial
+   */
+  canRequest(now: number = Date.now()): boolean {
+    if (this.state === 'open' && this.openedAt !== null && now - this.openedAt >= this.options.cooldownMs) {
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return this.state !== 'open';
+  }
+
+  recordSuccess(): void {
+    this.trialInFlight = false;
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = null;
+    this.lastError = null;
+  }
+
+  recordFailure(error: Error, now: number = Date.now()): void {
+    this.trialInFlight = false;
+    this.failures++;
+    this.lastError = error.message;
+
+    if (this.state === 'half_open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      failures: this.failures,
+      ...(this.openedAt !== null && { opened_at: new Date(this.openedAt).toISOString() }),
+      ...(this.lastError !== null && { last_error: this.lastError })
+    };
+  }
+}
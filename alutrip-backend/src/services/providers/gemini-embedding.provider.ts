@@ -0,0 +1,34 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { config } from '../../config/env';
+import { EmbeddingProvider } from '../../types/ai';
+import { toUnitVector } from './vector';
+
+/**
+ * Google Gemini embedding adapter (GEMINI_EMBEDDING_MODEL, e.g. text-embedding-004)
+ */
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  private client: GoogleGenerativeAI;
+
+  constructor() {
+    this.client = new GoogleGenerativeAI(config.GEMINI_API_KEY);
+  }
+
+  get name(): string {
+    return `gemini:${config.GEMINI_EMBEDDING_MODEL}`;
+  }
+
+  isAvailable(): boolean {
+    return !config.GEMINI_API_KEY.includes('your-gemini-api-key');
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const model = this.client.getGenerativeModel({ model: config.GEMINI_EMBEDDING_MODEL });
+    const result = await model.embedContent(text);
+
+    if (!result.embedding.values.length) {
+      throw new Error('Empty embedding from Gemini API');
+    }
+
+    return toUnitVector(result.embedding.values);
+  }
+}
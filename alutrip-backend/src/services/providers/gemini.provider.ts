@@ -0,0 +1,122 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { config } from '../../config/env';
+import { AIGenerationRequest, AIGenerationResult, AIProvider, AITokenUsage } from '../../types/ai';
+import { AITokenHandler } from '../../types/travel';
+
+// Token counts Gemini returns with each response (not declared by the SDK version in use)
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+interface GeminiUsageResponse {
+  usageMetadata?: GeminiUsageMetadata;
+}
+
+/**
+ * Google Gemini adapter
+ * Gemini is called with a single prompt: the system prompt, prior turns inlined as a transcript,
+ * then the message to answer
+ */
+export class GeminiProvider implements AIProvider {
+  readonly name = 'gemini';
+  readonly label = 'Gemini (Advanced)';
+  private client: GoogleGenerativeAI;
+
+  constructor() {
+    this.client = new GoogleGenerativeAI(config.GEMINI_API_KEY);
+  }
+
+  get model(): string {
+    return config.GEMINI_MODEL;
+  }
+
+  isAvailable(): boolean {
+    return !config.GEMINI_API_KEY.includes('your-gemini-api-key');
+  }
+
+  async generate(request: AIGenerationRequest): Promise<AIGenerationResult> {
+    const result = await this.getModel(request).generateContent(this.buildPrompt(request));
+    const response = await result.response;
+    const text = response.text();
+
+    if (!text.trim()) {
+      throw new Error('Empty response from Gemini API');
+    }
+
+    return {
+      content: text.trim(),
+      token_usage: this.toTokenUsage((response as GeminiUsageResponse).usageMetadata)
+    };
+  }
+
+  async stream(request: AIGenerationRequest, onToken: AITokenHandler): Promise<AIGenerationResult> {
+    const result = await this.getModel(request).generateContentStream(this.buildPrompt(request));
+    let text = '';
+    let usage: GeminiUsageMetadata | undefined;
+
+    for await (const chunk of result.stream) {
+      const token = chunk.text();
+
+      // Counts are cumulative; the last chunk carries the totals
+      if ((chunk as GeminiUsageResponse).usageMetadata) {
+        usage = (chunk as GeminiUsageResponse).usageMetadata;
+      }
+
+      if (token) {
+        text += token;
+        onToken(token);
+      }
+    }
+
+    if (!text.trim()) {
+      throw new Error('Empty response from Gemini API');
+    }
+
+    return {
+      content: text.trim(),
+      token_usage: this.toTokenUsage(usage)
+    };
+  }
+
+  async healthCheck(): Promise<void> {
+    const model = this.client.getGenerativeModel({ model: config.GEMINI_MODEL });
+    await model.generateContent('Hello');
+  }
+
+  private getModel(request: AIGenerationRequest) {
+    return this.client.getGenerativeModel({
+      model: config.GEMINI_MODEL,
+      generationConfig: {
+        maxOutputTokens: request.maxTokens,
+      }
+    });
+  }
+
+  private buildPrompt(request: AIGenerationRequest): string {
+    const history = request.messages.slice(0, -1);
+    const current = request.messages[request.messages.length - 1]?.content || '';
+
+    if (history.length === 0) {
+      return `${request.systemPrompt}\n\n${current}`;
+    }
+
+    const transcript = history
+      .map(message => `${message.role === 'user' ? 'Usuário' : 'AluTrip'}: ${message.content}`)
+      .join('\n\n');
+
+    return `${request.systemPrompt}\n\nHistórico da conversa:\n${transcript}\n\n${current}`;
+  }
+
+  private toTokenUsage(usage?: GeminiUsageMetadata): AITokenUsage {
+    const promptTokens = usage?.promptTokenCount || 0;
+    const completionTokens = usage?.candidatesTokenCount || 0;
+
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: usage?.totalTokenCount || promptTokens + completionTokens
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import Groq from 'groq-sdk';
+import { config } from '../../config/env';
+import {
+  AIChatRole,
+  AIGenerationRequest,
+  AIGenerationResult,
+  AIProvider,
+  AITokenUsage
+} from '../../types/ai';
+import { AITokenHandler } from '../../types/travel';
+
+interface GroqUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+/**
+ * Groq adapter (Llama models) using the official SDK
+ */
+export class GroqProvider implements AIProvider {
+  readonly name = 'groq';
+  readonly label = 'Groq (Fast)';
+  private client: Groq;
+
+  constructor() {
+    this.client = new Groq({
+      apiKey: config.GROQ_API_KEY,
+    });
+  }
+
+  get model(): string {
+    return config.GROQ_MODEL;
+  }
+
+  isAvailable(): boolean {
+    return !config.GROQ_API_KEY.includes('your-groq-api-key');
+  }
+
+  async generate(request: AIGenerationRequest): Promise<AIGenerationResult> {
+    const chatCompletion = await this.client.chat.completions.create({
+      messages: this.buildMessages(request),
+      model: config.GROQ_MODEL,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      top_p: 1,
+      stream: false,
+      stop: null,
+      ...(request.responseFormat === 'json' && { response_format: { type: 'json_object' } })
+    });
+
+    const response = chatCompletion.choices[0]?.message?.content || '';
+
+    if (!response.trim()) {
+      throw new Error('Empty response from Groq API');
+    }
+
+    return {
+      content: response.trim(),
+      token_usage: this.toTokenUsage(chatCompletion.usage)
+    };
+  }
+
+  async stream(request: AIGenerationRequest, onToken: AITokenHandler): Promise<AIGenerationResult> {
+    const stream = await this.client.chat.completions.create({
+      messages: this.buildMessages(request),
+      model: config.GROQ_MODEL,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      top_p: 1,
+      stream: true,
+      stop: null
+    });
+
+    let response = '';
+    let usage: GroqUsage | undefined;
+
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content || '';
+
+      if (token) {
+        response += token;
+        onToken(token);
+      }
+
+      // Groq reports usage on the final chunk only
+      if (chunk.x_groq?.usage) {
+        usage = chunk.x_groq.usage;
+      }
+    }
+
+    if (!response.trim()) {
+      throw new Error('Empty response from Groq API');
+    }
+
+    return {
+      content: response.trim(),
+      token_usage: this.toTokenUsage(usage)
+    };
+  }
+
+  async healthCheck(): Promise<void> {
+    await this.client.chat.completions.create({
+      messages: [{ role: 'user', content: 'Hello' }],
+      model: config.GROQ_MODEL,
+      max_tokens: 5
+    });
+  }
+
+  private buildMessages(request: AIGenerationRequest): Array<{ role: 'system' | AIChatRole; content: string }> {
+    return [
+      {
+        role: 'system',
+        content: request.systemPrompt
+      },
+      ...request.messages.map(message => ({
+        role: message.role,
+        content: message.content
+      }))
+    ];
+  }
+
+  private toTokenUsage(usage?: GroqUsage): AITokenUsage {
+    return usage ? {
+      prompt_tokens: usage.prompt_tokens || 0,
+      completion_tokens: usage.completion_tokens || 0,
+      total_tokens: usage.total_tokens || 0
+    } : {
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { EmbeddingProvider } from '../../types/ai';
+import { toUnitVector } from './vector';
+
+const DIMENSIONS = 512;
+
+// Words that say nothing about the subject of a question (English and Portuguese)
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'be', 'to', 'of', 'in', 'on', 'at', 'for', 'and', 'or', 'with',
+  'what', 'which', 'how', 'when', 'where', 'who', 'do', 'does', 'i', 'me', 'my', 'we', 'you', 'it', 'can',
+  'o', 'os', 'as', 'um', 'uma', 'de', 'do', 'da', 'dos', 'das', 'em', 'no', 'na', 'nos', 'nas', 'para',
+  'por', 'com', 'e', 'ou', 'que', 'qual', 'quais', 'como', 'quando', 'onde', 'eu', 'meu', 'minha', 'se'
+]);
+
+// 32-bit FNV-1a hash
+const hash = (value: string): number => {
+  let result = 0x811c9dc5;
+
+  for (let index = 0; index < value.length; index++) {
+    result ^= value.charCodeAt(index);
+    result = Math.imul(result, 0x01000193);
+  }
+
+  return result >>> 0;
+};
+
+/**
+ * Offline embedding with the hashing trick: words and their character trigrams are hashed into
+ * a fixed number of dimensions. No model or network call is needed, and trigrams let spelling
+ * variants ("lisbon", "lisboa") land close to each other
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = `local-hash-${DIMENSIONS}`;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(DIMENSIONS).fill(0);
+
+    for (const word of this.tokenize(text)) {
+      this.addFeature(vector, `w:${word}`, 1);
+
+      const padded = ` ${word} `;
+      for (let index = 0; index <= padded.length - 3; index++) {
+        this.addFeature(vector, `g:${padded.slice(index, index + 3)}`, 0.5);
+      }
+    }
+
+    return toUnitVector(vector);
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 0 && !STOPWORDS.has(word));
+  }
+
+  // The sign comes from another bit of the hash, so collisions tend to cancel out instead of adding up
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const featureHash = hash(feature);
+    const index = featureHash % DIMENSIONS;
+
+    vector[index] = (vector[index] ?? 0) + (featureHash >>> 31 ? weight : -weight);
+  }
+}
@@ -0,0 +1,63 @@
+import { AIGenerationRequest, AIGenerationResult, AIProvider } from '../../types/ai';
+import { AITokenHandler } from '../../types/travel';
+
+/**
+ * Deterministic provider for tests and local development without API keys
+ * The same request always produces the same answer, and no network calls are made
+ */
+export class MockProvider implements AIProvider {
+  readonly name = 'mock';
+  readonly label = 'Mock (Testes)';
+  readonly model = 'mock-echo';
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async generate(request: AIGenerationRequest): Promise<AIGenerationResult> {
+    const content = this.buildAnswer(request);
+
+    return {
+      content,
+      token_usage: this.countTokens(request, content)
+    };
+  }
+
+  async stream(request: AIGenerationRequest, onToken: AITokenHandler): Promise<AIGenerationResult> {
+    const content = this.buildAnswer(request);
+
+    // Emit word by word (keeping the separators) so clients exercise incremental rendering
+    for (const token of content.match(/\S+\s*/g) || []) {
+      onToken(token);
+    }
+
+    return {
+      content,
+      token_usage: this.countTokens(request, content)
+    };
+  }
+
+  async healthCheck(): Promise<void> {
+    return;
+  }
+
+  private buildAnswer(request: AIGenerationRequest): string {
+    const message = request.messages[request.messages.length - 1]?.content.trim() || '';
+    const excerpt = message.length > 200 ? `${message.substring(0, 200)}...` : message;
+
+    return `Resposta simulada do AluTrip (modelo mock).\n\nVocê perguntou: ${excerpt}`;
+  }
+
+  private countTokens(request: AIGenerationRequest, content: string) {
+    const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    const promptTokens = words(request.systemPrompt) +
+      request.messages.reduce((total, message) => total + words(message.content), 0);
+    const completionTokens = words(content);
+
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens
+    };
+  }
+}
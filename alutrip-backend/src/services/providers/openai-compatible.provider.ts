@@ -0,0 +1,169 @@
+import { httpClient } from '../../config/axios';
+import {
+  AIGenerationRequest,
+  AIGenerationResult,
+  AIProvider,
+  AITokenUsage
+} from '../../types/ai';
+import { AITokenHandler } from '../../types/travel';
+
+export interface OpenAICompatibleProviderOptions {
+  name: string;
+  label: string;
+  baseURL: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1 for Ollama
+  model: string;
+  apiKey?: string;
+  timeout: number;
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{ message?: { content?: string | null } }>;
+  usage?: Partial<AITokenUsage>;
+}
+
+interface ChatCompletionChunk {
+  choices: Array<{ delta?: { content?: string | null } }>;
+  usage?: Partial<AITokenUsage> | null;
+}
+
+/**
+ * Adapter for any server exposing the OpenAI /chat/completions API
+ * Covers OpenAI itself and local servers such as Ollama and llama.cpp
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name: string;
+  readonly label: string;
+  readonly model: string;
+  private baseURL: string;
+  private apiKey: string | undefined;
+  private timeout: number;
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    this.name = options.name;
+    this.label = options.label;
+    this.model = options.model;
+    this.baseURL = options.baseURL.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.timeout = options.timeout;
+  }
+
+  isAvailable(): boolean {
+    return !!this.baseURL && !!this.model;
+  }
+
+  async generate(request: AIGenerationRequest): Promise<AIGenerationResult> {
+    const response = await httpClient.post<ChatCompletionResponse>(
+      `${this.baseURL}/chat/completions`,
+      this.buildBody(request, false),
+      {
+        headers: this.buildHeaders(),
+        timeout: this.timeout
+      }
+    );
+
+    const content = response.data.choices[0]?.message?.content || '';
+
+    if (!content.trim()) {
+      throw new Error(`Empty response from ${this.label} API`);
+    }
+
+    return {
+      content: content.trim(),
+      token_usage: this.toTokenUsage(response.data.usage)
+    };
+  }
+
+  async stream(request: AIGenerationRequest, onToken: AITokenHandler): Promise<AIGenerationResult> {
+    const response = await httpClient.post<NodeJS.ReadableStream>(
+      `${this.baseURL}/chat/completions`,
+      this.buildBody(request, true),
+      {
+        headers: this.buildHeaders(),
+        timeout: this.timeout,
+        responseType: 'stream'
+      }
+    );
+
+    let content = '';
+    let usage: Partial<AITokenUsage> | null | undefined;
+    let buffer = '';
+
+    for await (const data of response.data) {
+      buffer += data.toString();
+
+      // Server-Sent Events: one "data: {...}" line per chunk, terminated by "data: [DONE]"
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+
+        if (!line.startsWith('data:') || !payload || payload === '[DONE]') {
+          continue;
+        }
+
+        const chunk = JSON.parse(payload) as ChatCompletionChunk;
+        const token = chunk.choices[0]?.delta?.content || '';
+
+        if (token) {
+          content += token;
+          onToken(token);
+        }
+
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+      }
+    }
+
+    if (!content.trim()) {
+      throw new Error(`Empty response from ${this.label} API`);
+    }
+
+    return {
+      content: content.trim(),
+      token_usage: this.toTokenUsage(usage)
+    };
+  }
+
+  async healthCheck(): Promise<void> {
+    await httpClient.post(
+      `${this.baseURL}/chat/completions`,
+      {
+        model: this.model,
+        messages: [{ role: 'user', content: 'Hello' }],
+        max_tokens: 5
+      },
+      {
+        headers: this.buildHeaders(),
+        timeout: this.timeout
+      }
+    );
+  }
+
+  private buildBody(request: AIGenerationRequest, stream: boolean) {
+    return {
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        ...request.messages
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream,
+      ...(request.responseFormat === 'json' && { response_format: { type: 'json_object' } })
+    };
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  private toTokenUsage(usage?: Partial<AITokenUsage> | null): AITokenUsage {
+    return {
+      prompt_tokens: usage?.prompt_tokens || 0,
+      completion_tokens: usage?.completion_tokens || 0,
+      total_tokens: usage?.total_tokens || 0
+    };
+  }
+}
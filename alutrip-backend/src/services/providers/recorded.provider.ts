@@ -0,0 +1,107 @@
+import { createHash } from 'crypto';
+import { AIGenerationRequest, AIGenerationResult, AIProvider } from '../../types/ai';
+import { ProviderRecording } from '../../types/evaluation';
+
+const EMPTY_TOKEN_USAGE = {
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  total_tokens: 0
+};
+
+/**
+ * Hash of everything the provider is asked, so a recording can tell whether the prompts changed since
+ */
+export const hashGenerationRequest = (request: AIGenerationRequest): string => {
+  return createHash('sha256')
+    .update(JSON.stringify({ systemPrompt: request.systemPrompt, messages: request.messages }))
+    .digest('hex');
+};
+
+/**
+ * Replays a recorded answer so evaluations run offline and always see the same output
+ * A request that differs from the recorded one is still answered, and marks the recording as stale
+ */
+export class RecordedProvider implements AIProvider {
+  readonly name = 'recorded';
+  readonly label = 'Gravado (Avaliação)';
+  private recording: ProviderRecording;
+  private staleRequest = false;
+
+  constructor(recording: ProviderRecording) {
+    this.recording = recording;
+  }
+
+  get model(): string {
+    return this.recording.model;
+  }
+
+  get stale(): boolean {
+    return this.staleRequest;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async generate(request: AIGenerationRequest): Promise<AIGenerationResult> {
+    this.staleRequest = hashGenerationRequest(request) !== this.recording.prompt_hash;
+
+    return {
+      content: this.recording.content,
+      token_usage: EMPTY_TOKEN_USAGE
+    };
+  }
+
+  async healthCheck(): Promise<void> {
+    return;
+  }
+}
+
+/**
+ * Passes requests to a live provider and keeps the last answer as a recording
+ */
+export class RecordingProvider implements AIProvider {
+  private provider: AIProvider;
+  private last: ProviderRecording | null = null;
+
+  constructor(provider: AIProvider) {
+    this.provider = provider;
+  }
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  get label(): string {
+    return this.provider.label;
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  get lastRecording(): ProviderRecording | null {
+    return this.last;
+  }
+
+  isAvailable(): boolean {
+    return this.provider.isAvailable();
+  }
+
+  async generate(request: AIGenerationRequest): Promise<AIGenerationResult> {
+    const result = await this.provider.generate(request);
+
+    this.last = {
+      model: this.provider.name,
+      prompt_hash: hashGenerationRequest(request),
+      recorded_at: new Date().toISOString(),
+      content: result.content
+    };
+
+    return result;
+  }
+
+  async healthCheck(): Promise<void> {
+    return this.provider.healthCheck();
+  }
+}
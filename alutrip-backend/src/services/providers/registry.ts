@@ -0,0 +1,88 @@
+import { config } from '../../config/env';
+import { AIProvider, AIProviderInfo } from '../../types/ai';
+import { GeminiProvider } from './gemini.provider';
+import { GroqProvider } from './groq.provider';
+import { MockProvider } from './mock.provider';
+import { OpenAICompatibleProvider } from './openai-compatible.provider';
+
+// model_used columns are VARCHAR(100) referencing ai_providers(name)
+const MAX_PROVIDER_NAME_LENGTH = 100;
+
+/**
+ * Registry of AI providers keyed by name
+ * Registration order is preference order: the first available provider is the default model
+ */
+export class AIProviderRegistry {
+  private providers = new Map<string, AIProvider>();
+
+  register(provider: AIProvider): void {
+    if (!/^[a-z0-9][a-z0-9._-]*$/.test(provider.name) || provider.name.length > MAX_PROVIDER_NAME_LENGTH) {
+      throw new Error(`Invalid AI provider name: ${provider.name}`);
+    }
+
+    if (this.providers.has(provider.name)) {
+      throw new Error(`AI provider already registered: ${provider.name}`);
+    }
+
+    this.providers.set(provider.name, provider);
+  }
+
+  unregister(name: string): boolean {
+    return this.providers.delete(name);
+  }
+
+  get(name: string): AIProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  list(): AIProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  names(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  describe(): AIProviderInfo[] {
+    return this.list().map(provider => ({
+      name: provider.name,
+      label: provider.label,
+      model: provider.model,
+      available: provider.isAvailable()
+    }));
+  }
+}
+
+/**
+ * Build the registry from environment configuration
+ * Groq and Gemini are always registered; the OpenAI-compatible and mock providers are opt-in
+ */
+export function createProviderRegistry(): AIProviderRegistry {
+  const registry = new AIProviderRegistry();
+
+  registry.register(new GroqProvider());
+  registry.register(new GeminiProvider());
+
+  if (config.OPENAI_COMPATIBLE_BASE_URL && config.OPENAI_COMPATIBLE_MODEL) {
+    registry.register(new OpenAICompatibleProvider({
+      name: config.OPENAI_COMPATIBLE_NAME,
+      label: config.OPENAI_COMPATIBLE_LABEL,
+      baseURL: config.OPENAI_COMPATIBLE_BASE_URL,
+      model: config.OPENAI_COMPATIBLE_MODEL,
+      ...(config.OPENAI_COMPATIBLE_API_KEY && { apiKey: config.OPENAI_COMPATIBLE_API_KEY }),
+      timeout: config.OPENAI_COMPATIBLE_TIMEOUT
+    }));
+  }
+
+  if (config.AI_MOCK_PROVIDER) {
+    registry.register(new MockProvider());
+  }
+
+  return registry;
+}
+
+export const providerRegistry = createProviderRegistry();
@@ -0,0 +1,15 @@
+/**
+ * Vector helpers shared by the embedding providers
+ */
+
+// Scale to unit length; a zero vector (text without any feature) is returned unchanged
+export const toUnitVector = (vector: number[]): number[] => {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+
+  return length > 0 ? vector.map(value => value / length) : vector;
+};
+
+// Cosine similarity of two unit vectors
+export const dotProduct = (a: number[], b: number[]): number => {
+  return a.reduce((sum, value, index) => sum + value * (b[index] ?? 0), 0);
+};
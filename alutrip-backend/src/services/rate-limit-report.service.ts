@@ -0,0 +1,70 @@
+import { RateLimitEventsModel } from '../models/rate-limit-events.model';
+import { logger } from '../config/logger';
+import { RateLimitReportQueryInput } from '../schemas/rate-limit.schemas';
+import {
+  RateLimitBlockedDay,
+  RateLimitFeature,
+  RateLimitTopConsumer,
+  RateLimitUsageTrend
+} from '../types/travel';
+
+/**
+ * Report over the last `days` days, for one feature or all of them (feature null)
+ */
+export interface RateLimitReport<T> {
+  days: number;
+  feature: RateLimitFeature | null;
+  rows: T[];
+}
+
+/**
+ * Rate limit reports built from the daily history in rate_limit_events
+ */
+export class RateLimitReportService {
+  async getTopConsumers(params: RateLimitReportQueryInput): Promise<RateLimitReport<RateLimitTopConsumer>> {
+    try {
+      const rows = await RateLimitEventsModel.getTopConsumers(params.days, params.limit, params.feature);
+
+      return { days: params.days, feature: params.feature ?? null, rows };
+
+    } catch (error) {
+      logger.error('Failed to build rate limit top consumers report', {
+        error: (error as Error).message,
+        params
+      });
+      throw error;
+    }
+  }
+
+  async getBlockedPerDay(params: RateLimitReportQueryInput): Promise<RateLimitReport<RateLimitBlockedDay>> {
+    try {
+      const rows = await RateLimitEventsModel.getBlockedPerDay(params.days, params.feature);
+
+      return { days: params.days, feature: params.feature ?? null, rows };
+
+    } catch (error) {
+      logger.error('Failed to build blocked rate limit requests report', {
+        error: (error as Error).message,
+        params
+      });
+      throw error;
+    }
+  }
+
+  async getUsageTrends(params: RateLimitReportQueryInput): Promise<RateLimitReport<RateLimitUsageTrend>> {
+    try {
+      const rows = await RateLimitEventsModel.getUsageTrends(params.days, params.feature);
+
+      return { days: params.days, feature: params.feature ?? null, rows };
+
+    } catch (error) {
+      logger.error('Failed to build rate limit usage trends report', {
+        error: (error as Error).message,
+        params
+      });
+      throw error;
+    }
+  }
+}
+
+export const rateLimitReportService = new RateLimitReportService();
@@ -0,0 +1,128 @@
+import { createHash } from 'crypto';
+import { config } from '../config/env';
+import { logger } from '../config/logger';
+import { deleteCachedValuesByPattern, getCachedValue, setCachedValue } from '../config/redis';
+import { AIModel, AIServiceResponse } from '../types/travel';
+import { Locale } from '../types/i18n';
+
+const RESPONSE_CACHE_PREFIX = 'response_cache';
+
+/**
+ * Answer stored in Redis under response_cache:<model>:<locale>:<hash of the normalized question>
+ */
+export interface CachedResponse {
+  content: string;
+  model_used: AIModel;
+  prompt_version?: number; // Missing on answers cached before prompt templates were versioned
+  cached_at: string;
+}
+
+/**
+ * Entries to invalidate; without a question every question of the model (or of every model) is removed
+ */
+export interface ResponseCacheFilter {
+  question?: string | undefined;
+  model?: AIModel | undefined;
+}
+
+/**
+ * Response Cache Service for answers to repeated travel questions
+ * Questions that only differ in case, accents, punctuation or spacing share an entry
+ */
+export class ResponseCacheService {
+
+  /**
+   * "Best time to visit Lisbon?" and "best time to visit  lisbon" normalize to the same text
+   */
+  normalizeQuestion(question: string): string {
+    return question
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  getKey(question: string, model: AIModel, locale: Locale = config.DEFAULT_LOCALE): string {
+    return `${RESPONSE_CACHE_PREFIX}:${model}:${locale}:${this.hashQuestion(question)}`;
+  }
+
+  /**
+   * Cached answer for the question, model and locale; null when caching is disabled or nothing is cached
+   */
+  async get(question: string, model: AIModel, locale?: Locale): Promise<CachedResponse | null> {
+    if (!config.RESPONSE_CACHE_ENABLED) {
+      return null;
+    }
+
+    const value = await getCachedValue(this.getKey(question, model, locale));
+
+    if (!value) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(value) as CachedResponse;
+    } catch (error) {
+      logger.warn('Ignoring unreadable cached response', {
+        model,
+        error: (error as Error).message
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Cache an answer under the model that produced it, so a failover answer is not served
+   * to requests for the model that failed
+   */
+  async set(
+    question: string,
+    response: Pick<AIServiceResponse, 'content' | 'model_used' | 'prompt_version'>,
+    locale?: Locale
+  ): Promise<void> {
+    if (!config.RESPONSE_CACHE_ENABLED) {
+      return;
+    }
+
+    const cachedResponse: CachedResponse = {
+      content: response.content,
+      model_used: response.model_used,
+      ...(response.prompt_version !== undefined && { prompt_version: response.prompt_version }),
+      cached_at: new Date().toISOString()
+    };
+
+    await setCachedValue(
+      this.getKey(question, response.model_used, locale),
+      JSON.stringify(cachedResponse),
+      config.RESPONSE_CACHE_TTL
+    );
+  }
+
+  /**
+   * Remove cached answers in every locale; returns how many entries were deleted
+   */
+  async invalidate(filter: ResponseCacheFilter = {}): Promise<number> {
+    const model = filter.model ?? '*';
+    const pattern = filter.question !== undefined
+      ? `${RESPONSE_CACHE_PREFIX}:${model}:*:${this.hashQuestion(filter.question)}`
+      : `${RESPONSE_CACHE_PREFIX}:${model}:*`;
+
+    const deleted = await deleteCachedValuesByPattern(pattern);
+
+    logger.info('Response cache invalidated', {
+      model: filter.model,
+      byQuestion: filter.question !== undefined,
+      deleted
+    });
+
+    return deleted;
+  }
+
+  private hashQuestion(question: string): string {
+    return createHash('sha256').update(this.normalizeQuestion(question)).digest('hex');
+  }
+}
+
+export const responseCacheService = new ResponseCacheService();
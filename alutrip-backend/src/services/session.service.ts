@@ -0,0 +1,122 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { config } from '../config/env';
+import { logger } from '../config/logger';
+import { redis } from '../config/redis';
+import { RequestSession, SessionData } from '../types/session';
+
+const SESSION_KEY_PREFIX = 'session:';
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Session Service for anonymous server-managed sessions
+ * The client only ever holds `<id>.<signature>`; the session itself lives in Redis and
+ * expires after SESSION_TIMEOUT without activity
+ */
+export class SessionService {
+
+  /**
+   * Start a new session for the client
+   */
+  async createSession(clientIp: string, now: Date = new Date()): Promise<RequestSession> {
+    const session: SessionData = {
+      id: randomUUID(),
+      client_ip: clientIp,
+      created_at: now.toISOString(),
+      last_seen_at: now.toISOString()
+    };
+
+    try {
+      await redis.set(this.getKey(session.id), JSON.stringify(session), 'PX', config.SESSION_TIMEOUT);
+
+      logger.info('Session created', { sessionId: session.id, clientIp });
+
+      return this.toRequestSession(session, now);
+
+    } catch (error) {
+      logger.error('Failed to create session', {
+        error: (error as Error).message,
+        clientIp
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Load the session of a signed token and extend its timeout;
+   * returns null for forged tokens and sessions that expired or never existed
+   */
+  async resolveSession(token: string, now: Date = new Date()): Promise<RequestSession | null> {
+    const sessionId = this.verifyToken(token);
+
+    if (!sessionId) {
+      return null;
+    }
+
+    try {
+      const stored = await redis.get(this.getKey(sessionId));
+
+      if (!stored) {
+        return null;
+      }
+
+      const session: SessionData = {
+        ...(JSON.parse(stored) as SessionData),
+        last_seen_at: now.toISOString()
+      };
+
+      await redis.set(this.getKey(sessionId), JSON.stringify(session), 'PX', config.SESSION_TIMEOUT);
+
+      return this.toRequestSession(session, now);
+
+    } catch (error) {
+      logger.error('Failed to resolve session', {
+        error: (error as Error).message,
+        sessionId
+      });
+      throw error;
+    }
+  }
+
+  signToken(sessionId: string): string {
+    return `${sessionId}.${this.sign(sessionId)}`;
+  }
+
+  /**
+   * Session ID of a token with a valid signature, null otherwise
+   */
+  verifyToken(token: string): string | null {
+    const [sessionId, signature, ...rest] = token.split('.');
+
+    if (!sessionId || !signature || rest.length > 0 || !SESSION_ID_PATTERN.test(sessionId)) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(sessionId));
+    const received = Buffer.from(signature);
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      return null;
+    }
+
+    return sessionId;
+  }
+
+  private sign(sessionId: string): string {
+    return createHmac('sha256', config.SESSION_SECRET).update(sessionId).digest('base64url');
+  }
+
+  private getKey(sessionId: string): string {
+    return `${SESSION_KEY_PREFIX}${sessionId}`;
+  }
+
+  private toRequestSession(session: SessionData, now: Date): RequestSession {
+    return {
+      id: session.id,
+      token: this.signToken(session.id),
+      created_at: session.created_at,
+      expires_at: new Date(now.getTime() + config.SESSION_TIMEOUT).toISOString()
+    };
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,98 @@
+import { config } from '../config/env';
+import { logger } from '../config/logger';
+import { TopicClassifier, TopicClassifierName, TopicDecision } from '../types/ai';
+import { KeywordTopicClassifier } from './classifiers/keyword.classifier';
+import { LLMJudgeTopicClassifier } from './classifiers/llm-judge.classifier';
+import { NaiveBayesTopicClassifier } from './classifiers/naive-bayes.classifier';
+
+// Shorter questions are declined without running a classifier
+const MIN_QUESTION_LENGTH = 3;
+
+const TOPIC_CLASSIFIERS: Record<TopicClassifierName, () => TopicClassifier> = {
+  keyword: () => new KeywordTopicClassifier(),
+  naive_bayes: () => new NaiveBayesTopicClassifier(),
+  llm: () => new LLMJudgeTopicClassifier()
+};
+
+/**
+ * Classifier selected by TOPIC_CLASSIFIER; naive Bayes is used when it is not available
+ */
+export const createTopicClassifier = (name: TopicClassifierName = config.TOPIC_CLASSIFIER): TopicClassifier => {
+  const classifier = TOPIC_CLASSIFIERS[name]();
+
+  if (!classifier.isAvailable()) {
+    logger.warn('Topic classifier is not available, using naive Bayes', { classifier: name });
+    return TOPIC_CLASSIFIERS.naive_bayes();
+  }
+
+  return classifier;
+};
+
+/**
+ * Judge consulted for unsure decisions, when TOPIC_LLM_JUDGE_ENABLED is set
+ */
+const createTopicJudge = (): TopicClassifier | null => {
+  return config.TOPIC_LLM_JUDGE_ENABLED ? TOPIC_CLASSIFIERS.llm() : null;
+};
+
+/**
+ * Topic Classifier Service deciding whether questions and chat messages are about travel
+ * Every decision is logged with its classifier, confidence and reason for evaluation
+ */
+export class TopicClassifierService {
+  private classifier: TopicClassifier;
+  private judge: TopicClassifier | null;
+
+  constructor(
+    classifier: TopicClassifier = createTopicClassifier(),
+    judge: TopicClassifier | null = createTopicJudge()
+  ) {
+    this.classifier = classifier;
+    this.judge = judge;
+  }
+
+  async classify(text: string, sessionId?: string): Promise<TopicDecision> {
+    const decision = await this.decide(text);
+
+    logger.info('Topic classified', {
+      context: 'ai',
+      ...decision,
+      confidence: Math.round(decision.confidence * 1000) / 1000,
+      question: text.substring(0, 100),
+      sessionId
+    });
+
+    return decision;
+  }
+
+  private async decide(text: string): Promise<TopicDecision> {
+    if (text.trim().length < MIN_QUESTION_LENGTH) {
+      return {
+        travel: false,
+        confidence: 1,
+        reason: 'Question too short',
+        classifier: this.classifier.name
+      };
+    }
+
+    const decision = await this.classifier.classify(text);
+
+    if (!this.judge || decision.confidence >= config.TOPIC_LLM_JUDGE_THRESHOLD || !this.judge.isAvailable()) {
+      return decision;
+    }
+
+    try {
+      return await this.judge.classify(text);
+    } catch (error) {
+      // An unavailable or malformed judge answer never blocks the question
+      logger.warn('Topic judge failed, keeping the classifier decision', {
+        context: 'ai',
+        classifier: decision.classifier,
+        error: (error as Error).message
+      });
+      return decision;
+    }
+  }
+}
+
+export const topicClassifierService = new TopicClassifierService();
@@ -1,13 +1,23 @@
 import { aiService } from './ai.service';
+import { aiUsageService } from './ai-usage.service';
+import { embeddingService } from './embedding.service';
 import { TravelQuestionsModel } from '../models/travel-questions.model';
+import { TravelQuestionEmbeddingsModel } from '../models/travel-question-embeddings.model';
 import { travelQuestionsRateLimit } from '../middleware/rate-limit';
+import { config } from '../config/env';
 import { logger } from '../config/logger';
 import { 
   AIModel, 
+  AIServiceResponse,
+  AITokenHandler,
+  RelatedTravelQuestion,
+  SimilarTravelQuestion,
   TravelQuestion, 
   TravelQuestionRequest, 
   TravelQuestionResponse
 } from '../types/travel';
+import { AIProviderHealth, AIProviderInfo } from '../types/ai';
+import { Locale } from '../types/i18n';
 
 /**
  * Travel Service for handling travel question business logic
@@ -21,9 +31,10 @@ export class TravelService {
   async askQuestion(
     request: TravelQuestionRequest,
     clientIp: string,
-    sessionId?: string
+    sessionId?: string,
+    userId?: number
   ): Promise<TravelQuestionResponse> {
-    const { question, model } = request;
+    const { question, model, locale = config.DEFAULT_LOCALE } = request;
     
     try {
       logger.info('Processing travel question', {
@@ -36,26 +47,42 @@ export class TravelService {
       // Check rate limiting first
       await this.checkRateLimit(clientIp);
 
-      const aiResponse = await aiService.processQuestion(question, model, sessionId);
+      const embedding = await this.embedQuestion(question);
+      const priorAnswer = await this.findPriorAnswer(embedding, model, locale);
+
+      const aiResponse = priorAnswer
+        ? this.toReusedResponse(priorAnswer)
+        : await aiService.processQuestion(question, model, sessionId, locale);
       
       const travelQuestion = await TravelQuestionsModel.create(
         clientIp,
         question,
         aiResponse.content,
-        model,
-        sessionId
+        aiResponse.model_used,
+        sessionId,
+        userId,
+        locale,
+        aiResponse.prompt_version,
+        aiUsageService.summarize(aiResponse)
       );
 
+      await this.saveEmbedding(travelQuestion.id, embedding);
+
       logger.info('Travel question processed successfully', {
         questionId: travelQuestion.id,
         clientIp,
-        model,
+        model: aiResponse.model_used,
         processingTime: `${aiResponse.processing_time_ms}ms`,
         responseLength: aiResponse.content.length,
+        cached: aiResponse.cached === true,
         sessionId
       });
 
-      return this.formatQuestionResponse(travelQuestion);
+      return {
+        ...this.formatQuestionResponse(travelQuestion),
+        cached: aiResponse.cached === true,
+        ...(priorAnswer && { similar_question_id: priorAnswer.id })
+      };
 
     } catch (error) {
       logger.error('Failed to process travel question', {
@@ -74,6 +101,88 @@ export class TravelService {
     }
   }
 
+  /**
+   * Process a travel question streaming the AI answer through onToken
+   * The completed answer is stored once the provider finishes
+   */
+  async askQuestionStream(
+    request: TravelQuestionRequest,
+    clientIp: string,
+    onToken: AITokenHandler,
+    sessionId?: string,
+    userId?: number
+  ): Promise<TravelQuestionResponse> {
+    const { question, model, locale = config.DEFAULT_LOCALE } = request;
+
+    try {
+      logger.info('Processing streamed travel question', {
+        clientIp,
+        model,
+        questionLength: question.length,
+        sessionId
+      });
+
+      // Check rate limiting first
+      await this.checkRateLimit(clientIp);
+
+      const embedding = await this.embedQuestion(question);
+      const priorAnswer = await this.findPriorAnswer(embedding, model, locale);
+
+      if (priorAnswer) {
+        onToken(priorAnswer.response);
+      }
+
+      const aiResponse = priorAnswer
+        ? this.toReusedResponse(priorAnswer)
+        : await aiService.streamQuestion(question, model, onToken, sessionId, locale);
+
+      const travelQuestion = await TravelQuestionsModel.create(
+        clientIp,
+        question,
+        aiResponse.content,
+        aiResponse.model_used,
+        sessionId,
+        userId,
+        locale,
+        aiResponse.prompt_version,
+        aiUsageService.summarize(aiResponse)
+      );
+
+      await this.saveEmbedding(travelQuestion.id, embedding);
+
+      logger.info('Streamed travel question processed successfully', {
+        questionId: travelQuestion.id,
+        clientIp,
+        model: aiResponse.model_used,
+        processingTime: `${aiResponse.processing_time_ms}ms`,
+        responseLength: aiResponse.content.length,
+        cached: aiResponse.cached === true,
+        sessionId
+      });
+
+      return {
+        ...this.formatQuestionResponse(travelQuestion),
+        cached: aiResponse.cached === true,
+        ...(priorAnswer && { similar_question_id: priorAnswer.id })
+      };
+
+    } catch (error) {
+      logger.error('Failed to process streamed travel question', {
+        error: (error as Error).message,
+        clientIp,
+        model,
+        questionLength: question.length,
+        sessionId
+      });
+
+      if ((error as Error & { provider?: string }).provider) {
+        throw new Error(`AI service error: ${(error as Error).message}`);
+      }
+
+      throw error;
+    }
+  }
+
   /**
    * Get a specific travel question by ID
    */
@@ -96,6 +205,47 @@ export class TravelService {
     }
   }
 
+  /**
+   * Previously answered questions closest in meaning to a question, most similar first
+   * Questions asked before embeddings were stored are embedded on first use
+   * Returns null when the question does not exist
+   */
+  async getRelatedQuestions(id: number, limit: number = 5): Promise<RelatedTravelQuestion[] | null> {
+    try {
+      const question = await TravelQuestionsModel.findById(id);
+
+      if (!question) {
+        return null;
+      }
+
+      const embeddingModel = embeddingService.modelName;
+      let embedding = await TravelQuestionEmbeddingsModel.findByQuestionId(id, embeddingModel);
+
+      if (!embedding) {
+        embedding = await embeddingService.embed(question.question);
+        await TravelQuestionEmbeddingsModel.save(id, embeddingModel, embedding);
+      }
+
+      const related = await TravelQuestionEmbeddingsModel.findSimilar(embedding, embeddingModel, {
+        limit,
+        minSimilarity: config.RELATED_QUESTIONS_MIN_SIMILARITY,
+        excludeQuestionId: id
+      });
+
+      return related.map(relatedQuestion => ({
+        ...this.formatQuestionResponse(relatedQuestion),
+        similarity: Math.round(relatedQuestion.similarity * 10000) / 10000
+      }));
+
+    } catch (error) {
+      logger.error('Failed to get related travel questions', {
+        error: (error as Error).message,
+        id
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get recent travel questions with pagination
    */
@@ -153,7 +303,31 @@ export class TravelService {
   }
 
   /**
-   * Get questions by session ID (for future chat support)
+   * Get questions asked by a user, newest first
+   */
+  async getQuestionsByUserId(
+    userId: number,
+    limit: number = 10,
+    offset: number = 0
+  ): Promise<TravelQuestionResponse[]> {
+    try {
+      const questions = await TravelQuestionsModel.findByUserId(userId, limit, offset);
+      
+      return questions.map(q => this.formatQuestionResponse(q));
+      
+    } catch (error) {
+      logger.error('Failed to get travel questions by user', {
+        error: (error as Error).message,
+        userId,
+        limit,
+        offset
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get questions asked in an anonymous session, oldest first
    */
   async getQuestionsBySessionId(sessionId: string): Promise<TravelQuestionResponse[]> {
     try {
@@ -194,8 +368,7 @@ export class TravelService {
    * Check if AI models are available and healthy
    */
   async checkModelHealth(): Promise<{
-    groq: { status: 'healthy' | 'unhealthy'; error?: string; model: string; available: boolean };
-    gemini: { status: 'healthy' | 'unhealthy'; error?: string; model: string; available: boolean };
+    models: Record<AIModel, AIProviderHealth>;
     overall: 'healthy' | 'partial' | 'unhealthy';
   }> {
     try {
@@ -204,32 +377,33 @@ export class TravelService {
         aiService.getModelInfo()
       ]);
 
-      const groqHealth = {
-        ...healthCheck.groq,
-        ...modelInfo.groq
-      };
+      const circuits = aiService.getCircuitBreakerStatus();
+      const models: Record<AIModel, AIProviderHealth> = {};
 
-      const geminiHealth = {
-        ...healthCheck.gemini,
-        ...modelInfo.gemini
-      };
+      for (const [name, info] of Object.entries(modelInfo)) {
+        models[name] = {
+          ...(healthCheck[name] || { status: 'unhealthy', error: 'Health check failed' }),
+          ...info,
+          ...(circuits?.[name] && { circuit: circuits[name] })
+        };
+      }
 
       // Determine overall health
       let overall: 'healthy' | 'partial' | 'unhealthy' = 'unhealthy';
       
-      const healthyModels = [groqHealth, geminiHealth].filter(model => 
+      const allModels = Object.values(models);
+      const healthyModels = allModels.filter(model => 
         model.status === 'healthy' && model.available
       );
       
-      if (healthyModels.length === 2) {
+      if (healthyModels.length > 0 && healthyModels.length === allModels.length) {
         overall = 'healthy';
-      } else if (healthyModels.length === 1) {
+      } else if (healthyModels.length > 0) {
         overall = 'partial';
       }
 
       return {
-        groq: groqHealth,
-        gemini: geminiHealth,
+        models,
         overall
       };
 
@@ -239,8 +413,7 @@ export class TravelService {
       });
       
       return {
-        groq: { status: 'unhealthy', error: 'Health check failed', model: 'unknown', available: false },
-        gemini: { status: 'unhealthy', error: 'Health check failed', model: 'unknown', available: false },
+        models: {},
         overall: 'unhealthy'
       };
     }
@@ -250,31 +423,23 @@ export class TravelService {
    * Validate if the specified model is available
    */
   validateModel(model: AIModel): boolean {
-    const modelInfo = aiService.getModelInfo();
-    
-    switch (model) {
-      case 'groq':
-        return modelInfo.groq.available;
-      case 'gemini':
-        return modelInfo.gemini.available;
-      default:
-        return false;
-    }
+    return aiService.getModelInfo()[model]?.available ?? false;
   }
 
   /**
-   * Get preferred model based on availability
+   * Get preferred model based on availability (registry order)
    */
   getPreferredModel(): AIModel | null {
-    const modelInfo = aiService.getModelInfo();
-    
-    if (modelInfo.groq.available) {
-      return 'groq';
-    } else if (modelInfo.gemini.available) {
-      return 'gemini';
-    }
-    
-    return null;
+    const preferred = Object.entries(aiService.getModelInfo()).find(([, info]) => info.available);
+
+    return preferred ? preferred[0] : null;
+  }
+
+  /**
+   * List registered AI models for model selectors
+   */
+  listModels(): AIProviderInfo[] {
+    return aiService.listProviders();
   }
 
   /**
@@ -313,6 +478,85 @@ export class TravelService {
     });
   }
 
+  /**
+   * Embedding of a new question; null when it cannot be computed, the question is answered anyway
+   */
+  private async embedQuestion(question: string): Promise<number[] | null> {
+    try {
+      return await embeddingService.embed(question);
+    } catch (error) {
+      logger.warn('Answering travel question without embedding', {
+        error: (error as Error).message
+      });
+      return null;
+    }
+  }
+
+  private async saveEmbedding(questionId: number, embedding: number[] | null): Promise<void> {
+    if (!embedding) {
+      return;
+    }
+
+    try {
+      await TravelQuestionEmbeddingsModel.save(questionId, embeddingService.modelName, embedding);
+    } catch (error) {
+      // The question is embedded again when its related questions are requested
+      logger.warn('Travel question embedding not saved', {
+        error: (error as Error).message,
+        questionId
+      });
+    }
+  }
+
+  /**
+   * Answer of the closest question asked to the same model in the same language, when the semantic cache
+   * is enabled and it is at least SEMANTIC_CACHE_MIN_SIMILARITY similar
+   */
+  private async findPriorAnswer(
+    embedding: number[] | null,
+    model: AIModel,
+    locale: Locale
+  ): Promise<SimilarTravelQuestion | null> {
+    if (!config.SEMANTIC_CACHE_ENABLED || !embedding) {
+      return null;
+    }
+
+    try {
+      const [priorAnswer] = await TravelQuestionEmbeddingsModel.findSimilar(embedding, embeddingService.modelName, {
+        limit: 1,
+        minSimilarity: config.SEMANTIC_CACHE_MIN_SIMILARITY,
+        modelUsed: model,
+        locale
+      });
+
+      if (priorAnswer) {
+        logger.info('Reusing answer of a similar travel question', {
+          similarQuestionId: priorAnswer.id,
+          similarity: priorAnswer.similarity,
+          model
+        });
+      }
+
+      return priorAnswer ?? null;
+    } catch (error) {
+      logger.warn('Semantic cache lookup failed', {
+        error: (error as Error).message,
+        model
+      });
+      return null;
+    }
+  }
+
+  private toReusedResponse(priorAnswer: SimilarTravelQuestion): AIServiceResponse {
+    return {
+      content: priorAnswer.response,
+      model_used: priorAnswer.model_used,
+      processing_time_ms: 0,
+      cached: true,
+      prompt_version: priorAnswer.prompt_version
+    };
+  }
+
   /**
    * Format travel question for API response
    */
@@ -0,0 +1,223 @@
+import { AITokenHandler } from './travel';
+
+/**
+ * AI provider contracts
+ * Each backend (Groq, Gemini, OpenAI-compatible servers, mock) is an adapter implementing AIProvider,
+ * registered under the name that is stored in model_used
+ */
+
+export type AIChatRole = 'user' | 'assistant';
+
+export interface AIChatMessage {
+  role: AIChatRole;
+  content: string;
+}
+
+export interface AIGenerationRequest {
+  systemPrompt: string;
+  messages: AIChatMessage[]; // Prior turns first, the message to answer last
+  temperature: number;
+  maxTokens: number;
+  responseFormat?: 'text' | 'json'; // 'json' enables the provider's JSON mode where supported
+}
+
+export interface AITokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface AIGenerationResult {
+  content: string;
+  token_usage: AITokenUsage;
+}
+
+export interface AIProvider {
+  /** Registry key, stored in model_used and accepted in request bodies */
+  readonly name: string;
+  /** Human readable name shown in model selectors */
+  readonly label: string;
+  /** Upstream model identifier */
+  readonly model: string;
+
+  /** Whether the provider has the configuration it needs to serve requests */
+  isAvailable(): boolean;
+
+  generate(request: AIGenerationRequest): Promise<AIGenerationResult>;
+
+  /** Optional token streaming; providers without it answer in a single chunk */
+  stream?(request: AIGenerationRequest, onToken: AITokenHandler): Promise<AIGenerationResult>;
+
+  /** Make a minimal request to the provider, throwing when it is unreachable */
+  healthCheck(): Promise<void>;
+}
+
+export interface AIProviderInfo {
+  name: string;
+  label: string;
+  model: string;
+  available: boolean;
+}
+
+
+/**
+ * Features with their own failover chain (AI_FAILOVER_<FEATURE> in the environment)
+ * Follow-up chat messages use the travel_questions chain
+ */
+export type AIFeature = 'travel_questions' | 'itineraries';
+
+/**
+ * Price of a model in USD per million tokens, keyed by upstream model in the pricing table
+ */
+export interface AIModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * Tokens, latency and estimated cost of the provider calls behind an answer or itinerary
+ */
+export interface AIUsageTotals {
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+  cost_usd: number;
+}
+
+/**
+ * One answered provider call, stored in ai_usage
+ */
+export interface AIUsageRecord extends AIUsageTotals {
+  feature: AIFeature;
+  model_used: string;
+  provider_model: string;
+  total_tokens: number;
+  session_id?: string | undefined;
+}
+
+// Spend report rows (aggregates of ai_usage)
+export interface AIUsageModelSpend {
+  model_used: string;
+  provider_model: string;
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  avg_latency_ms: number;
+}
+
+export interface AIUsageFeatureSpend {
+  feature: AIFeature;
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  avg_latency_ms: number;
+}
+
+export interface AIUsageDailySpend {
+  day: string; // YYYY-MM-DD
+  feature: AIFeature;
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+}
+
+/**
+ * Spending limit of a provider or a feature over a day or a calendar month
+ */
+export type AIBudgetScope = 'provider' | 'feature';
+
+export type AIBudgetPeriod = 'daily' | 'monthly';
+
+export interface AIBudget {
+  id: number;
+  scope: AIBudgetScope;
+  target: string; // Provider registry name or feature
+  period: AIBudgetPeriod;
+  limit_usd: number;
+  reset_at: Date | null; // Spend before this moment no longer counts towards the current period
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AIBudgetSpend extends AIBudget {
+  period_start: Date;
+  spent_usd: number;
+}
+
+/**
+ * ok below AI_BUDGET_DEGRADE_AT, degraded (cheaper providers first) until the limit, exceeded once it is reached
+ */
+export type AIBudgetState = 'ok' | 'degraded' | 'exceeded';
+
+/**
+ * A budget with its spend in the current period
+ */
+export interface AIBudgetBurn extends AIBudgetSpend {
+  remaining_usd: number;
+  used: number; // Share of the limit spent, 1 once it is reached
+  state: AIBudgetState;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  failures: number;
+  opened_at?: string;
+  last_error?: string;
+}
+
+export interface AIProviderHealth {
+  status: 'healthy' | 'unhealthy';
+  error?: string;
+  model: string;
+  available: boolean;
+  circuit?: CircuitBreakerStatus;
+}
+
+/**
+ * Turns text into a vector for similarity search
+ * Vectors are unit length, so the dot product of two vectors of the same provider is their cosine similarity
+ */
+export interface EmbeddingProvider {
+  /** Provider and model, stored with each vector; vectors of different models are never compared */
+  readonly name: string;
+
+  isAvailable(): boolean;
+
+  embed(text: string): Promise<number[]>;
+}
+
+export type EmbeddingProviderName = 'local' | 'gemini';
+
+/**
+ * Decision of the travel topic filter; questions that are not about travel are declined without calling a provider
+ */
+export interface TopicDecision {
+  travel: boolean;
+  /** Probability of the decision, from 0.5 (a guess) to 1 */
+  confidence: number;
+  /** Why the classifier decided this way, for logs and evaluation */
+  reason: string;
+  /** Classifier that made the decision */
+  classifier: TopicClassifierName;
+}
+
+export interface TopicClassifier {
+  readonly name: TopicClassifierName;
+
+  /** Whether the classifier has the configuration it needs */
+  isAvailable(): boolean;
+
+  classify(text: string): Promise<TopicDecision>;
+}
+
+export type TopicClassifierName = 'keyword' | 'naive_bayes' | 'llm';
+
+export interface LabeledQuestion {
+  text: string;
+  travel: boolean;
+}
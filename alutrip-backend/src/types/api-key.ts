@@ -0,0 +1,39 @@
+import { RateLimitFeature } from './travel';
+
+export type ApiKeyTier = 'basic' | 'pro' | 'internal';
+
+/**
+ * API key row; only the SHA-256 hash of the key is stored
+ */
+export interface ApiKey {
+  id: number;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  tier: ApiKeyTier;
+  created_at: Date;
+  rotated_at?: Date | null;
+  revoked_at?: Date | null;
+  last_used_at?: Date | null;
+}
+
+export type ApiKeySummary = Omit<ApiKey, 'key_hash'>;
+
+/**
+ * Issued or rotated key; the plain key is only returned once
+ */
+export interface IssuedApiKey {
+  api_key: ApiKeySummary;
+  key: string;
+}
+
+/**
+ * Identity attached to the request by the authenticateApiKey middleware
+ */
+export interface ApiKeyIdentity {
+  id: number;
+  name: string;
+  tier: ApiKeyTier;
+}
+
+export type ApiKeyTierQuotas = Record<RateLimitFeature, number>;
@@ -30,6 +30,7 @@ export enum ErrorType {
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   RATE_LIMIT_ERROR = 'RATE_LIMIT_ERROR',
   AI_SERVICE_ERROR = 'AI_SERVICE_ERROR',
+  BUDGET_EXCEEDED_ERROR = 'BUDGET_EXCEEDED_ERROR',
   DATABASE_ERROR = 'DATABASE_ERROR',
   SECURITY_ERROR = 'SECURITY_ERROR',
   INTERNAL_ERROR = 'INTERNAL_ERROR',
@@ -0,0 +1,35 @@
+/**
+ * User accounts; requests made with a valid bearer token are linked to the user instead of only the IP
+ */
+export interface User {
+  id: number;
+  email: string;
+  password_hash: string;
+  name?: string | null;
+  created_at: Date;
+  updated_at: Date;
+  last_login_at?: Date | null;
+}
+
+export type PublicUser = Omit<User, 'password_hash'>;
+
+/**
+ * Identity attached to the request by the authenticate middleware
+ */
+export interface AuthenticatedUser {
+  id: number;
+  email: string;
+}
+
+export interface AuthTokenPayload {
+  sub: number; // User ID
+  email: string;
+  iat: number; // Seconds since epoch
+  exp: number;
+}
+
+export interface AuthResult {
+  user: PublicUser;
+  token: string;
+  expires_at: string;
+}
@@ -0,0 +1,84 @@
+import { TopicClassifierName, TopicDecision } from './ai';
+import { ItineraryRequestData } from './travel';
+
+/**
+ * Offline evaluation of the topic filter and the itinerary prompts (npm run evaluate)
+ */
+
+export interface TopicConfusionMatrix {
+  true_positives: number; // Travel questions accepted
+  false_positives: number; // Other questions accepted
+  true_negatives: number; // Other questions declined
+  false_negatives: number; // Travel questions declined
+}
+
+export interface TopicMisclassification {
+  text: string;
+  expected_travel: boolean;
+  decision: TopicDecision;
+}
+
+/**
+ * Metrics of one classifier; travel questions are the positive class
+ */
+export interface TopicEvaluation {
+  classifier: TopicClassifierName;
+  total: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  accuracy: number;
+  confusion: TopicConfusionMatrix;
+  misclassified: TopicMisclassification[];
+}
+
+export interface ItineraryEvaluationSample {
+  id: string;
+  request: ItineraryRequestData;
+}
+
+export type ItineraryCheckName = 'valid_structure' | 'all_days_present' | 'dates_match' | 'meal_slots_filled';
+
+export interface ItineraryCheckResult {
+  check: ItineraryCheckName;
+  passed: boolean;
+  errors: string[];
+}
+
+export interface ItinerarySampleEvaluation {
+  sample_id: string;
+  model?: string; // Model that produced the answer
+  passed: boolean;
+  /** The recorded answer was produced by a different prompt than the current one */
+  stale?: boolean;
+  checks: ItineraryCheckResult[];
+  error?: string; // The sample could not be generated
+}
+
+export interface ItineraryEvaluation {
+  provider: string;
+  total: number;
+  passed: number;
+  pass_rate: number;
+  samples: ItinerarySampleEvaluation[];
+}
+
+/**
+ * Stored run, compared with earlier runs to tell whether a change made things better or worse
+ */
+export interface EvaluationReport {
+  created_at: string;
+  label?: string;
+  topics: TopicEvaluation[];
+  itineraries?: ItineraryEvaluation;
+}
+
+/**
+ * Recorded provider answer for an evaluation sample
+ */
+export interface ProviderRecording {
+  model: string;
+  prompt_hash: string; // SHA-256 of the system prompt and messages that produced the answer
+  recorded_at: string;
+  content: string;
+}
@@ -0,0 +1,159 @@
+import { ItineraryLeg, ItineraryPeriod, LodgingCategory, TransferMode } from './travel';
+
+/**
+ * Languages the AI answers in and itinerary PDFs are written in
+ */
+export type Locale = 'pt-BR' | 'en' | 'es';
+
+/**
+ * long: weekday, day, month and year; day: weekday, day and month; short: numeric date
+ */
+export type DateFormat = 'long' | 'day' | 'short';
+
+/**
+ * Trip details shared by every itinerary prompt; dates are already formatted for the locale
+ */
+export interface TripInfoPrompt {
+  destination: string;
+  startDate: string;
+  endDate: string;
+  duration: number;
+  legs: ItineraryLeg[];
+  budget?: number | undefined;
+  interests?: string[] | undefined;
+}
+
+export interface PromptDay {
+  day: number;
+  date: string; // YYYY-MM-DD
+  city?: string | undefined; // Leg city on multi-destination trips
+}
+
+/**
+ * Day already planned, listed so the AI does not repeat its places
+ */
+export interface PromptDaySummary {
+  day: number;
+  title: string;
+  places: string[];
+}
+
+export interface PromptTransfer {
+  from: string;
+  to: string;
+  date: string;
+}
+
+export interface DaysChunkPrompt {
+  title: string;
+  lodging: string[];
+  outline: Array<{ day: number; date: string; title: string }>;
+  previousDays: PromptDaySummary[];
+  days: PromptDay[];
+}
+
+export interface DayRegenerationPrompt {
+  title: string;
+  otherDays: PromptDaySummary[];
+  day: PromptDay & { title: string };
+  activities: Array<{ startTime: string; title: string; place: string }>;
+  feedback?: string | undefined;
+}
+
+/**
+ * Notes inside the JSON structure requested for itineraries; the keys themselves are never translated
+ */
+export interface ItineraryJsonHints {
+  introduction: string;
+  activityDescription: string;
+  optional: string;
+  dayTheme: string;
+  lodgingCity: string;
+  transferRecommendation: string;
+  transfersOnly: string;
+}
+
+export interface PromptMessages {
+  travelSystem: string;
+  travelQuestion: (question: string) => string;
+  conversation: (message: string) => string;
+  itinerarySystem: (jsonFormat: string) => string;
+  itineraryJsonHints: ItineraryJsonHints;
+  itineraryCorrection: (errors: string[]) => string;
+  tripInfo: (trip: TripInfoPrompt) => string;
+  itinerary: (startDate: string, transfers: string) => string;
+  transfers: (transfers: PromptTransfer[]) => string;
+  overview: (dates: string[], transfers: string) => string;
+  daysChunk: (chunk: DaysChunkPrompt) => string;
+  dayRegeneration: (request: DayRegenerationPrompt) => string;
+}
+
+export interface PdfMessages {
+  title: string;
+  tripInformation: string;
+  personalizedItinerary: string;
+  destination: string;
+  start: string;
+  duration: string;
+  end: string;
+  days: (count: number) => string;
+  budget: string;
+  legs: string;
+  interests: string;
+  tagline: string;
+  generatedAt: (date: string, time: string) => string;
+  practicalInfo: string;
+  documentation: string;
+  currency: string;
+  transport: string;
+  safety: string;
+  leg: (number: number, destination: string, dates: string) => string;
+  transfers: string;
+  transfer: (from: string, to: string, date: string) => string;
+  lodging: string;
+  lodgingColumns: {
+    name: string;
+    city: string;
+    category: string;
+    neighborhood: string;
+    pricePerNight: string;
+    highlights: string;
+  };
+  estimatedBudget: string;
+  budgetColumns: {
+    category: string;
+    value: (currency: string) => string;
+    total: string;
+  };
+  budgetCategories: {
+    lodging: string;
+    food: string;
+    transport: string;
+    attractions: string;
+    other: string;
+  };
+  extraTips: string;
+  day: (day: number, date: string, title: string) => string;
+  activityColumns: {
+    time: string;
+    activity: string;
+    place: string;
+    cost: string;
+  };
+  tip: string;
+  rainyDay: string;
+  periods: Record<ItineraryPeriod, string>;
+  lodgingCategories: Record<LodgingCategory, string>;
+  transferModes: Record<TransferMode, string>;
+}
+
+/**
+ * Everything the backend writes in the user's language
+ */
+export interface MessageCatalog {
+  locale: Locale;
+  dateLocale: string; // BCP 47 tag used for dates, e.g. 'en-US'
+  refusal: string; // Answer to questions that are not about travel
+  prompts: PromptMessages;
+  pdf: PdfMessages;
+}
@@ -0,0 +1,50 @@
+import { AIFeature } from './ai';
+import { Locale } from './i18n';
+
+/**
+ * Prompts of a template: the system prompt and the user prompt sent with each request
+ */
+export type PromptTemplatePart = 'system_prompt' | 'user_prompt';
+
+/**
+ * Versioned prompts of a feature and locale, with {{variable}} placeholders
+ * Version 0 is never stored: it stands for the built-in prompts of src/locales
+ */
+export interface PromptTemplate {
+  id: number;
+  feature: AIFeature;
+  locale: Locale;
+  version: number;
+  system_prompt: string;
+  user_prompt: string;
+  weight: number; // Relative share of A/B assignments, 0 while inactive
+  description?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Placeholders a template part may use; required ones carry data the prompt cannot work without
+ */
+export interface PromptTemplateVariables {
+  required: string[];
+  optional: string[];
+}
+
+export interface PromptTemplateFilter {
+  feature?: AIFeature | undefined;
+  locale?: Locale | undefined;
+}
+
+/**
+ * Outcome of the requests produced by one template version, to compare A/B variants
+ */
+export interface PromptTemplateVersionStats {
+  locale: Locale;
+  version: number;
+  requests: number;
+  completed: number | null; // Itineraries only
+  failed: number | null; // Itineraries only
+  avg_processing_seconds: number | null; // Itineraries only: from request to completion
+  conversations: number | null; // Travel questions only: answers that were followed up in a chat
+}
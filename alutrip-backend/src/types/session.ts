@@ -0,0 +1,47 @@
+import { ProcessingStatus, TravelQuestionResponse } from './travel';
+
+/**
+ * Anonymous session metadata stored in Redis under `session:<id>`
+ */
+export interface SessionData {
+  id: string;
+  client_ip: string;
+  created_at: string;
+  last_seen_at: string;
+}
+
+/**
+ * Session attached to the request by the attachSession middleware
+ */
+export interface RequestSession {
+  id: string;
+  token: string; // Signed value returned in the x-session-id header
+  created_at: string;
+  expires_at: string;
+}
+
+/**
+ * Caller of endpoints that act on stored records: the authenticated user and the anonymous session,
+ * either may be missing. Questions, conversations and itinerary edits are only allowed to their owner
+ */
+export interface RequestOwner {
+  sessionId?: string | undefined;
+  userId?: number | undefined;
+}
+
+export interface SessionItinerarySummary {
+  id: number;
+  destination: string;
+  start_date: Date;
+  end_date: Date;
+  processing_status: ProcessingStatus;
+  created_at: Date;
+  completed_at: Date | null;
+  pdf_available: boolean;
+}
+
+export interface SessionHistory {
+  session: Omit<RequestSession, 'token'>;
+  questions: TravelQuestionResponse[];
+  itineraries: SessionItinerarySummary[];
+}
@@ -1,18 +1,40 @@
-export type AIModel = 'groq' | 'gemini';
+import { ApiKeyTier } from './api-key';
+import { Locale } from './i18n';
+
+/**
+ * Name of a provider registered in the AI provider registry (e.g. 'groq', 'gemini')
+ * Validated at runtime against the registry, see services/providers/registry.ts
+ */
+export type AIModel = string;
 
 export interface TravelQuestion {
   id: number;
   session_id?: string;
   client_ip: string;
+  user_id?: number | null;
   question: string;
   model_used: AIModel;
   response: string;
+  locale: Locale;
+  prompt_version: number; // Prompt template version of the answer, 0 for the built-in prompts
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+  cost_usd: number; // Estimated from the pricing table, 0 for cached answers and refusals
   created_at: Date;
 }
 
+/**
+ * Stored question with its cosine similarity to the question being compared
+ */
+export interface SimilarTravelQuestion extends TravelQuestion {
+  similarity: number;
+}
+
 export interface TravelQuestionRequest {
   question: string;
   model: AIModel;
+  locale?: Locale; // Resolved from the body or Accept-Language by the controller
 }
 
 export interface TravelQuestionResponse {
@@ -21,14 +43,27 @@ export interface TravelQuestionResponse {
   response: string;
   model_used: AIModel;
   created_at: string;
+  cached?: boolean; // Set on new answers: true when served from the response cache
+  similar_question_id?: number; // Set when the answer was reused from this semantically close question
 }
 
+export interface RelatedTravelQuestion extends TravelQuestionResponse {
+  similarity: number; // Cosine similarity, 1 for the same meaning
+}
+
+/**
+ * Server-Sent Event names used by POST /api/travel/ask/stream
+ * token carries a text chunk, complete the stored question, error an ErrorResponse
+ */
+export type TravelStreamEvent = 'token' | 'complete' | 'error';
+
 export type ProcessingStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
 export interface Itinerary {
   id: number;
   session_id?: string;
   client_ip: string;
+  user_id?: number | null;
   destination: string;
   start_date: Date;
   end_date: Date;
@@ -36,9 +71,15 @@ export interface Itinerary {
   interests?: string[];
   request_data: ItineraryRequestData;
   generated_content: string;
+  structured_content?: StructuredItinerary | null; // Null when the AI output never passed validation
   pdf_filename?: string;
   pdf_path?: string;
   model_used: AIModel;
+  prompt_version: number; // Prompt template version assigned when generation started, 0 for the built-in prompts
+  prompt_tokens: number; // Totals of every provider call behind the itinerary, regenerated days included
+  completion_tokens: number;
+  latency_ms: number;
+  cost_usd: number;
   processing_status: ProcessingStatus;
   created_at: Date;
   completed_at?: Date;
@@ -50,10 +91,218 @@ export interface ItineraryRequestData {
   end_date: string;
   budget?: number;
   interests?: string[];
+  model?: AIModel; // Resolved to the feature default when the client does not choose one
+  legs?: ItineraryLeg[]; // Multi-destination trips; destination and dates then span all legs
+  locale?: Locale; // Language of the itinerary and its PDF
+}
+
+export interface ItineraryLeg {
+  destination: string;
+  start_date: string;
+  end_date: string;
 }
 
 export interface ItineraryRequest extends ItineraryRequestData {}
 
+/**
+ * Structured itinerary returned by the AI as JSON and validated before it is stored
+ */
+export type ItineraryPeriod = 'morning' | 'lunch' | 'afternoon' | 'dinner' | 'evening';
+
+export type LodgingCategory = 'budget' | 'mid_range' | 'luxury';
+
+export interface ItineraryPlace {
+  name: string;
+  address?: string;
+}
+
+export interface ItineraryActivity {
+  period: ItineraryPeriod;
+  start_time: string; // HH:MM
+  end_time?: string; // HH:MM
+  title: string;
+  description: string;
+  place: ItineraryPlace;
+  estimated_cost_usd: number;
+  tips?: string;
+}
+
+export interface ItineraryDay {
+  day: number;
+  date: string; // YYYY-MM-DD
+  title: string;
+  activities: ItineraryActivity[];
+  rainy_day_alternative?: string;
+}
+
+export interface LodgingOption {
+  name: string;
+  category: LodgingCategory;
+  neighborhood: string;
+  price_per_night_usd: number;
+  highlights: string;
+  city?: string; // Set on multi-destination trips
+}
+
+export type TransferMode = 'train' | 'bus' | 'flight' | 'car' | 'ferry';
+
+export interface ItineraryTransfer {
+  from: string;
+  to: string;
+  date: string;
+  mode: TransferMode;
+  duration: string;
+  estimated_cost_usd: number;
+  recommendation: string;
+}
+
+export interface BudgetBreakdown {
+  currency: 'USD';
+  lodging: number;
+  food: number;
+  transport: number;
+  attractions: number;
+  other?: number;
+  total: number;
+  saving_tips: string[];
+}
+
+export interface PracticalInfo {
+  documentation: string;
+  currency: string;
+  transport: string;
+  safety: string;
+}
+
+export interface StructuredItinerary {
+  title: string;
+  introduction: string;
+  practical_info: PracticalInfo;
+  days: ItineraryDay[];
+  lodging_options: LodgingOption[];
+  transfers?: ItineraryTransfer[]; // One per change of leg on multi-destination trips
+  budget: BudgetBreakdown;
+  extra_tips: string[];
+}
+
+/**
+ * Long trips are generated in chunks: an overview first, then batches of days sharing its context
+ */
+export interface ItineraryDayOutline {
+  day: number;
+  date: string; // YYYY-MM-DD
+  title: string;
+}
+
+export interface ItineraryOverview extends Omit<StructuredItinerary, 'days'> {
+  day_outline: ItineraryDayOutline[];
+}
+
+export type ItineraryGenerationStage = 'full' | 'overview' | 'days';
+
+export interface ItineraryProgress {
+  stage: 'generating' | 'overview' | 'days' | 'pdf';
+  completed_chunks: number;
+  total_chunks: number;
+  percent: number;
+}
+
+export type ItineraryProgressHandler = (progress: ItineraryProgress) => void | Promise<void>;
+
+/**
+ * Lifecycle stage of an itinerary generation job, pushed by GET /api/itinerary/:id/events
+ * A failed attempt with retries left goes back to queued
+ */
+export type ItineraryJobStage = 'queued' | 'generating_content' | 'generating_pdf' | 'completed' | 'failed';
+
+/**
+ * Progress reported through BullMQ job.updateProgress and sent as a Server-Sent Event named progress
+ */
+export interface ItineraryProgressEvent {
+  itinerary_id: number;
+  stage: ItineraryJobStage;
+  percent: number;
+  completed_chunks?: number;
+  total_chunks?: number;
+}
+
+/**
+ * A single day of a completed itinerary rewritten on request, kept as revision history
+ */
+export interface ItineraryRevision {
+  id: number;
+  itinerary_id: number;
+  revision_number: number;
+  day_number: number;
+  feedback?: string | null;
+  previous_day: ItineraryDay;
+  new_day: ItineraryDay;
+  model_used: AIModel;
+  created_at: Date;
+}
+
+export interface ItineraryDayRegeneration {
+  day: ItineraryDay;
+  revision: ItineraryRevision;
+  pdf_filename: string;
+}
+
+/**
+ * Snapshot of the itinerary content taken every time it is written, so generations can be compared and restored
+ */
+export type ItineraryVersionSource = 'generation' | 'day_regeneration' | 'restore';
+
+export interface ItineraryPromptParameters {
+  request_data: ItineraryRequestData;
+  total_chunks?: number; // Generation
+  day_number?: number; // Day regeneration
+  feedback?: string;
+  restored_from?: number; // Restore
+}
+
+export interface ItineraryVersion {
+  id: number;
+  itinerary_id: number;
+  version_number: number;
+  source: ItineraryVersionSource;
+  generated_content: string;
+  structured_content: StructuredItinerary | null;
+  pdf_filename?: string | null;
+  pdf_path?: string | null;
+  model_used: AIModel;
+  prompt_parameters: ItineraryPromptParameters;
+  created_at: Date;
+}
+
+export type ItineraryVersionSummary = Omit<ItineraryVersion, 'generated_content' | 'structured_content' | 'pdf_path'>;
+
+export interface ItineraryFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ItineraryDayDiff {
+  day: number;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  title?: { from: string; to: string };
+  added_activities: string[];
+  removed_activities: string[];
+}
+
+export interface ItineraryTextDiffLine {
+  type: 'added' | 'removed';
+  line: string;
+}
+
+export interface ItineraryVersionDiff {
+  from_version: number;
+  to_version: number;
+  changes: ItineraryFieldChange[];
+  days: ItineraryDayDiff[];
+  text_changes: ItineraryTextDiffLine[]; // Only when a version has no structured content
+}
+
 export interface ItineraryResponse {
   id: number;
   destination: string;
@@ -85,6 +334,21 @@ export interface RateLimit {
 
 export type RateLimitFeature = 'travel_questions' | 'itineraries';
 
+export type RateLimitAlgorithm = 'fixed_window' | 'sliding_log' | 'token_bucket';
+
+/**
+ * Request counted against a limit, kept so it can be given back
+ */
+export interface RateLimitCharge {
+  feature: RateLimitFeature;
+  algorithm: RateLimitAlgorithm;
+  key: string;
+  limit: number;
+  windowMs: number;
+  identity: RateLimitIdentity;
+  entry?: string; // Sliding log entry of the request
+}
+
 export interface RateLimitInfo {
   used: number;
   limit: number;
@@ -92,33 +356,109 @@ export interface RateLimitInfo {
   reset_time: string;
 }
 
+/**
+ * Whose requests are counted: an IP address, or an API key with the quotas of its tier
+ */
+export type RateLimitIdentity =
+  | { type: 'ip'; ip: string }
+  | { type: 'api_key'; api_key_id: number; tier: ApiKeyTier };
+
 export interface RateLimitStatus {
-  ip: string;
+  identity: RateLimitIdentity;
   limits: {
     travel_questions: RateLimitInfo;
     itineraries: RateLimitInfo;
   };
 }
 
-// Conversation types (for future chat support)
+// Rate limit history types (daily counts kept in rate_limit_events)
+export type RateLimitOutcome = 'allowed' | 'blocked' | 'refunded';
+
+export interface RateLimitTopConsumer {
+  identity_type: RateLimitIdentity['type'];
+  identity: string; // IP address or API key ID
+  allowed: number;
+  blocked: number;
+  refunded: number;
+  last_event_at: Date;
+}
+
+export interface RateLimitBlockedDay {
+  day: string; // YYYY-MM-DD
+  feature: RateLimitFeature;
+  blocked: number;
+  identities: number; // Distinct identities that were blocked
+}
+
+export interface RateLimitUsageTrend {
+  day: string; // YYYY-MM-DD
+  feature: RateLimitFeature;
+  allowed: number;
+  blocked: number;
+  refunded: number;
+  identities: number;
+}
+
+// Conversation types (multi-turn chat on top of travel questions)
 export interface Conversation {
   id: number;
   session_id: string;
+  user_id?: number | null;
   initial_question_id: number;
   title?: string;
   created_at: Date;
   updated_at: Date;
 }
 
+export type MessageType = 'question' | 'response';
+
 export interface Message {
   id: number;
   conversation_id: number;
-  message_type: 'question' | 'response';
+  message_type: MessageType;
   content: string;
   model_used?: AIModel;
   created_at: Date;
 }
 
+export interface ChatTurn {
+  message_type: MessageType;
+  content: string;
+}
+
+export interface ChatMessageRequest {
+  message: string;
+  model?: AIModel;
+  locale?: Locale;
+}
+
+export interface ChatMessageResponse {
+  conversation_id: number;
+  session_id: string;
+  message_id: number;
+  response: string;
+  model_used: AIModel;
+  created_at: string;
+}
+
+export interface ConversationMessageResponse {
+  id: number;
+  type: MessageType;
+  content: string;
+  model_used?: AIModel;
+  created_at: string;
+}
+
+export interface ConversationResponse {
+  id: number;
+  session_id: string;
+  initial_question_id: number;
+  title?: string;
+  created_at: string;
+  updated_at: string;
+  messages: ConversationMessageResponse[];
+}
+
 export interface AIServiceResponse {
   content: string;
   model_used: AIModel;
@@ -128,8 +468,24 @@ export interface AIServiceResponse {
     total_tokens: number;
   };
   processing_time_ms: number;
+  cost_usd?: number; // Estimated cost of the provider calls; unset when no provider was called
+  cached?: boolean; // Answer taken from the response cache instead of a provider
+  prompt_version?: number; // Prompt template version of the answer; unset for refusals
 }
 
+/**
+ * Previous itinerary answer that failed validation, sent back to the AI so it can fix it
+ */
+export interface ItineraryCorrection {
+  previous_content: string;
+  errors: string[];
+}
+
+/**
+ * Callback receiving each text chunk as the AI provider streams it
+ */
+export type AITokenHandler = (token: string) => void;
+
 export interface AIServiceError extends Error {
   provider: AIModel;
   code?: string;
@@ -0,0 +1,20 @@
+import { AIBudget, AIBudgetSpend } from '../../src/types/ai';
+
+// Daily budget of the Gemini provider
+export const mockAIBudget: AIBudget = {
+  id: 1,
+  scope: 'provider',
+  target: 'gemini',
+  period: 'daily',
+  limit_usd: 5,
+  reset_at: null,
+  created_at: new Date('2024-01-10T09:00:00Z'),
+  updated_at: new Date('2024-01-10T09:00:00Z')
+};
+
+// The same budget with $4.20 spent today
+export const mockAIBudgetSpend: AIBudgetSpend = {
+  ...mockAIBudget,
+  period_start: new Date('2024-01-15T00:00:00Z'),
+  spent_usd: 4.2
+};
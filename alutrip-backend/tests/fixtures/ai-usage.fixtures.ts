@@ -0,0 +1,46 @@
+import { AIUsageDailySpend, AIUsageModelSpend, AIUsageRecord } from '../../src/types/ai';
+
+// Travel question answered by Gemini
+export const mockAIUsageRecord: AIUsageRecord = {
+  feature: 'travel_questions',
+  model_used: 'gemini',
+  provider_model: 'gemini-2.5-flash',
+  prompt_tokens: 120,
+  completion_tokens: 480,
+  total_tokens: 600,
+  latency_ms: 2300,
+  cost_usd: 0.001236,
+  session_id: 'session123'
+};
+
+export const mockAIUsageModelSpend: AIUsageModelSpend[] = [
+  {
+    model_used: 'gemini',
+    provider_model: 'gemini-2.5-flash',
+    calls: 42,
+    prompt_tokens: 50400,
+    completion_tokens: 201600,
+    cost_usd: 0.51912,
+    avg_latency_ms: 2410
+  },
+  {
+    model_used: 'groq',
+    provider_model: 'llama-3.1-8b-instant',
+    calls: 130,
+    prompt_tokens: 156000,
+    completion_tokens: 520000,
+    cost_usd: 0.0494,
+    avg_latency_ms: 640
+  }
+];
+
+export const mockAIUsageDailySpend: AIUsageDailySpend[] = [
+  {
+    day: '2024-01-15',
+    feature: 'itineraries',
+    calls: 12,
+    prompt_tokens: 18000,
+    completion_tokens: 96000,
+    cost_usd: 0.2454
+  }
+];
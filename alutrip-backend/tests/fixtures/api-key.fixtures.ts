@@ -0,0 +1,32 @@
+import { ApiKey, ApiKeySummary, IssuedApiKey } from '../../src/types/api-key';
+
+// Mock API key rows
+export const mockPlainApiKey = 'alu_Zk3q9XbTcW1m0pLr8sYfHq2vNd4uJe7a';
+
+export const mockApiKey: ApiKey = {
+  id: 3,
+  name: 'reporting-bot',
+  key_prefix: 'alu_Zk3q9XbT',
+  key_hash: 'e1b2a6d5e5f0a1c6d7e8f9a0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c0',
+  tier: 'pro',
+  created_at: new Date('2024-01-15T10:00:00Z'),
+  rotated_at: null,
+  revoked_at: null,
+  last_used_at: null
+};
+
+export const mockApiKeySummary: ApiKeySummary = {
+  id: 3,
+  name: 'reporting-bot',
+  key_prefix: 'alu_Zk3q9XbT',
+  tier: 'pro',
+  created_at: new Date('2024-01-15T10:00:00Z'),
+  rotated_at: null,
+  revoked_at: null,
+  last_used_at: null
+};
+
+export const mockIssuedApiKey: IssuedApiKey = {
+  api_key: mockApiKeySummary,
+  key: mockPlainApiKey
+};
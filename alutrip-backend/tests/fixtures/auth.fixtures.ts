@@ -0,0 +1,39 @@
+import { AuthResult, PublicUser, User } from '../../src/types/auth';
+
+// Mock user rows (the password hash is not a real scrypt key)
+export const mockUser: User = {
+  id: 12,
+  email: 'maria@example.com',
+  password_hash: 'scrypt:00112233445566778899aabbccddeeff:abcdef',
+  name: 'Maria',
+  created_at: new Date('2024-01-15T10:00:00Z'),
+  updated_at: new Date('2024-01-15T10:00:00Z'),
+  last_login_at: null
+};
+
+export const mockPublicUser: PublicUser = {
+  id: 12,
+  email: 'maria@example.com',
+  name: 'Maria',
+  created_at: new Date('2024-01-15T10:00:00Z'),
+  updated_at: new Date('2024-01-15T10:00:00Z'),
+  last_login_at: null
+};
+
+export const mockAuthResult: AuthResult = {
+  user: mockPublicUser,
+  token: 'header.payload.signature',
+  expires_at: '2024-01-22T10:00:00.000Z'
+};
+
+// Mock request bodies
+export const mockRegisterRequest = {
+  email: 'Maria@Example.com',
+  password: 'correct-horse-battery',
+  name: 'Maria'
+};
+
+export const mockLoginRequest = {
+  email: 'maria@example.com',
+  password: 'correct-horse-battery'
+};
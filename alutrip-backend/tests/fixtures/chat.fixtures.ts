@@ -0,0 +1,68 @@
+import { Conversation, Message, ChatMessageResponse, AIServiceResponse } from '../../src/types/travel';
+
+// Mock conversation data
+export const mockConversation: Conversation = {
+  id: 10,
+  session_id: 'session123',
+  initial_question_id: 1,
+  title: 'What are the best places to visit in Paris?',
+  created_at: new Date('2024-01-15T10:00:00.000Z'),
+  updated_at: new Date('2024-01-15T10:05:00.000Z')
+};
+
+export const mockConversationMessages: Message[] = [
+  {
+    id: 100,
+    conversation_id: 10,
+    message_type: 'question',
+    content: 'What are the best places to visit in Paris?',
+    created_at: new Date('2024-01-15T10:00:00.000Z')
+  },
+  {
+    id: 101,
+    conversation_id: 10,
+    message_type: 'response',
+    content: 'Paris offers amazing attractions like the Eiffel Tower, Louvre Museum, and Notre-Dame Cathedral...',
+    model_used: 'groq',
+    created_at: new Date('2024-01-15T10:00:01.000Z')
+  }
+];
+
+export const mockFollowUpMessage = 'Which of those museums should I visit first?';
+
+export const mockFollowUpQuestionMessage: Message = {
+  id: 102,
+  conversation_id: 10,
+  message_type: 'question',
+  content: mockFollowUpMessage,
+  created_at: new Date('2024-01-15T10:05:00.000Z')
+};
+
+export const mockFollowUpResponseMessage: Message = {
+  id: 103,
+  conversation_id: 10,
+  message_type: 'response',
+  content: 'Start with the Louvre early in the morning to avoid the queues...',
+  model_used: 'groq',
+  created_at: new Date('2024-01-15T10:05:02.000Z')
+};
+
+export const mockFollowUpAIResponse: AIServiceResponse = {
+  content: 'Start with the Louvre early in the morning to avoid the queues...',
+  model_used: 'groq',
+  token_usage: {
+    prompt_tokens: 320,
+    completion_tokens: 150,
+    total_tokens: 470
+  },
+  processing_time_ms: 1200
+};
+
+export const mockChatMessageResponse: ChatMessageResponse = {
+  conversation_id: 10,
+  session_id: 'session123',
+  message_id: 103,
+  response: 'Start with the Louvre early in the morning to avoid the queues...',
+  model_used: 'groq',
+  created_at: '2024-01-15T10:05:02.000Z'
+};
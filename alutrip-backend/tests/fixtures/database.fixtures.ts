@@ -0,0 +1,10 @@
+import { QueryResult, QueryResultRow } from 'pg';
+
+// Result of a mocked query(), shaped like the one pg returns
+export const queryResult = <T extends QueryResultRow>(rows: T[], command = 'SELECT'): QueryResult<T> => ({
+  rows,
+  rowCount: rows.length,
+  command,
+  oid: 0,
+  fields: []
+});
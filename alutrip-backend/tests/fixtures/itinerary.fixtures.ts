@@ -1,4 +1,15 @@
-import { Itinerary, ItineraryRequestData, ProcessingStatus, AIModel } from '../../src/types/travel';
+import {
+  Itinerary,
+  ItineraryRequestData,
+  ProcessingStatus,
+  AIModel,
+  ItineraryDay,
+  ItineraryOverview,
+  ItineraryRevision,
+  ItineraryTransfer,
+  ItineraryVersion,
+  StructuredItinerary
+} from '../../src/types/travel';
 
 // Mock itinerary request data
 export const mockItineraryRequestData: ItineraryRequestData = {
@@ -22,6 +33,11 @@ export const mockItineraryPending: Itinerary = {
   request_data: mockItineraryRequestData,
   generated_content: '',
   model_used: 'groq',
+  prompt_version: 0,
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  latency_ms: 0,
+  cost_usd: 0,
   processing_status: 'pending',
   created_at: new Date('2025-09-18T10:00:00.000Z')
 };
@@ -101,7 +117,227 @@ export const mockAIItineraryResponse = {
     completion_tokens: 2000,
     total_tokens: 2150
   },
-  processing_time_ms: 8500
+  processing_time_ms: 8500,
+  cost_usd: 0.0002
+};
+
+// Mock structured itinerary returned by the AI as JSON
+export const mockStructuredItinerary: StructuredItinerary = {
+  title: 'Paris em 3 dias',
+  introduction: 'Paris, a Cidade Luz, é um dos destinos mais românticos do mundo.',
+  practical_info: {
+    documentation: 'Passaporte válido',
+    currency: 'Euro (EUR)',
+    transport: 'Metrô, ônibus e táxi',
+    safety: 'Cuidado com batedores de carteira em áreas turísticas'
+  },
+  days: [
+    {
+      day: 1,
+      date: '2025-12-15',
+      title: 'Centro Histórico',
+      activities: [
+        {
+          period: 'morning',
+          start_time: '09:00',
+          end_time: '12:00',
+          title: 'Torre Eiffel',
+          description: 'Subida ao segundo andar da torre',
+          place: { name: 'Torre Eiffel', address: 'Champ de Mars, 5 Av. Anatole France' },
+          estimated_cost_usd: 30,
+          tips: 'Compre o ingresso online'
+        },
+        {
+          period: 'lunch',
+          start_time: '12:30',
+          title: 'Almoço no Café de la Paix',
+          description: 'Clássico café parisiense',
+          place: { name: 'Café de la Paix' },
+          estimated_cost_usd: 35
+        }
+      ],
+      rainy_day_alternative: 'Museu do Louvre'
+    }
+  ],
+  lodging_options: [
+    {
+      name: 'Hotel Le Marais',
+      category: 'mid_range',
+      neighborhood: 'Le Marais',
+      price_per_night_usd: 180,
+      highlights: 'Bairro central e charmoso'
+    }
+  ],
+  budget: {
+    currency: 'USD',
+    lodging: 540,
+    food: 300,
+    transport: 60,
+    attractions: 150,
+    total: 1050,
+    saving_tips: ['Use o Paris Museum Pass']
+  },
+  extra_tips: ['Aprenda frases básicas em francês']
+};
+
+// Mock AI service response with valid structured JSON
+export const mockAIStructuredItineraryResponse = {
+  ...mockAIItineraryResponse,
+  content: JSON.stringify(mockStructuredItinerary)
+};
+
+// Mock 7-day itinerary, generated in chunks (overview + days 1-5 + days 6-7)
+export const mockLongItineraryPending: Itinerary = {
+  ...mockItineraryPending,
+  id: 4,
+  start_date: new Date('2025-12-01'),
+  end_date: new Date('2025-12-08'),
+  request_data: { ...mockItineraryRequestData, start_date: '2025-12-01', end_date: '2025-12-08' }
+};
+
+export const mockItineraryOverview: ItineraryOverview = {
+  title: 'Paris em 7 dias',
+  introduction: mockStructuredItinerary.introduction,
+  practical_info: mockStructuredItinerary.practical_info,
+  day_outline: Array.from({ length: 7 }, (_, index) => ({
+    day: index + 1,
+    date: `2025-12-0${index + 1}`,
+    title: `Tema do dia ${index + 1}`
+  })),
+  lodging_options: mockStructuredItinerary.lodging_options,
+  budget: mockStructuredItinerary.budget,
+  extra_tips: mockStructuredItinerary.extra_tips
+};
+
+export const buildMockItineraryDay = (day: number): ItineraryDay => ({
+  ...mockStructuredItinerary.days[0]!,
+  day,
+  date: `2025-12-0${day}`,
+  title: `Dia ${day} em Paris`
+});
+
+// Mock multi-destination trip: Lisboa -> Porto -> Madrid over 4 days
+export const mockMultiLegRequestData: ItineraryRequestData = {
+  destination: 'Lisboa - Porto - Madrid',
+  start_date: '2030-05-01',
+  end_date: '2030-05-05',
+  budget: 3000,
+  legs: [
+    { destination: 'Lisboa', start_date: '2030-05-01', end_date: '2030-05-03' },
+    { destination: 'Porto', start_date: '2030-05-03', end_date: '2030-05-04' },
+    { destination: 'Madrid', start_date: '2030-05-04', end_date: '2030-05-05' }
+  ]
+};
+
+export const mockMultiLegItineraryPending: Itinerary = {
+  ...mockItineraryPending,
+  id: 5,
+  destination: mockMultiLegRequestData.destination,
+  start_date: new Date('2030-05-01'),
+  end_date: new Date('2030-05-05'),
+  budget: 3000,
+  interests: [],
+  request_data: mockMultiLegRequestData
+};
+
+export const mockItineraryTransfers: ItineraryTransfer[] = [
+  {
+    from: 'Lisboa',
+    to: 'Porto',
+    date: '2030-05-03',
+    mode: 'train',
+    duration: '3h',
+    estimated_cost_usd: 35,
+    recommendation: 'Alfa Pendular saindo de Santa Apolónia'
+  },
+  {
+    from: 'Porto',
+    to: 'Madrid',
+    date: '2030-05-04',
+    mode: 'flight',
+    duration: '1h15',
+    estimated_cost_usd: 90,
+    recommendation: 'Voo direto saindo do Aeroporto Francisco Sá Carneiro'
+  }
+];
+
+export const mockMultiLegStructuredItinerary: StructuredItinerary = {
+  ...mockStructuredItinerary,
+  title: 'Lisboa, Porto e Madrid',
+  days: ['2030-05-01', '2030-05-02', '2030-05-03', '2030-05-04'].map((date, index) => ({
+    ...mockStructuredItinerary.days[0]!,
+    day: index + 1,
+    date,
+    title: `Dia ${index + 1} da viagem`
+  })),
+  transfers: mockItineraryTransfers
+};
+
+// Mock regeneration of day 1 of the completed Paris itinerary
+export const mockStructuredItineraryCompleted: Itinerary = {
+  ...mockItineraryCompleted,
+  generated_content: JSON.stringify(mockStructuredItinerary),
+  structured_content: mockStructuredItinerary
+};
+
+export const mockRegeneratedDay: ItineraryDay = {
+  ...mockStructuredItinerary.days[0]!,
+  title: 'Paris ao ar livre',
+  activities: [
+    {
+      period: 'morning',
+      start_time: '09:00',
+      end_time: '12:00',
+      title: 'Jardim de Luxemburgo',
+      description: 'Passeio pelos jardins e pelo Palácio de Luxemburgo',
+      place: { name: 'Jardin du Luxembourg' },
+      estimated_cost_usd: 0
+    }
+  ]
+};
+
+export const mockItineraryRevision: ItineraryRevision = {
+  id: 1,
+  itinerary_id: 2,
+  revision_number: 1,
+  day_number: 1,
+  feedback: 'Menos museus, mais parques',
+  previous_day: mockStructuredItinerary.days[0]!,
+  new_day: mockRegeneratedDay,
+  model_used: 'groq',
+  created_at: new Date('2025-09-18T11:00:00.000Z')
+};
+
+export const mockItineraryVersion: ItineraryVersion = {
+  id: 1,
+  itinerary_id: 2,
+  version_number: 1,
+  source: 'generation',
+  generated_content: JSON.stringify(mockStructuredItinerary),
+  structured_content: mockStructuredItinerary,
+  pdf_filename: 'itinerary_paris_france_2_1234567890.pdf',
+  pdf_path: '/app/pdfs/itinerary_paris_france_2_1234567890.pdf',
+  model_used: 'groq',
+  prompt_parameters: { request_data: mockItineraryRequestData, total_chunks: 1 },
+  created_at: new Date('2025-09-18T10:05:00.000Z')
+};
+
+export const mockRegeneratedItineraryVersion: ItineraryVersion = {
+  ...mockItineraryVersion,
+  id: 2,
+  version_number: 2,
+  source: 'day_regeneration',
+  generated_content: JSON.stringify({ ...mockStructuredItinerary, days: [mockRegeneratedDay] }),
+  structured_content: { ...mockStructuredItinerary, days: [mockRegeneratedDay] },
+  pdf_filename: 'itinerary_paris_france_2_2.pdf',
+  pdf_path: '/app/pdfs/itinerary_paris_france_2_2.pdf',
+  model_used: 'gemini',
+  prompt_parameters: {
+    request_data: mockItineraryRequestData,
+    day_number: 1,
+    feedback: 'Menos museus, mais parques'
+  },
+  created_at: new Date('2025-09-18T11:00:00.000Z')
 };
 
 // Mock PDF service response
@@ -131,7 +367,12 @@ export const validDateRanges = [
   {
     start_date: '2024-12-15',
     end_date: '2024-12-22',
-    description: 'Valid 7-day trip (max allowed)'
+    description: 'Valid 7-day trip'
+  },
+  {
+    start_date: '2024-12-01',
+    end_date: '2024-12-31',
+    description: 'Valid 30-day trip (max allowed)'
   }
 ];
 
@@ -150,9 +391,9 @@ export const invalidDateRanges = [
   },
   {
     start_date: '2024-12-01',
-    end_date: '2024-12-09',
-    description: 'Trip too long (8 days)',
-    expectedError: 'Trip duration cannot exceed 7 days'
+    end_date: '2025-01-01',
+    description: 'Trip too long (31 days)',
+    expectedError: 'Trip duration cannot exceed 30 days'
   },
   {
     start_date: '2024-12-01',
@@ -207,6 +207,11 @@ e aproveite cada momento na Cidade Luz!`,
   pdf_filename: 'itinerary_paris_france_1_1234567890.pdf',
   pdf_path: '/app/pdfs/itinerary_paris_france_1_1234567890.pdf',
   model_used: 'groq',
+  prompt_version: 0,
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  latency_ms: 0,
+  cost_usd: 0,
   processing_status: 'completed',
   created_at: new Date('2024-01-15T10:00:00.000Z'),
   completed_at: new Date('2024-01-15T10:05:00.000Z')
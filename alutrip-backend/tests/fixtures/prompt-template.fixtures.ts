@@ -0,0 +1,50 @@
+import { PromptTemplate, PromptTemplateVersionStats } from '../../src/types/prompt-template';
+
+// Active travel question template
+export const mockTravelPromptTemplate: PromptTemplate = {
+  id: 4,
+  feature: 'travel_questions',
+  locale: 'en',
+  version: 2,
+  system_prompt: 'You are AluTrip. Only answer travel questions.',
+  user_prompt: 'Travel question: {{question}}\nAnswer in at most three paragraphs.',
+  weight: 50,
+  description: 'Shorter answers',
+  created_at: new Date('2024-01-10T10:00:00.000Z'),
+  updated_at: new Date('2024-01-10T10:00:00.000Z')
+};
+
+// Active itinerary template
+export const mockItineraryPromptTemplate: PromptTemplate = {
+  id: 7,
+  feature: 'itineraries',
+  locale: 'pt-BR',
+  version: 3,
+  system_prompt: 'Você é o AluTrip. Responda com este JSON:\n{{json_format}}',
+  user_prompt: '{{trip_info}}\nComece em {{start_date}}.{{transfers}}',
+  weight: 1,
+  description: null,
+  created_at: new Date('2024-01-12T10:00:00.000Z'),
+  updated_at: new Date('2024-01-12T10:00:00.000Z')
+};
+
+export const mockPromptTemplateStats: PromptTemplateVersionStats[] = [
+  {
+    locale: 'pt-BR',
+    version: 0,
+    requests: 40,
+    completed: 36,
+    failed: 4,
+    avg_processing_seconds: 52,
+    conversations: null
+  },
+  {
+    locale: 'pt-BR',
+    version: 3,
+    requests: 38,
+    completed: 37,
+    failed: 1,
+    avg_processing_seconds: 48,
+    conversations: null
+  }
+];
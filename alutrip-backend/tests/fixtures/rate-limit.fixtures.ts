@@ -1,4 +1,10 @@
-import { RateLimitInfo } from '../../src/types/travel';
+import {
+  RateLimitBlockedDay,
+  RateLimitCharge,
+  RateLimitInfo,
+  RateLimitTopConsumer,
+  RateLimitUsageTrend
+} from '../../src/types/travel';
 
 // Mock rate limit info
 export const mockRateLimitInfo: RateLimitInfo = {
@@ -22,6 +28,42 @@ export const mockRateLimitInfoFirst: RateLimitInfo = {
   reset_time: '2024-01-15T10:30:00.000Z'
 };
 
+// Request counted by the fixed window limiter
+export const mockRateLimitCharge: RateLimitCharge = {
+  feature: 'itineraries',
+  algorithm: 'fixed_window',
+  key: 'rate_limit:itineraries:fixed_window:127.0.0.1',
+  limit: 5,
+  windowMs: 86400000,
+  identity: { type: 'ip', ip: '127.0.0.1' }
+};
+
+// Rate limit history report rows
+export const mockRateLimitTopConsumer: RateLimitTopConsumer = {
+  identity_type: 'ip',
+  identity: '203.0.113.7',
+  allowed: 42,
+  blocked: 9,
+  refunded: 1,
+  last_event_at: new Date('2024-01-15T10:30:00.000Z')
+};
+
+export const mockRateLimitBlockedDay: RateLimitBlockedDay = {
+  day: '2024-01-15',
+  feature: 'itineraries',
+  blocked: 12,
+  identities: 4
+};
+
+export const mockRateLimitUsageTrend: RateLimitUsageTrend = {
+  day: '2024-01-15',
+  feature: 'travel_questions',
+  allowed: 120,
+  blocked: 12,
+  refunded: 3,
+  identities: 31
+};
+
 // Mock Redis responses
 export const mockRedisGetResponse = 2;
 export const mockRedisIncrementResponse = 3;
@@ -0,0 +1,17 @@
+import { RequestSession, SessionData } from '../../src/types/session';
+
+// Mock session stored in Redis
+export const mockSessionData: SessionData = {
+  id: '3f2b8c1e-9a4d-4c6b-8e2f-5d7a1b9c0e42',
+  client_ip: '127.0.0.1',
+  created_at: '2024-01-15T10:00:00.000Z',
+  last_seen_at: '2024-01-15T10:00:00.000Z'
+};
+
+// Mock session attached to a request by the attachSession middleware
+export const mockRequestSession: RequestSession = {
+  id: '3f2b8c1e-9a4d-4c6b-8e2f-5d7a1b9c0e42',
+  token: '3f2b8c1e-9a4d-4c6b-8e2f-5d7a1b9c0e42.signature',
+  created_at: '2024-01-15T10:00:00.000Z',
+  expires_at: '2024-01-15T12:00:00.000Z'
+};
@@ -13,6 +13,12 @@ export const mockTravelQuestion: TravelQuestion = {
   question: 'What are the best places to visit in Paris?',
   model_used: 'groq',
   response: 'Paris offers amazing attractions like the Eiffel Tower, Louvre Museum, and Notre-Dame Cathedral...',
+  locale: 'en',
+  prompt_version: 0,
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  latency_ms: 0,
+  cost_usd: 0,
   created_at: new Date('2024-01-15T10:00:00.000Z')
 };
 
@@ -32,7 +38,8 @@ export const mockAIServiceResponse: AIServiceResponse = {
     completion_tokens: 200,
     total_tokens: 250
   },
-  processing_time_ms: 1500
+  processing_time_ms: 1500,
+  cost_usd: 0.0000185
 };
 
 // Mock travel questions list
@@ -62,15 +69,32 @@ export const mockTravelStats = {
 
 // Mock model health data
 export const mockModelHealth = {
-  groq: {
-    status: 'healthy' as const,
+  models: {
+    groq: {
+      status: 'healthy' as const,
+      model: 'llama-3.1-8b-instant',
+      available: true
+    },
+    gemini: {
+      status: 'healthy' as const, 
+      model: 'gemini-1.5-pro',
+      available: true
+    }
+  },
+  overall: 'healthy' as const
+};
+
+export const mockModelList = [
+  {
+    name: 'groq',
+    label: 'Groq (Fast)',
     model: 'llama-3.1-8b-instant',
     available: true
   },
-  gemini: {
-    status: 'healthy' as const, 
+  {
+    name: 'gemini',
+    label: 'Gemini (Advanced)',
     model: 'gemini-1.5-pro',
-    available: true
-  },
-  overall: 'healthy' as const
-};
+    available: false
+  }
+];
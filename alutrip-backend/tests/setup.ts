@@ -5,6 +5,8 @@ config({ path: '.env.test' });
 
 // Set test environment
 process.env['NODE_ENV'] = 'test';
+process.env['SESSION_SECRET'] ??= 'test-session-secret-of-at-least-32-characters';
+process.env['JWT_SECRET'] ??= 'test-jwt-secret-of-at-least-32-characters';
 
 // Mock console.log in test environment to reduce noise
 const originalLog = console.log;
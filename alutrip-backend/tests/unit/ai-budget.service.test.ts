@@ -0,0 +1,176 @@
+import { AIBudgetService } from '../../src/services/ai-budget.service';
+import { AIBudgetsModel } from '../../src/models/ai-budgets.model';
+import { aiUsageService } from '../../src/services/ai-usage.service';
+import { logger } from '../../src/config/logger';
+import { AIBudgetSpend, AIProvider } from '../../src/types/ai';
+import { mockAIBudget, mockAIBudgetSpend } from '../fixtures/ai-budget.fixtures';
+
+// Mock dependencies
+jest.mock('../../src/config/env', () => ({
+  config: {
+    ...jest.requireActual('../../src/config/env').config,
+    AI_BUDGET_DEGRADE_AT: 0.8,
+    AI_BUDGET_CACHE_TTL: 30
+  }
+}));
+jest.mock('../../src/models/ai-budgets.model');
+jest.mock('../../src/services/ai-usage.service');
+jest.mock('../../src/config/logger');
+
+const mockedAIBudgetsModel = AIBudgetsModel as jest.Mocked<typeof AIBudgetsModel>;
+const mockedAIUsage = aiUsageService as jest.Mocked<typeof aiUsageService>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+const buildProvider = (name: string, model: string): AIProvider => ({
+  name,
+  label: `${name} label`,
+  model,
+  isAvailable: jest.fn().mockReturnValue(true),
+  generate: jest.fn(),
+  healthCheck: jest.fn()
+});
+
+const gemini = buildProvider('gemini', 'gemini-2.5-flash');
+const groq = buildProvider('groq', 'llama-3.1-8b-instant');
+const selfHosted = buildProvider('openai', 'qwen2.5-7b');
+
+const budgetSpend = (overrides: Partial<AIBudgetSpend>): AIBudgetSpend => ({ ...mockAIBudgetSpend, ...overrides });
+
+describe('AIBudgetService', () => {
+  let service: AIBudgetService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAIUsage.getPricing.mockReturnValue({
+      'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+      'llama-3.1-8b-instant': { input: 0.05, output: 0.08 }
+    });
+    service = new AIBudgetService();
+  });
+
+  describe('list', () => {
+    it('should report the burn of each budget', async () => {
+
+      mockedAIBudgetsModel.findAllWithSpend.mockResolvedValueOnce([
+        mockAIBudgetSpend,
+        budgetSpend({ id: 2, target: 'groq', spent_usd: 6 })
+      ]);
+
+
+      const budgets = await service.list();
+
+
+      expect(budgets[0]).toEqual({
+        ...mockAIBudgetSpend,
+        remaining_usd: expect.closeTo(0.8),
+        used: expect.closeTo(0.84),
+        state: 'degraded'
+      });
+      expect(budgets[1]).toEqual(expect.objectContaining({ remaining_usd: 0, used: 1.2, state: 'exceeded' }));
+    });
+  });
+
+  describe('plan', () => {
+    it('should keep the failover order while every budget is below its degrade share', async () => {
+
+      mockedAIBudgetsModel.findAllWithSpend.mockResolvedValueOnce([budgetSpend({ spent_usd: 1 })]);
+
+
+      const providers = await service.plan('travel_questions', [gemini, groq]);
+
+
+      expect(providers).toEqual([gemini, groq]);
+    });
+
+    it('should refuse the request once the budget of the feature is exceeded', async () => {
+
+      mockedAIBudgetsModel.findAllWithSpend.mockResolvedValueOnce([
+        budgetSpend({ scope: 'feature', target: 'itineraries', period: 'monthly', limit_usd: 10, spent_usd: 12 })
+      ]);
+
+      // Act & Assert
+      await expect(service.plan('itineraries', [gemini, groq])).rejects.toMatchObject({
+        message: 'AI budget exceeded: monthly feature budget of itineraries ($12.00 of $10.00 spent)',
+        statusCode: 503,
+        type: 'BUDGET_EXCEEDED_ERROR',
+        details: { scope: 'feature', target: 'itineraries', period: 'monthly' }
+      });
+    });
+
+    it('should skip the providers over budget', async () => {
+
+      mockedAIBudgetsModel.findAllWithSpend.mockResolvedValueOnce([budgetSpend({ spent_usd: 5 })]);
+
+
+      const providers = await service.plan('travel_questions', [gemini, groq], 'session123');
+
+
+      expect(providers).toEqual([groq]);
+      expect(mockedLogger.warn).toHaveBeenCalledWith('Skipping AI providers over budget', {
+        feature: 'travel_questions',
+        skipped: ['gemini'],
+        sessionId: 'session123'
+      });
+    });
+
+    it('should refuse the request when every provider is over budget', async () => {
+
+      mockedAIBudgetsModel.findAllWithSpend.mockResolvedValueOnce([
+        budgetSpend({ spent_usd: 5 }),
+        budgetSpend({ id: 2, target: 'groq', period: 'monthly', limit_usd: 20, spent_usd: 25 })
+      ]);
+
+      // Act & Assert
+      await expect(service.plan('travel_questions', [gemini, groq])).rejects.toThrow(
+        'AI budget exceeded: daily provider budget of gemini ($5.00 of $5.00 spent)'
+      );
+    });
+
+    it('should try the cheapest providers first when the requested provider is close to its limit', async () => {
+
+      mockedAIBudgetsModel.findAllWithSpend.mockResolvedValueOnce([mockAIBudgetSpend]);
+
+
+      const providers = await service.plan('travel_questions', [gemini, selfHosted, groq]);
+
+
+      expect(providers).toEqual([groq, gemini, selfHosted]);
+      expect(mockedLogger.warn).toHaveBeenCalledWith(
+        'AI budget close to its limit, trying the cheapest providers first',
+        expect.objectContaining({ budgets: ['daily provider gemini'], providers: ['groq', 'gemini', 'openai'] })
+      );
+    });
+
+    it('should not enforce budgets that cannot be loaded', async () => {
+
+      mockedAIBudgetsModel.findAllWithSpend.mockRejectedValueOnce(new Error('Database error'));
+
+
+      const providers = await service.plan('travel_questions', [gemini, groq]);
+
+
+      expect(providers).toEqual([gemini, groq]);
+      expect(mockedLogger.warn).toHaveBeenCalledWith('AI budgets not enforced, failed to load them', {
+        feature: 'travel_questions',
+        error: 'Database error',
+        sessionId: undefined
+      });
+    });
+
+    it('should reuse the burn until a budget changes', async () => {
+
+      mockedAIBudgetsModel.findAllWithSpend.mockResolvedValue([]);
+      mockedAIBudgetsModel.upsert.mockResolvedValueOnce(mockAIBudget);
+
+
+      await service.plan('travel_questions', [gemini]);
+      await service.plan('itineraries', [gemini]);
+      await service.set({ scope: 'provider', target: 'gemini', period: 'daily', limit_usd: 5 });
+      await service.plan('travel_questions', [gemini]);
+
+
+      expect(mockedAIBudgetsModel.findAllWithSpend).toHaveBeenCalledTimes(2);
+      expect(mockedAIBudgetsModel.upsert).toHaveBeenCalledWith('provider', 'gemini', 'daily', 5);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { AIUsageService } from '../../src/services/ai-usage.service';
+import { AIUsageModel } from '../../src/models/ai-usage.model';
+import { logger } from '../../src/config/logger';
+import { mockAIUsageRecord, mockAIUsageModelSpend } from '../fixtures/ai-usage.fixtures';
+
+// Mock dependencies; AI_PRICING overrides one built-in price and adds a self-hosted model
+jest.mock('../../src/config/env', () => ({
+  config: {
+    ...jest.requireActual('../../src/config/env').config,
+    AI_PRICING: {
+      'gemini-2.5-flash': { input: 0.15, output: 0.6 },
+      'qwen2.5-7b': { input: 0.02, output: 0.04 }
+    }
+  }
+}));
+jest.mock('../../src/models/ai-usage.model');
+jest.mock('../../src/config/logger');
+
+const mockedAIUsageModel = AIUsageModel as jest.Mocked<typeof AIUsageModel>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('AIUsageService', () => {
+  let service: AIUsageService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new AIUsageService();
+  });
+
+  describe('estimateCost', () => {
+    it('should price prompt and completion tokens per million', () => {
+
+      const cost = service.estimateCost('llama-3.1-8b-instant', {
+        prompt_tokens: 2000,
+        completion_tokens: 1000,
+        total_tokens: 3000
+      });
+
+
+      expect(cost).toBeCloseTo(0.00018);
+    });
+
+    it('should prefer the AI_PRICING prices over the built-in ones', () => {
+
+      const cost = service.estimateCost('gemini-2.5-flash', {
+        prompt_tokens: 1_000_000,
+        completion_tokens: 1_000_000,
+        total_tokens: 2_000_000
+      });
+
+
+      expect(cost).toBeCloseTo(0.75);
+      expect(service.getPricing()['qwen2.5-7b']).toEqual({ input: 0.02, output: 0.04 });
+    });
+
+    it('should cost nothing for models without a price and warn once', () => {
+
+      const usage = { prompt_tokens: 100, completion_tokens: 100, total_tokens: 200 };
+
+
+      const first = service.estimateCost('unknown-model', usage);
+      const second = service.estimateCost('unknown-model', usage);
+
+
+      expect(first).toBe(0);
+      expect(second).toBe(0);
+      expect(mockedLogger.warn).toHaveBeenCalledTimes(1);
+      expect(mockedLogger.warn).toHaveBeenCalledWith('No price for AI model, recording its calls at no cost', {
+        providerModel: 'unknown-model'
+      });
+    });
+  });
+
+  describe('record', () => {
+    it('should store the call', async () => {
+
+      mockedAIUsageModel.record.mockResolvedValueOnce(undefined);
+
+
+      await service.record(mockAIUsageRecord);
+
+
+      expect(mockedAIUsageModel.record).toHaveBeenCalledWith(mockAIUsageRecord);
+    });
+
+    it('should not fail the request when the call cannot be stored', async () => {
+
+      mockedAIUsageModel.record.mockRejectedValueOnce(new Error('Database error'));
+
+
+      await expect(service.record(mockAIUsageRecord)).resolves.toBeUndefined();
+      expect(mockedLogger.warn).toHaveBeenCalledWith('AI usage not recorded', {
+        feature: 'travel_questions',
+        modelUsed: 'gemini',
+        error: 'Database error'
+      });
+    });
+  });
+
+  describe('summarize', () => {
+    it('should count no tokens or cost for answers without a provider call', () => {
+
+      const totals = service.summarize({ processing_time_ms: 12 });
+
+
+      expect(totals).toEqual({ prompt_tokens: 0, completion_tokens: 0, latency_ms: 12, cost_usd: 0 });
+    });
+  });
+
+  describe('getModelSpend', () => {
+    it('should report the spend with the filters applied', async () => {
+
+      mockedAIUsageModel.getSpendByModel.mockResolvedValueOnce(mockAIUsageModelSpend);
+
+
+      const report = await service.getModelSpend({ days: 7, feature: 'itineraries' });
+
+
+      expect(report).toEqual({ days: 7, feature: 'itineraries', model: null, rows: mockAIUsageModelSpend });
+      expect(mockedAIUsageModel.getSpendByModel).toHaveBeenCalledWith(7, 'itineraries', undefined);
+    });
+  });
+
+  describe('getFeatureSpend', () => {
+    it('should ignore the feature filter', async () => {
+
+      mockedAIUsageModel.getSpendByFeature.mockResolvedValueOnce([]);
+
+
+      const report = await service.getFeatureSpend({ days: 30, feature: 'itineraries', model: 'groq' });
+
+
+      expect(report).toEqual({ days: 30, feature: null, model: 'groq', rows: [] });
+      expect(mockedAIUsageModel.getSpendByFeature).toHaveBeenCalledWith(30, 'groq');
+    });
+  });
+});
@@ -1,6 +1,11 @@
 import { AIService } from '../../src/services/ai.service';
 import { config } from '../../src/config/env';
 import { logger } from '../../src/config/logger';
+import { responseCacheService } from '../../src/services/response-cache.service';
+import { promptTemplateService } from '../../src/services/prompt-template.service';
+import { aiUsageService } from '../../src/services/ai-usage.service';
+import { aiBudgetService } from '../../src/services/ai-budget.service';
+import { createBudgetExceededError } from '../../src/middleware/error-handler';
 import Groq from 'groq-sdk';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import {
@@ -12,16 +17,28 @@ import {
   travelQuestions,
   nonTravelQuestions
 } from '../fixtures/ai.fixtures';
+import { mockItineraryPromptTemplate, mockTravelPromptTemplate } from '../fixtures/prompt-template.fixtures';
 
 // Mock dependencies
 jest.mock('groq-sdk');
 jest.mock('@google/generative-ai');
 jest.mock('../../src/config/env');
 jest.mock('../../src/config/logger');
+jest.mock('../../src/services/response-cache.service');
+jest.mock('../../src/services/prompt-template.service');
+jest.mock('../../src/services/ai-usage.service');
+jest.mock('../../src/services/ai-budget.service');
 
 const MockedGroq = Groq as jest.MockedClass<typeof Groq>;
 const MockedGoogleGenerativeAI = GoogleGenerativeAI as jest.MockedClass<typeof GoogleGenerativeAI>;
 const mockedLogger = logger as jest.Mocked<typeof logger>;
+const mockedResponseCache = responseCacheService as jest.Mocked<typeof responseCacheService>;
+const mockedPromptTemplates = promptTemplateService as jest.Mocked<typeof promptTemplateService>;
+const mockedAIUsage = aiUsageService as jest.Mocked<typeof aiUsageService>;
+const mockedAIBudget = aiBudgetService as jest.Mocked<typeof aiBudgetService>;
+const { PromptTemplateService } = jest.requireActual('../../src/services/prompt-template.service');
+const renderTemplate = (content: string, variables?: Record<string, string>): string =>
+  new PromptTemplateService().render(content, variables);
 
 // Mock config values
 const mockConfig = config as jest.Mocked<typeof config>;
@@ -38,6 +55,8 @@ describe('AIService', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockedResponseCache.get.mockResolvedValue(null);
+    mockedAIBudget.plan.mockImplementation(async(_feature, providers) => providers);
     
     // Setup Groq mock
     mockGroqClient = {
@@ -184,6 +203,289 @@ describe('AIService', () => {
         ).rejects.toThrow('Unsupported AI model: unsupported');
       });
     });
+
+    describe('Response cache', () => {
+      it('should answer from the cache without calling the provider', async () => {
+
+        mockedResponseCache.get.mockResolvedValue({
+          content: 'Spring and early autumn.',
+          model_used: 'groq',
+          cached_at: '2024-01-15T10:00:00.000Z'
+        });
+
+
+        const result = await aiService.processQuestion(travelQuestions[0]!, 'groq', sessionId);
+
+
+        expect(result).toEqual(expect.objectContaining({
+          content: 'Spring and early autumn.',
+          model_used: 'groq',
+          cached: true
+        }));
+        expect(mockedResponseCache.get).toHaveBeenCalledWith(travelQuestions[0], 'groq', undefined);
+        expect(mockGroqClient.chat.completions.create).not.toHaveBeenCalled();
+      });
+
+      it('should cache new answers', async () => {
+
+        (mockGroqClient.chat.completions.create as jest.Mock).mockResolvedValue(mockGroqChatCompletion);
+
+
+        const result = await aiService.processQuestion(travelQuestions[0]!, 'groq', sessionId);
+
+
+        expect(result.cached).toBeUndefined();
+        expect(mockedResponseCache.set).toHaveBeenCalledWith(travelQuestions[0], expect.objectContaining({
+          content: mockGroqChatCompletion.choices[0]?.message?.content,
+          model_used: 'groq'
+        }), undefined);
+      });
+
+      it('should not cache declined questions', async () => {
+
+        await aiService.processQuestion(nonTravelQuestions[0]!, 'groq', sessionId);
+
+
+        expect(mockedResponseCache.get).not.toHaveBeenCalled();
+        expect(mockedResponseCache.set).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('Locales', () => {
+      it('should ask the provider in the requested locale and cache the answer under it', async () => {
+
+        (mockGroqClient.chat.completions.create as jest.Mock).mockResolvedValue(mockGroqChatCompletion);
+
+
+        await aiService.processQuestion(travelQuestions[0]!, 'groq', sessionId, 'en');
+
+
+        const { messages } = (mockGroqClient.chat.completions.create as jest.Mock).mock.calls[0][0];
+        expect(messages[0].content).toContain('You are AluTrip');
+        expect(messages[1].content).toContain(`Travel Question: ${travelQuestions[0]}`);
+        expect(mockedResponseCache.get).toHaveBeenCalledWith(travelQuestions[0], 'groq', 'en');
+        expect(mockedResponseCache.set).toHaveBeenCalledWith(travelQuestions[0], expect.any(Object), 'en');
+      });
+
+      it('should decline non-travel questions in the requested locale', async () => {
+
+        const result = await aiService.processQuestion(nonTravelQuestions[0]!, 'groq', sessionId, 'es');
+
+
+        expect(result.content).toMatch(/^¡Hola! Soy AluTrip/);
+        expect(mockGroqClient.chat.completions.create).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('Prompt templates', () => {
+      it('should ask with the assigned template and record its version', async () => {
+
+        (mockGroqClient.chat.completions.create as jest.Mock).mockResolvedValue(mockGroqChatCompletion);
+        mockedPromptTemplates.assign.mockResolvedValueOnce(mockTravelPromptTemplate);
+        mockedPromptTemplates.render.mockImplementation(renderTemplate);
+
+
+        const result = await aiService.processQuestion(travelQuestions[0]!, 'groq', sessionId, 'en');
+
+
+        const { messages } = (mockGroqClient.chat.completions.create as jest.Mock).mock.calls[0][0];
+        expect(mockedPromptTemplates.assign).toHaveBeenCalledWith('travel_questions', 'en');
+        expect(messages[0].content).toBe(mockTravelPromptTemplate.system_prompt);
+        expect(messages[1].content).toBe(
+          `Travel question: ${travelQuestions[0]}\nAnswer in at most three paragraphs.`
+        );
+        expect(result.prompt_version).toBe(mockTravelPromptTemplate.version);
+        expect(mockedResponseCache.set).toHaveBeenCalledWith(
+          travelQuestions[0],
+          expect.objectContaining({ prompt_version: mockTravelPromptTemplate.version }),
+          'en'
+        );
+      });
+
+      it('should record the built-in version 0 without an active template', async () => {
+
+        (mockGroqClient.chat.completions.create as jest.Mock).mockResolvedValue(mockGroqChatCompletion);
+        mockedPromptTemplates.assign.mockResolvedValueOnce(null);
+
+
+        const result = await aiService.processQuestion(travelQuestions[0]!, 'groq', sessionId);
+
+
+        expect(result.prompt_version).toBe(0);
+      });
+
+      it('should keep the version of a cached answer', async () => {
+
+        mockedResponseCache.get.mockResolvedValueOnce({
+          content: 'Spring is ideal.',
+          model_used: 'groq',
+          prompt_version: 2,
+          cached_at: '2024-01-15T10:00:00.000Z'
+        });
+
+
+        const result = await aiService.processQuestion(travelQuestions[0]!, 'groq', sessionId);
+
+
+        expect(result.prompt_version).toBe(2);
+        expect(mockedPromptTemplates.assign).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('streamQuestion', () => {
+    const sessionId = 'test-session';
+
+    it('should send a cached answer as a single chunk', async () => {
+
+      const onToken = jest.fn();
+      mockedResponseCache.get.mockResolvedValue({
+        content: 'Spring is ideal.',
+        model_used: 'groq',
+        cached_at: '2024-01-15T10:00:00.000Z'
+      });
+
+
+      const result = await aiService.streamQuestion(travelQuestions[0]!, 'groq', onToken, sessionId);
+
+
+      expect(onToken.mock.calls).toEqual([['Spring is ideal.']]);
+      expect(result.cached).toBe(true);
+      expect(mockGroqClient.chat.completions.create).not.toHaveBeenCalled();
+    });
+
+    async function* toStream<T>(items: T[]): AsyncGenerator<T> {
+      for (const item of items) {
+        yield item;
+      }
+    }
+
+    it('should forward Groq chunks and return the full answer', async () => {
+
+      const onToken = jest.fn();
+      (mockGroqClient.chat.completions.create as jest.Mock).mockResolvedValue(toStream([
+        { choices: [{ delta: { content: 'Spring ' } }] },
+        { choices: [{ delta: { content: 'is ideal.' } }] },
+        {
+          choices: [{ delta: {} }],
+          x_groq: { usage: { prompt_tokens: 100, completion_tokens: 5, total_tokens: 105 } }
+        }
+      ]));
+
+
+      const result = await aiService.streamQuestion(travelQuestions[0]!, 'groq', onToken, sessionId);
+
+
+      expect(onToken.mock.calls).toEqual([['Spring '], ['is ideal.']]);
+      expect(result.content).toBe('Spring is ideal.');
+      expect(result.model_used).toBe('groq');
+      expect(result.token_usage?.total_tokens).toBe(105);
+      expect(mockGroqClient.chat.completions.create).toHaveBeenCalledWith(expect.objectContaining({
+        stream: true
+      }));
+    });
+
+    it('should forward Gemini chunks and return the full answer', async () => {
+
+      const onToken = jest.fn();
+      mockGeminiModel.generateContentStream = jest.fn().mockResolvedValue({
+        stream: toStream([
+          { text: () => 'Visit Kyoto ' },
+          { text: () => 'in April.' }
+        ])
+      });
+
+
+      const result = await aiService.streamQuestion(travelQuestions[0]!, 'gemini', onToken, sessionId);
+
+
+      expect(onToken.mock.calls).toEqual([['Visit Kyoto '], ['in April.']]);
+      expect(result.content).toBe('Visit Kyoto in April.');
+      expect(result.model_used).toBe('gemini');
+    });
+
+    it('should send the decline message as a single token for non-travel questions', async () => {
+
+      const onToken = jest.fn();
+
+
+      const result = await aiService.streamQuestion(nonTravelQuestions[0]!, 'groq', onToken, sessionId);
+
+
+      expect(result.content).toBe(mockNonTravelDeclineResponse.content);
+      expect(onToken).toHaveBeenCalledTimes(1);
+      expect(onToken).toHaveBeenCalledWith(mockNonTravelDeclineResponse.content);
+      expect(mockGroqClient.chat.completions.create).not.toHaveBeenCalled();
+    });
+
+    it('should wrap empty streams as provider errors', async () => {
+
+      (mockGroqClient.chat.completions.create as jest.Mock).mockResolvedValue(toStream([
+        { choices: [{ delta: { content: '' } }] }
+      ]));
+
+      // Act & Assert
+      await expect(
+        aiService.streamQuestion(travelQuestions[0]!, 'groq', jest.fn(), sessionId)
+      ).rejects.toThrow('Failed to stream question with groq: Empty response from Groq API');
+    });
+  });
+
+  describe('processConversation', () => {
+    const sessionId = 'test-session';
+    const history = [
+      { message_type: 'question' as const, content: 'What are the best places to visit in Paris?' },
+      { message_type: 'response' as const, content: 'Paris offers the Eiffel Tower and the Louvre...' }
+    ];
+
+    it('should pass prior turns to Groq as chat messages', async () => {
+
+      (mockGroqClient.chat.completions.create as jest.Mock).mockResolvedValue(mockGroqChatCompletion);
+
+
+      const result = await aiService.processConversation('And which museum should I visit first?', history, 'groq', sessionId);
+
+
+      expect(result.model_used).toBe('groq');
+      expect(result.content).toBe(mockGroqChatCompletion.choices[0]?.message?.content);
+      const { messages } = (mockGroqClient.chat.completions.create as jest.Mock).mock.calls[0][0];
+      expect(messages.map((m: { role: string }) => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+      expect(messages[1].content).toBe(history[0]!.content);
+      expect(messages[3].content).toContain('And which museum should I visit first?');
+    });
+
+    it('should inline the transcript in the Gemini prompt', async () => {
+
+      mockGeminiModel.generateContent.mockResolvedValue(mockGeminiResponse);
+
+
+      const result = await aiService.processConversation('And which museum should I visit first?', history, 'gemini', sessionId);
+
+
+      expect(result.model_used).toBe('gemini');
+      const prompt = mockGeminiModel.generateContent.mock.calls[0][0] as string;
+      expect(prompt).toContain(`Usuário: ${history[0]!.content}`);
+      expect(prompt).toContain(`AluTrip: ${history[1]!.content}`);
+    });
+
+    it('should decline non-travel follow-ups without calling AI APIs', async () => {
+
+      const result = await aiService.processConversation(nonTravelQuestions[0]!, history, 'groq', sessionId);
+
+
+      expect(result.content).toBe(mockNonTravelDeclineResponse.content);
+      expect(mockGroqClient.chat.completions.create).not.toHaveBeenCalled();
+    });
+
+    it('should wrap provider errors', async () => {
+
+      (mockGroqClient.chat.completions.create as jest.Mock).mockRejectedValue(new Error('Groq API timeout'));
+
+      // Act & Assert
+      await expect(
+        aiService.processConversation('And which museum should I visit first?', history, 'groq', sessionId)
+      ).rejects.toThrow('Failed to process conversation with groq: Groq API timeout');
+    });
   });
 
   describe('processItineraryRequest', () => {
@@ -208,10 +510,66 @@ describe('AIService', () => {
           ]),
           model: 'llama-3.1-8b-instant',
           temperature: 0.8, // Higher creativity for itineraries
-          max_tokens: 8192
+          max_tokens: 8192,
+          response_format: { type: 'json_object' }
         }));
     });
 
+    it('should embed the JSON format in the system prompt of the template', async () => {
+
+      (mockGroqClient.chat.completions.create as jest.Mock).mockResolvedValue(mockGroqItineraryChatCompletion);
+      mockedPromptTemplates.render.mockImplementation(renderTemplate);
+
+
+      const result = await aiService.processItineraryRequest(
+        testPrompt,
+        'groq',
+        sessionId,
+        undefined,
+        'full',
+        'pt-BR',
+        mockItineraryPromptTemplate
+      );
+
+
+      const { messages } = (mockGroqClient.chat.completions.create as jest.Mock).mock.calls[0][0];
+      expect(messages[0].content).toMatch(/^Você é o AluTrip\. Responda com este JSON:\n\{\n {2}"title": "string"/);
+      expect(messages[0].content).not.toContain('{{json_format}}');
+      expect(result.prompt_version).toBe(mockItineraryPromptTemplate.version);
+    });
+
+    it('should replay a rejected answer with its validation errors', async () => {
+
+      (mockGroqClient.chat.completions.create as jest.Mock).mockResolvedValue(mockGroqItineraryChatCompletion);
+
+
+      await aiService.processItineraryRequest(testPrompt, 'groq', sessionId, {
+        previous_content: '{"title": "Paris"}',
+        errors: ['introduction: Required']
+      });
+
+
+      const { messages } = (mockGroqClient.chat.completions.create as jest.Mock).mock.calls[0][0];
+      expect(messages).toHaveLength(4);
+      expect(messages[1]).toEqual({ role: 'user', content: testPrompt });
+      expect(messages[2]).toEqual({ role: 'assistant', content: '{"title": "Paris"}' });
+      expect(messages[3]).toEqual({ role: 'user', content: expect.stringContaining('- introduction: Required') });
+    });
+
+    it('should request the itinerary texts in the requested locale', async () => {
+
+      (mockGroqClient.chat.completions.create as jest.Mock).mockResolvedValue(mockGroqItineraryChatCompletion);
+
+
+      await aiService.processItineraryRequest(testPrompt, 'groq', sessionId, undefined, 'overview', 'en');
+
+
+      const { messages } = (mockGroqClient.chat.completions.create as jest.Mock).mock.calls[0][0];
+      expect(messages[0].content).toContain('- The texts must be in English');
+      expect(messages[0].content).toContain('"title": "string (theme of the day)"');
+      expect(messages[0].content).not.toContain('"activities"');
+    });
+
     it('should process itinerary request with Gemini successfully', async () => {
 
       mockGeminiModel.generateContent.mockResolvedValue(mockGeminiItineraryResponse);
@@ -242,6 +600,266 @@ describe('AIService', () => {
     });
   });
 
+  describe('failover', () => {
+    const sessionId = 'test-session';
+
+    beforeEach(() => {
+      (mockConfig as any).AI_FAILOVER_TRAVEL_QUESTIONS = ['groq', 'gemini'];
+      (mockConfig as any).AI_FAILOVER_ITINERARIES = ['groq', 'gemini'];
+      (mockConfig as any).AI_CIRCUIT_BREAKER_THRESHOLD = 2;
+      (mockConfig as any).AI_CIRCUIT_BREAKER_COOLDOWN = 60000;
+    });
+
+    afterEach(() => {
+      (mockConfig as any).AI_FAILOVER_TRAVEL_QUESTIONS = [];
+      (mockConfig as any).AI_FAILOVER_ITINERARIES = [];
+    });
+
+    it('should answer with the next provider and report it in model_used', async () => {
+
+      (mockGroqClient.chat.completions.create as jest.Mock).mockRejectedValue(new Error('Groq API unavailable'));
+      mockGeminiModel.generateContent.mockResolvedValue(mockGeminiResponse);
+
+
+      const result = await aiService.processQuestion(travelQuestions[0]!, 'groq', sessionId);
+
+
+      expect(result.model_used).toBe('gemini');
+      expect(result.content).toBe(mockGeminiResponse.response.text());
+      expect(mockedLogger.warn).toHaveBeenCalledWith(
+        'AI request answered by failover provider',
+        expect.objectContaining({
+          feature: 'travel_questions',
+          requestedModel: 'groq',
+          modelUsed: 'gemini'
+        })
+      );
+    });
+
+    it('should use the itinerary chain for itineraries', async () => {
+
+      (mockConfig as any).AI_FAILOVER_ITINERARIES = ['gemini', 'groq'];
+      (mockGroqClient.chat.completions.create as jest.Mock).mockResolvedValue(mockGroqItineraryChatCompletion);
+      mockGeminiModel.generateContent.mockRejectedValue(new Error('Gemini API timeout'));
+
+
+      const result = await aiService.processItineraryRequest('Roteiro para Paris', 'gemini', sessionId);
+
+
+      expect(result.model_used).toBe('groq');
+    });
+
+    it('should report every failure when the whole chain fails', async () => {
+
+      (mockGroqClient.chat.completions.create as jest.Mock).mockRejectedValue(new Error('Groq API unavailable'));
+      mockGeminiModel.generateContent.mockRejectedValue(new Error('Gemini API timeout'));
+
+      // Act & Assert
+      await expect(
+        aiService.processQuestion(travelQuestions[0]!, 'groq', sessionId)
+      ).rejects.toThrow(
+        'Failed to process question with groq: All providers failed (groq: Groq API unavailable; gemini: Gemini API timeout)'
+      );
+    });
+
+    it('should skip providers whose circuit is open', async () => {
+
+      (mockGroqClient.chat.completions.create as jest.Mock).mockRejectedValue(new Error('Groq API unavailable'));
+      mockGeminiModel.generateContent.mockResolvedValue(mockGeminiResponse);
+      await aiService.processQuestion(travelQuestions[0]!, 'groq', sessionId);
+      await aiService.processQuestion(travelQuestions[0]!, 'groq', sessionId);
+      (mockGroqClient.chat.completions.create as jest.Mock).mockClear();
+
+
+      const result = await aiService.processQuestion(travelQuestions[0]!, 'groq', sessionId);
+
+
+      expect(result.model_used).toBe('gemini');
+      expect(mockGroqClient.chat.completions.create).not.toHaveBeenCalled();
+      expect(aiService.getCircuitBreakerStatus()['groq']).toEqual(expect.objectContaining({
+        state: 'open',
+        failures: 2,
+        last_error: 'Groq API unavailable'
+      }));
+      expect(aiService.getCircuitBreakerStatus()['gemini']?.state).toBe('closed');
+    });
+
+    it('should not fail over once tokens were streamed', async () => {
+
+      async function* failingStream() {
+        yield { choices: [{ delta: { content: 'Paris ' } }] };
+        throw new Error('Connection reset');
+      }
+      (mockGroqClient.chat.completions.create as jest.Mock).mockResolvedValue(failingStream());
+      mockGeminiModel.generateContentStream = jest.fn();
+      const onToken = jest.fn();
+
+      // Act & Assert
+      await expect(
+        aiService.streamQuestion(travelQuestions[0]!, 'groq', onToken, sessionId)
+      ).rejects.toThrow('Failed to stream question with groq: Connection reset');
+
+      expect(onToken).toHaveBeenCalledWith('Paris ');
+      expect(mockGeminiModel.generateContentStream).not.toHaveBeenCalled();
+    });
+
+    it('should pick the first available provider of the chain as default model', () => {
+
+      (mockConfig as any).AI_FAILOVER_ITINERARIES = ['gemini', 'groq'];
+
+
+      const model = aiService.getDefaultModel('itineraries');
+
+
+      expect(model).toBe('gemini');
+    });
+  });
+
+  describe('usage accounting', () => {
+    const sessionId = 'test-session';
+
+    it('should record the tokens, latency and cost of each answered call', async () => {
+
+      (mockGroqClient.chat.completions.create as jest.Mock).mockResolvedValue(mockGroqChatCompletion);
+      mockedAIUsage.estimateCost.mockReturnValue(0.0000167);
+
+
+      const result = await aiService.processQuestion(travelQuestions[0]!, 'groq', sessionId);
+
+
+      expect(result.cost_usd).toBe(0.0000167);
+      expect(mockedAIUsage.estimateCost).toHaveBeenCalledWith('llama-3.1-8b-instant', {
+        prompt_tokens: 45,
+        completion_tokens: 180,
+        total_tokens: 225
+      });
+      expect(mockedAIUsage.record).toHaveBeenCalledWith({
+        feature: 'travel_questions',
+        model_used: 'groq',
+        provider_model: 'llama-3.1-8b-instant',
+        prompt_tokens: 45,
+        completion_tokens: 180,
+        total_tokens: 225,
+        latency_ms: expect.any(Number),
+        cost_usd: 0.0000167,
+        session_id: sessionId
+      });
+    });
+
+    it('should read the token counts Gemini returns', async () => {
+
+      mockGeminiModel.generateContent.mockResolvedValue({
+        response: {
+          text: () => 'Lisbon is lovely in May.',
+          usageMetadata: { promptTokenCount: 310, candidatesTokenCount: 95, totalTokenCount: 405 }
+        }
+      });
+
+
+      const result = await aiService.processQuestion(travelQuestions[0]!, 'gemini', sessionId);
+
+
+      expect(result.token_usage).toEqual({ prompt_tokens: 310, completion_tokens: 95, total_tokens: 405 });
+      expect(mockedAIUsage.estimateCost).toHaveBeenCalledWith('gemini-1.5-pro', result.token_usage);
+    });
+
+    it('should take the Gemini token counts of a stream from its last chunk', async () => {
+
+      mockGeminiModel.generateContentStream = jest.fn().mockResolvedValue({
+        stream: (async function* () {
+          yield { text: () => 'Visit Kyoto ', usageMetadata: { promptTokenCount: 310 } };
+          yield {
+            text: () => 'in April.',
+            usageMetadata: { promptTokenCount: 310, candidatesTokenCount: 6, totalTokenCount: 316 }
+          };
+        })()
+      });
+
+
+      const result = await aiService.streamQuestion(travelQuestions[0]!, 'gemini', jest.fn(), sessionId);
+
+
+      expect(result.token_usage).toEqual({ prompt_tokens: 310, completion_tokens: 6, total_tokens: 316 });
+    });
+
+    it('should not record cached answers', async () => {
+
+      mockedResponseCache.get.mockResolvedValue({
+        content: 'Spring is ideal.',
+        model_used: 'groq',
+        cached_at: '2024-01-15T10:00:00.000Z'
+      });
+
+
+      const result = await aiService.processQuestion(travelQuestions[0]!, 'groq', sessionId);
+
+
+      expect(result.cost_usd).toBeUndefined();
+      expect(mockedAIUsage.record).not.toHaveBeenCalled();
+    });
+
+    it('should still estimate the cost without recording or budgets when spend tracking is off', async () => {
+
+      (mockGroqClient.chat.completions.create as jest.Mock).mockResolvedValue(mockGroqChatCompletion);
+      mockedAIUsage.estimateCost.mockReturnValue(0.0000167);
+      const offlineService = new AIService(undefined, false);
+
+
+      const result = await offlineService.processQuestion(travelQuestions[0]!, 'groq', sessionId);
+
+
+      expect(result.cost_usd).toBe(0.0000167);
+      expect(mockedAIUsage.record).not.toHaveBeenCalled();
+      expect(mockedAIBudget.plan).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('budgets', () => {
+    const sessionId = 'test-session';
+
+    beforeEach(() => {
+      (mockConfig as any).AI_FAILOVER_TRAVEL_QUESTIONS = ['groq', 'gemini'];
+    });
+
+    afterEach(() => {
+      (mockConfig as any).AI_FAILOVER_TRAVEL_QUESTIONS = [];
+    });
+
+    it('should try the providers in the order the budgets allow', async () => {
+
+      mockedAIBudget.plan.mockImplementation(async(_feature, providers) => [...providers].reverse());
+      mockGeminiModel.generateContent.mockResolvedValue(mockGeminiResponse);
+
+
+      const result = await aiService.processQuestion(travelQuestions[0]!, 'groq', sessionId);
+
+
+      expect(result.model_used).toBe('gemini');
+      expect(mockGroqClient.chat.completions.create).not.toHaveBeenCalled();
+      expect(mockedAIBudget.plan).toHaveBeenCalledWith(
+        'travel_questions',
+        [expect.objectContaining({ name: 'groq' }), expect.objectContaining({ name: 'gemini' })],
+        sessionId
+      );
+    });
+
+    it('should refuse without calling a provider once a budget is exceeded', async () => {
+
+      const budgetError = createBudgetExceededError(
+        'AI budget exceeded: daily feature budget of travel_questions ($5.00 of $5.00 spent)'
+      );
+      mockedAIBudget.plan.mockRejectedValue(budgetError);
+
+      // Act & Assert
+      await expect(
+        aiService.processQuestion(travelQuestions[0]!, 'groq', sessionId)
+      ).rejects.toBe(budgetError);
+
+      expect(mockGroqClient.chat.completions.create).not.toHaveBeenCalled();
+      expect(mockGeminiModel.generateContent).not.toHaveBeenCalled();
+    });
+  });
+
   describe('healthCheck', () => {
     it('should return healthy status for all services', async () => {
 
@@ -256,8 +874,8 @@ describe('AIService', () => {
       const result = await aiService.healthCheck();
 
 
-      expect(result.groq.status).toBe('healthy');
-      expect(result.gemini.status).toBe('healthy');
+      expect(result['groq']?.status).toBe('healthy');
+      expect(result['gemini']?.status).toBe('healthy');
       expect(mockGroqClient.chat.completions.create).toHaveBeenCalledWith(expect.objectContaining({
         messages: [{ role: 'user', content: 'Hello' }],
         model: 'llama-3.1-8b-instant',
@@ -274,10 +892,10 @@ describe('AIService', () => {
       const result = await aiService.healthCheck();
 
 
-      expect(result.groq.status).toBe('unhealthy');
-      expect(result.groq.error).toBe('Connection failed');
-      expect(result.gemini.status).toBe('unhealthy');
-      expect(result.gemini.error).toBe('API key invalid');
+      expect(result['groq']?.status).toBe('unhealthy');
+      expect(result['groq']?.error).toBe('Connection failed');
+      expect(result['gemini']?.status).toBe('unhealthy');
+      expect(result['gemini']?.error).toBe('API key invalid');
     });
 
     it('should handle partial health check success', async () => {
@@ -291,9 +909,9 @@ describe('AIService', () => {
       const result = await aiService.healthCheck();
 
 
-      expect(result.groq.status).toBe('healthy');
-      expect(result.gemini.status).toBe('unhealthy');
-      expect(result.gemini.error).toBe('Service unavailable');
+      expect(result['groq']?.status).toBe('healthy');
+      expect(result['gemini']?.status).toBe('unhealthy');
+      expect(result['gemini']?.error).toBe('Service unavailable');
     });
   });
 
@@ -325,8 +943,8 @@ describe('AIService', () => {
       const result = aiService.getModelInfo();
 
 
-      expect(result.groq.available).toBe(false);
-      expect(result.gemini.available).toBe(false);
+      expect(result['groq']?.available).toBe(false);
+      expect(result['gemini']?.available).toBe(false);
 
       // Restore config
       Object.assign(mockConfig, originalConfig);
@@ -0,0 +1,138 @@
+import { createHash } from 'crypto';
+import { ApiKeyService } from '../../src/services/api-key.service';
+import { ApiKeysModel } from '../../src/models/api-keys.model';
+import { mockApiKey, mockApiKeySummary, mockPlainApiKey } from '../fixtures/api-key.fixtures';
+
+// Mock dependencies
+jest.mock('../../src/models/api-keys.model');
+jest.mock('../../src/config/logger');
+
+const mockedApiKeysModel = ApiKeysModel as jest.Mocked<typeof ApiKeysModel>;
+
+const sha256 = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+describe('ApiKeyService', () => {
+  let apiKeyService: ApiKeyService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    apiKeyService = new ApiKeyService();
+  });
+
+  describe('issueKey', () => {
+    it('should store only the hash and prefix of a new key', async () => {
+
+      mockedApiKeysModel.create.mockResolvedValue(mockApiKeySummary);
+
+
+      const result = await apiKeyService.issueKey('reporting-bot', 'pro');
+
+
+      expect(result.key).toMatch(/^alu_[A-Za-z0-9_-]{32}$/);
+      expect(result.api_key).toEqual(mockApiKeySummary);
+      expect(mockedApiKeysModel.create).toHaveBeenCalledWith(
+        'reporting-bot',
+        'pro',
+        result.key.slice(0, 12),
+        sha256(result.key)
+      );
+    });
+
+    it('should generate a different key each time', async () => {
+
+      mockedApiKeysModel.create.mockResolvedValue(mockApiKeySummary);
+
+
+      const first = await apiKeyService.issueKey('a', 'basic');
+      const second = await apiKeyService.issueKey('b', 'basic');
+
+
+      expect(first.key).not.toBe(second.key);
+    });
+  });
+
+  describe('rotateKey', () => {
+    it('should replace the stored hash with the hash of a new key', async () => {
+
+      mockedApiKeysModel.updateHash.mockResolvedValue(mockApiKeySummary);
+
+
+      const result = await apiKeyService.rotateKey(3);
+
+
+      expect(result?.key).toMatch(/^alu_/);
+      expect(mockedApiKeysModel.updateHash).toHaveBeenCalledWith(3, result?.key.slice(0, 12), sha256(result?.key ?? ''));
+    });
+
+    it('should return null for a missing or revoked key', async () => {
+
+      mockedApiKeysModel.updateHash.mockResolvedValue(null);
+
+
+      const result = await apiKeyService.rotateKey(99);
+
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should return the identity of an active key and record its use', async () => {
+
+      mockedApiKeysModel.findActiveByHash.mockResolvedValue(mockApiKey);
+      mockedApiKeysModel.updateLastUsed.mockResolvedValue(undefined);
+
+
+      const result = await apiKeyService.authenticate(mockPlainApiKey);
+
+
+      expect(result).toEqual({ id: 3, name: 'reporting-bot', tier: 'pro' });
+      expect(mockedApiKeysModel.findActiveByHash).toHaveBeenCalledWith(sha256(mockPlainApiKey));
+      expect(mockedApiKeysModel.updateLastUsed).toHaveBeenCalledWith(3);
+    });
+
+    it('should return null for unknown or revoked keys', async () => {
+
+      mockedApiKeysModel.findActiveByHash.mockResolvedValue(null);
+
+
+      const result = await apiKeyService.authenticate(mockPlainApiKey);
+
+
+      expect(result).toBeNull();
+      expect(mockedApiKeysModel.updateLastUsed).not.toHaveBeenCalled();
+    });
+
+    it('should not look up values without the key prefix', async () => {
+
+      const result = await apiKeyService.authenticate('not-an-api-key');
+
+
+      expect(result).toBeNull();
+      expect(mockedApiKeysModel.findActiveByHash).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the request when recording the use fails', async () => {
+
+      mockedApiKeysModel.findActiveByHash.mockResolvedValue(mockApiKey);
+      mockedApiKeysModel.updateLastUsed.mockRejectedValue(new Error('Database error'));
+
+
+      await expect(apiKeyService.authenticate(mockPlainApiKey)).resolves.toEqual(expect.objectContaining({ id: 3 }));
+    });
+  });
+
+  describe('revokeKey', () => {
+    it('should return the revoked key', async () => {
+
+      mockedApiKeysModel.revoke.mockResolvedValue({ ...mockApiKeySummary, revoked_at: new Date() });
+
+
+      const result = await apiKeyService.revokeKey(3);
+
+
+      expect(result?.revoked_at).toBeInstanceOf(Date);
+      expect(mockedApiKeysModel.revoke).toHaveBeenCalledWith(3);
+    });
+  });
+});
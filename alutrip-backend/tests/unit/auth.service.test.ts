@@ -0,0 +1,170 @@
+import { AuthService } from '../../src/services/auth.service';
+import { UsersModel } from '../../src/models/users.model';
+import { mockUser, mockPublicUser } from '../fixtures/auth.fixtures';
+
+// Mock dependencies
+jest.mock('../../src/models/users.model');
+jest.mock('../../src/config/logger');
+
+const mockedUsersModel = UsersModel as jest.Mocked<typeof UsersModel>;
+
+describe('AuthService', () => {
+  let authService: AuthService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    authService = new AuthService();
+  });
+
+  describe('hashPassword / verifyPassword', () => {
+    it('should verify the password it hashed and reject others', async () => {
+
+      const hash = await authService.hashPassword('correct-horse-battery');
+
+
+      expect(hash).toMatch(/^scrypt:[0-9a-f]{32}:[0-9a-f]{128}$/);
+      await expect(authService.verifyPassword('correct-horse-battery', hash)).resolves.toBe(true);
+      await expect(authService.verifyPassword('wrong-password', hash)).resolves.toBe(false);
+    });
+
+    it('should salt each hash', async () => {
+
+      const first = await authService.hashPassword('correct-horse-battery');
+      const second = await authService.hashPassword('correct-horse-battery');
+
+
+      expect(first).not.toBe(second);
+    });
+
+    it('should reject hashes in an unknown format', async () => {
+      // Act & Assert
+      await expect(authService.verifyPassword('secret', 'plain:secret')).resolves.toBe(false);
+    });
+  });
+
+  describe('signToken / verifyToken', () => {
+    it('should return the payload of a valid token', () => {
+
+      const token = authService.signToken(mockUser);
+
+
+      expect(authService.verifyToken(token)).toEqual(expect.objectContaining({
+        sub: mockUser.id,
+        email: mockUser.email
+      }));
+    });
+
+    it('should reject a token with a tampered payload', () => {
+
+      const [header, , signature] = authService.signToken(mockUser).split('.');
+      const forgedPayload = Buffer.from(JSON.stringify({
+        sub: 1,
+        email: 'admin@example.com',
+        iat: 0,
+        exp: 9999999999
+      })).toString('base64url');
+
+
+      expect(authService.verifyToken(`${header}.${forgedPayload}.${signature}`)).toBeNull();
+    });
+
+    it('should reject an expired token', () => {
+
+      const token = authService.signToken(mockUser, Date.now() - 30 * 24 * 60 * 60 * 1000);
+
+
+      expect(authService.verifyToken(token)).toBeNull();
+    });
+
+    it('should reject malformed tokens', () => {
+      // Act & Assert
+      expect(authService.verifyToken('not-a-token')).toBeNull();
+      expect(authService.verifyToken('')).toBeNull();
+    });
+  });
+
+  describe('register', () => {
+    it('should create the user with a normalized email and return a token', async () => {
+
+      mockedUsersModel.findByEmail.mockResolvedValue(null);
+      mockedUsersModel.create.mockResolvedValue(mockUser);
+
+
+      const result = await authService.register(' Maria@Example.com ', 'correct-horse-battery', 'Maria');
+
+
+      expect(mockedUsersModel.findByEmail).toHaveBeenCalledWith('maria@example.com');
+      expect(mockedUsersModel.create).toHaveBeenCalledWith(
+        'maria@example.com',
+        expect.stringMatching(/^scrypt:/),
+        'Maria'
+      );
+      expect(result?.user).toEqual(mockPublicUser);
+      expect(result?.user).not.toHaveProperty('password_hash');
+      expect(authService.verifyToken(result?.token ?? '')).toEqual(expect.objectContaining({ sub: mockUser.id }));
+    });
+
+    it('should return null when the email is already registered', async () => {
+
+      mockedUsersModel.findByEmail.mockResolvedValue(mockUser);
+
+
+      const result = await authService.register(mockUser.email, 'correct-horse-battery');
+
+
+      expect(result).toBeNull();
+      expect(mockedUsersModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should return null when a concurrent registration wins the unique constraint', async () => {
+
+      mockedUsersModel.findByEmail.mockResolvedValue(null);
+      mockedUsersModel.create.mockRejectedValue(Object.assign(new Error('duplicate key'), { code: '23505' }));
+
+
+      const result = await authService.register(mockUser.email, 'correct-horse-battery');
+
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('login', () => {
+    it('should sign in with the right password', async () => {
+
+      const passwordHash = await authService.hashPassword('correct-horse-battery');
+      mockedUsersModel.findByEmail.mockResolvedValue({ ...mockUser, password_hash: passwordHash });
+
+
+      const result = await authService.login('Maria@Example.com', 'correct-horse-battery');
+
+
+      expect(result?.user.id).toBe(mockUser.id);
+      expect(mockedUsersModel.updateLastLogin).toHaveBeenCalledWith(mockUser.id);
+    });
+
+    it('should return null for a wrong password', async () => {
+
+      const passwordHash = await authService.hashPassword('correct-horse-battery');
+      mockedUsersModel.findByEmail.mockResolvedValue({ ...mockUser, password_hash: passwordHash });
+
+
+      const result = await authService.login(mockUser.email, 'wrong-password');
+
+
+      expect(result).toBeNull();
+      expect(mockedUsersModel.updateLastLogin).not.toHaveBeenCalled();
+    });
+
+    it('should return null for an unknown email', async () => {
+
+      mockedUsersModel.findByEmail.mockResolvedValue(null);
+
+
+      const result = await authService.login('nobody@example.com', 'correct-horse-battery');
+
+
+      expect(result).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,311 @@
+import { ChatService } from '../../src/services/chat.service';
+import { aiService } from '../../src/services/ai.service';
+import { TravelQuestionsModel } from '../../src/models/travel-questions.model';
+import { ConversationsModel } from '../../src/models/conversations.model';
+import { MessagesModel } from '../../src/models/messages.model';
+import { logger } from '../../src/config/logger';
+import { mockTravelQuestion } from '../fixtures/travel.fixtures';
+import {
+  mockConversation,
+  mockConversationMessages,
+  mockFollowUpMessage,
+  mockFollowUpQuestionMessage,
+  mockFollowUpResponseMessage,
+  mockFollowUpAIResponse,
+  mockChatMessageResponse
+} from '../fixtures/chat.fixtures';
+
+// Mock dependencies
+jest.mock('../../src/services/ai.service');
+jest.mock('../../src/models/travel-questions.model');
+jest.mock('../../src/models/conversations.model');
+jest.mock('../../src/models/messages.model');
+jest.mock('../../src/config/logger');
+
+const mockedAIService = aiService as jest.Mocked<typeof aiService>;
+const mockedTravelQuestionsModel = TravelQuestionsModel as jest.Mocked<typeof TravelQuestionsModel>;
+const mockedConversationsModel = ConversationsModel as jest.Mocked<typeof ConversationsModel>;
+const mockedMessagesModel = MessagesModel as jest.Mocked<typeof MessagesModel>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('ChatService', () => {
+  let chatService: ChatService;
+  const sessionId = 'session123';
+  const owner = { sessionId };
+
+  beforeEach(() => {
+    chatService = new ChatService();
+    jest.clearAllMocks();
+  });
+
+  describe('continueConversation', () => {
+    it('should continue an existing conversation with prior turns as context', async () => {
+
+      mockedTravelQuestionsModel.findById.mockResolvedValue(mockTravelQuestion);
+      mockedConversationsModel.findByInitialQuestionId.mockResolvedValue(mockConversation);
+      mockedMessagesModel.findByConversationId.mockResolvedValue(mockConversationMessages);
+      mockedAIService.processConversation.mockResolvedValue(mockFollowUpAIResponse);
+      mockedMessagesModel.create
+        .mockResolvedValueOnce(mockFollowUpQuestionMessage)
+        .mockResolvedValueOnce(mockFollowUpResponseMessage);
+
+
+      const result = await chatService.continueConversation(1, { message: mockFollowUpMessage }, owner);
+
+
+      expect(result).toEqual(mockChatMessageResponse);
+      expect(mockedConversationsModel.findByInitialQuestionId).toHaveBeenCalledWith(1, owner);
+      expect(mockedConversationsModel.create).not.toHaveBeenCalled();
+      expect(mockedAIService.processConversation).toHaveBeenCalledWith(
+        mockFollowUpMessage,
+        [
+          { message_type: 'question', content: mockConversationMessages[0]!.content },
+          { message_type: 'response', content: mockConversationMessages[1]!.content }
+        ],
+        mockTravelQuestion.model_used,
+        mockConversation.session_id,
+        mockTravelQuestion.locale
+      );
+      expect(mockedMessagesModel.create).toHaveBeenNthCalledWith(1, mockConversation.id, 'question', mockFollowUpMessage);
+      expect(mockedMessagesModel.create).toHaveBeenNthCalledWith(
+        2,
+        mockConversation.id,
+        'response',
+        mockFollowUpAIResponse.content,
+        mockFollowUpAIResponse.model_used
+      );
+    });
+
+    it('should create a conversation seeded with the original Q&A on first use', async () => {
+
+      mockedTravelQuestionsModel.findById.mockResolvedValue({ ...mockTravelQuestion, user_id: 7 });
+      mockedConversationsModel.findByInitialQuestionId.mockResolvedValue(null);
+      mockedConversationsModel.create.mockResolvedValue(mockConversation);
+      mockedMessagesModel.findByConversationId.mockResolvedValue(mockConversationMessages);
+      mockedAIService.processConversation.mockResolvedValue(mockFollowUpAIResponse);
+      mockedMessagesModel.create.mockResolvedValue(mockFollowUpResponseMessage);
+
+
+      await chatService.continueConversation(1, { message: mockFollowUpMessage }, { sessionId: 'new-session', userId: 7 });
+
+
+      expect(mockedConversationsModel.create).toHaveBeenCalledWith(
+        'new-session',
+        mockTravelQuestion.id,
+        mockTravelQuestion.question,
+        7
+      );
+      expect(mockedMessagesModel.create).toHaveBeenNthCalledWith(
+        1,
+        mockConversation.id,
+        'question',
+        mockTravelQuestion.question
+      );
+      expect(mockedMessagesModel.create).toHaveBeenNthCalledWith(
+        2,
+        mockConversation.id,
+        'response',
+        mockTravelQuestion.response,
+        mockTravelQuestion.model_used
+      );
+    });
+
+    it('should generate a session ID for a signed-in user without a session', async () => {
+
+      mockedTravelQuestionsModel.findById.mockResolvedValue({ ...mockTravelQuestion, user_id: 7 });
+      mockedConversationsModel.findByInitialQuestionId.mockResolvedValue(null);
+      mockedConversationsModel.create.mockResolvedValue(mockConversation);
+      mockedMessagesModel.findByConversationId.mockResolvedValue([]);
+      mockedAIService.processConversation.mockResolvedValue(mockFollowUpAIResponse);
+      mockedMessagesModel.create.mockResolvedValue(mockFollowUpResponseMessage);
+
+
+      await chatService.continueConversation(1, { message: mockFollowUpMessage }, { userId: 7 });
+
+
+      expect(mockedConversationsModel.create).toHaveBeenCalledWith(
+        expect.stringMatching(/^sess_\d+_[a-z0-9]+$/),
+        mockTravelQuestion.id,
+        mockTravelQuestion.question,
+        7
+      );
+    });
+
+    it('should report a question asked by another user or session as not found', async () => {
+
+      mockedTravelQuestionsModel.findById.mockResolvedValue({ ...mockTravelQuestion, user_id: 7 });
+
+      // Act & Assert
+      await expect(
+        chatService.continueConversation(1, { message: mockFollowUpMessage }, { sessionId: 'other-session', userId: 8 })
+      ).rejects.toThrow('Travel question not found');
+      expect(mockedConversationsModel.findByInitialQuestionId).not.toHaveBeenCalled();
+      expect(mockedAIService.processConversation).not.toHaveBeenCalled();
+    });
+
+    it('should use the requested model instead of the original one', async () => {
+
+      mockedTravelQuestionsModel.findById.mockResolvedValue(mockTravelQuestion);
+      mockedConversationsModel.findByInitialQuestionId.mockResolvedValue(mockConversation);
+      mockedMessagesModel.findByConversationId.mockResolvedValue(mockConversationMessages);
+      mockedAIService.processConversation.mockResolvedValue({ ...mockFollowUpAIResponse, model_used: 'gemini' });
+      mockedMessagesModel.create.mockResolvedValue(mockFollowUpResponseMessage);
+
+
+      await chatService.continueConversation(1, { message: mockFollowUpMessage, model: 'gemini' }, owner);
+
+
+      expect(mockedAIService.processConversation).toHaveBeenCalledWith(
+        mockFollowUpMessage,
+        expect.any(Array),
+        'gemini',
+        mockConversation.session_id,
+        mockTravelQuestion.locale
+      );
+    });
+
+    it('should throw when the travel question does not exist', async () => {
+
+      mockedTravelQuestionsModel.findById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        chatService.continueConversation(999, { message: mockFollowUpMessage }, owner)
+      ).rejects.toThrow('Travel question not found');
+      expect(mockedAIService.processConversation).not.toHaveBeenCalled();
+    });
+
+    it('should wrap AI provider errors', async () => {
+
+      const aiError = new Error('Groq unavailable') as Error & { provider: string };
+      aiError.provider = 'groq';
+      mockedTravelQuestionsModel.findById.mockResolvedValue(mockTravelQuestion);
+      mockedConversationsModel.findByInitialQuestionId.mockResolvedValue(mockConversation);
+      mockedMessagesModel.findByConversationId.mockResolvedValue(mockConversationMessages);
+      mockedAIService.processConversation.mockRejectedValue(aiError);
+
+      // Act & Assert
+      await expect(
+        chatService.continueConversation(1, { message: mockFollowUpMessage }, owner)
+      ).rejects.toThrow('AI service error: Groq unavailable');
+      expect(mockedMessagesModel.create).not.toHaveBeenCalled();
+      expect(mockedLogger.error).toHaveBeenCalledWith(
+        'Failed to continue conversation',
+        expect.objectContaining({ questionId: 1, sessionId })
+      );
+    });
+  });
+
+  describe('getConversation', () => {
+    it('should return the conversation with its messages', async () => {
+
+      mockedConversationsModel.findById.mockResolvedValue(mockConversation);
+      mockedMessagesModel.findByConversationId.mockResolvedValue(mockConversationMessages);
+
+
+      const result = await chatService.getConversation(10, owner);
+
+
+      expect(result).toEqual({
+        id: 10,
+        session_id: 'session123',
+        initial_question_id: 1,
+        title: mockConversation.title,
+        created_at: '2024-01-15T10:00:00.000Z',
+        updated_at: '2024-01-15T10:05:00.000Z',
+        messages: [
+          {
+            id: 100,
+            type: 'question',
+            content: mockConversationMessages[0]!.content,
+            created_at: '2024-01-15T10:00:00.000Z'
+          },
+          {
+            id: 101,
+            type: 'response',
+            content: mockConversationMessages[1]!.content,
+            model_used: 'groq',
+            created_at: '2024-01-15T10:00:01.000Z'
+          }
+        ]
+      });
+    });
+
+    it('should return null when conversation not found', async () => {
+
+      mockedConversationsModel.findById.mockResolvedValue(null);
+
+
+      const result = await chatService.getConversation(999, owner);
+
+
+      expect(result).toBeNull();
+      expect(mockedMessagesModel.findByConversationId).not.toHaveBeenCalled();
+    });
+
+    it('should return null for a conversation of another session', async () => {
+
+      mockedConversationsModel.findById.mockResolvedValue(mockConversation);
+
+
+      const result = await chatService.getConversation(10, { sessionId: 'other-session' });
+
+
+      expect(result).toBeNull();
+      expect(mockedMessagesModel.findByConversationId).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getHistory', () => {
+    it('should return every conversation of the caller', async () => {
+
+      mockedConversationsModel.findByOwner.mockResolvedValue([mockConversation, { ...mockConversation, id: 11 }]);
+      mockedMessagesModel.findByConversationId.mockResolvedValue(mockConversationMessages);
+
+
+      const result = await chatService.getHistory(owner);
+
+
+      expect(result).toHaveLength(2);
+      expect(result.map(c => c.id)).toEqual([10, 11]);
+      expect(mockedConversationsModel.findByOwner).toHaveBeenCalledWith(owner);
+      expect(mockedMessagesModel.findByConversationId).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return no conversations to a caller without user or session', async () => {
+
+      const result = await chatService.getHistory({});
+
+
+      expect(result).toEqual([]);
+      expect(mockedConversationsModel.findByOwner).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteConversation', () => {
+    it('should delete a conversation of the caller', async () => {
+
+      mockedConversationsModel.findById.mockResolvedValue(mockConversation);
+      mockedConversationsModel.delete.mockResolvedValue(true);
+
+
+      const result = await chatService.deleteConversation(10, owner);
+
+
+      expect(result).toBe(true);
+      expect(mockedConversationsModel.delete).toHaveBeenCalledWith(10);
+    });
+
+    it('should not delete a conversation of another user or session', async () => {
+
+      mockedConversationsModel.findById.mockResolvedValue({ ...mockConversation, user_id: 7 });
+
+
+      const result = await chatService.deleteConversation(10, { sessionId: 'other-session', userId: 8 });
+
+
+      expect(result).toBe(false);
+      expect(mockedConversationsModel.delete).not.toHaveBeenCalled();
+    });
+  });
+});
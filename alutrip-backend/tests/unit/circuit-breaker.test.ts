@@ -0,0 +1,112 @@
+import { CircuitBreaker } from '../../src/services/providers/circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  const now = new Date('2024-01-15T10:00:00.000Z').getTime();
+  let circuitBreaker: CircuitBreaker;
+
+  beforeEach(() => {
+    circuitBreaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 30000 });
+  });
+
+  it('should stay closed below the failure threshold', () => {
+
+    circuitBreaker.recordFailure(new Error('Timeout'), now);
+
+
+    expect(circuitBreaker.canRequest(now)).toBe(true);
+    expect(circuitBreaker.getStatus()).toEqual({
+      state: 'closed',
+      failures: 1,
+      last_error: 'Timeout'
+    });
+  });
+
+  it('should open after consecutive failures', () => {
+
+    circuitBreaker.recordFailure(new Error('Timeout'), now);
+    circuitBreaker.recordFailure(new Error('Timeout'), now);
+
+
+    expect(circuitBreaker.canRequest(now + 1000)).toBe(false);
+    expect(circuitBreaker.getStatus()).toEqual({
+      state: 'open',
+      failures: 2,
+      opened_at: '2024-01-15T10:00:00.000Z',
+      last_error: 'Timeout'
+    });
+  });
+
+  it('should allow a trial request after the cooldown', () => {
+
+    circuitBreaker.recordFailure(new Error('Timeout'), now);
+    circuitBreaker.recordFailure(new Error('Timeout'), now);
+
+
+    const allowed = circuitBreaker.canRequest(now + 30000);
+
+
+    expect(allowed).toBe(true);
+    expect(circuitBreaker.getStatus().state).toBe('half_open');
+  });
+
+  it('should allow a single trial request while half open', () => {
+
+    circuitBreaker.recordFailure(new Error('Timeout'), now);
+    circuitBreaker.recordFailure(new Error('Timeout'), now);
+
+
+    const allowed = [
+      circuitBreaker.canRequest(now + 30000),
+      circuitBreaker.canRequest(now + 30001),
+      circuitBreaker.canRequest(now + 60000)
+    ];
+
+
+    expect(allowed).toEqual([true, false, false]);
+    expect(circuitBreaker.getStatus().state).toBe('half_open');
+  });
+
+  it('should allow another trial request after a failed trial and a new cooldown', () => {
+
+    circuitBreaker.recordFailure(new Error('Timeout'), now);
+    circuitBreaker.recordFailure(new Error('Timeout'), now);
+    circuitBreaker.canRequest(now + 30000);
+    circuitBreaker.recordFailure(new Error('Still down'), now + 31000);
+
+
+    const allowed = circuitBreaker.canRequest(now + 61000);
+
+
+    expect(allowed).toBe(true);
+    expect(circuitBreaker.canRequest(now + 61001)).toBe(false);
+  });
+
+  it('should reopen when the trial request fails', () => {
+
+    circuitBreaker.recordFailure(new Error('Timeout'), now);
+    circuitBreaker.recordFailure(new Error('Timeout'), now);
+    circuitBreaker.canRequest(now + 30000);
+
+
+    circuitBreaker.recordFailure(new Error('Still down'), now + 31000);
+
+
+    expect(circuitBreaker.canRequest(now + 32000)).toBe(false);
+    expect(circuitBreaker.getStatus().opened_at).toBe('2024-01-15T10:00:31.000Z');
+  });
+
+  it('should close and reset on success', () => {
+
+    circuitBreaker.recordFailure(new Error('Timeout'), now);
+    circuitBreaker.recordFailure(new Error('Timeout'), now);
+    circuitBreaker.canRequest(now + 30000);
+
+
+    circuitBreaker.recordSuccess();
+
+
+    expect(circuitBreaker.getStatus()).toEqual({ state: 'closed', failures: 0 });
+    expect(circuitBreaker.canRequest(now + 31000)).toBe(true);
+    expect(circuitBreaker.canRequest(now + 31001)).toBe(true);
+  });
+});
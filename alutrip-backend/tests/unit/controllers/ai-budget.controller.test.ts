@@ -0,0 +1,201 @@
+import { Request, Response } from 'express';
+import { aiBudgetController } from '../../../src/controllers/ai-budget.controller';
+import { aiBudgetService } from '../../../src/services/ai-budget.service';
+import { aiService } from '../../../src/services/ai.service';
+import { logger } from '../../../src/config/logger';
+import { mockAIBudget, mockAIBudgetSpend } from '../../fixtures/ai-budget.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/services/ai-budget.service');
+jest.mock('../../../src/services/ai.service');
+jest.mock('../../../src/config/logger');
+
+const mockedAIBudgetService = aiBudgetService as jest.Mocked<typeof aiBudgetService>;
+const mockedAIService = aiService as jest.Mocked<typeof aiService>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('AIBudgetController', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let jsonSpy: jest.Mock;
+  let statusSpy: jest.Mock;
+
+  beforeEach(() => {
+    jsonSpy = jest.fn().mockReturnThis();
+    statusSpy = jest.fn().mockReturnValue({ json: jsonSpy });
+
+    req = {
+      ip: '127.0.0.1',
+      params: {},
+      query: {},
+      headers: {},
+      body: {}
+    };
+
+    res = {
+      status: statusSpy,
+      json: jsonSpy
+    };
+
+    jest.clearAllMocks();
+    mockedAIService.listProviders.mockReturnValue([
+      { name: 'groq', label: 'Groq (Fast)', model: 'llama-3.1-8b-instant', available: true },
+      { name: 'gemini', label: 'Gemini (Advanced)', model: 'gemini-2.5-flash', available: true }
+    ]);
+  });
+
+  describe('listBudgets', () => {
+    it('should return the budgets with their burn', async () => {
+
+      const budgets = [{ ...mockAIBudgetSpend, remaining_usd: 0.8, used: 0.84, state: 'degraded' as const }];
+      mockedAIBudgetService.list.mockResolvedValue(budgets);
+
+
+      await aiBudgetController.listBudgets(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'AI budgets retrieved successfully',
+        data: { budgets, degrade_at: 0.8 }
+      });
+    });
+
+    it('should return 500 and log when the budgets cannot be loaded', async () => {
+
+      mockedAIBudgetService.list.mockRejectedValue(new Error('Database error'));
+
+
+      await aiBudgetController.listBudgets(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(500);
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to list AI budgets', { error: 'Database error' });
+    });
+  });
+
+  describe('setBudget', () => {
+    it('should set the budget of a registered provider', async () => {
+
+      req.body = { scope: 'provider', target: 'gemini', period: 'daily', limit_usd: 5 };
+      mockedAIBudgetService.set.mockResolvedValue(mockAIBudget);
+
+
+      await aiBudgetController.setBudget(req as Request, res as Response);
+
+
+      expect(mockedAIBudgetService.set).toHaveBeenCalledWith(req.body);
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'AI budget set successfully',
+        data: { budget: mockAIBudget }
+      });
+    });
+
+    it('should return 400 for a provider that is not registered', async () => {
+
+      req.body = { scope: 'provider', target: 'gemnii', period: 'daily', limit_usd: 5 };
+
+
+      await aiBudgetController.setBudget(req as Request, res as Response);
+
+
+      expect(mockedAIBudgetService.set).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(400);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          errors: [{ field: 'target', message: 'Unknown AI provider; registered: groq, gemini' }]
+        })
+      }));
+    });
+
+    it('should return 400 for a feature budget of an unknown feature', async () => {
+
+      req.body = { scope: 'feature', target: 'chat', period: 'monthly', limit_usd: 50 };
+
+
+      await aiBudgetController.setBudget(req as Request, res as Response);
+
+
+      expect(mockedAIBudgetService.set).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(400);
+    });
+
+    it('should return 400 for a limit that is not positive', async () => {
+
+      req.body = { scope: 'feature', target: 'itineraries', period: 'monthly', limit_usd: 0 };
+
+
+      await aiBudgetController.setBudget(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('resetBudget', () => {
+    it('should reset the budget', async () => {
+
+      req.params = { id: '1' };
+      const reset = { ...mockAIBudget, reset_at: new Date('2024-01-15T14:00:00Z') };
+      mockedAIBudgetService.reset.mockResolvedValue(reset);
+
+
+      await aiBudgetController.resetBudget(req as Request, res as Response);
+
+
+      expect(mockedAIBudgetService.reset).toHaveBeenCalledWith(1);
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'AI budget reset successfully',
+        data: { budget: reset }
+      });
+    });
+
+    it('should return 404 when the budget does not exist', async () => {
+
+      req.params = { id: '999' };
+      mockedAIBudgetService.reset.mockResolvedValue(null);
+
+
+      await aiBudgetController.resetBudget(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('deleteBudget', () => {
+    it('should return 400 for an invalid ID', async () => {
+
+      req.params = { id: 'abc' };
+
+
+      await aiBudgetController.deleteBudget(req as Request, res as Response);
+
+
+      expect(mockedAIBudgetService.remove).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(400);
+    });
+
+    it('should delete the budget', async () => {
+
+      req.params = { id: '1' };
+      mockedAIBudgetService.remove.mockResolvedValue(true);
+
+
+      await aiBudgetController.deleteBudget(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'AI budget deleted successfully',
+        data: { id: 1 }
+      });
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { Request, Response } from 'express';
+import { aiUsageController } from '../../../src/controllers/ai-usage.controller';
+import { aiUsageService } from '../../../src/services/ai-usage.service';
+import { aiService } from '../../../src/services/ai.service';
+import { logger } from '../../../src/config/logger';
+import { mockAIUsageDailySpend, mockAIUsageModelSpend } from '../../fixtures/ai-usage.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/services/ai-usage.service');
+jest.mock('../../../src/services/ai.service');
+jest.mock('../../../src/config/logger');
+
+const mockedAIUsageService = aiUsageService as jest.Mocked<typeof aiUsageService>;
+const mockedAIService = aiService as jest.Mocked<typeof aiService>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('AIUsageController', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let jsonSpy: jest.Mock;
+  let statusSpy: jest.Mock;
+
+  beforeEach(() => {
+    jsonSpy = jest.fn().mockReturnThis();
+    statusSpy = jest.fn().mockReturnValue({ json: jsonSpy });
+
+    req = {
+      ip: '127.0.0.1',
+      params: {},
+      query: {},
+      headers: {},
+      body: {}
+    };
+
+    res = {
+      status: statusSpy,
+      json: jsonSpy
+    };
+
+    jest.clearAllMocks();
+  });
+
+  describe('getPricing', () => {
+    it('should flag the providers whose model has no price', async () => {
+
+      const pricing = { 'gemini-2.5-flash': { input: 0.3, output: 2.5 } };
+      mockedAIUsageService.getPricing.mockReturnValue(pricing);
+      mockedAIService.listProviders.mockReturnValue([
+        { name: 'gemini', label: 'Gemini (Advanced)', model: 'gemini-2.5-flash', available: true },
+        { name: 'openai', label: 'OpenAI Compatible', model: 'qwen2.5-7b', available: true }
+      ]);
+
+
+      await aiUsageController.getPricing(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'AI pricing retrieved successfully',
+        data: {
+          pricing,
+          providers: [
+            { name: 'gemini', model: 'gemini-2.5-flash', priced: true },
+            { name: 'openai', model: 'qwen2.5-7b', priced: false }
+          ]
+        }
+      });
+    });
+  });
+
+  describe('getModelSpend', () => {
+    it('should report the last 30 days by default', async () => {
+
+      const report = { days: 30, feature: null, model: null, rows: mockAIUsageModelSpend };
+      mockedAIUsageService.getModelSpend.mockResolvedValue(report);
+
+
+      await aiUsageController.getModelSpend(req as Request, res as Response);
+
+
+      expect(mockedAIUsageService.getModelSpend).toHaveBeenCalledWith({ days: 30 });
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'AI usage report retrieved successfully',
+        data: report
+      });
+    });
+
+    it('should return 400 for an unknown feature', async () => {
+
+      req.query = { feature: 'chat' };
+
+
+      await aiUsageController.getModelSpend(req as Request, res as Response);
+
+
+      expect(mockedAIUsageService.getModelSpend).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('getDailySpend', () => {
+    it('should pass the filters to the report', async () => {
+
+      req.query = { days: '7', feature: 'itineraries', model: 'gemini' };
+      mockedAIUsageService.getDailySpend.mockResolvedValue({
+        days: 7,
+        feature: 'itineraries',
+        model: 'gemini',
+        rows: mockAIUsageDailySpend
+      });
+
+
+      await aiUsageController.getDailySpend(req as Request, res as Response);
+
+
+      expect(mockedAIUsageService.getDailySpend).toHaveBeenCalledWith({
+        days: 7,
+        feature: 'itineraries',
+        model: 'gemini'
+      });
+      expect(statusSpy).toHaveBeenCalledWith(200);
+    });
+
+    it('should return 400 for more than a year', async () => {
+
+      req.query = { days: '400' };
+
+
+      await aiUsageController.getDailySpend(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('getFeatureSpend', () => {
+    it('should return 500 and log when the report fails', async () => {
+
+      mockedAIUsageService.getFeatureSpend.mockRejectedValue(new Error('Database error'));
+
+
+      await aiUsageController.getFeatureSpend(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(500);
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to get AI usage report', {
+        error: 'Database error',
+        report: 'features',
+        query: req.query
+      });
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { Request, Response } from 'express';
+import { apiKeyController } from '../../../src/controllers/api-key.controller';
+import { apiKeyService } from '../../../src/services/api-key.service';
+import { logger } from '../../../src/config/logger';
+import { API_KEY_TIER_QUOTAS } from '../../../src/constants/api-key-tiers';
+import { mockApiKeySummary, mockIssuedApiKey } from '../../fixtures/api-key.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/services/api-key.service');
+jest.mock('../../../src/config/logger');
+
+const mockedApiKeyService = apiKeyService as jest.Mocked<typeof apiKeyService>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('ApiKeyController', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let jsonSpy: jest.Mock;
+  let statusSpy: jest.Mock;
+
+  beforeEach(() => {
+    jsonSpy = jest.fn().mockReturnThis();
+    statusSpy = jest.fn().mockReturnValue({ json: jsonSpy });
+
+    req = {
+      ip: '127.0.0.1',
+      params: {},
+      query: {},
+      headers: {},
+      body: {}
+    };
+
+    res = {
+      status: statusSpy,
+      json: jsonSpy
+    };
+
+    jest.clearAllMocks();
+  });
+
+  describe('issueKey', () => {
+    it('should issue a key and return it with the tier quotas', async () => {
+
+      req.body = { name: 'reporting-bot', tier: 'pro' };
+      mockedApiKeyService.issueKey.mockResolvedValue(mockIssuedApiKey);
+
+
+      await apiKeyController.issueKey(req as Request, res as Response);
+
+
+      expect(mockedApiKeyService.issueKey).toHaveBeenCalledWith('reporting-bot', 'pro');
+      expect(statusSpy).toHaveBeenCalledWith(201);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'API key issued successfully',
+        data: {
+          ...mockIssuedApiKey,
+          quotas: API_KEY_TIER_QUOTAS.pro
+        }
+      });
+    });
+
+    it('should default to the basic tier', async () => {
+
+      req.body = { name: 'reporting-bot' };
+      mockedApiKeyService.issueKey.mockResolvedValue(mockIssuedApiKey);
+
+
+      await apiKeyController.issueKey(req as Request, res as Response);
+
+
+      expect(mockedApiKeyService.issueKey).toHaveBeenCalledWith('reporting-bot', 'basic');
+    });
+
+    it('should return 400 for an unknown tier', async () => {
+
+      req.body = { name: 'reporting-bot', tier: 'unlimited' };
+
+
+      await apiKeyController.issueKey(req as Request, res as Response);
+
+
+      expect(mockedApiKeyService.issueKey).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(400);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'error',
+        message: 'Invalid request data'
+      }));
+    });
+
+    it('should return 500 and log service errors', async () => {
+
+      req.body = { name: 'reporting-bot' };
+      mockedApiKeyService.issueKey.mockRejectedValue(new Error('Database error'));
+
+
+      await apiKeyController.issueKey(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(500);
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to issue API key', {
+        error: 'Database error'
+      });
+    });
+  });
+
+  describe('listKeys', () => {
+    it('should return the keys and the tier quotas', async () => {
+
+      mockedApiKeyService.listKeys.mockResolvedValue([mockApiKeySummary]);
+
+
+      await apiKeyController.listKeys(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'API keys retrieved successfully',
+        data: {
+          api_keys: [mockApiKeySummary],
+          tiers: API_KEY_TIER_QUOTAS
+        }
+      });
+    });
+  });
+
+  describe('rotateKey', () => {
+    it('should return the new key', async () => {
+
+      req.params = { id: '3' };
+      mockedApiKeyService.rotateKey.mockResolvedValue(mockIssuedApiKey);
+
+
+      await apiKeyController.rotateKey(req as Request, res as Response);
+
+
+      expect(mockedApiKeyService.rotateKey).toHaveBeenCalledWith(3);
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'API key rotated successfully',
+        data: mockIssuedApiKey
+      });
+    });
+
+    it('should return 404 for a missing or revoked key', async () => {
+
+      req.params = { id: '99' };
+      mockedApiKeyService.rotateKey.mockResolvedValue(null);
+
+
+      await apiKeyController.rotateKey(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(404);
+    });
+
+    it('should return 400 for an invalid id', async () => {
+
+      req.params = { id: 'abc' };
+
+
+      await apiKeyController.rotateKey(req as Request, res as Response);
+
+
+      expect(mockedApiKeyService.rotateKey).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('revokeKey', () => {
+    it('should return the revoked key', async () => {
+
+      req.params = { id: '3' };
+      const revoked = { ...mockApiKeySummary, revoked_at: new Date('2024-02-01T10:00:00Z') };
+      mockedApiKeyService.revokeKey.mockResolvedValue(revoked);
+
+
+      await apiKeyController.revokeKey(req as Request, res as Response);
+
+
+      expect(mockedApiKeyService.revokeKey).toHaveBeenCalledWith(3);
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'API key revoked successfully',
+        data: { api_key: revoked }
+      });
+    });
+
+    it('should return 404 for a key that is already revoked', async () => {
+
+      req.params = { id: '3' };
+      mockedApiKeyService.revokeKey.mockResolvedValue(null);
+
+
+      await apiKeyController.revokeKey(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(404);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'API key not found or already revoked'
+      }));
+    });
+  });
+});
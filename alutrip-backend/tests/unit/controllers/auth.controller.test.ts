@@ -0,0 +1,184 @@
+import { Request, Response } from 'express';
+import { authController } from '../../../src/controllers/auth.controller';
+import { authService } from '../../../src/services/auth.service';
+import { logger } from '../../../src/config/logger';
+import {
+  mockAuthResult,
+  mockLoginRequest,
+  mockPublicUser,
+  mockRegisterRequest
+} from '../../fixtures/auth.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/services/auth.service');
+jest.mock('../../../src/config/logger');
+
+const mockedAuthService = authService as jest.Mocked<typeof authService>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('AuthController', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let jsonSpy: jest.Mock;
+  let statusSpy: jest.Mock;
+
+  beforeEach(() => {
+    jsonSpy = jest.fn().mockReturnThis();
+    statusSpy = jest.fn().mockReturnValue({ json: jsonSpy });
+
+    req = {
+      ip: '127.0.0.1',
+      body: {},
+      params: {},
+      query: {},
+      headers: {}
+    };
+
+    res = {
+      status: statusSpy,
+      json: jsonSpy
+    };
+
+    jest.clearAllMocks();
+  });
+
+  describe('register', () => {
+    it('should register the user and return a token', async () => {
+
+      req.body = mockRegisterRequest;
+      mockedAuthService.register.mockResolvedValue(mockAuthResult);
+
+
+      await authController.register(req as Request, res as Response);
+
+
+      expect(mockedAuthService.register).toHaveBeenCalledWith('maria@example.com', 'correct-horse-battery', 'Maria');
+      expect(statusSpy).toHaveBeenCalledWith(201);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'User registered successfully',
+        data: mockAuthResult
+      });
+    });
+
+    it('should return 409 when the email is taken', async () => {
+
+      req.body = mockRegisterRequest;
+      mockedAuthService.register.mockResolvedValue(null);
+
+
+      await authController.register(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(409);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'error',
+        message: 'Email is already registered'
+      }));
+    });
+
+    it('should reject short passwords', async () => {
+
+      req.body = { email: 'maria@example.com', password: 'short' };
+
+
+      await authController.register(req as Request, res as Response);
+
+
+      expect(mockedAuthService.register).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(400);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Invalid request data',
+        data: expect.objectContaining({
+          type: 'VALIDATION_ERROR',
+          errors: [expect.objectContaining({ field: 'password' })]
+        })
+      }));
+    });
+
+    it('should handle service errors', async () => {
+
+      req.body = mockRegisterRequest;
+      mockedAuthService.register.mockRejectedValue(new Error('Database error'));
+
+
+      await authController.register(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(500);
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to register user', {
+        error: 'Database error'
+      });
+    });
+  });
+
+  describe('login', () => {
+    it('should return a token for valid credentials', async () => {
+
+      req.body = mockLoginRequest;
+      mockedAuthService.login.mockResolvedValue(mockAuthResult);
+
+
+      await authController.login(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'Logged in successfully',
+        data: mockAuthResult
+      });
+    });
+
+    it('should return 401 for invalid credentials', async () => {
+
+      req.body = mockLoginRequest;
+      mockedAuthService.login.mockResolvedValue(null);
+
+
+      await authController.login(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(401);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'Invalid email or password',
+        data: {
+          type: 'UNAUTHORIZED_ERROR'
+        }
+      });
+    });
+  });
+
+  describe('getCurrentUser', () => {
+    it('should return the authenticated user', async () => {
+
+      req.user = { id: 12, email: 'maria@example.com' };
+      mockedAuthService.getUser.mockResolvedValue(mockPublicUser);
+
+
+      await authController.getCurrentUser(req as Request, res as Response);
+
+
+      expect(mockedAuthService.getUser).toHaveBeenCalledWith(12);
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'User retrieved successfully',
+        data: { user: mockPublicUser }
+      });
+    });
+
+    it('should return 401 when the user no longer exists', async () => {
+
+      req.user = { id: 12, email: 'maria@example.com' };
+      mockedAuthService.getUser.mockResolvedValue(null);
+
+
+      await authController.getCurrentUser(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(401);
+    });
+  });
+});
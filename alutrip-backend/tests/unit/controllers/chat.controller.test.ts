@@ -0,0 +1,329 @@
+import { Request, Response } from 'express';
+import { chatController } from '../../../src/controllers/chat.controller';
+import { chatService } from '../../../src/services/chat.service';
+import { travelService } from '../../../src/services/travel.service';
+import { logger } from '../../../src/config/logger';
+import {
+  mockFollowUpMessage,
+  mockChatMessageResponse
+} from '../../fixtures/chat.fixtures';
+import { mockRequestSession } from '../../fixtures/session.fixtures';
+import { createBudgetExceededError } from '../../../src/middleware/error-handler';
+
+// Mock dependencies
+jest.mock('../../../src/services/chat.service');
+jest.mock('../../../src/services/travel.service');
+jest.mock('../../../src/config/logger');
+
+const mockedChatService = chatService as jest.Mocked<typeof chatService>;
+const mockedTravelService = travelService as jest.Mocked<typeof travelService>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+const mockConversationResponse = {
+  id: 10,
+  session_id: 'session123',
+  initial_question_id: 1,
+  title: 'What are the best places to visit in Paris?',
+  created_at: '2024-01-15T10:00:00.000Z',
+  updated_at: '2024-01-15T10:05:00.000Z',
+  messages: []
+};
+
+describe('ChatController', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let jsonSpy: jest.Mock;
+  let statusSpy: jest.Mock;
+  let setSpy: jest.Mock;
+
+  beforeEach(() => {
+    jsonSpy = jest.fn().mockReturnThis();
+    statusSpy = jest.fn().mockReturnValue({ json: jsonSpy });
+    setSpy = jest.fn().mockReturnThis();
+
+    req = {
+      ip: '127.0.0.1',
+      body: {},
+      params: {},
+      query: {},
+      headers: {}
+    };
+
+    res = {
+      status: statusSpy,
+      json: jsonSpy,
+      set: setSpy
+    };
+
+    jest.clearAllMocks();
+  });
+
+  describe('continueConversation', () => {
+    it('should continue a conversation successfully', async () => {
+
+      req.params = { questionId: '1' };
+      req.body = { message: mockFollowUpMessage };
+      req.session = mockRequestSession;
+
+      mockedChatService.continueConversation.mockResolvedValue(mockChatMessageResponse);
+
+
+      await chatController.continueConversation(req as Request, res as Response);
+
+
+      expect(mockedChatService.continueConversation).toHaveBeenCalledWith(
+        1,
+        { message: mockFollowUpMessage },
+        { sessionId: mockRequestSession.id, userId: undefined }
+      );
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'Conversation continued successfully',
+        data: mockChatMessageResponse
+      });
+      expect(setSpy).toHaveBeenCalledWith('X-Processing-Time', expect.stringMatching(/\d+ms/));
+      expect(mockedLogger.info).toHaveBeenCalledWith(
+        'Conversation continued successfully',
+        expect.objectContaining({ conversationId: mockChatMessageResponse.conversation_id })
+      );
+    });
+
+    it('should handle unavailable AI model', async () => {
+
+      req.params = { questionId: '1' };
+      req.body = { message: mockFollowUpMessage, model: 'gemini' };
+
+      mockedTravelService.validateModel.mockReturnValue(false);
+
+
+      await chatController.continueConversation(req as Request, res as Response);
+
+
+      expect(mockedChatService.continueConversation).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(400);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'Model \'gemini\' is not available. Please check API configuration.',
+        data: {
+          type: 'AI_SERVICE_ERROR'
+        }
+      });
+    });
+
+    it('should handle validation errors', async () => {
+
+      req.params = { questionId: 'abc' };
+      req.body = { message: '' };
+
+
+      await chatController.continueConversation(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(400);
+      expect(jsonSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'error',
+          message: 'Invalid request data',
+          data: expect.objectContaining({
+            type: 'VALIDATION_ERROR'
+          })
+        })
+      );
+    });
+
+    it('should handle question not found', async () => {
+
+      req.params = { questionId: '999' };
+      req.body = { message: mockFollowUpMessage };
+
+      mockedChatService.continueConversation.mockRejectedValue(new Error('Travel question not found'));
+
+
+      await chatController.continueConversation(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(404);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'Travel question not found',
+        data: {
+          type: 'NOT_FOUND_ERROR'
+        }
+      });
+    });
+
+    it('should handle AI service errors', async () => {
+
+      req.params = { questionId: '1' };
+      req.body = { message: mockFollowUpMessage };
+
+      mockedChatService.continueConversation.mockRejectedValue(new Error('AI service error: Groq unavailable'));
+
+
+      await chatController.continueConversation(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(503);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'AI service is temporarily unavailable. Please try again later.',
+        data: {
+          type: 'AI_SERVICE_ERROR'
+        }
+      });
+    });
+
+    it('should refuse with BUDGET_EXCEEDED_ERROR once an AI budget is reached', async () => {
+
+      req.params = { questionId: '1' };
+      req.body = { message: mockFollowUpMessage };
+
+      mockedChatService.continueConversation.mockRejectedValue(
+        createBudgetExceededError('AI budget exceeded: daily provider budget of groq ($2.00 of $2.00 spent)')
+      );
+
+
+      await chatController.continueConversation(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(503);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          type: 'BUDGET_EXCEEDED_ERROR'
+        }
+      }));
+    });
+
+    it('should handle generic server errors', async () => {
+
+      req.params = { questionId: '1' };
+      req.body = { message: mockFollowUpMessage };
+
+      mockedChatService.continueConversation.mockRejectedValue(new Error('Database connection failed'));
+
+
+      await chatController.continueConversation(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(500);
+      expect(mockedLogger.error).toHaveBeenCalledWith(
+        'Failed to continue conversation',
+        expect.objectContaining({ error: 'Database connection failed', questionId: '1' })
+      );
+    });
+  });
+
+  describe('getConversation', () => {
+    it('should retrieve a conversation of the caller successfully', async () => {
+
+      req.params = { id: '10' };
+      req.session = mockRequestSession;
+      req.user = { id: 7, email: 'traveler@example.com' };
+      mockedChatService.getConversation.mockResolvedValue(mockConversationResponse);
+
+
+      await chatController.getConversation(req as Request, res as Response);
+
+
+      expect(mockedChatService.getConversation).toHaveBeenCalledWith(10, { sessionId: mockRequestSession.id, userId: 7 });
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'Conversation retrieved successfully',
+        data: mockConversationResponse
+      });
+    });
+
+    it('should handle conversation not found', async () => {
+
+      req.params = { id: '999' };
+      mockedChatService.getConversation.mockResolvedValue(null);
+
+
+      await chatController.getConversation(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(404);
+    });
+
+    it('should handle invalid ID parameter', async () => {
+
+      req.params = { id: 'invalid' };
+
+
+      await chatController.getConversation(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(400);
+      expect(mockedChatService.getConversation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getHistory', () => {
+    it('should return the conversations of the server-issued session', async () => {
+
+      req.params = { sessionId: 'someone-elses-session' };
+      req.session = mockRequestSession;
+      mockedChatService.getHistory.mockResolvedValue([mockConversationResponse]);
+
+
+      await chatController.getHistory(req as Request, res as Response);
+
+
+      expect(mockedChatService.getHistory).toHaveBeenCalledWith({ sessionId: mockRequestSession.id, userId: undefined });
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'Conversation history retrieved successfully',
+        data: {
+          session_id: mockRequestSession.id,
+          conversations: [mockConversationResponse]
+        }
+      });
+    });
+
+    it('should return 500 and log when the history cannot be loaded', async () => {
+
+      mockedChatService.getHistory.mockRejectedValue(new Error('Database error'));
+
+
+      await chatController.getHistory(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(500);
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to get conversation history', {
+        error: 'Database error',
+        sessionId: undefined,
+        userId: undefined
+      });
+    });
+  });
+
+  describe('deleteConversation', () => {
+    it('should delete a conversation successfully', async () => {
+
+      req.params = { id: '10' };
+      mockedChatService.deleteConversation.mockResolvedValue(true);
+
+
+      await chatController.deleteConversation(req as Request, res as Response);
+
+
+      expect(mockedChatService.deleteConversation).toHaveBeenCalledWith(10, { sessionId: undefined, userId: undefined });
+      expect(statusSpy).toHaveBeenCalledWith(200);
+    });
+
+    it('should handle conversation not found', async () => {
+
+      req.params = { id: '999' };
+      mockedChatService.deleteConversation.mockResolvedValue(false);
+
+
+      await chatController.deleteConversation(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(404);
+    });
+  });
+});
@@ -9,24 +9,40 @@ jest.mock('pdfmake', () => ({
 }));
 
 import { Request, Response } from 'express';
+import { EventEmitter } from 'events';
 import { ItineraryController } from '../../../src/controllers/itinerary.controller';
 import { itineraryService } from '../../../src/services/itinerary.service';
 import { pdfService } from '../../../src/services/pdf.service';
+import { itineraryVersionService } from '../../../src/services/itinerary-version.service';
+import { itineraryProgressService } from '../../../src/services/itinerary-progress.service';
 import { logger } from '../../../src/config/logger';
 import * as queueConfig from '../../../src/config/queue';
 import * as rateLimit from '../../../src/middleware/rate-limit';
+import { createBudgetExceededError } from '../../../src/middleware/error-handler';
 import { createReadStream } from 'fs';
 import {
   mockItineraryRequestData,
   mockItineraryPending,
+  mockItineraryProcessing,
   mockItineraryCompleted,
   mockItinerariesList,
   mockItineraryStats,
+  mockStructuredItinerary,
+  mockMultiLegRequestData,
+  mockMultiLegItineraryPending,
+  mockStructuredItineraryCompleted,
+  mockRegeneratedDay,
+  mockItineraryRevision,
+  mockItineraryVersion,
+  mockRegeneratedItineraryVersion,
 } from '../../fixtures/itinerary.fixtures';
+import { mockRequestSession } from '../../fixtures/session.fixtures';
+import { mockRateLimitCharge } from '../../fixtures/rate-limit.fixtures';
 
 // Mock dependencies
 jest.mock('../../../src/services/itinerary.service');
 jest.mock('../../../src/services/pdf.service');
+jest.mock('../../../src/services/itinerary-version.service');
 jest.mock('../../../src/config/logger');
 jest.mock('../../../src/config/queue');
 jest.mock('../../../src/middleware/rate-limit');
@@ -35,6 +51,7 @@ jest.mock('fs');
 
 const mockedItineraryService = itineraryService as jest.Mocked<typeof itineraryService>;
 const mockedPDFService = pdfService as jest.Mocked<typeof pdfService>;
+const mockedVersionService = itineraryVersionService as jest.Mocked<typeof itineraryVersionService>;
 const mockedLogger = logger as jest.Mocked<typeof logger>;
 const mockedQueueConfig = queueConfig as jest.Mocked<typeof queueConfig>;
 const mockedRateLimit = rateLimit as jest.Mocked<typeof rateLimit>;
@@ -98,11 +115,15 @@ describe('ItineraryController', () => {
     beforeEach(() => {
       req.body = mockItineraryRequestData;
       
-      mockedRateLimit.getRateLimitInfo.mockResolvedValue({
-        used: 1,
-        limit: 5,
-        remaining: 4,
-        reset_time: '2024-01-16T10:00:00.000Z'
+      mockedRateLimit.consumeRateLimit.mockResolvedValue({
+        allowed: true,
+        info: {
+          used: 1,
+          limit: 5,
+          remaining: 4,
+          reset_time: '2024-01-16T10:00:00.000Z'
+        },
+        charge: mockRateLimitCharge
       });
     });
 
@@ -120,7 +141,11 @@ describe('ItineraryController', () => {
         mockItineraryRequestData,
         undefined
       );
-      expect(mockedQueueConfig.addItineraryJob).toHaveBeenCalledWith(mockItineraryPending.id);
+      expect(mockedQueueConfig.addItineraryJob).toHaveBeenCalledWith(
+        mockItineraryPending.id,
+        undefined,
+        mockRateLimitCharge
+      );
       expect(statusSpy).toHaveBeenCalledWith(200);
       expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
         status: 'success',
@@ -160,11 +185,15 @@ describe('ItineraryController', () => {
     });
 
     it('should handle rate limit exceeded', async () => {
-      mockedRateLimit.getRateLimitInfo.mockResolvedValue({
-        used: 5,
-        limit: 5,
-        remaining: 0,
-        reset_time: '2024-01-16T10:00:00.000Z'
+      mockedRateLimit.consumeRateLimit.mockResolvedValue({
+        allowed: false,
+        info: {
+          used: 5,
+          limit: 5,
+          remaining: 0,
+          reset_time: '2024-01-16T10:00:00.000Z'
+        },
+        charge: null
       });
 
       await ItineraryController.createItinerary(req as Request, res as Response);
@@ -199,6 +228,52 @@ describe('ItineraryController', () => {
       }));
     });
 
+    it('should derive destination and dates from the legs of a multi-destination trip', async () => {
+      req.body = { legs: mockMultiLegRequestData.legs, budget: 3000 };
+      req.session = mockRequestSession;
+      mockedItineraryService.createItinerary.mockResolvedValue(mockMultiLegItineraryPending);
+      mockedQueueConfig.addItineraryJob.mockResolvedValue(undefined);
+
+      await ItineraryController.createItinerary(req as Request, res as Response);
+      expect(mockedItineraryService.createItinerary).toHaveBeenCalledWith(
+        '127.0.0.1',
+        expect.objectContaining({
+          destination: 'Lisboa - Porto - Madrid',
+          start_date: '2030-05-01',
+          end_date: '2030-05-05',
+          legs: mockMultiLegRequestData.legs
+        }),
+        mockRequestSession.id,
+        undefined
+      );
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          destination: 'Lisboa - Porto - Madrid',
+          legs: mockMultiLegRequestData.legs
+        })
+      }));
+    });
+
+    it('should reject overlapping legs', async () => {
+      req.body = {
+        legs: [
+          { destination: 'Lisboa', start_date: '2030-05-01', end_date: '2030-05-04' },
+          { destination: 'Porto', start_date: '2030-05-03', end_date: '2030-05-05' }
+        ]
+      };
+
+      await ItineraryController.createItinerary(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(400);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Validation failed',
+        data: {
+          errors: [{ field: 'legs', message: 'Legs must be in chronological order and cannot overlap' }]
+        }
+      }));
+      expect(mockedItineraryService.createItinerary).not.toHaveBeenCalled();
+    });
+
     it('should handle date validation errors', async () => {
       const dateError = new Error('End date must be after start date');
       mockedItineraryService.validateItineraryDates.mockImplementation(() => {
@@ -254,6 +329,462 @@ describe('ItineraryController', () => {
     });
   });
 
+  describe('streamProgress', () => {
+    let writeSpy: jest.Mock;
+    let endSpy: jest.Mock;
+
+    beforeEach(() => {
+      writeSpy = jest.fn();
+      endSpy = jest.fn();
+      req.params = { id: '1' };
+      req.on = jest.fn().mockReturnThis();
+      res.set = jest.fn().mockReturnThis();
+      res.flushHeaders = jest.fn();
+      res.write = writeSpy;
+      res.end = endSpy;
+      mockedQueueConfig.getItineraryQueueEvents.mockReturnValue(new EventEmitter() as any);
+    });
+
+    const writtenEvents = (): any[] => writeSpy.mock.calls
+      .map(call => call[0] as string)
+      .filter(chunk => chunk.startsWith('event: progress'))
+      .map(chunk => JSON.parse(chunk.split('data: ')[1] as string));
+
+    it('should send the current stage, then the published progress until the itinerary completes', async () => {
+      mockedItineraryService.getItinerary.mockResolvedValue(mockItineraryPending);
+
+      await ItineraryController.streamProgress(req as Request, res as Response);
+      itineraryProgressService.publish({ itinerary_id: 1, stage: 'generating_content', percent: 45 });
+      itineraryProgressService.publish({ itinerary_id: 2, stage: 'completed', percent: 100 });
+      itineraryProgressService.publish({ itinerary_id: 1, stage: 'completed', percent: 100 });
+      itineraryProgressService.publish({ itinerary_id: 1, stage: 'failed', percent: 0 });
+
+      expect(res.set).toHaveBeenCalledWith(expect.objectContaining({ 'Content-Type': 'text/event-stream' }));
+      expect(writtenEvents()).toEqual([
+        { itinerary_id: 1, stage: 'queued', percent: 0 },
+        { itinerary_id: 1, stage: 'generating_content', percent: 45 },
+        { itinerary_id: 1, stage: 'completed', percent: 100 }
+      ]);
+      expect(endSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should end the stream right away for an itinerary already completed', async () => {
+      mockedItineraryService.getItinerary.mockResolvedValue(mockItineraryCompleted);
+
+      await ItineraryController.streamProgress(req as Request, res as Response);
+      expect(writtenEvents()).toEqual([{ itinerary_id: 1, stage: 'completed', percent: 100 }]);
+      expect(endSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should handle itinerary not found', async () => {
+      req.params = { id: '999' };
+      mockedItineraryService.getItinerary.mockResolvedValue(null);
+
+      await ItineraryController.streamProgress(req as Request, res as Response);
+      itineraryProgressService.publish({ itinerary_id: 999, stage: 'completed', percent: 100 });
+      expect(statusSpy).toHaveBeenCalledWith(404);
+      expect(writeSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getItineraryById', () => {
+    it('should return the itinerary with its structured content', async () => {
+      req.params = { id: '2' };
+      mockedItineraryService.getItinerary.mockResolvedValue({
+        ...mockItineraryCompleted,
+        structured_content: mockStructuredItinerary
+      });
+      mockedItineraryService.isPDFAvailable.mockResolvedValue(true);
+
+      await ItineraryController.getItineraryById(req as Request, res as Response);
+      expect(mockedItineraryService.getItinerary).toHaveBeenCalledWith(2);
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'Itinerary retrieved successfully',
+        data: expect.objectContaining({
+          id: mockItineraryCompleted.id,
+          generated_content: mockItineraryCompleted.generated_content,
+          structured_content: mockStructuredItinerary,
+          pdf_available: true,
+          pdf_filename: mockItineraryCompleted.pdf_filename
+        })
+      });
+    });
+
+    it('should return null structured content for unstructured itineraries', async () => {
+      req.params = { id: '2' };
+      mockedItineraryService.getItinerary.mockResolvedValue(mockItineraryCompleted);
+      mockedItineraryService.isPDFAvailable.mockResolvedValue(false);
+
+      await ItineraryController.getItineraryById(req as Request, res as Response);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ structured_content: null, pdf_filename: null })
+      }));
+    });
+
+    it('should handle itinerary not found', async () => {
+      req.params = { id: '999' };
+      mockedItineraryService.getItinerary.mockResolvedValue(null);
+
+      await ItineraryController.getItineraryById(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(404);
+    });
+
+    it('should reject invalid IDs', async () => {
+      req.params = { id: 'abc' };
+
+      await ItineraryController.getItineraryById(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(400);
+      expect(mockedItineraryService.getItinerary).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('regenerateDay', () => {
+    beforeEach(() => {
+      req.params = { id: '2', n: '1' };
+      req.body = { feedback: 'Menos museus, mais parques' };
+      req.session = { ...mockRequestSession, id: 'session123' };
+      mockedItineraryService.getItinerary.mockResolvedValue(mockStructuredItineraryCompleted);
+      mockedRateLimit.getCallerRateLimitKey.mockReturnValue('rate_limit:itinerary_regenerations:user:7');
+      mockedRateLimit.getRateLimitInfo.mockResolvedValue({
+        used: 0,
+        limit: 20,
+        remaining: 20,
+        reset_time: '2024-01-16T10:00:00.000Z'
+      });
+    });
+
+    it('should regenerate the day and return the new revision', async () => {
+      mockedItineraryService.regenerateDay.mockResolvedValue({
+        day: mockRegeneratedDay,
+        revision: mockItineraryRevision,
+        pdf_filename: 'itinerary_paris_france_2_2.pdf'
+      });
+
+      await ItineraryController.regenerateDay(req as Request, res as Response);
+      expect(mockedItineraryService.regenerateDay).toHaveBeenCalledWith(
+        mockStructuredItineraryCompleted,
+        1,
+        'Menos museus, mais parques',
+        undefined
+      );
+      expect(mockedRateLimit.getCallerRateLimitKey).toHaveBeenCalledWith(req, 'itinerary_regenerations');
+      expect(mockedRateLimit.getRateLimitInfo).toHaveBeenCalledWith(
+        'rate_limit:itinerary_regenerations:user:7',
+        86400000,
+        20
+      );
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'Day 1 regenerated successfully',
+        data: {
+          id: mockStructuredItineraryCompleted.id,
+          day: mockRegeneratedDay,
+          revision_number: 1,
+          model_used: 'groq',
+          pdf_filename: 'itinerary_paris_france_2_2.pdf'
+        }
+      });
+    });
+
+    it('should let the user who created the itinerary edit it from any session', async () => {
+      req.session = mockRequestSession;
+      req.user = { id: 7, email: 'traveler@example.com' };
+      mockedItineraryService.getItinerary.mockResolvedValue({ ...mockStructuredItineraryCompleted, user_id: 7 });
+      mockedItineraryService.regenerateDay.mockResolvedValue({
+        day: mockRegeneratedDay,
+        revision: mockItineraryRevision,
+        pdf_filename: 'itinerary_paris_france_2_2.pdf'
+      });
+
+      await ItineraryController.regenerateDay(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(200);
+    });
+
+    it('should report itineraries of other users or sessions as not found', async () => {
+      req.session = mockRequestSession;
+      req.user = { id: 8, email: 'someone@example.com' };
+      mockedItineraryService.getItinerary.mockResolvedValue({ ...mockStructuredItineraryCompleted, user_id: 7 });
+
+      await ItineraryController.regenerateDay(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(404);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'Itinerary not found',
+        data: {}
+      });
+      expect(mockedRateLimit.getRateLimitInfo).not.toHaveBeenCalled();
+      expect(mockedItineraryService.regenerateDay).not.toHaveBeenCalled();
+    });
+
+    it('should only edit completed itineraries', async () => {
+      mockedItineraryService.getItinerary.mockResolvedValue(mockItineraryProcessing);
+
+      await ItineraryController.regenerateDay(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(409);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'Only completed itineraries can be edited',
+        data: { processing_status: 'processing' }
+      });
+      expect(mockedItineraryService.regenerateDay).not.toHaveBeenCalled();
+    });
+
+    it('should reject itineraries without structured days', async () => {
+      mockedItineraryService.getItinerary.mockResolvedValue(mockItineraryCompleted);
+
+      await ItineraryController.regenerateDay(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(409);
+      expect(mockedItineraryService.regenerateDay).not.toHaveBeenCalled();
+    });
+
+    it('should handle days outside the itinerary', async () => {
+      req.params = { id: '2', n: '4' };
+
+      await ItineraryController.regenerateDay(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(404);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'Day 4 not found in itinerary',
+        data: { total_days: 1 }
+      });
+    });
+
+    it('should apply its own rate limit', async () => {
+      mockedRateLimit.getRateLimitInfo.mockResolvedValue({
+        used: 20,
+        limit: 20,
+        remaining: 0,
+        reset_time: '2024-01-16T10:00:00.000Z'
+      });
+
+      await ItineraryController.regenerateDay(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(429);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ feature: 'itinerary_regenerations' })
+      }));
+      expect(mockedItineraryService.regenerateDay).not.toHaveBeenCalled();
+    });
+
+    it('should validate the day number and feedback', async () => {
+      req.params = { id: '2', n: '0' };
+      req.body = { feedback: '<script>' };
+
+      await ItineraryController.regenerateDay(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(400);
+      expect(mockedItineraryService.getItinerary).not.toHaveBeenCalled();
+    });
+
+    it('should refuse with BUDGET_EXCEEDED_ERROR once an AI budget is reached', async () => {
+      mockedItineraryService.regenerateDay.mockRejectedValue(createBudgetExceededError('Daily spending cap reached'));
+
+      await ItineraryController.regenerateDay(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(503);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'AI usage budget reached. Please try again later.',
+        data: { type: 'BUDGET_EXCEEDED_ERROR' }
+      });
+      expect(mockedLogger.error).not.toHaveBeenCalled();
+    });
+
+    it('should handle generation failures', async () => {
+      mockedItineraryService.regenerateDay.mockRejectedValue(new Error('Failed to regenerate a valid itinerary day 1'));
+
+      await ItineraryController.regenerateDay(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(500);
+      expect(mockedLogger.error).toHaveBeenCalledWith('Itinerary day regeneration failed', expect.objectContaining({
+        error: 'Failed to regenerate a valid itinerary day 1'
+      }));
+    });
+  });
+
+  describe('getRevisions', () => {
+    it('should list the revisions of an itinerary', async () => {
+      req.params = { id: '2' };
+      mockedItineraryService.getItinerary.mockResolvedValue(mockStructuredItineraryCompleted);
+      mockedItineraryService.getRevisions.mockResolvedValue([mockItineraryRevision]);
+
+      await ItineraryController.getRevisions(req as Request, res as Response);
+      expect(mockedItineraryService.getRevisions).toHaveBeenCalledWith(2);
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          id: 2,
+          revisions: [expect.objectContaining({
+            revision_number: 1,
+            day_number: 1,
+            feedback: 'Menos museus, mais parques',
+            new_day: mockRegeneratedDay
+          })],
+          total: 1
+        }
+      }));
+    });
+
+    it('should handle itinerary not found', async () => {
+      req.params = { id: '999' };
+      mockedItineraryService.getItinerary.mockResolvedValue(null);
+
+      await ItineraryController.getRevisions(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(404);
+      expect(mockedItineraryService.getRevisions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getVersions', () => {
+    it('should list the versions of an itinerary without content', async () => {
+      req.params = { id: '2' };
+      mockedItineraryService.getItinerary.mockResolvedValue(mockStructuredItineraryCompleted);
+      mockedVersionService.listVersions.mockResolvedValue([mockRegeneratedItineraryVersion, mockItineraryVersion]);
+
+      await ItineraryController.getVersions(req as Request, res as Response);
+      expect(mockedVersionService.listVersions).toHaveBeenCalledWith(2);
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      const { data } = jsonSpy.mock.calls[0]![0];
+      expect(data.total).toBe(2);
+      expect(data.versions[0]).toEqual({
+        version_number: 2,
+        source: 'day_regeneration',
+        model_used: 'gemini',
+        prompt_parameters: mockRegeneratedItineraryVersion.prompt_parameters,
+        pdf_filename: mockRegeneratedItineraryVersion.pdf_filename,
+        created_at: mockRegeneratedItineraryVersion.created_at
+      });
+    });
+
+    it('should handle itinerary not found', async () => {
+      req.params = { id: '999' };
+      mockedItineraryService.getItinerary.mockResolvedValue(null);
+
+      await ItineraryController.getVersions(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(404);
+      expect(mockedVersionService.listVersions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getVersion', () => {
+    it('should return the content of a version', async () => {
+      req.params = { id: '2', version: '1' };
+      mockedVersionService.getVersion.mockResolvedValue(mockItineraryVersion);
+
+      await ItineraryController.getVersion(req as Request, res as Response);
+      expect(mockedVersionService.getVersion).toHaveBeenCalledWith(2, 1);
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          id: 2,
+          version_number: 1,
+          source: 'generation',
+          structured_content: mockStructuredItinerary
+        })
+      }));
+    });
+
+    it('should handle version not found', async () => {
+      req.params = { id: '2', version: '9' };
+      mockedVersionService.getVersion.mockResolvedValue(null);
+
+      await ItineraryController.getVersion(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(404);
+      expect(jsonSpy).toHaveBeenCalledWith({ status: 'error', message: 'Version 9 not found', data: {} });
+    });
+
+    it('should reject invalid version numbers', async () => {
+      req.params = { id: '2', version: 'abc' };
+
+      await ItineraryController.getVersion(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(400);
+      expect(mockedVersionService.getVersion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('diffVersions', () => {
+    it('should compare the requested versions', async () => {
+      req.params = { id: '2' };
+      req.query = { from: '1', to: '2' };
+      const diff = { from_version: 1, to_version: 2, changes: [], days: [], text_changes: [] };
+      mockedVersionService.diffVersions.mockResolvedValue(diff);
+
+      await ItineraryController.diffVersions(req as Request, res as Response);
+      expect(mockedVersionService.diffVersions).toHaveBeenCalledWith(2, 1, 2);
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({ data: { id: 2, ...diff } }));
+    });
+
+    it('should handle versions not found', async () => {
+      req.params = { id: '2' };
+      mockedVersionService.diffVersions.mockResolvedValue(null);
+
+      await ItineraryController.diffVersions(req as Request, res as Response);
+      expect(mockedVersionService.diffVersions).toHaveBeenCalledWith(2, undefined, undefined);
+      expect(statusSpy).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('restoreVersion', () => {
+    beforeEach(() => {
+      req.params = { id: '2', version: '1' };
+      req.session = { ...mockRequestSession, id: 'session123' };
+    });
+
+    it('should restore a previous version', async () => {
+      mockedItineraryService.getItinerary.mockResolvedValue(mockStructuredItineraryCompleted);
+      mockedVersionService.restoreVersion.mockResolvedValue({
+        ...mockItineraryVersion,
+        version_number: 3,
+        source: 'restore'
+      });
+
+      await ItineraryController.restoreVersion(req as Request, res as Response);
+      expect(mockedVersionService.restoreVersion).toHaveBeenCalledWith(mockStructuredItineraryCompleted, 1);
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'Version 1 restored successfully',
+        data: {
+          id: 2,
+          version_number: 3,
+          restored_from: 1,
+          model_used: 'groq',
+          pdf_filename: mockItineraryVersion.pdf_filename
+        }
+      });
+    });
+
+    it('should report itineraries of other users or sessions as not found', async () => {
+      req.session = mockRequestSession;
+      mockedItineraryService.getItinerary.mockResolvedValue(mockStructuredItineraryCompleted);
+
+      await ItineraryController.restoreVersion(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(404);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'Itinerary not found',
+        data: {}
+      });
+      expect(mockedVersionService.restoreVersion).not.toHaveBeenCalled();
+    });
+
+    it('should reject itineraries that are not completed', async () => {
+      mockedItineraryService.getItinerary.mockResolvedValue(mockItineraryProcessing);
+
+      await ItineraryController.restoreVersion(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(409);
+      expect(mockedVersionService.restoreVersion).not.toHaveBeenCalled();
+    });
+
+    it('should handle version not found', async () => {
+      mockedItineraryService.getItinerary.mockResolvedValue(mockStructuredItineraryCompleted);
+      mockedVersionService.restoreVersion.mockResolvedValue(null);
+
+      await ItineraryController.restoreVersion(req as Request, res as Response);
+      expect(statusSpy).toHaveBeenCalledWith(404);
+    });
+  });
+
   describe('downloadItinerary', () => {
     beforeEach(() => {
       req.params = { id: '1' };
@@ -433,20 +964,21 @@ describe('ItineraryController', () => {
     });
   });
 
-  describe('getClientHistory', () => {
-    it('should return client itinerary history', async () => {
+  describe('getUserHistory', () => {
+    it('should return the authenticated user itinerary history', async () => {
       req.query = { limit: '5', offset: '0' };
-      mockedItineraryService.getClientItineraries.mockResolvedValue(mockItinerariesList);
+      req.user = { id: 12, email: 'maria@example.com' };
+      mockedItineraryService.getUserItineraries.mockResolvedValue(mockItinerariesList);
       mockedItineraryService.isPDFAvailable.mockResolvedValue(true);
 
-      await ItineraryController.getClientHistory(req as Request, res as Response);
-      expect(mockedItineraryService.getClientItineraries).toHaveBeenCalledWith('127.0.0.1', 5, 0);
+      await ItineraryController.getUserHistory(req as Request, res as Response);
+      expect(mockedItineraryService.getUserItineraries).toHaveBeenCalledWith(12, 5, 0);
       expect(statusSpy).toHaveBeenCalledWith(200);
       expect(jsonSpy).toHaveBeenCalledWith({
         status: 'success',
-        message: 'Client itinerary history retrieved successfully',
+        message: 'User itinerary history retrieved successfully',
         data: expect.objectContaining({
-          client_ip: '127.0.0.1',
+          user_id: 12,
           itineraries: expect.arrayContaining([
             expect.objectContaining({
               id: expect.any(Number),
@@ -457,6 +989,17 @@ describe('ItineraryController', () => {
         })
       });
     });
+
+    it('should return 401 without an authenticated user', async () => {
+      await ItineraryController.getUserHistory(req as Request, res as Response);
+      expect(mockedItineraryService.getUserItineraries).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(401);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'Authentication required',
+        data: {}
+      });
+    });
   });
 
   describe('processStuckItineraries', () => {
@@ -0,0 +1,224 @@
+import { Request, Response } from 'express';
+import { promptTemplateController } from '../../../src/controllers/prompt-template.controller';
+import { promptTemplateService } from '../../../src/services/prompt-template.service';
+import { logger } from '../../../src/config/logger';
+import { PROMPT_TEMPLATE_VARIABLES } from '../../../src/constants/prompt-templates';
+import {
+  mockItineraryPromptTemplate,
+  mockPromptTemplateStats,
+  mockTravelPromptTemplate
+} from '../../fixtures/prompt-template.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/services/prompt-template.service');
+jest.mock('../../../src/config/logger');
+
+const mockedPromptTemplateService = promptTemplateService as jest.Mocked<typeof promptTemplateService>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('PromptTemplateController', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let jsonSpy: jest.Mock;
+  let statusSpy: jest.Mock;
+
+  beforeEach(() => {
+    jsonSpy = jest.fn().mockReturnThis();
+    statusSpy = jest.fn().mockReturnValue({ json: jsonSpy });
+
+    req = {
+      ip: '127.0.0.1',
+      params: {},
+      query: {},
+      headers: {},
+      body: {}
+    };
+
+    res = {
+      status: statusSpy,
+      json: jsonSpy
+    };
+
+    jest.clearAllMocks();
+  });
+
+  describe('listTemplates', () => {
+    it('should list the versions with the variables of each feature', async () => {
+
+      req.query = { feature: 'travel_questions' };
+      mockedPromptTemplateService.list.mockResolvedValue([mockTravelPromptTemplate]);
+
+
+      await promptTemplateController.listTemplates(req as Request, res as Response);
+
+
+      expect(mockedPromptTemplateService.list).toHaveBeenCalledWith({ feature: 'travel_questions' });
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'Prompt templates retrieved successfully',
+        data: {
+          templates: [mockTravelPromptTemplate],
+          variables: PROMPT_TEMPLATE_VARIABLES
+        }
+      });
+    });
+
+    it('should return 400 for an unsupported locale', async () => {
+
+      req.query = { locale: 'fr' };
+
+
+      await promptTemplateController.listTemplates(req as Request, res as Response);
+
+
+      expect(mockedPromptTemplateService.list).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('createTemplate', () => {
+    it('should create an inactive version by default', async () => {
+
+      req.body = {
+        feature: 'itineraries',
+        locale: 'pt-BR',
+        system_prompt: mockItineraryPromptTemplate.system_prompt,
+        user_prompt: mockItineraryPromptTemplate.user_prompt
+      };
+      mockedPromptTemplateService.create.mockResolvedValue({ ...mockItineraryPromptTemplate, weight: 0 });
+
+
+      await promptTemplateController.createTemplate(req as Request, res as Response);
+
+
+      expect(mockedPromptTemplateService.create).toHaveBeenCalledWith({ ...req.body, weight: 0 });
+      expect(statusSpy).toHaveBeenCalledWith(201);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'Prompt template created successfully',
+        data: { template: { ...mockItineraryPromptTemplate, weight: 0 } }
+      });
+    });
+
+    it('should reject itinerary prompts without the JSON format', async () => {
+
+      req.body = {
+        feature: 'itineraries',
+        locale: 'pt-BR',
+        system_prompt: 'Você é o AluTrip.',
+        user_prompt: mockItineraryPromptTemplate.user_prompt
+      };
+
+
+      await promptTemplateController.createTemplate(req as Request, res as Response);
+
+
+      expect(mockedPromptTemplateService.create).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(400);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          errors: [{ field: 'system_prompt', message: 'Missing required variable {{json_format}}' }]
+        })
+      }));
+    });
+
+    it('should reject variables the feature does not provide', async () => {
+
+      req.body = {
+        feature: 'travel_questions',
+        locale: 'en',
+        system_prompt: 'You are AluTrip, answering in {{language}}.',
+        user_prompt: mockTravelPromptTemplate.user_prompt
+      };
+
+
+      await promptTemplateController.createTemplate(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(400);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          errors: [{ field: 'system_prompt', message: 'Unknown variable {{language}}; available: none' }]
+        })
+      }));
+    });
+  });
+
+  describe('updateTemplate', () => {
+    it('should set the weight of a version', async () => {
+
+      req.params = { id: '4' };
+      req.body = { weight: 25 };
+      mockedPromptTemplateService.setWeight.mockResolvedValue({ ...mockTravelPromptTemplate, weight: 25 });
+
+
+      await promptTemplateController.updateTemplate(req as Request, res as Response);
+
+
+      expect(mockedPromptTemplateService.setWeight).toHaveBeenCalledWith(4, 25);
+      expect(statusSpy).toHaveBeenCalledWith(200);
+    });
+
+    it('should return 404 for an unknown version', async () => {
+
+      req.params = { id: '99' };
+      req.body = { weight: 25 };
+      mockedPromptTemplateService.setWeight.mockResolvedValue(null);
+
+
+      await promptTemplateController.updateTemplate(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(404);
+    });
+
+    it('should return 400 for a negative weight', async () => {
+
+      req.params = { id: '4' };
+      req.body = { weight: -1 };
+
+
+      await promptTemplateController.updateTemplate(req as Request, res as Response);
+
+
+      expect(mockedPromptTemplateService.setWeight).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('getReport', () => {
+    it('should report the last 30 days by default', async () => {
+
+      req.query = { feature: 'itineraries' };
+      mockedPromptTemplateService.getReport.mockResolvedValue({
+        days: 30,
+        feature: 'itineraries',
+        rows: mockPromptTemplateStats
+      });
+
+
+      await promptTemplateController.getReport(req as Request, res as Response);
+
+
+      expect(mockedPromptTemplateService.getReport).toHaveBeenCalledWith('itineraries', 30);
+      expect(statusSpy).toHaveBeenCalledWith(200);
+    });
+
+    it('should return 500 and log when the report fails', async () => {
+
+      req.query = { feature: 'travel_questions', days: '7' };
+      mockedPromptTemplateService.getReport.mockRejectedValue(new Error('Database error'));
+
+
+      await promptTemplateController.getReport(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(500);
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to get prompt template report', {
+        error: 'Database error',
+        query: req.query
+      });
+    });
+  });
+});
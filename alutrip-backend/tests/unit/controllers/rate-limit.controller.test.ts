@@ -0,0 +1,272 @@
+import { Request, Response } from 'express';
+import { rateLimitController } from '../../../src/controllers/rate-limit.controller';
+import { apiKeyService } from '../../../src/services/api-key.service';
+import { rateLimitReportService } from '../../../src/services/rate-limit-report.service';
+import { getRateLimitStatus, resetRateLimits } from '../../../src/middleware/rate-limit';
+import { logger } from '../../../src/config/logger';
+import { RateLimitStatus } from '../../../src/types/travel';
+import { mockApiKeySummary } from '../../fixtures/api-key.fixtures';
+import {
+  mockRateLimitInfo,
+  mockRateLimitInfoFirst,
+  mockRateLimitBlockedDay,
+  mockRateLimitTopConsumer,
+  mockRateLimitUsageTrend
+} from '../../fixtures/rate-limit.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/services/api-key.service');
+jest.mock('../../../src/services/rate-limit-report.service');
+jest.mock('../../../src/middleware/rate-limit', () => ({
+  ...jest.requireActual('../../../src/middleware/rate-limit'),
+  getRateLimitStatus: jest.fn(),
+  resetRateLimits: jest.fn()
+}));
+jest.mock('../../../src/config/redis');
+jest.mock('../../../src/config/logger');
+
+const mockedApiKeyService = apiKeyService as jest.Mocked<typeof apiKeyService>;
+const mockedReportService = rateLimitReportService as jest.Mocked<typeof rateLimitReportService>;
+const mockedGetRateLimitStatus = getRateLimitStatus as jest.MockedFunction<typeof getRateLimitStatus>;
+const mockedResetRateLimits = resetRateLimits as jest.MockedFunction<typeof resetRateLimits>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+const mockStatus: RateLimitStatus = {
+  identity: { type: 'ip', ip: '127.0.0.1' },
+  limits: {
+    travel_questions: mockRateLimitInfo,
+    itineraries: mockRateLimitInfoFirst
+  }
+};
+
+describe('RateLimitController', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let jsonSpy: jest.Mock;
+  let statusSpy: jest.Mock;
+
+  beforeEach(() => {
+    jsonSpy = jest.fn().mockReturnThis();
+    statusSpy = jest.fn().mockReturnValue({ json: jsonSpy });
+
+    req = {
+      ip: '127.0.0.1',
+      params: {},
+      query: {},
+      headers: {}
+    };
+
+    res = {
+      status: statusSpy,
+      json: jsonSpy
+    };
+
+    jest.clearAllMocks();
+  });
+
+  describe('getLimits', () => {
+    it('should return the status of the caller IP', async () => {
+
+      mockedGetRateLimitStatus.mockResolvedValue(mockStatus);
+
+
+      await rateLimitController.getLimits(req as Request, res as Response);
+
+
+      expect(mockedGetRateLimitStatus).toHaveBeenCalledWith({ type: 'ip', ip: '127.0.0.1' });
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'Rate limits retrieved successfully',
+        data: mockStatus
+      });
+    });
+
+    it('should return the status of the API key when one is attached', async () => {
+
+      req.apiKey = { id: 3, name: 'reporting-bot', tier: 'pro' };
+      mockedGetRateLimitStatus.mockResolvedValue(mockStatus);
+
+
+      await rateLimitController.getLimits(req as Request, res as Response);
+
+
+      expect(mockedGetRateLimitStatus).toHaveBeenCalledWith({ type: 'api_key', api_key_id: 3, tier: 'pro' });
+    });
+
+    it('should return 500 and log errors', async () => {
+
+      mockedGetRateLimitStatus.mockRejectedValue(new Error('Redis error'));
+
+
+      await rateLimitController.getLimits(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(500);
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to get rate limits', {
+        error: 'Redis error',
+        ip: '127.0.0.1'
+      });
+    });
+  });
+
+  describe('getIdentityLimits', () => {
+    it('should return the status of the given IP', async () => {
+
+      req.query = { ip: '203.0.113.7' };
+      mockedGetRateLimitStatus.mockResolvedValue(mockStatus);
+
+
+      await rateLimitController.getIdentityLimits(req as Request, res as Response);
+
+
+      expect(mockedGetRateLimitStatus).toHaveBeenCalledWith({ type: 'ip', ip: '203.0.113.7' });
+      expect(statusSpy).toHaveBeenCalledWith(200);
+    });
+
+    it('should look up the tier of the given API key', async () => {
+
+      req.query = { api_key_id: '3' };
+      mockedApiKeyService.getKey.mockResolvedValue(mockApiKeySummary);
+      mockedGetRateLimitStatus.mockResolvedValue(mockStatus);
+
+
+      await rateLimitController.getIdentityLimits(req as Request, res as Response);
+
+
+      expect(mockedApiKeyService.getKey).toHaveBeenCalledWith(3);
+      expect(mockedGetRateLimitStatus).toHaveBeenCalledWith({ type: 'api_key', api_key_id: 3, tier: 'pro' });
+    });
+
+    it('should return 404 for an unknown API key', async () => {
+
+      req.query = { api_key_id: '99' };
+      mockedApiKeyService.getKey.mockResolvedValue(null);
+
+
+      await rateLimitController.getIdentityLimits(req as Request, res as Response);
+
+
+      expect(mockedGetRateLimitStatus).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(404);
+    });
+
+    it('should return 400 unless exactly one of ip and api_key_id is sent', async () => {
+
+      req.query = { ip: '203.0.113.7', api_key_id: '3' };
+
+
+      await rateLimitController.getIdentityLimits(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(400);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Invalid request data'
+      }));
+    });
+  });
+
+  describe('resetIdentityLimits', () => {
+    it('should reset the counters and return the refreshed status', async () => {
+
+      req.query = { ip: '203.0.113.7' };
+      mockedResetRateLimits.mockResolvedValue(undefined);
+      mockedGetRateLimitStatus.mockResolvedValue(mockStatus);
+
+
+      await rateLimitController.resetIdentityLimits(req as Request, res as Response);
+
+
+      expect(mockedResetRateLimits).toHaveBeenCalledWith({ type: 'ip', ip: '203.0.113.7' });
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'Rate limits reset successfully',
+        data: mockStatus
+      });
+    });
+
+    it('should return 400 without an identity', async () => {
+
+      await rateLimitController.resetIdentityLimits(req as Request, res as Response);
+
+
+      expect(mockedResetRateLimits).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('reports', () => {
+    it('should return the top consumers with the default period', async () => {
+
+      const report = { days: 30, feature: null, rows: [mockRateLimitTopConsumer] };
+      mockedReportService.getTopConsumers.mockResolvedValue(report);
+
+
+      await rateLimitController.getTopConsumers(req as Request, res as Response);
+
+
+      expect(mockedReportService.getTopConsumers).toHaveBeenCalledWith({ days: 30, limit: 10 });
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'Rate limit report retrieved successfully',
+        data: report
+      });
+    });
+
+    it('should pass the period and feature to the blocked report', async () => {
+
+      req.query = { days: '7', feature: 'itineraries' };
+      mockedReportService.getBlockedPerDay.mockResolvedValue({ days: 7, feature: 'itineraries', rows: [mockRateLimitBlockedDay] });
+
+
+      await rateLimitController.getBlockedPerDay(req as Request, res as Response);
+
+
+      expect(mockedReportService.getBlockedPerDay).toHaveBeenCalledWith({ days: 7, feature: 'itineraries', limit: 10 });
+      expect(statusSpy).toHaveBeenCalledWith(200);
+    });
+
+    it('should return 400 for a period over a year', async () => {
+
+      req.query = { days: '400' };
+
+
+      await rateLimitController.getUsageTrends(req as Request, res as Response);
+
+
+      expect(mockedReportService.getUsageTrends).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(400);
+    });
+
+    it('should return 500 and log errors', async () => {
+
+      mockedReportService.getUsageTrends.mockRejectedValue(new Error('Database error'));
+
+
+      await rateLimitController.getUsageTrends(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(500);
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to get rate limit report', {
+        error: 'Database error',
+        report: 'usage',
+        query: {}
+      });
+    });
+
+    it('should return the usage trends', async () => {
+
+      mockedReportService.getUsageTrends.mockResolvedValue({ days: 30, feature: null, rows: [mockRateLimitUsageTrend] });
+
+
+      await rateLimitController.getUsageTrends(req as Request, res as Response);
+
+
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        data: { days: 30, feature: null, rows: [mockRateLimitUsageTrend] }
+      }));
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import { responseCacheController } from '../../../src/controllers/response-cache.controller';
+import { responseCacheService } from '../../../src/services/response-cache.service';
+import { logger } from '../../../src/config/logger';
+
+// Mock dependencies
+jest.mock('../../../src/services/response-cache.service');
+jest.mock('../../../src/config/logger');
+
+const mockedResponseCacheService = responseCacheService as jest.Mocked<typeof responseCacheService>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('ResponseCacheController', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let jsonSpy: jest.Mock;
+  let statusSpy: jest.Mock;
+
+  beforeEach(() => {
+    jsonSpy = jest.fn().mockReturnThis();
+    statusSpy = jest.fn().mockReturnValue({ json: jsonSpy });
+
+    req = {
+      query: {}
+    };
+
+    res = {
+      status: statusSpy,
+      json: jsonSpy
+    };
+
+    jest.clearAllMocks();
+  });
+
+  describe('invalidate', () => {
+    it('should invalidate the given question and model', async () => {
+
+      req.query = { question: 'Best time to visit Lisbon?', model: 'groq' };
+      mockedResponseCacheService.invalidate.mockResolvedValue(1);
+
+
+      await responseCacheController.invalidate(req as Request, res as Response);
+
+
+      expect(mockedResponseCacheService.invalidate).toHaveBeenCalledWith({
+        question: 'Best time to visit Lisbon?',
+        model: 'groq'
+      });
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'Response cache invalidated successfully',
+        data: { deleted: 1 }
+      });
+    });
+
+    it('should clear the whole cache without parameters', async () => {
+
+      mockedResponseCacheService.invalidate.mockResolvedValue(5);
+
+
+      await responseCacheController.invalidate(req as Request, res as Response);
+
+
+      expect(mockedResponseCacheService.invalidate).toHaveBeenCalledWith({ question: undefined, model: undefined });
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({ data: { deleted: 5 } }));
+    });
+
+    it('should return 400 for an empty question', async () => {
+
+      req.query = { question: '   ' };
+
+
+      await responseCacheController.invalidate(req as Request, res as Response);
+
+
+      expect(mockedResponseCacheService.invalidate).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(400);
+    });
+
+    it('should return 500 and log errors', async () => {
+
+      mockedResponseCacheService.invalidate.mockRejectedValue(new Error('Redis error'));
+
+
+      await responseCacheController.invalidate(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(500);
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to invalidate response cache', {
+        error: 'Redis error',
+        query: {}
+      });
+    });
+  });
+});
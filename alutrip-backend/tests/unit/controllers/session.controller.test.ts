@@ -0,0 +1,118 @@
+import { Request, Response } from 'express';
+import { sessionController } from '../../../src/controllers/session.controller';
+import { travelService } from '../../../src/services/travel.service';
+import { itineraryService } from '../../../src/services/itinerary.service';
+import { logger } from '../../../src/config/logger';
+import { mockRequestSession } from '../../fixtures/session.fixtures';
+import { mockTravelQuestionResponse } from '../../fixtures/travel.fixtures';
+import { mockItineraryCompleted } from '../../fixtures/itinerary.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/services/travel.service');
+jest.mock('../../../src/services/itinerary.service');
+jest.mock('../../../src/config/logger');
+
+const mockedTravelService = travelService as jest.Mocked<typeof travelService>;
+const mockedItineraryService = itineraryService as jest.Mocked<typeof itineraryService>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('SessionController', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let jsonSpy: jest.Mock;
+  let statusSpy: jest.Mock;
+
+  beforeEach(() => {
+    jsonSpy = jest.fn().mockReturnThis();
+    statusSpy = jest.fn().mockReturnValue({ json: jsonSpy });
+
+    req = {
+      ip: '127.0.0.1',
+      params: {},
+      query: {},
+      headers: {}
+    };
+
+    res = {
+      status: statusSpy,
+      json: jsonSpy
+    };
+
+    jest.clearAllMocks();
+  });
+
+  describe('getSession', () => {
+    it('should return the questions and itineraries of the session', async () => {
+
+      req.session = mockRequestSession;
+      mockedTravelService.getQuestionsBySessionId.mockResolvedValue([mockTravelQuestionResponse]);
+      mockedItineraryService.getSessionItineraries.mockResolvedValue([mockItineraryCompleted]);
+      mockedItineraryService.isPDFAvailable.mockResolvedValue(true);
+
+
+      await sessionController.getSession(req as Request, res as Response);
+
+
+      expect(mockedTravelService.getQuestionsBySessionId).toHaveBeenCalledWith(mockRequestSession.id);
+      expect(mockedItineraryService.getSessionItineraries).toHaveBeenCalledWith(mockRequestSession.id);
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'Session history retrieved successfully',
+        data: {
+          session: {
+            id: mockRequestSession.id,
+            created_at: mockRequestSession.created_at,
+            expires_at: mockRequestSession.expires_at
+          },
+          questions: [mockTravelQuestionResponse],
+          itineraries: [expect.objectContaining({
+            id: mockItineraryCompleted.id,
+            destination: mockItineraryCompleted.destination,
+            processing_status: 'completed',
+            pdf_available: true
+          })]
+        }
+      });
+    });
+
+    it('should not expose the session token in the body', async () => {
+
+      req.session = mockRequestSession;
+      mockedTravelService.getQuestionsBySessionId.mockResolvedValue([]);
+      mockedItineraryService.getSessionItineraries.mockResolvedValue([]);
+
+
+      await sessionController.getSession(req as Request, res as Response);
+
+
+      expect(jsonSpy.mock.calls[0][0].data.session).not.toHaveProperty('token');
+    });
+
+    it('should return 503 when no session could be attached', async () => {
+
+      await sessionController.getSession(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(503);
+      expect(mockedTravelService.getQuestionsBySessionId).not.toHaveBeenCalled();
+    });
+
+    it('should handle service errors', async () => {
+
+      req.session = mockRequestSession;
+      mockedTravelService.getQuestionsBySessionId.mockRejectedValue(new Error('Database error'));
+      mockedItineraryService.getSessionItineraries.mockResolvedValue([]);
+
+
+      await sessionController.getSession(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(500);
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to get session history', {
+        error: 'Database error',
+        sessionId: mockRequestSession.id
+      });
+    });
+  });
+});
@@ -1,4 +1,5 @@
-import { Request, Response } from 'express';
+import express, { Request, Response } from 'express';
+import request from 'supertest';
 import { travelController } from '../../../src/controllers/travel.controller';
 import { travelService } from '../../../src/services/travel.service';
 import { logger } from '../../../src/config/logger';
@@ -8,8 +9,11 @@ import {
   mockTravelQuestionResponse,
   mockTravelQuestionsList,
   mockTravelStats,
-  mockModelHealth
+  mockModelHealth,
+  mockModelList
 } from '../../fixtures/travel.fixtures';
+import { mockRequestSession } from '../../fixtures/session.fixtures';
+import { createBudgetExceededError } from '../../../src/middleware/error-handler';
 
 // Mock dependencies
 jest.mock('../../../src/services/travel.service');
@@ -51,7 +55,7 @@ describe('TravelController', () => {
     it('should successfully process a travel question', async () => {
 
       req.body = mockTravelQuestionRequest;
-      req.headers = { 'x-session-id': 'test-session' };
+      req.session = mockRequestSession;
 
       mockedTravelService.validateModel.mockReturnValue(true);
       mockedTravelService.askQuestion.mockResolvedValue(mockTravelQuestionResponse);
@@ -62,9 +66,10 @@ describe('TravelController', () => {
 
       expect(mockedTravelService.validateModel).toHaveBeenCalledWith(mockTravelQuestionRequest.model);
       expect(mockedTravelService.askQuestion).toHaveBeenCalledWith(
-        mockTravelQuestionRequest,
+        { ...mockTravelQuestionRequest, locale: 'pt-BR' },
         '127.0.0.1',
-        'test-session'
+        mockRequestSession.id,
+        undefined
       );
       expect(statusSpy).toHaveBeenCalledWith(200);
       expect(jsonSpy).toHaveBeenCalledWith({
@@ -75,6 +80,61 @@ describe('TravelController', () => {
       expect(setSpy).toHaveBeenCalledWith('X-Processing-Time', expect.stringMatching(/\d+ms/));
     });
 
+    it('should answer in the language of the Accept-Language header', async () => {
+
+      req.body = mockTravelQuestionRequest;
+      req.headers = { 'accept-language': 'fr-FR,en-US;q=0.8,es;q=0.5' };
+      mockedTravelService.validateModel.mockReturnValue(true);
+      mockedTravelService.askQuestion.mockResolvedValue(mockTravelQuestionResponse);
+
+
+      await travelController.askQuestion(req as Request, res as Response);
+
+
+      expect(mockedTravelService.askQuestion).toHaveBeenCalledWith(
+        { ...mockTravelQuestionRequest, locale: 'en' },
+        '127.0.0.1',
+        undefined,
+        undefined
+      );
+    });
+
+    it('should prefer the locale chosen in the body over Accept-Language', async () => {
+
+      req.body = { ...mockTravelQuestionRequest, locale: 'es-MX' };
+      req.headers = { 'accept-language': 'en-US' };
+      mockedTravelService.validateModel.mockReturnValue(true);
+      mockedTravelService.askQuestion.mockResolvedValue(mockTravelQuestionResponse);
+
+
+      await travelController.askQuestion(req as Request, res as Response);
+
+
+      expect(mockedTravelService.askQuestion).toHaveBeenCalledWith(
+        expect.objectContaining({ locale: 'es' }),
+        '127.0.0.1',
+        undefined,
+        undefined
+      );
+    });
+
+    it('should reject unsupported locales', async () => {
+
+      req.body = { ...mockTravelQuestionRequest, locale: 'fr' };
+
+
+      await travelController.askQuestion(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(400);
+      expect(jsonSpy).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          errors: [{ field: 'locale', message: "Locale must be one of: 'pt-BR', 'en', 'es'" }]
+        })
+      }));
+      expect(mockedTravelService.askQuestion).not.toHaveBeenCalled();
+    });
+
     it('should handle unavailable AI model', async () => {
 
       req.body = mockTravelQuestionRequest;
@@ -181,6 +241,26 @@ describe('TravelController', () => {
       });
     });
 
+    it('should refuse with BUDGET_EXCEEDED_ERROR once an AI budget is reached, whatever its message', async () => {
+
+      req.body = mockTravelQuestionRequest;
+      mockedTravelService.validateModel.mockReturnValue(true);
+      mockedTravelService.askQuestion.mockRejectedValue(createBudgetExceededError('Daily spending cap reached'));
+
+
+      await travelController.askQuestion(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(503);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'AI usage budget reached. Please try again later.',
+        data: {
+          type: 'BUDGET_EXCEEDED_ERROR'
+        }
+      });
+    });
+
     it('should handle generic server errors', async () => {
 
       req.body = mockTravelQuestionRequest;
@@ -205,6 +285,151 @@ describe('TravelController', () => {
     });
   });
 
+  describe('askQuestionStream', () => {
+    let writeSpy: jest.Mock;
+    let endSpy: jest.Mock;
+    let closeHandler: (() => void) | undefined;
+
+    beforeEach(() => {
+      writeSpy = jest.fn();
+      endSpy = jest.fn();
+      closeHandler = undefined;
+
+      res = {
+        ...res,
+        headersSent: false,
+        writableEnded: false,
+        on: jest.fn((event: string, handler: () => void) => {
+          if (event === 'close') {
+            closeHandler = handler;
+          }
+          return res as Response;
+        }) as any,
+        write: writeSpy,
+        end: endSpy,
+        flushHeaders: jest.fn(() => {
+          (res as any).headersSent = true;
+        })
+      };
+    });
+
+    it('should stream tokens and finish with the stored question', async () => {
+
+      req.body = mockTravelQuestionRequest;
+      mockedTravelService.validateModel.mockReturnValue(true);
+      mockedTravelService.askQuestionStream.mockImplementation(async (_request, _ip, onToken) => {
+        onToken('Paris ');
+        onToken('awaits.');
+        return mockTravelQuestionResponse;
+      });
+
+
+      await travelController.askQuestionStream(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(setSpy).toHaveBeenCalledWith(expect.objectContaining({
+        'Content-Type': 'text/event-stream'
+      }));
+      expect(writeSpy.mock.calls).toEqual([
+        ['event: token\ndata: {"content":"Paris "}\n\n'],
+        ['event: token\ndata: {"content":"awaits."}\n\n'],
+        [`event: complete\ndata: ${JSON.stringify({
+          status: 'success',
+          message: 'Travel question answered successfully',
+          data: mockTravelQuestionResponse
+        })}\n\n`]
+      ]);
+      expect(endSpy).toHaveBeenCalled();
+    });
+
+    it('should return JSON validation errors before opening the stream', async () => {
+
+      req.body = { question: 'short', model: 'groq' };
+
+
+      await travelController.askQuestionStream(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(400);
+      expect(writeSpy).not.toHaveBeenCalled();
+      expect(mockedTravelService.askQuestionStream).not.toHaveBeenCalled();
+    });
+
+    it('should send AI failures as an error event', async () => {
+
+      req.body = mockTravelQuestionRequest;
+      mockedTravelService.validateModel.mockReturnValue(true);
+      mockedTravelService.askQuestionStream.mockRejectedValue(
+        new Error('AI service error: Failed to stream question')
+      );
+
+
+      await travelController.askQuestionStream(req as Request, res as Response);
+
+
+      expect(writeSpy).toHaveBeenCalledWith(`event: error\ndata: ${JSON.stringify({
+        status: 'error',
+        message: 'AI service is temporarily unavailable. Please try again later.',
+        data: {
+          type: 'AI_SERVICE_ERROR'
+        }
+      })}\n\n`);
+      expect(endSpy).toHaveBeenCalled();
+      expect(mockedLogger.error).toHaveBeenCalled();
+    });
+
+    it('should stop writing once the client disconnects', async () => {
+
+      req.body = mockTravelQuestionRequest;
+      mockedTravelService.validateModel.mockReturnValue(true);
+      mockedTravelService.askQuestionStream.mockImplementation(async (_request, _ip, onToken) => {
+        onToken('Paris ');
+        closeHandler?.();
+        onToken('awaits.');
+        return mockTravelQuestionResponse;
+      });
+
+
+      await travelController.askQuestionStream(req as Request, res as Response);
+
+
+      expect(writeSpy).toHaveBeenCalledTimes(1);
+      expect(endSpy).not.toHaveBeenCalled();
+    });
+
+    it('should deliver tokens and the completion over a real HTTP request', async () => {
+
+      const app = express();
+      app.use(express.json());
+      app.post('/api/travel/ask/stream', travelController.askQuestionStream);
+      mockedTravelService.validateModel.mockReturnValue(true);
+      mockedTravelService.askQuestionStream.mockImplementation(async (_request, _ip, onToken) => {
+        // Let the request finish closing before the answer streams, as a real AI call does
+        await new Promise(resolve => setTimeout(resolve, 20));
+        onToken('Paris ');
+        onToken('awaits.');
+        return mockTravelQuestionResponse;
+      });
+
+
+      const response = await request(app).post('/api/travel/ask/stream').send(mockTravelQuestionRequest);
+
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/event-stream');
+      expect(response.text).toBe([
+        'event: token\ndata: {"content":"Paris "}\n\n',
+        'event: token\ndata: {"content":"awaits."}\n\n',
+        `event: complete\ndata: ${JSON.stringify({
+          status: 'success',
+          message: 'Travel question answered successfully',
+          data: mockTravelQuestionResponse
+        })}\n\n`
+      ].join(''));
+    });
+  });
+
   describe('getQuestion', () => {
     it('should retrieve a specific question successfully', async () => {
 
@@ -280,6 +505,88 @@ describe('TravelController', () => {
     });
   });
 
+  describe('getRelatedQuestions', () => {
+    it('should return related questions', async () => {
+
+      const related = [{ ...mockTravelQuestionResponse, id: 2, similarity: 0.81 }];
+      req.params = { id: '1' };
+      req.query = { limit: '3' };
+      mockedTravelService.getRelatedQuestions.mockResolvedValue(related);
+
+
+      await travelController.getRelatedQuestions(req as Request, res as Response);
+
+
+      expect(mockedTravelService.getRelatedQuestions).toHaveBeenCalledWith(1, 3);
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'Related questions retrieved successfully',
+        data: { questions: related }
+      });
+    });
+
+    it('should use the default limit', async () => {
+
+      req.params = { id: '1' };
+      mockedTravelService.getRelatedQuestions.mockResolvedValue([]);
+
+
+      await travelController.getRelatedQuestions(req as Request, res as Response);
+
+
+      expect(mockedTravelService.getRelatedQuestions).toHaveBeenCalledWith(1, 5);
+    });
+
+    it('should handle question not found', async () => {
+
+      req.params = { id: '999' };
+      mockedTravelService.getRelatedQuestions.mockResolvedValue(null);
+
+
+      await travelController.getRelatedQuestions(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(404);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'Travel question not found',
+        data: {
+          type: 'NOT_FOUND_ERROR'
+        }
+      });
+    });
+
+    it('should reject a limit above the maximum', async () => {
+
+      req.params = { id: '1' };
+      req.query = { limit: '50' };
+
+
+      await travelController.getRelatedQuestions(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(400);
+      expect(mockedTravelService.getRelatedQuestions).not.toHaveBeenCalled();
+    });
+
+    it('should handle service errors', async () => {
+
+      req.params = { id: '1' };
+      mockedTravelService.getRelatedQuestions.mockRejectedValue(new Error('Database error'));
+
+
+      await travelController.getRelatedQuestions(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(500);
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to get related travel questions', {
+        error: 'Database error',
+        questionId: '1'
+      });
+    });
+  });
+
   describe('getRecentQuestions', () => {
     it('should retrieve recent questions with pagination', async () => {
 
@@ -410,6 +717,40 @@ describe('TravelController', () => {
     });
   });
 
+  describe('getModels', () => {
+    it('should return registered AI models', async () => {
+
+      mockedTravelService.listModels.mockReturnValue(mockModelList);
+
+
+      await travelController.getModels(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(200);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'AI models retrieved successfully',
+        data: mockModelList
+      });
+    });
+
+    it('should handle errors while listing models', async () => {
+
+      mockedTravelService.listModels.mockImplementation(() => {
+        throw new Error('Registry error');
+      });
+
+
+      await travelController.getModels(req as Request, res as Response);
+
+
+      expect(statusSpy).toHaveBeenCalledWith(500);
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to list AI models', {
+        error: 'Registry error'
+      });
+    });
+  });
+
   describe('getStats', () => {
     it('should return travel question statistics', async () => {
 
@@ -447,12 +788,13 @@ describe('TravelController', () => {
     });
   });
 
-  describe('getClientHistory', () => {
-    it('should return client question history', async () => {
+  describe('getUserHistory', () => {
+    it('should return the authenticated user question history', async () => {
 
       req.query = { limit: '5', offset: '0' };
+      req.user = { id: 12, email: 'maria@example.com' };
       
-      const clientHistory = mockTravelQuestionsList.map(q => ({
+      const userHistory = mockTravelQuestionsList.map(q => ({
         id: q.id,
         question: q.question,
         response: q.response,
@@ -460,21 +802,37 @@ describe('TravelController', () => {
         created_at: q.created_at.toISOString()
       }));
       
-      mockedTravelService.getQuestionsByClientIp.mockResolvedValue(clientHistory);
+      mockedTravelService.getQuestionsByUserId.mockResolvedValue(userHistory);
 
 
-      await travelController.getClientHistory(req as Request, res as Response);
+      await travelController.getUserHistory(req as Request, res as Response);
 
 
-      expect(mockedTravelService.getQuestionsByClientIp).toHaveBeenCalledWith('127.0.0.1', 5, 0);
+      expect(mockedTravelService.getQuestionsByUserId).toHaveBeenCalledWith(12, 5, 0);
       expect(statusSpy).toHaveBeenCalledWith(200);
       expect(jsonSpy).toHaveBeenCalledWith({
         status: 'success',
-        message: 'Client travel history retrieved successfully',
+        message: 'User travel history retrieved successfully',
+        data: {
+          questions: userHistory,
+          user_id: 12,
+          total: userHistory.length
+        }
+      });
+    });
+
+    it('should return 401 without an authenticated user', async () => {
+
+      await travelController.getUserHistory(req as Request, res as Response);
+
+
+      expect(mockedTravelService.getQuestionsByUserId).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(401);
+      expect(jsonSpy).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'Authentication required',
         data: {
-          questions: clientHistory,
-          clientIp: '127.0.0.1',
-          total: clientHistory.length
+          type: 'UNAUTHORIZED_ERROR'
         }
       });
     });
@@ -0,0 +1,97 @@
+import { EmbeddingService, createEmbeddingProvider } from '../../src/services/embedding.service';
+import { LocalEmbeddingProvider } from '../../src/services/providers/local-embedding.provider';
+import { dotProduct } from '../../src/services/providers/vector';
+import { logger } from '../../src/config/logger';
+import { EmbeddingProvider } from '../../src/types/ai';
+
+// Gemini is selected without an API key, so the local provider is used instead
+jest.mock('../../src/config/env', () => ({
+  config: {
+    ...jest.requireActual('../../src/config/env').config,
+    EMBEDDING_PROVIDER: 'gemini',
+    GEMINI_API_KEY: 'your-gemini-api-key'
+  }
+}));
+jest.mock('../../src/config/logger');
+
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('EmbeddingService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createEmbeddingProvider', () => {
+    it('should fall back to the local provider when Gemini is not configured', () => {
+
+      const provider = createEmbeddingProvider();
+
+
+      expect(provider).toBeInstanceOf(LocalEmbeddingProvider);
+      expect(mockedLogger.warn).toHaveBeenCalledWith(
+        'Embedding provider is not configured, using the local provider',
+        { provider: 'gemini' }
+      );
+    });
+  });
+
+  describe('LocalEmbeddingProvider', () => {
+    const provider = new LocalEmbeddingProvider();
+
+    it('should return unit length vectors', async () => {
+
+      const embedding = await provider.embed('What is the best time to visit Lisbon?');
+
+
+      expect(embedding).toHaveLength(512);
+      expect(dotProduct(embedding, embedding)).toBeCloseTo(1, 6);
+    });
+
+    it('should score questions about the same subject higher than unrelated ones', async () => {
+
+      const question = await provider.embed('What is the best time to visit Lisbon?');
+      const paraphrase = await provider.embed('When is the best time for visiting Lisboa');
+      const unrelated = await provider.embed('How much luggage can I take on a budget airline?');
+
+
+      expect(dotProduct(question, paraphrase)).toBeGreaterThan(dotProduct(question, unrelated));
+    });
+
+    it('should ignore case, accents and punctuation', async () => {
+
+      const first = await provider.embed('Melhor época para visitar São Paulo?');
+      const second = await provider.embed('melhor epoca para visitar sao paulo');
+
+
+      expect(dotProduct(first, second)).toBeCloseTo(1, 6);
+    });
+
+    it('should return a zero vector for text without words', async () => {
+
+      const embedding = await provider.embed('?!');
+
+
+      expect(embedding.every(value => value === 0)).toBe(true);
+    });
+  });
+
+  describe('embed', () => {
+    it('should log and rethrow provider errors', async () => {
+
+      const provider: EmbeddingProvider = {
+        name: 'failing',
+        isAvailable: () => true,
+        embed: jest.fn().mockRejectedValue(new Error('Quota exceeded'))
+      };
+      const service = new EmbeddingService(provider);
+
+
+      await expect(service.embed('Paris')).rejects.toThrow('Quota exceeded');
+      expect(service.modelName).toBe('failing');
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to compute embedding', {
+        provider: 'failing',
+        error: 'Quota exceeded'
+      });
+    });
+  });
+});
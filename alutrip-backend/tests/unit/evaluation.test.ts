@@ -0,0 +1,334 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { evaluateTopicClassifier } from '../../src/evaluation/topic-evaluation';
+import {
+  checkItineraryStructure,
+  evaluateItineraries,
+  getTripDates,
+  runItinerarySample
+} from '../../src/evaluation/itinerary-evaluation';
+import { compareReports, findLatestReport, formatReport, loadReport, saveReport } from '../../src/evaluation/reports';
+import { ITINERARY_EVALUATION_SAMPLES } from '../../src/evaluation/datasets/itinerary-samples';
+import {
+  RecordedProvider,
+  RecordingProvider,
+  hashGenerationRequest
+} from '../../src/services/providers/recorded.provider';
+import { AIGenerationRequest, AIProvider, TopicClassifier } from '../../src/types/ai';
+import { EvaluationReport, ProviderRecording } from '../../src/types/evaluation';
+import { StructuredItinerary } from '../../src/types/travel';
+import { mockItineraryRequestData, mockStructuredItinerary } from '../fixtures/itinerary.fixtures';
+
+// Mock dependencies
+jest.mock('groq-sdk');
+jest.mock('@google/generative-ai');
+jest.mock('../../src/config/env');
+jest.mock('../../src/config/logger');
+
+const recordings = JSON.parse(fs.readFileSync(
+  path.join(__dirname, '../../src/evaluation/datasets/itinerary-recordings.json'),
+  'utf8'
+)) as Record<string, ProviderRecording>;
+
+// Accepts the questions that mention a trip
+const tripClassifier: TopicClassifier = {
+  name: 'keyword',
+  isAvailable: () => true,
+  classify: async (text: string) => ({
+    travel: text.includes('trip'),
+    confidence: 0.8,
+    reason: 'Test rule',
+    classifier: 'keyword'
+  })
+};
+
+// Three days (2025-12-15 to 2025-12-18) with lunch and dinner every day
+const completeItinerary: StructuredItinerary = {
+  ...mockStructuredItinerary,
+  days: [1, 2, 3].map(day => ({
+    ...mockStructuredItinerary.days[0]!,
+    day,
+    date: `2025-12-${14 + day}`,
+    activities: [
+      ...mockStructuredItinerary.days[0]!.activities,
+      {
+        period: 'dinner' as const,
+        start_time: '20:00',
+        title: 'Jantar no Marais',
+        description: 'Bistrô tradicional',
+        place: { name: 'Chez Janou' },
+        estimated_cost_usd: 45
+      }
+    ]
+  }))
+};
+
+const buildReport = (overrides: Partial<EvaluationReport> = {}): EvaluationReport => ({
+  created_at: '2025-04-22T14:05:00.000Z',
+  topics: [{
+    classifier: 'naive_bayes',
+    total: 4,
+    precision: 0.5,
+    recall: 1,
+    f1: 0.6667,
+    accuracy: 0.5,
+    confusion: { true_positives: 1, false_positives: 1, true_negatives: 1, false_negatives: 1 },
+    misclassified: []
+  }],
+  ...overrides
+});
+
+describe('Offline evaluation', () => {
+  describe('evaluateTopicClassifier', () => {
+    it('should count decisions with travel questions as the positive class', async () => {
+
+      const dataset = [
+        { text: 'Weekend trip to Rome', travel: true },
+        { text: 'Where to eat in Porto?', travel: true },
+        { text: 'Car trip insurance claim', travel: false },
+        { text: 'How to bake bread?', travel: false }
+      ];
+
+
+      const evaluation = await evaluateTopicClassifier(tripClassifier, dataset);
+
+
+      expect(evaluation).toEqual(expect.objectContaining({
+        classifier: 'keyword',
+        total: 4,
+        precision: 0.5,
+        recall: 0.5,
+        f1: 0.5,
+        accuracy: 0.5,
+        confusion: { true_positives: 1, false_positives: 1, true_negatives: 1, false_negatives: 1 }
+      }));
+      expect(evaluation.misclassified.map(miss => miss.text)).toEqual([
+        'Where to eat in Porto?',
+        'Car trip insurance claim'
+      ]);
+    });
+
+    it('should report 0 instead of NaN when nothing was accepted', async () => {
+
+      const evaluation = await evaluateTopicClassifier(tripClassifier, [{ text: 'Lisbon food', travel: true }]);
+
+
+      expect(evaluation.precision).toBe(0);
+      expect(evaluation.recall).toBe(0);
+      expect(evaluation.f1).toBe(0);
+    });
+  });
+
+  describe('checkItineraryStructure', () => {
+    it('should pass a complete itinerary', () => {
+
+      const checks = checkItineraryStructure(mockItineraryRequestData, JSON.stringify(completeItinerary));
+
+
+      expect(getTripDates(mockItineraryRequestData)).toEqual(['2025-12-15', '2025-12-16', '2025-12-17']);
+      expect(checks.every(check => check.passed)).toBe(true);
+    });
+
+    it('should report missing days, wrong dates and missing meals', () => {
+
+      const itinerary: StructuredItinerary = {
+        ...completeItinerary,
+        days: [
+          { ...completeItinerary.days[0]!, date: '2025-12-16' },
+          { ...mockStructuredItinerary.days[0]!, day: 3, date: '2025-12-17' }
+        ]
+      };
+
+
+      const checks = checkItineraryStructure(mockItineraryRequestData, JSON.stringify(itinerary));
+
+
+      expect(checks).toEqual([
+        { check: 'valid_structure', passed: true, errors: [] },
+        { check: 'all_days_present', passed: false, errors: ['Day 2 is missing'] },
+        { check: 'dates_match', passed: false, errors: ['Day 1: expected 2025-12-15, received 2025-12-16'] },
+        { check: 'meal_slots_filled', passed: false, errors: ['Day 3 has no dinner'] }
+      ]);
+    });
+
+    it('should skip the other checks when the answer is not a valid itinerary', () => {
+
+      const checks = checkItineraryStructure(mockItineraryRequestData, 'Desculpe, não consegui gerar o roteiro.');
+
+
+      expect(checks.every(check => !check.passed)).toBe(true);
+      expect(checks[1]!.errors).toEqual(['Not checked, the itinerary has no valid structure']);
+    });
+  });
+
+  describe('Recorded providers', () => {
+    const request: AIGenerationRequest = {
+      systemPrompt: 'Você é um planejador de viagens',
+      messages: [{ role: 'user', content: 'Roteiro para Lisboa' }],
+      temperature: 0.7,
+      maxTokens: 1000
+    };
+
+    it('should replay the recording and tell when the prompt changed', async () => {
+
+      const provider = new RecordedProvider({
+        model: 'groq',
+        prompt_hash: hashGenerationRequest(request),
+        recorded_at: '2025-04-22T14:05:00.000Z',
+        content: '{"title": "Lisboa"}'
+      });
+
+
+      const result = await provider.generate(request);
+      const freshStale = provider.stale;
+      await provider.generate({ ...request, systemPrompt: 'Novo prompt' });
+
+
+      expect(result.content).toBe('{"title": "Lisboa"}');
+      expect(freshStale).toBe(false);
+      expect(provider.stale).toBe(true);
+      expect(provider.model).toBe('groq');
+    });
+
+    it('should record the answers of the live provider', async () => {
+
+      const live: AIProvider = {
+        name: 'groq',
+        label: 'Groq',
+        model: 'llama',
+        isAvailable: () => true,
+        generate: jest.fn().mockResolvedValue({
+          content: 'Roteiro gerado',
+          token_usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 }
+        }),
+        healthCheck: jest.fn()
+      };
+      const recorder = new RecordingProvider(live);
+
+
+      const result = await recorder.generate(request);
+
+
+      expect(result.content).toBe('Roteiro gerado');
+      expect(recorder.name).toBe('groq');
+      expect(recorder.lastRecording).toEqual({
+        model: 'groq',
+        prompt_hash: hashGenerationRequest(request),
+        recorded_at: expect.any(String),
+        content: 'Roteiro gerado'
+      });
+    });
+  });
+
+  describe('runItinerarySample', () => {
+    it('should pass the shipped recordings with the current prompts', async () => {
+
+      const evaluation = await evaluateItineraries(
+        ITINERARY_EVALUATION_SAMPLES,
+        'recorded',
+        sample => new RecordedProvider(recordings[sample.id]!)
+      );
+
+
+      expect(evaluation.total).toBe(ITINERARY_EVALUATION_SAMPLES.length);
+      expect(evaluation.pass_rate).toBe(1);
+      expect(evaluation.samples.every(sample => sample.stale === false)).toBe(true);
+    });
+
+    it('should fail the sample when the provider fails', async () => {
+
+      const provider: AIProvider = {
+        name: 'broken',
+        label: 'Broken',
+        model: 'broken-model',
+        isAvailable: () => true,
+        generate: jest.fn().mockRejectedValue(new Error('Service unavailable')),
+        healthCheck: jest.fn()
+      };
+
+
+      const result = await runItinerarySample(ITINERARY_EVALUATION_SAMPLES[0]!, provider);
+
+
+      expect(result.passed).toBe(false);
+      expect(result.checks).toEqual([]);
+      expect(result.error).toBeDefined();
+    });
+  });
+
+  describe('Reports', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'alutrip-evaluation-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should store runs and find the latest one', () => {
+
+      const first = saveReport(dir, buildReport());
+      const second = saveReport(dir, buildReport({ created_at: '2025-04-23T09:00:00.000Z', label: 'new prompt' }));
+
+
+      const latest = findLatestReport(dir);
+
+
+      expect(path.basename(first)).toBe('2025-04-22T14-05-00-000Z.json');
+      expect(latest).toBe(second);
+      expect(loadReport(second).label).toBe('new prompt');
+      expect(findLatestReport(path.join(dir, 'missing'))).toBeNull();
+    });
+
+    it('should compare the metrics both runs have', () => {
+
+      const previous = buildReport({
+        itineraries: { provider: 'recorded', total: 2, passed: 1, pass_rate: 0.5, samples: [] }
+      });
+      const current = buildReport({
+        topics: [{ ...previous.topics[0]!, precision: 0.75 }],
+        itineraries: { provider: 'recorded', total: 2, passed: 2, pass_rate: 1, samples: [] }
+      });
+
+
+      const lines = compareReports(current, previous);
+
+
+      expect(lines).toContain('Topic classifier naive_bayes precision: 0.5000 -> 0.7500 (+0.2500)');
+      expect(lines).toContain('Topic classifier naive_bayes recall: 1.0000 -> 1.0000 (0.0000)');
+      expect(lines).toContain('Itineraries with recorded pass rate: 0.5000 -> 1.0000 (+0.5000)');
+    });
+
+    it('should summarize failed checks and stale recordings', () => {
+
+      const report = buildReport({
+        itineraries: {
+          provider: 'recorded',
+          total: 1,
+          passed: 0,
+          pass_rate: 0,
+          samples: [{
+            sample_id: 'lisbon-weekend',
+            passed: false,
+            stale: true,
+            checks: [{ check: 'meal_slots_filled', passed: false, errors: ['Day 2 has no dinner'] }]
+          }]
+        }
+      });
+
+
+      const lines = formatReport(report);
+
+
+      expect(lines).toEqual([
+        'Topic classifier naive_bayes (4 questions): precision 0.5000, recall 1.0000, f1 0.6667, accuracy 0.5000',
+        'Itineraries with recorded: 0/1 passed (pass rate 0.0000)',
+        '  lisbon-weekend: failed (stale recording, re-record it)',
+        '    meal_slots_filled: Day 2 has no dinner'
+      ]);
+    });
+  });
+});
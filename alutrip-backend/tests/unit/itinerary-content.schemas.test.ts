@@ -0,0 +1,129 @@
+import {
+  parseItineraryDaysChunk,
+  parseItineraryOverview,
+  parseStructuredItinerary
+} from '../../src/schemas/itinerary-content.schemas';
+import {
+  mockItineraryOverview,
+  mockItineraryTransfers,
+  mockMultiLegStructuredItinerary,
+  mockStructuredItinerary
+} from '../fixtures/itinerary.fixtures';
+
+describe('parseStructuredItinerary', () => {
+  it('should accept a valid structured itinerary', () => {
+
+    const result = parseStructuredItinerary(JSON.stringify(mockStructuredItinerary));
+
+
+    expect(result).toEqual({ success: true, data: mockStructuredItinerary });
+  });
+
+  it('should extract JSON wrapped in markdown fences and text', () => {
+
+    const raw = `Aqui está o seu roteiro:\n\`\`\`json\n${JSON.stringify(mockStructuredItinerary, null, 2)}\n\`\`\`\nBoa viagem!`;
+
+
+    const result = parseStructuredItinerary(raw);
+
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject responses without a JSON object', () => {
+
+    const result = parseStructuredItinerary('Dia 1: Torre Eiffel');
+
+
+    expect(result).toEqual({ success: false, errors: ['Response does not contain a JSON object'] });
+  });
+
+  it('should reject invalid JSON', () => {
+
+    const result = parseStructuredItinerary('{"title": "Paris",}');
+
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors[0]).toMatch(/^Invalid JSON: /);
+  });
+
+  it('should report schema violations with their paths', () => {
+
+    const invalid = {
+      ...mockStructuredItinerary,
+      days: [{
+        ...mockStructuredItinerary.days[0],
+        activities: [{ ...mockStructuredItinerary.days[0]!.activities[0], start_time: '9h', estimated_cost_usd: -5 }]
+      }]
+    };
+
+
+    const result = parseStructuredItinerary(JSON.stringify(invalid));
+
+
+    expect(result).toEqual({
+      success: false,
+      errors: [
+        'days.0.activities.0.start_time: Time must use the HH:MM format',
+        'days.0.activities.0.estimated_cost_usd: Costs cannot be negative'
+      ]
+    });
+  });
+
+  it('should accept transfers between legs', () => {
+
+    const result = parseStructuredItinerary(JSON.stringify(mockMultiLegStructuredItinerary));
+
+
+    expect(result).toEqual({ success: true, data: mockMultiLegStructuredItinerary });
+  });
+
+  it('should validate transfer modes and costs', () => {
+
+    const result = parseStructuredItinerary(JSON.stringify({
+      ...mockStructuredItinerary,
+      transfers: [{ ...mockItineraryTransfers[0], mode: 'teleport', estimated_cost_usd: -1 }]
+    }));
+
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors).toEqual([
+      expect.stringContaining('transfers.0.mode'),
+      'transfers.0.estimated_cost_usd: Costs cannot be negative'
+    ]);
+  });
+
+  it('should drop unknown keys', () => {
+
+    const result = parseStructuredItinerary(JSON.stringify({ ...mockStructuredItinerary, notes: 'extra' }));
+
+
+    expect(result.success && result.data).not.toHaveProperty('notes');
+  });
+});
+
+describe('chunked generation schemas', () => {
+  it('should accept an overview with a day outline', () => {
+
+    const result = parseItineraryOverview(JSON.stringify(mockItineraryOverview));
+
+
+    expect(result).toEqual({ success: true, data: mockItineraryOverview });
+  });
+
+  it('should require the day outline in overviews', () => {
+
+    const result = parseItineraryOverview(JSON.stringify(mockStructuredItinerary));
+
+
+    expect(result).toEqual({ success: false, errors: ['day_outline: Required'] });
+  });
+
+  it('should validate each day of a chunk', () => {
+
+    const result = parseItineraryDaysChunk(JSON.stringify({ days: [{ ...mockStructuredItinerary.days[0], activities: [] }] }));
+
+
+    expect(result).toEqual({ success: false, errors: ['days.0.activities: Each day needs at least one activity'] });
+  });
+});
@@ -0,0 +1,101 @@
+import { EventEmitter } from 'events';
+import { ItineraryProgressService } from '../../src/services/itinerary-progress.service';
+import { getItineraryQueueEvents } from '../../src/config/queue';
+
+// Mock dependencies
+jest.mock('../../src/config/queue');
+jest.mock('../../src/config/logger');
+
+const mockedGetItineraryQueueEvents = getItineraryQueueEvents as jest.MockedFunction<typeof getItineraryQueueEvents>;
+
+describe('ItineraryProgressService', () => {
+  let service: ItineraryProgressService;
+  let queueEvents: EventEmitter;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queueEvents = new EventEmitter();
+    mockedGetItineraryQueueEvents.mockReturnValue(queueEvents as any);
+    service = new ItineraryProgressService();
+  });
+
+  describe('subscribe', () => {
+    it('should relay the progress reported by queued jobs of the itinerary', () => {
+
+      const listener = jest.fn();
+      service.subscribe(123, listener);
+
+
+      queueEvents.emit('progress', { jobId: '1', data: { itinerary_id: 123, stage: 'generating_pdf', percent: 90 } });
+      queueEvents.emit('progress', { jobId: '2', data: { itinerary_id: 456, stage: 'completed', percent: 100 } });
+      queueEvents.emit('progress', { jobId: '3', data: 40 });
+
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ itinerary_id: 123, stage: 'generating_pdf', percent: 90 });
+      expect(queueEvents.listenerCount('progress')).toBe(1);
+    });
+
+    it('should stop calling the listener once unsubscribed', () => {
+
+      const listener = jest.fn();
+      const unsubscribe = service.subscribe(123, listener);
+
+
+      unsubscribe();
+      service.publish({ itinerary_id: 123, stage: 'completed', percent: 100 });
+
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('track', () => {
+    it('should publish the progress of direct processing up to completion', async () => {
+
+      const listener = jest.fn();
+      service.subscribe(123, listener);
+
+
+      await service.track(123, async onProgress => {
+        await onProgress({ stage: 'overview', completed_chunks: 1, total_chunks: 4, percent: 5 });
+      });
+
+
+      expect(listener.mock.calls.map(call => call[0])).toEqual([
+        { itinerary_id: 123, stage: 'generating_content', percent: 10 },
+        { itinerary_id: 123, stage: 'generating_content', percent: 10, completed_chunks: 1, total_chunks: 4 },
+        { itinerary_id: 123, stage: 'completed', percent: 100 }
+      ]);
+    });
+
+    it('should publish the failure and rethrow the error', async () => {
+
+      const listener = jest.fn();
+      service.subscribe(123, listener);
+
+      // Act & Assert
+      await expect(service.track(123, async () => {
+        throw new Error('AI service error: timeout');
+      })).rejects.toThrow('AI service error: timeout');
+      expect(listener).toHaveBeenLastCalledWith({ itinerary_id: 123, stage: 'failed', percent: 0 });
+    });
+  });
+
+  describe('fromStatus', () => {
+    it('should map the stored status to its lifecycle stage', () => {
+
+      const events = (['pending', 'processing', 'completed', 'failed'] as const)
+        .map(status => service.fromStatus(123, status));
+
+
+      expect(events.map(event => [event.stage, event.percent])).toEqual([
+        ['queued', 0],
+        ['generating_content', 10],
+        ['completed', 100],
+        ['failed', 0]
+      ]);
+      expect(events.map(event => service.isFinal(event))).toEqual([false, false, true, true]);
+    });
+  });
+});
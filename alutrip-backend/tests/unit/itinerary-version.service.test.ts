@@ -0,0 +1,177 @@
+import { ItineraryVersionService } from '../../src/services/itinerary-version.service';
+import { ItinerariesModel } from '../../src/models/itineraries.model';
+import { ItineraryVersionsModel } from '../../src/models/itinerary-versions.model';
+import { pdfService } from '../../src/services/pdf.service';
+import {
+  mockStructuredItineraryCompleted,
+  mockStructuredItinerary,
+  mockItineraryVersion,
+  mockRegeneratedItineraryVersion,
+  mockPDFServiceResponse
+} from '../fixtures/itinerary.fixtures';
+
+// Mock dependencies
+jest.mock('../../src/models/itineraries.model');
+jest.mock('../../src/models/itinerary-versions.model');
+jest.mock('../../src/services/pdf.service');
+jest.mock('../../src/config/logger');
+
+const mockedItinerariesModel = ItinerariesModel as jest.Mocked<typeof ItinerariesModel>;
+const mockedVersionsModel = ItineraryVersionsModel as jest.Mocked<typeof ItineraryVersionsModel>;
+const mockedPDFService = pdfService as jest.Mocked<typeof pdfService>;
+
+describe('ItineraryVersionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('compareVersions', () => {
+    it('should list the changed fields and activities of each day', () => {
+
+      const diff = ItineraryVersionService.compareVersions(mockItineraryVersion, mockRegeneratedItineraryVersion);
+
+
+      expect(diff.from_version).toBe(1);
+      expect(diff.to_version).toBe(2);
+      expect(diff.changes).toEqual([{ field: 'model_used', from: 'groq', to: 'gemini' }]);
+      expect(diff.days).toEqual([{
+        day: 1,
+        status: 'changed',
+        title: { from: 'Centro Histórico', to: 'Paris ao ar livre' },
+        added_activities: ['09:00 Jardim de Luxemburgo'],
+        removed_activities: ['09:00 Torre Eiffel', '12:30 Almoço no Café de la Paix']
+      }]);
+      expect(diff.text_changes).toEqual([]);
+    });
+
+    it('should report added days and changed top-level fields', () => {
+      const longer = {
+        ...mockStructuredItinerary,
+        title: 'Paris em dois dias',
+        days: [...mockStructuredItinerary.days, { ...mockStructuredItinerary.days[0]!, day: 2, date: '2025-12-16' }]
+      };
+
+
+      const diff = ItineraryVersionService.compareVersions(
+        mockItineraryVersion,
+        { ...mockItineraryVersion, version_number: 2, structured_content: longer }
+      );
+
+
+      expect(diff.changes).toEqual([{ field: 'title', from: mockStructuredItinerary.title, to: 'Paris em dois dias' }]);
+      expect(diff.days.map(day => [day.day, day.status])).toEqual([[1, 'unchanged'], [2, 'added']]);
+    });
+
+    it('should compare plain text versions line by line', () => {
+      const from = { ...mockItineraryVersion, structured_content: null, generated_content: 'Dia 1\nLouvre\nJantar' };
+      const to = { ...mockItineraryVersion, version_number: 2, structured_content: null, generated_content: 'Dia 1\nOrsay\nJantar' };
+
+
+      const diff = ItineraryVersionService.compareVersions(from, to);
+
+
+      expect(diff.days).toEqual([]);
+      expect(diff.text_changes).toEqual([
+        { type: 'added', line: 'Orsay' },
+        { type: 'removed', line: 'Louvre' }
+      ]);
+    });
+  });
+
+  describe('diffVersions', () => {
+    it('should compare the latest version with the previous one by default', async () => {
+
+      mockedVersionsModel.findLatest.mockResolvedValue(mockRegeneratedItineraryVersion);
+      mockedVersionsModel.findByVersion.mockResolvedValue(mockItineraryVersion);
+
+
+      const diff = await ItineraryVersionService.diffVersions(2);
+
+
+      expect(mockedVersionsModel.findByVersion).toHaveBeenCalledWith(2, 1);
+      expect(diff?.from_version).toBe(1);
+      expect(diff?.to_version).toBe(2);
+    });
+
+    it('should return null when a version is missing', async () => {
+
+      mockedVersionsModel.findByVersion.mockResolvedValueOnce(mockItineraryVersion).mockResolvedValueOnce(null);
+
+
+      const diff = await ItineraryVersionService.diffVersions(2, 7, 1);
+
+
+      expect(diff).toBeNull();
+      expect(mockedVersionsModel.findLatest).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreVersion', () => {
+    beforeEach(() => {
+      mockedItinerariesModel.updateContent.mockResolvedValue(undefined as any);
+      mockedVersionsModel.create.mockResolvedValue({ ...mockItineraryVersion, version_number: 3, source: 'restore' });
+    });
+
+    it('should restore the content and reuse the version PDF', async () => {
+
+      mockedVersionsModel.findByVersion.mockResolvedValue(mockItineraryVersion);
+      mockedPDFService.pdfExists.mockResolvedValue(true);
+
+
+      const restored = await ItineraryVersionService.restoreVersion(mockStructuredItineraryCompleted, 1);
+
+
+      expect(restored?.version_number).toBe(3);
+      expect(mockedPDFService.generateItineraryPDF).not.toHaveBeenCalled();
+      expect(mockedItinerariesModel.updateContent).toHaveBeenCalledWith(
+        mockStructuredItineraryCompleted.id,
+        mockItineraryVersion.generated_content,
+        'groq',
+        mockItineraryVersion.pdf_filename,
+        mockItineraryVersion.pdf_path,
+        mockStructuredItinerary
+      );
+      expect(mockedVersionsModel.create).toHaveBeenCalledWith(
+        mockStructuredItineraryCompleted.id,
+        'restore',
+        mockItineraryVersion.generated_content,
+        mockStructuredItinerary,
+        'groq',
+        { request_data: mockStructuredItineraryCompleted.request_data, restored_from: 1 },
+        mockItineraryVersion.pdf_filename,
+        mockItineraryVersion.pdf_path
+      );
+    });
+
+    it('should rebuild the PDF when the version file is gone', async () => {
+
+      mockedVersionsModel.findByVersion.mockResolvedValue(mockItineraryVersion);
+      mockedPDFService.pdfExists.mockResolvedValue(false);
+      mockedPDFService.generateItineraryPDF.mockResolvedValue(mockPDFServiceResponse);
+
+
+      await ItineraryVersionService.restoreVersion(mockStructuredItineraryCompleted, 1);
+
+
+      expect(mockedPDFService.generateItineraryPDF).toHaveBeenCalledWith(
+        mockStructuredItineraryCompleted,
+        mockItineraryVersion.generated_content,
+        mockStructuredItinerary
+      );
+      expect(mockedItinerariesModel.updateContent.mock.calls[0]![3]).toBe(mockPDFServiceResponse.filename);
+    });
+
+    it('should return null without changes for unknown versions', async () => {
+
+      mockedVersionsModel.findByVersion.mockResolvedValue(null);
+
+
+      const restored = await ItineraryVersionService.restoreVersion(mockStructuredItineraryCompleted, 9);
+
+
+      expect(restored).toBeNull();
+      expect(mockedItinerariesModel.updateContent).not.toHaveBeenCalled();
+      expect(mockedVersionsModel.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,7 +1,10 @@
 import { ItineraryService } from '../../src/services/itinerary.service';
 import { ItinerariesModel } from '../../src/models/itineraries.model';
+import { ItineraryRevisionsModel } from '../../src/models/itinerary-revisions.model';
+import { ItineraryVersionsModel } from '../../src/models/itinerary-versions.model';
 import { aiService } from '../../src/services/ai.service';
 import { pdfService } from '../../src/services/pdf.service';
+import { promptTemplateService } from '../../src/services/prompt-template.service';
 import { logger } from '../../src/config/logger';
 import {
   mockItineraryRequestData,
@@ -10,6 +13,16 @@ import {
   mockItinerariesList,
   mockItineraryStats,
   mockAIItineraryResponse,
+  mockAIStructuredItineraryResponse,
+  mockStructuredItinerary,
+  mockLongItineraryPending,
+  mockItineraryOverview,
+  buildMockItineraryDay,
+  mockMultiLegItineraryPending,
+  mockMultiLegStructuredItinerary,
+  mockStructuredItineraryCompleted,
+  mockRegeneratedDay,
+  mockItineraryRevision,
   mockPDFServiceResponse,
   mockRecentItinerariesResponse,
   testClientIp,
@@ -18,24 +31,42 @@ import {
   itineraryPromptTestCases,
   itineraryErrorScenarios
 } from '../fixtures/itinerary.fixtures';
+import { mockItineraryPromptTemplate } from '../fixtures/prompt-template.fixtures';
 
 // Mock dependencies
 jest.mock('../../src/models/itineraries.model');
+jest.mock('../../src/models/itinerary-revisions.model');
+jest.mock('../../src/models/itinerary-versions.model');
 jest.mock('../../src/services/ai.service');
 jest.mock('../../src/services/pdf.service');
+jest.mock('../../src/services/prompt-template.service');
 jest.mock('../../src/config/logger');
 
 const mockedItinerariesModel = ItinerariesModel as jest.Mocked<typeof ItinerariesModel>;
+const mockedRevisionsModel = ItineraryRevisionsModel as jest.Mocked<typeof ItineraryRevisionsModel>;
+const mockedVersionsModel = ItineraryVersionsModel as jest.Mocked<typeof ItineraryVersionsModel>;
 const mockedAIService = aiService as jest.Mocked<typeof aiService>;
 const mockedPDFService = pdfService as jest.Mocked<typeof pdfService>;
+const mockedPromptTemplateService = promptTemplateService as jest.Mocked<typeof promptTemplateService>;
 const mockedLogger = logger as jest.Mocked<typeof logger>;
 
+// Usage stored for content that took `calls` AI responses like mockAIItineraryResponse
+const usageOf = (calls: number) => ({
+  prompt_tokens: 150 * calls,
+  completion_tokens: 2000 * calls,
+  latency_ms: 8500 * calls,
+  cost_usd: expect.closeTo(0.0002 * calls)
+});
+
 describe('ItineraryService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     
     // Mock current time for consistent testing
     jest.spyOn(Date, 'now').mockReturnValue(new Date('2024-01-15T10:00:00.000Z').getTime());
+    mockedAIService.getDefaultModel.mockReturnValue('groq');
+    mockedPromptTemplateService.assign.mockResolvedValue(null);
+    mockedPromptTemplateService.getVersion.mockResolvedValue(null);
   });
 
   afterEach(() => {
@@ -64,7 +95,8 @@ describe('ItineraryService', () => {
         mockItineraryRequestData,
         testSessionId,
         mockItineraryRequestData.budget,
-        mockItineraryRequestData.interests
+        mockItineraryRequestData.interests,
+        undefined
       );
 
       expect(mockedLogger.info).toHaveBeenCalledWith(
@@ -117,13 +149,28 @@ describe('ItineraryService', () => {
     });
   });
 
+  describe('validateModel', () => {
+    it('should accept only available models', () => {
+
+      mockedAIService.getModelInfo.mockReturnValue({
+        groq: { model: 'llama-3.1-8b-instant', available: true },
+        gemini: { model: 'gemini-1.5-pro', available: false }
+      });
+
+
+      expect(ItineraryService.validateModel('groq')).toBe(true);
+      expect(ItineraryService.validateModel('gemini')).toBe(false);
+      expect(ItineraryService.validateModel('unknown')).toBe(false);
+    });
+  });
+
   describe('processItinerary', () => {
     it('should process itinerary successfully', async () => {
 
       mockedItinerariesModel.findById.mockResolvedValue(mockItineraryPending);
       mockedItinerariesModel.updateStatus.mockResolvedValue(undefined as any);
       mockedItinerariesModel.updateContent.mockResolvedValue(undefined as any);
-      mockedAIService.processItineraryRequest.mockResolvedValue(mockAIItineraryResponse);
+      mockedAIService.processItineraryRequest.mockResolvedValue(mockAIStructuredItineraryResponse);
       mockedPDFService.generateItineraryPDF.mockResolvedValue(mockPDFServiceResponse);
 
 
@@ -135,18 +182,37 @@ describe('ItineraryService', () => {
         mockItineraryPending.id,
         'processing'
       );
+      expect(mockedAIService.processItineraryRequest).toHaveBeenCalledTimes(1);
       expect(mockedAIService.processItineraryRequest).toHaveBeenCalledWith(
         expect.stringContaining(mockItineraryPending.destination),
-        'groq'
+        'groq',
+        undefined,
+        undefined,
+        'full',
+        undefined,
+        null
       );
       expect(mockedPDFService.generateItineraryPDF).toHaveBeenCalledWith(
         mockItineraryPending,
-        mockAIItineraryResponse.content
+        mockAIStructuredItineraryResponse.content,
+        mockStructuredItinerary
       );
       expect(mockedItinerariesModel.updateContent).toHaveBeenCalledWith(
         mockItineraryPending.id,
-        mockAIItineraryResponse.content,
+        mockAIStructuredItineraryResponse.content,
+        'groq',
+        mockPDFServiceResponse.filename,
+        mockPDFServiceResponse.filepath,
+        mockStructuredItinerary,
+        usageOf(1)
+      );
+      expect(mockedVersionsModel.create).toHaveBeenCalledWith(
+        mockItineraryPending.id,
+        'generation',
+        mockAIStructuredItineraryResponse.content,
+        mockStructuredItinerary,
         'groq',
+        { request_data: mockItineraryPending.request_data, total_chunks: 1 },
         mockPDFServiceResponse.filename,
         mockPDFServiceResponse.filepath
       );
@@ -161,7 +227,8 @@ describe('ItineraryService', () => {
         expect.objectContaining({
           context: 'itinerary',
           itineraryId: mockItineraryPending.id,
-          contentLength: mockAIItineraryResponse.content.length,
+          contentLength: mockAIStructuredItineraryResponse.content.length,
+          structured: true,
           pdfFilename: mockPDFServiceResponse.filename
         })
       );
@@ -203,6 +270,215 @@ describe('ItineraryService', () => {
       );
     });
 
+    it('should leave the itinerary pending when the failed attempt will be retried', async () => {
+
+      mockedItinerariesModel.findById.mockResolvedValue(mockItineraryPending);
+      mockedItinerariesModel.updateStatus.mockResolvedValue(undefined as any);
+      mockedAIService.processItineraryRequest.mockRejectedValue(itineraryErrorScenarios.aiServiceError);
+
+      // Act & Assert
+      await expect(
+        ItineraryService.processItinerary(mockItineraryPending.id, undefined, undefined, false)
+      ).rejects.toThrow('AI service failed');
+
+      expect(mockedItinerariesModel.updateStatus).toHaveBeenLastCalledWith(
+        mockItineraryPending.id,
+        'pending'
+      );
+      expect(mockedItinerariesModel.updateStatus).not.toHaveBeenCalledWith(mockItineraryPending.id, 'failed');
+    });
+
+    it('should store the model that answered after failover', async () => {
+
+      mockedItinerariesModel.findById.mockResolvedValue(mockItineraryPending);
+      mockedItinerariesModel.updateStatus.mockResolvedValue(undefined as any);
+      mockedItinerariesModel.updateContent.mockResolvedValue(undefined as any);
+      mockedAIService.processItineraryRequest.mockResolvedValue({
+        ...mockAIStructuredItineraryResponse,
+        model_used: 'gemini'
+      });
+      mockedPDFService.generateItineraryPDF.mockResolvedValue(mockPDFServiceResponse);
+
+
+      await ItineraryService.processItinerary(mockItineraryPending.id);
+
+
+      expect(mockedItinerariesModel.updateContent).toHaveBeenCalledWith(
+        mockItineraryPending.id,
+        mockAIStructuredItineraryResponse.content,
+        'gemini',
+        mockPDFServiceResponse.filename,
+        mockPDFServiceResponse.filepath,
+        mockStructuredItinerary,
+        usageOf(1)
+      );
+    });
+
+    it('should generate with the model chosen for the itinerary', async () => {
+
+      mockedItinerariesModel.findById.mockResolvedValue({
+        ...mockItineraryPending,
+        request_data: { ...mockItineraryPending.request_data, model: 'gemini' }
+      });
+      mockedItinerariesModel.updateStatus.mockResolvedValue(undefined as any);
+      mockedItinerariesModel.updateContent.mockResolvedValue(undefined as any);
+      mockedAIService.processItineraryRequest.mockResolvedValue(mockAIStructuredItineraryResponse);
+      mockedPDFService.generateItineraryPDF.mockResolvedValue(mockPDFServiceResponse);
+
+
+      await ItineraryService.processItinerary(mockItineraryPending.id);
+
+
+      expect(mockedAIService.processItineraryRequest).toHaveBeenCalledWith(
+        expect.stringContaining(mockItineraryPending.destination),
+        'gemini',
+        undefined,
+        undefined,
+        'full',
+        undefined,
+        null
+      );
+      expect(mockedAIService.getDefaultModel).not.toHaveBeenCalled();
+    });
+
+    it('should prefer the model passed by the job over request data', async () => {
+
+      mockedItinerariesModel.findById.mockResolvedValue(mockItineraryPending);
+      mockedItinerariesModel.updateStatus.mockResolvedValue(undefined as any);
+      mockedItinerariesModel.updateContent.mockResolvedValue(undefined as any);
+      mockedAIService.processItineraryRequest.mockResolvedValue(mockAIStructuredItineraryResponse);
+      mockedPDFService.generateItineraryPDF.mockResolvedValue(mockPDFServiceResponse);
+
+
+      await ItineraryService.processItinerary(mockItineraryPending.id, 'mock');
+
+
+      expect(mockedAIService.processItineraryRequest).toHaveBeenCalledWith(
+        expect.any(String),
+        'mock',
+        undefined,
+        undefined,
+        'full',
+        undefined,
+        null
+      );
+    });
+
+    it('should generate with the assigned prompt template and record its version', async () => {
+
+      mockedItinerariesModel.findById.mockResolvedValue(mockItineraryPending);
+      mockedItinerariesModel.updateStatus.mockResolvedValue(undefined as any);
+      mockedItinerariesModel.updateContent.mockResolvedValue(undefined as any);
+      mockedAIService.processItineraryRequest.mockResolvedValue(mockAIStructuredItineraryResponse);
+      mockedPDFService.generateItineraryPDF.mockResolvedValue(mockPDFServiceResponse);
+      mockedPromptTemplateService.assign.mockResolvedValue(mockItineraryPromptTemplate);
+      mockedPromptTemplateService.render.mockImplementation((content, variables = {}) =>
+        content.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => variables[name] ?? placeholder));
+
+
+      await ItineraryService.processItinerary(mockItineraryPending.id);
+
+
+      expect(mockedPromptTemplateService.assign).toHaveBeenCalledWith('itineraries', undefined);
+      expect(mockedItinerariesModel.updatePromptVersion).toHaveBeenCalledWith(
+        mockItineraryPending.id,
+        mockItineraryPromptTemplate.version
+      );
+      const [prompt, , , , , , template] = mockedAIService.processItineraryRequest.mock.calls[0]!;
+      expect(prompt).toContain(mockItineraryPending.destination);
+      expect(prompt).toContain('Comece em 2025-12-15.');
+      expect(template).toBe(mockItineraryPromptTemplate);
+    });
+
+    it('should re-request malformed output with the validation errors', async () => {
+
+      mockedItinerariesModel.findById.mockResolvedValue(mockItineraryPending);
+      mockedItinerariesModel.updateStatus.mockResolvedValue(undefined as any);
+      mockedItinerariesModel.updateContent.mockResolvedValue(undefined as any);
+      mockedAIService.processItineraryRequest
+        .mockResolvedValueOnce({ ...mockAIItineraryResponse, content: '{"title": "Paris"}' })
+        .mockResolvedValueOnce(mockAIStructuredItineraryResponse);
+      mockedPDFService.generateItineraryPDF.mockResolvedValue(mockPDFServiceResponse);
+
+
+      await ItineraryService.processItinerary(mockItineraryPending.id);
+
+
+      expect(mockedAIService.processItineraryRequest).toHaveBeenCalledTimes(2);
+      expect(mockedAIService.processItineraryRequest).toHaveBeenLastCalledWith(
+        expect.any(String),
+        'groq',
+        undefined,
+        {
+          previous_content: '{"title": "Paris"}',
+          errors: expect.arrayContaining([expect.stringContaining('introduction')])
+        },
+        'full',
+        undefined,
+        null
+      );
+      expect(mockedItinerariesModel.updateContent).toHaveBeenCalledWith(
+        mockItineraryPending.id,
+        mockAIStructuredItineraryResponse.content,
+        'groq',
+        mockPDFServiceResponse.filename,
+        mockPDFServiceResponse.filepath,
+        mockStructuredItinerary,
+        usageOf(2)
+      );
+    });
+
+    it('should keep the raw text when every attempt is malformed', async () => {
+
+      mockedItinerariesModel.findById.mockResolvedValue(mockItineraryPending);
+      mockedItinerariesModel.updateStatus.mockResolvedValue(undefined as any);
+      mockedItinerariesModel.updateContent.mockResolvedValue(undefined as any);
+      mockedAIService.processItineraryRequest.mockResolvedValue(mockAIItineraryResponse);
+      mockedPDFService.generateItineraryPDF.mockResolvedValue(mockPDFServiceResponse);
+
+
+      await ItineraryService.processItinerary(mockItineraryPending.id);
+
+
+      expect(mockedAIService.processItineraryRequest).toHaveBeenCalledTimes(3);
+      expect(mockedPDFService.generateItineraryPDF).toHaveBeenCalledWith(
+        mockItineraryPending,
+        mockAIItineraryResponse.content,
+        null
+      );
+      expect(mockedItinerariesModel.updateContent).toHaveBeenCalledWith(
+        mockItineraryPending.id,
+        mockAIItineraryResponse.content,
+        'groq',
+        mockPDFServiceResponse.filename,
+        mockPDFServiceResponse.filepath,
+        null,
+        usageOf(3)
+      );
+      expect(mockedLogger.warn).toHaveBeenCalledWith(
+        'Keeping unstructured itinerary content after validation attempts',
+        expect.objectContaining({ itineraryId: mockItineraryPending.id, maxAttempts: 3 })
+      );
+    });
+
+    it('should fail when no AI provider is available', async () => {
+
+      mockedItinerariesModel.findById.mockResolvedValue(mockItineraryPending);
+      mockedItinerariesModel.updateStatus.mockResolvedValue(undefined as any);
+      mockedAIService.getDefaultModel.mockReturnValue(null);
+
+      // Act & Assert
+      await expect(
+        ItineraryService.processItinerary(mockItineraryPending.id)
+      ).rejects.toThrow('No AI provider available for itinerary generation');
+
+      expect(mockedAIService.processItineraryRequest).not.toHaveBeenCalled();
+      expect(mockedItinerariesModel.updateStatus).toHaveBeenLastCalledWith(
+        mockItineraryPending.id,
+        'failed'
+      );
+    });
+
     it('should handle PDF generation errors', async () => {
 
       mockedItinerariesModel.findById.mockResolvedValue(mockItineraryPending);
@@ -249,6 +525,307 @@ describe('ItineraryService', () => {
     });
   });
 
+  describe('chunked generation', () => {
+    const aiResponse = (content: object) => ({ ...mockAIItineraryResponse, content: JSON.stringify(content) });
+
+    beforeEach(() => {
+      mockedItinerariesModel.findById.mockResolvedValue(mockLongItineraryPending);
+      mockedItinerariesModel.updateStatus.mockResolvedValue(undefined as any);
+      mockedItinerariesModel.updateContent.mockResolvedValue(undefined as any);
+      mockedPDFService.generateItineraryPDF.mockResolvedValue(mockPDFServiceResponse);
+    });
+
+    it('should generate an overview and then batches of days', async () => {
+
+      mockedAIService.processItineraryRequest
+        .mockResolvedValueOnce(aiResponse(mockItineraryOverview))
+        .mockResolvedValueOnce(aiResponse({ days: [1, 2, 3, 4, 5].map(buildMockItineraryDay) }))
+        .mockResolvedValueOnce(aiResponse({ days: [6, 7].map(buildMockItineraryDay) }));
+      const onProgress = jest.fn();
+
+
+      await ItineraryService.processItinerary(mockLongItineraryPending.id, undefined, onProgress);
+
+
+      const calls = mockedAIService.processItineraryRequest.mock.calls;
+      expect(calls.map(call => call[4])).toEqual(['overview', 'days', 'days']);
+      expect(calls[0]![0]).toContain('exatamente 7 itens');
+      expect(calls[1]![0]).toContain('exatamente os dias 1, 2, 3, 4, 5');
+      expect(calls[2]![0]).toContain('exatamente os dias 6, 7');
+      expect(calls[2]![0]).toContain('DIAS JÁ DETALHADOS');
+
+      const structured = mockedItinerariesModel.updateContent.mock.calls[0]![5]!;
+      expect(structured.title).toBe('Paris em 7 dias');
+      expect(structured.days.map(day => day.day)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      expect(structured).not.toHaveProperty('day_outline');
+      expect(mockedItinerariesModel.updateContent.mock.calls[0]![6]).toEqual(usageOf(3));
+      expect(mockedPDFService.generateItineraryPDF).toHaveBeenCalledWith(
+        mockLongItineraryPending,
+        JSON.stringify(structured),
+        structured
+      );
+
+      expect(onProgress.mock.calls.map(call => call[0])).toEqual([
+        { stage: 'overview', completed_chunks: 1, total_chunks: 3, percent: 30 },
+        { stage: 'days', completed_chunks: 2, total_chunks: 3, percent: 60 },
+        { stage: 'days', completed_chunks: 3, total_chunks: 3, percent: 90 },
+        { stage: 'pdf', completed_chunks: 3, total_chunks: 3, percent: 90 }
+      ]);
+    });
+
+    it('should record the model that answered most chunks after a failover', async () => {
+
+      const firstDays = aiResponse({ days: [1, 2, 3, 4, 5].map(buildMockItineraryDay) });
+      mockedAIService.processItineraryRequest
+        .mockResolvedValueOnce({ ...aiResponse(mockItineraryOverview), model_used: 'gemini' })
+        .mockResolvedValueOnce({ ...firstDays, model_used: 'gemini' })
+        .mockResolvedValueOnce(aiResponse({ days: [6, 7].map(buildMockItineraryDay) }));
+
+
+      await ItineraryService.processItinerary(mockLongItineraryPending.id);
+
+
+      expect(mockedItinerariesModel.updateContent.mock.calls[0]![2]).toBe('gemini');
+    });
+
+    it('should re-request chunks that return the wrong days', async () => {
+
+      mockedAIService.processItineraryRequest
+        .mockResolvedValueOnce(aiResponse(mockItineraryOverview))
+        .mockResolvedValueOnce(aiResponse({ days: [1, 2, 3, 4, 5].map(buildMockItineraryDay) }))
+        .mockResolvedValueOnce(aiResponse({ days: [6].map(buildMockItineraryDay) }))
+        .mockResolvedValueOnce(aiResponse({ days: [6, 7].map(buildMockItineraryDay) }));
+
+
+      await ItineraryService.processItinerary(mockLongItineraryPending.id);
+
+
+      expect(mockedAIService.processItineraryRequest).toHaveBeenCalledTimes(4);
+      expect(mockedAIService.processItineraryRequest.mock.calls[3]![3]).toEqual(expect.objectContaining({
+        errors: ['days: Expected days 6, 7, received 6']
+      }));
+    });
+
+    it('should fail when the overview never passes validation', async () => {
+
+      mockedAIService.processItineraryRequest.mockResolvedValue(
+        aiResponse({ ...mockItineraryOverview, day_outline: mockItineraryOverview.day_outline.slice(0, 3) })
+      );
+
+      // Act & Assert
+      await expect(
+        ItineraryService.processItinerary(mockLongItineraryPending.id)
+      ).rejects.toThrow('Failed to generate a valid itinerary overview');
+
+      expect(mockedAIService.processItineraryRequest).toHaveBeenCalledTimes(3);
+      expect(mockedItinerariesModel.updateStatus).toHaveBeenLastCalledWith(mockLongItineraryPending.id, 'failed');
+    });
+  });
+
+  describe('multi-destination generation', () => {
+    const aiResponse = (content: object) => ({ ...mockAIItineraryResponse, content: JSON.stringify(content) });
+
+    beforeEach(() => {
+      mockedItinerariesModel.findById.mockResolvedValue(mockMultiLegItineraryPending);
+      mockedItinerariesModel.updateStatus.mockResolvedValue(undefined as any);
+      mockedItinerariesModel.updateContent.mockResolvedValue(undefined as any);
+      mockedPDFService.generateItineraryPDF.mockResolvedValue(mockPDFServiceResponse);
+    });
+
+    it('should describe every leg and the transfers between them in the prompt', async () => {
+
+      mockedAIService.processItineraryRequest.mockResolvedValue(aiResponse(mockMultiLegStructuredItinerary));
+
+
+      await ItineraryService.processItinerary(mockMultiLegItineraryPending.id);
+
+
+      const prompt = mockedAIService.processItineraryRequest.mock.calls[0]![0];
+      expect(prompt).toContain('1. Lisboa: 2030-05-01 a 2030-05-03');
+      expect(prompt).toContain('3. Madrid: 2030-05-04 a 2030-05-05');
+      expect(prompt).toContain('- Lisboa → Porto em 2030-05-03');
+      expect(prompt).toContain('- Porto → Madrid em 2030-05-04');
+      expect(mockedItinerariesModel.updateContent.mock.calls[0]![5]).toEqual(mockMultiLegStructuredItinerary);
+    });
+
+    it('should re-request itineraries missing transfers between legs', async () => {
+
+      const withoutTransfers = { ...mockMultiLegStructuredItinerary, transfers: [] };
+      mockedAIService.processItineraryRequest
+        .mockResolvedValueOnce(aiResponse(withoutTransfers))
+        .mockResolvedValueOnce(aiResponse(mockMultiLegStructuredItinerary));
+
+
+      await ItineraryService.processItinerary(mockMultiLegItineraryPending.id);
+
+
+      expect(mockedAIService.processItineraryRequest).toHaveBeenCalledTimes(2);
+      expect(mockedAIService.processItineraryRequest.mock.calls[1]![3]).toEqual(expect.objectContaining({
+        errors: ['transfers: Expected 2 transfers between legs, received 0']
+      }));
+    });
+
+    it('should name the city of each day when generating in chunks', async () => {
+
+      const longTrip = {
+        ...mockMultiLegItineraryPending,
+        end_date: new Date('2030-05-07'),
+        request_data: {
+          ...mockMultiLegItineraryPending.request_data,
+          end_date: '2030-05-07',
+          legs: [
+            { destination: 'Lisboa', start_date: '2030-05-01', end_date: '2030-05-04' },
+            { destination: 'Madrid', start_date: '2030-05-04', end_date: '2030-05-07' }
+          ]
+        }
+      };
+      const overview = {
+        ...mockItineraryOverview,
+        day_outline: mockItineraryOverview.day_outline.slice(0, 6),
+        transfers: mockMultiLegStructuredItinerary.transfers!.slice(1)
+      };
+      mockedItinerariesModel.findById.mockResolvedValue(longTrip);
+      mockedAIService.processItineraryRequest
+        .mockResolvedValueOnce(aiResponse(overview))
+        .mockResolvedValueOnce(aiResponse({ days: [1, 2, 3, 4, 5].map(buildMockItineraryDay) }))
+        .mockResolvedValueOnce(aiResponse({ days: [6].map(buildMockItineraryDay) }));
+
+
+      await ItineraryService.processItinerary(longTrip.id);
+
+
+      const calls = mockedAIService.processItineraryRequest.mock.calls;
+      expect(calls[1]![0]).toContain('Dia 3 = 2030-05-03 (Lisboa), Dia 4 = 2030-05-04 (Madrid)');
+      expect(mockedItinerariesModel.updateContent.mock.calls[0]![5]!.transfers).toEqual(overview.transfers);
+    });
+  });
+
+  describe('regenerateDay', () => {
+    const aiResponse = (content: object) => ({ ...mockAIItineraryResponse, content: JSON.stringify(content) });
+
+    beforeEach(() => {
+      mockedItinerariesModel.updateContent.mockResolvedValue(undefined as any);
+      mockedPDFService.generateItineraryPDF.mockResolvedValue(mockPDFServiceResponse);
+      mockedPDFService.deletePDF.mockResolvedValue(undefined);
+      mockedRevisionsModel.create.mockResolvedValue(mockItineraryRevision);
+    });
+
+    it('should rewrite the day with the prompt template the itinerary was generated with', async () => {
+
+      mockedAIService.processItineraryRequest.mockResolvedValue(aiResponse({ days: [mockRegeneratedDay] }));
+      mockedPromptTemplateService.getVersion.mockResolvedValue(mockItineraryPromptTemplate);
+
+
+      await ItineraryService.regenerateDay({ ...mockStructuredItineraryCompleted, prompt_version: 3 }, 1);
+
+
+      expect(mockedPromptTemplateService.getVersion).toHaveBeenCalledWith('itineraries', 'pt-BR', 3);
+      expect(mockedAIService.processItineraryRequest.mock.calls[0]?.[6]).toBe(mockItineraryPromptTemplate);
+    });
+
+    it('should rewrite only the requested day and rebuild the PDF', async () => {
+
+      const newPdf = { filename: 'itinerary_paris_france_2_2.pdf', filepath: '/app/pdfs/itinerary_paris_france_2_2.pdf' };
+      mockedPDFService.generateItineraryPDF.mockResolvedValue(newPdf);
+      mockedAIService.processItineraryRequest.mockResolvedValue(
+        aiResponse({ days: [{ ...mockRegeneratedDay, date: '2030-01-01' }] })
+      );
+
+
+      const result = await ItineraryService.regenerateDay(
+        mockStructuredItineraryCompleted,
+        1,
+        'Menos museus, mais parques'
+      );
+
+
+      const [prompt, model, , , stage] = mockedAIService.processItineraryRequest.mock.calls[0]!;
+      expect(prompt).toContain('DIA A REESCREVER - Dia 1 (2025-12-15): Centro Histórico');
+      expect(prompt).toContain('PEDIDO DO VIAJANTE: Menos museus, mais parques');
+      expect(model).toBe('groq');
+      expect(stage).toBe('days');
+
+      const updated = { ...mockStructuredItinerary, days: [mockRegeneratedDay] };
+      expect(result).toEqual({ day: mockRegeneratedDay, revision: mockItineraryRevision, pdf_filename: newPdf.filename });
+      expect(mockedPDFService.generateItineraryPDF).toHaveBeenCalledWith(
+        mockStructuredItineraryCompleted,
+        JSON.stringify(updated),
+        updated
+      );
+      expect(mockedItinerariesModel.updateContent).toHaveBeenCalledWith(
+        mockStructuredItineraryCompleted.id,
+        JSON.stringify(updated),
+        mockStructuredItineraryCompleted.model_used,
+        newPdf.filename,
+        newPdf.filepath,
+        updated,
+        usageOf(1)
+      );
+      expect(mockedPDFService.deletePDF).not.toHaveBeenCalled();
+      expect(mockedRevisionsModel.create).toHaveBeenCalledWith(
+        mockStructuredItineraryCompleted.id,
+        1,
+        mockStructuredItinerary.days[0],
+        mockRegeneratedDay,
+        'groq',
+        'Menos museus, mais parques'
+      );
+      expect(mockedVersionsModel.create).toHaveBeenCalledWith(
+        mockStructuredItineraryCompleted.id,
+        'day_regeneration',
+        JSON.stringify(updated),
+        updated,
+        'groq',
+        {
+          request_data: mockStructuredItineraryCompleted.request_data,
+          day_number: 1,
+          feedback: 'Menos museus, mais parques'
+        },
+        newPdf.filename,
+        newPdf.filepath
+      );
+    });
+
+    it('should ask for an alternative day without feedback', async () => {
+
+      mockedAIService.processItineraryRequest.mockResolvedValue(aiResponse({ days: [mockRegeneratedDay] }));
+
+
+      await ItineraryService.regenerateDay(mockStructuredItineraryCompleted, 1);
+
+
+      expect(mockedAIService.processItineraryRequest.mock.calls[0]![0]).toContain(
+        'PEDIDO DO VIAJANTE: Sugira uma alternativa diferente para este dia'
+      );
+      expect(mockedRevisionsModel.create.mock.calls[0]![5]).toBeUndefined();
+    });
+
+    it('should fail without saving when the AI never returns the requested day', async () => {
+      mockedAIService.processItineraryRequest.mockResolvedValue(
+        aiResponse({ days: [{ ...mockRegeneratedDay, day: 2 }] })
+      );
+
+      // Act & Assert
+      await expect(
+        ItineraryService.regenerateDay(mockStructuredItineraryCompleted, 1)
+      ).rejects.toThrow('Failed to regenerate a valid itinerary day 1');
+
+      expect(mockedAIService.processItineraryRequest).toHaveBeenCalledTimes(3);
+      expect(mockedItinerariesModel.updateContent).not.toHaveBeenCalled();
+      expect(mockedRevisionsModel.create).not.toHaveBeenCalled();
+      expect(mockedVersionsModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject days that are not in the itinerary', async () => {
+      // Act & Assert
+      await expect(
+        ItineraryService.regenerateDay(mockStructuredItineraryCompleted, 5)
+      ).rejects.toThrow('Itinerary day 5 not found');
+
+      expect(mockedAIService.processItineraryRequest).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getItinerary', () => {
     it('should return existing itinerary', async () => {
 
@@ -468,6 +1045,14 @@ describe('ItineraryService', () => {
       });
     });
 
+    it('should accept trips longer than a week', () => {
+
+      // Act & Assert
+      expect(() => {
+        ItineraryService.validateItineraryDates('2099-12-01', '2099-12-21');
+      }).not.toThrow();
+    });
+
     it('should reject invalid date ranges', () => {
       // Past dates
       expect(() => {
@@ -479,10 +1064,10 @@ describe('ItineraryService', () => {
         ItineraryService.validateItineraryDates('2099-12-05', '2099-12-04');
       }).toThrow('End date must be after start date');
 
-      // Trip too long (8 days, both in future)
+      // Trip too long (31 days, both in future)
       expect(() => {
-        ItineraryService.validateItineraryDates('2099-12-01', '2099-12-09');
-      }).toThrow('Trip duration cannot exceed 7 days');
+        ItineraryService.validateItineraryDates('2099-12-01', '2100-01-01');
+      }).toThrow('Trip duration cannot exceed 30 days');
 
       // Same start and end (in future)
       expect(() => {
@@ -2,13 +2,18 @@ import { Job } from 'bullmq';
 import { processItineraryJob, setupJobHandlers, ItineraryJobData } from '../../../src/jobs/itinerary-generation.job';
 import { itineraryService } from '../../../src/services/itinerary.service';
 import { logger } from '../../../src/config/logger';
+import { refundAIFailure } from '../../../src/middleware/rate-limit';
+import { mockRateLimitCharge } from '../../fixtures/rate-limit.fixtures';
 
 // Mock dependencies
 jest.mock('../../../src/services/itinerary.service');
 jest.mock('../../../src/config/logger');
+jest.mock('../../../src/middleware/rate-limit');
+jest.mock('../../../src/config/queue');
 
 const mockedItineraryService = itineraryService as jest.Mocked<typeof itineraryService>;
 const mockedLogger = logger as jest.Mocked<typeof logger>;
+const mockedRefundAIFailure = refundAIFailure as jest.MockedFunction<typeof refundAIFailure>;
 
 describe('Itinerary Generation Job', () => {
   let mockJob: Partial<Job>;
@@ -55,11 +60,24 @@ describe('Itinerary Generation Job', () => {
       );
 
 
-      expect(mockJob.updateProgress).toHaveBeenCalledWith(10);
-      expect(mockJob.updateProgress).toHaveBeenCalledWith(100);
+      expect(mockJob.updateProgress).toHaveBeenCalledWith({
+        itinerary_id: mockItineraryId,
+        stage: 'generating_content',
+        percent: 10
+      });
+      expect(mockJob.updateProgress).toHaveBeenCalledWith({
+        itinerary_id: mockItineraryId,
+        stage: 'completed',
+        percent: 100
+      });
       
 
-      expect(mockedItineraryService.processItinerary).toHaveBeenCalledWith(mockItineraryId);
+      expect(mockedItineraryService.processItinerary).toHaveBeenCalledWith(
+        mockItineraryId,
+        undefined,
+        expect.any(Function),
+        false
+      );
       
 
       expect(mockedLogger.info).toHaveBeenCalledWith(
@@ -89,9 +107,13 @@ describe('Itinerary Generation Job', () => {
       );
       
 
-      expect(mockJob.updateProgress).toHaveBeenCalledTimes(1);
-      expect(mockJob.updateProgress).toHaveBeenCalledWith(10);
-      expect(mockJob.updateProgress).not.toHaveBeenCalledWith(100);
+      expect(mockJob.updateProgress).toHaveBeenCalledTimes(2);
+      expect(mockJob.updateProgress).toHaveBeenLastCalledWith({
+        itinerary_id: mockItineraryId,
+        stage: 'queued',
+        percent: 0
+      });
+      expect(mockJob.updateProgress).not.toHaveBeenCalledWith(expect.objectContaining({ stage: 'completed' }));
     });
 
     it('should log detailed job information', async () => {
@@ -150,7 +172,7 @@ describe('Itinerary Generation Job', () => {
       await processItineraryJob(mockJob as Job<ItineraryJobData>);
 
       // Assert - should pass undefined to service (which may handle it gracefully)
-      expect(mockedItineraryService.processItinerary).toHaveBeenCalledWith(undefined);
+      expect(mockedItineraryService.processItinerary).toHaveBeenCalledWith(undefined, undefined, expect.any(Function), false);
     });
 
     it('should handle invalid itineraryId type', async () => {
@@ -161,7 +183,7 @@ describe('Itinerary Generation Job', () => {
       await processItineraryJob(mockJob as Job<ItineraryJobData>);
 
       // Assert - should still process with string value
-      expect(mockedItineraryService.processItinerary).toHaveBeenCalledWith('invalid');
+      expect(mockedItineraryService.processItinerary).toHaveBeenCalledWith('invalid', undefined, expect.any(Function), false);
     });
 
     it('should handle updateProgress failures gracefully', async () => {
@@ -282,7 +304,7 @@ describe('Itinerary Generation Job', () => {
       await processItineraryJob(mockJob as Job<ItineraryJobData>);
 
 
-      expect(mockedItineraryService.processItinerary).toHaveBeenCalledWith(largeId);
+      expect(mockedItineraryService.processItinerary).toHaveBeenCalledWith(largeId, undefined, expect.any(Function), false);
     });
 
     it('should preserve error details when rethrowing', async () => {
@@ -331,7 +353,7 @@ describe('Itinerary Generation Job', () => {
       await expect(processItineraryJob(mockJob as Job<ItineraryJobData>)).rejects.toThrow('First progress update failed');
       
 
-      expect(mockJob.updateProgress).toHaveBeenCalledWith(10);
+      expect(mockJob.updateProgress).toHaveBeenCalledWith(expect.objectContaining({ stage: 'generating_content' }));
       expect(mockedItineraryService.processItinerary).not.toHaveBeenCalled();
     });
 
@@ -389,7 +411,7 @@ describe('Itinerary Generation Job', () => {
       await processItineraryJob(mockJob as Job<ItineraryJobData>);
 
 
-      expect(mockedItineraryService.processItinerary).toHaveBeenCalledWith(789);
+      expect(mockedItineraryService.processItinerary).toHaveBeenCalledWith(789, undefined, expect.any(Function), false);
     });
   });
 
@@ -426,7 +448,92 @@ describe('Itinerary Generation Job', () => {
       await processItineraryJob(mockJob as Job<ItineraryJobData>);
 
 
-      expect(mockedItineraryService.processItinerary).toHaveBeenCalledWith(456);
+      expect(mockedItineraryService.processItinerary).toHaveBeenCalledWith(456, undefined, expect.any(Function), false);
+    });
+
+    it('should pass the chosen model to the itinerary service', async () => {
+
+      mockJob.data = { itineraryId: 456, model: 'gemini' };
+
+
+      await processItineraryJob(mockJob as Job<ItineraryJobData>);
+
+
+      expect(mockedItineraryService.processItinerary).toHaveBeenCalledWith(456, 'gemini', expect.any(Function), false);
+    });
+
+    it('should report progress once per generated chunk', async () => {
+
+      mockedItineraryService.processItinerary.mockImplementation(async (_id, _model, onProgress) => {
+        await onProgress?.({ stage: 'overview', completed_chunks: 1, total_chunks: 4, percent: 23 });
+        await onProgress?.({ stage: 'days', completed_chunks: 2, total_chunks: 4, percent: 45 });
+        await onProgress?.({ stage: 'pdf', completed_chunks: 4, total_chunks: 4, percent: 90 });
+      });
+
+
+      await processItineraryJob(mockJob as Job<ItineraryJobData>);
+
+
+      expect((mockJob.updateProgress as jest.Mock).mock.calls.map(call => call[0])).toEqual([
+        { itinerary_id: mockItineraryId, stage: 'generating_content', percent: 10 },
+        { itinerary_id: mockItineraryId, stage: 'generating_content', percent: 23, completed_chunks: 1, total_chunks: 4 },
+        { itinerary_id: mockItineraryId, stage: 'generating_content', percent: 45, completed_chunks: 2, total_chunks: 4 },
+        { itinerary_id: mockItineraryId, stage: 'generating_pdf', percent: 90, completed_chunks: 4, total_chunks: 4 },
+        { itinerary_id: mockItineraryId, stage: 'completed', percent: 100 }
+      ]);
+      expect(mockedLogger.info).toHaveBeenCalledWith(
+        'BullMQ job progress updated',
+        expect.objectContaining({ stage: 'days', completedChunks: 2, totalChunks: 4, percent: 45 })
+      );
+    });
+
+    it('should give the rate limit back when the last attempt fails', async () => {
+
+      mockJob.data = { itineraryId: mockItineraryId, rateLimitCharge: mockRateLimitCharge };
+      mockJob.attemptsMade = 2;
+      mockedItineraryService.processItinerary.mockRejectedValue(new Error('AI service error: timeout'));
+
+
+      await expect(processItineraryJob(mockJob as Job<ItineraryJobData>)).rejects.toThrow('AI service error');
+
+
+      expect(mockedRefundAIFailure).toHaveBeenCalledWith(mockRateLimitCharge);
+      expect(mockedItineraryService.processItinerary).toHaveBeenCalledWith(mockItineraryId, undefined, expect.any(Function), true);
+      expect(mockJob.updateProgress).toHaveBeenLastCalledWith({
+        itinerary_id: mockItineraryId,
+        stage: 'failed',
+        percent: 0
+      });
+    });
+
+    it('should still fail with the error of the job when its failure cannot be reported', async () => {
+
+      mockJob.updateProgress = jest.fn()
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Redis unavailable'));
+      mockedItineraryService.processItinerary.mockRejectedValue(new Error('AI service error: timeout'));
+
+
+      await expect(processItineraryJob(mockJob as Job<ItineraryJobData>)).rejects.toThrow('AI service error');
+
+
+      expect(mockedLogger.warn).toHaveBeenCalledWith('Failed to report BullMQ job failure progress', expect.objectContaining({
+        itineraryId: mockItineraryId,
+        error: 'Redis unavailable'
+      }));
+    });
+
+    it('should keep the rate limit while attempts are left', async () => {
+
+      mockJob.data = { itineraryId: mockItineraryId, rateLimitCharge: mockRateLimitCharge };
+      mockJob.attemptsMade = 1;
+      mockedItineraryService.processItinerary.mockRejectedValue(new Error('AI service error: timeout'));
+
+
+      await expect(processItineraryJob(mockJob as Job<ItineraryJobData>)).rejects.toThrow('AI service error');
+
+
+      expect(mockedRefundAIFailure).not.toHaveBeenCalled();
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { startRateLimitCleanup, stopRateLimitCleanup } from '../../../src/jobs/rate-limit-cleanup.job';
+import { cleanupExpiredRateLimits } from '../../../src/middleware/rate-limit';
+import { logger } from '../../../src/config/logger';
+
+// Mock dependencies
+jest.mock('../../../src/middleware/rate-limit');
+jest.mock('../../../src/config/logger');
+
+const mockedCleanupExpiredRateLimits = cleanupExpiredRateLimits as jest.MockedFunction<typeof cleanupExpiredRateLimits>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('Rate Limit Cleanup Job', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    mockedCleanupExpiredRateLimits.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    stopRateLimitCleanup();
+    jest.useRealTimers();
+  });
+
+  it('should clean up once per interval', () => {
+
+    startRateLimitCleanup();
+
+
+    jest.advanceTimersByTime(3600000 * 2);
+
+
+    expect(mockedCleanupExpiredRateLimits).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not schedule the cleanup twice', () => {
+
+    startRateLimitCleanup();
+    startRateLimitCleanup();
+
+
+    jest.advanceTimersByTime(3600000);
+
+
+    expect(mockedCleanupExpiredRateLimits).toHaveBeenCalledTimes(1);
+    expect(mockedLogger.warn).toHaveBeenCalledWith('Rate limit cleanup is already running');
+  });
+
+  it('should stop cleaning up once stopped', () => {
+
+    startRateLimitCleanup();
+    stopRateLimitCleanup();
+
+
+    jest.advanceTimersByTime(3600000);
+
+
+    expect(mockedCleanupExpiredRateLimits).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  SUPPORTED_LOCALES,
+  formatDate,
+  getMessages,
+  matchLocale,
+  parseAcceptLanguage,
+  resolveLocale
+} from '../../src/locales';
+import { MessageCatalog } from '../../src/types/i18n';
+
+// Key paths of a catalog, functions included, so missing translations are caught
+const keyPaths = (value: unknown, prefix = ''): string[] => {
+  if (typeof value !== 'object' || value === null) {
+    return [prefix];
+  }
+
+  return Object.entries(value).flatMap(([key, child]) => keyPaths(child, prefix ? `${prefix}.${key}` : key)).sort();
+};
+
+describe('Locales', () => {
+  describe('matchLocale', () => {
+    it('should map regional tags to the catalog of their language', () => {
+
+      const matches = ['pt-BR', 'pt-PT', 'pt', 'en-US', 'EN_gb', 'es-MX', 'fr-FR'].map(matchLocale);
+
+
+      expect(matches).toEqual(['pt-BR', 'pt-BR', 'pt-BR', 'en', 'en', 'es', null]);
+    });
+  });
+
+  describe('parseAcceptLanguage', () => {
+    it('should order supported languages by quality', () => {
+
+      const locales = parseAcceptLanguage('fr-CH, fr;q=0.9, es;q=0.7, en-US;q=0.8, en;q=0.6, *;q=0.5');
+
+
+      expect(locales).toEqual(['en', 'es']);
+    });
+
+    it('should ignore languages refused with q=0 and empty headers', () => {
+
+      expect(parseAcceptLanguage('en;q=0, es')).toEqual(['es']);
+      expect(parseAcceptLanguage(undefined)).toEqual([]);
+      expect(parseAcceptLanguage('')).toEqual([]);
+    });
+  });
+
+  describe('resolveLocale', () => {
+    it('should prefer the requested locale, then Accept-Language, then the default', () => {
+
+      expect(resolveLocale('es', 'en-US')).toBe('es');
+      expect(resolveLocale(undefined, 'de-DE, en;q=0.5')).toBe('en');
+      expect(resolveLocale(undefined, 'de-DE')).toBe('pt-BR');
+    });
+  });
+
+  describe('formatDate', () => {
+    it('should format calendar dates in the language of the locale', () => {
+
+      expect(formatDate('2025-12-15', 'pt-BR')).toBe('segunda-feira, 15 de dezembro de 2025');
+      expect(formatDate('2025-12-15', 'en')).toBe('Monday, December 15, 2025');
+      expect(formatDate('2025-12-15', 'es', 'day')).toBe('lunes, 15 de diciembre');
+      expect(formatDate('2025-12-15', 'en', 'short')).toBe('12/15/2025');
+    });
+  });
+
+  describe('catalogs', () => {
+    it('should translate every message of the default catalog', () => {
+
+      const expected = keyPaths(getMessages('pt-BR'));
+
+
+      for (const locale of SUPPORTED_LOCALES) {
+        const catalog: MessageCatalog = getMessages(locale);
+        expect(catalog.locale).toBe(locale);
+        expect(keyPaths(catalog)).toEqual(expected);
+      }
+    });
+  });
+});
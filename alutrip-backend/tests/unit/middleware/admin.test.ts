@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import { requireAdmin } from '../../../src/middleware/admin';
+import { AppError } from '../../../src/middleware/error-handler';
+import { config } from '../../../src/config/env';
+
+// Mock dependencies
+jest.mock('../../../src/config/logger');
+
+const ADMIN_TOKEN = 'test-admin-token-0123456789';
+
+describe('Admin middleware', () => {
+  let req: Partial<Request>;
+  let headers: Record<string, string>;
+  const res = {} as Response;
+  let next: jest.Mock;
+  const originalToken = config.ADMIN_API_TOKEN;
+
+  beforeEach(() => {
+    headers = {};
+    req = {
+      get: jest.fn().mockImplementation((name: string) => headers[name])
+    } as Partial<Request>;
+    next = jest.fn();
+    Object.assign(config, { ADMIN_API_TOKEN: ADMIN_TOKEN });
+  });
+
+  afterAll(() => {
+    Object.assign(config, { ADMIN_API_TOKEN: originalToken });
+  });
+
+  it('should allow requests with the admin token', () => {
+
+    headers['x-admin-token'] = ADMIN_TOKEN;
+
+
+    requireAdmin(req as Request, res, next);
+
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('should reject a wrong or missing token with 401', () => {
+
+    headers['x-admin-token'] = 'wrong-token';
+
+
+    requireAdmin(req as Request, res, next);
+    delete headers['x-admin-token'];
+    requireAdmin(req as Request, res, next);
+
+
+    expect((next.mock.calls[0][0] as AppError).statusCode).toBe(401);
+    expect((next.mock.calls[1][0] as AppError).statusCode).toBe(401);
+  });
+
+  it('should disable admin endpoints when no token is configured', () => {
+
+    Object.assign(config, { ADMIN_API_TOKEN: undefined });
+    headers['x-admin-token'] = ADMIN_TOKEN;
+
+
+    requireAdmin(req as Request, res, next);
+
+
+    const error = next.mock.calls[0][0] as AppError;
+    expect(error.statusCode).toBe(403);
+    expect(error.message).toBe('Admin endpoints are disabled');
+  });
+});
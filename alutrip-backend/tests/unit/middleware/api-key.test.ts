@@ -0,0 +1,79 @@
+import { Request, Response } from 'express';
+import { authenticateApiKey } from '../../../src/middleware/api-key';
+import { AppError } from '../../../src/middleware/error-handler';
+import { apiKeyService } from '../../../src/services/api-key.service';
+import { mockPlainApiKey } from '../../fixtures/api-key.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/services/api-key.service');
+jest.mock('../../../src/config/logger');
+
+const mockedApiKeyService = apiKeyService as jest.Mocked<typeof apiKeyService>;
+
+describe('API key middleware', () => {
+  let req: Partial<Request>;
+  let headers: Record<string, string>;
+  const res = {} as Response;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    headers = {};
+    req = {
+      get: jest.fn().mockImplementation((name: string) => headers[name])
+    } as Partial<Request>;
+    next = jest.fn();
+  });
+
+  it('should let requests without a key through', async () => {
+
+    await authenticateApiKey(req as Request, res, next);
+
+
+    expect(mockedApiKeyService.authenticate).not.toHaveBeenCalled();
+    expect(req.apiKey).toBeUndefined();
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('should attach the identity of a valid key', async () => {
+
+    headers['x-api-key'] = mockPlainApiKey;
+    mockedApiKeyService.authenticate.mockResolvedValue({ id: 3, name: 'reporting-bot', tier: 'pro' });
+
+
+    await authenticateApiKey(req as Request, res, next);
+
+
+    expect(mockedApiKeyService.authenticate).toHaveBeenCalledWith(mockPlainApiKey);
+    expect(req.apiKey).toEqual({ id: 3, name: 'reporting-bot', tier: 'pro' });
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('should reject unknown or revoked keys with 401', async () => {
+
+    headers['x-api-key'] = mockPlainApiKey;
+    mockedApiKeyService.authenticate.mockResolvedValue(null);
+
+
+    await authenticateApiKey(req as Request, res, next);
+
+
+    const error = next.mock.calls[0][0] as AppError;
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.statusCode).toBe(401);
+    expect(error.message).toBe('Invalid or revoked API key');
+  });
+
+  it('should pass lookup errors to the error handler', async () => {
+
+    headers['x-api-key'] = mockPlainApiKey;
+    const dbError = new Error('Database error');
+    mockedApiKeyService.authenticate.mockRejectedValue(dbError);
+
+
+    await authenticateApiKey(req as Request, res, next);
+
+
+    expect(next).toHaveBeenCalledWith(dbError);
+  });
+});
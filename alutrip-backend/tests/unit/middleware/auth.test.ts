@@ -0,0 +1,93 @@
+import { Request, Response } from 'express';
+import { authenticate, requireAuth } from '../../../src/middleware/auth';
+import { AppError } from '../../../src/middleware/error-handler';
+import { authService } from '../../../src/services/auth.service';
+import { ErrorType } from '../../../src/types/api';
+import { mockUser } from '../../fixtures/auth.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/models/users.model');
+jest.mock('../../../src/config/logger');
+
+describe('Auth middleware', () => {
+  let req: Partial<Request>;
+  const res = {} as Response;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    req = { headers: {} };
+    next = jest.fn();
+  });
+
+  describe('authenticate', () => {
+    it('should leave requests without a token anonymous', () => {
+
+      authenticate(req as Request, res, next);
+
+
+      expect(req.user).toBeUndefined();
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should attach the user of a valid bearer token', () => {
+
+      req.headers = { authorization: `Bearer ${authService.signToken(mockUser)}` };
+
+
+      authenticate(req as Request, res, next);
+
+
+      expect(req.user).toEqual({ id: mockUser.id, email: mockUser.email });
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should reject an invalid token', () => {
+
+      req.headers = { authorization: 'Bearer invalid.token.value' };
+
+
+      authenticate(req as Request, res, next);
+
+
+      const error = next.mock.calls[0][0] as AppError;
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(401);
+      expect(error.type).toBe(ErrorType.UNAUTHORIZED_ERROR);
+      expect(req.user).toBeUndefined();
+    });
+
+    it('should reject authorization schemes other than Bearer', () => {
+
+      req.headers = { authorization: 'Basic bWFyaWE6c2VjcmV0' };
+
+
+      authenticate(req as Request, res, next);
+
+
+      expect(next).toHaveBeenCalledWith(expect.any(AppError));
+    });
+  });
+
+  describe('requireAuth', () => {
+    it('should let authenticated requests through', () => {
+
+      req.user = { id: mockUser.id, email: mockUser.email };
+
+
+      requireAuth(req as Request, res, next);
+
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should reject anonymous requests with 401', () => {
+
+      requireAuth(req as Request, res, next);
+
+
+      const error = next.mock.calls[0][0] as AppError;
+      expect(error.statusCode).toBe(401);
+      expect(error.message).toBe('Authentication required');
+    });
+  });
+});
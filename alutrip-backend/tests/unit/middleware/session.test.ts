@@ -0,0 +1,94 @@
+import { Request, Response } from 'express';
+import { attachSession, getRequestSessionId } from '../../../src/middleware/session';
+import { sessionService } from '../../../src/services/session.service';
+import { logger } from '../../../src/config/logger';
+import { mockRequestSession } from '../../fixtures/session.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/services/session.service');
+jest.mock('../../../src/config/logger');
+
+const mockedSessionService = sessionService as jest.Mocked<typeof sessionService>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('Session middleware', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let headers: Record<string, string>;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    headers = {};
+    req = {
+      ip: '127.0.0.1',
+      get: jest.fn().mockImplementation((name: string) => headers[name])
+    } as Partial<Request>;
+    res = {
+      set: jest.fn().mockReturnThis()
+    } as Partial<Response>;
+    next = jest.fn();
+  });
+
+  describe('attachSession', () => {
+    it('should resume the session of a valid token', async () => {
+
+      headers['x-session-id'] = mockRequestSession.token;
+      mockedSessionService.resolveSession.mockResolvedValue(mockRequestSession);
+
+
+      await attachSession(req as Request, res as Response, next);
+
+
+      expect(mockedSessionService.resolveSession).toHaveBeenCalledWith(mockRequestSession.token);
+      expect(mockedSessionService.createSession).not.toHaveBeenCalled();
+      expect(req.session).toEqual(mockRequestSession);
+      expect(res.set).toHaveBeenCalledWith('X-Session-Id', mockRequestSession.token);
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should start a new session without a token', async () => {
+
+      mockedSessionService.createSession.mockResolvedValue(mockRequestSession);
+
+
+      await attachSession(req as Request, res as Response, next);
+
+
+      expect(mockedSessionService.resolveSession).not.toHaveBeenCalled();
+      expect(mockedSessionService.createSession).toHaveBeenCalledWith('127.0.0.1');
+      expect(getRequestSessionId(req as Request)).toBe(mockRequestSession.id);
+    });
+
+    it('should replace forged or expired tokens with a new session', async () => {
+
+      headers['x-session-id'] = 'client-chosen-id';
+      mockedSessionService.resolveSession.mockResolvedValue(null);
+      mockedSessionService.createSession.mockResolvedValue(mockRequestSession);
+
+
+      await attachSession(req as Request, res as Response, next);
+
+
+      expect(mockedSessionService.createSession).toHaveBeenCalled();
+      expect(res.set).toHaveBeenCalledWith('X-Session-Id', mockRequestSession.token);
+    });
+
+    it('should continue without a session when Redis is unavailable', async () => {
+
+      mockedSessionService.createSession.mockRejectedValue(new Error('Connection refused'));
+
+
+      await attachSession(req as Request, res as Response, next);
+
+
+      expect(req.session).toBeUndefined();
+      expect(res.set).not.toHaveBeenCalled();
+      expect(mockedLogger.warn).toHaveBeenCalledWith('Continuing without a session', {
+        error: 'Connection refused',
+        clientIp: '127.0.0.1'
+      });
+      expect(next).toHaveBeenCalledWith();
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { AIBudgetsModel } from '../../../src/models/ai-budgets.model';
+import { query } from '../../../src/config/database';
+import { logger } from '../../../src/config/logger';
+import { mockAIBudget, mockAIBudgetSpend } from '../../fixtures/ai-budget.fixtures';
+import { queryResult } from '../../fixtures/database.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/config/logger');
+
+const mockedQuery = query as jest.MockedFunction<typeof query>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('AIBudgetsModel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAllWithSpend', () => {
+    it('should sum the usage since the start of each period or the last reset', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([mockAIBudgetSpend]));
+
+
+      const result = await AIBudgetsModel.findAllWithSpend();
+
+
+      expect(result).toEqual([mockAIBudgetSpend]);
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('GREATEST(p.period_start, b.reset_at)'));
+    });
+
+    it('should log and rethrow database errors', async () => {
+
+      mockedQuery.mockRejectedValueOnce(new Error('Database error'));
+
+
+      await expect(AIBudgetsModel.findAllWithSpend()).rejects.toThrow('Database error');
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to get AI budget spend', {
+        error: 'Database error'
+      });
+    });
+  });
+
+  describe('upsert', () => {
+    it('should create the budget or change its limit', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([mockAIBudget], 'INSERT'));
+
+
+      const result = await AIBudgetsModel.upsert('provider', 'gemini', 'daily', 5);
+
+
+      expect(result).toEqual(mockAIBudget);
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('ON CONFLICT (scope, target, period)'),
+        ['provider', 'gemini', 'daily', 5]
+      );
+    });
+  });
+
+  describe('reset', () => {
+    it('should return null when the budget does not exist', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([], 'UPDATE'));
+
+
+      const result = await AIBudgetsModel.reset(999);
+
+
+      expect(result).toBeNull();
+      expect(mockedLogger.info).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delete', () => {
+    it('should report whether the budget was deleted', async () => {
+
+      mockedQuery.mockResolvedValueOnce({ ...queryResult([], 'DELETE'), rowCount: 1 });
+
+
+      const result = await AIBudgetsModel.delete(1);
+
+
+      expect(result).toBe(true);
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM ai_budgets'), [1]);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { AIUsageModel } from '../../../src/models/ai-usage.model';
+import { query } from '../../../src/config/database';
+import { logger } from '../../../src/config/logger';
+import {
+  mockAIUsageDailySpend,
+  mockAIUsageModelSpend,
+  mockAIUsageRecord
+} from '../../fixtures/ai-usage.fixtures';
+import { queryResult } from '../../fixtures/database.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/config/logger');
+
+const mockedQuery = query as jest.MockedFunction<typeof query>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('AIUsageModel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('record', () => {
+    it('should insert the call', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([], 'INSERT'));
+
+
+      await AIUsageModel.record(mockAIUsageRecord);
+
+
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO ai_usage'), [
+        'travel_questions',
+        'gemini',
+        'gemini-2.5-flash',
+        120,
+        480,
+        600,
+        2300,
+        0.001236,
+        'session123'
+      ]);
+    });
+
+    it('should log and rethrow database errors', async () => {
+
+      mockedQuery.mockRejectedValueOnce(new Error('Database error'));
+
+
+      await expect(AIUsageModel.record({ ...mockAIUsageRecord, session_id: undefined }))
+        .rejects.toThrow('Database error');
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to record AI usage', {
+        error: 'Database error',
+        feature: 'travel_questions',
+        modelUsed: 'gemini'
+      });
+    });
+  });
+
+  describe('getSpendByModel', () => {
+    it('should pass missing filters as null', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult(mockAIUsageModelSpend));
+
+
+      const result = await AIUsageModel.getSpendByModel(30);
+
+
+      expect(result).toEqual(mockAIUsageModelSpend);
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('GROUP BY model_used, provider_model'), [
+        30,
+        null,
+        null
+      ]);
+    });
+  });
+
+  describe('getSpendByFeature', () => {
+    it('should filter by provider', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([]));
+
+
+      await AIUsageModel.getSpendByFeature(7, 'groq');
+
+
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('GROUP BY feature'), [7, 'groq']);
+    });
+  });
+
+  describe('getDailySpend', () => {
+    it('should group the calls per day and feature', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult(mockAIUsageDailySpend));
+
+
+      const result = await AIUsageModel.getDailySpend(14, 'itineraries');
+
+
+      expect(result).toEqual(mockAIUsageDailySpend);
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('GROUP BY created_at::date, feature'), [
+        14,
+        'itineraries',
+        null
+      ]);
+    });
+
+    it('should log and rethrow database errors', async () => {
+
+      mockedQuery.mockRejectedValueOnce(new Error('Database error'));
+
+
+      await expect(AIUsageModel.getDailySpend(14)).rejects.toThrow('Database error');
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to get daily AI spend', {
+        error: 'Database error',
+        days: 14
+      });
+    });
+  });
+});
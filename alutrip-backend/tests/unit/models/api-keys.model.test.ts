@@ -0,0 +1,142 @@
+import { ApiKeysModel } from '../../../src/models/api-keys.model';
+import { query } from '../../../src/config/database';
+import { logger } from '../../../src/config/logger';
+import { mockApiKey, mockApiKeySummary } from '../../fixtures/api-key.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/config/logger');
+
+const mockedQuery = query as jest.MockedFunction<typeof query>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('ApiKeysModel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should insert the key hash without returning it', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [mockApiKeySummary],
+        rowCount: 1,
+        command: 'INSERT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ApiKeysModel.create('reporting-bot', 'pro', 'alu_Zk3q9XbT', mockApiKey.key_hash);
+
+
+      expect(result).toEqual(mockApiKeySummary);
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO api_keys'),
+        ['reporting-bot', 'pro', 'alu_Zk3q9XbT', mockApiKey.key_hash]
+      );
+      expect(mockedQuery.mock.calls[0]?.[0]).not.toMatch(/RETURNING \*/);
+    });
+
+    it('should log and rethrow database errors', async () => {
+
+      mockedQuery.mockRejectedValueOnce(new Error('Database error'));
+
+
+      await expect(ApiKeysModel.create('reporting-bot', 'pro', 'alu_Zk3q9XbT', mockApiKey.key_hash))
+        .rejects.toThrow('Database error');
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to create API key', {
+        error: 'Database error',
+        tier: 'pro'
+      });
+    });
+  });
+
+  describe('findActiveByHash', () => {
+    it('should only match keys that are not revoked', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [mockApiKey],
+        rowCount: 1,
+        command: 'SELECT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ApiKeysModel.findActiveByHash(mockApiKey.key_hash);
+
+
+      expect(result).toEqual(mockApiKey);
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('revoked_at IS NULL'),
+        [mockApiKey.key_hash]
+      );
+    });
+  });
+
+  describe('findById', () => {
+    it('should also find revoked keys', async () => {
+
+      const revoked = { ...mockApiKeySummary, revoked_at: new Date('2024-02-01T10:00:00Z') };
+      mockedQuery.mockResolvedValueOnce({
+        rows: [revoked],
+        rowCount: 1,
+        command: 'SELECT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ApiKeysModel.findById(3);
+
+
+      expect(result).toEqual(revoked);
+      expect(mockedQuery.mock.calls[0]?.[0]).not.toMatch(/revoked_at IS NULL/);
+      expect(mockedQuery.mock.calls[0]?.[1]).toEqual([3]);
+    });
+  });
+
+  describe('updateHash', () => {
+    it('should return null when the key is missing or revoked', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [],
+        rowCount: 0,
+        command: 'UPDATE',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ApiKeysModel.updateHash(3, 'alu_new12345', 'f'.repeat(64));
+
+
+      expect(result).toBeNull();
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('rotated_at = NOW()'),
+        [3, 'alu_new12345', 'f'.repeat(64)]
+      );
+    });
+  });
+
+  describe('revoke', () => {
+    it('should set revoked_at on an active key', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [{ ...mockApiKeySummary, revoked_at: new Date('2024-01-16T10:00:00Z') }],
+        rowCount: 1,
+        command: 'UPDATE',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ApiKeysModel.revoke(3);
+
+
+      expect(result?.revoked_at).toEqual(new Date('2024-01-16T10:00:00Z'));
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('SET revoked_at = NOW()'), [3]);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { ConversationsModel } from '../../../src/models/conversations.model';
+import { query } from '../../../src/config/database';
+import { logger } from '../../../src/config/logger';
+import { mockConversation } from '../../fixtures/chat.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/config/logger');
+
+const mockedQuery = query as jest.MockedFunction<typeof query>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('ConversationsModel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create a new conversation successfully', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [mockConversation],
+        rowCount: 1,
+        command: 'INSERT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ConversationsModel.create('session123', 1, mockConversation.title);
+
+
+      expect(result).toEqual(mockConversation);
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO conversations'),
+        ['session123', null, 1, mockConversation.title]
+      );
+      expect(mockedLogger.info).toHaveBeenCalledWith(
+        'Conversation created',
+        expect.objectContaining({ id: mockConversation.id })
+      );
+    });
+
+    it('should handle database errors', async () => {
+
+      mockedQuery.mockRejectedValueOnce(new Error('Database error'));
+
+      // Act & Assert
+      await expect(ConversationsModel.create('session123', 1)).rejects.toThrow('Database error');
+      expect(mockedLogger.error).toHaveBeenCalledWith(
+        'Failed to create conversation',
+        expect.objectContaining({ error: 'Database error' })
+      );
+    });
+  });
+
+  describe('findByInitialQuestionId', () => {
+    it('should return the conversation for a question', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [mockConversation],
+        rowCount: 1,
+        command: 'SELECT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ConversationsModel.findByInitialQuestionId(1, { sessionId: 'session123', userId: 7 });
+
+
+      expect(result).toEqual(mockConversation);
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('AND (user_id = $2 OR session_id = $3)'),
+        [1, 7, 'session123']
+      );
+    });
+
+    it('should return null when no conversation exists', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [],
+        rowCount: 0,
+        command: 'SELECT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ConversationsModel.findByInitialQuestionId(999, { sessionId: 'session123' });
+
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('delete', () => {
+    it('should return true when a conversation is deleted', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [],
+        rowCount: 1,
+        command: 'DELETE',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ConversationsModel.delete(10);
+
+
+      expect(result).toBe(true);
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('DELETE FROM conversations'),
+        [10]
+      );
+    });
+
+    it('should return false when nothing was deleted', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [],
+        rowCount: 0,
+        command: 'DELETE',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ConversationsModel.delete(999);
+
+
+      expect(result).toBe(false);
+    });
+  });
+});
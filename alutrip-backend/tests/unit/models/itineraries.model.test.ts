@@ -5,7 +5,8 @@ import {
   mockItineraryPending,
   mockItineraryCompleted,
   mockItinerariesList,
-  mockItineraryRequestData
+  mockItineraryRequestData,
+  mockStructuredItinerary
 } from '../../fixtures/itinerary.fixtures';
 
 // Mock dependencies
@@ -75,7 +76,8 @@ describe('ItinerariesModel', () => {
           expect.any(String), // JSON stringified request data
           '',
           'groq',
-          'pending'
+          'pending',
+          null
         ]
       );
       expect(mockedLogger.info).toHaveBeenCalledWith(
@@ -309,7 +311,7 @@ describe('ItinerariesModel', () => {
       }));
       expect(mockedQuery).toHaveBeenCalledWith(
         expect.stringContaining('UPDATE itineraries'),
-        [generatedContent, modelUsed, pdfFilename, pdfPath, id]
+        [generatedContent, modelUsed, pdfFilename, pdfPath, null, id, 0, 0, 0, 0]
       );
       expect(mockedLogger.info).toHaveBeenCalledWith(
         'Itinerary content updated',
@@ -322,6 +324,64 @@ describe('ItinerariesModel', () => {
       );
     });
 
+    it('should store structured content as JSON', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [{ ...mockItineraryCompleted, structured_content: mockStructuredItinerary }],
+        rowCount: 1,
+        command: 'UPDATE',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ItinerariesModel.updateContent(
+        1,
+        'raw content',
+        'groq',
+        'itinerary_paris_1.pdf',
+        '/path/to/pdf/itinerary_paris_1.pdf',
+        mockStructuredItinerary
+      );
+
+
+      expect(result?.structured_content).toEqual(mockStructuredItinerary);
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('structured_content = $5'),
+        ['raw content', 'groq', 'itinerary_paris_1.pdf', '/path/to/pdf/itinerary_paris_1.pdf',
+          JSON.stringify(mockStructuredItinerary), 1, 0, 0, 0, 0]
+      );
+    });
+
+    it('should add the usage of the AI calls to the itinerary totals', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [mockItineraryCompleted],
+        rowCount: 1,
+        command: 'UPDATE',
+        oid: 0,
+        fields: []
+      });
+
+
+      await ItinerariesModel.updateContent(
+        1,
+        'raw content',
+        'gemini',
+        'itinerary_paris_1.pdf',
+        '/path/to/pdf/itinerary_paris_1.pdf',
+        null,
+        { prompt_tokens: 1200, completion_tokens: 3400, latency_ms: 15000, cost_usd: 0.00886 }
+      );
+
+
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('cost_usd = cost_usd + $10'),
+        ['raw content', 'gemini', 'itinerary_paris_1.pdf', '/path/to/pdf/itinerary_paris_1.pdf',
+          null, 1, 1200, 3400, 15000, 0.00886]
+      );
+    });
+
     it('should handle database errors during content update', async () => {
 
       const dbError = new Error('Database connection error');
@@ -343,6 +403,73 @@ describe('ItinerariesModel', () => {
     });
   });
 
+  describe('updatePromptVersion', () => {
+    it('should record the prompt template version of the itinerary', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [],
+        rowCount: 1,
+        command: 'UPDATE',
+        oid: 0,
+        fields: []
+      });
+
+
+      await ItinerariesModel.updatePromptVersion(1, 3);
+
+
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('SET prompt_version = $1'), [3, 1]);
+    });
+
+    it('should log and rethrow database errors', async () => {
+
+      mockedQuery.mockRejectedValueOnce(new Error('Database error'));
+
+
+      await expect(ItinerariesModel.updatePromptVersion(1, 3)).rejects.toThrow('Database error');
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to update itinerary prompt version', {
+        error: 'Database error',
+        id: 1,
+        promptVersion: 3
+      });
+    });
+  });
+
+  describe('findBySessionId', () => {
+    it('should find the itineraries of a session and parse request data', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [{ ...mockItineraryPending, request_data: JSON.stringify(mockItineraryPending.request_data) }],
+        rowCount: 1,
+        command: 'SELECT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ItinerariesModel.findBySessionId('test-session');
+
+
+      expect(result).toEqual([mockItineraryPending]);
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE session_id = $1'),
+        ['test-session']
+      );
+    });
+
+    it('should handle database errors', async () => {
+
+      mockedQuery.mockRejectedValueOnce(new Error('Database error'));
+
+
+      await expect(ItinerariesModel.findBySessionId('test-session')).rejects.toThrow('Database error');
+      expect(mockedLogger.error).toHaveBeenCalledWith(
+        'Failed to find itineraries by session ID',
+        expect.objectContaining({ sessionId: 'test-session' })
+      );
+    });
+  });
+
   describe('findRecent', () => {
     it('should find recent itineraries with pagination', async () => {
 
@@ -0,0 +1,163 @@
+import { ItineraryRevisionsModel } from '../../../src/models/itinerary-revisions.model';
+import { query } from '../../../src/config/database';
+import { logger } from '../../../src/config/logger';
+import { mockItineraryRevision } from '../../fixtures/itinerary.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/config/logger');
+
+const mockedQuery = query as jest.MockedFunction<typeof query>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('ItineraryRevisionsModel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store the revision with the next revision number', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [mockItineraryRevision],
+        rowCount: 1,
+        command: 'INSERT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ItineraryRevisionsModel.create(
+        2,
+        1,
+        mockItineraryRevision.previous_day,
+        mockItineraryRevision.new_day,
+        'groq',
+        'Menos museus, mais parques'
+      );
+
+
+      expect(result).toEqual(mockItineraryRevision);
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('COALESCE(MAX(revision_number), 0) + 1'),
+        [
+          2,
+          1,
+          'Menos museus, mais parques',
+          JSON.stringify(mockItineraryRevision.previous_day),
+          JSON.stringify(mockItineraryRevision.new_day),
+          'groq'
+        ]
+      );
+    });
+
+    it('should store null feedback when none is given', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [{ ...mockItineraryRevision, feedback: null }],
+        rowCount: 1,
+        command: 'INSERT',
+        oid: 0,
+        fields: []
+      });
+
+
+      await ItineraryRevisionsModel.create(
+        2,
+        1,
+        mockItineraryRevision.previous_day,
+        mockItineraryRevision.new_day,
+        'groq'
+      );
+
+
+      expect(mockedQuery.mock.calls[0]![1]![2]).toBeNull();
+    });
+
+    it('should insert again when a concurrent edit took the revision number', async () => {
+
+      mockedQuery
+        .mockRejectedValueOnce(Object.assign(new Error('duplicate key value'), { code: '23505' }))
+        .mockResolvedValueOnce({
+          rows: [mockItineraryRevision],
+          rowCount: 1,
+          command: 'INSERT',
+          oid: 0,
+          fields: []
+        });
+
+
+      const result = await ItineraryRevisionsModel.create(
+        2,
+        1,
+        mockItineraryRevision.previous_day,
+        mockItineraryRevision.new_day,
+        'groq'
+      );
+
+
+      expect(result).toEqual(mockItineraryRevision);
+      expect(mockedQuery).toHaveBeenCalledTimes(2);
+      expect(mockedLogger.error).not.toHaveBeenCalled();
+    });
+
+    it('should give up after repeated revision number conflicts', async () => {
+      const conflict = Object.assign(new Error('duplicate key value'), { code: '23505' });
+      mockedQuery.mockRejectedValueOnce(conflict).mockRejectedValueOnce(conflict).mockRejectedValueOnce(conflict);
+
+      // Act & Assert
+      await expect(ItineraryRevisionsModel.create(
+        2,
+        1,
+        mockItineraryRevision.previous_day,
+        mockItineraryRevision.new_day,
+        'groq'
+      )).rejects.toThrow('duplicate key value');
+
+      expect(mockedQuery).toHaveBeenCalledTimes(3);
+      expect(mockedLogger.error).toHaveBeenCalledTimes(1);
+    });
+
+    it('should log and rethrow database errors', async () => {
+      mockedQuery.mockRejectedValueOnce(new Error('insert failed'));
+
+      // Act & Assert
+      await expect(ItineraryRevisionsModel.create(
+        2,
+        1,
+        mockItineraryRevision.previous_day,
+        mockItineraryRevision.new_day,
+        'groq'
+      )).rejects.toThrow('insert failed');
+
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to create itinerary revision', {
+        error: 'insert failed',
+        itineraryId: 2,
+        dayNumber: 1
+      });
+    });
+  });
+
+  describe('findByItineraryId', () => {
+    it('should return revisions newest first', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [mockItineraryRevision],
+        rowCount: 1,
+        command: 'SELECT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ItineraryRevisionsModel.findByItineraryId(2);
+
+
+      expect(result).toEqual([mockItineraryRevision]);
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('ORDER BY revision_number DESC'),
+        [2]
+      );
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { ItineraryVersionsModel } from '../../../src/models/itinerary-versions.model';
+import { query } from '../../../src/config/database';
+import { logger } from '../../../src/config/logger';
+import { mockItineraryVersion } from '../../fixtures/itinerary.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/config/logger');
+
+const mockedQuery = query as jest.MockedFunction<typeof query>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('ItineraryVersionsModel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store the version with the next version number', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [mockItineraryVersion],
+        rowCount: 1,
+        command: 'INSERT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ItineraryVersionsModel.create(
+        2,
+        'generation',
+        mockItineraryVersion.generated_content,
+        mockItineraryVersion.structured_content,
+        'groq',
+        mockItineraryVersion.prompt_parameters,
+        'itinerary.pdf',
+        '/app/pdfs/itinerary.pdf'
+      );
+
+
+      expect(result).toEqual(mockItineraryVersion);
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('COALESCE(MAX(version_number), 0) + 1'),
+        [
+          2,
+          'generation',
+          mockItineraryVersion.generated_content,
+          JSON.stringify(mockItineraryVersion.structured_content),
+          'itinerary.pdf',
+          '/app/pdfs/itinerary.pdf',
+          'groq',
+          JSON.stringify(mockItineraryVersion.prompt_parameters)
+        ]
+      );
+    });
+
+    it('should store null structured content and PDF for plain text versions', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [{ ...mockItineraryVersion, structured_content: null }],
+        rowCount: 1,
+        command: 'INSERT',
+        oid: 0,
+        fields: []
+      });
+
+
+      await ItineraryVersionsModel.create(2, 'generation', 'Roteiro em texto', null, 'groq', {
+        request_data: mockItineraryVersion.prompt_parameters.request_data
+      });
+
+
+      const params = mockedQuery.mock.calls[0]![1]!;
+      expect(params[3]).toBeNull();
+      expect(params[4]).toBeNull();
+      expect(params[5]).toBeNull();
+    });
+
+    it('should insert again when a concurrent save took the version number', async () => {
+
+      mockedQuery
+        .mockRejectedValueOnce(Object.assign(new Error('duplicate key value'), { code: '23505' }))
+        .mockResolvedValueOnce({
+          rows: [mockItineraryVersion],
+          rowCount: 1,
+          command: 'INSERT',
+          oid: 0,
+          fields: []
+        });
+
+
+      const result = await ItineraryVersionsModel.create(
+        2,
+        'day_regeneration',
+        mockItineraryVersion.generated_content,
+        mockItineraryVersion.structured_content,
+        'groq',
+        mockItineraryVersion.prompt_parameters
+      );
+
+
+      expect(result).toEqual(mockItineraryVersion);
+      expect(mockedQuery).toHaveBeenCalledTimes(2);
+      expect(mockedLogger.error).not.toHaveBeenCalled();
+    });
+
+    it('should give up after repeated version number conflicts', async () => {
+      const conflict = Object.assign(new Error('duplicate key value'), { code: '23505' });
+      mockedQuery.mockRejectedValueOnce(conflict).mockRejectedValueOnce(conflict).mockRejectedValueOnce(conflict);
+
+      // Act & Assert
+      await expect(ItineraryVersionsModel.create(
+        2,
+        'day_regeneration',
+        mockItineraryVersion.generated_content,
+        mockItineraryVersion.structured_content,
+        'groq',
+        mockItineraryVersion.prompt_parameters
+      )).rejects.toThrow('duplicate key value');
+
+      expect(mockedQuery).toHaveBeenCalledTimes(3);
+      expect(mockedLogger.error).toHaveBeenCalledTimes(1);
+    });
+
+    it('should log and rethrow database errors', async () => {
+      mockedQuery.mockRejectedValueOnce(new Error('insert failed'));
+
+      // Act & Assert
+      await expect(ItineraryVersionsModel.create(
+        2,
+        'restore',
+        mockItineraryVersion.generated_content,
+        mockItineraryVersion.structured_content,
+        'groq',
+        mockItineraryVersion.prompt_parameters
+      )).rejects.toThrow('insert failed');
+
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to create itinerary version', {
+        error: 'insert failed',
+        itineraryId: 2,
+        source: 'restore'
+      });
+    });
+  });
+
+  describe('findByItineraryId', () => {
+    it('should return versions without content, newest first', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [mockItineraryVersion],
+        rowCount: 1,
+        command: 'SELECT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ItineraryVersionsModel.findByItineraryId(2);
+
+
+      expect(result).toEqual([mockItineraryVersion]);
+      const [sql, params] = mockedQuery.mock.calls[0]!;
+      expect(sql).toContain('ORDER BY version_number DESC');
+      expect(sql).not.toContain('generated_content');
+      expect(params).toEqual([2]);
+    });
+  });
+
+  describe('findByVersion', () => {
+    it('should return null when the version does not exist', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [],
+        rowCount: 0,
+        command: 'SELECT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await ItineraryVersionsModel.findByVersion(2, 9);
+
+
+      expect(result).toBeNull();
+      expect(mockedQuery).toHaveBeenCalledWith(expect.any(String), [2, 9]);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { MessagesModel } from '../../../src/models/messages.model';
+import { query } from '../../../src/config/database';
+import {
+  mockConversationMessages,
+  mockFollowUpQuestionMessage
+} from '../../fixtures/chat.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/config/logger');
+
+const mockedQuery = query as jest.MockedFunction<typeof query>;
+
+describe('MessagesModel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create a conversation message', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [mockFollowUpQuestionMessage],
+        rowCount: 1,
+        command: 'INSERT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await MessagesModel.create(10, 'question', mockFollowUpQuestionMessage.content);
+
+
+      expect(result).toEqual(mockFollowUpQuestionMessage);
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO messages'),
+        [10, 'question', mockFollowUpQuestionMessage.content, undefined]
+      );
+    });
+  });
+
+  describe('findByConversationId', () => {
+    it('should return messages in chronological order', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: mockConversationMessages,
+        rowCount: 2,
+        command: 'SELECT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await MessagesModel.findByConversationId(10);
+
+
+      expect(result).toEqual(mockConversationMessages);
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('ORDER BY created_at ASC'),
+        [10]
+      );
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { PromptTemplatesModel } from '../../../src/models/prompt-templates.model';
+import { query } from '../../../src/config/database';
+import { logger } from '../../../src/config/logger';
+import {
+  mockItineraryPromptTemplate,
+  mockPromptTemplateStats,
+  mockTravelPromptTemplate
+} from '../../fixtures/prompt-template.fixtures';
+import { queryResult } from '../../fixtures/database.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/config/logger');
+
+const mockedQuery = query as jest.MockedFunction<typeof query>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('PromptTemplatesModel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store the next version of the feature and locale', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([mockTravelPromptTemplate], 'INSERT'));
+
+
+      const result = await PromptTemplatesModel.create(
+        'travel_questions',
+        'en',
+        mockTravelPromptTemplate.system_prompt,
+        mockTravelPromptTemplate.user_prompt,
+        50,
+        'Shorter answers'
+      );
+
+
+      expect(result).toEqual(mockTravelPromptTemplate);
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('COALESCE(MAX(version), 0) + 1'),
+        [
+          'travel_questions',
+          'en',
+          mockTravelPromptTemplate.system_prompt,
+          mockTravelPromptTemplate.user_prompt,
+          50,
+          'Shorter answers'
+        ]
+      );
+      expect(mockedLogger.info).toHaveBeenCalledWith('Prompt template created', {
+        id: mockTravelPromptTemplate.id,
+        feature: 'travel_questions',
+        locale: 'en',
+        version: mockTravelPromptTemplate.version,
+        weight: 50
+      });
+    });
+
+    it('should log and rethrow database errors', async () => {
+
+      mockedQuery.mockRejectedValueOnce(new Error('Database error'));
+
+
+      await expect(PromptTemplatesModel.create('itineraries', 'es', 'system {{json_format}}', '{{trip_info}}', 0))
+        .rejects.toThrow('Database error');
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to create prompt template', {
+        error: 'Database error',
+        feature: 'itineraries',
+        locale: 'es'
+      });
+    });
+  });
+
+  describe('findActive', () => {
+    it('should only return versions with a weight', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([mockItineraryPromptTemplate]));
+
+
+      const result = await PromptTemplatesModel.findActive('itineraries', 'pt-BR');
+
+
+      expect(result).toEqual([mockItineraryPromptTemplate]);
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('weight > 0'), ['itineraries', 'pt-BR']);
+    });
+  });
+
+  describe('findByVersion', () => {
+    it('should return null for an unknown version', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([]));
+
+
+      const result = await PromptTemplatesModel.findByVersion('itineraries', 'pt-BR', 9);
+
+
+      expect(result).toBeNull();
+      expect(mockedQuery).toHaveBeenCalledWith(expect.any(String), ['itineraries', 'pt-BR', 9]);
+    });
+  });
+
+  describe('findAll', () => {
+    it('should pass missing filters as null', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([mockTravelPromptTemplate, mockItineraryPromptTemplate]));
+
+
+      const result = await PromptTemplatesModel.findAll({ locale: 'en' });
+
+
+      expect(result).toHaveLength(2);
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('ORDER BY feature, locale, version DESC'), [
+        null,
+        'en'
+      ]);
+    });
+  });
+
+  describe('updateWeight', () => {
+    it('should update the weight and return the version', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([{ ...mockTravelPromptTemplate, weight: 0 }], 'UPDATE'));
+
+
+      const result = await PromptTemplatesModel.updateWeight(mockTravelPromptTemplate.id, 0);
+
+
+      expect(result?.weight).toBe(0);
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('SET weight = $2'), [
+        mockTravelPromptTemplate.id,
+        0
+      ]);
+    });
+
+    it('should return null for an unknown version', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([], 'UPDATE'));
+
+
+      const result = await PromptTemplatesModel.updateWeight(99, 10);
+
+
+      expect(result).toBeNull();
+      expect(mockedLogger.info).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getItineraryStats', () => {
+    it('should count outcomes per locale and version', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult(mockPromptTemplateStats));
+
+
+      const result = await PromptTemplatesModel.getItineraryStats(30);
+
+
+      expect(result).toEqual(mockPromptTemplateStats);
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('FROM itineraries'), [30]);
+    });
+  });
+
+  describe('getTravelQuestionStats', () => {
+    it('should count answers followed up in a chat', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([]));
+
+
+      await PromptTemplatesModel.getTravelQuestionStats(7);
+
+
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('LEFT JOIN conversations'), [7]);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { RateLimitEventsModel } from '../../../src/models/rate-limit-events.model';
+import { query } from '../../../src/config/database';
+import { logger } from '../../../src/config/logger';
+import { mockRateLimitTopConsumer, mockRateLimitUsageTrend } from '../../fixtures/rate-limit.fixtures';
+import { queryResult } from '../../fixtures/database.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/config/logger');
+
+const mockedQuery = query as jest.MockedFunction<typeof query>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('RateLimitEventsModel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('record', () => {
+    it('should increment the counter of the outcome for today', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([], 'INSERT'));
+
+
+      await RateLimitEventsModel.record({ type: 'ip', ip: '203.0.113.7' }, 'travel_questions', 'blocked');
+
+
+      const [sql, params] = mockedQuery.mock.calls[0] ?? [];
+      expect(sql).toContain('ON CONFLICT (day, identity_type, identity, feature)');
+      expect(sql).toContain('blocked_count = rate_limit_events.blocked_count + 1');
+      expect(params).toEqual(['ip', '203.0.113.7', 'travel_questions']);
+    });
+
+    it('should store API keys by ID', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([], 'INSERT'));
+
+
+      await RateLimitEventsModel.record({ type: 'api_key', api_key_id: 3, tier: 'pro' }, 'itineraries', 'allowed');
+
+
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('allowed_count'),
+        ['api_key', '3', 'itineraries']
+      );
+    });
+
+    it('should log and rethrow database errors', async () => {
+
+      mockedQuery.mockRejectedValueOnce(new Error('Database error'));
+
+
+      await expect(RateLimitEventsModel.record({ type: 'ip', ip: '203.0.113.7' }, 'itineraries', 'refunded'))
+        .rejects.toThrow('Database error');
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to record rate limit event', {
+        error: 'Database error',
+        feature: 'itineraries',
+        outcome: 'refunded'
+      });
+    });
+  });
+
+  describe('getTopConsumers', () => {
+    it('should filter by feature when one is given', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([mockRateLimitTopConsumer]));
+
+
+      const result = await RateLimitEventsModel.getTopConsumers(7, 10, 'itineraries');
+
+
+      expect(result).toEqual([mockRateLimitTopConsumer]);
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('ORDER BY allowed DESC'), [7, 10, 'itineraries']);
+    });
+
+    it('should report on every feature by default', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([]));
+
+
+      await RateLimitEventsModel.getTopConsumers(30, 5);
+
+
+      expect(mockedQuery).toHaveBeenCalledWith(expect.any(String), [30, 5, null]);
+    });
+  });
+
+  describe('getBlockedPerDay', () => {
+    it('should leave out days without blocks', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([]));
+
+
+      await RateLimitEventsModel.getBlockedPerDay(30);
+
+
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('HAVING SUM(blocked_count) > 0'), [30, null]);
+    });
+  });
+
+  describe('getUsageTrends', () => {
+    it('should return the counts per day and feature', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([mockRateLimitUsageTrend]));
+
+
+      const result = await RateLimitEventsModel.getUsageTrends(30, 'travel_questions');
+
+
+      expect(result).toEqual([mockRateLimitUsageTrend]);
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('GROUP BY day, feature'), [30, 'travel_questions']);
+    });
+  });
+
+  describe('deleteOlderThan', () => {
+    it('should return the number of deleted rows', async () => {
+
+      mockedQuery.mockResolvedValueOnce({ ...queryResult([], 'DELETE'), rowCount: 4 });
+
+
+      const deleted = await RateLimitEventsModel.deleteOlderThan(90);
+
+
+      expect(deleted).toBe(4);
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM rate_limit_events'), [90]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { TravelQuestionEmbeddingsModel } from '../../../src/models/travel-question-embeddings.model';
+import { query } from '../../../src/config/database';
+import { logger } from '../../../src/config/logger';
+import { mockTravelQuestion } from '../../fixtures/travel.fixtures';
+import { queryResult } from '../../fixtures/database.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/config/logger');
+
+const mockedQuery = query as jest.MockedFunction<typeof query>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('TravelQuestionEmbeddingsModel', () => {
+  const embedding = [0.6, 0.8];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('save', () => {
+    it('should upsert the embedding of the question for the model', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([], 'INSERT'));
+
+
+      await TravelQuestionEmbeddingsModel.save(1, 'local-hash-512', embedding);
+
+
+      const [sql, params] = mockedQuery.mock.calls[0] ?? [];
+      expect(sql).toContain('ON CONFLICT (question_id, embedding_model)');
+      expect(params).toEqual([1, 'local-hash-512', embedding]);
+    });
+
+    it('should log and rethrow database errors', async () => {
+
+      mockedQuery.mockRejectedValueOnce(new Error('Database error'));
+
+
+      await expect(TravelQuestionEmbeddingsModel.save(1, 'local-hash-512', embedding)).rejects.toThrow('Database error');
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to save travel question embedding', {
+        error: 'Database error',
+        questionId: 1,
+        embeddingModel: 'local-hash-512'
+      });
+    });
+  });
+
+  describe('findByQuestionId', () => {
+    it('should return the stored embedding', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([{ embedding }]));
+
+
+      const result = await TravelQuestionEmbeddingsModel.findByQuestionId(1, 'local-hash-512');
+
+
+      expect(result).toEqual(embedding);
+      expect(mockedQuery).toHaveBeenCalledWith(expect.any(String), [1, 'local-hash-512']);
+    });
+
+    it('should return null when the question has no embedding for the model', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([]));
+
+
+      const result = await TravelQuestionEmbeddingsModel.findByQuestionId(1, 'gemini:text-embedding-004');
+
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('findSimilar', () => {
+    it('should filter by model, threshold and excluded question', async () => {
+
+      const similar = { ...mockTravelQuestion, id: 2, similarity: 0.9 };
+      mockedQuery.mockResolvedValueOnce(queryResult([similar]));
+
+
+      const result = await TravelQuestionEmbeddingsModel.findSimilar(embedding, 'local-hash-512', {
+        limit: 5,
+        minSimilarity: 0.5,
+        excludeQuestionId: 1
+      });
+
+
+      const [sql, params] = mockedQuery.mock.calls[0] ?? [];
+      expect(result).toEqual([similar]);
+      expect(sql).toContain('unnest(e.embedding, $1::real[])');
+      expect(sql).toContain('ORDER BY similarity DESC');
+      expect(params).toEqual([embedding, 'local-hash-512', 1, null, 0.5, 5, null]);
+    });
+
+    it('should only compare answers of the requested AI model and locale', async () => {
+
+      mockedQuery.mockResolvedValueOnce(queryResult([]));
+
+
+      await TravelQuestionEmbeddingsModel.findSimilar(embedding, 'local-hash-512', {
+        limit: 1,
+        minSimilarity: 0.92,
+        modelUsed: 'gemini',
+        locale: 'en'
+      });
+
+
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('tq.locale = $7'),
+        [embedding, 'local-hash-512', null, 'gemini', 0.92, 1, 'en']
+      );
+    });
+  });
+});
@@ -58,7 +58,14 @@ describe('TravelQuestionsModel', () => {
           clientIp,
           question,
           response,
-          modelUsed
+          modelUsed,
+          null,
+          'pt-BR',
+          0,
+          0,
+          0,
+          0,
+          0
         ]
       );
       expect(mockedLogger.info).toHaveBeenCalledWith(
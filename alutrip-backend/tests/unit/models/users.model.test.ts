@@ -0,0 +1,148 @@
+import { UsersModel } from '../../../src/models/users.model';
+import { query } from '../../../src/config/database';
+import { logger } from '../../../src/config/logger';
+import { mockUser } from '../../fixtures/auth.fixtures';
+
+// Mock dependencies
+jest.mock('../../../src/config/database');
+jest.mock('../../../src/config/logger');
+
+const mockedQuery = query as jest.MockedFunction<typeof query>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('UsersModel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should insert the user with the password hash', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [mockUser],
+        rowCount: 1,
+        command: 'INSERT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await UsersModel.create(mockUser.email, mockUser.password_hash, 'Maria');
+
+
+      expect(result).toEqual(mockUser);
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO users'),
+        [mockUser.email, mockUser.password_hash, 'Maria']
+      );
+    });
+
+    it('should store a null name when none is given', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [{ ...mockUser, name: null }],
+        rowCount: 1,
+        command: 'INSERT',
+        oid: 0,
+        fields: []
+      });
+
+
+      await UsersModel.create(mockUser.email, mockUser.password_hash);
+
+
+      expect(mockedQuery).toHaveBeenCalledWith(
+        expect.any(String),
+        [mockUser.email, mockUser.password_hash, null]
+      );
+    });
+
+    it('should log and rethrow database errors', async () => {
+
+      mockedQuery.mockRejectedValueOnce(new Error('duplicate key value'));
+
+
+      await expect(UsersModel.create(mockUser.email, mockUser.password_hash))
+        .rejects.toThrow('duplicate key value');
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to create user', {
+        error: 'duplicate key value'
+      });
+    });
+  });
+
+  describe('findByEmail', () => {
+    it('should return the user with the email', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [mockUser],
+        rowCount: 1,
+        command: 'SELECT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await UsersModel.findByEmail(mockUser.email);
+
+
+      expect(result).toEqual(mockUser);
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('WHERE email = $1'), [mockUser.email]);
+    });
+
+    it('should return null when no user has the email', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [],
+        rowCount: 0,
+        command: 'SELECT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await UsersModel.findByEmail('nobody@example.com');
+
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('findById', () => {
+    it('should return null for a missing user', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [],
+        rowCount: 0,
+        command: 'SELECT',
+        oid: 0,
+        fields: []
+      });
+
+
+      const result = await UsersModel.findById(999);
+
+
+      expect(result).toBeNull();
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('WHERE id = $1'), [999]);
+    });
+  });
+
+  describe('updateLastLogin', () => {
+    it('should set last_login_at to now', async () => {
+
+      mockedQuery.mockResolvedValueOnce({
+        rows: [],
+        rowCount: 1,
+        command: 'UPDATE',
+        oid: 0,
+        fields: []
+      });
+
+
+      await UsersModel.updateLastLogin(12);
+
+
+      expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('SET last_login_at = NOW()'), [12]);
+    });
+  });
+});
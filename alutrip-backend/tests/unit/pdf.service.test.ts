@@ -42,7 +42,8 @@ jest.mock('../../src/config/env', () => ({
   config: {
     PDF_STORAGE_PATH: './pdfs',
     PDF_TIMEOUT: 300000,
-    LOG_DIR: './logs'
+    LOG_DIR: './logs',
+    DEFAULT_LOCALE: 'pt-BR'
   }
 }));
 
@@ -58,6 +59,11 @@ import {
   invalidPDFPath,
   pdfGenerationErrors
 } from '../fixtures/pdf.fixtures';
+import {
+  mockMultiLegItineraryPending,
+  mockMultiLegStructuredItinerary,
+  mockStructuredItinerary
+} from '../fixtures/itinerary.fixtures';
 
 const mockedFs = (fs as any).promises as jest.Mocked<typeof fsPromisesMock>;
 const mockedPath = path as jest.Mocked<typeof path>;
@@ -313,6 +319,62 @@ Tarde: Museu do Louvre
     });
   });
 
+  describe('structured content', () => {
+    it('should render days, lodging and budget from structured data', async () => {
+      mockedFs.access.mockResolvedValue(undefined as any);
+      await PDFService.generateItineraryPDF(mockItinerary, 'raw text', mockStructuredItinerary);
+
+      const docDefinition = mockCreatePdfKitDocument.mock.calls[0][0];
+      const texts = docDefinition.content.map((section: any) => section.text);
+      const tables = docDefinition.content.filter((section: any) => section.table);
+
+      expect(texts).toEqual(expect.arrayContaining([
+        'Paris em 3 dias',
+        expect.stringMatching(/^Dia 1 - .*: Centro Histórico$/),
+        'Sugestões de Hospedagem',
+        'Orçamento Estimado',
+        '• Use o Paris Museum Pass'
+      ]));
+      expect(texts).not.toContain('raw text');
+      expect(tables).toHaveLength(3);
+      expect(tables[0].table.body).toHaveLength(3); // header + 2 activities
+      expect(tables[0].table.body[1][0].text).toBe('Manhã\n09:00 - 12:00');
+      expect(tables[1].table.body[1][1].text).toBe('Intermediária');
+      expect(tables[2].table.body[tables[2].table.body.length - 1][1].text).toBe('$1,050');
+    });
+
+    it('should render each leg as its own section opened by its transfer', async () => {
+      mockedFs.access.mockResolvedValue(undefined as any);
+      await PDFService.generateItineraryPDF(
+        mockMultiLegItineraryPending,
+        'raw text',
+        mockMultiLegStructuredItinerary
+      );
+
+      const docDefinition = mockCreatePdfKitDocument.mock.calls[0][0];
+      const texts = docDefinition.content.map((section: any) => section.text ?? section.stack?.[0]?.text);
+      const position = (pattern: RegExp) => texts.findIndex((text: unknown) => pattern.test(String(text)));
+
+      expect(position(/^Trecho 1: Lisboa/)).toBeLessThan(position(/^Dia 1 - /));
+      expect(position(/^Dia 2 - /)).toBeLessThan(position(/^Trecho 2: Porto/));
+      expect(position(/^Trecho 2: Porto/)).toBeLessThan(position(/^Deslocamento: Lisboa → Porto/));
+      expect(position(/^Deslocamento: Lisboa → Porto/)).toBeLessThan(position(/^Dia 3 - /));
+      expect(position(/^Trecho 3: Madrid/)).toBeLessThan(position(/^Deslocamento: Porto → Madrid/));
+      expect(position(/^Deslocamento: Porto → Madrid/)).toBeLessThan(position(/^Dia 4 - /));
+    });
+
+    it('should fall back to parsing the raw text without structured data', async () => {
+      mockedFs.access.mockResolvedValue(undefined as any);
+      await PDFService.generateItineraryPDF(mockItinerary, 'Dia 1: Paris', null);
+
+      const docDefinition = mockCreatePdfKitDocument.mock.calls[0][0];
+
+      expect(docDefinition.content).toEqual(expect.arrayContaining([
+        expect.objectContaining({ text: 'Dia 1: Paris', style: 'dayHeader' })
+      ]));
+    });
+  });
+
   describe('document definition structure', () => {
     it('should create proper document definition with all required sections', async () => {
       mockedFs.access.mockResolvedValue(undefined as any);
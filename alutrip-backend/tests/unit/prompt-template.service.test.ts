@@ -0,0 +1,176 @@
+import { PromptTemplateService } from '../../src/services/prompt-template.service';
+import { PromptTemplatesModel } from '../../src/models/prompt-templates.model';
+import { logger } from '../../src/config/logger';
+import {
+  mockItineraryPromptTemplate,
+  mockPromptTemplateStats,
+  mockTravelPromptTemplate
+} from '../fixtures/prompt-template.fixtures';
+
+// Mock dependencies
+jest.mock('../../src/models/prompt-templates.model');
+jest.mock('../../src/config/logger');
+
+const mockedPromptTemplatesModel = PromptTemplatesModel as jest.Mocked<typeof PromptTemplatesModel>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+// Versions 2 and 3 of the same template, receiving 75% and 25% of the requests
+const weightedTemplates = [
+  { ...mockTravelPromptTemplate, weight: 75 },
+  { ...mockTravelPromptTemplate, id: 5, version: 3, weight: 25 }
+];
+
+describe('PromptTemplateService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('assign', () => {
+    it('should pick versions in proportion to their weights', async () => {
+
+      mockedPromptTemplatesModel.findActive.mockResolvedValue(weightedTemplates);
+
+
+      const first = await new PromptTemplateService(() => 0.74).assign('travel_questions', 'en');
+      const second = await new PromptTemplateService(() => 0.75).assign('travel_questions', 'en');
+
+
+      expect(first?.version).toBe(2);
+      expect(second?.version).toBe(3);
+      expect(mockedPromptTemplatesModel.findActive).toHaveBeenCalledWith('travel_questions', 'en');
+    });
+
+    it('should use the built-in prompts without active versions', async () => {
+
+      mockedPromptTemplatesModel.findActive.mockResolvedValue([]);
+
+
+      const template = await new PromptTemplateService().assign('itineraries', 'pt-BR');
+
+
+      expect(template).toBeNull();
+    });
+
+    it('should keep the active versions in memory between requests', async () => {
+
+      const service = new PromptTemplateService(() => 0);
+      mockedPromptTemplatesModel.findActive.mockResolvedValue(weightedTemplates);
+
+
+      await service.assign('travel_questions', 'en');
+      await service.assign('travel_questions', 'en');
+
+
+      expect(mockedPromptTemplatesModel.findActive).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to the built-in prompts when the templates cannot be loaded', async () => {
+
+      mockedPromptTemplatesModel.findActive.mockRejectedValue(new Error('Database error'));
+
+
+      const template = await new PromptTemplateService().assign('travel_questions', 'en');
+
+
+      expect(template).toBeNull();
+      expect(mockedLogger.warn).toHaveBeenCalledWith(
+        'Failed to load prompt templates, using the built-in prompts',
+        { feature: 'travel_questions', locale: 'en', error: 'Database error' }
+      );
+    });
+  });
+
+  describe('getVersion', () => {
+    it('should load a version whatever its weight', async () => {
+
+      mockedPromptTemplatesModel.findByVersion.mockResolvedValue({ ...mockItineraryPromptTemplate, weight: 0 });
+
+
+      const template = await new PromptTemplateService().getVersion('itineraries', 'pt-BR', 3);
+
+
+      expect(template?.version).toBe(3);
+      expect(mockedPromptTemplatesModel.findByVersion).toHaveBeenCalledWith('itineraries', 'pt-BR', 3);
+    });
+
+    it('should not query the built-in version 0', async () => {
+
+      const template = await new PromptTemplateService().getVersion('itineraries', 'pt-BR', 0);
+
+
+      expect(template).toBeNull();
+      expect(mockedPromptTemplatesModel.findByVersion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('render', () => {
+    it('should replace known variables and keep unknown placeholders', () => {
+
+      const rendered = new PromptTemplateService().render(
+        'Question: {{question}} ({{ question }}) {{unknown}}',
+        { question: 'Best time to visit Lisbon?' }
+      );
+
+
+      expect(rendered).toBe('Question: Best time to visit Lisbon? (Best time to visit Lisbon?) {{unknown}}');
+    });
+  });
+
+  describe('create', () => {
+    it('should reload the active versions of the feature and locale after a new version', async () => {
+
+      const service = new PromptTemplateService(() => 0);
+      mockedPromptTemplatesModel.findActive.mockResolvedValue(weightedTemplates);
+      mockedPromptTemplatesModel.create.mockResolvedValue(mockTravelPromptTemplate);
+      await service.assign('travel_questions', 'en');
+
+
+      await service.create({
+        feature: 'travel_questions',
+        locale: 'en',
+        system_prompt: mockTravelPromptTemplate.system_prompt,
+        user_prompt: mockTravelPromptTemplate.user_prompt,
+        weight: 50
+      });
+      await service.assign('travel_questions', 'en');
+
+
+      expect(mockedPromptTemplatesModel.create).toHaveBeenCalledWith(
+        'travel_questions',
+        'en',
+        mockTravelPromptTemplate.system_prompt,
+        mockTravelPromptTemplate.user_prompt,
+        50,
+        undefined
+      );
+      expect(mockedPromptTemplatesModel.findActive).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('setWeight', () => {
+    it('should return null for an unknown version', async () => {
+
+      mockedPromptTemplatesModel.updateWeight.mockResolvedValue(null);
+
+
+      const template = await new PromptTemplateService().setWeight(99, 10);
+
+
+      expect(template).toBeNull();
+    });
+  });
+
+  describe('getReport', () => {
+    it('should report itinerary outcomes per version', async () => {
+
+      mockedPromptTemplatesModel.getItineraryStats.mockResolvedValue(mockPromptTemplateStats);
+
+
+      const report = await new PromptTemplateService().getReport('itineraries', 30);
+
+
+      expect(report).toEqual({ days: 30, feature: 'itineraries', rows: mockPromptTemplateStats });
+      expect(mockedPromptTemplatesModel.getTravelQuestionStats).not.toHaveBeenCalled();
+    });
+  });
+});
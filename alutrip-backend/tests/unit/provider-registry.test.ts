@@ -0,0 +1,182 @@
+import { AIProviderRegistry } from '../../src/services/providers/registry';
+import { MockProvider } from '../../src/services/providers/mock.provider';
+import { AIService } from '../../src/services/ai.service';
+import { AIGenerationRequest, AIProvider } from '../../src/types/ai';
+import { travelQuestions } from '../fixtures/ai.fixtures';
+
+// Mock dependencies
+jest.mock('groq-sdk');
+jest.mock('@google/generative-ai');
+jest.mock('../../src/config/env');
+jest.mock('../../src/config/logger');
+
+const buildProvider = (name: string, overrides: Partial<AIProvider> = {}): AIProvider => ({
+  name,
+  label: `${name} label`,
+  model: `${name}-model`,
+  isAvailable: jest.fn().mockReturnValue(true),
+  generate: jest.fn().mockResolvedValue({
+    content: `Answer from ${name}`,
+    token_usage: { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3 }
+  }),
+  healthCheck: jest.fn().mockResolvedValue(undefined),
+  ...overrides
+});
+
+describe('AIProviderRegistry', () => {
+  let registry: AIProviderRegistry;
+
+  beforeEach(() => {
+    registry = new AIProviderRegistry();
+  });
+
+  it('should register providers and keep registration order', () => {
+
+    registry.register(buildProvider('groq'));
+    registry.register(buildProvider('ollama'));
+
+
+    expect(registry.has('ollama')).toBe(true);
+    expect(registry.has('gemini')).toBe(false);
+    expect(registry.names()).toEqual(['groq', 'ollama']);
+    expect(registry.get('groq')?.model).toBe('groq-model');
+  });
+
+  it('should reject duplicate provider names', () => {
+
+    registry.register(buildProvider('groq'));
+
+
+    // Act & Assert
+    expect(() => registry.register(buildProvider('groq'))).toThrow('AI provider already registered: groq');
+  });
+
+  it('should reject names that cannot be stored in model_used', () => {
+
+    // Act & Assert
+    expect(() => registry.register(buildProvider('Not Valid'))).toThrow('Invalid AI provider name: Not Valid');
+    expect(() => registry.register(buildProvider('a'.repeat(101)))).toThrow('Invalid AI provider name');
+  });
+
+  it('should unregister providers', () => {
+
+    registry.register(buildProvider('groq'));
+
+
+    const removed = registry.unregister('groq');
+
+
+    expect(removed).toBe(true);
+    expect(registry.has('groq')).toBe(false);
+  });
+
+  it('should describe providers with their availability', () => {
+
+    registry.register(buildProvider('groq'));
+    registry.register(buildProvider('gemini', { isAvailable: jest.fn().mockReturnValue(false) }));
+
+
+    const info = registry.describe();
+
+
+    expect(info).toEqual([
+      { name: 'groq', label: 'groq label', model: 'groq-model', available: true },
+      { name: 'gemini', label: 'gemini label', model: 'gemini-model', available: false }
+    ]);
+  });
+});
+
+describe('MockProvider', () => {
+  const provider = new MockProvider();
+  const request: AIGenerationRequest = {
+    systemPrompt: 'You are a travel assistant',
+    messages: [{ role: 'user', content: 'What should I see in Lisbon?' }],
+    temperature: 0.7,
+    maxTokens: 2048
+  };
+
+  it('should answer deterministically', async () => {
+
+    const first = await provider.generate(request);
+    const second = await provider.generate(request);
+
+
+    expect(first).toEqual(second);
+    expect(first.content).toContain('Você perguntou: What should I see in Lisbon?');
+    expect(first.token_usage).toEqual({
+      prompt_tokens: 11,
+      completion_tokens: first.content.split(/\s+/).length,
+      total_tokens: 11 + first.content.split(/\s+/).length
+    });
+  });
+
+  it('should stream the same answer word by word', async () => {
+
+    const onToken = jest.fn();
+
+
+    const result = await provider.stream(request, onToken);
+
+
+    expect(onToken.mock.calls.length).toBeGreaterThan(1);
+    expect(onToken.mock.calls.map(call => call[0]).join('')).toBe(result.content);
+    expect(result).toEqual(await provider.generate(request));
+  });
+});
+
+describe('AIService with a custom registry', () => {
+  let registry: AIProviderRegistry;
+  let aiService: AIService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    registry = new AIProviderRegistry();
+    registry.register(new MockProvider());
+    aiService = new AIService(registry);
+  });
+
+  it('should route questions to the registered provider', async () => {
+
+    const result = await aiService.processQuestion(travelQuestions[0]!, 'mock');
+
+
+    expect(result.model_used).toBe('mock');
+    expect(result.content).toContain('Resposta simulada do AluTrip');
+  });
+
+  it('should answer in a single chunk when the provider cannot stream', async () => {
+
+    const provider = buildProvider('plain');
+    registry.register(provider);
+    const onToken = jest.fn();
+
+
+    const result = await aiService.streamQuestion(travelQuestions[0]!, 'plain', onToken);
+
+
+    expect(provider.generate).toHaveBeenCalled();
+    expect(onToken).toHaveBeenCalledTimes(1);
+    expect(onToken).toHaveBeenCalledWith('Answer from plain');
+    expect(result.model_used).toBe('plain');
+  });
+
+  it('should reject models that are not registered', async () => {
+
+    // Act & Assert
+    await expect(
+      aiService.processQuestion(travelQuestions[0]!, 'groq')
+    ).rejects.toThrow('Failed to process question with groq: Unsupported AI model: groq');
+  });
+
+  it('should list only registered providers', async () => {
+
+    const health = await aiService.healthCheck();
+
+
+    expect(aiService.listProviders()).toEqual([
+      { name: 'mock', label: 'Mock (Testes)', model: 'mock-echo', available: true }
+    ]);
+    expect(health).toEqual({ mock: { status: 'healthy' } });
+  });
+});
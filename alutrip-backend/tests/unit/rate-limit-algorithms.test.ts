@@ -0,0 +1,260 @@
+import {
+  createRateLimiter,
+  consumeRateLimit,
+  getRateLimitStatus,
+  refundRateLimitCharge,
+  refundRequestOnAIFailure
+} from '../../src/middleware/rate-limit';
+import { runRateLimitScript } from '../../src/config/rate-limit-scripts';
+import { decrementRateLimit } from '../../src/config/redis';
+import { RateLimitEventsModel } from '../../src/models/rate-limit-events.model';
+import { createRateLimitError } from '../../src/middleware/error-handler';
+import { logger } from '../../src/config/logger';
+import { createMockRequest, createMockResponse, createMockNext, mockRateLimitCharge } from '../fixtures/rate-limit.fixtures';
+
+// Travel questions use a sliding log and itineraries a token bucket, both refunding AI failures
+jest.mock('../../src/config/env', () => ({
+  config: {
+    ...jest.requireActual('../../src/config/env').config,
+    RATE_LIMIT_WINDOW: 86400000,
+    RATE_LIMIT_REQUESTS: 5,
+    RATE_LIMIT_ALGORITHM_TRAVEL_QUESTIONS: 'sliding_log',
+    RATE_LIMIT_ALGORITHM_ITINERARIES: 'token_bucket',
+    RATE_LIMIT_REFUND_ON_AI_FAILURE: true
+  }
+}));
+jest.mock('../../src/config/rate-limit-scripts');
+jest.mock('../../src/config/redis');
+jest.mock('../../src/models/rate-limit-events.model');
+jest.mock('../../src/config/logger');
+jest.mock('../../src/middleware/error-handler');
+
+const mockedRunRateLimitScript = runRateLimitScript as jest.MockedFunction<typeof runRateLimitScript>;
+const mockedDecrementRateLimit = decrementRateLimit as jest.MockedFunction<typeof decrementRateLimit>;
+const mockedRecord = RateLimitEventsModel.record as jest.MockedFunction<typeof RateLimitEventsModel.record>;
+const mockedCreateRateLimitError = createRateLimitError as jest.MockedFunction<typeof createRateLimitError>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('Rate limit algorithms', () => {
+  const clientIp = '127.0.0.1';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedRecord.mockResolvedValue(undefined);
+
+    jest.spyOn(Date, 'now').mockReturnValue(new Date('2024-01-15T10:00:00.000Z').getTime());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('sliding log', () => {
+    it('should count the request with a log entry and keep it on the request', async () => {
+
+      const req = createMockRequest(clientIp) as any;
+      const res = createMockResponse();
+      const next = createMockNext();
+      mockedRunRateLimitScript.mockResolvedValue({ allowed: true, used: 3, resetMs: 3600000 });
+
+
+      await createRateLimiter('travel_questions')(req, res, next);
+
+
+      expect(mockedRunRateLimitScript).toHaveBeenCalledWith(
+        'sliding_log',
+        `rate_limit:travel_questions:sliding_log:${clientIp}`,
+        { limit: 5, windowMs: 86400000, cost: 1, entry: expect.stringMatching(/^1705312800000:/) }
+      );
+      expect(next).toHaveBeenCalledWith();
+      expect(req.rateLimitInfo).toEqual({
+        used: 3,
+        limit: 5,
+        remaining: 2,
+        reset_time: '2024-01-15T11:00:00.000Z'
+      });
+      expect(req.rateLimitCharge).toEqual(expect.objectContaining({
+        feature: 'travel_questions',
+        algorithm: 'sliding_log',
+        entry: expect.any(String)
+      }));
+    });
+
+    it('should reject the request once the log is full', async () => {
+
+      const req = createMockRequest(clientIp) as any;
+      const res = createMockResponse();
+      const next = createMockNext();
+      const rateLimitError = new Error('Rate limit exceeded');
+      mockedRunRateLimitScript.mockResolvedValue({ allowed: false, used: 5, resetMs: 60000 });
+      mockedCreateRateLimitError.mockReturnValue(rateLimitError as any);
+
+
+      await createRateLimiter('travel_questions')(req, res, next);
+
+
+      expect(mockedCreateRateLimitError).toHaveBeenCalledWith('travel_questions', 5, '2024-01-15T10:01:00.000Z');
+      expect(next).toHaveBeenCalledWith(rateLimitError);
+      expect(req.rateLimitCharge).toBeUndefined();
+      expect(res.headers['X-RateLimit-Remaining']).toBe('0');
+    });
+  });
+
+  describe('token bucket', () => {
+    it('should take a token without a log entry', async () => {
+
+      const req = createMockRequest(clientIp) as any;
+      mockedRunRateLimitScript.mockResolvedValue({ allowed: true, used: 1, resetMs: 17280000 });
+
+
+      const result = await consumeRateLimit(req, 'itineraries');
+
+
+      expect(mockedRunRateLimitScript).toHaveBeenCalledWith(
+        'token_bucket',
+        `rate_limit:itineraries:token_bucket:${clientIp}`,
+        expect.objectContaining({ limit: 5, cost: 1 })
+      );
+      expect(result.allowed).toBe(true);
+      expect(result.info.remaining).toBe(4);
+      expect(result.charge).toEqual({
+        feature: 'itineraries',
+        algorithm: 'token_bucket',
+        key: `rate_limit:itineraries:token_bucket:${clientIp}`,
+        limit: 5,
+        windowMs: 86400000,
+        identity: { type: 'ip', ip: clientIp }
+      });
+      expect(mockedRecord).toHaveBeenCalledWith({ type: 'ip', ip: clientIp }, 'itineraries', 'allowed');
+    });
+
+    it('should record a blocked request in the history', async () => {
+
+      const req = createMockRequest(clientIp) as any;
+      mockedRunRateLimitScript.mockResolvedValue({ allowed: false, used: 5, resetMs: 60000 });
+
+
+      await consumeRateLimit(req, 'itineraries');
+
+
+      expect(mockedRecord).toHaveBeenCalledWith({ type: 'ip', ip: clientIp }, 'itineraries', 'blocked');
+    });
+
+    it('should keep limiting and log when the history cannot be written', async () => {
+
+      const req = createMockRequest(clientIp) as any;
+      mockedRunRateLimitScript.mockResolvedValue({ allowed: true, used: 1, resetMs: 0 });
+      mockedRecord.mockRejectedValue(new Error('Database error'));
+
+
+      const result = await consumeRateLimit(req, 'itineraries');
+
+
+      expect(result.allowed).toBe(true);
+      expect(mockedLogger.warn).toHaveBeenCalledWith('Rate limit event missing from history', {
+        feature: 'itineraries',
+        outcome: 'allowed',
+        identity: { type: 'ip', ip: clientIp },
+        error: 'Database error'
+      });
+    });
+  });
+
+  describe('getRateLimitStatus', () => {
+    it('should read every feature without counting a request', async () => {
+
+      mockedRunRateLimitScript.mockResolvedValue({ allowed: false, used: 2, resetMs: 1000 });
+
+
+      const status = await getRateLimitStatus({ type: 'ip', ip: clientIp });
+
+
+      expect(mockedRunRateLimitScript).toHaveBeenCalledWith('sliding_log', expect.any(String), expect.objectContaining({ cost: 0 }));
+      expect(mockedRunRateLimitScript).toHaveBeenCalledWith('token_bucket', expect.any(String), expect.objectContaining({ cost: 0 }));
+      expect(status.limits.travel_questions.remaining).toBe(3);
+    });
+  });
+
+  describe('refunds', () => {
+    it('should remove the log entry of a request whose AI call failed, only once', async () => {
+
+      const req = createMockRequest(clientIp) as any;
+      mockedRunRateLimitScript.mockResolvedValue({ allowed: true, used: 1, resetMs: 0 });
+      await createRateLimiter('travel_questions')(req, createMockResponse(), createMockNext());
+      const { entry } = req.rateLimitCharge;
+      mockedRunRateLimitScript.mockClear();
+
+
+      await refundRequestOnAIFailure(req);
+      await refundRequestOnAIFailure(req);
+
+
+      expect(mockedRunRateLimitScript).toHaveBeenCalledTimes(1);
+      expect(mockedRunRateLimitScript).toHaveBeenCalledWith(
+        'sliding_log',
+        `rate_limit:travel_questions:sliding_log:${clientIp}`,
+        { limit: 5, windowMs: 86400000, cost: -1, entry }
+      );
+    });
+
+    it('should decrement fixed window counters', async () => {
+
+      await refundRateLimitCharge(mockRateLimitCharge);
+
+
+      expect(mockedDecrementRateLimit).toHaveBeenCalledWith(mockRateLimitCharge.key);
+      expect(mockedRunRateLimitScript).not.toHaveBeenCalled();
+      expect(mockedRecord).toHaveBeenCalledWith(mockRateLimitCharge.identity, 'itineraries', 'refunded');
+    });
+
+    it('should log refund failures instead of throwing', async () => {
+
+      mockedDecrementRateLimit.mockRejectedValue(new Error('Redis error'));
+
+
+      await refundRateLimitCharge(mockRateLimitCharge);
+
+
+      expect(mockedLogger.error).toHaveBeenCalledWith('Failed to refund rate limit', {
+        feature: 'itineraries',
+        key: mockRateLimitCharge.key,
+        error: 'Redis error'
+      });
+    });
+  });
+
+  describe('skipSuccessfulRequests', () => {
+    const runLimiter = async(statusCode: number) => {
+      const req = createMockRequest(clientIp) as any;
+      const res = createMockResponse();
+      let onFinish: () => void = () => undefined;
+      res.on = jest.fn().mockImplementation((_event: string, listener: () => void) => {
+        onFinish = listener;
+      });
+      mockedRunRateLimitScript.mockResolvedValue({ allowed: true, used: 1, resetMs: 0 });
+
+      await createRateLimiter('travel_questions', { skipSuccessfulRequests: true })(req, res, createMockNext());
+      mockedRunRateLimitScript.mockClear();
+
+      res.statusCode = statusCode;
+      onFinish();
+      await Promise.resolve();
+    };
+
+    it('should give successful requests back', async () => {
+
+      await runLimiter(200);
+
+
+      expect(mockedRunRateLimitScript).toHaveBeenCalledWith('sliding_log', expect.any(String), expect.objectContaining({ cost: -1 }));
+    });
+
+    it('should keep failed requests counted', async () => {
+
+      await runLimiter(500);
+
+
+      expect(mockedRunRateLimitScript).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -3,13 +3,19 @@ import {
   travelQuestionsRateLimit,
   itinerariesRateLimit,
   getRateLimitInfo,
+  getRateLimitKey,
+  getCallerRateLimitKey,
+  getRateLimitMax,
+  getRateLimitIdentity,
   getRateLimitStatus,
+  resetRateLimits,
   cleanupExpiredRateLimits
 } from '../../src/middleware/rate-limit';
 import { createRateLimitError } from '../../src/middleware/error-handler';
 import { config } from '../../src/config/env';
-import { incrementRateLimit, getRateLimit, getRateLimitTTL } from '../../src/config/redis';
+import { incrementRateLimit, getRateLimit, getRateLimitTTL, resetRateLimit } from '../../src/config/redis';
 import { logger } from '../../src/config/logger';
+import { RateLimitEventsModel } from '../../src/models/rate-limit-events.model';
 import {
   testClientIps,
   createMockRequest,
@@ -22,24 +28,29 @@ import {
 jest.mock('../../src/config/env');
 jest.mock('../../src/config/redis');
 jest.mock('../../src/config/logger');
+jest.mock('../../src/models/rate-limit-events.model');
 jest.mock('../../src/middleware/error-handler');
 
 const mockConfig = config as jest.Mocked<typeof config>;
 const mockedIncrementRateLimit = incrementRateLimit as jest.MockedFunction<typeof incrementRateLimit>;
 const mockedGetRateLimit = getRateLimit as jest.MockedFunction<typeof getRateLimit>;
 const mockedGetRateLimitTTL = getRateLimitTTL as jest.MockedFunction<typeof getRateLimitTTL>;
+const mockedResetRateLimit = resetRateLimit as jest.MockedFunction<typeof resetRateLimit>;
 const mockedLogger = logger as jest.Mocked<typeof logger>;
+const mockedRateLimitEventsModel = RateLimitEventsModel as jest.Mocked<typeof RateLimitEventsModel>;
 const mockedCreateRateLimitError = createRateLimitError as jest.MockedFunction<typeof createRateLimitError>;
 
 // Mock config values
 mockConfig.RATE_LIMIT_WINDOW = 86400000; // 24 hours
 mockConfig.RATE_LIMIT_REQUESTS = 5;
+mockConfig.RATE_LIMIT_HISTORY_RETENTION_DAYS = 90;
 
 describe('Rate Limit Middleware', () => {
   const clientIp = '127.0.0.1';
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockedRateLimitEventsModel.record.mockResolvedValue(undefined);
     
     // Mock current time - keep original Date.now functionality
     jest.spyOn(Date, 'now').mockReturnValue(new Date('2024-01-15T10:00:00.000Z').getTime());
@@ -117,7 +128,7 @@ describe('Rate Limit Middleware', () => {
       );
       expect(req.rateLimitInfo).toBeDefined();
       expect(mockedIncrementRateLimit).toHaveBeenCalledWith(
-        'rate_limit:travel_questions:127.0.0.1',
+        'rate_limit:travel_questions:fixed_window:127.0.0.1',
         86400000
       );
     });
@@ -167,9 +178,9 @@ describe('Rate Limit Middleware', () => {
       await itineraryRateLimiter(req, res, next);
 
 
-      expect(mockedGetRateLimit).toHaveBeenCalledWith('rate_limit:itineraries:127.0.0.1');
+      expect(mockedGetRateLimit).toHaveBeenCalledWith('rate_limit:itineraries:fixed_window:127.0.0.1');
       expect(mockedIncrementRateLimit).toHaveBeenCalledWith(
-        'rate_limit:itineraries:127.0.0.1',
+        'rate_limit:itineraries:fixed_window:127.0.0.1',
         86400000
       );
     });
@@ -186,7 +197,87 @@ describe('Rate Limit Middleware', () => {
       await rateLimiter(req, res, next);
 
 
-      expect(mockedGetRateLimit).toHaveBeenCalledWith('rate_limit:travel_questions:unknown');
+      expect(mockedGetRateLimit).toHaveBeenCalledWith('rate_limit:travel_questions:fixed_window:unknown');
+    });
+
+    it('should count requests with an API key per key using the tier quota', async () => {
+
+      req.apiKey = { id: 3, name: 'reporting-bot', tier: 'pro' };
+      mockedGetRateLimit.mockResolvedValue(120);
+      mockedGetRateLimitTTL.mockResolvedValue(3600);
+      mockedIncrementRateLimit.mockResolvedValue(121);
+      mockedGetRateLimit.mockResolvedValueOnce(120).mockResolvedValueOnce(121);
+
+
+      await rateLimiter(req, res, next);
+
+
+      expect(next).toHaveBeenCalledWith();
+      expect(mockedIncrementRateLimit).toHaveBeenCalledWith('rate_limit:travel_questions:fixed_window:key:3', 86400000);
+      expect(res.set).toHaveBeenCalledWith(
+        expectedRateLimitHeaders(
+          { used: 121, limit: 500, remaining: 379, reset_time: '2024-01-15T11:00:00.000Z' },
+          'travel_questions'
+        )
+      );
+    });
+
+    it('should block an API key that used up its tier quota', async () => {
+
+      req.apiKey = { id: 3, name: 'reporting-bot', tier: 'basic' };
+      mockedGetRateLimit.mockResolvedValue(50);
+      mockedGetRateLimitTTL.mockResolvedValue(3600);
+      mockedCreateRateLimitError.mockReturnValue(new Error('Rate limit exceeded') as any);
+
+
+      await rateLimiter(req, res, next);
+
+
+      expect(mockedIncrementRateLimit).not.toHaveBeenCalled();
+      expect(mockedCreateRateLimitError).toHaveBeenCalledWith(
+        'travel_questions',
+        50,
+        '2024-01-15T11:00:00.000Z'
+      );
+    });
+  });
+
+  describe('getRateLimitKey / getRateLimitMax', () => {
+    it('should use the IP and RATE_LIMIT_REQUESTS without an API key', () => {
+
+      const req = createMockRequest(clientIp) as any;
+
+
+      expect(getRateLimitKey(req, 'itineraries')).toBe('rate_limit:itineraries:fixed_window:127.0.0.1');
+      expect(getRateLimitMax(req, 'itineraries')).toBe(5);
+    });
+
+    it('should use the key and its tier quota with an API key', () => {
+
+      const req = createMockRequest(clientIp, { apiKey: { id: 7, name: 'ops', tier: 'internal' } }) as any;
+
+
+      expect(getRateLimitKey(req, 'itineraries')).toBe('rate_limit:itineraries:fixed_window:key:7');
+      expect(getRateLimitMax(req, 'itineraries')).toBe(1000);
+    });
+  });
+
+  describe('getCallerRateLimitKey', () => {
+    it('should count callers per API key, then per signed-in user, then per IP', () => {
+
+      const apiKeyReq = createMockRequest(clientIp, { apiKey: { id: 3, name: 'reporting-bot', tier: 'basic' } }) as any;
+      const userReq = createMockRequest(clientIp, { user: { id: 7, email: 'traveler@example.com' } }) as any;
+      const anonymousReq = createMockRequest(clientIp) as any;
+
+
+      const keys = [apiKeyReq, userReq, anonymousReq].map(req => getCallerRateLimitKey(req, 'itinerary_regenerations'));
+
+
+      expect(keys).toEqual([
+        'rate_limit:itinerary_regenerations:key:3',
+        'rate_limit:itinerary_regenerations:user:7',
+        `rate_limit:itinerary_regenerations:${clientIp}`
+      ]);
     });
   });
 
@@ -205,7 +296,7 @@ describe('Rate Limit Middleware', () => {
       await travelQuestionsRateLimit(req as any, res, next);
 
 
-      expect(mockedGetRateLimit).toHaveBeenCalledWith('rate_limit:travel_questions:127.0.0.1');
+      expect(mockedGetRateLimit).toHaveBeenCalledWith('rate_limit:travel_questions:fixed_window:127.0.0.1');
       expect(res.set).toHaveBeenCalledWith(
         expect.objectContaining({
           'X-RateLimit-Feature': 'travel_questions'
@@ -227,7 +318,7 @@ describe('Rate Limit Middleware', () => {
       await itinerariesRateLimit(req as any, res, next);
 
 
-      expect(mockedGetRateLimit).toHaveBeenCalledWith('rate_limit:itineraries:127.0.0.1');
+      expect(mockedGetRateLimit).toHaveBeenCalledWith('rate_limit:itineraries:fixed_window:127.0.0.1');
       expect(res.set).toHaveBeenCalledWith(
         expect.objectContaining({
           'X-RateLimit-Feature': 'itineraries'
@@ -247,11 +338,13 @@ describe('Rate Limit Middleware', () => {
         .mockResolvedValueOnce(3600);
 
 
-      const result = await getRateLimitStatus(clientIp);
+      const result = await getRateLimitStatus({ type: 'ip', ip: clientIp });
 
 
+      expect(mockedGetRateLimit).toHaveBeenCalledWith(`rate_limit:travel_questions:fixed_window:${clientIp}`);
+      expect(mockedGetRateLimit).toHaveBeenCalledWith(`rate_limit:itineraries:fixed_window:${clientIp}`);
       expect(result).toEqual({
-        ip: clientIp,
+        identity: { type: 'ip', ip: clientIp },
         limits: {
           travel_questions: {
             used: 3,
@@ -275,18 +368,88 @@ describe('Rate Limit Middleware', () => {
       mockedGetRateLimit.mockRejectedValue(redisError);
 
       // Act & Assert
-      await expect(getRateLimitStatus(clientIp)).rejects.toThrow('Redis error');
+      await expect(getRateLimitStatus({ type: 'ip', ip: clientIp })).rejects.toThrow('Redis error');
+    });
+
+    it('should use the counters and tier quotas of an API key', async () => {
+
+      mockedGetRateLimit.mockResolvedValue(10);
+      mockedGetRateLimitTTL.mockResolvedValue(3600);
+
+
+      const result = await getRateLimitStatus({ type: 'api_key', api_key_id: 3, tier: 'pro' });
+
+
+      expect(mockedGetRateLimit).toHaveBeenCalledWith('rate_limit:travel_questions:fixed_window:key:3');
+      expect(mockedGetRateLimit).toHaveBeenCalledWith('rate_limit:itineraries:fixed_window:key:3');
+      expect(result.limits.travel_questions).toEqual(expect.objectContaining({ limit: 500, remaining: 490 }));
+      expect(result.limits.itineraries).toEqual(expect.objectContaining({ limit: 100, remaining: 90 }));
+    });
+  });
+
+  describe('getRateLimitIdentity', () => {
+    it('should identify requests by IP without an API key', () => {
+
+      const req = createMockRequest(clientIp) as any;
+
+
+      expect(getRateLimitIdentity(req)).toEqual({ type: 'ip', ip: clientIp });
+    });
+
+    it('should identify requests by API key when one is attached', () => {
+
+      const req = createMockRequest(clientIp, { apiKey: { id: 7, name: 'ops', tier: 'internal' } }) as any;
+
+
+      expect(getRateLimitIdentity(req)).toEqual({ type: 'api_key', api_key_id: 7, tier: 'internal' });
+    });
+  });
+
+  describe('resetRateLimits', () => {
+    it('should clear the counters of every feature and algorithm', async () => {
+
+      mockedResetRateLimit.mockResolvedValue(undefined);
+
+
+      await resetRateLimits({ type: 'ip', ip: clientIp });
+
+
+      expect(mockedResetRateLimit.mock.calls.map(call => call[0])).toEqual([
+        `rate_limit:travel_questions:fixed_window:${clientIp}`,
+        `rate_limit:travel_questions:sliding_log:${clientIp}`,
+        `rate_limit:travel_questions:token_bucket:${clientIp}`,
+        `rate_limit:itineraries:fixed_window:${clientIp}`,
+        `rate_limit:itineraries:sliding_log:${clientIp}`,
+        `rate_limit:itineraries:token_bucket:${clientIp}`
+      ]);
+    });
+
+    it('should clear the counters of an API key', async () => {
+
+      mockedResetRateLimit.mockResolvedValue(undefined);
+
+
+      await resetRateLimits({ type: 'api_key', api_key_id: 3, tier: 'basic' });
+
+
+      expect(mockedResetRateLimit).toHaveBeenCalledTimes(6);
+      expect(mockedResetRateLimit).toHaveBeenCalledWith('rate_limit:travel_questions:fixed_window:key:3');
+      expect(mockedResetRateLimit).toHaveBeenCalledWith('rate_limit:itineraries:token_bucket:key:3');
     });
   });
 
   describe('cleanupExpiredRateLimits', () => {
-    it('should log cleanup operations', async () => {
+    it('should delete history older than the retention period', async () => {
+
+      mockedRateLimitEventsModel.deleteOlderThan.mockResolvedValue(12);
+
 
       await cleanupExpiredRateLimits();
 
 
+      expect(mockedRateLimitEventsModel.deleteOlderThan).toHaveBeenCalledWith(90);
       expect(mockedLogger.info).toHaveBeenCalledWith('Starting rate limit cleanup');
-      expect(mockedLogger.info).toHaveBeenCalledWith('Rate limit cleanup completed');
+      expect(mockedLogger.info).toHaveBeenCalledWith('Rate limit cleanup completed', { deleted: 12 });
     });
 
     it('should handle cleanup errors', async () => {
@@ -358,9 +521,9 @@ describe('Rate Limit Middleware', () => {
 
 
       testClientIps.forEach(ip => {
-        expect(mockedGetRateLimit).toHaveBeenCalledWith(`rate_limit:travel_questions:${ip}`);
+        expect(mockedGetRateLimit).toHaveBeenCalledWith(`rate_limit:travel_questions:fixed_window:${ip}`);
         expect(mockedIncrementRateLimit).toHaveBeenCalledWith(
-          `rate_limit:travel_questions:${ip}`,
+          `rate_limit:travel_questions:fixed_window:${ip}`,
           86400000
         );
       });
@@ -388,8 +551,8 @@ describe('Rate Limit Middleware', () => {
       await itineraryRateLimiter(req2 as any, res2, next2);
 
 
-      expect(mockedGetRateLimit).toHaveBeenCalledWith('rate_limit:travel_questions:127.0.0.1');
-      expect(mockedGetRateLimit).toHaveBeenCalledWith('rate_limit:itineraries:127.0.0.1');
+      expect(mockedGetRateLimit).toHaveBeenCalledWith('rate_limit:travel_questions:fixed_window:127.0.0.1');
+      expect(mockedGetRateLimit).toHaveBeenCalledWith('rate_limit:itineraries:fixed_window:127.0.0.1');
       expect(next1).toHaveBeenCalled();
       expect(next2).toHaveBeenCalled();
     });
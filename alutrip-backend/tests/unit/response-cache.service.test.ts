@@ -0,0 +1,133 @@
+import { ResponseCacheService } from '../../src/services/response-cache.service';
+import { deleteCachedValuesByPattern, getCachedValue, setCachedValue } from '../../src/config/redis';
+import { logger } from '../../src/config/logger';
+
+// Cache enabled for one day
+jest.mock('../../src/config/env', () => ({
+  config: {
+    ...jest.requireActual('../../src/config/env').config,
+    RESPONSE_CACHE_ENABLED: true,
+    RESPONSE_CACHE_TTL: 86400
+  }
+}));
+jest.mock('../../src/config/redis');
+jest.mock('../../src/config/logger');
+
+const mockedGetCachedValue = getCachedValue as jest.MockedFunction<typeof getCachedValue>;
+const mockedSetCachedValue = setCachedValue as jest.MockedFunction<typeof setCachedValue>;
+const mockedDeleteCachedValuesByPattern = deleteCachedValuesByPattern as jest.MockedFunction<typeof deleteCachedValuesByPattern>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('ResponseCacheService', () => {
+  let responseCacheService: ResponseCacheService;
+
+  beforeEach(() => {
+    responseCacheService = new ResponseCacheService();
+    jest.clearAllMocks();
+  });
+
+  describe('normalizeQuestion', () => {
+    it('should ignore case, accents, punctuation and spacing', () => {
+
+      const normalized = responseCacheService.normalizeQuestion('  Qual a MELHOR época para visitar   Lisboa?! ');
+
+
+      expect(normalized).toBe('qual a melhor epoca para visitar lisboa');
+    });
+  });
+
+  describe('getKey', () => {
+    it('should share a key between equivalent questions of the same model and locale', () => {
+
+      const key = responseCacheService.getKey('Best time to visit Lisbon?', 'groq');
+
+
+      expect(key).toMatch(/^response_cache:groq:pt-BR:[0-9a-f]{64}$/);
+      expect(responseCacheService.getKey('best time to visit  lisbon', 'groq', 'pt-BR')).toBe(key);
+      expect(responseCacheService.getKey('best time to visit lisbon', 'gemini')).not.toBe(key);
+      expect(responseCacheService.getKey('best time to visit lisbon', 'groq', 'en')).not.toBe(key);
+    });
+  });
+
+  describe('get', () => {
+    it('should return the cached answer', async () => {
+
+      const cached = { content: 'Spring.', model_used: 'groq', cached_at: '2024-01-15T10:00:00.000Z' };
+      mockedGetCachedValue.mockResolvedValue(JSON.stringify(cached));
+
+
+      const result = await responseCacheService.get('Best time to visit Lisbon?', 'groq');
+
+
+      expect(result).toEqual(cached);
+      expect(mockedGetCachedValue).toHaveBeenCalledWith(responseCacheService.getKey('Best time to visit Lisbon?', 'groq'));
+    });
+
+    it('should ignore entries that are not valid JSON', async () => {
+
+      mockedGetCachedValue.mockResolvedValue('not json');
+
+
+      const result = await responseCacheService.get('Best time to visit Lisbon?', 'groq');
+
+
+      expect(result).toBeNull();
+      expect(mockedLogger.warn).toHaveBeenCalledWith('Ignoring unreadable cached response', expect.any(Object));
+    });
+  });
+
+  describe('set', () => {
+    it('should store the answer under the model that produced it with the TTL', async () => {
+
+      await responseCacheService.set('Best time to visit Lisbon?', { content: 'Spring.', model_used: 'gemini' });
+
+
+      expect(mockedSetCachedValue).toHaveBeenCalledWith(
+        responseCacheService.getKey('Best time to visit Lisbon?', 'gemini'),
+        expect.stringContaining('"content":"Spring."'),
+        86400
+      );
+    });
+  });
+
+  describe('invalidate', () => {
+    it('should remove one question of one model in every locale', async () => {
+
+      mockedDeleteCachedValuesByPattern.mockResolvedValue(1);
+
+
+      const deleted = await responseCacheService.invalidate({ question: 'Best time to visit Lisbon?', model: 'groq' });
+
+
+      expect(deleted).toBe(1);
+      expect(mockedDeleteCachedValuesByPattern).toHaveBeenCalledWith(
+        expect.stringMatching(/^response_cache:groq:\*:[0-9a-f]{64}$/)
+      );
+    });
+
+    it('should remove a question for every model', async () => {
+
+      mockedDeleteCachedValuesByPattern.mockResolvedValue(2);
+
+
+      await responseCacheService.invalidate({ question: 'Best time to visit Lisbon?' });
+
+
+      expect(mockedDeleteCachedValuesByPattern).toHaveBeenCalledWith(
+        expect.stringMatching(/^response_cache:\*:\*:[0-9a-f]{64}$/)
+      );
+    });
+
+    it('should clear the whole cache without a filter', async () => {
+
+      mockedDeleteCachedValuesByPattern.mockResolvedValue(7);
+
+
+      const deleted = await responseCacheService.invalidate();
+
+
+      expect(deleted).toBe(7);
+      expect(mockedDeleteCachedValuesByPattern).toHaveBeenCalledWith('response_cache:*:*');
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { SessionService } from '../../src/services/session.service';
+import { redis } from '../../src/config/redis';
+import { config } from '../../src/config/env';
+import { mockSessionData } from '../fixtures/session.fixtures';
+
+// Mock dependencies
+jest.mock('../../src/config/redis', () => ({
+  redis: {
+    get: jest.fn(),
+    set: jest.fn()
+  }
+}));
+jest.mock('../../src/config/logger');
+
+const mockedRedis = redis as unknown as { get: jest.Mock; set: jest.Mock };
+
+describe('SessionService', () => {
+  let sessionService: SessionService;
+  const now = new Date('2024-01-15T11:00:00.000Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sessionService = new SessionService();
+  });
+
+  describe('createSession', () => {
+    it('should store the session in Redis with the session timeout', async () => {
+
+      mockedRedis.set.mockResolvedValue('OK');
+
+
+      const session = await sessionService.createSession('127.0.0.1', now);
+
+
+      expect(session.id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(session.token).toBe(sessionService.signToken(session.id));
+      expect(session.created_at).toBe(now.toISOString());
+      expect(session.expires_at).toBe(new Date(now.getTime() + config.SESSION_TIMEOUT).toISOString());
+      expect(mockedRedis.set).toHaveBeenCalledWith(
+        `session:${session.id}`,
+        JSON.stringify({
+          id: session.id,
+          client_ip: '127.0.0.1',
+          created_at: now.toISOString(),
+          last_seen_at: now.toISOString()
+        }),
+        'PX',
+        config.SESSION_TIMEOUT
+      );
+    });
+
+    it('should rethrow Redis errors', async () => {
+
+      mockedRedis.set.mockRejectedValue(new Error('Connection refused'));
+
+
+      await expect(sessionService.createSession('127.0.0.1')).rejects.toThrow('Connection refused');
+    });
+  });
+
+  describe('resolveSession', () => {
+    it('should load a stored session and extend its timeout', async () => {
+
+      mockedRedis.get.mockResolvedValue(JSON.stringify(mockSessionData));
+      mockedRedis.set.mockResolvedValue('OK');
+      const token = sessionService.signToken(mockSessionData.id);
+
+
+      const session = await sessionService.resolveSession(token, now);
+
+
+      expect(session).toEqual({
+        id: mockSessionData.id,
+        token,
+        created_at: mockSessionData.created_at,
+        expires_at: new Date(now.getTime() + config.SESSION_TIMEOUT).toISOString()
+      });
+      expect(mockedRedis.get).toHaveBeenCalledWith(`session:${mockSessionData.id}`);
+      expect(mockedRedis.set).toHaveBeenCalledWith(
+        `session:${mockSessionData.id}`,
+        JSON.stringify({ ...mockSessionData, last_seen_at: now.toISOString() }),
+        'PX',
+        config.SESSION_TIMEOUT
+      );
+    });
+
+    it('should return null for a session that expired', async () => {
+
+      mockedRedis.get.mockResolvedValue(null);
+
+
+      const session = await sessionService.resolveSession(sessionService.signToken(mockSessionData.id));
+
+
+      expect(session).toBeNull();
+      expect(mockedRedis.set).not.toHaveBeenCalled();
+    });
+
+    it('should not look up tokens with an invalid signature', async () => {
+
+      const session = await sessionService.resolveSession(`${mockSessionData.id}.forged-signature`);
+
+
+      expect(session).toBeNull();
+      expect(mockedRedis.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyToken', () => {
+    it('should return the session ID of a signed token', () => {
+      // Act & Assert
+      expect(sessionService.verifyToken(sessionService.signToken(mockSessionData.id))).toBe(mockSessionData.id);
+    });
+
+    it('should reject raw session IDs and malformed tokens', () => {
+      // Act & Assert
+      expect(sessionService.verifyToken(mockSessionData.id)).toBeNull();
+      expect(sessionService.verifyToken('any-client-value')).toBeNull();
+      expect(sessionService.verifyToken(`${sessionService.signToken(mockSessionData.id)}.extra`)).toBeNull();
+    });
+
+    it('should reject a signature copied onto another session ID', () => {
+
+      const [, signature] = sessionService.signToken(mockSessionData.id).split('.');
+
+
+      expect(sessionService.verifyToken(`00000000-0000-4000-8000-000000000000.${signature}`)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import { TopicClassifierService, createTopicClassifier } from '../../src/services/topic-classifier.service';
+import { KeywordTopicClassifier } from '../../src/services/classifiers/keyword.classifier';
+import { NaiveBayesTopicClassifier } from '../../src/services/classifiers/naive-bayes.classifier';
+import { LLMJudgeTopicClassifier } from '../../src/services/classifiers/llm-judge.classifier';
+import { AIProviderRegistry } from '../../src/services/providers/registry';
+import { logger } from '../../src/config/logger';
+import { AIProvider, TopicClassifier, TopicDecision } from '../../src/types/ai';
+import { travelQuestions, nonTravelQuestions } from '../fixtures/ai.fixtures';
+
+// The judge model is a fake provider registered in each test
+jest.mock('../../src/config/env', () => ({
+  config: {
+    ...jest.requireActual('../../src/config/env').config,
+    TOPIC_CLASSIFIER: 'llm',
+    TOPIC_LLM_JUDGE_ENABLED: false,
+    TOPIC_LLM_JUDGE_MODEL: 'judge',
+    TOPIC_LLM_JUDGE_THRESHOLD: 0.75
+  }
+}));
+jest.mock('../../src/config/logger');
+
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+const fakeClassifier = (decision: Omit<TopicDecision, 'classifier'>): jest.Mocked<TopicClassifier> => ({
+  name: 'naive_bayes',
+  isAvailable: jest.fn().mockReturnValue(true),
+  classify: jest.fn().mockResolvedValue({ ...decision, classifier: 'naive_bayes' })
+});
+
+const judgeProvider = (content: string): AIProvider => ({
+  name: 'judge',
+  label: 'Judge',
+  model: 'judge-model',
+  isAvailable: () => true,
+  generate: jest.fn().mockResolvedValue({
+    content,
+    token_usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+  }),
+  healthCheck: jest.fn()
+});
+
+describe('Topic classification', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('KeywordTopicClassifier', () => {
+    const classifier = new KeywordTopicClassifier();
+
+    it('should accept questions with travel keywords', async () => {
+
+      const decision = await classifier.classify('Best hotels in Tokyo');
+
+
+      expect(decision).toEqual(expect.objectContaining({ travel: true, classifier: 'keyword' }));
+      expect(decision.confidence).toBeGreaterThan(0.5);
+    });
+
+    it('should decline questions with only non-travel keywords', async () => {
+
+      const decision = await classifier.classify('How to fix my computer?');
+
+
+      expect(decision.travel).toBe(false);
+      expect(decision.reason).toContain('non-travel keywords without travel context');
+    });
+
+    it('should accept questions without keywords as a guess', async () => {
+
+      const decision = await classifier.classify('Zzyzx qwerty');
+
+
+      expect(decision).toEqual({
+        travel: true,
+        confidence: 0.5,
+        reason: 'No topic keywords, accepted by default',
+        classifier: 'keyword'
+      });
+    });
+  });
+
+  describe('NaiveBayesTopicClassifier', () => {
+    const classifier = new NaiveBayesTopicClassifier();
+
+    it('should classify the sample travel and non-travel questions', async () => {
+
+      const travelDecisions = await Promise.all(travelQuestions.map(question => classifier.classify(question)));
+      const otherDecisions = await Promise.all(nonTravelQuestions.map(question => classifier.classify(question)));
+
+
+      expect(travelDecisions.every(decision => decision.travel)).toBe(true);
+      expect(otherDecisions.every(decision => !decision.travel)).toBe(true);
+    });
+
+    it('should decline questions the keyword filter lets through', async () => {
+
+      const keywordDecision = await new KeywordTopicClassifier().classify('car insurance claim');
+      const decision = await classifier.classify('car insurance claim');
+
+
+      expect(keywordDecision.travel).toBe(true);
+      expect(decision.travel).toBe(false);
+      expect(decision.reason).toContain('Words most indicative of other topics');
+    });
+
+    it('should accept travel questions without travel keywords', async () => {
+
+      const decision = await classifier.classify('where to eat in Porto');
+
+
+      expect(decision.travel).toBe(true);
+      expect(decision.reason).toContain('porto');
+    });
+
+    it('should learn from the examples it is given', async () => {
+
+      const custom = new NaiveBayesTopicClassifier([
+        { text: 'fjord cruise', travel: true },
+        { text: 'tax return', travel: false }
+      ]);
+
+
+      const decision = await custom.classify('Norway fjord');
+
+
+      expect(decision.travel).toBe(true);
+      expect(decision.confidence).toBeGreaterThan(0.5);
+      expect(custom.isAvailable()).toBe(true);
+      expect(new NaiveBayesTopicClassifier([]).isAvailable()).toBe(false);
+    });
+  });
+
+  describe('LLMJudgeTopicClassifier', () => {
+    it('should parse the verdict of the judge model', async () => {
+
+      const registry = new AIProviderRegistry();
+      const provider = judgeProvider('{"travel": false, "confidence": 0.9, "reason": "Car insurance question"}');
+      registry.register(provider);
+
+
+      const decision = await new LLMJudgeTopicClassifier(registry).classify('car insurance claim');
+
+
+      expect(decision).toEqual({
+        travel: false,
+        confidence: 0.9,
+        reason: 'Car insurance question',
+        classifier: 'llm'
+      });
+      expect(provider.generate).toHaveBeenCalledWith(expect.objectContaining({
+        messages: [{ role: 'user', content: 'car insurance claim' }],
+        temperature: 0,
+        responseFormat: 'json'
+      }));
+    });
+
+    it('should reject malformed verdicts', async () => {
+
+      const registry = new AIProviderRegistry();
+      registry.register(judgeProvider('{"travel": "maybe"}'));
+
+
+      await expect(new LLMJudgeTopicClassifier(registry).classify('Paris')).rejects.toThrow();
+    });
+
+    it('should not be available without the judge model', () => {
+
+      const classifier = new LLMJudgeTopicClassifier(new AIProviderRegistry());
+
+
+      expect(classifier.isAvailable()).toBe(false);
+    });
+  });
+
+  describe('createTopicClassifier', () => {
+    it('should fall back to naive Bayes when the selected classifier is not available', () => {
+
+      const classifier = createTopicClassifier();
+
+
+      expect(classifier).toBeInstanceOf(NaiveBayesTopicClassifier);
+      expect(mockedLogger.warn).toHaveBeenCalledWith(
+        'Topic classifier is not available, using naive Bayes',
+        { classifier: 'llm' }
+      );
+    });
+  });
+
+  describe('TopicClassifierService', () => {
+    it('should log every decision with its confidence and reason', async () => {
+
+      const classifier = fakeClassifier({ travel: true, confidence: 0.91234, reason: 'Words most indicative of travel: paris' });
+      const service = new TopicClassifierService(classifier, null);
+
+
+      const decision = await service.classify('Where should I go in Paris?', 'session123');
+
+
+      expect(decision.travel).toBe(true);
+      expect(mockedLogger.info).toHaveBeenCalledWith('Topic classified', {
+        context: 'ai',
+        travel: true,
+        confidence: 0.912,
+        reason: 'Words most indicative of travel: paris',
+        classifier: 'naive_bayes',
+        question: 'Where should I go in Paris?',
+        sessionId: 'session123'
+      });
+    });
+
+    it('should decline questions that are too short without classifying them', async () => {
+
+      const classifier = fakeClassifier({ travel: true, confidence: 1, reason: 'unused' });
+      const service = new TopicClassifierService(classifier, null);
+
+
+      const decision = await service.classify(' hi ');
+
+
+      expect(decision).toEqual(expect.objectContaining({ travel: false, reason: 'Question too short' }));
+      expect(classifier.classify).not.toHaveBeenCalled();
+    });
+
+    it('should ask the judge about unsure decisions', async () => {
+
+      const classifier = fakeClassifier({ travel: true, confidence: 0.6, reason: 'Words most indicative of travel: car' });
+      const judge: jest.Mocked<TopicClassifier> = {
+        name: 'llm',
+        isAvailable: jest.fn().mockReturnValue(true),
+        classify: jest.fn().mockResolvedValue({
+          travel: false,
+          confidence: 0.95,
+          reason: 'Car insurance question',
+          classifier: 'llm'
+        })
+      };
+      const service = new TopicClassifierService(classifier, judge);
+
+
+      const decision = await service.classify('car insurance claim');
+
+
+      expect(decision.classifier).toBe('llm');
+      expect(decision.travel).toBe(false);
+    });
+
+    it('should not ask the judge about confident decisions', async () => {
+
+      const classifier = fakeClassifier({ travel: true, confidence: 0.9, reason: 'Words most indicative of travel: trip' });
+      const judge = fakeClassifier({ travel: false, confidence: 1, reason: 'unused' });
+      const service = new TopicClassifierService(classifier, judge);
+
+
+      await service.classify('Plan a trip to Rome');
+
+
+      expect(judge.classify).not.toHaveBeenCalled();
+    });
+
+    it('should keep the classifier decision when the judge fails', async () => {
+
+      const classifier = fakeClassifier({ travel: true, confidence: 0.55, reason: 'Prior of travel questions' });
+      const judge = fakeClassifier({ travel: false, confidence: 1, reason: 'unused' });
+      judge.classify.mockRejectedValue(new Error('Judge timeout'));
+      const service = new TopicClassifierService(classifier, judge);
+
+
+      const decision = await service.classify('Something vague');
+
+
+      expect(decision.classifier).toBe('naive_bayes');
+      expect(mockedLogger.warn).toHaveBeenCalledWith('Topic judge failed, keeping the classifier decision', {
+        context: 'ai',
+        classifier: 'naive_bayes',
+        error: 'Judge timeout'
+      });
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import { TravelService } from '../../src/services/travel.service';
 import { aiService } from '../../src/services/ai.service';
+import { embeddingService } from '../../src/services/embedding.service';
 import { TravelQuestionsModel } from '../../src/models/travel-questions.model';
+import { TravelQuestionEmbeddingsModel } from '../../src/models/travel-question-embeddings.model';
 import { travelQuestionsRateLimit } from '../../src/middleware/rate-limit';
 import { logger } from '../../src/config/logger';
 import {
@@ -13,25 +15,46 @@ import {
   mockModelHealth
 } from '../fixtures/travel.fixtures';
 
-// Mock dependencies
+// Mock dependencies; the semantic cache is enabled so lookups run on every question
+jest.mock('../../src/config/env', () => ({
+  config: {
+    ...jest.requireActual('../../src/config/env').config,
+    SEMANTIC_CACHE_ENABLED: true,
+    SEMANTIC_CACHE_MIN_SIMILARITY: 0.92,
+    RELATED_QUESTIONS_MIN_SIMILARITY: 0.5
+  }
+}));
 jest.mock('../../src/services/ai.service');
+jest.mock('../../src/services/embedding.service', () => ({
+  embeddingService: { modelName: 'local-hash-512', embed: jest.fn() }
+}));
 jest.mock('../../src/models/travel-questions.model');
+jest.mock('../../src/models/travel-question-embeddings.model');
 jest.mock('../../src/middleware/rate-limit');
 jest.mock('../../src/config/logger');
 
 const mockedAIService = aiService as jest.Mocked<typeof aiService>;
+const mockedEmbeddingService = embeddingService as jest.Mocked<typeof embeddingService>;
 const mockedTravelQuestionsModel = TravelQuestionsModel as jest.Mocked<typeof TravelQuestionsModel>;
+const mockedEmbeddingsModel = TravelQuestionEmbeddingsModel as jest.Mocked<typeof TravelQuestionEmbeddingsModel>;
 const mockedRateLimit = travelQuestionsRateLimit as jest.MockedFunction<typeof travelQuestionsRateLimit>;
 const mockedLogger = logger as jest.Mocked<typeof logger>;
 
+// Usage stored with mockAIServiceResponse
+const answerUsage = { prompt_tokens: 50, completion_tokens: 200, latency_ms: 1500, cost_usd: 0.0000185 };
+
 describe('TravelService', () => {
   let travelService: TravelService;
   const clientIp = '127.0.0.1';
   const sessionId = 'session123';
+  const embedding = [0.6, 0.8];
 
   beforeEach(() => {
     travelService = new TravelService();
     jest.clearAllMocks();
+    mockedEmbeddingService.embed.mockResolvedValue(embedding);
+    mockedEmbeddingsModel.findSimilar.mockResolvedValue([]);
+    mockedEmbeddingsModel.save.mockResolvedValue(undefined);
   });
 
   describe('askQuestion', () => {
@@ -45,18 +68,23 @@ describe('TravelService', () => {
       const result = await travelService.askQuestion(mockTravelQuestionRequest, clientIp, sessionId);
 
 
-      expect(result).toEqual(mockTravelQuestionResponse);
+      expect(result).toEqual({ ...mockTravelQuestionResponse, cached: false });
       expect(mockedAIService.processQuestion).toHaveBeenCalledWith(
         mockTravelQuestionRequest.question,
         mockTravelQuestionRequest.model,
-        sessionId
+        sessionId,
+        'pt-BR'
       );
       expect(mockedTravelQuestionsModel.create).toHaveBeenCalledWith(
         clientIp,
         mockTravelQuestionRequest.question,
         mockAIServiceResponse.content,
         mockTravelQuestionRequest.model,
-        sessionId
+        sessionId,
+        undefined,
+        'pt-BR',
+        undefined,
+        answerUsage
       );
       expect(mockedLogger.info).toHaveBeenCalledWith(
         'Processing travel question',
@@ -69,6 +97,143 @@ describe('TravelService', () => {
       );
     });
 
+    it('should mark answers served from the response cache', async () => {
+
+      mockedRateLimit.mockImplementation(async (_req, _res, next) => next());
+      mockedAIService.processQuestion.mockResolvedValue({ ...mockAIServiceResponse, cached: true });
+      mockedTravelQuestionsModel.create.mockResolvedValue(mockTravelQuestion);
+
+
+      const result = await travelService.askQuestion(mockTravelQuestionRequest, clientIp, sessionId);
+
+
+      expect(result.cached).toBe(true);
+      expect(mockedTravelQuestionsModel.create).toHaveBeenCalled();
+    });
+
+    it('should store the embedding of the new question', async () => {
+
+      mockedRateLimit.mockImplementation(async (_req, _res, next) => next());
+      mockedAIService.processQuestion.mockResolvedValue(mockAIServiceResponse);
+      mockedTravelQuestionsModel.create.mockResolvedValue(mockTravelQuestion);
+
+
+      await travelService.askQuestion(mockTravelQuestionRequest, clientIp, sessionId);
+
+
+      expect(mockedEmbeddingService.embed).toHaveBeenCalledWith(mockTravelQuestionRequest.question);
+      expect(mockedEmbeddingsModel.findSimilar).toHaveBeenCalledWith(embedding, 'local-hash-512', {
+        limit: 1,
+        minSimilarity: 0.92,
+        modelUsed: mockTravelQuestionRequest.model,
+        locale: 'pt-BR'
+      });
+      expect(mockedEmbeddingsModel.save).toHaveBeenCalledWith(mockTravelQuestion.id, 'local-hash-512', embedding);
+    });
+
+    it('should answer and store the question in the requested locale', async () => {
+
+      mockedRateLimit.mockImplementation(async (_req, _res, next) => next());
+      mockedAIService.processQuestion.mockResolvedValue(mockAIServiceResponse);
+      mockedTravelQuestionsModel.create.mockResolvedValue(mockTravelQuestion);
+
+
+      await travelService.askQuestion({ ...mockTravelQuestionRequest, locale: 'en' }, clientIp, sessionId);
+
+
+      expect(mockedEmbeddingsModel.findSimilar).toHaveBeenCalledWith(
+        embedding,
+        'local-hash-512',
+        expect.objectContaining({ locale: 'en' })
+      );
+      expect(mockedAIService.processQuestion).toHaveBeenCalledWith(
+        mockTravelQuestionRequest.question,
+        mockTravelQuestionRequest.model,
+        sessionId,
+        'en'
+      );
+      expect(mockedTravelQuestionsModel.create).toHaveBeenCalledWith(
+        clientIp,
+        mockTravelQuestionRequest.question,
+        mockAIServiceResponse.content,
+        mockTravelQuestionRequest.model,
+        sessionId,
+        undefined,
+        'en',
+        undefined,
+        answerUsage
+      );
+    });
+
+    it('should store the prompt template version of the answer', async () => {
+
+      mockedRateLimit.mockImplementation(async (_req, _res, next) => next());
+      mockedAIService.processQuestion.mockResolvedValue({ ...mockAIServiceResponse, prompt_version: 3 });
+      mockedTravelQuestionsModel.create.mockResolvedValue({ ...mockTravelQuestion, prompt_version: 3 });
+
+
+      await travelService.askQuestion(mockTravelQuestionRequest, clientIp, sessionId);
+
+
+      expect(mockedTravelQuestionsModel.create).toHaveBeenCalledWith(
+        clientIp,
+        mockTravelQuestionRequest.question,
+        mockAIServiceResponse.content,
+        mockTravelQuestionRequest.model,
+        sessionId,
+        undefined,
+        'pt-BR',
+        3,
+        answerUsage
+      );
+    });
+
+    it('should reuse the answer of a question with the same meaning', async () => {
+
+      const priorQuestion = { ...mockTravelQuestion, id: 42, question: 'Best places to visit in Paris?', similarity: 0.95 };
+      mockedRateLimit.mockImplementation(async (_req, _res, next) => next());
+      mockedEmbeddingsModel.findSimilar.mockResolvedValue([priorQuestion]);
+      mockedTravelQuestionsModel.create.mockResolvedValue(mockTravelQuestion);
+
+
+      const result = await travelService.askQuestion(mockTravelQuestionRequest, clientIp, sessionId);
+
+
+      expect(mockedAIService.processQuestion).not.toHaveBeenCalled();
+      expect(mockedTravelQuestionsModel.create).toHaveBeenCalledWith(
+        clientIp,
+        mockTravelQuestionRequest.question,
+        priorQuestion.response,
+        priorQuestion.model_used,
+        sessionId,
+        undefined,
+        'pt-BR',
+        priorQuestion.prompt_version,
+        { prompt_tokens: 0, completion_tokens: 0, latency_ms: 0, cost_usd: 0 }
+      );
+      expect(result.cached).toBe(true);
+      expect(result.similar_question_id).toBe(42);
+    });
+
+    it('should answer the question when the embedding cannot be computed', async () => {
+
+      mockedRateLimit.mockImplementation(async (_req, _res, next) => next());
+      mockedEmbeddingService.embed.mockRejectedValue(new Error('Embedding API down'));
+      mockedAIService.processQuestion.mockResolvedValue(mockAIServiceResponse);
+      mockedTravelQuestionsModel.create.mockResolvedValue(mockTravelQuestion);
+
+
+      const result = await travelService.askQuestion(mockTravelQuestionRequest, clientIp, sessionId);
+
+
+      expect(result).toEqual({ ...mockTravelQuestionResponse, cached: false });
+      expect(mockedEmbeddingsModel.findSimilar).not.toHaveBeenCalled();
+      expect(mockedEmbeddingsModel.save).not.toHaveBeenCalled();
+      expect(mockedLogger.warn).toHaveBeenCalledWith('Answering travel question without embedding', {
+        error: 'Embedding API down'
+      });
+    });
+
     it('should handle rate limit error', async () => {
 
       mockedRateLimit.mockImplementation(async (_req, res, _next) => {
@@ -118,6 +283,77 @@ describe('TravelService', () => {
     });
   });
 
+  describe('askQuestionStream', () => {
+    it('should stream the answer and store it once complete', async () => {
+
+      const onToken = jest.fn();
+      mockedRateLimit.mockImplementation(async (_req, _res, next) => next());
+      mockedAIService.streamQuestion.mockImplementation(async (_question, _model, handler) => {
+        handler('Paris ');
+        handler('awaits.');
+        return mockAIServiceResponse;
+      });
+      mockedTravelQuestionsModel.create.mockResolvedValue(mockTravelQuestion);
+
+
+      const result = await travelService.askQuestionStream(mockTravelQuestionRequest, clientIp, onToken, sessionId);
+
+
+      expect(result).toEqual({ ...mockTravelQuestionResponse, cached: false });
+      expect(onToken.mock.calls).toEqual([['Paris '], ['awaits.']]);
+      expect(mockedAIService.streamQuestion).toHaveBeenCalledWith(
+        mockTravelQuestionRequest.question,
+        mockTravelQuestionRequest.model,
+        onToken,
+        sessionId,
+        'pt-BR'
+      );
+      expect(mockedTravelQuestionsModel.create).toHaveBeenCalledWith(
+        clientIp,
+        mockTravelQuestionRequest.question,
+        mockAIServiceResponse.content,
+        mockTravelQuestionRequest.model,
+        sessionId,
+        undefined,
+        'pt-BR',
+        undefined,
+        answerUsage
+      );
+    });
+
+    it('should send a reused answer as a single token', async () => {
+
+      const onToken = jest.fn();
+      const priorQuestion = { ...mockTravelQuestion, id: 42, similarity: 0.97 };
+      mockedRateLimit.mockImplementation(async (_req, _res, next) => next());
+      mockedEmbeddingsModel.findSimilar.mockResolvedValue([priorQuestion]);
+      mockedTravelQuestionsModel.create.mockResolvedValue(mockTravelQuestion);
+
+
+      const result = await travelService.askQuestionStream(mockTravelQuestionRequest, clientIp, onToken, sessionId);
+
+
+      expect(onToken).toHaveBeenCalledTimes(1);
+      expect(onToken).toHaveBeenCalledWith(priorQuestion.response);
+      expect(mockedAIService.streamQuestion).not.toHaveBeenCalled();
+      expect(result.similar_question_id).toBe(42);
+    });
+
+    it('should not store anything when streaming fails', async () => {
+
+      const aiError = new Error('Stream interrupted') as Error & { provider: string };
+      aiError.provider = 'groq';
+      mockedRateLimit.mockImplementation(async (_req, _res, next) => next());
+      mockedAIService.streamQuestion.mockRejectedValue(aiError);
+
+      // Act & Assert
+      await expect(
+        travelService.askQuestionStream(mockTravelQuestionRequest, clientIp, jest.fn(), sessionId)
+      ).rejects.toThrow('AI service error: Stream interrupted');
+      expect(mockedTravelQuestionsModel.create).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getQuestionById', () => {
     it('should return a specific travel question', async () => {
 
@@ -160,6 +396,59 @@ describe('TravelService', () => {
     });
   });
 
+  describe('getRelatedQuestions', () => {
+    it('should return similar questions with rounded similarity', async () => {
+
+      const related = { ...mockTravelQuestion, id: 2, question: 'Top sights in Paris?', similarity: 0.812345 };
+      mockedTravelQuestionsModel.findById.mockResolvedValue(mockTravelQuestion);
+      mockedEmbeddingsModel.findByQuestionId.mockResolvedValue(embedding);
+      mockedEmbeddingsModel.findSimilar.mockResolvedValue([related]);
+
+
+      const result = await travelService.getRelatedQuestions(1, 3);
+
+
+      expect(result).toEqual([{
+        ...mockTravelQuestionResponse,
+        id: 2,
+        question: 'Top sights in Paris?',
+        similarity: 0.8123
+      }]);
+      expect(mockedEmbeddingsModel.findSimilar).toHaveBeenCalledWith(embedding, 'local-hash-512', {
+        limit: 3,
+        minSimilarity: 0.5,
+        excludeQuestionId: 1
+      });
+      expect(mockedEmbeddingService.embed).not.toHaveBeenCalled();
+    });
+
+    it('should embed questions asked before embeddings were stored', async () => {
+
+      mockedTravelQuestionsModel.findById.mockResolvedValue(mockTravelQuestion);
+      mockedEmbeddingsModel.findByQuestionId.mockResolvedValue(null);
+
+
+      const result = await travelService.getRelatedQuestions(1);
+
+
+      expect(result).toEqual([]);
+      expect(mockedEmbeddingService.embed).toHaveBeenCalledWith(mockTravelQuestion.question);
+      expect(mockedEmbeddingsModel.save).toHaveBeenCalledWith(1, 'local-hash-512', embedding);
+    });
+
+    it('should return null when question not found', async () => {
+
+      mockedTravelQuestionsModel.findById.mockResolvedValue(null);
+
+
+      const result = await travelService.getRelatedQuestions(999);
+
+
+      expect(result).toBeNull();
+      expect(mockedEmbeddingsModel.findSimilar).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getRecentQuestions', () => {
     it('should return recent questions with pagination', async () => {
 
@@ -270,6 +559,33 @@ describe('TravelService', () => {
       expect(mockedAIService.getModelInfo).toHaveBeenCalled();
     });
 
+    it('should report partial health when some models fail', async () => {
+
+      mockedAIService.healthCheck.mockResolvedValue({
+        groq: { status: 'healthy' as const },
+        gemini: { status: 'unhealthy' as const, error: 'API key invalid' },
+        mock: { status: 'healthy' as const }
+      });
+      mockedAIService.getModelInfo.mockReturnValue({
+        groq: { model: 'llama-3.1-8b-instant', available: true },
+        gemini: { model: 'gemini-1.5-pro', available: true },
+        mock: { model: 'mock-echo', available: true }
+      });
+
+
+      const result = await travelService.checkModelHealth();
+
+
+      expect(result.overall).toBe('partial');
+      expect(Object.keys(result.models)).toEqual(['groq', 'gemini', 'mock']);
+      expect(result.models['gemini']).toEqual({
+        status: 'unhealthy',
+        error: 'API key invalid',
+        model: 'gemini-1.5-pro',
+        available: true
+      });
+    });
+
     it('should handle health check failures', async () => {
 
       const healthError = new Error('Health check failed');
@@ -280,8 +596,7 @@ describe('TravelService', () => {
 
 
       expect(result.overall).toBe('unhealthy');
-      expect(result.groq.status).toBe('unhealthy');
-      expect(result.gemini.status).toBe('unhealthy');
+      expect(result.models).toEqual({});
       expect(mockedLogger.error).toHaveBeenCalledWith(
         'Failed to check model health',
         expect.objectContaining({
@@ -308,6 +623,16 @@ describe('TravelService', () => {
       expect(isGroqValid).toBe(true);
       expect(isGeminiValid).toBe(false);
     });
+
+    it('should reject models that are not registered', () => {
+
+      mockedAIService.getModelInfo.mockReturnValue({
+        groq: { model: 'llama-3.1-8b-instant', available: true }
+      });
+
+
+      expect(travelService.validateModel('unknown-model')).toBe(false);
+    });
   });
 
   describe('getPreferredModel', () => {
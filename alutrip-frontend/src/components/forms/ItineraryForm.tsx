@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { useForm, Controller } from 'react-hook-form'
+import { useForm, useFieldArray, Controller } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { differenceInDays } from 'date-fns'
@@ -9,10 +9,29 @@ import { Label } from '../ui/label'
 import { Checkbox } from '../ui/checkbox'
 import { DatePicker } from '../ui/date-picker'
 import { Alert, AlertDescription } from '../ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { StructuredItineraryView } from '../itinerary/StructuredItineraryView'
+import { ItineraryVersionsPanel } from '../itinerary/ItineraryVersionsPanel'
+import { RateLimitQuota } from './RateLimitQuota'
 import { apiClient } from '../../services/api'
-import { ItineraryFormData, INTEREST_OPTIONS } from '../../types/forms'
-import { Itinerary, RateLimitError } from '../../types/api'
-import { Loader2, MapPin, Calendar, DollarSign, Heart, Download } from 'lucide-react'
+import {
+  ItineraryFormData,
+  ItineraryStopFormData,
+  ModelOption,
+  INTEREST_OPTIONS,
+  MODEL_OPTIONS,
+  MAX_TRIP_DAYS,
+  MAX_TRIP_STOPS
+} from '../../types/forms'
+import {
+  Itinerary,
+  ItineraryJobStage,
+  ItineraryLeg,
+  ItineraryProgressEvent,
+  ItineraryRequest,
+  RateLimitError
+} from '../../types/api'
+import { Loader2, MapPin, Calendar, DollarSign, Heart, Download, Bot, Plus, Trash2 } from 'lucide-react'
 
 const itinerarySchema = z.object({
   destination: z.string()
@@ -24,23 +43,80 @@ const itinerarySchema = z.object({
   endDate: z.date({
     required_error: 'Data de fim é obrigatória'
   }),
+  stops: z.array(z.object({
+    destination: z.string()
+      .min(2, 'Destino deve ter pelo menos 2 caracteres')
+      .max(100, 'Destino deve ter no máximo 100 caracteres'),
+    endDate: z.date({
+      required_error: 'Data de saída é obrigatória'
+    })
+  })).max(MAX_TRIP_STOPS, `Máximo de ${MAX_TRIP_STOPS} destinos adicionais`).optional(),
   budget: z.number()
     .min(100, 'Orçamento mínimo é $100')
     .max(50000, 'Orçamento máximo é $50,000')
     .optional()
     .or(z.nan().transform(() => undefined)),
-  interests: z.array(z.string()).max(10, 'Máximo de 10 interesses').optional()
+  interests: z.array(z.string()).max(10, 'Máximo de 10 interesses').optional(),
+  model: z.string().optional()
 }).refine((data) => {
-  if (data.startDate && data.endDate) {
-    const diffDays = differenceInDays(data.endDate, data.startDate)
-    return diffDays >= 0 && diffDays <= 7
+  const lastDate = data.stops?.[data.stops.length - 1]?.endDate ?? data.endDate
+  if (data.startDate && lastDate) {
+    const diffDays = differenceInDays(lastDate, data.startDate)
+    return diffDays >= 0 && diffDays <= MAX_TRIP_DAYS
   }
   return true
 }, {
-  message: 'A viagem deve ter entre 1 e 7 dias',
+  message: `A viagem deve ter entre 1 e ${MAX_TRIP_DAYS} dias`,
   path: ['endDate']
+}).refine((data) => {
+  // Each stop starts when the previous destination ends
+  return (data.stops || []).every((stop, index, stops) => {
+    const previousEnd = index === 0 ? data.endDate : stops[index - 1]?.endDate
+    return !previousEnd || stop.endDate > previousEnd
+  })
+}, {
+  message: 'Cada destino deve terminar depois do anterior',
+  path: ['stops']
 })
 
+const formatDate = (date: Date) => date.toISOString().split('T')[0]
+
+// The first destination plus the stops become the legs of a multi-destination trip
+const buildLegs = (data: ItineraryFormData): ItineraryLeg[] => {
+  const legs: ItineraryLeg[] = [{
+    destination: data.destination,
+    start_date: formatDate(data.startDate),
+    end_date: formatDate(data.endDate)
+  }]
+
+  for (const stop of data.stops || []) {
+    legs.push({
+      destination: stop.destination,
+      start_date: legs[legs.length - 1].end_date,
+      end_date: formatDate(stop.endDate)
+    })
+  }
+
+  return legs
+}
+
+const STAGE_LABELS: Record<ItineraryJobStage, string> = {
+  queued: 'Aguardando na fila',
+  generating_content: 'Gerando seu roteiro',
+  generating_pdf: 'Gerando o PDF',
+  completed: 'Roteiro concluído',
+  failed: 'Falha na geração do roteiro'
+}
+
+const formatProgress = (event: ItineraryProgressEvent) => {
+  // Long trips are generated in several chunks
+  const chunks = event.total_chunks && event.total_chunks > 1 && event.stage === 'generating_content'
+    ? ` (parte ${event.completed_chunks} de ${event.total_chunks})`
+    : ''
+
+  return `${STAGE_LABELS[event.stage]}${chunks}... ${event.percent}%`
+}
+
 export function ItineraryForm() {
   const [isLoading, setIsLoading] = useState(false)
   const [itinerary, setItinerary] = useState<Itinerary | null>(null)
@@ -48,6 +124,10 @@ export function ItineraryForm() {
   const [rateLimitInfo, setRateLimitInfo] = useState<RateLimitError['rateLimitInfo'] | null>(null)
   const [processingStatus, setProcessingStatus] = useState<string | null>(null)
   const [currentTime, setCurrentTime] = useState(new Date())
+  const [modelOptions, setModelOptions] = useState<ModelOption[]>(MODEL_OPTIONS)
+  const [contentRevision, setContentRevision] = useState(0)
+  const [quotaRevision, setQuotaRevision] = useState(0)
+  const [followedItineraryId, setFollowedItineraryId] = useState<string | null>(null)
 
   const {
     register,
@@ -59,12 +139,34 @@ export function ItineraryForm() {
   } = useForm<ItineraryFormData>({
     resolver: zodResolver(itinerarySchema),
     defaultValues: {
-      interests: []
+      interests: [],
+      stops: []
     }
   })
 
+  const { fields: stopFields, append: appendStop, remove: removeStop } = useFieldArray({
+    control,
+    name: 'stops'
+  })
+
   const watchedInterests = watch('interests') || []
 
+  useEffect(() => {
+    apiClient.getModels()
+      .then((models) => {
+        if (models.length > 0) {
+          setModelOptions(models.map((model) => ({
+            value: model.name,
+            label: model.label,
+            available: model.available
+          })))
+        }
+      })
+      .catch((err) => {
+        console.error('Error loading AI models:', err)
+      })
+  }, [])
+
   useEffect(() => {
     if (!rateLimitInfo) return
 
@@ -82,24 +184,78 @@ export function ItineraryForm() {
     return () => clearInterval(interval)
   }, [rateLimitInfo])
 
+  useEffect(() => {
+    if (!followedItineraryId) return
+
+    const id = followedItineraryId
+
+    const handleCompleted = async () => {
+      try {
+        const details = await apiClient.getItinerary(id)
+        setItinerary(prev => prev ? {
+          ...prev,
+          status: 'completed',
+          pdf_url: details.pdf_available ? `/api/itinerary/${id}/download` : undefined,
+          structured_content: details.structured_content
+        } : null)
+        setProcessingStatus('Roteiro concluído! Clique para baixar o PDF.')
+      } catch (err) {
+        console.error('Error loading itinerary:', err)
+        setError('Erro ao carregar o roteiro')
+        setProcessingStatus(null)
+      }
+    }
+
+    const unsubscribe = apiClient.subscribeItineraryProgress(
+      id,
+      (event) => {
+        if (event.stage === 'completed') {
+          setFollowedItineraryId(null)
+          handleCompleted()
+        } else if (event.stage === 'failed') {
+          setFollowedItineraryId(null)
+          setItinerary(prev => prev ? { ...prev, status: 'failed' } : null)
+          setError(STAGE_LABELS.failed)
+          setProcessingStatus(null)
+        } else {
+          setProcessingStatus(formatProgress(event))
+        }
+      },
+      () => {
+        setFollowedItineraryId(null)
+        setError('Erro ao acompanhar o progresso do roteiro')
+        setProcessingStatus(null)
+      }
+    )
+
+    return unsubscribe
+  }, [followedItineraryId])
+
   const onSubmit = async (data: ItineraryFormData) => {
     setIsLoading(true)
     setError(null)
     setItinerary(null)
+    setFollowedItineraryId(null)
     setRateLimitInfo(null)
     setProcessingStatus('Enviando solicitação...')
 
     try {
-      const itineraryData: any = {
-        destination: data.destination,
-        start_date: data.startDate.toISOString().split('T')[0],
-        end_date: data.endDate.toISOString().split('T')[0],
-        interests: data.interests
-      }
+      const itineraryData: ItineraryRequest = data.stops && data.stops.length > 0
+        ? { legs: buildLegs(data), interests: data.interests }
+        : {
+          destination: data.destination,
+          start_date: formatDate(data.startDate),
+          end_date: formatDate(data.endDate),
+          interests: data.interests
+        }
       
       if (data.budget && !isNaN(data.budget)) {
         itineraryData.budget = data.budget
       }
+
+      if (data.model) {
+        itineraryData.model = data.model
+      }
       
       const result = await apiClient.createItinerary(itineraryData)
       
@@ -107,7 +263,7 @@ export function ItineraryForm() {
       setProcessingStatus('Roteiro criado com sucesso!')
       
       if (result.status === 'pending' || result.status === 'processing') {
-        pollItineraryStatus(result.id)
+        setFollowedItineraryId(result.id)
       }
       
       reset()
@@ -126,46 +282,10 @@ export function ItineraryForm() {
       setProcessingStatus(null)
     } finally {
       setIsLoading(false)
+      setQuotaRevision(prev => prev + 1)
     }
   }
 
-  const pollItineraryStatus = async (id: string) => {
-    const maxAttempts = 30
-    let attempts = 0
-
-    const poll = async () => {
-      try {
-        attempts++
-        setProcessingStatus(`Gerando seu roteiro... (${attempts}/${maxAttempts})`)
-        
-        const status = await apiClient.getItineraryStatus(id)
-        
-        if (status.status === 'completed') {
-          setItinerary(prev => prev ? { ...prev, status: 'completed', pdf_url: status.pdf_url } : null)
-          setProcessingStatus('Roteiro concluído! Clique para baixar o PDF.')
-          return
-        } else if (status.status === 'failed') {
-          setError(status.error_message || 'Falha na geração do roteiro')
-          setProcessingStatus(null)
-          return
-        }
-        
-        if (attempts < maxAttempts) {
-          setTimeout(poll, 10000)
-        } else {
-          setError('Timeout na geração do roteiro. Tente novamente.')
-          setProcessingStatus(null)
-        }
-      } catch (err) {
-        console.error('Error polling status:', err)
-        setError('Erro ao verificar status do roteiro')
-        setProcessingStatus(null)
-      }
-    }
-
-    poll()
-  }
-
   const handleDownload = async () => {
     if (!itinerary?.id) return
 
@@ -183,6 +303,41 @@ export function ItineraryForm() {
     }
   }
 
+  const handleRegenerateDay = async (day: number, feedback?: string) => {
+    if (!itinerary?.id) return
+
+    setError(null)
+    try {
+      const result = await apiClient.regenerateItineraryDay(itinerary.id, day, feedback)
+      setItinerary(prev => prev?.structured_content ? {
+        ...prev,
+        structured_content: {
+          ...prev.structured_content,
+          days: prev.structured_content.days.map((current) => current.day === day ? result.day : current)
+        }
+      } : prev)
+      setContentRevision(prev => prev + 1)
+      setProcessingStatus(`Dia ${day} atualizado! O PDF já inclui a nova versão.`)
+    } catch (err: any) {
+      console.error('Error regenerating itinerary day:', err)
+      if (apiClient.isRateLimitError(err)) {
+        setRateLimitInfo(err.rateLimitInfo)
+        setError(err.message)
+      } else {
+        setError(err.response?.data?.message || 'Erro ao refazer o dia. Tente novamente.')
+      }
+    }
+  }
+
+  const handleVersionRestored = async (version: number) => {
+    if (!itinerary?.id) return
+
+    const details = await apiClient.getItinerary(itinerary.id)
+    setItinerary(prev => prev ? { ...prev, structured_content: details.structured_content } : prev)
+    setContentRevision(prev => prev + 1)
+    setProcessingStatus(`Versão ${version} restaurada! O PDF foi atualizado.`)
+  }
+
   const handleInterestChange = (interest: string, checked: boolean) => {
     const currentInterests = watchedInterests
     if (checked) {
@@ -312,6 +467,72 @@ export function ItineraryForm() {
           </div>
         </div>
 
+        {stopFields.map((stop, index) => (
+          <div key={stop.id} className="grid grid-cols-[1fr_1fr_auto] items-start gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`stops.${index}.destination`} className="text-brand-normal-text flex items-center gap-2">
+                <MapPin className="h-4 w-4" />
+                Próximo destino
+              </Label>
+              <Input
+                id={`stops.${index}.destination`}
+                placeholder="Ex: Porto, Portugal"
+                {...register(`stops.${index}.destination`)}
+              />
+              {errors.stops?.[index]?.destination && (
+                <p className="text-sm text-destructive">{errors.stops[index]?.destination?.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-brand-normal-text flex items-center gap-2">
+                <Calendar className="h-4 w-4" />
+                Saída
+              </Label>
+              <Controller
+                name={`stops.${index}.endDate`}
+                control={control}
+                render={({ field }) => (
+                  <DatePicker
+                    date={field.value}
+                    onDateChange={field.onChange}
+                    placeholder="DD/MM/AAAA"
+                  />
+                )}
+              />
+              {errors.stops?.[index]?.endDate && (
+                <p className="text-sm text-destructive">{errors.stops[index]?.endDate?.message}</p>
+              )}
+            </div>
+
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="mt-7"
+              onClick={() => removeStop(index)}
+              aria-label="Remover destino"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        {errors.stops?.message && (
+          <p className="text-sm text-destructive">{errors.stops.message}</p>
+        )}
+
+        {stopFields.length < MAX_TRIP_STOPS && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => appendStop({ destination: '' } as ItineraryStopFormData)}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Adicionar destino
+          </Button>
+        )}
+
 
         <div className="space-y-2">
           <Label className="text-brand-normal-text flex items-center gap-2">
@@ -349,6 +570,33 @@ export function ItineraryForm() {
           )}
         </div>
 
+        <div className="space-y-2">
+          <Label htmlFor="model" className="text-brand-normal-text flex items-center gap-2">
+            <Bot className="h-4 w-4" />
+            Modelo de IA (opcional)
+          </Label>
+          <Controller
+            name="model"
+            control={control}
+            render={({ field }) => (
+              <Select value={field.value || ''} onValueChange={field.onChange}>
+                <SelectTrigger id="model">
+                  <SelectValue placeholder="Automático" />
+                </SelectTrigger>
+                <SelectContent>
+                  {modelOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value} disabled={option.available === false}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+        </div>
+
+        <RateLimitQuota feature="itineraries" label="roteiros" refreshKey={quotaRevision} />
+
         <Button 
           type="submit" 
           disabled={isLoading} 
@@ -399,12 +647,30 @@ export function ItineraryForm() {
           
           <div className="text-sm text-brand-normal-text space-y-1">
             <p>Período: {new Date(itinerary.start_date).toLocaleDateString('pt-BR')} - {new Date(itinerary.end_date).toLocaleDateString('pt-BR')}</p>
+            {itinerary.legs && itinerary.legs.length > 0 && (
+              <p>Trechos: {itinerary.legs.map((leg) => leg.destination).join(' → ')}</p>
+            )}
             {itinerary.budget && <p>Orçamento: ${itinerary.budget}</p>}
             {itinerary.interests && itinerary.interests.length > 0 && (
               <p>Interesses: {itinerary.interests.join(', ')}</p>
             )}
           </div>
 
+          {itinerary.structured_content && (
+            <StructuredItineraryView
+              itinerary={itinerary.structured_content}
+              onRegenerateDay={itinerary.status === 'completed' ? handleRegenerateDay : undefined}
+            />
+          )}
+
+          {itinerary.status === 'completed' && (
+            <ItineraryVersionsPanel
+              itineraryId={itinerary.id}
+              refreshKey={contentRevision}
+              onRestored={handleVersionRestored}
+            />
+          )}
+
           {itinerary.status === 'completed' && itinerary.pdf_url && (
             <Button onClick={handleDownload} className="w-full mt-4">
               <Download className="mr-2 h-4 w-4" />
@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react'
+import { Gauge } from 'lucide-react'
+import { apiClient } from '../../services/api'
+import { FeatureRateLimit, RateLimitFeature } from '../../types/api'
+
+const formatResetTime = (resetTime: string) => {
+  const totalMinutes = Math.max(1, Math.ceil((new Date(resetTime).getTime() - Date.now()) / (1000 * 60)))
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+
+  if (hours > 0) {
+    return minutes > 0 ? `${hours}h ${minutes}min` : `${hours}h`
+  }
+  return `${minutes}min`
+}
+
+interface RateLimitQuotaProps {
+  feature: RateLimitFeature
+  // Plural name of what is counted, e.g. "perguntas"
+  label: string
+  // Changes after each submission, so the quota is reloaded
+  refreshKey: number
+}
+
+export function RateLimitQuota({ feature, label, refreshKey }: RateLimitQuotaProps) {
+  const [quota, setQuota] = useState<FeatureRateLimit | null>(null)
+
+  useEffect(() => {
+    apiClient.getRateLimitStatus()
+      .then((status) => setQuota(status.limits[feature]))
+      .catch((err) => console.error('Error loading rate limits:', err))
+  }, [feature, refreshKey])
+
+  if (!quota) return null
+
+  if (quota.remaining <= 0) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-destructive">
+        <Gauge className="h-4 w-4" />
+        Você usou todas as {quota.limit} {label} disponíveis. O limite será resetado em {formatResetTime(quota.reset_time)}.
+      </p>
+    )
+  }
+
+  return (
+    <p className="flex items-center gap-2 text-sm text-brand-normal-text opacity-75">
+      <Gauge className="h-4 w-4" />
+      {quota.remaining} de {quota.limit} {label} disponíveis
+      {quota.used > 0 && ` · renova em ${formatResetTime(quota.reset_time)}`}
+    </p>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -7,8 +7,9 @@ import { Textarea } from '../ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
 import { Label } from '../ui/label'
 import { Alert, AlertDescription } from '../ui/alert'
+import { RateLimitQuota } from './RateLimitQuota'
 import { apiClient } from '../../services/api'
-import { TravelQuestionFormData, MODEL_OPTIONS } from '../../types/forms'
+import { TravelQuestionFormData, ModelOption, MODEL_OPTIONS } from '../../types/forms'
 import { TravelQuestionResponse, RateLimitError } from '../../types/api'
 import { Loader2, Send, RotateCcw } from 'lucide-react'
 
@@ -16,16 +17,19 @@ const travelQuestionSchema = z.object({
   question: z.string()
     .min(10, 'A pergunta deve ter pelo menos 10 caracteres')
     .max(1000, 'A pergunta deve ter no máximo 1000 caracteres'),
-  model: z.enum(['groq', 'gemini'], {
+  model: z.string({
     required_error: 'Selecione um modelo de IA'
-  })
+  }).min(1, 'Selecione um modelo de IA')
 })
 
 export function TravelQuestionForm() {
   const [isLoading, setIsLoading] = useState(false)
   const [response, setResponse] = useState<TravelQuestionResponse | null>(null)
+  const [streamingAnswer, setStreamingAnswer] = useState('')
   const [error, setError] = useState<string | null>(null)
   const [rateLimitInfo, setRateLimitInfo] = useState<RateLimitError['rateLimitInfo'] | null>(null)
+  const [modelOptions, setModelOptions] = useState<ModelOption[]>(MODEL_OPTIONS)
+  const [quotaRevision, setQuotaRevision] = useState(0)
 
   const {
     register,
@@ -40,17 +44,37 @@ export function TravelQuestionForm() {
 
   const watchedModel = watch('model')
 
+  useEffect(() => {
+    apiClient.getModels()
+      .then((models) => {
+        if (models.length > 0) {
+          setModelOptions(models.map((model) => ({
+            value: model.name,
+            label: model.label,
+            available: model.available
+          })))
+        }
+      })
+      .catch((err) => {
+        console.error('Error loading AI models:', err)
+      })
+  }, [])
+
   const onSubmit = async (data: TravelQuestionFormData) => {
     setIsLoading(true)
     setError(null)
     setResponse(null)
+    setStreamingAnswer('')
     setRateLimitInfo(null)
 
     try {
-      const result = await apiClient.submitTravelQuestion({
-        question: data.question,
-        model: data.model
-      })
+      const result = await apiClient.streamTravelQuestion(
+        {
+          question: data.question,
+          model: data.model
+        },
+        (token) => setStreamingAnswer((previous) => previous + token)
+      )
       
       setResponse(result)
       reset()
@@ -75,7 +99,9 @@ export function TravelQuestionForm() {
         setError('Erro ao enviar pergunta. Tente novamente.')
       }
     } finally {
+      setStreamingAnswer('')
       setIsLoading(false)
+      setQuotaRevision(prev => prev + 1)
     }
   }
 
@@ -138,14 +164,14 @@ export function TravelQuestionForm() {
           </Label>
           <Select 
             value={watchedModel || ''} 
-            onValueChange={(value) => setValue('model', value as 'groq' | 'gemini')}
+            onValueChange={(value) => setValue('model', value)}
           >
             <SelectTrigger>
               <SelectValue placeholder="Selecione o modelo de IA" />
             </SelectTrigger>
             <SelectContent>
-              {MODEL_OPTIONS.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
+              {modelOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value} disabled={option.available === false}>
                   {option.label}
                 </SelectItem>
               ))}
@@ -156,6 +182,8 @@ export function TravelQuestionForm() {
           )}
         </div>
 
+        <RateLimitQuota feature="travel_questions" label="perguntas" refreshKey={quotaRevision} />
+
         <Button 
           type="submit" 
           disabled={isLoading} 
@@ -175,7 +203,7 @@ export function TravelQuestionForm() {
         </Button>
       </form>
 
-      {isLoading && (
+      {isLoading && !streamingAnswer && (
         <div className="space-y-4 p-4 bg-brand-secondary-bg rounded-lg border border-brand-input-border animate-pulse">
           <div className="flex items-center gap-3">
             <Loader2 className="h-5 w-5 animate-spin text-brand-accent-text" />
@@ -197,6 +225,24 @@ export function TravelQuestionForm() {
         </div>
       )}
 
+      {isLoading && streamingAnswer && (
+        <div className="space-y-4 p-4 bg-brand-secondary-bg rounded-lg border border-brand-input-border">
+          <div className="flex items-center justify-between">
+            <h3 className="font-heading text-lg font-semibold text-brand-accent-text">
+              Resposta
+            </h3>
+            <span className="flex items-center gap-1 text-xs text-brand-normal-text opacity-75">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Gerando...
+            </span>
+          </div>
+          
+          <div className="text-brand-normal-text whitespace-pre-wrap">
+            {streamingAnswer}
+          </div>
+        </div>
+      )}
+
       {error && (
         <Alert variant="destructive">
           <AlertDescription>
@@ -218,6 +264,7 @@ export function TravelQuestionForm() {
             </h3>
             <span className="text-xs text-brand-normal-text opacity-75">
               Modelo: {response.model_used}
+              {response.cached && ' · resposta em cache'}
             </span>
           </div>
           
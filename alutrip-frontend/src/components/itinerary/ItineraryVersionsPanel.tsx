@@ -0,0 +1,170 @@
+import { useState, useEffect } from 'react'
+import { History, GitCompare, RotateCcw, Loader2 } from 'lucide-react'
+import { Button } from '../ui/button'
+import { apiClient } from '../../services/api'
+import { ItineraryVersionDiff, ItineraryVersionSource, ItineraryVersionSummary } from '../../types/api'
+
+const SOURCE_LABELS: Record<ItineraryVersionSource, string> = {
+  generation: 'Geração',
+  day_regeneration: 'Dia refeito',
+  restore: 'Restauração'
+}
+
+const DAY_STATUS_LABELS: Record<ItineraryVersionDiff['days'][number]['status'], string> = {
+  added: 'adicionado',
+  removed: 'removido',
+  changed: 'alterado',
+  unchanged: 'sem mudanças'
+}
+
+const describeVersion = (version: ItineraryVersionSummary) => {
+  const { day_number, feedback, restored_from } = version.prompt_parameters
+
+  if (version.source === 'day_regeneration') {
+    return `Dia ${day_number}${feedback ? `: "${feedback}"` : ''}`
+  }
+  if (version.source === 'restore') {
+    return `Versão ${restored_from} restaurada`
+  }
+  return 'Roteiro original'
+}
+
+interface ItineraryVersionsPanelProps {
+  itineraryId: string
+  // Changes whenever the itinerary content is rewritten, so the list is reloaded
+  refreshKey: number
+  onRestored: (version: number) => Promise<void>
+}
+
+export function ItineraryVersionsPanel({ itineraryId, refreshKey, onRestored }: ItineraryVersionsPanelProps) {
+  const [versions, setVersions] = useState<ItineraryVersionSummary[]>([])
+  const [diff, setDiff] = useState<ItineraryVersionDiff | null>(null)
+  const [busyVersion, setBusyVersion] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    apiClient.getItineraryVersions(itineraryId)
+      .then(setVersions)
+      .catch((err) => console.error('Error loading itinerary versions:', err))
+  }, [itineraryId, refreshKey])
+
+  const handleCompare = async (version: number) => {
+    setBusyVersion(version)
+    setError(null)
+    try {
+      setDiff(await apiClient.diffItineraryVersions(itineraryId, version - 1, version))
+    } catch (err: any) {
+      console.error('Error comparing itinerary versions:', err)
+      setError(err.response?.data?.message || 'Erro ao comparar versões.')
+    } finally {
+      setBusyVersion(null)
+    }
+  }
+
+  const handleRestore = async (version: number) => {
+    setBusyVersion(version)
+    setError(null)
+    try {
+      await apiClient.restoreItineraryVersion(itineraryId, version)
+      setDiff(null)
+      await onRestored(version)
+    } catch (err: any) {
+      console.error('Error restoring itinerary version:', err)
+      setError(err.response?.data?.message || 'Erro ao restaurar a versão.')
+    } finally {
+      setBusyVersion(null)
+    }
+  }
+
+  // A single version has nothing to compare or restore
+  if (versions.length < 2) return null
+
+  const latest = versions[0]?.version_number
+
+  return (
+    <div className="space-y-3 text-sm text-brand-normal-text">
+      <h4 className="flex items-center gap-2 font-heading font-semibold text-brand-accent-text">
+        <History className="h-4 w-4" />
+        Versões
+      </h4>
+      {error && <p className="text-red-600">{error}</p>}
+      <ul className="space-y-2">
+        {versions.map((version) => (
+          <li
+            key={version.version_number}
+            className="flex items-center justify-between gap-2 rounded-md border border-brand-input-border p-2"
+          >
+            <div>
+              <p className="font-medium">
+                v{version.version_number} · {SOURCE_LABELS[version.source]} · {version.model_used}
+              </p>
+              <p className="opacity-75">
+                {describeVersion(version)} · {new Date(version.created_at).toLocaleString('pt-BR')}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {version.version_number > 1 && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCompare(version.version_number)}
+                  disabled={busyVersion !== null}
+                >
+                  <GitCompare className="mr-1 h-4 w-4" />
+                  Comparar
+                </Button>
+              )}
+              {version.version_number !== latest && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRestore(version.version_number)}
+                  disabled={busyVersion !== null}
+                >
+                  {busyVersion === version.version_number ? (
+                    <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="mr-1 h-4 w-4" />
+                  )}
+                  Restaurar
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {diff && (
+        <div className="space-y-2 rounded-md border border-brand-input-border p-3">
+          <p className="font-medium text-brand-accent-text">
+            Mudanças da versão {diff.from_version} para a {diff.to_version}
+          </p>
+          {diff.changes.map((change) => (
+            <p key={change.field}>{change.field} alterado</p>
+          ))}
+          {diff.days.filter((day) => day.status !== 'unchanged').map((day) => (
+            <div key={day.day}>
+              <p className="font-medium">
+                Dia {day.day} {DAY_STATUS_LABELS[day.status]}
+                {day.title && `: ${day.title.from} → ${day.title.to}`}
+              </p>
+              {day.added_activities.map((activity) => (
+                <p key={`+${activity}`} className="text-green-700">+ {activity}</p>
+              ))}
+              {day.removed_activities.map((activity) => (
+                <p key={`-${activity}`} className="text-red-600">- {activity}</p>
+              ))}
+            </div>
+          ))}
+          {diff.text_changes.map((change, index) => (
+            <p key={index} className={change.type === 'added' ? 'text-green-700' : 'text-red-600'}>
+              {change.type === 'added' ? '+' : '-'} {change.line}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,206 @@
+import { useState } from 'react'
+import { Clock, MapPin, BedDouble, Wallet, Lightbulb, CloudRain, TrainFront, RefreshCw, Loader2 } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { ItineraryPeriod, LodgingCategory, StructuredItinerary, TransferMode } from '../../types/api'
+
+const PERIOD_LABELS: Record<ItineraryPeriod, string> = {
+  morning: 'Manhã',
+  lunch: 'Almoço',
+  afternoon: 'Tarde',
+  dinner: 'Jantar',
+  evening: 'Noite'
+}
+
+const LODGING_CATEGORY_LABELS: Record<LodgingCategory, string> = {
+  budget: 'Econômica',
+  mid_range: 'Intermediária',
+  luxury: 'Luxo'
+}
+
+const TRANSFER_MODE_LABELS: Record<TransferMode, string> = {
+  train: 'Trem',
+  bus: 'Ônibus',
+  flight: 'Voo',
+  car: 'Carro',
+  ferry: 'Balsa'
+}
+
+const formatUSD = (value: number) => `$${value.toLocaleString('en-US')}`
+
+interface StructuredItineraryViewProps {
+  itinerary: StructuredItinerary
+  // Rewrites a single day; the control is hidden when not provided
+  onRegenerateDay?: (day: number, feedback?: string) => Promise<void>
+}
+
+export function StructuredItineraryView({ itinerary, onRegenerateDay }: StructuredItineraryViewProps) {
+  const [feedbackByDay, setFeedbackByDay] = useState<Record<number, string>>({})
+  const [regeneratingDay, setRegeneratingDay] = useState<number | null>(null)
+  const { budget } = itinerary
+
+  const handleRegenerate = async (day: number) => {
+    if (!onRegenerateDay) return
+
+    setRegeneratingDay(day)
+    try {
+      await onRegenerateDay(day, feedbackByDay[day]?.trim() || undefined)
+      setFeedbackByDay((prev) => ({ ...prev, [day]: '' }))
+    } finally {
+      setRegeneratingDay(null)
+    }
+  }
+
+  const budgetRows: [string, number | undefined][] = [
+    ['Hospedagem', budget.lodging],
+    ['Alimentação', budget.food],
+    ['Transporte', budget.transport],
+    ['Atrações', budget.attractions],
+    ['Outros', budget.other]
+  ]
+
+  return (
+    <div className="space-y-6 text-sm text-brand-normal-text">
+      <div className="space-y-2">
+        <h4 className="font-heading text-base font-semibold text-brand-accent-text">{itinerary.title}</h4>
+        <p>{itinerary.introduction}</p>
+      </div>
+
+      <div className="space-y-4">
+        {itinerary.days.map((day) => (
+          <div key={day.day} className="space-y-2">
+            <h5 className="font-heading font-semibold text-brand-accent-text">
+              Dia {day.day} - {new Date(`${day.date}T12:00:00`).toLocaleDateString('pt-BR')}: {day.title}
+            </h5>
+            <ul className="space-y-2">
+              {day.activities.map((activity, index) => (
+                <li key={index} className="rounded-md border border-brand-input-border p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-1 font-medium">
+                      <Clock className="h-4 w-4" />
+                      {PERIOD_LABELS[activity.period]} · {activity.start_time}
+                      {activity.end_time && ` - ${activity.end_time}`}
+                    </span>
+                    <span>{formatUSD(activity.estimated_cost_usd)}</span>
+                  </div>
+                  <p className="mt-1 font-medium text-brand-accent-text">{activity.title}</p>
+                  <p>{activity.description}</p>
+                  <p className="mt-1 flex items-center gap-1 opacity-75">
+                    <MapPin className="h-3 w-3" />
+                    {activity.place.name}{activity.place.address && `, ${activity.place.address}`}
+                  </p>
+                  {activity.tips && <p className="mt-1 italic">Dica: {activity.tips}</p>}
+                </li>
+              ))}
+            </ul>
+            {day.rainy_day_alternative && (
+              <p className="flex items-center gap-1">
+                <CloudRain className="h-4 w-4" />
+                Em caso de chuva: {day.rainy_day_alternative}
+              </p>
+            )}
+            {onRegenerateDay && (
+              <div className="flex gap-2">
+                <Input
+                  placeholder="O que mudar neste dia? Ex: menos museus, mais praias"
+                  maxLength={500}
+                  value={feedbackByDay[day.day] || ''}
+                  onChange={(event) => setFeedbackByDay((prev) => ({ ...prev, [day.day]: event.target.value }))}
+                  disabled={regeneratingDay !== null}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleRegenerate(day.day)}
+                  disabled={regeneratingDay !== null}
+                >
+                  {regeneratingDay === day.day ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                  )}
+                  Refazer dia
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {itinerary.transfers && itinerary.transfers.length > 0 && (
+        <div className="space-y-2">
+          <h5 className="flex items-center gap-2 font-heading font-semibold text-brand-accent-text">
+            <TrainFront className="h-4 w-4" />
+            Deslocamentos
+          </h5>
+          <ul className="space-y-1">
+            {itinerary.transfers.map((transfer) => (
+              <li key={`${transfer.from}-${transfer.to}`}>
+                <span className="font-medium">{transfer.from} → {transfer.to}</span> (
+                {new Date(`${transfer.date}T12:00:00`).toLocaleDateString('pt-BR')}):{' '}
+                {TRANSFER_MODE_LABELS[transfer.mode]}, {transfer.duration}, {formatUSD(transfer.estimated_cost_usd)}.{' '}
+                {transfer.recommendation}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h5 className="flex items-center gap-2 font-heading font-semibold text-brand-accent-text">
+          <BedDouble className="h-4 w-4" />
+          Sugestões de Hospedagem
+        </h5>
+        <ul className="space-y-1">
+          {itinerary.lodging_options.map((option) => (
+            <li key={option.name}>
+              <span className="font-medium">{option.name}</span> ({option.city && `${option.city}, `}
+              {LODGING_CATEGORY_LABELS[option.category]},{' '}
+              {option.neighborhood}) - {formatUSD(option.price_per_night_usd)}/noite. {option.highlights}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="space-y-2">
+        <h5 className="flex items-center gap-2 font-heading font-semibold text-brand-accent-text">
+          <Wallet className="h-4 w-4" />
+          Orçamento Estimado
+        </h5>
+        <table className="w-full">
+          <tbody>
+            {budgetRows
+              .filter((row): row is [string, number] => row[1] !== undefined)
+              .map(([label, value]) => (
+                <tr key={label}>
+                  <td>{label}</td>
+                  <td className="text-right">{formatUSD(value)}</td>
+                </tr>
+              ))}
+            <tr className="font-semibold">
+              <td>Total</td>
+              <td className="text-right">{formatUSD(budget.total)}</td>
+            </tr>
+          </tbody>
+        </table>
+        {budget.saving_tips.length > 0 && (
+          <ul className="list-disc pl-5">
+            {budget.saving_tips.map((tip) => <li key={tip}>{tip}</li>)}
+          </ul>
+        )}
+      </div>
+
+      {itinerary.extra_tips.length > 0 && (
+        <div className="space-y-2">
+          <h5 className="flex items-center gap-2 font-heading font-semibold text-brand-accent-text">
+            <Lightbulb className="h-4 w-4" />
+            Dicas Extras
+          </h5>
+          <ul className="list-disc pl-5">
+            {itinerary.extra_tips.map((tip) => <li key={tip}>{tip}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import {
+  AIModelInfo,
   ApiResponse,
   TravelQuestionRequest,
   TravelQuestionResponse,
@@ -7,17 +8,31 @@ import {
   ItineraryRequest,
   Itinerary,
   ItineraryStatusResponse,
+  ItineraryProgressEvent,
+  ItineraryDetails,
+  ItineraryDayRegeneration,
+  ItineraryVersionSummary,
+  ItineraryVersionDiff,
+  ItineraryVersionRestore,
   HealthCheckResponse,
   RateLimitError,
-  RateLimitInfo
+  RateLimitInfo,
+  RateLimitStatus
 } from '../types/api';
 
+// Anonymous session token issued by the API in the X-Session-Id header
+const SESSION_STORAGE_KEY = 'alutrip-session-id';
+const SESSION_HEADER = 'x-session-id';
+
 class ApiClient {
   private client: AxiosInstance;
+  private baseURL: string;
 
   constructor() {
+    this.baseURL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
     this.client = axios.create({
-      baseURL: import.meta.env.VITE_API_URL || 'http://localhost:3000',
+      baseURL: this.baseURL,
       timeout: 30000,
       headers: {
         'Content-Type': 'application/json',
@@ -27,6 +42,10 @@ class ApiClient {
     this.client.interceptors.request.use(
       (config) => {
         console.log(`Making ${config.method?.toUpperCase()} request to ${config.url}`);
+        const sessionToken = this.getSessionToken();
+        if (sessionToken) {
+          config.headers.set(SESSION_HEADER, sessionToken);
+        }
         return config;
       },
       (error) => {
@@ -36,53 +55,14 @@ class ApiClient {
 
     this.client.interceptors.response.use(
       (response: AxiosResponse) => {
+        this.storeSessionToken(response.headers[SESSION_HEADER]);
         return response;
       },
       (error) => {
         if (error.response?.status === 429) {
-          // Rate limit error - handle both header-based and body-based responses
-          const responseData = error.response.data;
-          
-          console.log('Rate limit error response:', responseData);
-          
-          let rateLimitInfo: RateLimitInfo;
-          
-          if (responseData?.data?.resetTime || responseData?.data?.reset_time) {
-            const resetTimeString = responseData.data.resetTime || responseData.data.reset_time;
-            console.log('Reset time from backend:', resetTimeString);
-            console.log('Format detected:', responseData.data.resetTime ? 'camelCase (resetTime)' : 'snake_case (reset_time)');
-            
-            const resetTimeMs = new Date(resetTimeString).getTime();
-            const remaining = Math.max(0, responseData.data.limit - (responseData.data.used || responseData.data.limit));
-            
-            console.log('Parsed reset time (ms):', resetTimeMs);
-            console.log('Reset time as Unix timestamp:', Math.floor(resetTimeMs / 1000));
-            console.log('Current time (ms):', new Date().getTime());
-            console.log('Difference (ms):', resetTimeMs - new Date().getTime());
-            
-            rateLimitInfo = {
-              remaining: remaining,
-              resetTime: Math.floor(resetTimeMs / 1000),
-              limit: responseData.data.limit,
-            };
-          } else {
-            // Fallback to header-based format
-            console.log('Using header-based rate limit format');
-            rateLimitInfo = {
-              remaining: parseInt(error.response.headers['x-ratelimit-remaining'] || '0'),
-              resetTime: parseInt(error.response.headers['x-ratelimit-reset'] || '0'),
-              limit: parseInt(error.response.headers['x-ratelimit-limit'] || '5'),
-            };
-          }
-          
-          console.log('Final rateLimitInfo:', rateLimitInfo);
-          
-          const rateLimitError: RateLimitError = {
-            error: 'Rate limit exceeded',
-            message: 'Você excedeu o limite de requisições. Tente novamente mais tarde.',
-            rateLimitInfo: rateLimitInfo,
-          };
-          return Promise.reject(rateLimitError);
+          return Promise.reject(
+            this.createRateLimitError(error.response.data, (name) => error.response.headers[name])
+          );
         }
         return Promise.reject(error);
       }
@@ -107,6 +87,84 @@ class ApiClient {
     return response.data.data;
   }
 
+  /**
+   * Submit a travel question to the streaming endpoint.
+   * onToken receives each chunk of the answer as the AI generates it;
+   * the promise resolves with the stored question once the stream completes.
+   */
+  async streamTravelQuestion(
+    data: TravelQuestionRequest,
+    onToken: (token: string) => void
+  ): Promise<TravelQuestionResponse> {
+    const response = await fetch(`${this.baseURL}/api/travel/ask/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+        ...this.getSessionHeaders(),
+      },
+      body: JSON.stringify(data),
+    });
+
+    this.storeSessionToken(response.headers.get(SESSION_HEADER));
+
+    // Validation and rate limit errors come back as JSON before the stream opens
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => null);
+
+      if (response.status === 429) {
+        throw this.createRateLimitError(errorData, (name) => response.headers.get(name));
+      }
+
+      throw new Error(errorData?.message || 'Failed to submit travel question');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const rawEvent of events) {
+        const event = rawEvent.match(/^event: (.*)$/m)?.[1];
+        const payload = rawEvent.match(/^data: (.*)$/m)?.[1];
+        if (!event || !payload) continue;
+
+        const parsed = JSON.parse(payload);
+
+        if (event === 'token') {
+          onToken(parsed.content);
+        } else if (event === 'complete') {
+          return (parsed as ApiResponse<TravelQuestionResponse>).data as TravelQuestionResponse;
+        } else if (event === 'error') {
+          throw new Error(parsed.message || 'Failed to submit travel question');
+        }
+      }
+    }
+
+    throw new Error('Stream ended before the answer was complete');
+  }
+
+  async getModels(): Promise<AIModelInfo[]> {
+    const response = await this.client.get<ApiResponse<AIModelInfo[]>>(
+      '/api/travel/models'
+    );
+    
+    if (response.data.status !== 'success' || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to get AI models');
+    }
+    
+    return response.data.data;
+  }
+
   async getTravelQuestion(id: string): Promise<TravelQuestion> {
     const response = await this.client.get<ApiResponse<TravelQuestion>>(
       `/api/travel/questions/${id}`
@@ -132,6 +190,18 @@ class ApiClient {
     return response.data.data;
   }
 
+  async getItinerary(id: string): Promise<ItineraryDetails> {
+    const response = await this.client.get<ApiResponse<ItineraryDetails>>(
+      `/api/itinerary/${id}`
+    );
+    
+    if (response.data.status !== 'success' || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to get itinerary');
+    }
+    
+    return response.data.data;
+  }
+
   async getItineraryStatus(id: string): Promise<ItineraryStatusResponse> {
     const response = await this.client.get<ApiResponse<ItineraryStatusResponse>>(
       `/api/itinerary/${id}/status`
@@ -144,6 +214,85 @@ class ApiClient {
     return response.data.data;
   }
 
+  // Follows the generation of an itinerary; returns the function that stops following it
+  subscribeItineraryProgress(
+    id: string,
+    onProgress: (event: ItineraryProgressEvent) => void,
+    onError: () => void
+  ): () => void {
+    const source = new EventSource(`${this.baseURL}/api/itinerary/${id}/events`);
+
+    source.addEventListener('progress', (message) => {
+      const event = JSON.parse((message as MessageEvent<string>).data) as ItineraryProgressEvent;
+
+      // The server ends the stream after these, which EventSource would otherwise reconnect to
+      if (event.stage === 'completed' || event.stage === 'failed') {
+        source.close();
+      }
+
+      onProgress(event);
+    });
+
+    // EventSource reconnects on its own after a dropped connection; closed means the stream could not be opened
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        onError();
+      }
+    };
+
+    return () => source.close();
+  }
+
+  async regenerateItineraryDay(id: string, day: number, feedback?: string): Promise<ItineraryDayRegeneration> {
+    const response = await this.client.post<ApiResponse<ItineraryDayRegeneration>>(
+      `/api/itinerary/${id}/days/${day}/regenerate`,
+      feedback ? { feedback } : {}
+    );
+    
+    if (response.data.status !== 'success' || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to regenerate itinerary day');
+    }
+    
+    return response.data.data;
+  }
+
+  async getItineraryVersions(id: string): Promise<ItineraryVersionSummary[]> {
+    const response = await this.client.get<ApiResponse<{ versions: ItineraryVersionSummary[] }>>(
+      `/api/itinerary/${id}/versions`
+    );
+    
+    if (response.data.status !== 'success' || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to get itinerary versions');
+    }
+    
+    return response.data.data.versions;
+  }
+
+  async diffItineraryVersions(id: string, from?: number, to?: number): Promise<ItineraryVersionDiff> {
+    const response = await this.client.get<ApiResponse<ItineraryVersionDiff>>(
+      `/api/itinerary/${id}/versions/diff`,
+      { params: { from, to } }
+    );
+    
+    if (response.data.status !== 'success' || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to compare itinerary versions');
+    }
+    
+    return response.data.data;
+  }
+
+  async restoreItineraryVersion(id: string, version: number): Promise<ItineraryVersionRestore> {
+    const response = await this.client.post<ApiResponse<ItineraryVersionRestore>>(
+      `/api/itinerary/${id}/versions/${version}/restore`
+    );
+    
+    if (response.data.status !== 'success' || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to restore itinerary version');
+    }
+    
+    return response.data.data;
+  }
+
   async downloadItinerary(id: string): Promise<Blob> {
     const response = await this.client.get(`/api/itinerary/${id}/download`, {
       responseType: 'blob',
@@ -152,9 +301,80 @@ class ApiClient {
     return response.data;
   }
 
+  async getRateLimitStatus(): Promise<RateLimitStatus> {
+    const response = await this.client.get<ApiResponse<RateLimitStatus>>('/api/limits');
+    
+    if (response.data.status !== 'success' || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to get rate limits');
+    }
+    
+    return response.data.data;
+  }
+
+  private createRateLimitError(
+    responseData: any,
+    getHeader: (name: string) => string | null | undefined
+  ): RateLimitError {
+    // Rate limit error - handle both header-based and body-based responses
+    console.log('Rate limit error response:', responseData);
+    
+    let rateLimitInfo: RateLimitInfo;
+    
+    if (responseData?.data?.resetTime || responseData?.data?.reset_time) {
+      const resetTimeString = responseData.data.resetTime || responseData.data.reset_time;
+      console.log('Reset time from backend:', resetTimeString);
+      console.log('Format detected:', responseData.data.resetTime ? 'camelCase (resetTime)' : 'snake_case (reset_time)');
+      
+      const resetTimeMs = new Date(resetTimeString).getTime();
+      const remaining = Math.max(0, responseData.data.limit - (responseData.data.used || responseData.data.limit));
+      
+      console.log('Parsed reset time (ms):', resetTimeMs);
+      console.log('Reset time as Unix timestamp:', Math.floor(resetTimeMs / 1000));
+      console.log('Current time (ms):', new Date().getTime());
+      console.log('Difference (ms):', resetTimeMs - new Date().getTime());
+      
+      rateLimitInfo = {
+        remaining: remaining,
+        resetTime: Math.floor(resetTimeMs / 1000),
+        limit: responseData.data.limit,
+      };
+    } else {
+      // Fallback to header-based format
+      console.log('Using header-based rate limit format');
+      rateLimitInfo = {
+        remaining: parseInt(getHeader('x-ratelimit-remaining') || '0'),
+        resetTime: parseInt(getHeader('x-ratelimit-reset') || '0'),
+        limit: parseInt(getHeader('x-ratelimit-limit') || '5'),
+      };
+    }
+    
+    console.log('Final rateLimitInfo:', rateLimitInfo);
+    
+    return {
+      error: 'Rate limit exceeded',
+      message: 'Você excedeu o limite de requisições. Tente novamente mais tarde.',
+      rateLimitInfo: rateLimitInfo,
+    };
+  }
+
   isRateLimitError(error: any): error is RateLimitError {
     return error && typeof error === 'object' && 'rateLimitInfo' in error;
   }
+
+  private getSessionToken(): string | null {
+    return localStorage.getItem(SESSION_STORAGE_KEY);
+  }
+
+  private getSessionHeaders(): Record<string, string> {
+    const sessionToken = this.getSessionToken();
+    return sessionToken ? { [SESSION_HEADER]: sessionToken } : {};
+  }
+
+  private storeSessionToken(token: string | null | undefined): void {
+    if (token && token !== this.getSessionToken()) {
+      localStorage.setItem(SESSION_STORAGE_KEY, token);
+    }
+  }
 }
 
 export const apiClient = new ApiClient();
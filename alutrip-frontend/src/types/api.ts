@@ -5,10 +5,20 @@ export interface ApiResponse<T> {
   message?: string;
 }
 
+// Model names come from the backend provider registry (GET /api/travel/models)
+export type AIModel = string;
+
+export interface AIModelInfo {
+  name: AIModel;
+  label: string;
+  model: string;
+  available: boolean;
+}
+
 export interface TravelQuestion {
   id: string;
   question: string;
-  model: 'groq' | 'gemini';
+  model: AIModel;
   answer?: string;
   createdAt: string;
   status: 'pending' | 'completed' | 'failed';
@@ -16,23 +26,34 @@ export interface TravelQuestion {
 
 export interface TravelQuestionRequest {
   question: string;
-  model: 'groq' | 'gemini';
+  model: AIModel;
 }
 
 export interface TravelQuestionResponse {
   id: number;
   question: string;
   response: string;
-  model_used: 'groq' | 'gemini';
+  model_used: AIModel;
   created_at: string;
+  cached?: boolean;
+  similar_question_id?: number;
 }
 
-export interface ItineraryRequest {
+export interface ItineraryLeg {
   destination: string;
   start_date: string;
   end_date: string;
+}
+
+// With legs, the backend derives destination and dates from them
+export interface ItineraryRequest {
+  destination?: string;
+  start_date?: string;
+  end_date?: string;
+  legs?: ItineraryLeg[];
   budget?: number;
   interests?: string[];
+  model?: AIModel;
 }
 
 export interface Itinerary {
@@ -42,10 +63,144 @@ export interface Itinerary {
   end_date: string;
   budget?: number;
   interests?: string[];
+  legs?: ItineraryLeg[];
   status: 'pending' | 'processing' | 'completed' | 'failed';
   created_at: string;
   pdf_url?: string;
   error_message?: string;
+  structured_content?: StructuredItinerary | null;
+}
+
+// Structured itinerary validated by the backend (null when the AI output never matched the schema)
+export type ItineraryPeriod = 'morning' | 'lunch' | 'afternoon' | 'dinner' | 'evening';
+
+export type LodgingCategory = 'budget' | 'mid_range' | 'luxury';
+
+export interface ItineraryActivity {
+  period: ItineraryPeriod;
+  start_time: string;
+  end_time?: string;
+  title: string;
+  description: string;
+  place: {
+    name: string;
+    address?: string;
+  };
+  estimated_cost_usd: number;
+  tips?: string;
+}
+
+export interface ItineraryDay {
+  day: number;
+  date: string;
+  title: string;
+  activities: ItineraryActivity[];
+  rainy_day_alternative?: string;
+}
+
+export interface LodgingOption {
+  name: string;
+  category: LodgingCategory;
+  neighborhood: string;
+  price_per_night_usd: number;
+  highlights: string;
+  city?: string;
+}
+
+export type TransferMode = 'train' | 'bus' | 'flight' | 'car' | 'ferry';
+
+export interface ItineraryTransfer {
+  from: string;
+  to: string;
+  date: string;
+  mode: TransferMode;
+  duration: string;
+  estimated_cost_usd: number;
+  recommendation: string;
+}
+
+export interface StructuredItinerary {
+  title: string;
+  introduction: string;
+  practical_info: {
+    documentation: string;
+    currency: string;
+    transport: string;
+    safety: string;
+  };
+  days: ItineraryDay[];
+  lodging_options: LodgingOption[];
+  transfers?: ItineraryTransfer[];
+  budget: {
+    currency: 'USD';
+    lodging: number;
+    food: number;
+    transport: number;
+    attractions: number;
+    other?: number;
+    total: number;
+    saving_tips: string[];
+  };
+  extra_tips: string[];
+}
+
+export interface ItineraryDetails {
+  id: string;
+  destination: string;
+  legs: ItineraryLeg[] | null;
+  processing_status: 'pending' | 'processing' | 'completed' | 'failed';
+  model_used: AIModel;
+  generated_content: string;
+  structured_content: StructuredItinerary | null;
+  pdf_available: boolean;
+}
+
+export interface ItineraryDayRegeneration {
+  id: string;
+  day: ItineraryDay;
+  revision_number: number;
+  model_used: AIModel;
+  pdf_filename: string;
+}
+
+export type ItineraryVersionSource = 'generation' | 'day_regeneration' | 'restore';
+
+export interface ItineraryVersionSummary {
+  version_number: number;
+  source: ItineraryVersionSource;
+  model_used: AIModel;
+  prompt_parameters: {
+    request_data: ItineraryRequest;
+    total_chunks?: number;
+    day_number?: number;
+    feedback?: string;
+    restored_from?: number;
+  };
+  pdf_filename: string | null;
+  created_at: string;
+}
+
+export interface ItineraryVersionDiff {
+  id: string;
+  from_version: number;
+  to_version: number;
+  changes: Array<{ field: string; from: unknown; to: unknown }>;
+  days: Array<{
+    day: number;
+    status: 'added' | 'removed' | 'changed' | 'unchanged';
+    title?: { from: string; to: string };
+    added_activities: string[];
+    removed_activities: string[];
+  }>;
+  text_changes: Array<{ type: 'added' | 'removed'; line: string }>;
+}
+
+export interface ItineraryVersionRestore {
+  id: string;
+  version_number: number;
+  restored_from: number;
+  model_used: AIModel;
+  pdf_filename: string | null;
 }
 
 export interface ItineraryStatusResponse {
@@ -56,6 +211,17 @@ export interface ItineraryStatusResponse {
   pdf_url?: string;
 }
 
+// Generation progress pushed by GET /api/itinerary/:id/events; a failed attempt with retries left goes back to queued
+export type ItineraryJobStage = 'queued' | 'generating_content' | 'generating_pdf' | 'completed' | 'failed';
+
+export interface ItineraryProgressEvent {
+  itinerary_id: number;
+  stage: ItineraryJobStage;
+  percent: number;
+  completed_chunks?: number;
+  total_chunks?: number;
+}
+
 export interface RateLimitInfo {
   remaining: number;
   resetTime: number;
@@ -71,6 +237,20 @@ export interface RateLimitData {
   resetTime: string;
 }
 
+export type RateLimitFeature = 'travel_questions' | 'itineraries';
+
+export interface FeatureRateLimit {
+  used: number;
+  limit: number;
+  remaining: number;
+  reset_time: string;
+}
+
+export interface RateLimitStatus {
+  identity: { type: 'ip'; ip: string } | { type: 'api_key'; api_key_id: number; tier: string };
+  limits: Record<RateLimitFeature, FeatureRateLimit>;
+}
+
 export interface RateLimitError {
   error: string;
   message: string;
@@ -1,14 +1,22 @@
 export interface TravelQuestionFormData {
   question: string;
-  model: 'groq' | 'gemini';
+  model: string;
+}
+
+// Next city of a multi-destination trip; it starts when the previous one ends
+export interface ItineraryStopFormData {
+  destination: string;
+  endDate: Date;
 }
 
 export interface ItineraryFormData {
   destination: string;
   startDate: Date;
   endDate: Date;
+  stops?: ItineraryStopFormData[];
   budget?: number;
   interests?: string[];
+  model?: string;
 }
 
 export interface FormState {
@@ -17,6 +25,12 @@ export interface FormState {
   success?: boolean;
 }
 
+// Longest trip accepted by the backend (ITINERARY_MAX_DAYS)
+export const MAX_TRIP_DAYS = 30;
+
+// The backend accepts up to 6 legs: the first destination plus 5 stops
+export const MAX_TRIP_STOPS = 5;
+
 export const INTEREST_OPTIONS = [
   { value: 'culture', label: 'Cultura & Museus' },
   { value: 'food', label: 'Gastronomia' },
@@ -32,9 +46,14 @@ export const INTEREST_OPTIONS = [
 
 export type InterestOption = typeof INTEREST_OPTIONS[number]['value'];
 
-export const MODEL_OPTIONS = [
+export interface ModelOption {
+  value: string;
+  label: string;
+  available?: boolean;
+}
+
+// Fallback until the registered models are loaded from the API
+export const MODEL_OPTIONS: ModelOption[] = [
   { value: 'groq', label: 'Groq (Fast)' },
   { value: 'gemini', label: 'Gemini (Advanced)' }
-] as const;
-
-export type ModelOption = typeof MODEL_OPTIONS[number]['value'];
+];